@@ -0,0 +1,110 @@
+import { spawn } from 'node:child_process';
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { AgentExecutionError } from '@/utils/errors';
+
+import { buildCommandInvocation, CommandAgent, readCommandOutputLine } from '../command';
+
+vi.mock('node:child_process', () => ({
+  spawn: vi.fn(),
+}));
+
+type FakeProcess = EventEmitter & {
+  kill: ReturnType<typeof vi.fn>;
+  stderr: PassThrough;
+  stdin: PassThrough;
+  stdout: PassThrough;
+};
+
+function createFakeProcess(): FakeProcess {
+  const child = new EventEmitter() as FakeProcess;
+  child.stdout = new PassThrough();
+  child.stderr = new PassThrough();
+  child.stdin = new PassThrough();
+  child.kill = vi.fn();
+  return child;
+}
+
+const values = { prompt: 'Add a toggle', workdir: '/repo', files: ['a.ts', 'b.ts'] };
+
+describe('buildCommandInvocation', () => {
+  it('should substitute placeholders in a shell-like template', () => {
+    expect(
+      buildCommandInvocation('aider --message "{prompt}" --cwd={workdir} {files}', values),
+    ).toEqual({
+      command: 'aider',
+      args: ['--message', 'Add a toggle', '--cwd=/repo', 'a.ts', 'b.ts'],
+      stdin: null,
+    });
+  });
+
+  it('should deliver the prompt on stdin when the template has no placeholder', () => {
+    expect(buildCommandInvocation(['tool', 'run'], values)).toEqual({
+      command: 'tool',
+      args: ['run'],
+      stdin: 'Add a toggle',
+    });
+  });
+
+  it('should append the prompt for argument delivery without a placeholder', () => {
+    expect(buildCommandInvocation(['gemini', '-p'], values, 'argument')).toEqual({
+      command: 'gemini',
+      args: ['-p', 'Add a toggle'],
+      stdin: null,
+    });
+  });
+});
+
+describe('readCommandOutputLine', () => {
+  it('should read text from a dotted field of JSON lines', () => {
+    expect(readCommandOutputLine('{"item":{"text":"done"}}', 'jsonl', 'item.text')).toBe('done');
+    expect(readCommandOutputLine('{"type":"usage"}', 'jsonl')).toBeNull();
+    expect(readCommandOutputLine('starting up', 'jsonl')).toBe('starting up');
+    expect(readCommandOutputLine('  tasks:', 'text')).toBe('  tasks:');
+  });
+});
+
+describe('CommandAgent', () => {
+  let child: FakeProcess;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    child = createFakeProcess();
+    vi.mocked(spawn).mockReturnValue(child as unknown as ReturnType<typeof spawn>);
+  });
+
+  it('should return the text output of the query command', async () => {
+    const agent = new CommandAgent('gemini', {
+      type: 'command',
+      query: ['gemini', '--output-format', 'stream-json', '-p', '{prompt}'],
+      outputFormat: 'jsonl',
+      textField: 'content',
+    });
+
+    const response = agent.query('Summarise the repo', '/repo');
+    child.stdout.write('{"content":"A CLI"}\n{"content":"for stacks"}');
+    child.emit('close', 0);
+
+    await expect(response).resolves.toBe('A CLI\nfor stacks');
+    expect(spawn).toHaveBeenCalledWith(
+      'gemini',
+      ['--output-format', 'stream-json', '-p', 'Summarise the repo'],
+      expect.objectContaining({ cwd: '/repo' }),
+    );
+  });
+
+  it('should report a failing command with its stderr', async () => {
+    const agent = new CommandAgent('tool', { type: 'command', decompose: ['tool'] });
+
+    const response = agent.query('Summarise the repo', '/repo');
+    child.stderr.write('quota exceeded\n');
+    await new Promise((resolve) => global.setTimeout(resolve, 0));
+    child.emit('close', 3);
+
+    await expect(response).rejects.toThrow(AgentExecutionError);
+    await expect(response).rejects.toThrow(/exited with code 3: quota exceeded/);
+  });
+});
@@ -26,7 +26,10 @@ const DEFAULT_CODEX_ARGS = [
   '-',
 ] as const;
 
-type CodexEvent = {
+/**
+ * Event emitted by `codex exec --json`, one per stdout line
+ */
+export type CodexEvent = {
   msg?: Record<string, unknown> | null;
 };
 
@@ -35,12 +38,12 @@ type CodexInvocation = {
   command: string;
 };
 
-function readStringField(source: Record<string, unknown>, key: string): string | null {
+export function readStringField(source: Record<string, unknown>, key: string): string | null {
   const value = source[key];
   return typeof value === 'string' ? value : null;
 }
 
-function isRecord(value: unknown): value is Record<string, unknown> {
+export function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
@@ -61,7 +64,10 @@ function parseArgsFromJson(value: string): string[] | null {
   }
 }
 
-function parseArgsFromShellString(value: string): string[] | null {
+/**
+ * Split a shell-like argument string on whitespace, honouring single and double quotes.
+ */
+export function parseArgsFromShellString(value: string): string[] | null {
   const matches = value.match(/"[^"]*"|'[^']*'|\S+/g);
   if (matches === null) {
     return null;
@@ -75,17 +81,22 @@ function parseArgsFromShellString(value: string): string[] | null {
   return cleaned.length > 0 ? cleaned : null;
 }
 
+/**
+ * Resolve the Codex executable, honouring the `CODEX_CLI_COMMAND` override.
+ */
+export function resolveCodexCommand(): string {
+  const commandOverride = process.env.CODEX_CLI_COMMAND;
+  return isNonEmptyString(commandOverride) ? commandOverride.trim() : DEFAULT_CODEX_COMMAND;
+}
+
 /**
  * Resolve the Codex command/arguments taking environment overrides into account.
  */
 function resolveCodexInvocation(): CodexInvocation {
-  const commandOverride = process.env.CODEX_CLI_COMMAND;
   const argsOverrideJson = process.env.CODEX_CLI_ARGS_JSON;
   const argsOverrideShell = process.env.CODEX_CLI_ARGS;
 
-  const command = isNonEmptyString(commandOverride)
-    ? commandOverride.trim()
-    : DEFAULT_CODEX_COMMAND;
+  const command = resolveCodexCommand();
 
   let args: string[] = [...DEFAULT_CODEX_ARGS];
 
@@ -0,0 +1,281 @@
+import { spawn } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { clearTimeout, setTimeout } from 'node:timers';
+
+import type { AgentCapabilities, AgentType, DecomposerAgent } from '@/core/agents/interfaces';
+import type {
+  CommandAgentConfig,
+  CommandOutputFormat,
+  CommandPromptDelivery,
+  CommandTemplate,
+} from '@/core/config/types';
+import type { PlanV2 } from '@/types/schemas-v2';
+
+import { YamlPlanParser } from '@/io/yaml-parser';
+import { PromptBuilder } from '@/services/planning/prompts';
+import { AgentExecutionError, AgentNotFoundError, PlanParsingError } from '@/utils/errors';
+import { logger } from '@/utils/global-logger';
+import { isNonEmptyString } from '@/validation/guards';
+
+import { parseArgsFromShellString } from './codex';
+
+const FIVE_MINUTES_IN_MS = 300_000;
+
+const PROMPT_PLACEHOLDER = '{prompt}';
+const FILES_PLACEHOLDER = '{files}';
+const DEFAULT_TEXT_FIELD = 'text';
+
+/**
+ * Values substituted into a command template
+ */
+export type CommandPlaceholders = {
+  files: string[];
+  prompt: string;
+  workdir: string;
+};
+
+/**
+ * A rendered command template, ready to spawn
+ */
+export type CommandInvocation = {
+  args: string[];
+  command: string;
+  /** Written to the command's stdin, or null when the prompt is passed as an argument */
+  stdin: string | null;
+};
+
+/**
+ * Render a command template. `{files}` on its own expands to one argument per file.
+ *
+ * With `argument` delivery the prompt replaces `{prompt}`, or is appended as the last
+ * argument when the template has none; with `stdin` delivery it is written to stdin.
+ * Delivery defaults to `argument` when the template mentions `{prompt}`.
+ */
+export function buildCommandInvocation(
+  template: CommandTemplate,
+  values: CommandPlaceholders,
+  promptDelivery?: CommandPromptDelivery,
+): CommandInvocation {
+  const tokens =
+    typeof template === 'string' ? (parseArgsFromShellString(template) ?? []) : template;
+  const hasPromptPlaceholder = tokens.some((token) => token.includes(PROMPT_PLACEHOLDER));
+  const delivery = promptDelivery ?? (hasPromptPlaceholder ? 'argument' : 'stdin');
+
+  const rendered = tokens.flatMap((token) =>
+    token === FILES_PLACEHOLDER
+      ? values.files
+      : [
+          token
+            .replaceAll(PROMPT_PLACEHOLDER, delivery === 'argument' ? values.prompt : '')
+            .replaceAll('{workdir}', values.workdir)
+            .replaceAll(FILES_PLACEHOLDER, values.files.join(' ')),
+        ],
+  );
+  if (delivery === 'argument' && !hasPromptPlaceholder) {
+    rendered.push(values.prompt);
+  }
+
+  const [command, ...args] = rendered;
+  if (!isNonEmptyString(command)) {
+    throw new Error('Command template is empty');
+  }
+  return { command, args, stdin: delivery === 'stdin' ? values.prompt : null };
+}
+
+/**
+ * The text carried by one line of command output. For `jsonl` output this is the string
+ * at `textField` (a dotted path), null for blank lines and JSON lines without one; lines
+ * that are not JSON are kept as plain text.
+ */
+export function readCommandOutputLine(
+  line: string,
+  outputFormat: CommandOutputFormat = 'text',
+  textField: string = DEFAULT_TEXT_FIELD,
+): string | null {
+  const trimmed = line.trim();
+  if (outputFormat === 'text') {
+    return line.replace(/\r$/, '');
+  }
+  if (trimmed === '') {
+    return null;
+  }
+
+  let event: unknown;
+  try {
+    event = JSON.parse(trimmed);
+  } catch {
+    return trimmed;
+  }
+
+  let value: unknown = event;
+  for (const key of textField.split('.')) {
+    value =
+      typeof value === 'object' && value !== null
+        ? (value as Record<string, unknown>)[key]
+        : undefined;
+  }
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Agent backed by an arbitrary coding CLI configured under `agents` with `type: command`
+ *
+ * Decomposition and queries are read-only prompt-in, text-out invocations, so each falls
+ * back to the other's template when only one is configured.
+ */
+export class CommandAgent implements DecomposerAgent {
+  constructor(
+    private readonly _name: string,
+    private readonly _config: CommandAgentConfig,
+  ) {}
+
+  async decompose(
+    specContent: string,
+    cwd: string,
+    options?: { planOutputPath?: string; verbose?: boolean },
+  ): Promise<PlanV2> {
+    const planOutputPath = options?.planOutputPath;
+    const prompt = PromptBuilder.buildDecompositionPrompt(specContent, planOutputPath);
+    const output = await this._run(
+      this._config.decompose ?? this._config.query,
+      prompt,
+      cwd,
+      options?.verbose ?? false,
+    );
+
+    // Agents that can write files create the plan directly; the rest print it
+    if (isNonEmptyString(planOutputPath) && existsSync(planOutputPath)) {
+      logger.debug(`📖 Reading plan from: ${planOutputPath}`);
+      return YamlPlanParser.parse(await readFile(planOutputPath, 'utf8'));
+    }
+    return this._parsePlan(output);
+  }
+
+  async query(prompt: string, cwd: string, options?: { verbose?: boolean }): Promise<string> {
+    return this._run(
+      this._config.query ?? this._config.decompose,
+      prompt,
+      cwd,
+      options?.verbose ?? false,
+    );
+  }
+
+  getCapabilities(): AgentCapabilities {
+    return {
+      maxContextLength: 100_000,
+      supportsDecomposition:
+        this._config.decompose !== undefined || this._config.query !== undefined,
+      supportsStreaming: this._config.outputFormat === 'jsonl',
+      version: '1.0',
+    };
+  }
+
+  getType(): AgentType {
+    return this._name;
+  }
+
+  private async _run(
+    template: CommandTemplate | undefined,
+    prompt: string,
+    cwd: string,
+    verbose: boolean,
+  ): Promise<string> {
+    if (template === undefined) {
+      throw new AgentExecutionError(this._name, 'no decompose or query command is configured');
+    }
+
+    const { command, args, stdin } = buildCommandInvocation(
+      template,
+      { prompt, workdir: cwd, files: [] },
+      this._config.promptDelivery,
+    );
+    logger.info(`🔍 Running ${this._name} agent (${command})...`);
+    logger.debug(`[CommandAgent] Spawning ${command} with args: ${JSON.stringify(args)}`);
+
+    return new Promise<string>((resolve, reject) => {
+      const child = spawn(command, args, { cwd, env: process.env, stdio: 'pipe' });
+      const lines: string[] = [];
+      let lineBuffer = '';
+      let stderr = '';
+
+      const readLine = (line: string): void => {
+        const text = readCommandOutputLine(line, this._config.outputFormat, this._config.textField);
+        if (text !== null) {
+          lines.push(text);
+        }
+      };
+
+      const timeout = setTimeout(() => {
+        child.kill();
+        reject(new AgentExecutionError(this._name, 'command timed out after 5 minutes'));
+      }, FIVE_MINUTES_IN_MS);
+
+      child.stdout.on('data', (data: Buffer) => {
+        const chunk = data.toString();
+        if (verbose) {
+          process.stdout.write(chunk);
+        }
+        lineBuffer += chunk;
+        const chunkLines = lineBuffer.split('\n');
+        lineBuffer = chunkLines.pop() ?? '';
+        for (const line of chunkLines) {
+          readLine(line);
+        }
+      });
+
+      child.stderr.on('data', (data: Buffer) => {
+        stderr += data.toString();
+      });
+
+      child.on('error', (error) => {
+        clearTimeout(timeout);
+        reject(new AgentNotFoundError(this._name, error));
+      });
+
+      child.on('close', (code: number | null) => {
+        clearTimeout(timeout);
+        if (lineBuffer !== '') {
+          readLine(lineBuffer);
+        }
+        if (code !== 0) {
+          const detail = stderr.trim() === '' ? '' : `: ${stderr.trim().slice(-500)}`;
+          reject(
+            new AgentExecutionError(
+              this._name,
+              `command exited with code ${code}${detail}`,
+              code ?? undefined,
+            ),
+          );
+          return;
+        }
+        resolve(lines.join('\n'));
+      });
+
+      if (stdin !== null) {
+        child.stdin.write(stdin);
+      }
+      child.stdin.end();
+    });
+  }
+
+  private _parsePlan(output: string): PlanV2 {
+    const content =
+      YamlPlanParser.extractYamlFromMarkdown(output) ??
+      YamlPlanParser.extractJsonFromMarkdown(output) ??
+      output.trim();
+    if (content === '') {
+      throw new PlanParsingError(`No plan found in ${this._name} agent output`, output);
+    }
+
+    try {
+      return YamlPlanParser.parse(content);
+    } catch (error) {
+      throw new PlanParsingError(
+        `No valid plan found in ${this._name} agent output`,
+        output,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+}
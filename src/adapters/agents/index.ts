@@ -7,6 +7,7 @@ import { AgentServiceImpl } from '@/services/agents';
 export { ClaudeCodeDecomposer } from './claude';
 
 export { CodexDecomposer } from './codex';
+export { CommandAgent } from './command';
 // V2 Agent exports
 export { MockAgent } from './mock';
 
@@ -62,13 +62,7 @@ export class GitSpiceBackend implements VcsBackend {
     }
 
     // Use provided trunk or detect the current branch to use as trunk
-    let trunkBranch: string;
-    if (hasContent(trunk)) {
-      trunkBranch = trunk;
-    } else {
-      const currentBranch = await git.git.raw(['rev-parse', '--abbrev-ref', 'HEAD']);
-      trunkBranch = currentBranch.trim() === 'HEAD' ? 'main' : currentBranch.trim();
-    }
+    const trunkBranch = hasContent(trunk) ? trunk : await this._detectCurrentBranch(git);
 
     try {
       // Initialize git-spice with trunk branch (no remote needed for local testing)
@@ -362,15 +356,21 @@ export class GitSpiceBackend implements VcsBackend {
 
       // Parse git-spice stack log output
       const branches = this._parseStackLog(stdout);
+      const stackRoot = await this._detectTrunk(workdir);
+      const parents = await this._resolveParents(
+        branches.map((branch) => branch.name),
+        stackRoot,
+        workdir,
+      );
 
       return {
         branches: branches.map((branch) => ({
           name: branch.name,
           taskId: branch.taskId,
           commitHash: branch.commitHash,
-          parent: '', // Will be determined when building stack
+          parent: parents.get(branch.name) ?? stackRoot,
         })),
-        stackRoot: 'main', // Default stack root
+        stackRoot,
         prUrls: [], // Will be populated when stack is submitted
       };
     } catch (error) {
@@ -393,6 +393,29 @@ export class GitSpiceBackend implements VcsBackend {
     } = {},
   ): Promise<string[]> {
     try {
+      // Branches with recorded titles (folded phase or plan branches) are submitted first
+      // so their PRs keep those titles
+      const titledUrls: string[] = [];
+      const titles = await new GitWrapper(workdir).getBranchTitles();
+      for (const [branchName, title] of titles) {
+        const branchArgs = ['branch', 'submit', '--branch', branchName, '--title', title, '--fill'];
+        if (options.draft !== false) {
+          branchArgs.push('--draft');
+        }
+        const branchResult = await execa('gs', branchArgs, {
+          cwd: workdir,
+          timeout: 60_000,
+          all: true,
+          reject: false,
+        });
+        if (branchResult.exitCode === 0) {
+          titledUrls.push(...extractPrUrls(branchResult.stdout));
+        } else {
+          // Branches git-spice does not track are left out of the stack submission too
+          logger.warn(`⚠️ Could not submit ${branchName}: ${branchResult.stderr.trim()}`);
+        }
+      }
+
       const args = ['stack', 'submit'];
 
       if (options.draft !== false) {
@@ -414,7 +437,7 @@ export class GitSpiceBackend implements VcsBackend {
       });
 
       // Parse PR URLs from output
-      const prUrls = extractPrUrls(stdout);
+      const prUrls = [...new Set([...titledUrls, ...extractPrUrls(stdout)])];
 
       if (prUrls.length > 0) {
         logger.info('🚀 Pull requests created:');
@@ -731,6 +754,111 @@ export class GitSpiceBackend implements VcsBackend {
     );
   }
 
+  /**
+   * Trunk the stack is based on: the trunk git-spice was initialized with, else the
+   * current branch
+   */
+  private async _detectTrunk(workdir: string): Promise<string> {
+    const git = new GitWrapper(workdir);
+    try {
+      const trunk = await git.git.raw(['config', '--get', 'spice.trunk']);
+      if (hasContent(trunk.trim())) {
+        return trunk.trim();
+      }
+    } catch {
+      // Not configured, fall back to the current branch
+    }
+    return this._detectCurrentBranch(git);
+  }
+
+  /**
+   * Current branch, or main on a detached HEAD
+   */
+  private async _detectCurrentBranch(git: GitWrapper): Promise<string> {
+    const currentBranch = await git.git.raw(['rev-parse', '--abbrev-ref', 'HEAD']);
+    return currentBranch.trim() === 'HEAD' ? 'main' : currentBranch.trim();
+  }
+
+  /**
+   * Resolve each branch's parent as its nearest ancestor among the stacked
+   * branches, falling back to trunk. Works for linear and tree-shaped stacks.
+   *
+   * Reads the commits between trunk and the branch tips with a single `git rev-list`
+   * and walks that graph in memory, instead of comparing every pair of branches.
+   */
+  private async _resolveParents(
+    branchNames: string[],
+    trunk: string,
+    workdir: string,
+  ): Promise<Map<string, string>> {
+    const parents = new Map(branchNames.map((branch) => [branch, trunk]));
+    if (branchNames.length < 2) {
+      return parents;
+    }
+
+    const tips = await execa('git', ['rev-parse', ...branchNames], { cwd: workdir, reject: false });
+    const graph = await execa('git', ['rev-list', '--parents', ...branchNames, '--not', trunk], {
+      cwd: workdir,
+      reject: false,
+    });
+    if (tips.exitCode !== 0 || graph.exitCode !== 0) {
+      return parents;
+    }
+
+    const tipOf = new Map(
+      branchNames.map((branch, index) => [branch, tips.stdout.split('\n')[index]]),
+    );
+    const commitParents = new Map(
+      graph.stdout
+        .split('\n')
+        .filter((line) => line.length > 0)
+        .map((line) => {
+          const [commit = '', ...commitParentHashes] = line.split(' ');
+          return [commit, commitParentHashes];
+        }),
+    );
+
+    // Commits reachable from each tip, limited to the commits above trunk
+    const reachable = (tip: string | undefined): Set<string> => {
+      const seen = new Set<string>();
+      const pending = tip === undefined ? [] : [tip];
+      for (let commit = pending.pop(); commit !== undefined; commit = pending.pop()) {
+        if (!seen.has(commit) && commitParents.has(commit)) {
+          seen.add(commit);
+          pending.push(...(commitParents.get(commit) ?? []));
+        }
+      }
+      return seen;
+    };
+    const ancestors = new Map(
+      branchNames.map((branch) => {
+        const commits = reachable(tipOf.get(branch));
+        const branchAncestors = branchNames.filter((candidate) => {
+          const candidateTip = tipOf.get(candidate);
+          return (
+            candidate !== branch &&
+            candidateTip !== undefined &&
+            candidateTip !== tipOf.get(branch) &&
+            commits.has(candidateTip)
+          );
+        });
+        return [branch, branchAncestors];
+      }),
+    );
+
+    // The nearest ancestor is the one with the most ancestors of its own
+    const depth = (branch: string): number => ancestors.get(branch)?.length ?? 0;
+    for (const [branch, branchAncestors] of ancestors) {
+      const nearest = branchAncestors.reduce<string | undefined>(
+        (best, candidate) =>
+          best === undefined || depth(candidate) > depth(best) ? candidate : best,
+        undefined,
+      );
+      parents.set(branch, nearest ?? trunk);
+    }
+    return parents;
+  }
+
   /**
    * Parse git-spice stack log output
    */
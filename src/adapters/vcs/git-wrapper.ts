@@ -269,6 +269,39 @@ export class GitWrapper {
       .filter((line) => line.length > 0);
   }
 
+  /**
+   * Record the pull request title of a branch in its git config; git drops it with the branch
+   */
+  async setBranchTitle(branchName: string, title: string): Promise<void> {
+    await this.gitClient.raw(['config', `branch.${branchName}.chopstackTitle`, title]);
+  }
+
+  /**
+   * Pull request titles recorded with setBranchTitle, by branch name
+   */
+  async getBranchTitles(): Promise<Map<string, string>> {
+    const titles = new Map<string, string>();
+    let output: string;
+    try {
+      output = await this.gitClient.raw([
+        'config',
+        '--get-regexp',
+        String.raw`^branch\..*\.chopstacktitle$`,
+      ]);
+    } catch {
+      // git exits with an error when no branch has a title
+      return titles;
+    }
+
+    for (const line of output.split('\n')) {
+      const match = line.match(/^branch\.(.+)\.chopstacktitle (.*)$/);
+      if (match?.[1] !== undefined && match[2] !== undefined) {
+        titles.set(match[1], match[2]);
+      }
+    }
+    return titles;
+  }
+
   /**
    * Parse git worktree list --porcelain output
    */
@@ -0,0 +1,192 @@
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { setupGitTest } from '@test/helpers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { GraphiteBackend } from '@/adapters/vcs/graphite/backend';
+
+/**
+ * Fake `gt` executable that records its arguments and emulates the subset of
+ * Graphite behaviour the backend relies on using plain git
+ */
+const GT_SHIM = `#!/usr/bin/env bash
+echo "$*" >> "$GT_SHIM_LOG"
+case "$1" in
+  --version) echo "1.4.3" ;;
+  trunk) exit 1 ;;
+  create) git checkout -q -b "$2" && git commit -q -m "$4" ;;
+  modify) git commit -q -m "$4" ;;
+  log)
+    echo "◉  feature-b (current)"
+    echo "◯  feature-a"
+    echo "◯  main"
+    ;;
+  submit)
+    echo "feature-a: https://app.graphite.dev/github/pr/acme/app/1 (created)"
+    echo "feature-b: https://app.graphite.dev/github/pr/acme/app/2 (created)"
+    ;;
+esac
+exit 0
+`;
+
+describe('GraphiteBackend integration tests', () => {
+  const { getGit, getTmpDir } = setupGitTest('graphite-backend-integration');
+
+  let shimDir: string;
+  let logFile: string;
+  let originalPath: string | undefined;
+
+  const gtCalls = (): string[] => readFileSync(logFile, 'utf8').trim().split('\n');
+
+  beforeEach(() => {
+    shimDir = mkdtempSync(path.join(tmpdir(), 'chopstack-gt-shim-'));
+    logFile = path.join(shimDir, 'calls.log');
+    writeFileSync(logFile, '');
+    writeFileSync(path.join(shimDir, 'gt'), GT_SHIM);
+    chmodSync(path.join(shimDir, 'gt'), 0o755);
+
+    originalPath = process.env.PATH;
+    process.env.PATH = `${shimDir}${path.delimiter}${originalPath ?? ''}`;
+    process.env.GT_SHIM_LOG = logFile;
+  });
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+    delete process.env.GT_SHIM_LOG;
+    rmSync(shimDir, { recursive: true, force: true });
+  });
+
+  describe('with gt on PATH', () => {
+    it('should detect the Graphite CLI', async () => {
+      await expect(new GraphiteBackend().isAvailable()).resolves.toBe(true);
+    });
+
+    it('should initialize Graphite with the requested trunk', async () => {
+      await new GraphiteBackend().initialize(getTmpDir(), 'main');
+
+      expect(gtCalls()).toContain('init --trunk main --no-interactive');
+    });
+
+    it('should create a branch with gt create', async () => {
+      const git = getGit();
+      const testDir = getTmpDir();
+      writeFileSync(path.join(testDir, 'feature.ts'), 'export const feature = true;\n');
+      await git.add('feature.ts');
+
+      const branch = await new GraphiteBackend().createBranchWithCommit(
+        testDir,
+        'feature-a',
+        'Add feature',
+      );
+
+      expect(branch).toBe('feature-a');
+      expect(gtCalls()).toContain('create feature-a --message Add feature --no-interactive');
+      expect((await git.branch()).current).toBe('feature-a');
+    });
+
+    it('should create stack branches with git and track them with gt', async () => {
+      const git = getGit();
+      const testDir = getTmpDir();
+      const trunk = (await git.branchLocal()).current;
+
+      await new GraphiteBackend().createStackBranch('feature-a', trunk, testDir);
+
+      const branches = await git.branchLocal();
+      expect(branches.all).toContain('feature-a');
+      expect(branches.current).toBe(trunk);
+      expect(gtCalls()).toContain(`track feature-a --parent ${trunk} --no-interactive`);
+    });
+
+    it('should commit in the stack with gt modify', async () => {
+      const git = getGit();
+      const testDir = getTmpDir();
+      writeFileSync(path.join(testDir, 'feature.ts'), 'export const feature = true;\n');
+
+      const commitHash = await new GraphiteBackend().commitInStack('Add feature', testDir, {
+        files: ['feature.ts'],
+      });
+
+      expect(gtCalls()).toContain('modify --commit --message Add feature --no-interactive');
+      expect(commitHash).toBe((await git.revparse(['HEAD'])).trim());
+    });
+
+    it('should commit with plain git when restacking is disabled', async () => {
+      const testDir = getTmpDir();
+      writeFileSync(path.join(testDir, 'feature.ts'), 'export const feature = true;\n');
+
+      const commitHash = await new GraphiteBackend().commitInStack('Add feature', testDir, {
+        files: ['feature.ts'],
+        noRestack: true,
+      });
+
+      expect(commitHash).not.toBe('');
+      expect(gtCalls().some((call) => call.startsWith('modify'))).toBe(false);
+    });
+
+    it('should restack with gt restack', async () => {
+      await new GraphiteBackend().restack(getTmpDir());
+
+      expect(gtCalls()).toContain('restack --no-interactive');
+    });
+
+    it('should read the stack from gt log short', async () => {
+      const git = getGit();
+      const testDir = getTmpDir();
+      await git.branch(['feature-a']);
+      await git.branch(['feature-b']);
+
+      const stackInfo = await new GraphiteBackend().getStackInfo(testDir);
+
+      expect(stackInfo?.stackRoot).toBe('main');
+      expect(stackInfo?.branches?.map(({ name, parent }) => ({ name, parent }))).toEqual([
+        { name: 'feature-a', parent: 'main' },
+        { name: 'feature-b', parent: 'feature-a' },
+      ]);
+      expect(stackInfo?.branches?.[0]?.commitHash).toBe((await git.revparse(['HEAD'])).trim());
+    });
+
+    it('should submit the stack and return PR URLs', async () => {
+      const urls = await new GraphiteBackend().submitStack(getTmpDir(), { autoMerge: true });
+
+      expect(gtCalls()).toContain('submit --stack --no-interactive --draft --merge-when-ready');
+      expect(urls).toEqual([
+        'https://app.graphite.dev/github/pr/acme/app/1',
+        'https://app.graphite.dev/github/pr/acme/app/2',
+      ]);
+    });
+  });
+
+  describe('without gt', () => {
+    const missingCommand = '/nonexistent/chopstack/gt';
+
+    it('should fall back to plain git for branch creation and commits', async () => {
+      const git = getGit();
+      const testDir = getTmpDir();
+      const backend = new GraphiteBackend({ command: missingCommand });
+
+      await expect(backend.isAvailable()).resolves.toBe(false);
+
+      await backend.createStackBranch('feature-a', (await git.branchLocal()).current, testDir);
+      await git.checkout('feature-a');
+      writeFileSync(path.join(testDir, 'feature.ts'), 'export const feature = true;\n');
+      const commitHash = await backend.commitInStack('Add feature', testDir, {
+        files: ['feature.ts'],
+      });
+
+      expect(commitHash).toBe((await git.revparse(['HEAD'])).trim());
+      expect((await git.log({ maxCount: 1 })).latest?.message).toBe('Add feature');
+      await expect(backend.restack(testDir)).resolves.toBeUndefined();
+      await expect(backend.getStackInfo(testDir)).resolves.toBeNull();
+    });
+
+    it('should refuse to submit the stack', async () => {
+      const backend = new GraphiteBackend({ command: missingCommand });
+
+      await expect(backend.submitStack(getTmpDir())).rejects.toThrow(
+        'Graphite CLI (gt) is not installed',
+      );
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { extractGraphitePrUrls, parseGraphiteLog } from '../helpers';
+
+describe('parseGraphiteLog', () => {
+  it('should parse a linear stack from trunk to top', () => {
+    const branches = parseGraphiteLog(
+      ['◉  chopstack/task-b', '◯  chopstack/task-a (needs restack)', '◯  main'].join('\n'),
+    );
+
+    expect(branches).toEqual([
+      { name: 'main', current: false, needsRestack: false },
+      { name: 'chopstack/task-a', current: false, needsRestack: true, parent: 'main' },
+      { name: 'chopstack/task-b', current: true, needsRestack: false, parent: 'chopstack/task-a' },
+    ]);
+  });
+
+  it('should follow lanes to the parent of each branch in a tree', () => {
+    const branches = parseGraphiteLog(
+      [
+        '│ ◉  chopstack/task-c',
+        '◯ │  chopstack/task-b',
+        '◯─┘  chopstack/task-a',
+        '│ ◯  chopstack/docs',
+        '├─┘',
+        '◯  main',
+      ].join('\n'),
+    );
+
+    expect(branches.map(({ name, parent }) => ({ name, parent }))).toEqual([
+      { name: 'main', parent: undefined },
+      { name: 'chopstack/docs', parent: 'main' },
+      { name: 'chopstack/task-a', parent: 'main' },
+      { name: 'chopstack/task-b', parent: 'chopstack/task-a' },
+      { name: 'chopstack/task-c', parent: 'chopstack/task-a' },
+    ]);
+  });
+});
+
+describe('extractGraphitePrUrls', () => {
+  it('should extract unique GitHub and Graphite PR links', () => {
+    const output = [
+      'feature-a: https://app.graphite.dev/github/pr/acme/app/1 (created)',
+      'feature-b: https://github.com/acme/app/pull/2 (updated)',
+      'feature-a: https://app.graphite.dev/github/pr/acme/app/1 (created)',
+    ].join('\n');
+
+    expect(extractGraphitePrUrls(output)).toEqual([
+      'https://app.graphite.dev/github/pr/acme/app/1',
+      'https://github.com/acme/app/pull/2',
+    ]);
+  });
+});
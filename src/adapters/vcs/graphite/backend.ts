@@ -0,0 +1,445 @@
+/**
+ * Graphite VCS backend implementation
+ */
+
+import { execa } from 'execa';
+
+import type { GitSpiceStackInfo } from '@/core/execution/types';
+import type { VcsBackend } from '@/core/vcs/interfaces';
+
+import { generateBranchNameFromMessage } from '@/adapters/vcs/git-spice/helpers';
+import { GitWrapper } from '@/adapters/vcs/git-wrapper';
+import { logger } from '@/utils/global-logger';
+import { hasContent, isNonEmptyString } from '@/validation/guards';
+
+import { GraphiteError } from './errors';
+import { extractGraphitePrUrls, parseGraphiteLog } from './helpers';
+
+const GRAPHITE_BRANCH_TIMEOUT_MS = 120_000;
+
+export type GraphiteBackendOptions = {
+  /**
+   * Graphite CLI executable (defaults to `gt` on PATH)
+   */
+  command?: string;
+};
+
+/**
+ * Graphite VCS backend backed by the `gt` CLI.
+ *
+ * When `gt` is not installed, branch creation and commits fall back to plain git
+ * (branches are left untracked and restacking is skipped) so stacked execution still
+ * produces one branch per task. Submitting a stack always requires `gt`.
+ */
+export class GraphiteBackend implements VcsBackend {
+  private readonly command: string;
+  private _availability: Promise<boolean> | null = null;
+
+  constructor(options: GraphiteBackendOptions = {}) {
+    this.command = options.command ?? 'gt';
+  }
+
+  /**
+   * Check if the Graphite CLI is available in the system
+   */
+  async isAvailable(): Promise<boolean> {
+    this._availability ??= this._checkAvailability();
+    return this._availability;
+  }
+
+  /**
+   * Initialize Graphite in the repository if not already initialized
+   *
+   * NOTE: Like the git-spice backend, this is intended for test environments.
+   * Users should run `gt init` in their repository themselves.
+   */
+  async initialize(workdir: string, trunk?: string): Promise<void> {
+    if (!(await this._requireGraphite('initialize'))) {
+      return;
+    }
+
+    const { exitCode } = await execa(this.command, ['trunk', '--no-interactive'], {
+      cwd: workdir,
+      reject: false,
+      timeout: 10_000,
+    });
+    if (exitCode === 0) {
+      logger.info('🌿 Graphite already initialized');
+      return;
+    }
+
+    const git = new GitWrapper(workdir);
+    const trunkBranch = trunk ?? (await git.getCurrentBranch());
+
+    try {
+      await execa(this.command, ['init', '--trunk', trunkBranch, '--no-interactive'], {
+        cwd: workdir,
+        timeout: 10_000,
+      });
+      logger.info(`🌿 Graphite initialized with trunk: ${trunkBranch}`);
+    } catch (error) {
+      throw this._extractDetailedError(error, 'gt init');
+    }
+  }
+
+  /**
+   * Create a Graphite branch containing the staged changes
+   */
+  async createBranchWithCommit(
+    workdir: string,
+    branchName: string,
+    commitMessage: string,
+  ): Promise<string> {
+    const finalBranchName = hasContent(branchName)
+      ? branchName
+      : generateBranchNameFromMessage(commitMessage);
+
+    if (!(await this._requireGraphite('createBranchWithCommit'))) {
+      const git = new GitWrapper(workdir);
+      await git.checkoutLocalBranch(finalBranchName);
+      await git.commit(commitMessage);
+      logger.info(`🌿 Created git branch: ${finalBranchName}`);
+      return finalBranchName;
+    }
+
+    try {
+      await execa(
+        this.command,
+        ['create', finalBranchName, '--message', commitMessage, '--no-interactive'],
+        {
+          all: true,
+          cwd: workdir,
+          timeout: GRAPHITE_BRANCH_TIMEOUT_MS,
+        },
+      );
+
+      logger.info(`🌿 Created Graphite branch: ${finalBranchName}`);
+      return finalBranchName;
+    } catch (error) {
+      throw this._extractDetailedError(error, 'gt create');
+    }
+  }
+
+  /**
+   * Create a branch on top of the parent branch holding a single existing commit
+   *
+   * @returns The actual branch name created (may have a suffix if the name was taken)
+   */
+  async createBranchFromCommit(
+    branchName: string,
+    commitHash: string,
+    parentBranch: string,
+    workdir: string,
+  ): Promise<string> {
+    const git = new GitWrapper(workdir);
+
+    let finalBranchName = branchName;
+    if (await git.branchExists(branchName)) {
+      finalBranchName = `${branchName}-${Date.now().toString(36)}`;
+      logger.warn(`  ⚠️ Branch ${branchName} already exists, using ${finalBranchName} instead`);
+    }
+
+    const originalBranch = await git.getCurrentBranch();
+    try {
+      // Creates and checks out the branch from the parent
+      await git.createBranch(finalBranchName, parentBranch);
+      try {
+        await git.cherryPick(commitHash);
+      } catch (cherryPickError) {
+        logger.warn(`  ⚠️ Cherry-pick failed, using reset as fallback: ${String(cherryPickError)}`);
+        await execa('git', ['cherry-pick', '--abort'], { cwd: workdir, reject: false });
+        await git.reset(['--hard', commitHash]);
+      }
+    } catch (error) {
+      throw new GraphiteError(
+        `Failed to create branch ${branchName} from commit`,
+        'git cherry-pick',
+        error instanceof Error ? error.message : String(error),
+      );
+    } finally {
+      await git.checkout(originalBranch);
+    }
+
+    await this.trackBranch(finalBranchName, parentBranch, workdir);
+    return finalBranchName;
+  }
+
+  /**
+   * Create a branch in the stack with proper parent tracking
+   * Creates the branch with git and registers its parent with `gt track`
+   */
+  async createStackBranch(
+    branchName: string,
+    parentBranch: string,
+    workdir: string,
+  ): Promise<void> {
+    logger.info(`🌿 Creating stack branch ${branchName} with parent ${parentBranch}`);
+
+    const git = new GitWrapper(workdir);
+    if (await git.branchExists(branchName)) {
+      logger.info(`📌 Branch ${branchName} already exists, skipping creation`);
+      return;
+    }
+
+    try {
+      await git.git.raw(['branch', branchName, parentBranch]);
+    } catch (error) {
+      throw this._extractDetailedError(error, `git branch ${branchName}`);
+    }
+
+    await this.trackBranch(branchName, parentBranch, workdir);
+    logger.info(`✅ Created branch ${branchName} with parent ${parentBranch}`);
+  }
+
+  /**
+   * Commit staged changes on the current branch using `gt modify --commit`
+   * `gt modify` always restacks upstack branches, so `noRestack` commits with plain git
+   */
+  async commitInStack(
+    message: string,
+    workdir: string,
+    options?: {
+      files?: string[];
+      noRestack?: boolean;
+    },
+  ): Promise<string> {
+    const git = new GitWrapper(workdir);
+
+    if (options?.files !== undefined && options.files.length > 0) {
+      await git.add(options.files);
+    }
+
+    const status = await git.status();
+    if (status.staged === undefined || status.staged.length === 0) {
+      logger.warn(`⚠️ No changes to commit in ${workdir}`);
+      return '';
+    }
+
+    const useGraphite =
+      options?.noRestack !== true && (await this._requireGraphite('commitInStack'));
+
+    try {
+      await (useGraphite
+        ? execa(this.command, ['modify', '--commit', '--message', message, '--no-interactive'], {
+            cwd: workdir,
+            timeout: 30_000,
+            all: true,
+          })
+        : git.commit(message));
+    } catch (error) {
+      throw this._extractDetailedError(error, useGraphite ? 'gt modify --commit' : 'git commit');
+    }
+
+    const commitHash = await git.getCurrentCommit();
+    logger.info(`✅ Committed with ${useGraphite ? 'Graphite' : 'git'}: ${commitHash.slice(0, 7)}`);
+    return commitHash;
+  }
+
+  /**
+   * Track an existing branch with Graphite
+   * Used to integrate branches created outside of Graphite
+   */
+  async trackBranch(branchName: string, parentBranch: string, workdir: string): Promise<void> {
+    if (!(await this._requireGraphite('trackBranch'))) {
+      return;
+    }
+
+    logger.info(`🔗 Tracking existing branch ${branchName} with parent ${parentBranch}`);
+
+    try {
+      await execa(
+        this.command,
+        ['track', branchName, '--parent', parentBranch, '--no-interactive'],
+        {
+          cwd: workdir,
+          timeout: 10_000,
+        },
+      );
+
+      logger.info(`✅ Tracked branch ${branchName} with parent ${parentBranch}`);
+    } catch (error) {
+      throw this._extractDetailedError(error, `gt track ${branchName}`);
+    }
+  }
+
+  /**
+   * Restack all tracked branches using `gt restack`
+   */
+  async restack(workdir: string): Promise<void> {
+    if (!(await this._requireGraphite('restack'))) {
+      return;
+    }
+
+    logger.info(`🔄 Running gt restack...`);
+
+    try {
+      await execa(this.command, ['restack', '--no-interactive'], {
+        cwd: workdir,
+        timeout: 30_000,
+      });
+      logger.info(`✅ Successfully restacked stack branches`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn(`⚠️ Failed to restack branches: ${errorMessage}`);
+      throw new GraphiteError('Failed to restack branches', 'gt restack', errorMessage);
+    }
+  }
+
+  /**
+   * Get current stack information from `gt log short`
+   */
+  async getStackInfo(workdir: string): Promise<GitSpiceStackInfo | null> {
+    if (!(await this.isAvailable())) {
+      return null;
+    }
+
+    try {
+      const { stdout } = await execa(this.command, ['log', 'short', '--no-interactive'], {
+        cwd: workdir,
+        timeout: 10_000,
+      });
+
+      const [trunk, ...stackBranches] = parseGraphiteLog(stdout);
+      if (trunk === undefined) {
+        return null;
+      }
+
+      const branches: GitSpiceStackInfo['branches'] = [];
+      for (const branch of stackBranches) {
+        const { stdout: commitHash } = await execa('git', ['rev-parse', branch.name], {
+          cwd: workdir,
+          reject: false,
+        });
+        branches.push({
+          name: branch.name,
+          taskId: branch.name.replace(/^chopstack\//, ''),
+          commitHash: commitHash.trim(),
+          parent: branch.parent ?? trunk.name,
+        });
+      }
+
+      return {
+        branches,
+        stackRoot: trunk.name,
+        prUrls: [],
+      };
+    } catch (error) {
+      logger.warn(
+        `Could not get Graphite stack info: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Submit the stack to GitHub as pull requests with `gt submit --stack`
+   */
+  async submitStack(
+    workdir: string,
+    options: {
+      autoMerge?: boolean;
+      draft?: boolean;
+      extraArgs?: string[];
+    } = {},
+  ): Promise<string[]> {
+    if (!(await this.isAvailable())) {
+      throw new GraphiteError(
+        'Graphite CLI (gt) is not installed or not in PATH; cannot submit stack',
+        'gt submit',
+      );
+    }
+
+    if ((await new GitWrapper(workdir).getBranchTitles()).size > 0) {
+      // gt submit has no per-branch title flag; Graphite titles PRs from the first commit
+      logger.warn('⚠️ Graphite does not support custom PR titles; using commit messages instead');
+    }
+
+    const args = ['submit', '--stack', '--no-interactive'];
+
+    if (options.draft !== false) {
+      args.push('--draft');
+    }
+
+    if (options.autoMerge === true) {
+      args.push('--merge-when-ready');
+    }
+
+    if (Array.isArray(options.extraArgs)) {
+      args.push(...options.extraArgs);
+    }
+
+    try {
+      const { stdout } = await execa(this.command, args, {
+        cwd: workdir,
+        timeout: 60_000, // Allow more time for GitHub API calls
+        all: true,
+      });
+
+      const prUrls = extractGraphitePrUrls(stdout);
+
+      if (prUrls.length > 0) {
+        logger.info('🚀 Pull requests created:');
+        for (const url of prUrls) {
+          logger.info(`  └─ ${url}`);
+        }
+      }
+
+      return prUrls;
+    } catch (error) {
+      throw this._extractDetailedError(error, 'gt submit');
+    }
+  }
+
+  private async _checkAvailability(): Promise<boolean> {
+    try {
+      await execa(this.command, ['--version'], { timeout: 5000 });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check Graphite availability, logging the plain git fallback when it is missing
+   */
+  private async _requireGraphite(operation: string): Promise<boolean> {
+    if (await this.isAvailable()) {
+      return true;
+    }
+    logger.warn(`⚠️ Graphite CLI (${this.command}) not available, ${operation} uses plain git`);
+    return false;
+  }
+
+  /**
+   * Extract detailed error information from execa errors
+   */
+  private _extractDetailedError(error: unknown, command: string): GraphiteError {
+    if (!(error instanceof Error)) {
+      return new GraphiteError(`Unknown error during ${command}`, command, String(error));
+    }
+
+    const execaError = error as Error & {
+      all?: string;
+      exitCode?: number;
+      stderr?: string;
+      stdout?: string;
+    };
+
+    const output = [execaError.stderr, execaError.all, execaError.stdout].find(
+      (value): value is string => isNonEmptyString(value) && hasContent(value),
+    );
+
+    const details = [
+      execaError.exitCode === undefined ? undefined : `Exit code: ${execaError.exitCode}`,
+      output === undefined ? undefined : `OUTPUT:\n${output}`,
+    ].filter((detail): detail is string => detail !== undefined);
+
+    return new GraphiteError(
+      details.length > 0
+        ? `${command} failed:\n${details.join('\n')}`
+        : `${command} failed: ${error.message}`,
+      command,
+      output ?? error.message,
+    );
+  }
+}
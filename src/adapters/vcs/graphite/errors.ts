@@ -0,0 +1,14 @@
+/**
+ * Graphite error handling
+ */
+
+export class GraphiteError extends Error {
+  constructor(
+    message: string,
+    public readonly command?: string,
+    public readonly stderr?: string,
+  ) {
+    super(message);
+    this.name = 'GraphiteError';
+  }
+}
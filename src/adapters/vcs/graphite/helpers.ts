@@ -0,0 +1,83 @@
+/**
+ * Graphite helper utilities
+ */
+
+/**
+ * Branch entry parsed from `gt log short` output
+ */
+export type GraphiteLogBranch = {
+  current: boolean;
+  name: string;
+  needsRestack: boolean;
+  /** Branch this one is stacked on; undefined for trunk */
+  parent?: string;
+};
+
+/**
+ * Extract PR URLs (GitHub or Graphite app links) from `gt submit` output
+ */
+export function extractGraphitePrUrls(output: string): string[] {
+  const prUrlRegex =
+    /https:\/\/(?:github\.com\/\S+\/pull\/\d+|app\.graphite\.dev\/github\/pr\/\S+\/\d+)/g;
+  return [...new Set(output.match(prUrlRegex) ?? [])];
+}
+
+/**
+ * Parse `gt log short` output into branches, ordered from trunk to the top of the stack
+ *
+ * Graphite prints the stack top-down with box-drawing graph characters, one lane per
+ * column, e.g.
+ * ```
+ * │ ◉  chopstack/task-c
+ * ◯ │  chopstack/task-b (needs restack)
+ * ◯─┘  chopstack/task-a
+ * ◯  main
+ * ```
+ * A branch's parent is the first branch below it in the branch's lane, following the
+ * lane where it joins another one (task-c and task-b both build on task-a above).
+ */
+export function parseGraphiteLog(output: string): GraphiteLogBranch[] {
+  const lines = output.split('\n');
+  const entries = new Map<number, { marker: string; name: string; rest: string }>();
+  const columns = new Map<number, number>();
+
+  for (const [index, line] of lines.entries()) {
+    const match = line.match(/^([\s─│┌┐└┘├┤┬┴┼]*)([◉○●◯])[\s─│┌┐└┘├┤┬┴┼]*\s(\S+)(.*)$/);
+    const [, lane = '', marker, name, rest = ''] = match ?? [];
+    if (marker !== undefined && name !== undefined) {
+      entries.set(index, { marker, name, rest });
+      columns.set(index, lane.length);
+    }
+  }
+
+  // Follow a lane down from a branch until it reaches the next branch marker
+  const findParent = (index: number): string | undefined => {
+    let column = columns.get(index) ?? 0;
+    for (let next = index + 1; next < lines.length; next++) {
+      const line = lines[next] ?? '';
+      if ('─┘┴┤'.includes(line[column] ?? ' ')) {
+        // The lane joins the one where the horizontal run starts
+        while (column > 0 && line[column - 1] === '─') {
+          column--;
+        }
+        column--;
+      }
+      if (columns.get(next) === column) {
+        return entries.get(next)?.name;
+      }
+    }
+    return undefined;
+  };
+
+  return [...entries]
+    .map(([index, { marker, name, rest }]) => {
+      const parent = findParent(index);
+      return {
+        name,
+        current: marker === '◉' || marker === '●',
+        needsRestack: rest.includes('needs restack'),
+        ...(parent !== undefined && { parent }),
+      };
+    })
+    .reverse();
+}
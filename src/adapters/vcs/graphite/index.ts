@@ -1 +1,12 @@
-// TODO: Implement Graphite VCS adapter
+/**
+ * Graphite module exports
+ */
+
+// Main backend
+export { GraphiteBackend, type GraphiteBackendOptions } from './backend';
+
+// Errors
+export { GraphiteError } from './errors';
+
+// Helper functions (exported for testing)
+export { extractGraphitePrUrls, parseGraphiteLog, type GraphiteLogBranch } from './helpers';
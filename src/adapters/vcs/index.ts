@@ -0,0 +1,21 @@
+import { match } from 'ts-pattern';
+
+import type { VcsBackendType } from '@/core/execution/types';
+import type { VcsBackend } from '@/core/vcs/interfaces';
+
+import { GitSpiceBackend } from './git-spice';
+import { GraphiteBackend } from './graphite';
+
+export { GitSpiceBackend, GitSpiceError } from './git-spice';
+export { GitWrapper } from './git-wrapper';
+export { GraphiteBackend, GraphiteError } from './graphite';
+
+/**
+ * Create the stacking backend used for stacked execution and the stack command
+ */
+export function createVcsBackend(type: VcsBackendType = 'git-spice'): VcsBackend {
+  return match(type)
+    .with('git-spice', () => new GitSpiceBackend())
+    .with('graphite', () => new GraphiteBackend())
+    .exhaustive();
+}
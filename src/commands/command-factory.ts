@@ -64,6 +64,7 @@ export function createDefaultDependencies(
       logger: overrides?.logger ?? logger,
       cwd: overrides?.cwd ?? process.cwd(),
       env: overrides?.env ?? process.env,
+      ...(overrides?.config !== undefined && { config: overrides.config }),
     },
     ...(serviceOverrides !== undefined ? { services: serviceOverrides } : {}),
   };
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for ConfigCommand
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ResolvedAppConfig } from '@/core/config/interfaces';
+
+import { ConfigCommand } from '../config-command';
+
+describe('ConfigCommand', () => {
+  let log: ReturnType<typeof vi.spyOn>;
+
+  const resolved: ResolvedAppConfig = {
+    config: {
+      agent: { type: 'codex' },
+      agents: {},
+      execution: {
+        continueOnError: false,
+        cwd: '/repo',
+        dryRun: false,
+        maxRetries: 2,
+        mode: 'dry-run',
+        vcsMode: 'worktree',
+        verbose: false,
+      },
+      vcs: { provider: 'git-spice' },
+    },
+    sources: {
+      'agent.type': 'env',
+      'execution.maxRetries': 'cli',
+      'execution.vcsMode': '/repo/chopstack.config.yaml',
+    },
+  };
+
+  const createCommand = (config?: ResolvedAppConfig): ConfigCommand =>
+    new ConfigCommand({
+      context: {
+        cwd: '/repo',
+        env: {},
+        logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+        ...(config !== undefined && { config }),
+      },
+    });
+
+  beforeEach(() => {
+    log = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('should print each value with its source as JSON', async () => {
+    const exitCode = await createCommand(resolved).execute({ format: 'json', verbose: false });
+
+    const output = JSON.parse(String(log.mock.calls[0]?.[0])) as {
+      values: Array<{ path: string; source: string; value: unknown }>;
+    };
+    expect(exitCode).toBe(0);
+    expect(output.values).toEqual(
+      expect.arrayContaining([
+        { path: 'agent.type', value: 'codex', source: 'env' },
+        { path: 'execution.vcsMode', value: 'worktree', source: '/repo/chopstack.config.yaml' },
+        { path: 'execution.maxRetries', value: 2, source: 'cli' },
+        { path: 'vcs.provider', value: 'git-spice', source: 'default' },
+      ]),
+    );
+  });
+
+  it('should resolve the config itself when none was provided', async () => {
+    const exitCode = await createCommand().execute({ format: 'text', verbose: false });
+
+    const output = log.mock.calls.map((call) => String(call[0])).join('\n');
+    expect(exitCode).toBe(0);
+    expect(output).toContain('execution.vcsMode');
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Config command for inspecting the resolved project configuration
+ */
+
+import chalk from 'chalk';
+
+import type { ConfigCommandOptions } from '@/types/cli';
+
+import { RegisterCommand } from '@/commands/command-factory';
+import { BaseCommand, type CommandDependencies } from '@/commands/types';
+import { findConfigFile, loadConfig } from '@/services/config';
+
+import { printResolvedConfig } from './config-report';
+
+/**
+ * Show the configuration a command would run with and where each value comes from
+ */
+@RegisterCommand('config')
+export class ConfigCommand extends BaseCommand {
+  constructor(dependencies: CommandDependencies) {
+    super('config', 'Show the resolved configuration and the source of each value', dependencies);
+  }
+
+  async execute(options: ConfigCommandOptions): Promise<number> {
+    try {
+      const cwd = options.targetDir ?? this.cwd;
+      const resolved =
+        this.context.config ??
+        (await loadConfig({
+          cwd,
+          ...(this.context.env !== undefined && { env: this.context.env }),
+        }));
+
+      printResolvedConfig(resolved, findConfigFile(cwd), options.format);
+      return 0;
+    } catch (error) {
+      this.logger.error(
+        chalk.red(
+          `❌ Config command failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      return 1;
+    }
+  }
+}
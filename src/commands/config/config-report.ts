@@ -0,0 +1,42 @@
+/**
+ * Terminal and JSON rendering for the resolved configuration
+ */
+
+import chalk from 'chalk';
+
+import type { ResolvedAppConfig } from '@/core/config/interfaces';
+
+/* eslint-disable no-console */
+
+/**
+ * Print the resolved configuration with the source of each value
+ */
+export function printResolvedConfig(
+  resolved: ResolvedAppConfig,
+  configFile: string | null,
+  format: 'json' | 'text',
+): void {
+  const entries = Object.entries(resolved.config).flatMap(([section, values]) =>
+    Object.entries(values as Record<string, unknown>).map(([key, value]) => ({
+      path: `${section}.${key}`,
+      value,
+      source: resolved.sources[`${section}.${key}`] ?? 'default',
+    })),
+  );
+
+  if (format === 'json') {
+    console.log(JSON.stringify({ configFile, values: entries }, null, 2));
+    return;
+  }
+
+  console.log(`\n${chalk.bold('⚙️  Resolved configuration')}`);
+  console.log(chalk.dim(`Config file: ${configFile ?? 'none found'}\n`));
+
+  const width = Math.max(...entries.map((entry) => entry.path.length));
+  for (const entry of entries) {
+    console.log(
+      `  ${entry.path.padEnd(width)}  ${chalk.cyan(JSON.stringify(entry.value))} ${chalk.dim(`(${entry.source})`)}`,
+    );
+  }
+  console.log('');
+}
@@ -0,0 +1,2 @@
+export { ConfigCommand } from './config-command';
+export { printResolvedConfig } from './config-report';
@@ -385,4 +385,45 @@ describe('DecomposeCommand unit tests', () => {
       );
     });
   });
+
+  describe('Auto repair with --auto-repair', () => {
+    it('should ask for local repairs and log them before writing the plan', async () => {
+      mockGeneratePlanWithRetry.mockResolvedValue({
+        plan: mockPlan,
+        success: true,
+        attempts: 1,
+        conflicts: [],
+        repairs: [
+          {
+            action: 'remove',
+            kind: 'dangling-dependency',
+            path: 'tasks.task-1.dependencies',
+            value: 'ghost',
+            reason: "task 'ghost' does not exist",
+          },
+        ],
+      });
+      const logger = { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+
+      const command = new DecomposeCommand({ context: { cwd: '/repo', logger } });
+      const result = await command.execute({
+        spec: 'test-spec.md',
+        agent: 'claude',
+        autoRepair: true,
+        skipGates: false,
+        verbose: false,
+      });
+
+      expect(result).toBe(0);
+      expect(mockGeneratePlanWithRetry).toHaveBeenCalledWith(
+        mockAgent,
+        expect.any(String),
+        '/repo',
+        expect.objectContaining({ autoRepair: true }),
+      );
+      expect(logger.info).toHaveBeenCalledWith(
+        expect.stringContaining("- tasks.task-1.dependencies: ghost (task 'ghost' does not exist)"),
+      );
+    });
+  });
 });
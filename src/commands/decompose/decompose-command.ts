@@ -8,10 +8,16 @@ import { resolve } from 'node:path';
 import chalk from 'chalk';
 
 import type { DecomposeCommandOptions } from '@/types/cli';
+import type { PlanV2 } from '@/types/schemas-v2';
 
 import { createDecomposerAgent } from '@/adapters/agents';
 import { RegisterCommand } from '@/commands/command-factory';
+import { printRepairChangelog } from '@/commands/plan/repair-changelog';
 import { BaseCommand, type CommandDependencies } from '@/commands/types';
+import {
+  estimatePlanUsage,
+  UsageHistoryServiceImpl,
+} from '@/services/execution/usage-history-service';
 import { generatePlanWithRetry } from '@/services/planning/plan-generator';
 import { PlanOutputter } from '@/services/planning/plan-outputter';
 import { ProcessGateService } from '@/services/planning/process-gate-service';
@@ -72,11 +78,16 @@ export class DecomposeCommand extends BaseCommand {
 
       // Generate plan with retry logic
       const result = await generatePlanWithRetry(agent, specContent, cwd, {
+        autoRepair: options.autoRepair ?? false,
         maxRetries: 3,
         verbose: options.verbose,
         planOutputPath: planPath,
       });
 
+      if (result.repairs !== undefined) {
+        printRepairChangelog(this.logger, result.repairs);
+      }
+
       if (!result.success) {
         // Final validation failed
         const validation = DagValidator.validatePlan(result.plan);
@@ -138,6 +149,7 @@ export class DecomposeCommand extends BaseCommand {
       this.logger.info(chalk.dim(`  Tasks: ${result.plan.tasks.length}`));
       this.logger.info(chalk.dim(`  Max parallel: ${metrics.maxParallelization}`));
       this.logger.info(chalk.dim(`  Critical path: ${metrics.criticalPathLength} steps`));
+      await this._printUsageEstimate(cwd, result.plan);
       this.logger.info('');
 
       if (options.output !== undefined) {
@@ -183,4 +195,34 @@ export class DecomposeCommand extends BaseCommand {
       return 1;
     }
   }
+
+  /**
+   * Estimate the plan's cost from the usage of past runs' tasks of the same complexity
+   */
+  private async _printUsageEstimate(cwd: string, plan: PlanV2): Promise<void> {
+    try {
+      const history = await new UsageHistoryServiceImpl().load(cwd);
+      const estimate = estimatePlanUsage(plan, history);
+      if (estimate.estimatedTaskCount === 0) {
+        this.logger.info(chalk.dim('  Estimated cost: unknown (no usage history yet)'));
+        return;
+      }
+
+      const partial =
+        estimate.unknownSizes.length > 0
+          ? `, excluding sizes without history: ${estimate.unknownSizes.join(', ')}`
+          : '';
+      this.logger.info(
+        chalk.dim(
+          `  Estimated cost: ~$${estimate.costUsd.toFixed(2)}, ~${estimate.tokens} tokens (${estimate.estimatedTaskCount}/${plan.tasks.length} tasks${partial})`,
+        ),
+      );
+    } catch (error) {
+      this.logger.warn(
+        chalk.yellow(
+          `  ⚠️ Could not estimate cost: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
 }
@@ -15,8 +15,12 @@ export {
   RegisterCommand,
 } from './command-factory';
 
+export { ConfigCommand } from './config';
+
 export { DecomposeCommand } from './decompose';
 
+export { PlanDiffCommand, PlanEditCommand, PlanGraphCommand, PlanRepairCommand } from './plan';
+
 export { RunCommand } from './run';
 
 export { SpecifyCommand } from './specify';
@@ -25,3 +29,5 @@ export { StackCommand } from './stack';
 // Export types
 export type { Command, CommandContext, CommandDependencies } from './types';
 export { BaseCommand } from './types';
+
+export { ValidateCommand } from './validate';
@@ -0,0 +1,107 @@
+/**
+ * Unit tests for PlanDiffCommand
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it, type MockInstance, vi } from 'vitest';
+
+import { PlanDiffCommand } from '../plan-diff-command';
+
+vi.mock('node:fs/promises', () => ({
+  readFile: vi.fn(),
+}));
+
+describe('PlanDiffCommand', () => {
+  let command: PlanDiffCommand;
+  let logger: {
+    debug: ReturnType<typeof vi.fn>;
+    error: ReturnType<typeof vi.fn>;
+    info: ReturnType<typeof vi.fn>;
+    warn: ReturnType<typeof vi.fn>;
+  };
+  let stdoutWrite: MockInstance<typeof process.stdout.write>;
+
+  const oldPlan = `
+name: Dark Mode
+strategy: parallel
+tasks:
+  - id: types
+    name: Theme Types
+    complexity: S
+    description: Define the theme types shared by the provider and the toggle component.
+    files: [src/types.ts]
+  - id: provider
+    name: Theme Provider
+    complexity: M
+    description: Create the theme provider and mount it at the root of the application.
+    files: [src/app.tsx]
+    dependencies: [types]
+`;
+  const newPlan = oldPlan
+    .replaceAll('types', 'theme-types')
+    .replace('src/theme-types.ts', 'src/types.ts')
+    .replace('complexity: M', 'complexity: L');
+
+  const output = (): string => stdoutWrite.mock.calls.map((call) => String(call[0])).join('');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    logger = { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+    command = new PlanDiffCommand({ context: { cwd: '/repo', env: {}, logger } });
+    stdoutWrite = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    vi.mocked(readFile).mockResolvedValueOnce(oldPlan).mockResolvedValueOnce(newPlan);
+  });
+
+  afterEach(() => {
+    stdoutWrite.mockRestore();
+  });
+
+  it('should print the task changes and metrics as text', async () => {
+    const exitCode = await command.execute({
+      before: 'old.yaml',
+      after: 'new.yaml',
+      format: 'text',
+      verbose: false,
+    });
+
+    expect(exitCode).toBe(0);
+    expect(readFile).toHaveBeenNthCalledWith(1, resolve('old.yaml'), 'utf8');
+    expect(output()).toContain('Plan diff: old.yaml → new.yaml');
+    expect(output()).toContain('~ types → theme-types (100% similar)');
+    expect(output()).toContain('complexity: M → L');
+    expect(output()).toContain('Critical path: 6 → 10 (+4)');
+  });
+
+  it('should print the diff as JSON', async () => {
+    const exitCode = await command.execute({
+      before: 'old.yaml',
+      after: 'new.yaml',
+      format: 'json',
+      verbose: false,
+    });
+
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(output())).toMatchObject({
+      before: 'old.yaml',
+      after: 'new.yaml',
+      renamed: [{ from: 'types', to: 'theme-types' }],
+      changed: [{ id: 'provider', complexity: { before: 'M', after: 'L' } }],
+    });
+  });
+
+  it('should fail when a plan cannot be parsed', async () => {
+    vi.mocked(readFile).mockReset().mockResolvedValue('name: Broken\ntasks: [');
+
+    const exitCode = await command.execute({
+      before: 'old.yaml',
+      after: 'new.yaml',
+      format: 'text',
+      verbose: false,
+    });
+
+    expect(exitCode).toBe(1);
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('Plan diff command failed'));
+  });
+});
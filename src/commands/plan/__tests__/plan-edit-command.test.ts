@@ -0,0 +1,114 @@
+/**
+ * Unit tests for PlanEditCommand
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { PlanEditCommand } from '../plan-edit-command';
+
+vi.mock('node:fs/promises', () => ({
+  readFile: vi.fn(),
+  writeFile: vi.fn(),
+}));
+
+describe('PlanEditCommand', () => {
+  let command: PlanEditCommand;
+  let logger: {
+    debug: ReturnType<typeof vi.fn>;
+    error: ReturnType<typeof vi.fn>;
+    info: ReturnType<typeof vi.fn>;
+    raw: ReturnType<typeof vi.fn>;
+    warn: ReturnType<typeof vi.fn>;
+  };
+
+  const planYaml = `# Dark mode
+name: Dark Mode
+strategy: parallel
+tasks:
+  - id: theme-types
+    name: Theme Types
+    complexity: S
+    description: Define the theme types shared by the provider and the toggle component.
+    files: [src/types.ts]
+  # Mounted at the application root
+  - id: theme-provider
+    name: Theme Provider
+    complexity: M
+    description: Create the theme provider and mount it at the root of the application.
+    files: [src/app.tsx]
+    dependencies: [theme-types]
+`;
+
+  const writtenContent = (): string => vi.mocked(writeFile).mock.calls[0]?.[1] as string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    logger = { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn(), raw: vi.fn() };
+    command = new PlanEditCommand({ context: { cwd: '/repo', env: {}, logger } });
+    vi.mocked(readFile).mockResolvedValue(planYaml);
+  });
+
+  it('should write the edited plan over the plan file, keeping its comments', async () => {
+    const exitCode = await command.execute({
+      plan: 'plan.yaml',
+      edit: { type: 'rename', task: 'theme-types', id: 'types' },
+      dryRun: false,
+      force: false,
+      verbose: false,
+    });
+
+    expect(exitCode).toBe(0);
+    expect(vi.mocked(writeFile).mock.calls[0]?.[0]).toBe(resolve('plan.yaml'));
+    expect(writtenContent()).toBe(
+      planYaml.replace('id: theme-types', 'id: types').replace('[theme-types]', '[types]'),
+    );
+  });
+
+  it('should refuse edits that introduce validation errors unless forced', async () => {
+    const options = {
+      plan: 'plan.yaml',
+      edit: { type: 'add-dep', task: 'theme-types', dependency: 'theme-provider' },
+      dryRun: false,
+      verbose: false,
+    } as const;
+
+    expect(await command.execute({ ...options, force: false })).toBe(1);
+    expect(writeFile).not.toHaveBeenCalled();
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('introduces new errors'));
+
+    expect(await command.execute({ ...options, force: true })).toBe(0);
+    expect(writtenContent()).toContain('dependencies:\n      - theme-provider\n');
+  });
+
+  it('should print the edited plan without writing it on a dry run', async () => {
+    const exitCode = await command.execute({
+      plan: 'plan.yaml',
+      edit: { type: 'remove-dep', task: 'theme-provider', dependency: 'theme-types' },
+      dryRun: true,
+      force: false,
+      verbose: false,
+    });
+
+    expect(exitCode).toBe(0);
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should report edits that do not fit the plan', async () => {
+    const exitCode = await command.execute({
+      plan: 'plan.yaml',
+      edit: { type: 'remove-dep', task: 'theme-types', dependency: 'theme-provider' },
+      dryRun: false,
+      force: false,
+      verbose: false,
+    });
+
+    expect(exitCode).toBe(1);
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining("Task 'theme-types' does not depend on 'theme-provider'"),
+    );
+  });
+});
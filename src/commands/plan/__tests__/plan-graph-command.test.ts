@@ -0,0 +1,90 @@
+/**
+ * Unit tests for PlanGraphCommand
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it, type MockInstance, vi } from 'vitest';
+
+import { PlanGraphCommand } from '../plan-graph-command';
+
+vi.mock('node:fs/promises', () => ({
+  readFile: vi.fn(),
+  writeFile: vi.fn(),
+}));
+
+describe('PlanGraphCommand', () => {
+  let command: PlanGraphCommand;
+  let stdout: MockInstance<typeof process.stdout.write>;
+  let logger: {
+    debug: ReturnType<typeof vi.fn>;
+    error: ReturnType<typeof vi.fn>;
+    info: ReturnType<typeof vi.fn>;
+    warn: ReturnType<typeof vi.fn>;
+  };
+
+  const planYaml = `
+name: Dark Mode
+strategy: parallel
+tasks:
+  - id: create-toggle
+    name: Create Toggle
+    complexity: M
+    description: Create the dark mode toggle component and wire it into the settings page.
+    files: [src/toggle.tsx]
+`;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    logger = { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+    command = new PlanGraphCommand({ context: { cwd: '/repo', env: {}, logger } });
+    vi.mocked(readFile).mockResolvedValue(planYaml);
+  });
+
+  afterEach(() => {
+    stdout.mockRestore();
+  });
+
+  it('should print the graph to stdout', async () => {
+    const exitCode = await command.execute({
+      plan: 'plan.yaml',
+      format: 'mermaid',
+      verbose: false,
+    });
+
+    expect(exitCode).toBe(0);
+    expect(readFile).toHaveBeenCalledWith(resolve('plan.yaml'), 'utf8');
+    expect(String(stdout.mock.calls[0]?.[0])).toContain(
+      't_create_toggle["create-toggle<br/>Create Toggle · M"]',
+    );
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should write the graph to the output file', async () => {
+    const exitCode = await command.execute({
+      plan: 'plan.yaml',
+      format: 'html',
+      output: 'plan.html',
+      verbose: false,
+    });
+
+    expect(exitCode).toBe(0);
+    expect(writeFile).toHaveBeenCalledWith(
+      resolve('plan.html'),
+      expect.stringContaining('<!DOCTYPE html>'),
+      'utf8',
+    );
+    expect(stdout).not.toHaveBeenCalled();
+  });
+
+  it('should fail when the plan cannot be parsed', async () => {
+    vi.mocked(readFile).mockResolvedValue('name: Broken');
+
+    const exitCode = await command.execute({ plan: 'plan.yaml', format: 'dot', verbose: false });
+
+    expect(exitCode).toBe(1);
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('Plan graph command failed'));
+  });
+});
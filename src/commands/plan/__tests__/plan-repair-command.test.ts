@@ -0,0 +1,97 @@
+/**
+ * Unit tests for PlanRepairCommand
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { PlanRepairCommand } from '../plan-repair-command';
+
+vi.mock('node:fs/promises', () => ({
+  readFile: vi.fn(),
+  writeFile: vi.fn(),
+}));
+
+describe('PlanRepairCommand', () => {
+  let command: PlanRepairCommand;
+  let logger: {
+    debug: ReturnType<typeof vi.fn>;
+    error: ReturnType<typeof vi.fn>;
+    info: ReturnType<typeof vi.fn>;
+    warn: ReturnType<typeof vi.fn>;
+  };
+
+  const planYaml = `
+name: Dark Mode
+strategy: parallel
+tasks:
+  - id: theme-provider
+    name: Theme Provider
+    complexity: M
+    description: Create the theme provider and mount it at the root of the application.
+    files: [src/app.tsx]
+    dependencies: [theme-types]
+  - id: toggle
+    name: Toggle
+    complexity: S
+    description: Create the dark mode toggle component and wire it into the settings page.
+    files: [src/app.tsx]
+`;
+
+  const loggedLines = (): string[] => logger.info.mock.calls.map((call) => String(call[0]));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    logger = { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+    command = new PlanRepairCommand({ context: { cwd: '/repo', env: {}, logger } });
+    vi.mocked(readFile).mockResolvedValue(planYaml);
+  });
+
+  it('should print the changelog and write the repaired plan over the plan file', async () => {
+    const exitCode = await command.execute({ plan: 'plan.yaml', dryRun: false, verbose: false });
+
+    expect(exitCode).toBe(0);
+    expect(loggedLines()).toEqual(
+      expect.arrayContaining([
+        expect.stringContaining(
+          "- tasks.theme-provider.dependencies: theme-types (task 'theme-types' does not exist)",
+        ),
+        expect.stringContaining(
+          '+ tasks.toggle.dependencies: theme-provider (serialises parallel edits to src/app.tsx)',
+        ),
+      ]),
+    );
+    const [path, content] = vi.mocked(writeFile).mock.calls[0] ?? [];
+    expect(path).toBe(resolve('plan.yaml'));
+    expect(content as string).toMatch(/id: "toggle"[\S\s]*dependencies:\n\s+- "theme-provider"/);
+  });
+
+  it('should not write the plan on a dry run', async () => {
+    const exitCode = await command.execute({
+      plan: 'plan.yaml',
+      output: 'repaired.yaml',
+      dryRun: true,
+      verbose: false,
+    });
+
+    expect(exitCode).toBe(0);
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should fail when problems remain that cannot be repaired', async () => {
+    vi.mocked(readFile).mockResolvedValue(`${planYaml}
+phases:
+  - { id: one, name: One, strategy: parallel, tasks: [theme-provider], requires: [two] }
+  - { id: two, name: Two, strategy: parallel, tasks: [toggle], requires: [one] }
+`);
+
+    const exitCode = await command.execute({ plan: 'plan.yaml', dryRun: true, verbose: false });
+
+    expect(exitCode).toBe(1);
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining('Circular phase dependencies'),
+    );
+  });
+});
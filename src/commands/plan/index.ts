@@ -0,0 +1,6 @@
+export { PlanDiffCommand } from './plan-diff-command';
+export { formatPlanDiffJson, formatPlanDiffText } from './plan-diff-report';
+export { PlanEditCommand } from './plan-edit-command';
+export { PlanGraphCommand } from './plan-graph-command';
+export { PlanRepairCommand } from './plan-repair-command';
+export { printRepairChangelog } from './repair-changelog';
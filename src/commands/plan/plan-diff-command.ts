@@ -0,0 +1,53 @@
+/**
+ * Plan diff command for comparing two versions of a plan task by task
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+import chalk from 'chalk';
+
+import type { PlanDiffCommandOptions } from '@/types/cli';
+
+import { RegisterCommand } from '@/commands/command-factory';
+import { BaseCommand, type CommandDependencies } from '@/commands/types';
+import { YamlPlanParser } from '@/io/yaml-parser';
+import { PlanDiffService } from '@/services/planning/plan-diff-service';
+
+import { formatPlanDiffJson, formatPlanDiffText } from './plan-diff-report';
+
+/**
+ * Compare two plan files with {@link PlanDiffService}: added, removed, renamed and changed
+ * tasks, and the impact on the critical path and parallelisation. The report goes to
+ * stdout as text or JSON.
+ */
+@RegisterCommand('plan-diff')
+export class PlanDiffCommand extends BaseCommand {
+  private readonly diffService = new PlanDiffService();
+
+  constructor(dependencies: CommandDependencies) {
+    super('plan-diff', 'Compare two versions of a plan task by task', dependencies);
+  }
+
+  async execute(options: PlanDiffCommandOptions): Promise<number> {
+    try {
+      const before = YamlPlanParser.parse(await readFile(resolve(options.before), 'utf8'));
+      const after = YamlPlanParser.parse(await readFile(resolve(options.after), 'utf8'));
+
+      const diff = this.diffService.diff(before, after);
+      process.stdout.write(
+        options.format === 'json'
+          ? formatPlanDiffJson(diff, options.before, options.after)
+          : formatPlanDiffText(diff, options.before, options.after),
+      );
+      return 0;
+    } catch (error) {
+      this.logger.error(
+        chalk.red(
+          `❌ Plan diff command failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      return 1;
+    }
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Terminal and JSON rendering for plan diffs
+ */
+
+import chalk from 'chalk';
+
+import type { PlanDiff, PlanListDiff, PlanTaskDiff } from '@/services/planning/plan-diff-service';
+import type { PlanMetrics } from '@/validation/dag-validator';
+
+/**
+ * Render a plan diff as JSON, with the compared plan paths
+ */
+export function formatPlanDiffJson(diff: PlanDiff, beforePath: string, afterPath: string): string {
+  return `${JSON.stringify({ before: beforePath, after: afterPath, ...diff }, null, 2)}\n`;
+}
+
+/**
+ * Render a plan diff for the terminal: task changes first, then the change in critical
+ * path and parallelisation
+ */
+export function formatPlanDiffText(diff: PlanDiff, beforePath: string, afterPath: string): string {
+  const lines = [chalk.bold(`Plan diff: ${beforePath} → ${afterPath}`), ''];
+
+  const taskCount =
+    diff.added.length + diff.removed.length + diff.renamed.length + diff.changed.length;
+  if (taskCount === 0) {
+    lines.push(chalk.green('No task changes'));
+  } else {
+    lines.push(
+      `Tasks: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.renamed.length} renamed, ${diff.changed.length} changed`,
+      ...diff.added.map((id) => chalk.green(`  + ${id}`)),
+      ...diff.removed.map((id) => chalk.red(`  - ${id}`)),
+      ...diff.renamed.map(({ from, similarity, to }) =>
+        chalk.yellow(`  ~ ${from} → ${to} (${Math.round(similarity * 100)}% similar)`),
+      ),
+      ...diff.changed.flatMap((taskDiff) => formatTaskDiff(taskDiff)),
+    );
+  }
+
+  const { after, before } = diff.metrics;
+  lines.push(
+    '',
+    `Critical path: ${formatChange(before.criticalPathLength, after.criticalPathLength)}`,
+    ...(before.criticalPath.join(',') === after.criticalPath.join(',')
+      ? []
+      : [
+          chalk.dim(`  before: ${formatPath(before)}`),
+          chalk.dim(`  after:  ${formatPath(after)}`),
+        ]),
+    `Max parallelization: ${formatChange(before.maxParallelization, after.maxParallelization)}`,
+    `Execution layers: ${formatChange(before.executionLayers, after.executionLayers)}`,
+    `Estimated speedup: ${before.estimatedSpeedup.toFixed(2)}x → ${after.estimatedSpeedup.toFixed(2)}x`,
+    '',
+  );
+  return lines.join('\n');
+}
+
+function formatTaskDiff(taskDiff: PlanTaskDiff): string[] {
+  return [
+    chalk.cyan(
+      `  * ${taskDiff.id}${taskDiff.previousId === undefined ? '' : ` (was ${taskDiff.previousId})`}`,
+    ),
+    ...(taskDiff.name === undefined
+      ? []
+      : [field('name', `"${taskDiff.name.before}" → "${taskDiff.name.after}"`)]),
+    ...(taskDiff.files === undefined ? [] : [field('files', formatListDiff(taskDiff.files))]),
+    ...(taskDiff.complexity === undefined
+      ? []
+      : [field('complexity', `${taskDiff.complexity.before} → ${taskDiff.complexity.after}`)]),
+    ...(taskDiff.dependencies === undefined
+      ? []
+      : [field('dependencies', formatListDiff(taskDiff.dependencies))]),
+    ...(taskDiff.acceptanceCriteria === undefined
+      ? []
+      : [field('acceptance criteria', formatListDiff(taskDiff.acceptanceCriteria, true))]),
+    ...(taskDiff.phase === undefined
+      ? []
+      : [
+          field(
+            'phase',
+            `${taskDiff.phase.before ?? '(none)'} → ${taskDiff.phase.after ?? '(none)'}`,
+          ),
+        ]),
+  ];
+}
+
+function field(label: string, value: string): string {
+  return `      ${label}: ${value}`;
+}
+
+function formatListDiff(listDiff: PlanListDiff, quote = false): string {
+  const entry = (value: string): string => (quote ? `"${value}"` : value);
+  return [
+    ...listDiff.added.map((value) => chalk.green(`+${entry(value)}`)),
+    ...listDiff.removed.map((value) => chalk.red(`-${entry(value)}`)),
+  ].join(' ');
+}
+
+function formatChange(before: number, after: number): string {
+  const delta = after - before;
+  return delta === 0
+    ? `${after} (unchanged)`
+    : `${before} → ${after} (${delta > 0 ? '+' : ''}${delta})`;
+}
+
+function formatPath(metrics: PlanMetrics): string {
+  return metrics.criticalPath.length === 0 ? '(none)' : metrics.criticalPath.join(' → ');
+}
@@ -0,0 +1,140 @@
+/**
+ * Plan edit command for split, merge, move, add-dep, remove-dep and rename
+ */
+
+import { readFile } from 'node:fs/promises';
+import { relative, resolve, sep } from 'node:path';
+
+import chalk from 'chalk';
+import { match } from 'ts-pattern';
+
+import type { PlanEdit, PlanEditCommandOptions } from '@/types/cli';
+import type { PlanV2 } from '@/types/schemas-v2';
+
+import { RegisterCommand } from '@/commands/command-factory';
+import { printPlanDiagnostics } from '@/commands/run/plan-diagnostics-report';
+import { BaseCommand, type CommandDependencies } from '@/commands/types';
+import { YamlPlanParser } from '@/io/yaml-parser';
+import { PlanEditService } from '@/services/planning/plan-edit-service';
+import { PlanOutputter } from '@/services/planning/plan-outputter';
+import { PlanDiagnosticsService } from '@/services/validation/plan-diagnostics-service';
+
+/**
+ * Apply one {@link PlanEditService} edit to a plan file, re-run the plan validators on the
+ * result and write it back in place, keeping the file's comments and formatting.
+ *
+ * @remarks
+ * Edits that introduce validation errors (cycles, file conflicts, schema problems) are
+ * refused unless `--force` is set. Problems the plan already had do not block an edit.
+ */
+@RegisterCommand('plan-edit')
+export class PlanEditCommand extends BaseCommand {
+  private readonly diagnosticsService = new PlanDiagnosticsService();
+  private readonly editService = new PlanEditService();
+
+  constructor(dependencies: CommandDependencies) {
+    super(
+      'plan-edit',
+      'Split, merge, move, rename tasks and edit their dependencies in a plan',
+      dependencies,
+    );
+  }
+
+  async execute(options: PlanEditCommandOptions): Promise<number> {
+    try {
+      const planPath = resolve(options.plan);
+      const outputPath = options.output === undefined ? planPath : resolve(options.output);
+      const content = await readFile(planPath, 'utf8');
+      const plan = YamlPlanParser.parse(content);
+
+      const before = this.diagnosticsService.diagnosePlan(plan);
+      const edited = this._applyEdit(plan, options.edit);
+      const after = this.diagnosticsService.diagnoseContent(
+        PlanOutputter.formatPlanUpdate(edited, content),
+      );
+      const displayPath = relative(this.cwd, outputPath).split(sep).join('/');
+
+      const introduced = after.diagnostics.filter(
+        (diagnostic) =>
+          diagnostic.severity === 'error' &&
+          !before.diagnostics.some(
+            ({ code, message }) => code === diagnostic.code && message === diagnostic.message,
+          ),
+      );
+      if (introduced.length > 0 && !options.force) {
+        this.logger.error(
+          chalk.red(
+            '❌ The edit introduces new errors; plan not written (use --force to write it anyway)',
+          ),
+        );
+        printPlanDiagnostics({ ...after, diagnostics: introduced }, 'text', displayPath);
+        return 1;
+      }
+
+      if (options.dryRun) {
+        await PlanOutputter.outputPlan(edited, undefined, content);
+        this.logger.info(chalk.dim('Dry run: plan not written'));
+      } else {
+        await PlanOutputter.outputPlan(edited, outputPath, content);
+      }
+      this.logger.info(chalk.green(`✅ ${describeEdit(options.edit)}`));
+
+      if (after.diagnostics.length > 0) {
+        printPlanDiagnostics(after, 'text', displayPath);
+      }
+      return 0;
+    } catch (error) {
+      this.logger.error(
+        chalk.red(
+          `❌ Plan edit command failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      return 1;
+    }
+  }
+
+  private _applyEdit(plan: PlanV2, edit: PlanEdit): PlanV2 {
+    return match(edit)
+      .with({ type: 'split' }, ({ parts, task }) => this.editService.split(plan, task, parts))
+      .with({ type: 'merge' }, ({ id, name, tasks }) =>
+        this.editService.merge(plan, tasks, {
+          ...(id !== undefined && { id }),
+          ...(name !== undefined && { name }),
+        }),
+      )
+      .with({ type: 'move' }, ({ before, phase, task }) =>
+        this.editService.move(plan, task, phase, before === undefined ? {} : { before }),
+      )
+      .with({ type: 'add-dep' }, ({ dependency, task }) =>
+        this.editService.addDependency(plan, task, dependency),
+      )
+      .with({ type: 'remove-dep' }, ({ dependency, task }) =>
+        this.editService.removeDependency(plan, task, dependency),
+      )
+      .with({ type: 'rename' }, ({ id, name, task }) =>
+        this.editService.rename(plan, task, id, name === undefined ? {} : { name }),
+      )
+      .exhaustive();
+  }
+}
+
+function describeEdit(edit: PlanEdit): string {
+  return match(edit)
+    .with(
+      { type: 'split' },
+      ({ parts, task }) => `Split '${task}' into ${parts.map(({ id }) => `'${id}'`).join(', ')}`,
+    )
+    .with(
+      { type: 'merge' },
+      ({ id, tasks }) =>
+        `Merged ${tasks.map((task) => `'${task}'`).join(', ')} into '${id ?? tasks[0]}'`,
+    )
+    .with({ type: 'move' }, ({ phase, task }) => `Moved '${task}' to phase '${phase}'`)
+    .with({ type: 'add-dep' }, ({ dependency, task }) => `Made '${task}' depend on '${dependency}'`)
+    .with(
+      { type: 'remove-dep' },
+      ({ dependency, task }) => `Removed the dependency of '${task}' on '${dependency}'`,
+    )
+    .with({ type: 'rename' }, ({ id, task }) => `Renamed '${task}' to '${id}'`)
+    .exhaustive();
+}
@@ -0,0 +1,55 @@
+/**
+ * Plan graph command for exporting a plan's task DAG as Mermaid, Graphviz DOT or HTML
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+import chalk from 'chalk';
+
+import type { PlanGraphCommandOptions } from '@/types/cli';
+
+import { RegisterCommand } from '@/commands/command-factory';
+import { BaseCommand, type CommandDependencies } from '@/commands/types';
+import { YamlPlanParser } from '@/io/yaml-parser';
+import { PlanGraphRenderer } from '@/services/planning/plan-graph-renderer';
+
+/**
+ * Render the plan's tasks grouped by phase, with the critical path and file conflicts
+ * marked. The graph goes to stdout unless `--output` is given, so it can be piped.
+ */
+@RegisterCommand('plan-graph')
+export class PlanGraphCommand extends BaseCommand {
+  constructor(dependencies: CommandDependencies) {
+    super(
+      'plan-graph',
+      "Render the plan's task graph as Mermaid, Graphviz DOT or standalone HTML",
+      dependencies,
+    );
+  }
+
+  async execute(options: PlanGraphCommandOptions): Promise<number> {
+    try {
+      const planPath = resolve(options.plan);
+      const plan = YamlPlanParser.parse(await readFile(planPath, 'utf8'));
+      const graph = PlanGraphRenderer.render(plan, options.format);
+
+      if (options.output === undefined) {
+        process.stdout.write(graph);
+        return 0;
+      }
+
+      const outputPath = resolve(options.output);
+      await writeFile(outputPath, graph, 'utf8');
+      this.logger.info(chalk.green(`✅ ${options.format} graph written to: ${outputPath}`));
+      return 0;
+    } catch (error) {
+      this.logger.error(
+        chalk.red(
+          `❌ Plan graph command failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      return 1;
+    }
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Plan repair command for fixing conflicts and cycles in a plan file without the agent
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+import chalk from 'chalk';
+
+import type { PlanRepairCommandOptions } from '@/types/cli';
+
+import { RegisterCommand } from '@/commands/command-factory';
+import { BaseCommand, type CommandDependencies } from '@/commands/types';
+import { YamlPlanParser } from '@/io/yaml-parser';
+import { PlanOutputter } from '@/services/planning/plan-outputter';
+import { PlanRepairService } from '@/services/planning/plan-repair-service';
+import { DagValidator } from '@/validation/dag-validator';
+
+import { printRepairChangelog } from './repair-changelog';
+
+/**
+ * Repair a plan file with {@link PlanRepairService}, print the changelog and write the
+ * result back to the plan file (or `--output`). Fails when problems remain that cannot
+ * be repaired locally.
+ */
+@RegisterCommand('plan-repair')
+export class PlanRepairCommand extends BaseCommand {
+  private readonly repairService = new PlanRepairService();
+
+  constructor(dependencies: CommandDependencies) {
+    super(
+      'plan-repair',
+      'Fix file conflicts, cycles, dangling dependencies and missing phases in a plan',
+      dependencies,
+    );
+  }
+
+  async execute(options: PlanRepairCommandOptions): Promise<number> {
+    try {
+      const planPath = resolve(options.plan);
+      this.logger.info(chalk.blue(`📋 Loading plan from: ${planPath}`));
+      const plan = YamlPlanParser.parse(await readFile(planPath, 'utf8'));
+
+      const { changes, plan: repaired } = this.repairService.repair(plan);
+      if (changes.length === 0) {
+        this.logger.info(chalk.green('✅ Nothing to repair'));
+      } else {
+        printRepairChangelog(this.logger, changes);
+        if (options.dryRun) {
+          this.logger.info(chalk.dim('Dry run: plan not written'));
+        } else {
+          await PlanOutputter.outputPlan(
+            repaired,
+            options.output === undefined ? planPath : resolve(options.output),
+          );
+        }
+      }
+
+      const validation = DagValidator.validatePlan(repaired);
+      if (validation.valid) {
+        return 0;
+      }
+
+      this.logger.error(chalk.red('❌ Problems that could not be repaired:'));
+      for (const problem of [
+        ...validation.errors,
+        ...(validation.conflicts ?? []),
+        ...(validation.circularDependencies ?? []),
+        ...(validation.missingDependencies ?? []),
+      ]) {
+        this.logger.error(chalk.yellow(`  ${problem}`));
+      }
+      return 1;
+    } catch (error) {
+      this.logger.error(
+        chalk.red(
+          `❌ Plan repair command failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      return 1;
+    }
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Terminal rendering for plan repair changelogs
+ */
+
+import chalk from 'chalk';
+
+import type { CommandContext } from '@/commands/types';
+
+import {
+  formatPlanRepairChange,
+  type PlanRepairChange,
+} from '@/services/planning/plan-repair-service';
+
+/**
+ * Log repair changes as a diff-style changelog, additions in green and removals in red
+ */
+export function printRepairChangelog(
+  logger: CommandContext['logger'],
+  changes: PlanRepairChange[],
+): void {
+  logger.info(chalk.cyan(`🔧 Plan repairs (${changes.length}):`));
+  for (const change of changes) {
+    const line = `  ${formatPlanRepairChange(change)}`;
+    logger.info(change.action === 'add' ? chalk.green(line) : chalk.red(line));
+  }
+  logger.info('');
+}
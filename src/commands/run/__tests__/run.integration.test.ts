@@ -142,6 +142,7 @@ describe('runCommand integration tests', () => {
           continueOnError: undefined,
           permissiveValidation: undefined,
           workdir: '/test/project',
+          specContent: '# Build React Components\n\nCreate reusable components.',
         },
         expect.any(String), // jobId
       );
@@ -268,6 +269,72 @@ tasks:
     });
   });
 
+  describe('validate mode diagnostics', () => {
+    const invalidPlanYaml = `name: Create Layout
+strategy: parallel
+tasks:
+  - id: create-layout
+    name: Create Layout Component
+    complexity: S
+    description: Build the main layout component with responsive design for every page
+    files: [src/components/Layout.tsx]
+    dependencies: [create-theme]
+`;
+
+    it('should print located diagnostics as JSON without executing the plan', async () => {
+      mockReadFile.mockResolvedValue(invalidPlanYaml);
+
+      const result = await new RunCommand(createDeps()).execute({
+        plan: 'plans/layout.yaml',
+        mode: 'validate',
+        format: 'json',
+        vcsMode: 'simple',
+        tui: false,
+        verbose: false,
+        writeLog: false,
+        workdir: '/test/project',
+      });
+
+      expect(result).toBe(1);
+      expect(mockExecute).not.toHaveBeenCalled();
+      const output = JSON.parse(String(vi.mocked(console.log).mock.calls.at(-1)?.[0])) as {
+        diagnostics: Array<{ code: string; location: { column: number; line: number } }>;
+        plan: string;
+        valid: boolean;
+      };
+      expect(output.plan).toBe('plans/layout.yaml');
+      expect(output.valid).toBe(false);
+      expect(output.diagnostics).toEqual([
+        expect.objectContaining({
+          code: 'missing-dependency',
+          location: { line: 9, column: 20, endLine: 9, endColumn: 32 },
+        }),
+      ]);
+    });
+
+    it('should write SARIF to stdout', async () => {
+      mockReadFile.mockResolvedValue(invalidPlanYaml);
+      const stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      const result = await new RunCommand(createDeps()).execute({
+        plan: 'plans/layout.yaml',
+        mode: 'validate',
+        format: 'sarif',
+        vcsMode: 'simple',
+        tui: false,
+        verbose: false,
+        writeLog: false,
+        workdir: '/test/project',
+      });
+
+      expect(result).toBe(1);
+      const sarif = String(stdout.mock.calls[0]?.[0]);
+      expect(sarif).toContain('"version": "2.1.0"');
+      expect(sarif).toContain('"ruleId": "missing-dependency"');
+      expect(sarif).toContain('"uri": "plans/layout.yaml"');
+    });
+  });
+
   describe('error handling with real classes', () => {
     it('should handle file read errors properly', async () => {
       mockReadFile.mockRejectedValue(new Error('Permission denied'));
@@ -369,12 +436,44 @@ tasks:
           verbose: true,
           dryRun: undefined,
           continueOnError: true,
+          timeout: 600,
           agent: undefined,
           permissiveValidation: undefined,
           workdir: '/custom/workdir',
+          retryAttempts: 5,
+          specContent: '# Build React Components\n\nCreate reusable components.',
         },
         expect.any(String), // jobId
       );
     });
+
+    it('should pass the spec content along with a plan file', async () => {
+      const specContent = '# Dark Mode\n\nAdd a theme toggle.';
+      // The spec is read before the plan
+      mockReadFile
+        .mockResolvedValueOnce(specContent)
+        .mockResolvedValueOnce(JSON.stringify(mockPlan));
+
+      const options: RunCommandOptions = {
+        spec: 'dark-mode.md',
+        plan: 'dark-mode.json',
+        mode: 'execute',
+        vcsMode: 'simple',
+        tui: false,
+        writeLog: false,
+      };
+
+      const deps = createDeps();
+      const command = new RunCommand(deps);
+      const result = await command.execute(options);
+
+      expect(result).toBe(0);
+      expect(mockAgent.decompose).not.toHaveBeenCalled();
+      expect(mockExecute).toHaveBeenCalledWith(
+        mockPlan,
+        expect.objectContaining({ specContent }),
+        expect.any(String), // jobId
+      );
+    });
   });
 });
@@ -3,4 +3,5 @@
  */
 
 // Export main command class
+export { printPlanDiagnostics } from './plan-diagnostics-report';
 export { RunCommand } from './run-command';
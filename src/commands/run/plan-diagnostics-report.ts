@@ -0,0 +1,81 @@
+/**
+ * Terminal, JSON and SARIF rendering for plan diagnostics
+ */
+
+import chalk from 'chalk';
+import { match } from 'ts-pattern';
+
+import type { PlanDiagnosticsReport } from '@/services/validation/plan-diagnostics-service';
+import type { PlanDiagnosticsFormat } from '@/types/cli';
+import type { PlanDiagnostic, PlanDiagnosticSeverity } from '@/validation/plan-diagnostics';
+
+import { formatSarifReport } from '@/services/validation/plan-diagnostics-service';
+
+/* eslint-disable no-console */
+
+/**
+ * Print plan diagnostics to stdout in the requested format
+ *
+ * @param planPath - Plan file path relative to the working directory, with `/` separators
+ */
+export function printPlanDiagnostics(
+  report: PlanDiagnosticsReport,
+  format: PlanDiagnosticsFormat,
+  planPath: string,
+): void {
+  match(format)
+    .with('json', () => {
+      console.log(
+        JSON.stringify(
+          { plan: planPath, valid: report.valid, diagnostics: report.diagnostics },
+          null,
+          2,
+        ),
+      );
+    })
+    .with('sarif', () => {
+      process.stdout.write(formatSarifReport(report.diagnostics, planPath));
+    })
+    .with('text', () => {
+      printText(report, planPath);
+    })
+    .exhaustive();
+}
+
+function printText(report: PlanDiagnosticsReport, planPath: string): void {
+  console.log('');
+  for (const diagnostic of report.diagnostics) {
+    console.log(formatLine(diagnostic, planPath));
+  }
+
+  const count = (severity: PlanDiagnosticSeverity): string =>
+    pluralize(
+      report.diagnostics.filter((diagnostic) => diagnostic.severity === severity).length,
+      severity,
+    );
+  const summary = `${pluralize(report.diagnostics.length, 'problem')} (${count('error')}, ${count('warning')}, ${count('note')})`;
+  console.log(
+    report.diagnostics.length === 0
+      ? chalk.green('✓ No problems found\n')
+      : `\n${report.valid ? chalk.yellow(`⚠ ${summary}`) : chalk.red(`✖ ${summary}`)}\n`,
+  );
+}
+
+function formatLine(diagnostic: PlanDiagnostic, planPath: string): string {
+  const position =
+    diagnostic.location === undefined
+      ? planPath
+      : `${planPath}:${diagnostic.location.line}:${diagnostic.location.column}`;
+  const severity = match(diagnostic.severity)
+    .with('error', () => chalk.red('error'))
+    .with('warning', () => chalk.yellow('warning'))
+    .with('note', () => chalk.blue('note'))
+    .exhaustive();
+  return `${position} ${severity} ${diagnostic.message} ${chalk.dim(`[${diagnostic.code}]`)}`;
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/* eslint-enable no-console */
@@ -3,11 +3,13 @@
  */
 
 import { readFile } from 'node:fs/promises';
-import { resolve } from 'node:path';
+import { relative, resolve, sep } from 'node:path';
 
 import chalk from 'chalk';
 
 import type { AgentService } from '@/core/agents/interfaces';
+import type { ExecutionResult } from '@/core/execution/interfaces';
+import type { RunReport } from '@/core/execution/types';
 import type { ExecutionEngine } from '@/services/execution';
 import type { ExecutionOrchestrator } from '@/services/execution/execution-orchestrator';
 import type { RunCommandOptions } from '@/types/cli';
@@ -15,16 +17,28 @@ import type { PlanV2 } from '@/types/schemas-v2';
 
 import { RegisterCommand } from '@/commands/command-factory';
 import { BaseCommand, type CommandDependencies } from '@/commands/types';
+import { printAcceptanceReport } from '@/commands/validate/acceptance-report';
 import { ServiceIdentifiers } from '@/core/di';
 import { YamlPlanParser } from '@/io/yaml-parser';
 import { bootstrapApplication, getContainer } from '@/providers';
+import { ProjectPrinciplesService } from '@/services/analysis/project-principles-service';
+import { buildRunReport, RunReportServiceImpl } from '@/services/execution/run-report-service';
+import { ShutdownCoordinator } from '@/services/execution/shutdown-coordinator';
+import { UsageHistoryServiceImpl } from '@/services/execution/usage-history-service';
 import { initializeFileLogWriter } from '@/services/logging/file-log-writer';
 import { generatePlanWithRetry } from '@/services/planning/plan-generator';
+import { AcceptanceValidationService } from '@/services/validation/acceptance-validation-service';
+import {
+  type PlanDiagnosticsReport,
+  PlanDiagnosticsService,
+} from '@/services/validation/plan-diagnostics-service';
 import { isTuiSupported, startTui } from '@/ui';
 import { GlobalLogger } from '@/utils/global-logger';
 import { DagValidator } from '@/validation/dag-validator';
 import { isNonEmptyString } from '@/validation/guards';
 
+import { printPlanDiagnostics } from './plan-diagnostics-report';
+
 /**
  * Execute plans or specs with parallel task execution
  */
@@ -57,6 +71,12 @@ export class RunCommand extends BaseCommand {
             ...(options.verbose !== undefined && { verbose: options.verbose }),
             tui: options.tui,
             writeLog: options.writeLog,
+            ...(options.vcsBackend !== undefined && { vcsBackend: options.vcsBackend }),
+            ...(options.agent !== undefined && { agent: options.agent }),
+            ...(options.conflictStrategy !== undefined && {
+              conflictStrategy: options.conflictStrategy,
+            }),
+            ...(options.worktreeSetup !== undefined && { worktreeSetup: options.worktreeSetup }),
           });
           containerCache = getContainer();
         }
@@ -80,13 +100,31 @@ export class RunCommand extends BaseCommand {
       };
 
       let plan: PlanV2;
+      let specContent: string | undefined;
 
       if (isNonEmptyString(options.spec)) {
         this.logger.info(chalk.blue(`📄 Reading spec from: ${resolve(options.spec)}`));
 
-        const specContent = await readFile(resolve(options.spec), 'utf8');
+        specContent = await readFile(resolve(options.spec), 'utf8');
         this.logger.info(chalk.dim(`📄 Spec content length: ${specContent.length} characters`));
+      }
+
+      if (isNonEmptyString(options.plan)) {
+        this.logger.info(chalk.blue(`📋 Loading plan from: ${resolve(options.plan)}`));
 
+        const planContent = await readFile(resolve(options.plan), 'utf8');
+        if (options.mode === 'validate') {
+          return this._reportPlanDiagnostics(
+            new PlanDiagnosticsService().diagnoseContent(planContent),
+            options,
+            relative(cwd, resolve(options.plan)).split(sep).join('/'),
+          );
+        }
+
+        const isYaml = options.plan.endsWith('.yaml') || options.plan.endsWith('.yml');
+
+        plan = isYaml ? YamlPlanParser.parse(planContent) : (JSON.parse(planContent) as PlanV2);
+      } else if (specContent !== undefined) {
         const agentService = await resolveAgentService();
         const agent = await agentService.createAgent(options.agent ?? 'claude');
         this.logger.info(chalk.cyan(`🤖 Using agent: ${options.agent ?? 'claude'}`));
@@ -102,13 +140,13 @@ export class RunCommand extends BaseCommand {
         }
 
         ({ plan } = result);
-      } else if (isNonEmptyString(options.plan)) {
-        this.logger.info(chalk.blue(`📋 Loading plan from: ${resolve(options.plan)}`));
-
-        const planContent = await readFile(resolve(options.plan), 'utf8');
-        const isYaml = options.plan.endsWith('.yaml') || options.plan.endsWith('.yml');
-
-        plan = isYaml ? YamlPlanParser.parse(planContent) : (JSON.parse(planContent) as PlanV2);
+        if (options.mode === 'validate') {
+          return this._reportPlanDiagnostics(
+            new PlanDiagnosticsService().diagnosePlan(plan),
+            options,
+            options.spec ?? 'plan',
+          );
+        }
       } else {
         this.logger.error(chalk.red('❌ Either --spec or --plan must be provided'));
         return 1;
@@ -157,84 +195,128 @@ export class RunCommand extends BaseCommand {
 
       let result;
       let failureCount: number;
+      const startedAt = new Date();
 
-      if (useTui) {
-        // Get the orchestrator for TUI event handling
-        const container = await resolveContainer();
-        const orchestrator = container.get<ExecutionOrchestrator>(
-          ServiceIdentifiers.ExecutionOrchestrator,
-        );
-
-        // Enable TUI mode in global logger with file logging
-        GlobalLogger.enableTuiMode(orchestrator, fileLogWriter);
-
-        try {
-          // Start TUI and execute in parallel
-          [result] = await Promise.all([
-            engine.execute(
-              plan,
-              {
-                mode: options.mode,
-                verbose: options.verbose,
-                dryRun: options.dryRun,
-                vcsMode: options.vcsMode,
-                workdir: cwd,
-                continueOnError: options.continueOnError,
-                agent: options.agent,
-                permissiveValidation: options.permissiveValidation,
-              },
-              jobId,
-            ),
-            startTui({
-              orchestrator,
-              plan,
-              jobIdRef,
-              options: {
-                mode: options.mode,
-                verbose: options.verbose,
-                dryRun: options.dryRun,
-                vcsMode: options.vcsMode,
-                continueOnError: options.continueOnError,
-                agent: options.agent,
-                permissiveValidation: options.permissiveValidation,
-              },
-            }),
-          ]);
-        } finally {
-          // Disable TUI mode in global logger
-          GlobalLogger.disableTuiMode();
-        }
-
-        failureCount = result.tasks.filter((task) => task.status === 'failure').length;
-      } else {
-        // Use regular logging output with optional file logging
-        if (options.writeLog) {
-          // Enable file logging for console mode
-          GlobalLogger.enableFileLogging(fileLogWriter);
-        }
-
-        this.logger.info(chalk.blue('🚀 Starting plan execution...'));
-        result = await engine.execute(
-          plan,
-          {
-            mode: options.mode,
-            verbose: options.verbose,
-            dryRun: options.dryRun,
-            vcsMode: options.vcsMode,
-            workdir: cwd,
-            continueOnError: options.continueOnError,
-            agent: options.agent,
-            permissiveValidation: options.permissiveValidation,
-          },
-          jobId,
-        );
-
-        failureCount = result.tasks.filter((task) => task.status === 'failure').length;
+      // Ctrl+C and SIGTERM stop the agents and tear the run down instead of orphaning them
+      const shutdownCoordinator = new ShutdownCoordinator(engine, { logWriter: fileLogWriter });
+      if (options.mode === 'execute') {
+        shutdownCoordinator.install();
+      }
 
-        if (options.writeLog) {
-          // Disable file logging for console mode
-          GlobalLogger.disableFileLogging();
+      try {
+        if (useTui) {
+          // Get the orchestrator for TUI event handling
+          const container = await resolveContainer();
+          const orchestrator = container.get<ExecutionOrchestrator>(
+            ServiceIdentifiers.ExecutionOrchestrator,
+          );
+
+          // Enable TUI mode in global logger with file logging
+          GlobalLogger.enableTuiMode(orchestrator, fileLogWriter);
+
+          try {
+            // Start TUI and execute in parallel
+            [result] = await Promise.all([
+              engine.execute(
+                plan,
+                {
+                  mode: options.mode,
+                  verbose: options.verbose,
+                  dryRun: options.dryRun,
+                  vcsMode: options.vcsMode,
+                  workdir: cwd,
+                  continueOnError: options.continueOnError,
+                  agent: options.agent,
+                  maxParallel: options.maxParallel,
+                  maxCost: options.maxCost,
+                  maxTokens: options.maxTokens,
+                  timeout: options.timeout,
+                  idleTimeout: options.idleTimeout,
+                  sizeTimeouts: options.sizeTimeouts,
+                  permissiveValidation: options.permissiveValidation,
+                  retryAttempts: options.retryAttempts,
+                  resume: options.resume,
+                  resumeFrom: options.resumeFrom,
+                  keepWorktrees: options.keepWorktrees,
+                  ...(specContent !== undefined && { specContent }),
+                  specTokenBudget: options.specTokenBudget,
+                  stackShape: options.stackShape,
+                  branchGranularity: options.branchGranularity,
+                },
+                jobId,
+              ),
+              startTui({
+                orchestrator,
+                plan,
+                jobIdRef,
+                onInterrupt: () => {
+                  shutdownCoordinator.shutdown('SIGINT');
+                },
+                options: {
+                  mode: options.mode,
+                  verbose: options.verbose,
+                  dryRun: options.dryRun,
+                  vcsMode: options.vcsMode,
+                  continueOnError: options.continueOnError,
+                  agent: options.agent,
+                  permissiveValidation: options.permissiveValidation,
+                  maxCost: options.maxCost,
+                  maxTokens: options.maxTokens,
+                },
+              }),
+            ]);
+          } finally {
+            // Disable TUI mode in global logger
+            GlobalLogger.disableTuiMode();
+          }
+
+          failureCount = result.tasks.filter((task) => task.status === 'failure').length;
+        } else {
+          // Use regular logging output with optional file logging
+          if (options.writeLog) {
+            // Enable file logging for console mode
+            GlobalLogger.enableFileLogging(fileLogWriter);
+          }
+
+          this.logger.info(chalk.blue('🚀 Starting plan execution...'));
+          result = await engine.execute(
+            plan,
+            {
+              mode: options.mode,
+              verbose: options.verbose,
+              dryRun: options.dryRun,
+              vcsMode: options.vcsMode,
+              workdir: cwd,
+              continueOnError: options.continueOnError,
+              agent: options.agent,
+              maxParallel: options.maxParallel,
+              maxCost: options.maxCost,
+              maxTokens: options.maxTokens,
+              timeout: options.timeout,
+              idleTimeout: options.idleTimeout,
+              sizeTimeouts: options.sizeTimeouts,
+              permissiveValidation: options.permissiveValidation,
+              retryAttempts: options.retryAttempts,
+              resume: options.resume,
+              resumeFrom: options.resumeFrom,
+              keepWorktrees: options.keepWorktrees,
+              ...(specContent !== undefined && { specContent }),
+              specTokenBudget: options.specTokenBudget,
+              stackShape: options.stackShape,
+              branchGranularity: options.branchGranularity,
+            },
+            jobId,
+          );
+
+          failureCount = result.tasks.filter((task) => task.status === 'failure').length;
+
+          if (options.writeLog) {
+            // Disable file logging for console mode
+            GlobalLogger.disableFileLogging();
+          }
         }
+      } finally {
+        shutdownCoordinator.dispose();
       }
 
       // Write final results to log
@@ -249,8 +331,54 @@ export class RunCommand extends BaseCommand {
         fileLogWriter.closeAllStreams();
       }
 
+      if (options.mode === 'execute' || isNonEmptyString(options.report)) {
+        await this._writeRunReport(
+          cwd,
+          options,
+          buildRunReport({
+            jobId: jobIdRef.current,
+            mode: options.mode,
+            vcsMode: options.vcsMode,
+            plan,
+            result,
+            startedAt,
+          }),
+        );
+      }
+
+      if (options.mode === 'execute') {
+        await this._recordUsageHistory(cwd, plan, result);
+      }
+
+      const interruptExitCode = shutdownCoordinator.getExitCode();
+      if (interruptExitCode !== undefined) {
+        this.logger.warn(
+          chalk.yellow(
+            `🛑 Run interrupted by ${shutdownCoordinator.getSignal()}; continue it with --resume`,
+          ),
+        );
+        return interruptExitCode;
+      }
+
       if (failureCount === 0) {
         this.logger.info(chalk.green('✅ Plan executed successfully!'));
+
+        if (options.validate === true) {
+          const agentService = await resolveAgentService();
+          const agent = await agentService.createAgent(options.agent ?? 'claude');
+          this.logger.info(chalk.cyan('🧪 Validating acceptance criteria...'));
+          const report = await new AcceptanceValidationService(agent).validate(plan, {
+            cwd,
+            principles: new ProjectPrinciplesService().extract(cwd),
+            ...(specContent !== undefined && { specContent }),
+          });
+          printAcceptanceReport(report, 'text');
+          if (!report.passed) {
+            this.logger.error(chalk.red('❌ Acceptance validation failed'));
+            return 1;
+          }
+        }
+
         return 0;
       }
 
@@ -265,4 +393,74 @@ export class RunCommand extends BaseCommand {
       return 1;
     }
   }
+
+  /**
+   * Print the diagnostics of `--mode validate` and fail when any of them is an error.
+   * Machine-readable formats print nothing else to stdout.
+   */
+  private _reportPlanDiagnostics(
+    report: PlanDiagnosticsReport,
+    options: RunCommandOptions,
+    planPath: string,
+  ): number {
+    const format = options.format ?? 'text';
+    printPlanDiagnostics(report, format, planPath);
+    if (format === 'text') {
+      this.logger.info(
+        report.valid
+          ? chalk.green('✅ Plan validated successfully')
+          : chalk.red('❌ Plan validation failed'),
+      );
+    }
+    return report.valid ? 0 : 1;
+  }
+
+  /**
+   * Add the run's per-task usage to the history `decompose` estimates costs from.
+   * History failures are logged without failing the run.
+   */
+  private async _recordUsageHistory(
+    cwd: string,
+    plan: PlanV2,
+    result: ExecutionResult,
+  ): Promise<void> {
+    try {
+      await new UsageHistoryServiceImpl().record(cwd, plan, result);
+    } catch (error) {
+      this.logger.warn(
+        chalk.yellow(
+          `⚠️ Failed to record usage history: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
+
+  /**
+   * Save the run report under `.chopstack/runs/<jobId>/` for execute runs and to
+   * `--report` when given. Report failures are logged without failing the run.
+   */
+  private async _writeRunReport(
+    cwd: string,
+    options: RunCommandOptions,
+    report: RunReport,
+  ): Promise<void> {
+    const reportService = new RunReportServiceImpl();
+    try {
+      if (options.mode === 'execute') {
+        const reportPath = await reportService.save(cwd, report);
+        this.logger.info(chalk.dim(`📊 Run report: ${reportPath}`));
+      }
+      if (isNonEmptyString(options.report)) {
+        const format = options.reportFormat ?? 'json';
+        await reportService.write(resolve(cwd, options.report), report, format);
+        this.logger.info(chalk.dim(`📊 Run report (${format}): ${options.report}`));
+      }
+    } catch (error) {
+      this.logger.warn(
+        chalk.yellow(
+          `⚠️ Failed to write run report: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+    }
+  }
 }
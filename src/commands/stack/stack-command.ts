@@ -4,24 +4,56 @@
 
 import chalk from 'chalk';
 import { CommitMessageGenerator } from 'commitment';
+import { match } from 'ts-pattern';
 
-import { GitSpiceBackend } from '@/adapters/vcs/git-spice/backend';
+import type { VcsBackend } from '@/core/vcs/interfaces';
+
+import { createVcsBackend } from '@/adapters/vcs';
 import { RegisterCommand } from '@/commands/command-factory';
 import { BaseCommand, type CommandDependencies } from '@/commands/types';
-import { validateStackArgs } from '@/types/cli';
+import { validateStackArgs, type VcsBackendType } from '@/types/cli';
 import { hasContent, isValidArray } from '@/validation/guards';
 
 import type { GitSpiceOptions } from './types';
 
 import { addAllChanges, createCommit, getGitStatus, getStatusColor } from './utils/git-operations';
 
+type BackendInfo = {
+  binary: string;
+  createCommand: string;
+  installUrl: string;
+  name: string;
+  submitCommand: string;
+};
+
+/**
+ * Display details for each stacking backend
+ */
+function getBackendInfo(type: VcsBackendType): BackendInfo {
+  return match(type)
+    .with('git-spice', () => ({
+      name: 'git-spice',
+      binary: 'gs',
+      createCommand: 'gs branch create',
+      submitCommand: 'gs stack submit --draft',
+      installUrl: 'https://github.com/abhinav/git-spice',
+    }))
+    .with('graphite', () => ({
+      name: 'Graphite',
+      binary: 'gt',
+      createCommand: 'gt create',
+      submitCommand: 'gt submit --stack --draft',
+      installUrl: 'https://graphite.dev/docs/install-the-cli',
+    }))
+    .exhaustive();
+}
+
 /**
  * Stack command for creating git stacks with automatic commit message generation
  */
 @RegisterCommand('stack')
 export class StackCommand extends BaseCommand {
   private readonly commitMessageGenerator: CommitMessageGenerator;
-  private readonly gitSpiceBackend: GitSpiceBackend;
 
   constructor(dependencies: CommandDependencies) {
     super('stack', 'Create git stack with automatic commit message generation', dependencies);
@@ -29,7 +61,6 @@ export class StackCommand extends BaseCommand {
       logger: this.logger,
       enableAI: true,
     });
-    this.gitSpiceBackend = new GitSpiceBackend();
   }
 
   async execute(rawArgs: unknown): Promise<number> {
@@ -85,7 +116,7 @@ export class StackCommand extends BaseCommand {
           dryRun: args.dryRun,
           ...(hasContent(args.message) && { message: args.message }),
         };
-        return await this._handleStackCreation(spiceOptions, commitMessage, cwd);
+        return await this._handleStackCreation(spiceOptions, commitMessage, args.vcsBackend, cwd);
       }
       // Just create a regular commit
       return this._handleRegularCommit(commitMessage, args.dryRun, cwd);
@@ -122,45 +153,50 @@ export class StackCommand extends BaseCommand {
   private async _handleStackCreation(
     args: GitSpiceOptions,
     commitMessage: string,
+    backendType: VcsBackendType,
     cwd?: string,
   ): Promise<number> {
-    this.logger.info(chalk.blue('📚 Creating git-spice branch...'));
+    const info = getBackendInfo(backendType);
+    const backend = createVcsBackend(backendType);
+    this.logger.info(chalk.blue(`📚 Creating ${info.name} branch...`));
 
     try {
-      // Check if git-spice is available
-      if (!(await this.gitSpiceBackend.isAvailable())) {
-        this.logger.warn(chalk.yellow('⚠️ git-spice (gs) is not installed or not in PATH.'));
-        this.logger.info(chalk.cyan('Install it from: https://github.com/abhinav/git-spice'));
+      // Check if the stacking tool is available
+      if (!(await backend.isAvailable())) {
+        this.logger.warn(
+          chalk.yellow(`⚠️ ${info.name} (${info.binary}) is not installed or not in PATH.`),
+        );
+        this.logger.info(chalk.cyan(`Install it from: ${info.installUrl}`));
 
         // Fall back to regular commit
         this.logger.info(chalk.blue('📝 Falling back to regular git commit...'));
         return this._handleRegularCommit(commitMessage, false, cwd);
       }
 
-      // Create git-spice branch
+      // Create stack branch
       const workdir = cwd ?? process.cwd();
       if (args.dryRun === true) {
         const proposedBranchName = args.branchName ?? 'auto-generated-branch-name';
         this.logger.info(
-          chalk.gray(`   (DRY RUN: would create git-spice branch: ${proposedBranchName})`),
+          chalk.gray(`   (DRY RUN: would create ${info.name} branch: ${proposedBranchName})`),
         );
         this.logger.info(
           chalk.gray(
-            `   (DRY RUN: would run: gs branch create ${proposedBranchName} -m "${commitMessage.split('\n')[0]}")`,
+            `   (DRY RUN: would run: ${info.createCommand} ${proposedBranchName} -m "${commitMessage.split('\n')[0]}")`,
           ),
         );
       } else {
-        const branchName = await this.gitSpiceBackend.createBranchWithCommit(
+        const branchName = await backend.createBranchWithCommit(
           workdir,
           args.branchName ?? '',
           commitMessage,
         );
-        this.logger.info(chalk.green(`✅ Created git-spice branch: ${branchName}`));
+        this.logger.info(chalk.green(`✅ Created ${info.name} branch: ${branchName}`));
       }
 
       // Submit stack if requested
       if (args.submit === true) {
-        return await this._handleStackSubmission(args.dryRun);
+        return await this._handleStackSubmission(backend, backendType, args.dryRun);
       }
 
       if (args.dryRun === true) {
@@ -206,16 +242,22 @@ export class StackCommand extends BaseCommand {
     }
   }
 
-  private async _handleStackSubmission(dryRun = false): Promise<number> {
+  private async _handleStackSubmission(
+    backend: VcsBackend,
+    backendType: VcsBackendType,
+    dryRun = false,
+  ): Promise<number> {
     this.logger.info(chalk.blue('🚀 Submitting stack to GitHub...'));
 
     try {
       const workdir = process.cwd();
       if (dryRun) {
-        this.logger.info(chalk.gray(`   (DRY RUN: would run: gs stack submit --draft)`));
+        this.logger.info(
+          chalk.gray(`   (DRY RUN: would run: ${getBackendInfo(backendType).submitCommand})`),
+        );
         this.logger.info(chalk.green('✅ Would submit stack as draft PRs'));
       } else {
-        const prUrls = await this.gitSpiceBackend.submitStack(workdir);
+        const prUrls = await backend.submitStack(workdir);
 
         if (isValidArray(prUrls)) {
           this.logger.info(chalk.green('✅ Stack submitted successfully!'));
@@ -1,4 +1,5 @@
 import type { AgentService } from '@/core/agents/interfaces';
+import type { ResolvedAppConfig } from '@/core/config/interfaces';
 import type { ExecutionEngine } from '@/services/execution';
 
 /**
@@ -35,6 +36,8 @@ export type CommandResult = {
  * Command context with shared dependencies
  */
 export type CommandContext = {
+  /** Resolved project configuration (defaults, config file, env, CLI flags) */
+  config?: ResolvedAppConfig;
   /** Current working directory */
   cwd: string;
   /** Environment variables */
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for ValidateCommand
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { AgentService } from '@/core/agents/interfaces';
+import type { AcceptanceReport } from '@/services/validation/acceptance-validation-service';
+
+import { AcceptanceValidationService } from '@/services/validation/acceptance-validation-service';
+
+import { ValidateCommand } from '../validate-command';
+
+vi.mock('node:fs/promises', () => ({
+  readFile: vi.fn(),
+  writeFile: vi.fn(),
+}));
+
+vi.mock('@/providers', () => ({
+  bootstrapApplication: vi.fn(),
+  getContainer: vi.fn(),
+}));
+
+vi.mock('@/services/validation/acceptance-validation-service', () => ({
+  AcceptanceValidationService: vi.fn(),
+}));
+
+vi.mock('@/services/analysis/project-principles-service', () => ({
+  ProjectPrinciplesService: vi.fn().mockImplementation(() => ({
+    extract: vi.fn().mockReturnValue({ source: 'none', principles: [] }),
+  })),
+}));
+
+describe('ValidateCommand', () => {
+  let command: ValidateCommand;
+  let validate: ReturnType<typeof vi.fn>;
+  let agentService: AgentService;
+
+  const planYaml = `
+name: Dark Mode
+strategy: sequential
+tasks:
+  - id: create-toggle
+    name: Create Toggle
+    complexity: M
+    description: Create the dark mode toggle component and wire it into the settings page.
+    files: [src/toggle.tsx]
+    acceptanceCriteria: [Toggle renders]
+    dependencies: []
+`;
+
+  const createReport = (passed: boolean): AcceptanceReport => ({
+    planName: 'Dark Mode',
+    passed,
+    tasks: [
+      {
+        id: 'create-toggle',
+        name: 'Create Toggle',
+        passed,
+        criteriaResults: [{ criterion: 'Toggle renders', passed, evidence: 'src/toggle.tsx' }],
+      },
+    ],
+    summary: {
+      totalCriteria: 1,
+      passedCriteria: passed ? 1 : 0,
+      failedCriteria: passed ? 0 : 1,
+    },
+  });
+
+  const options = {
+    plan: 'plan.yaml',
+    format: 'json' as const,
+    agent: 'mock' as const,
+    verbose: false,
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    validate = vi.fn().mockResolvedValue(createReport(true));
+    vi.mocked(AcceptanceValidationService).mockImplementation(
+      () => ({ validate }) as unknown as AcceptanceValidationService,
+    );
+    vi.mocked(readFile).mockResolvedValue(planYaml);
+    agentService = {
+      createAgent: vi.fn().mockResolvedValue({ decompose: vi.fn() }),
+    } as unknown as AgentService;
+
+    command = new ValidateCommand({
+      context: {
+        cwd: '/test/dir',
+        logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+      },
+      services: { agentService },
+    });
+  });
+
+  it('should validate the plan against the working tree', async () => {
+    const exitCode = await command.execute(options);
+
+    expect(readFile).toHaveBeenCalledWith(resolve('plan.yaml'), 'utf8');
+    expect(validate).toHaveBeenCalledWith(expect.objectContaining({ name: 'Dark Mode' }), {
+      cwd: '/test/dir',
+      principles: { source: 'none', principles: [] },
+    });
+    expect(exitCode).toBe(0);
+  });
+
+  it('should create the agent through the agent service', async () => {
+    await command.execute({ ...options, agent: 'aider' });
+
+    expect(agentService.createAgent).toHaveBeenCalledWith('aider');
+  });
+
+  it('should return exit code 1 when any criterion fails', async () => {
+    validate.mockResolvedValue(createReport(false));
+
+    expect(await command.execute(options)).toBe(1);
+  });
+
+  it('should write the JSON report when output is specified', async () => {
+    await command.execute({ ...options, output: 'report.json' });
+
+    expect(writeFile).toHaveBeenCalledWith(
+      resolve('report.json'),
+      JSON.stringify(createReport(true), null, 2),
+      'utf8',
+    );
+  });
+});
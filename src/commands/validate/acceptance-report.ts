@@ -0,0 +1,61 @@
+/**
+ * Terminal and JSON rendering for acceptance validation reports
+ */
+
+import chalk from 'chalk';
+
+import type {
+  AcceptanceCheck,
+  AcceptanceReport,
+} from '@/services/validation/acceptance-validation-service';
+
+/* eslint-disable no-console */
+
+/**
+ * Print an acceptance report to stdout in the requested format
+ */
+export function printAcceptanceReport(report: AcceptanceReport, format: 'json' | 'text'): void {
+  if (format === 'json') {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.log(`\n${chalk.bold(`✅ Acceptance Validation Report: ${report.planName}`)}\n`);
+
+  for (const check of report.tasks) {
+    printCheck(check);
+  }
+  if (report.successMetrics !== undefined) {
+    printCheck(report.successMetrics);
+  }
+  if (report.principles !== undefined) {
+    printCheck(report.principles);
+  }
+
+  const { failedCriteria, passedCriteria, totalCriteria } = report.summary;
+  if (totalCriteria === 0) {
+    console.log(chalk.yellow('⚠️  Plan defines no acceptance criteria or success metrics\n'));
+  }
+
+  const status = report.passed ? chalk.green('PASSED') : chalk.red('FAILED');
+  console.log(
+    `${chalk.bold('Result: ')}${status} ${chalk.dim(
+      `(${passedCriteria}/${totalCriteria} criteria passed, ${failedCriteria} failed)`,
+    )}\n`,
+  );
+}
+
+function printCheck(check: AcceptanceCheck): void {
+  const icon = check.passed ? chalk.green('✓') : chalk.red('✗');
+  console.log(`${icon} ${chalk.bold(check.name)} ${chalk.dim(`[${check.id}]`)}`);
+  for (const result of check.criteriaResults) {
+    const verdict = result.passed ? chalk.green('PASS') : chalk.red('FAIL');
+    console.log(`  [${verdict}] ${result.criterion}`);
+    if (result.evidence !== undefined) {
+      console.log(chalk.dim(`         ${result.evidence}`));
+    }
+  }
+  console.log('');
+}
+
+/* eslint-enable no-console */
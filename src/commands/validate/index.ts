@@ -0,0 +1,2 @@
+export { printAcceptanceReport } from './acceptance-report';
+export { ValidateCommand } from './validate-command';
@@ -0,0 +1,98 @@
+/**
+ * Validate command for checking an executed plan against its acceptance criteria
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+import chalk from 'chalk';
+
+import type { AgentService } from '@/core/agents/interfaces';
+import type { ValidateCommandOptions } from '@/types/cli';
+
+import { RegisterCommand } from '@/commands/command-factory';
+import { BaseCommand, type CommandDependencies } from '@/commands/types';
+import { ServiceIdentifiers } from '@/core/di';
+import { YamlPlanParser } from '@/io/yaml-parser';
+import { bootstrapApplication, getContainer } from '@/providers';
+import { ProjectPrinciplesService } from '@/services/analysis/project-principles-service';
+import { AcceptanceValidationService } from '@/services/validation/acceptance-validation-service';
+
+import { printAcceptanceReport } from './acceptance-report';
+
+/**
+ * Judge task acceptance criteria, plan success metrics and project principles
+ * against the current working tree
+ */
+@RegisterCommand('validate')
+export class ValidateCommand extends BaseCommand {
+  private readonly principlesService: ProjectPrinciplesService;
+
+  constructor(dependencies: CommandDependencies) {
+    super(
+      'validate',
+      'Validate the working tree against plan acceptance criteria and success metrics',
+      dependencies,
+    );
+    this.principlesService = new ProjectPrinciplesService();
+  }
+
+  async execute(options: ValidateCommandOptions): Promise<number> {
+    try {
+      const planPath = resolve(options.plan);
+      this.logger.info(chalk.blue(`📋 Loading plan from: ${planPath}`));
+      const plan = YamlPlanParser.parse(await readFile(planPath, 'utf8'));
+
+      let specContent: string | undefined;
+      if (options.spec !== undefined) {
+        const specPath = resolve(options.spec);
+        this.logger.info(chalk.blue(`📄 Reading spec from: ${specPath}`));
+        specContent = await readFile(specPath, 'utf8');
+      }
+
+      const cwd = options.targetDir ?? this.dependencies.context.cwd;
+      this.logger.info(chalk.cyan('🔍 Extracting project principles...'));
+      const principles = this.principlesService.extract(cwd);
+
+      this.logger.info(chalk.cyan(`🔍 Checking if ${options.agent} agent is available...`));
+      const agentService = await this._resolveAgentService(options);
+      const agent = await agentService.createAgent(options.agent);
+
+      this.logger.info(chalk.cyan('🧪 Validating acceptance criteria...'));
+      const report = await new AcceptanceValidationService(agent).validate(plan, {
+        cwd,
+        principles,
+        ...(specContent !== undefined && { specContent }),
+      });
+
+      if (options.output !== undefined) {
+        const outputPath = resolve(options.output);
+        await writeFile(outputPath, JSON.stringify(report, null, 2), 'utf8');
+        this.logger.info(chalk.green(`✅ Report written to: ${outputPath}`));
+      }
+
+      printAcceptanceReport(report, options.format);
+
+      return report.passed ? 0 : 1;
+    } catch (error) {
+      this.logger.error(
+        chalk.red(
+          `❌ Validate command failed: ${error instanceof Error ? error.message : String(error)}`,
+        ),
+      );
+      return 1;
+    }
+  }
+
+  /**
+   * Agent service from the container, so configured command agents can judge criteria too
+   */
+  private async _resolveAgentService(options: ValidateCommandOptions): Promise<AgentService> {
+    if (this.dependencies.services?.agentService !== undefined) {
+      return this.dependencies.services.agentService;
+    }
+
+    await bootstrapApplication({ verbose: options.verbose, agent: options.agent });
+    return getContainer().get<AgentService>(ServiceIdentifiers.AgentService);
+  }
+}
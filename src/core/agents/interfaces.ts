@@ -44,9 +44,14 @@ export type DecomposerAgent = {
 };
 
 /**
- * Agent type enumeration
+ * Agents built into chopstack
  */
-export type AgentType = 'claude' | 'codex' | 'mock';
+export type BuiltInAgentType = 'claude' | 'codex' | 'mock';
+
+/**
+ * Agent type: a built-in agent or the name of a command agent configured under `agents`
+ */
+export type AgentType = BuiltInAgentType | (string & Record<never, never>);
 
 /**
  * Agent service for orchestrating multiple agents
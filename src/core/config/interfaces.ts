@@ -1,58 +1,21 @@
-import type { ExecutionMode, VcsMode } from '@/core/execution/types';
+import type { AppConfig, PartialAppConfig, ResolvedAppConfig } from './types';
 
-/**
- * Core configuration for execution
- */
-export type ExecutionConfig = {
-  continueOnError: boolean;
-  cwd: string;
-  dryRun: boolean;
-  maxRetries: number;
-  mode: ExecutionMode;
-  timeout?: number;
-  vcsMode: VcsMode;
-  verbose: boolean;
-};
-
-/**
- * Configuration for VCS operations
- */
-export type VcsConfig = {
-  autoCommit: boolean;
-  autoSubmit: boolean;
-  baseBranch: string;
-  branchPrefix?: string;
-  provider: 'git' | 'git-spice' | 'graphite';
-  pullRequestTemplate?: string;
-};
-
-/**
- * Configuration for agent operations
- */
-export type AgentConfig = {
-  apiKey?: string;
-  baseUrl?: string;
-  maxTokens?: number;
-  model?: string;
-  temperature?: number;
-  timeout?: number;
-  type: 'claude' | 'aider' | 'mock';
-};
-
-/**
- * Complete application configuration
- */
-export type AppConfig = {
-  agent: AgentConfig;
-  execution: ExecutionConfig;
-  vcs: VcsConfig;
-};
+export type {
+  AgentConfig,
+  AppConfig,
+  ExecutionConfig,
+  PartialAppConfig,
+  ResolvedAppConfig,
+  VcsConfig,
+} from './types';
 
 /**
  * Configuration source
  */
 export type ConfigSource = {
-  load(): Promise<Partial<AppConfig>>;
+  load(): Promise<PartialAppConfig>;
+  /** Human-readable origin shown by `chopstack config show` (e.g. `env`, a file path) */
+  readonly name: string;
 };
 
 /**
@@ -61,4 +24,5 @@ export type ConfigSource = {
 export type ConfigLoader = {
   addSource(source: ConfigSource): void;
   load(): Promise<AppConfig>;
+  resolve(): Promise<ResolvedAppConfig>;
 };
@@ -1,13 +1,24 @@
+import type { AgentType } from '@/core/agents/interfaces';
+import type { ConflictStrategy, VcsBackendType, WorktreeSetup } from '@/core/execution/types';
+
 /**
  * Runtime configuration for the application
  * Contains settings that are determined at startup (CLI flags, etc.)
  */
 
 export type RuntimeConfig = {
+  /** Agent used for agent-assisted work outside task execution (e.g. conflict resolution) */
+  agent?: AgentType;
+  /** How cherry-pick conflicts are resolved while building stacks */
+  conflictStrategy?: ConflictStrategy;
   /** Enable TUI mode */
   tui?: boolean;
+  /** Stacking backend used by stacked VCS mode */
+  vcsBackend?: VcsBackendType;
   /** Enable verbose logging for task execution */
   verbose?: boolean;
+  /** Files, links and a setup command applied to each new task worktree */
+  worktreeSetup?: WorktreeSetup;
   /** Enable file logging */
   writeLog?: boolean;
 };
@@ -22,6 +33,14 @@ export class RuntimeConfigService {
     this._config = config;
   }
 
+  get agent(): AgentType {
+    return this._config.agent ?? 'claude';
+  }
+
+  get conflictStrategy(): ConflictStrategy {
+    return this._config.conflictStrategy ?? 'auto';
+  }
+
   get verbose(): boolean {
     return this._config.verbose ?? false;
   }
@@ -30,6 +49,14 @@ export class RuntimeConfigService {
     return this._config.tui ?? true;
   }
 
+  get vcsBackend(): VcsBackendType {
+    return this._config.vcsBackend ?? 'git-spice';
+  }
+
+  get worktreeSetup(): WorktreeSetup | undefined {
+    return this._config.worktreeSetup;
+  }
+
   get writeLog(): boolean {
     return this._config.writeLog ?? false;
   }
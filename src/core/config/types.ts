@@ -0,0 +1,165 @@
+import { z } from 'zod';
+
+import {
+  BranchGranularitySchema,
+  ConflictStrategySchema,
+  ExecutionModeSchema,
+  SizeTimeoutsSchema,
+  StackShapeSchema,
+  VcsBackendTypeSchema,
+  VcsModeSchema,
+  WorktreeSetupSchema,
+} from '@/core/execution/types';
+
+// Agents built into chopstack
+export const BuiltInAgentTypeSchema = z.enum(['claude', 'codex', 'mock']);
+export type BuiltInAgentType = z.infer<typeof BuiltInAgentTypeSchema>;
+
+// Name of a command agent configured under `agents`
+export const CommandAgentNameSchema = z
+  .string()
+  .regex(
+    /^[a-z][\w-]*$/i,
+    'Agent names must start with a letter and contain only letters, digits, - and _',
+  );
+
+// Agents that can decompose specs and execute tasks: a built-in or a configured command agent
+export const AgentTypeSchema = z.union([BuiltInAgentTypeSchema, CommandAgentNameSchema]);
+export type AgentType = z.infer<typeof AgentTypeSchema>;
+
+/**
+ * Configuration for agent operations
+ */
+export const AgentConfigSchema = z.object({
+  type: AgentTypeSchema,
+});
+export type AgentConfig = z.infer<typeof AgentConfigSchema>;
+
+/**
+ * Command template: the executable followed by its arguments, as an array or a
+ * shell-like string. `{prompt}`, `{workdir}` and `{files}` are replaced per invocation.
+ */
+export const CommandTemplateSchema = z.union([
+  z.string().trim().min(1),
+  z.array(z.string()).min(1),
+]);
+export type CommandTemplate = z.infer<typeof CommandTemplateSchema>;
+
+// How the prompt reaches the command
+export const CommandPromptDeliverySchema = z.enum(['argument', 'stdin']);
+export type CommandPromptDelivery = z.infer<typeof CommandPromptDeliverySchema>;
+
+// How the command's stdout is read
+export const CommandOutputFormatSchema = z.enum(['jsonl', 'text']);
+export type CommandOutputFormat = z.infer<typeof CommandOutputFormatSchema>;
+
+/**
+ * A config-driven agent that wraps an arbitrary coding CLI
+ */
+export const CommandAgentConfigSchema = z
+  .strictObject({
+    decompose: CommandTemplateSchema.optional(),
+    execute: CommandTemplateSchema.optional(),
+    outputFormat: CommandOutputFormatSchema.optional(),
+    promptDelivery: CommandPromptDeliverySchema.optional(),
+    query: CommandTemplateSchema.optional(),
+    /** Dotted path of the text in each JSON line when `outputFormat` is `jsonl` */
+    textField: z.string().min(1).optional(),
+    type: z.literal('command'),
+  })
+  .refine(
+    (agent) =>
+      agent.decompose !== undefined || agent.execute !== undefined || agent.query !== undefined,
+    { message: 'Command agents need at least one of decompose, execute or query' },
+  );
+export type CommandAgentConfig = z.infer<typeof CommandAgentConfigSchema>;
+
+/**
+ * Command agents by name, selectable with `--agent <name>`
+ */
+export const AgentsConfigSchema = z
+  .record(CommandAgentNameSchema, CommandAgentConfigSchema)
+  .refine(
+    (agents) =>
+      Object.keys(agents).every((name) => !BuiltInAgentTypeSchema.safeParse(name).success),
+    {
+      message: `Command agents cannot reuse a built-in agent name (${BuiltInAgentTypeSchema.options.join(', ')})`,
+    },
+  );
+export type AgentsConfig = z.infer<typeof AgentsConfigSchema>;
+
+/**
+ * Core configuration for execution
+ */
+export const ExecutionConfigSchema = z.object({
+  continueOnError: z.boolean(),
+  cwd: z.string(),
+  dryRun: z.boolean(),
+  idleTimeout: z.number().int().min(0).optional(),
+  maxCost: z.number().positive().optional(),
+  maxParallel: z.number().int().positive().optional(),
+  maxRetries: z.number().int().min(0),
+  maxTokens: z.number().int().positive().optional(),
+  mode: ExecutionModeSchema,
+  sizeTimeouts: SizeTimeoutsSchema.optional(),
+  timeout: z.number().int().min(0).optional(),
+  vcsMode: VcsModeSchema,
+  verbose: z.boolean(),
+});
+export type ExecutionConfig = z.infer<typeof ExecutionConfigSchema>;
+
+/**
+ * Configuration for VCS operations
+ */
+export const VcsConfigSchema = z.object({
+  branchGranularity: BranchGranularitySchema.optional(),
+  conflictStrategy: ConflictStrategySchema.optional(),
+  keepWorktrees: z.boolean().optional(),
+  provider: VcsBackendTypeSchema,
+  stackShape: StackShapeSchema.optional(),
+  worktreeSetup: WorktreeSetupSchema.optional(),
+});
+export type VcsConfig = z.infer<typeof VcsConfigSchema>;
+
+/**
+ * Complete application configuration
+ */
+export const AppConfigSchema = z
+  .object({
+    agent: AgentConfigSchema,
+    agents: AgentsConfigSchema.default({}),
+    execution: ExecutionConfigSchema,
+    vcs: VcsConfigSchema,
+  })
+  .refine(
+    (config) =>
+      BuiltInAgentTypeSchema.safeParse(config.agent.type).success ||
+      config.agents[config.agent.type] !== undefined,
+    {
+      message: `Unknown agent: use ${BuiltInAgentTypeSchema.options.join(', ')} or a command agent configured under agents`,
+      path: ['agent', 'type'],
+    },
+  );
+export type AppConfig = z.infer<typeof AppConfigSchema>;
+
+/**
+ * Configuration contributed by a single source (config file, environment, CLI flags)
+ *
+ * Strict so that misspelled keys in a config file are reported instead of ignored.
+ */
+export const PartialAppConfigSchema = z.strictObject({
+  agent: AgentConfigSchema.partial().strict().optional(),
+  agents: AgentsConfigSchema.optional(),
+  execution: ExecutionConfigSchema.partial().strict().optional(),
+  vcs: VcsConfigSchema.partial().strict().optional(),
+});
+export type PartialAppConfig = z.infer<typeof PartialAppConfigSchema>;
+
+/**
+ * Resolved configuration together with the source that supplied each value,
+ * keyed by dotted path (e.g. `execution.vcsMode`)
+ */
+export type ResolvedAppConfig = {
+  config: AppConfig;
+  sources: Record<string, string>;
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Phase, TaskV2 } from '@/types/schemas-v2';
+
+import { PhaseScheduler } from '../phase-scheduler';
+import { TaskTransitionManager } from '../task-transitions';
+
+describe('PhaseScheduler', () => {
+  const createTask = (id: string, dependencies: string[] = []): TaskV2 => ({
+    id,
+    name: `Task ${id}`,
+    description: `Description for ${id}`,
+    dependencies,
+    files: [`${id}.ts`],
+    complexity: 'S',
+    acceptanceCriteria: [],
+  });
+
+  const phases: Phase[] = [
+    {
+      id: 'phase-impl',
+      name: 'Implementation',
+      strategy: 'parallel',
+      tasks: ['impl-a', 'impl-b'],
+      requires: ['phase-setup'],
+    },
+    {
+      id: 'phase-setup',
+      name: 'Setup',
+      strategy: 'sequential',
+      tasks: ['setup-types', 'setup-context'],
+      requires: [],
+    },
+  ];
+
+  const tasks = [
+    createTask('setup-context'),
+    createTask('setup-types'),
+    createTask('impl-a'),
+    createTask('impl-b', ['impl-a']),
+  ];
+
+  it('should order phases after the phases they require', () => {
+    const scheduler = new PhaseScheduler(phases);
+
+    expect(scheduler.getOrderedPhases().map((phase) => phase.id)).toEqual([
+      'phase-setup',
+      'phase-impl',
+    ]);
+    expect(scheduler.getPhaseIndex(createTask('impl-a'))).toBe(1);
+  });
+
+  it('should chain sequential phase tasks in list order', () => {
+    const constrained = new PhaseScheduler(phases).constrainTasks(tasks);
+
+    expect(constrained.find((t) => t.id === 'setup-types')?.dependencies).toEqual([]);
+    expect(constrained.find((t) => t.id === 'setup-context')?.dependencies).toEqual([
+      'setup-types',
+    ]);
+  });
+
+  it('should make tasks depend on every task of required phases', () => {
+    const constrained = new PhaseScheduler(phases).constrainTasks(tasks);
+
+    expect(constrained.find((t) => t.id === 'impl-a')?.dependencies).toEqual([
+      'setup-types',
+      'setup-context',
+    ]);
+    expect(constrained.find((t) => t.id === 'impl-b')?.dependencies).toEqual([
+      'impl-a',
+      'setup-types',
+      'setup-context',
+    ]);
+  });
+
+  it('should not modify the original tasks', () => {
+    new PhaseScheduler(phases).constrainTasks(tasks);
+
+    expect(tasks.find((t) => t.id === 'setup-context')?.dependencies).toEqual([]);
+  });
+
+  it('should return tasks unchanged when no phases are defined', () => {
+    expect(new PhaseScheduler().constrainTasks(tasks)).toBe(tasks);
+  });
+
+  it('should use task phase membership when the phase does not list the task', () => {
+    const scheduler = new PhaseScheduler(phases);
+    const extra = { ...createTask('impl-c'), phase: 'phase-impl' };
+
+    const constrained = scheduler.constrainTasks([...tasks, extra]);
+
+    expect(constrained.find((t) => t.id === 'impl-c')?.dependencies).toEqual([
+      'setup-types',
+      'setup-context',
+    ]);
+  });
+
+  it('should throw on circular phase requirements', () => {
+    expect(
+      () =>
+        new PhaseScheduler([
+          { id: 'one', name: 'One', strategy: 'parallel', tasks: ['a'], requires: ['two'] },
+          { id: 'two', name: 'Two', strategy: 'parallel', tasks: ['b'], requires: ['one'] },
+        ]),
+    ).toThrow('Circular phase dependencies: one -> two -> one');
+  });
+
+  it('should block later phases until required phases complete', () => {
+    const manager = new TaskTransitionManager();
+    manager.initialize(new PhaseScheduler(phases).constrainTasks(tasks));
+
+    expect(manager.getExecutableTasks()).toEqual(['setup-types']);
+
+    manager.startTask('setup-types');
+    manager.startTask('setup-types');
+    manager.completeTask('setup-types');
+    expect(manager.getExecutableTasks()).toEqual(['setup-context']);
+
+    manager.startTask('setup-context');
+    manager.startTask('setup-context');
+    manager.completeTask('setup-context');
+    expect(manager.getExecutableTasks()).toEqual(['impl-a']);
+  });
+});
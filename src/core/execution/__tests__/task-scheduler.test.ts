@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+
+import type { TaskV2 } from '@/types/schemas-v2';
+
+import { TaskScheduler } from '../task-scheduler';
+
+describe('TaskScheduler', () => {
+  const createTask = (id: string): TaskV2 => ({
+    id,
+    name: `Task ${id}`,
+    description: `Description for ${id}`,
+    dependencies: [],
+    files: [`${id}.ts`],
+    complexity: 'S',
+    acceptanceCriteria: [],
+  });
+
+  const tasks = ['a', 'b', 'c', 'd'].map((id) => createTask(id));
+
+  it('should put critical path tasks first, then keep plan order', () => {
+    const scheduler = new TaskScheduler(tasks, { criticalPath: ['d', 'b'] });
+
+    const ordered = scheduler.prioritize([tasks[0], tasks[1], tasks[2], tasks[3]] as TaskV2[]);
+
+    expect(ordered.map((task) => task.id)).toEqual(['d', 'b', 'a', 'c']);
+    expect(scheduler.isOnCriticalPath('d')).toBe(true);
+    expect(scheduler.isOnCriticalPath('a')).toBe(false);
+  });
+
+  it('should limit slots to maxParallel', () => {
+    const scheduler = new TaskScheduler(tasks, { maxParallel: 2 });
+
+    expect(scheduler.getSlotCount(5)).toBe(2);
+    expect(scheduler.getSlotCount(1)).toBe(1);
+  });
+
+  it('should give every task a slot when unbounded', () => {
+    expect(new TaskScheduler(tasks).getSlotCount(12)).toBe(12);
+  });
+
+  it('should reject a maxParallel below 1', () => {
+    expect(() => new TaskScheduler(tasks, { maxParallel: 0 })).toThrow(
+      'maxParallel must be at least 1, got 0',
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  formatDuration,
+  parseDuration,
+  parseSizeTimeouts,
+  resolveTaskTimeouts,
+} from '@/core/execution/task-timeouts';
+
+describe('task timeouts', () => {
+  it('should parse durations with and without units', () => {
+    expect(parseDuration('600000')).toBe(600_000);
+    expect(parseDuration('500ms')).toBe(500);
+    expect(parseDuration('90s')).toBe(90_000);
+    expect(parseDuration('5m')).toBe(300_000);
+    expect(parseDuration('1h')).toBe(3_600_000);
+    expect(() => parseDuration('5 minutes')).toThrow('Invalid duration "5 minutes"');
+  });
+
+  it('should parse wall-clock and idle limits per size', () => {
+    expect(parseSizeTimeouts('XS=5m, L=40m:10m')).toEqual({
+      XS: { wallClock: 300_000 },
+      L: { wallClock: 2_400_000, idle: 600_000 },
+    });
+    expect(() => parseSizeTimeouts('XXL=5m')).toThrow('Invalid size timeout "XXL=5m"');
+    expect(() => parseSizeTimeouts('M')).toThrow('Invalid size timeout "M"');
+    expect(() => parseSizeTimeouts('M=5m:')).toThrow('Invalid size timeout "M=5m:"');
+  });
+
+  it('should let size limits override the defaults', () => {
+    const settings = {
+      timeout: 600_000,
+      idleTimeout: 120_000,
+      sizeTimeouts: { XS: { wallClock: 300_000 }, L: { idle: 0 } },
+    };
+
+    expect(resolveTaskTimeouts('XS', settings)).toEqual({ wallClock: 300_000, idle: 120_000 });
+    expect(resolveTaskTimeouts('M', settings)).toEqual({ wallClock: 600_000, idle: 120_000 });
+    expect(resolveTaskTimeouts('L', settings)).toEqual({ wallClock: 600_000 });
+    expect(resolveTaskTimeouts('M', {})).toEqual({});
+  });
+
+  it('should format durations', () => {
+    expect(formatDuration(500)).toBe('500ms');
+    expect(formatDuration(45_000)).toBe('45s');
+    expect(formatDuration(300_000)).toBe('5m');
+    expect(formatDuration(5_430_000)).toBe('1h 30m 30s');
+  });
+});
@@ -68,6 +68,23 @@ describe('TaskTransitionManager', () => {
       manager.initialize(tasks);
       expect(manager.getTaskState('task-1')).toBe('ready');
     });
+
+    it('should restore completed tasks and ready their dependents', () => {
+      const tasks = createTestTasks();
+      manager.initialize(tasks, new Set(['task-1']));
+
+      expect(manager.getTaskState('task-1')).toBe('completed');
+      expect(manager.getTaskTransitions('task-1')[0]?.reason).toBe('Restored from checkpoint');
+
+      // Task 2 only depends on the restored task, task 3 still waits on task 2
+      expect(manager.getTaskState('task-2')).toBe('ready');
+      expect(manager.getTaskState('task-3')).toBe('pending');
+
+      manager.startTask('task-2');
+      manager.startTask('task-2');
+      manager.completeTask('task-2');
+      expect(manager.getTaskState('task-3')).toBe('ready');
+    });
   });
 
   describe('getTaskState', () => {
@@ -220,6 +237,64 @@ describe('TaskTransitionManager', () => {
     });
   });
 
+  describe('user controls', () => {
+    it('should cascade a skip down the whole dependency chain', () => {
+      manager.initialize(createTestTasks());
+
+      expect(manager.skipTaskWithDependents('task-2', 'Skipped by user')).toEqual([
+        'task-2',
+        'task-3',
+      ]);
+      expect(manager.getTaskState('task-1')).toBe('ready');
+      expect(manager.skipTaskWithDependents('task-2', 'Skipped again')).toEqual([]);
+    });
+
+    it('should not skip a running task', () => {
+      manager.initialize(createTestTasks());
+      manager.startTask('task-1');
+      manager.startTask('task-1');
+
+      expect(manager.skipTaskWithDependents('task-1', 'Skipped by user')).toEqual([]);
+      expect(manager.getTaskState('task-1')).toBe('running');
+      expect(manager.getTaskState('task-2')).toBe('pending');
+    });
+
+    it('should only requeue failed tasks', () => {
+      manager.initialize(createTestTasks());
+
+      expect(manager.requeueFailedTask('task-1')).toEqual([]);
+      expect(manager.requeueFailedTask('task-2')).toEqual([]);
+      expect(manager.getTaskState('task-2')).toBe('pending');
+    });
+
+    it('should make a failed task ready again and restore the dependents it skipped', () => {
+      manager.initialize(createTestTasks());
+      manager.startTask('task-1');
+      manager.startTask('task-1');
+      manager.failTask('task-1', 'Error');
+
+      expect(manager.requeueFailedTask('task-1')).toEqual(['task-1', 'task-2', 'task-3']);
+      expect(manager.getTaskState('task-1')).toBe('ready');
+      expect(manager.getTaskState('task-2')).toBe('pending');
+
+      manager.startTask('task-1');
+      manager.startTask('task-1');
+      manager.completeTask('task-1');
+      expect(manager.getTaskState('task-2')).toBe('ready');
+    });
+
+    it('should hand out no tasks while scheduling is paused', () => {
+      manager.initialize(createTestTasks());
+
+      manager.pauseScheduling();
+      expect(manager.isSchedulingPaused()).toBe(true);
+      expect(manager.getExecutableTasks()).toEqual([]);
+
+      manager.resumeScheduling();
+      expect(manager.getExecutableTasks()).toEqual(['task-1']);
+    });
+  });
+
   describe('getExecutableTasks', () => {
     it('should return tasks that can be executed', () => {
       manager.initialize(createTestTasks());
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+
+import type { TaskUsage } from '@/core/execution/types';
+
+import {
+  addUsage,
+  EMPTY_USAGE,
+  formatUsage,
+  getBudgetViolation,
+  getTotalTokens,
+} from '@/core/execution/task-usage';
+
+const usage: TaskUsage = {
+  inputTokens: 1200,
+  outputTokens: 800,
+  cacheCreationInputTokens: 2000,
+  cacheReadInputTokens: 46_000,
+  costUsd: 0.4213,
+};
+
+describe('task usage', () => {
+  it('should add usage field by field', () => {
+    expect(addUsage(usage, usage)).toEqual({
+      inputTokens: 2400,
+      outputTokens: 1600,
+      cacheCreationInputTokens: 4000,
+      cacheReadInputTokens: 92_000,
+      costUsd: 0.8426,
+    });
+    expect(addUsage()).toEqual(EMPTY_USAGE);
+  });
+
+  it('should count input, output and cache tokens', () => {
+    expect(getTotalTokens(usage)).toBe(50_000);
+  });
+
+  it('should format tokens and cost on one line', () => {
+    expect(formatUsage(usage)).toBe('50.0k tokens (1.2k in, 800 out, 48.0k cache) • $0.42');
+  });
+
+  it('should report the first exceeded budget limit', () => {
+    expect(getBudgetViolation(usage, {})).toBeUndefined();
+    expect(getBudgetViolation(usage, { maxCost: 1, maxTokens: 60_000 })).toBeUndefined();
+    expect(getBudgetViolation(usage, { maxCost: 0.25 })).toBe(
+      'cost $0.42 exceeds --max-cost $0.25',
+    );
+    expect(getBudgetViolation(usage, { maxTokens: 10_000 })).toBe(
+      '50000 tokens exceed --max-tokens 10000',
+    );
+  });
+});
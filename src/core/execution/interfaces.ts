@@ -1,5 +1,17 @@
-import type { VcsMode } from '@/core/execution/types';
-import type { PlanV2, TaskV2 } from '@/types/schemas-v2';
+import type {
+  BranchGranularity,
+  SizeTimeouts,
+  StackShape,
+  TaskUsage,
+  VcsMode,
+} from '@/core/execution/types';
+import type {
+  Phase,
+  ExecutionContext as PlanExecutionContext,
+  PlanV2,
+  TaskV2,
+} from '@/types/schemas-v2';
+import type { FileViolation } from '@/types/validation';
 import type { ValidationResult } from '@/validation/dag-validator';
 
 /**
@@ -35,13 +47,44 @@ export type PlanModeHandler = {
  */
 export type ExecuteModeHandler = {
   handle(tasks: TaskV2[], context: ExecutionContext): Promise<ExecutionResult>;
+
+  /**
+   * Interrupt the run: start no new tasks and stop every running task, failing it with the
+   * reason. Returns the tasks that were stopped
+   */
+  interrupt(reason: string): string[];
+
+  /**
+   * Force-kill stopped tasks whose agent process has not exited; returns the tasks killed
+   */
+  killStoppedTasks(): string[];
+
+  /**
+   * Retry a failed task during the run; returns the task and the dependents it re-enables
+   */
+  retryTask(taskId: string): string[];
+
+  /**
+   * Pause or resume starting new tasks; running tasks are unaffected
+   */
+  setSchedulingPaused(paused: boolean): void;
+
+  /**
+   * Skip a task that has not started; returns every task skipped as a result
+   */
+  skipTask(taskId: string): string[];
+
+  /**
+   * Stop a running task, failing it without automatic retries
+   */
+  stopTask(taskId: string): boolean;
 };
 
 /**
- * Handler for validate mode
+ * Handler for validate mode; plan diagnostics are synchronous
  */
 export type ValidateModeHandler = {
-  handle(plan: PlanV2): Promise<ValidationResult>;
+  handle(plan: PlanV2): ValidationResult;
 };
 
 /**
@@ -49,26 +92,59 @@ export type ValidateModeHandler = {
  */
 export type ExecutionContext = {
   agentType: string;
+  branchGranularity?: BranchGranularity;
   continueOnError: boolean;
   cwd: string;
   dryRun: boolean;
+  /** Fail a task attempt after this many milliseconds without agent output */
+  idleTimeout?: number;
+  /** Leave task worktrees in place after the run instead of removing them */
+  keepWorktrees?: boolean;
+  /** Stop the run once agents report more than this cost in USD */
+  maxCost?: number;
+  maxParallel?: number;
   maxRetries: number;
+  /** Stop the run once agents report more than this many tokens */
+  maxTokens?: number;
   parentRef?: string;
   permissiveValidation?: boolean;
+  phases?: Phase[];
+  planName?: string;
+  resume?: boolean;
+  resumeFrom?: string;
+  /** Idle and wall-clock limits per complexity size, overriding the defaults */
+  sizeTimeouts?: SizeTimeouts;
+  specContext?: PlanExecutionContext;
+  specTokenBudget?: number;
+  stackShape?: StackShape;
+  /** Fail a task attempt after running this many milliseconds */
+  timeout?: number;
   vcsMode: VcsMode;
   verbose: boolean;
+  /** Plan-level verification commands, run after every task */
+  verify?: string[];
 };
 
 /**
  * Result from task execution
  */
 export type TaskResult = {
+  branchName?: string;
+  commitHash?: string;
   duration: number;
   error?: string;
+  exitCode?: number;
+  filesChanged?: string[];
   output?: string;
   planOutput?: Record<string, unknown>;
+  /** Number of times the task was retried after failing */
+  retries?: number;
   status: 'success' | 'failure' | 'skipped';
   taskId: string;
+  /** Tokens and cost the agent reported, over all attempts */
+  usage?: TaskUsage;
+  /** File modification violations found by pre-commit validation */
+  violations?: FileViolation[];
 };
 
 /**
@@ -90,6 +166,8 @@ export type ExecutionResult = {
   commits: string[];
   tasks: TaskResult[];
   totalDuration: number;
+  /** Tokens and cost summed over all tasks */
+  usage?: TaskUsage;
 };
 
 /**
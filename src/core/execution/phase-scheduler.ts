@@ -0,0 +1,144 @@
+import type { Phase, TaskV2 } from '@/types/schemas-v2';
+
+/**
+ * Translates plan phases into task-level scheduling constraints.
+ *
+ * Phases are enforced by extending task dependencies, so the transition manager's
+ * dependency resolution (including blocking on failures) applies unchanged:
+ * - every task in a phase depends on every task of the phases it `requires`
+ * - tasks in a `sequential` phase depend on the previous task in the phase's list order
+ * - tasks in a `parallel` phase only keep their own dependencies
+ */
+export class PhaseScheduler {
+  private readonly orderedPhases: Phase[];
+  private readonly phasesById: Map<string, Phase> = new Map();
+
+  constructor(phases: Phase[] = []) {
+    for (const phase of phases) {
+      this.phasesById.set(phase.id, phase);
+    }
+    this.orderedPhases = this._orderPhases(phases);
+  }
+
+  /**
+   * Whether the plan defines any phases
+   */
+  hasPhases(): boolean {
+    return this.orderedPhases.length > 0;
+  }
+
+  /**
+   * Phases in execution order (every phase appears after the phases it requires)
+   */
+  getOrderedPhases(): Phase[] {
+    return [...this.orderedPhases];
+  }
+
+  /**
+   * Resolve the phase a task belongs to, preferring the phase task list over `task.phase`
+   */
+  getPhaseForTask(task: TaskV2): Phase | undefined {
+    for (const phase of this.orderedPhases) {
+      if (phase.tasks.includes(task.id)) {
+        return phase;
+      }
+    }
+    return task.phase === undefined ? undefined : this.phasesById.get(task.phase);
+  }
+
+  /**
+   * Position of a task's phase in execution order, or undefined for tasks outside any phase
+   */
+  getPhaseIndex(task: TaskV2): number | undefined {
+    const phase = this.getPhaseForTask(task);
+    return phase === undefined ? undefined : this.orderedPhases.indexOf(phase);
+  }
+
+  /**
+   * Return copies of the tasks with phase ordering folded into their dependencies
+   */
+  constrainTasks(tasks: TaskV2[]): TaskV2[] {
+    if (!this.hasPhases()) {
+      return tasks;
+    }
+
+    const taskIds = new Set(tasks.map((task) => task.id));
+    const members = new Map<string, string[]>();
+    for (const phase of this.orderedPhases) {
+      members.set(phase.id, []);
+    }
+    for (const task of tasks) {
+      const phase = this.getPhaseForTask(task);
+      if (phase !== undefined) {
+        members.get(phase.id)?.push(task.id);
+      }
+    }
+
+    // Keep the phase's declared order for sequential execution
+    for (const phase of this.orderedPhases) {
+      const declared = phase.tasks.filter((taskId) => taskIds.has(taskId));
+      const extra = (members.get(phase.id) ?? []).filter((taskId) => !declared.includes(taskId));
+      members.set(phase.id, [...declared, ...extra]);
+    }
+
+    return tasks.map((task) => {
+      const phase = this.getPhaseForTask(task);
+      if (phase === undefined) {
+        return task;
+      }
+
+      const dependencies = new Set(task.dependencies);
+      for (const requiredPhaseId of phase.requires) {
+        for (const taskId of members.get(requiredPhaseId) ?? []) {
+          dependencies.add(taskId);
+        }
+      }
+
+      if (phase.strategy === 'sequential') {
+        const phaseTasks = members.get(phase.id) ?? [];
+        const position = phaseTasks.indexOf(task.id);
+        const previousTaskId = position > 0 ? phaseTasks[position - 1] : undefined;
+        if (previousTaskId !== undefined) {
+          dependencies.add(previousTaskId);
+        }
+      }
+
+      dependencies.delete(task.id);
+      return { ...task, dependencies: [...dependencies] };
+    });
+  }
+
+  private _orderPhases(phases: Phase[]): Phase[] {
+    const ordered: Phase[] = [];
+    const visited = new Set<string>();
+    const visiting: string[] = [];
+
+    const visit = (phase: Phase): void => {
+      if (visited.has(phase.id)) {
+        return;
+      }
+      if (visiting.includes(phase.id)) {
+        const cycle = [...visiting.slice(visiting.indexOf(phase.id)), phase.id];
+        throw new Error(`Circular phase dependencies: ${cycle.join(' -> ')}`);
+      }
+
+      visiting.push(phase.id);
+      for (const requiredPhaseId of phase.requires) {
+        const requiredPhase = this.phasesById.get(requiredPhaseId);
+        if (requiredPhase !== undefined) {
+          visit(requiredPhase);
+        }
+      }
+      visiting.pop();
+
+      visited.add(phase.id);
+      ordered.push(phase);
+    };
+
+    for (const phase of phases) {
+      visit(phase);
+    }
+
+    return ordered;
+  }
+}
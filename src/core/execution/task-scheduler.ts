@@ -0,0 +1,68 @@
+import type { TaskV2 } from '@/types/schemas-v2';
+
+export type TaskSchedulerOptions = {
+  /**
+   * Task IDs on the plan's critical path, in dependency order
+   */
+  criticalPath?: string[];
+  /**
+   * Maximum number of tasks running at once (unbounded when omitted)
+   */
+  maxParallel?: number;
+};
+
+/**
+ * Decides how many executable tasks may run at once and which ones get a slot first.
+ *
+ * Tasks on the critical path are started first, in path order, because delaying them
+ * delays the whole run. The remaining tasks keep their plan order. Tasks that do not
+ * get a slot wait in the `queued` state until a running task finishes.
+ */
+export class TaskScheduler {
+  readonly maxParallel: number;
+  private readonly criticalPathRanks: Map<string, number> = new Map();
+  private readonly planOrder: Map<string, number> = new Map();
+
+  constructor(tasks: TaskV2[] = [], options: TaskSchedulerOptions = {}) {
+    if (options.maxParallel !== undefined && options.maxParallel < 1) {
+      throw new Error(`maxParallel must be at least 1, got ${options.maxParallel}`);
+    }
+    this.maxParallel = options.maxParallel ?? Number.POSITIVE_INFINITY;
+
+    for (const [index, task] of tasks.entries()) {
+      this.planOrder.set(task.id, index);
+    }
+    for (const [index, taskId] of (options.criticalPath ?? []).entries()) {
+      this.criticalPathRanks.set(taskId, index);
+    }
+  }
+
+  /**
+   * Whether a task lies on the plan's critical path
+   */
+  isOnCriticalPath(taskId: string): boolean {
+    return this.criticalPathRanks.has(taskId);
+  }
+
+  /**
+   * Number of tasks from a batch that may run concurrently
+   */
+  getSlotCount(taskCount: number): number {
+    return Math.min(this.maxParallel, taskCount);
+  }
+
+  /**
+   * Order tasks by scheduling priority: critical path first, then plan order
+   */
+  prioritize<T extends Pick<TaskV2, 'id'>>(tasks: T[]): T[] {
+    return [...tasks].sort((a, b) => this._rank(a.id) - this._rank(b.id));
+  }
+
+  private _rank(taskId: string): number {
+    const criticalRank = this.criticalPathRanks.get(taskId);
+    if (criticalRank !== undefined) {
+      return criticalRank;
+    }
+    return this.criticalPathRanks.size + (this.planOrder.get(taskId) ?? this.planOrder.size);
+  }
+}
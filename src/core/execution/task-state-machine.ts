@@ -31,6 +31,7 @@ export const VALID_STATE_TRANSITIONS: StateTransitionRule[] = [
   { from: 'running', to: 'completed' },
   { from: 'running', to: 'failed' },
   { from: 'failed', to: 'queued' }, // Retry
+  { from: 'failed', to: 'ready' }, // Retry requested by the user, rescheduled by the run loop
   { from: 'blocked', to: 'ready' },
   { from: 'blocked', to: 'skipped' },
   { from: 'ready', to: 'skipped' },
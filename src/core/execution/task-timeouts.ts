@@ -0,0 +1,96 @@
+import type { SizeTimeouts, TaskTimeouts } from '@/core/execution/types';
+
+import { type Complexity, complexitySchema } from '@/types/schemas-v2';
+
+/**
+ * Run-wide task time limits in milliseconds, with per-size overrides
+ */
+export type TaskTimeoutSettings = {
+  /** Default idle limit: time without agent output */
+  idleTimeout?: number;
+  sizeTimeouts?: SizeTimeouts;
+  /** Default wall-clock limit per task attempt */
+  timeout?: number;
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration such as `300000`, `90s`, `5m` or `1h` into milliseconds
+ * (a bare number is milliseconds)
+ */
+export function parseDuration(value: string): number {
+  const parsed = /^(\d+)(ms|s|m|h)?$/.exec(value.trim());
+  if (parsed === null) {
+    throw new Error(`Invalid duration "${value}": use milliseconds or a number with ms, s, m or h`);
+  }
+  const [, amount = '', unit = 'ms'] = parsed;
+  return Number.parseInt(amount, 10) * (DURATION_UNITS[unit] ?? 1);
+}
+
+/**
+ * Parse per-size limits such as `XS=5m,L=40m:10m`: the wall-clock limit, optionally
+ * followed by the idle limit
+ */
+export function parseSizeTimeouts(value: string): SizeTimeouts {
+  const timeouts: SizeTimeouts = {};
+  for (const entry of value.split(',')) {
+    const [size = '', limits = ''] = entry.split('=').map((part) => part.trim());
+    const [wallClock = '', idle, ...rest] = limits.split(':').map((part) => part.trim());
+    const complexity = complexitySchema.safeParse(size);
+    if (!complexity.success || wallClock === '' || idle === '' || rest.length > 0) {
+      throw new Error(
+        `Invalid size timeout "${entry}": expected <XS|S|M|L|XL>=<duration>[:<idle duration>]`,
+      );
+    }
+    timeouts[complexity.data] = {
+      wallClock: parseDuration(wallClock),
+      ...(idle !== undefined && { idle: parseDuration(idle) }),
+    };
+  }
+  return timeouts;
+}
+
+/**
+ * The limits that apply to a task of the given size; a limit of 0 disables it
+ */
+export function resolveTaskTimeouts(
+  complexity: Complexity,
+  settings: TaskTimeoutSettings,
+): TaskTimeouts {
+  const sizeTimeouts = settings.sizeTimeouts?.[complexity];
+  const wallClock = sizeTimeouts?.wallClock ?? settings.timeout;
+  const idle = sizeTimeouts?.idle ?? settings.idleTimeout;
+  return {
+    ...(wallClock !== undefined && wallClock > 0 && { wallClock }),
+    ...(idle !== undefined && idle > 0 && { idle }),
+  };
+}
+
+/**
+ * Short human-readable duration, e.g. `500ms`, `45s`, `5m` or `1h 30m`
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${ms}ms`;
+  }
+  const totalSeconds = Math.round(ms / 1000);
+  if (totalSeconds < 60) {
+    return `${totalSeconds}s`;
+  }
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [
+    hours > 0 ? `${hours}h` : '',
+    minutes > 0 ? `${minutes}m` : '',
+    seconds > 0 ? `${seconds}s` : '',
+  ]
+    .filter((part) => part !== '')
+    .join(' ');
+}
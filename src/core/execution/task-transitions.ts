@@ -15,15 +15,21 @@ export class TaskTransitionManager {
   private readonly taskStates: Map<string, TaskState> = new Map();
   private readonly transitions: Map<string, TaskStateTransition[]> = new Map();
   private readonly dependencies: Map<string, Set<string>> = new Map();
+  // Tasks skipped because a dependency failed or was skipped, restorable by a retry
+  private readonly dependencySkipped: Set<string> = new Set();
+  private _schedulingPaused = false;
 
   /**
-   * Initialize the manager with tasks and their dependencies
+   * Initialize the manager with tasks and their dependencies.
+   * Tasks in `completedTaskIds` are restored directly to `completed` (used when resuming a run).
    */
-  initialize(tasks: TaskV2[]): void {
+  initialize(tasks: TaskV2[], completedTaskIds: ReadonlySet<string> = new Set()): void {
     // Reset state
     this.taskStates.clear();
     this.transitions.clear();
     this.dependencies.clear();
+    this.dependencySkipped.clear();
+    this._schedulingPaused = false;
 
     // Initialize all tasks as pending
     for (const task of tasks) {
@@ -32,10 +38,22 @@ export class TaskTransitionManager {
       this.dependencies.set(task.id, new Set(task.dependencies));
     }
 
-    // Check for tasks with no dependencies and mark them as ready
+    // Restore tasks that already completed in a previous run
     for (const task of tasks) {
+      if (completedTaskIds.has(task.id)) {
+        this._performTransition(task.id, 'completed', 'Restored from checkpoint');
+      }
+    }
+
+    // Check for tasks with no outstanding dependencies and mark them as ready
+    for (const task of tasks) {
+      if (completedTaskIds.has(task.id)) {
+        continue;
+      }
       if (task.dependencies.length === 0) {
         this._performTransition(task.id, 'ready', 'No dependencies');
+      } else if (task.dependencies.every((depId) => completedTaskIds.has(depId))) {
+        this._performTransition(task.id, 'ready', 'Dependencies restored from checkpoint');
       }
     }
   }
@@ -136,9 +154,68 @@ export class TaskTransitionManager {
   }
 
   /**
-   * Get tasks that are ready to execute
+   * Skip a task that has not started yet, returning every task skipped as a result
+   * (the task itself and the dependents that can no longer run)
+   */
+  skipTaskWithDependents(taskId: string, reason: string): string[] {
+    const before = new Set(this.getTasksInState('skipped'));
+    if (!this.skipTask(taskId, reason)) {
+      return [];
+    }
+    return this.getTasksInState('skipped').filter((id) => !before.has(id));
+  }
+
+  /**
+   * Make a failed task ready to run again and return its dependents that were skipped
+   * because of it to pending. Returns the affected task IDs, or an empty list when the
+   * task has not failed.
+   */
+  requeueFailedTask(taskId: string, reason = 'Retry requested'): string[] {
+    if (this.taskStates.get(taskId) !== 'failed' || !this.transitionTask(taskId, 'ready', reason)) {
+      return [];
+    }
+
+    const restored: string[] = [];
+    const visit = (id: string): void => {
+      for (const [dependentId, dependencies] of this.dependencies) {
+        if (dependencies.has(id) && this.dependencySkipped.delete(dependentId)) {
+          // Skipped is terminal, so restoring bypasses the transition rules
+          this._performTransition(dependentId, 'pending', `Dependency ${taskId} is being retried`);
+          restored.push(dependentId);
+          visit(dependentId);
+        }
+      }
+    };
+    visit(taskId);
+
+    return [taskId, ...restored];
+  }
+
+  /**
+   * Stop handing out new tasks; tasks already running are unaffected
+   */
+  pauseScheduling(): void {
+    this._schedulingPaused = true;
+  }
+
+  /**
+   * Resume handing out ready tasks
+   */
+  resumeScheduling(): void {
+    this._schedulingPaused = false;
+  }
+
+  isSchedulingPaused(): boolean {
+    return this._schedulingPaused;
+  }
+
+  /**
+   * Get tasks that are ready to execute (none while scheduling is paused)
    */
   getExecutableTasks(): string[] {
+    if (this._schedulingPaused) {
+      return [];
+    }
     return this.getTasksInState('ready');
   }
 
@@ -243,6 +320,12 @@ export class TaskTransitionManager {
       if (nextState !== null) {
         this._performTransition(taskId, nextState, 'Dependency state change');
       }
+
+      // Cascade skips down the dependency chain
+      if (nextState === 'skipped') {
+        this.dependencySkipped.add(taskId);
+        this._updateDependentTasks(taskId);
+      }
     }
   }
 
@@ -0,0 +1,80 @@
+import type { TaskUsage } from '@/core/execution/types';
+
+/**
+ * Limits that stop a run once its agents have used too many tokens or too much money
+ */
+export type RunBudget = {
+  /** Maximum reported cost in USD */
+  maxCost?: number;
+  /** Maximum tokens, counting input, output and cache tokens */
+  maxTokens?: number;
+};
+
+export const EMPTY_USAGE: TaskUsage = {
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheCreationInputTokens: 0,
+  cacheReadInputTokens: 0,
+  costUsd: 0,
+};
+
+/**
+ * Sum usage records field by field
+ */
+export function addUsage(...usages: TaskUsage[]): TaskUsage {
+  return usages.reduce(
+    (total, usage) => ({
+      inputTokens: total.inputTokens + usage.inputTokens,
+      outputTokens: total.outputTokens + usage.outputTokens,
+      cacheCreationInputTokens: total.cacheCreationInputTokens + usage.cacheCreationInputTokens,
+      cacheReadInputTokens: total.cacheReadInputTokens + usage.cacheReadInputTokens,
+      costUsd: total.costUsd + usage.costUsd,
+    }),
+    EMPTY_USAGE,
+  );
+}
+
+/**
+ * Every token the agent processed: input, output and cache writes and reads
+ */
+export function getTotalTokens(usage: TaskUsage): number {
+  return (
+    usage.inputTokens +
+    usage.outputTokens +
+    usage.cacheCreationInputTokens +
+    usage.cacheReadInputTokens
+  );
+}
+
+const formatTokenCount = (tokens: number): string =>
+  tokens >= 1_000_000
+    ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1000
+      ? `${(tokens / 1000).toFixed(1)}k`
+      : String(tokens);
+
+/**
+ * One-line summary, e.g. `48.2k tokens (12.0k in, 3.1k out, 33.1k cache) • $0.42`
+ */
+export function formatUsage(usage: TaskUsage): string {
+  const cacheTokens = usage.cacheCreationInputTokens + usage.cacheReadInputTokens;
+  return (
+    `${formatTokenCount(getTotalTokens(usage))} tokens ` +
+    `(${formatTokenCount(usage.inputTokens)} in, ${formatTokenCount(usage.outputTokens)} out, ` +
+    `${formatTokenCount(cacheTokens)} cache) • $${usage.costUsd.toFixed(2)}`
+  );
+}
+
+/**
+ * Describe the first budget limit the usage exceeds, or undefined while within budget
+ */
+export function getBudgetViolation(usage: TaskUsage, budget: RunBudget): string | undefined {
+  if (budget.maxCost !== undefined && usage.costUsd > budget.maxCost) {
+    return `cost $${usage.costUsd.toFixed(2)} exceeds --max-cost $${budget.maxCost.toFixed(2)}`;
+  }
+  const tokens = getTotalTokens(usage);
+  if (budget.maxTokens !== undefined && tokens > budget.maxTokens) {
+    return `${tokens} tokens exceed --max-tokens ${budget.maxTokens}`;
+  }
+  return undefined;
+}
@@ -1,6 +1,10 @@
+import { isAbsolute } from 'node:path';
+
 import { z } from 'zod';
 
-import { type TaskV2, taskV2Schema } from '@/types/schemas-v2';
+import type { FileViolation } from '@/types/validation';
+
+import { complexitySchema, type TaskV2, taskV2Schema } from '@/types/schemas-v2';
 
 export const ExecutionModeSchema = z.enum(['plan', 'dry-run', 'execute', 'validate']);
 export type ExecutionMode = z.infer<typeof ExecutionModeSchema>;
@@ -21,6 +25,50 @@ export type TaskState = z.infer<typeof TaskStateSchema>;
 export const VcsModeSchema = z.enum(['simple', 'worktree', 'stacked']);
 export type VcsMode = z.infer<typeof VcsModeSchema>;
 
+// Stacking tool used to create and submit branches in stacked mode
+export const VcsBackendTypeSchema = z.enum(['git-spice', 'graphite']);
+export type VcsBackendType = z.infer<typeof VcsBackendTypeSchema>;
+
+// How cherry-pick conflicts are handled while building stacks
+export const ConflictStrategySchema = z.enum(['auto', 'agent', 'manual', 'fail']);
+export type ConflictStrategy = z.infer<typeof ConflictStrategySchema>;
+
+// Branch layout for stacked runs: one linear stack, or branches based on their dependencies
+export const StackShapeSchema = z.enum(['linear', 'tree']);
+export type StackShape = z.infer<typeof StackShapeSchema>;
+
+// How many branches a run produces: one per task, one per plan phase, or one for the whole plan
+export const BranchGranularitySchema = z.enum(['task', 'phase', 'plan']);
+export type BranchGranularity = z.infer<typeof BranchGranularitySchema>;
+
+// Path inside the repository, relative to its root
+const RepositoryPathSchema = z
+  .string()
+  .min(1)
+  .refine((value) => !isAbsolute(value) && !value.split(/[/\\]/).includes('..'), {
+    message: 'Must be a relative path inside the repository',
+  });
+
+// How `link` entries are shared with worktrees
+export const WorktreeLinkModeSchema = z.enum(['symlink', 'hardlink']);
+export type WorktreeLinkMode = z.infer<typeof WorktreeLinkModeSchema>;
+
+/**
+ * Preparation applied to each task worktree before its agent starts
+ */
+export const WorktreeSetupSchema = z.strictObject({
+  /** Paths the setup command produces, reused by worktrees with the same lockfiles */
+  cache: z.array(RepositoryPathSchema).optional(),
+  /** Shell command run once per worktree, e.g. `pnpm install --offline` */
+  command: z.string().trim().min(1).optional(),
+  /** Files or directories copied from the main checkout, e.g. `.env.local` */
+  copy: z.array(RepositoryPathSchema).optional(),
+  /** Files or directories shared from the main checkout, e.g. `node_modules` */
+  link: z.array(RepositoryPathSchema).optional(),
+  linkMode: WorktreeLinkModeSchema.optional(),
+});
+export type WorktreeSetup = z.infer<typeof WorktreeSetupSchema>;
+
 export const ExecutionPlanStatusSchema = z.enum([
   'pending',
   'running',
@@ -33,40 +81,95 @@ export type ExecutionPlanStatus = z.infer<typeof ExecutionPlanStatusSchema>;
 export const TaskStateTransitionSchema = z.object({
   from: TaskStateSchema,
   reason: z.string().optional(),
-  timestamp: z.date(),
+  // Coerced so transitions survive a JSON round-trip through execution checkpoints
+  timestamp: z.coerce.date(),
   to: TaskStateSchema,
 });
 export type TaskStateTransition = z.infer<typeof TaskStateTransitionSchema>;
 
+/**
+ * Outcome of one verification command run after a task attempt
+ */
+export const VerificationResultSchema = z.object({
+  attempt: z.number().int().min(1),
+  command: z.string(),
+  duration: z.number().min(0),
+  exitCode: z.number().int().optional(),
+  output: z.string(),
+  passed: z.boolean(),
+});
+export type VerificationResult = z.infer<typeof VerificationResultSchema>;
+
+/**
+ * Tokens and cost reported by the agent for a task, summed over its attempts
+ */
+export const TaskUsageSchema = z.object({
+  cacheCreationInputTokens: z.number().int().min(0),
+  cacheReadInputTokens: z.number().int().min(0),
+  costUsd: z.number().min(0),
+  inputTokens: z.number().int().min(0),
+  outputTokens: z.number().int().min(0),
+});
+export type TaskUsage = z.infer<typeof TaskUsageSchema>;
+
+/**
+ * Time limits for one task attempt in milliseconds: total run time, and time
+ * without any output from the agent
+ */
+export const TaskTimeoutsSchema = z.object({
+  idle: z.number().int().positive().optional(),
+  wallClock: z.number().int().positive().optional(),
+});
+export type TaskTimeouts = z.infer<typeof TaskTimeoutsSchema>;
+
+// Task time limits per complexity size, overriding --timeout/--idle-timeout
+export const SizeTimeoutsSchema = z.partialRecord(complexitySchema, TaskTimeoutsSchema);
+export type SizeTimeouts = z.infer<typeof SizeTimeoutsSchema>;
+
 export const ExecutionTaskSchema = taskV2Schema.extend({
   branchName: z.string().optional(),
   commitHash: z.string().optional(),
   duration: z.number().min(0).optional(),
-  endTime: z.date().optional(),
+  endTime: z.coerce.date().optional(),
   error: z.string().optional(),
   exitCode: z.number().int().optional(),
   forbiddenFiles: z.array(z.string()).optional(),
   maxRetries: z.number().int().min(0),
   output: z.string().optional(),
   retryCount: z.number().int().min(0),
-  startTime: z.date().optional(),
+  startTime: z.coerce.date().optional(),
   state: TaskStateSchema,
   stateHistory: z.array(TaskStateTransitionSchema),
+  verification: z.array(VerificationResultSchema).optional(),
   worktreeDir: z.string().optional(),
 });
 export type ExecutionTask = z.infer<typeof ExecutionTaskSchema>;
 
 export const ExecutionOptionsSchema = z.object({
   agent: z.string().optional(),
+  branchGranularity: BranchGranularitySchema.optional(),
+  conflictStrategy: ConflictStrategySchema.optional(),
   continueOnError: z.boolean().optional(),
   dryRun: z.boolean().optional(),
+  idleTimeout: z.number().int().min(0).optional(),
+  keepWorktrees: z.boolean().optional(),
+  maxCost: z.number().positive().optional(),
+  maxParallel: z.number().int().positive().optional(),
+  maxTokens: z.number().int().positive().optional(),
   mode: ExecutionModeSchema,
   permissiveValidation: z.boolean().optional(),
+  resume: z.boolean().optional(),
+  resumeFrom: z.string().optional(),
   retryAttempts: z.number().int().min(0).optional(),
   retryDelay: z.number().int().min(0).optional(),
   silent: z.boolean().optional(),
+  sizeTimeouts: SizeTimeoutsSchema.optional(),
+  specContent: z.string().optional(),
+  specTokenBudget: z.number().int().positive().optional(),
+  stackShape: StackShapeSchema.optional(),
   timeout: z.number().int().min(0).optional(),
   verbose: z.boolean().optional(),
+  vcsBackend: VcsBackendTypeSchema.optional(),
   vcsMode: VcsModeSchema.optional().default('simple'),
   workdir: z.string().optional(),
 });
@@ -74,6 +177,24 @@ export type ExecutionOptions = z.infer<typeof ExecutionOptionsSchema>;
 
 // ExecutionResult is defined in interfaces.ts
 
+/**
+ * Persisted snapshot of an execute-mode run, used to resume interrupted executions
+ */
+export const ExecutionCheckpointSchema = z.object({
+  baseRef: z.string().optional(),
+  createdAt: z.coerce.date(),
+  status: ExecutionPlanStatusSchema,
+  tasks: z.array(ExecutionTaskSchema),
+  updatedAt: z.coerce.date(),
+  vcsMode: VcsModeSchema,
+  version: z.literal(1),
+});
+export type ExecutionCheckpoint = z.infer<typeof ExecutionCheckpointSchema>;
+
+// Output formats for run reports written with `run --report`
+export const RunReportFormatSchema = z.enum(['json', 'junit']);
+export type RunReportFormat = z.infer<typeof RunReportFormatSchema>;
+
 export type ExecutionPlan = {
   createdAt: Date;
   executionLayers: ExecutionTask[][];
@@ -116,6 +237,8 @@ export type ExecutionMetrics = {
   skippedCount: number;
   taskCount: number;
   totalDuration: number;
+  /** Tokens and cost summed over every task that reported usage */
+  usage?: TaskUsage;
 };
 
 export type ExecutionContext = {
@@ -146,3 +269,39 @@ export type GitSpiceStackInfo = {
   prUrls: string[];
   stackRoot: string;
 };
+
+/**
+ * Outcome of a single task as recorded in a run report
+ */
+export type RunReportTask = {
+  branchName?: string;
+  commitHash?: string;
+  duration: number;
+  error?: string;
+  exitCode?: number;
+  filesChanged: string[];
+  name: string;
+  retries: number;
+  state: 'success' | 'failure' | 'skipped';
+  taskId: string;
+  usage?: TaskUsage;
+  violations: FileViolation[];
+};
+
+/**
+ * Machine-readable summary of a run, written to `.chopstack/runs/<jobId>/report.json`
+ */
+export type RunReport = {
+  branches: string[];
+  commits: string[];
+  finishedAt: string;
+  jobId: string;
+  metrics: ExecutionMetrics;
+  mode: ExecutionMode;
+  planName: string;
+  startedAt: string;
+  status: 'success' | 'failure';
+  tasks: RunReportTask[];
+  vcsMode: VcsMode;
+  version: 1;
+};
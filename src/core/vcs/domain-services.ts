@@ -1,4 +1,4 @@
-import type { ExecutionTask } from '@/core/execution/types';
+import type { ConflictStrategy, ExecutionTask } from '@/core/execution/types';
 
 /**
  * Core domain types for VCS operations
@@ -11,11 +11,23 @@ export type WorktreeCreateOptions = {
   worktreePath: string;
 };
 
+/**
+ * A worktree setup step (copy, link or setup command) and how long it took
+ */
+export type WorktreeSetupStep = {
+  /** The step reused cached output instead of running */
+  cached?: boolean;
+  durationMs: number;
+  name: string;
+};
+
 export type WorktreeContext = {
   absolutePath: string;
   baseRef: string;
   branchName: string;
   created: Date;
+  /** Setup steps run before the worktree was handed to its agent */
+  setupSteps?: WorktreeSetupStep[];
   taskId: string;
   worktreePath: string;
 };
@@ -27,13 +39,38 @@ export type CommitOptions = {
   message?: string;
 };
 
-export type ConflictResolutionStrategy = 'auto' | 'manual' | 'fail';
+export type ConflictResolutionStrategy = ConflictStrategy;
+
+/**
+ * A task on one side of a conflict, described for agent resolution
+ */
+export type ConflictTask = {
+  description: string;
+  id: string;
+  name: string;
+};
 
 export type ConflictInfo = {
   conflictedFiles: string[];
+  /** Task already on the target branch, when known */
+  currentTask?: ConflictTask;
+  /** Task whose commit is being applied */
+  incomingTask?: ConflictTask;
   resolution: ConflictResolutionStrategy;
   taskId: string;
   timestamp: Date;
+  /** Commands that must pass before the resolution is accepted */
+  verify?: string[];
+};
+
+/**
+ * Task details handed to conflict resolvers while stacking commits
+ */
+export type StackConflictContext = {
+  /** Tasks whose commits are stacked, with the verify commands a resolution must pass */
+  tasks?: Array<ConflictTask & { verify?: string[] | undefined }>;
+  /** Plan-level verify commands, run before each task's own */
+  verify?: string[];
 };
 
 export type StackBuildStrategy = 'dependency-order' | 'complexity-first' | 'file-impact';
@@ -41,7 +78,22 @@ export type StackBuildStrategy = 'dependency-order' | 'complexity-first' | 'file
 export type StackBranch = {
   branchName: string;
   commitHash: string;
+  /** Branch this one is stacked on, when known */
+  parent?: string;
   taskId: string;
+  /** Pull request title, for branches that fold several tasks */
+  title?: string;
+};
+
+/**
+ * Task commits to fold into a single branch, one commit per task
+ */
+export type BranchGroup = {
+  branchName: string;
+  commits: Array<{ commitHash: string; taskId: string }>;
+  /** Phase ID, or the plan's slug for a single plan-wide branch */
+  id: string;
+  title: string;
 };
 
 export type StackInfo = {
@@ -53,6 +105,14 @@ export type StackInfo = {
   totalTasks: number;
 };
 
+/**
+ * Options for removing worktrees
+ */
+export type WorktreeCleanupOptions = {
+  /** Also delete the worktrees' branches, e.g. for tasks interrupted before they committed */
+  deleteBranches?: boolean;
+};
+
 /**
  * Worktree management domain service interface
  */
@@ -60,7 +120,7 @@ export type WorktreeService = {
   /**
    * Clean up multiple worktrees
    */
-  cleanupWorktrees(taskIds: string[]): Promise<void>;
+  cleanupWorktrees(taskIds: string[], options?: WorktreeCleanupOptions): Promise<void>;
 
   /**
    * Create a worktree for task isolation
@@ -80,7 +140,7 @@ export type WorktreeService = {
   /**
    * Remove a specific worktree
    */
-  removeWorktree(taskId: string): Promise<void>;
+  removeWorktree(taskId: string, options?: WorktreeCleanupOptions): Promise<void>;
 };
 
 /**
@@ -154,6 +214,20 @@ export type StackBuildService = {
     worktreeContext?: WorktreeContext,
   ): Promise<string | null>;
 
+  /**
+   * Fold grouped task commits into one branch per group, cherry-picking each task's
+   * commit so every task keeps its own commit. Groups are stacked in order.
+   */
+  buildGroupedStack(
+    groups: BranchGroup[],
+    workdir: string,
+    options: StackConflictContext & {
+      parentRef: string;
+      /** Track the branches with the stacking backend */
+      track: boolean;
+    },
+  ): Promise<StackInfo>;
+
   /**
    * Build a git-spice stack from completed tasks
    */
@@ -163,6 +237,8 @@ export type StackBuildService = {
     options: {
       parentRef: string;
       strategy: StackBuildStrategy;
+      /** Plan-level verify commands, run before each task's own when resolving conflicts */
+      verify?: string[];
     },
   ): Promise<StackInfo>;
 
@@ -1,8 +1,14 @@
 import type { ExecutionTask, GitSpiceStackInfo } from '@/core/execution/types';
-import type { CommitOptions, WorktreeContext } from '@/core/vcs/domain-services';
+import type {
+  BranchGroup,
+  CommitOptions,
+  StackConflictContext,
+  WorktreeCleanupOptions,
+  WorktreeContext,
+} from '@/core/vcs/domain-services';
 
 /**
- * VCS Backend interface for specific VCS implementations (e.g., git-spice)
+ * VCS Backend interface for specific VCS implementations (e.g., git-spice, Graphite)
  */
 export type VcsBackend = {
   /**
@@ -18,6 +24,27 @@ export type VcsBackend = {
     },
   ): Promise<string>;
 
+  /**
+   * Create a branch on top of a parent branch containing an existing commit
+   * Returns the branch name actually created (may be suffixed on collision)
+   */
+  createBranchFromCommit(
+    branchName: string,
+    commitHash: string,
+    parentBranch: string,
+    workdir: string,
+  ): Promise<string>;
+
+  /**
+   * Create a branch from the current branch and commit the staged changes on it
+   * Generates a branch name from the commit message when branchName is empty
+   */
+  createBranchWithCommit(
+    workdir: string,
+    branchName: string,
+    commitMessage: string,
+  ): Promise<string>;
+
   /**
    * Create a branch in the stack with proper parent tracking
    * This should use native VCS backend commands (e.g., gs branch create)
@@ -219,6 +246,18 @@ export type VcsEngineService = {
     requiresWorktrees: boolean;
   }>;
 
+  /**
+   * Fold grouped task commits into one branch per group (one commit per task)
+   */
+  buildGroupedStack(
+    groups: BranchGroup[],
+    workdir: string,
+    options: StackConflictContext & { parentRef: string; track: boolean },
+  ): Promise<{
+    branches: Array<{ branchName: string; commitHash: string; taskId: string; title?: string }>;
+    parentRef: string;
+  }>;
+
   /**
    * Build a git-spice stack from completed tasks
    */
@@ -239,7 +278,7 @@ export type VcsEngineService = {
   /**
    * Clean up worktrees after execution
    */
-  cleanupWorktrees(contexts: WorktreeContext[]): Promise<void>;
+  cleanupWorktrees(contexts: WorktreeContext[], options?: WorktreeCleanupOptions): Promise<void>;
 
   /**
    * Commit changes in a stack-aware way using native VCS backend
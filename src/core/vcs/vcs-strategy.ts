@@ -6,9 +6,9 @@
  * from WHERE/HOW commits and branches are organized.
  */
 
-import type { ExecutionTask } from '@/core/execution/types';
-import type { TaskV2 } from '@/types/schemas-v2';
-import type { ValidationConfig } from '@/types/validation';
+import type { BranchGranularity, ExecutionTask, StackShape } from '@/core/execution/types';
+import type { Phase, TaskV2 } from '@/types/schemas-v2';
+import type { FileViolation, ValidationConfig } from '@/types/validation';
 
 import type { WorktreeContext } from './domain-services';
 
@@ -17,15 +17,40 @@ export type VcsMode = 'simple' | 'worktree' | 'stacked';
 
 export type VcsStrategyContext = {
   baseRef?: string;
+  /** Fold task commits into one branch per phase or per plan (defaults to one branch per task) */
+  branchGranularity?: BranchGranularity;
   cwd: string;
+  /** Plan phases, used to name phase branches */
+  phases?: Phase[];
+  /** Plan name, used to name the branch when the whole plan is one branch */
+  planName?: string;
+  /** Branch layout for stacked mode (defaults to linear) */
+  stackShape?: StackShape;
   validation?: ValidationConfig;
+  /** Plan-level verify commands, also checked when resolving stacking conflicts */
+  verify?: string[];
 };
 
 export type TaskCommitResult = {
   branchName?: string;
   commitHash?: string;
   error?: string;
+  /** Files the task modified, when the strategy inspected the working tree */
+  filesChanged?: string[];
   taskId: string;
+  /** File modification violations found by pre-commit validation */
+  violations?: FileViolation[];
+};
+
+/**
+ * Options for cleaning up after a run
+ */
+export type VcsCleanupOptions = {
+  /**
+   * Tasks interrupted before they committed; their branches are deleted along with their
+   * worktrees. Branches of committed tasks are kept, so the run can be resumed.
+   */
+  discardedTaskIds?: string[];
 };
 
 /**
@@ -35,7 +60,7 @@ export type VcsStrategy = {
   /**
    * Cleanup any resources (e.g., remove worktrees)
    */
-  cleanup(): Promise<void>;
+  cleanup(options?: VcsCleanupOptions): Promise<void>;
 
   /**
    * Finalize after all tasks complete (e.g., create stack, cleanup)
@@ -81,4 +106,10 @@ export type VcsStrategy = {
     tasks: ExecutionTask[],
     context: VcsStrategyContext,
   ): Promise<Map<string, WorktreeContext>>;
+
+  /**
+   * Register tasks completed by a previous run (e.g., when resuming from a checkpoint)
+   * so dependent tasks build on their existing branches and commits
+   */
+  restoreCompletedTasks?(results: TaskCommitResult[]): void;
 };
@@ -1,22 +1,41 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
+import { resolve } from 'node:path';
+
+import { Command, InvalidArgumentError } from 'commander';
 import { ZodError } from 'zod';
 
+import type { ResolvedAppConfig } from '@/core/config/interfaces';
+
 import {
   AnalyzeCommand,
+  ConfigCommand,
   createDefaultDependencies,
   DecomposeCommand,
+  PlanDiffCommand,
+  PlanEditCommand,
+  PlanGraphCommand,
+  PlanRepairCommand,
   RunCommand,
   SpecifyCommand,
   StackCommand,
+  ValidateCommand,
 } from '@/commands';
+import { parseDuration, parseSizeTimeouts } from '@/core/execution/task-timeouts';
+import { registerCommandAgents } from '@/services/agents';
+import { loadConfig, toCommandOptions } from '@/services/config';
 import { initializeEventConsumer } from '@/services/orchestration/adapters/task-execution-adapter-factory';
 import {
   validateAnalyzeArgs,
+  validateConfigArgs,
   validateDecomposeArgs,
+  validatePlanDiffArgs,
+  validatePlanEditArgs,
+  validatePlanGraphArgs,
+  validatePlanRepairArgs,
   validateRunArgs,
   validateSpecifyArgs,
   validateStackArgs,
+  validateValidateArgs,
 } from '@/types/cli';
 import { logger } from '@/utils/global-logger';
 
@@ -34,6 +53,41 @@ function addCommonOptions(command: Command): Command {
     .option('--silent, -s', 'Silent mode - suppress all output', false);
 }
 
+/**
+ * Wrap an option value parser so commander reports its errors as invalid arguments
+ */
+function optionParser<T>(parse: (value: string) => T): (value: string) => T {
+  return (value) => {
+    try {
+      return parse(value);
+    } catch (error) {
+      throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+    }
+  };
+}
+
+/**
+ * Resolve the project configuration (defaults, config file, `CHOPSTACK_*` env and the
+ * flags actually passed) and apply it to the command's options. Commander defaults do
+ * not count as CLI values, so they never override the config file or environment.
+ * Command agents from the config are registered so `--agent <name>` can select them.
+ */
+async function resolveCommandConfig(
+  options: Record<string, unknown>,
+  cliCommand: Command,
+): Promise<{ config: ResolvedAppConfig; options: Record<string, unknown> }> {
+  const cliOptions = Object.fromEntries(
+    Object.entries(options).filter(([name]) => cliCommand.getOptionValueSource(name) === 'cli'),
+  );
+  const directory = [options.cwd, options.targetDir].find(
+    (value): value is string => typeof value === 'string' && value.length > 0,
+  );
+  const config = await loadConfig({ cwd: resolve(directory ?? '.'), cliOptions });
+  registerCommandAgents(config.config.agents);
+
+  return { config, options: { ...options, ...toCommandOptions(config.config) } };
+}
+
 const program = new Command();
 
 program
@@ -49,16 +103,17 @@ addCommonOptions(
     .option('--prompt <text>', 'Brief feature description prompt')
     .option('--input <file>', 'Read prompt from file instead of --prompt')
     .option('--cwd <dir>', 'Working directory to analyze (default: current directory)'),
-).action(async (options: unknown) => {
+).action(async (options: Record<string, unknown>, cliCommand: Command) => {
   try {
-    const validatedOptions = validateSpecifyArgs(options);
+    const { config, options: configuredOptions } = await resolveCommandConfig(options, cliCommand);
+    const validatedOptions = validateSpecifyArgs(configuredOptions);
     const cliOptions = options as { silent?: boolean };
     logger.configure({
       verbose: Boolean(validatedOptions.verbose),
       silent: cliOptions.silent ?? false,
     });
     initializeEventConsumer({ verbose: Boolean(validatedOptions.verbose) });
-    const deps = createDefaultDependencies({ logger });
+    const deps = createDefaultDependencies({ logger, config });
     const command = new SpecifyCommand(deps);
     const exitCode = await command.execute(validatedOptions);
     if (exitCode !== 0) {
@@ -83,16 +138,17 @@ addCommonOptions(
     .requiredOption('--spec <file>', 'Path to specification file')
     .option('--output <file>', 'Output file for JSON report (optional)')
     .option('--agent <type>', 'Agent to use for LLM-powered gap analysis: claude|mock', 'claude'),
-).action(async (options: unknown) => {
+).action(async (options: Record<string, unknown>, cliCommand: Command) => {
   try {
-    const validatedOptions = validateAnalyzeArgs(options);
+    const { config, options: configuredOptions } = await resolveCommandConfig(options, cliCommand);
+    const validatedOptions = validateAnalyzeArgs(configuredOptions);
     const cliOptions = options as { silent?: boolean };
     logger.configure({
       verbose: Boolean(validatedOptions.verbose),
       silent: cliOptions.silent ?? false,
     });
     initializeEventConsumer({ verbose: Boolean(validatedOptions.verbose) });
-    const deps = createDefaultDependencies({ logger });
+    const deps = createDefaultDependencies({ logger, config });
     const command = new AnalyzeCommand(deps);
     const exitCode = await command.execute(validatedOptions);
     if (exitCode !== 0) {
@@ -115,12 +171,22 @@ addCommonOptions(
     .command('decompose')
     .description('Decompose a spec into parallelizable tasks')
     .requiredOption('--spec <file>', 'Path to specification file')
-    .option('--agent <type>', 'Agent to use: claude|aider|mock', 'claude')
+    .option(
+      '--agent <type>',
+      'Agent to use: claude|codex|mock or a configured command agent',
+      'claude',
+    )
     .option('--output <file>', 'Output file for plan (optional, defaults to stdout)')
-    .option('--skip-gates', 'Skip quality gate checks (pre and post generation)', false),
-).action(async (options: unknown) => {
+    .option('--skip-gates', 'Skip quality gate checks (pre and post generation)', false)
+    .option(
+      '--auto-repair',
+      'Fix file conflicts, cycles, dangling dependencies and missing phases locally instead of regenerating the plan',
+      false,
+    ),
+).action(async (options: Record<string, unknown>, cliCommand: Command) => {
   try {
-    const validatedOptions = validateDecomposeArgs(options);
+    const { config, options: configuredOptions } = await resolveCommandConfig(options, cliCommand);
+    const validatedOptions = validateDecomposeArgs(configuredOptions);
     // Configure logger based on CLI options
     const cliOptions = options as { silent?: boolean };
     logger.configure({
@@ -129,7 +195,7 @@ addCommonOptions(
     });
     // Initialize event consumer
     initializeEventConsumer({ verbose: Boolean(validatedOptions.verbose) });
-    const deps = createDefaultDependencies({ logger });
+    const deps = createDefaultDependencies({ logger, config });
     const command = new DecomposeCommand(deps);
     const exitCode = await command.execute(validatedOptions);
     if (exitCode !== 0) {
@@ -152,18 +218,58 @@ addCommonOptions(
     .command('run')
     .description('Execute a task plan from spec or plan file')
     .option('--spec <file>', 'Path to specification file (.md)')
-    .option('--plan <file>', 'Path to plan file (JSON/YAML) - if not provided, will decompose spec')
+    .option(
+      '--plan <file>',
+      'Path to plan file (JSON/YAML) - if not provided, will decompose spec. With --spec, the spec is injected into task prompts',
+    )
     .option('--mode <mode>', 'Execution mode: plan|dry-run|execute|validate', 'dry-run')
     .option('--workdir <path>', '[DEPRECATED] Use --target-dir instead')
     .option('--vcs-mode <mode>', 'VCS mode: simple|worktree|stacked', 'simple')
-    .option('--agent <type>', 'Agent for decomposition: claude|aider|mock', 'claude')
+    .option(
+      '--vcs-backend <backend>',
+      'Stacking tool for --vcs-mode stacked: git-spice|graphite (default: git-spice)',
+    )
+    .option(
+      '--stack-shape <shape>',
+      'Branch layout for --vcs-mode stacked: linear|tree (tree bases each branch on its dependencies)',
+      'linear',
+    )
+    .option(
+      '--branch-granularity <granularity>',
+      'Branches to create for --vcs-mode stacked|worktree: task|phase|plan (one commit per task)',
+      'task',
+    )
+    .option(
+      '--conflict-strategy <strategy>',
+      'How to resolve cherry-pick conflicts while stacking: auto|agent|manual|fail',
+      'auto',
+    )
+    .option(
+      '--agent <type>',
+      'Agent to use: claude|codex|mock or a configured command agent',
+      'claude',
+    )
     .option(
       '--permissive-validation',
       'Warn on file violations instead of failing (default: strict)',
       false,
     )
     .option('--continue-on-error', 'Continue execution even if tasks fail', false)
-    .option('--timeout <ms>', 'Task timeout in milliseconds', (value) => Number.parseInt(value, 10))
+    .option(
+      '--timeout <duration>',
+      'Wall-clock limit per task attempt, e.g. 600000, 90s, 40m (the task fails and is retried)',
+      optionParser(parseDuration),
+    )
+    .option(
+      '--idle-timeout <duration>',
+      'Fail a task attempt after this long without agent output, e.g. 5m',
+      optionParser(parseDuration),
+    )
+    .option(
+      '--size-timeouts <limits>',
+      'Limits per task size overriding --timeout and --idle-timeout, e.g. XS=5m,L=40m:10m (wall-clock[:idle])',
+      optionParser(parseSizeTimeouts),
+    )
     .option(
       '--retry-attempts <count>',
       'Number of retry attempts for failed tasks',
@@ -176,20 +282,66 @@ addCommonOptions(
       (value) => Number.parseInt(value, 10),
       5000,
     )
+    .option(
+      '--max-parallel <count>',
+      'Maximum number of tasks executing at once (default: unbounded)',
+      (value) => Number.parseInt(value, 10),
+    )
+    .option(
+      '--max-cost <usd>',
+      'Stop scheduling and stop running tasks once agents report more than this cost in USD',
+      (value) => Number.parseFloat(value),
+    )
+    .option(
+      '--max-tokens <count>',
+      'Stop scheduling and stop running tasks once agents use more than this many tokens',
+      (value) => Number.parseInt(value, 10),
+    )
+    .option(
+      '--spec-token-budget <tokens>',
+      'Maximum tokens of specification injected into each task prompt (default: 8000)',
+      (value) => Number.parseInt(value, 10),
+    )
+    .option('--resume', 'Resume the last interrupted execution from its checkpoint', false)
+    .option(
+      '--resume-from <taskId>',
+      'Resume from checkpoint, re-running this task and everything that depends on it',
+    )
+    .option(
+      '--keep-worktrees',
+      'Keep task worktrees after the run (including interrupted runs) for inspection',
+      false,
+    )
     .option('--no-tui', 'Disable the interactive TUI (use plain output)', true)
-    .option('--write-log', 'Write execution logs to files in .chopstack/logs/', false),
-).action(async (options: unknown) => {
+    .option(
+      '--validate',
+      'After a successful execute, validate acceptance criteria and success metrics',
+      false,
+    )
+    .option('--write-log', 'Write execution logs to files in .chopstack/logs/', false)
+    .option('--report <path>', 'Also write the run report to this path')
+    .option('--report-format <format>', 'Format for --report: json|junit', 'json')
+    .option(
+      '--format <format>',
+      'Plan diagnostics format for --mode validate: text|json|sarif (json and sarif need --plan)',
+      'text',
+    ),
+).action(async (options: Record<string, unknown>, cliCommand: Command) => {
   try {
-    const validatedOptions = validateRunArgs(options);
+    const { config, options: configuredOptions } = await resolveCommandConfig(options, cliCommand);
+    const validatedOptions = validateRunArgs(configuredOptions);
     // Configure logger based on CLI options
     const cliOptions = options as { silent?: boolean };
     logger.configure({
       verbose: Boolean(validatedOptions.verbose),
       silent: cliOptions.silent ?? false,
+      // Keep stdout for JSON/SARIF diagnostics; warnings and errors go to stderr
+      ...(validatedOptions.format !== undefined &&
+        validatedOptions.format !== 'text' && { level: 'warn' as const }),
     });
     // Initialize event consumer
     initializeEventConsumer({ verbose: Boolean(validatedOptions.verbose) });
-    const deps = createDefaultDependencies({ logger });
+    const deps = createDefaultDependencies({ logger, config });
     const command = new RunCommand(deps);
     const exitCode = await command.execute(validatedOptions);
     if (exitCode !== 0) {
@@ -214,10 +366,12 @@ addCommonOptions(
     .option('--no-auto-add', 'Do not automatically add all changes to staging', true)
     .option('--no-create-stack', 'Do not create git-spice stack, just commit', true)
     .option('--message <msg>', 'Custom commit message (optional)')
+    .option('--vcs-backend <backend>', 'Stacking tool: git-spice|graphite', 'git-spice')
     .option('--no-tui', 'Disable the interactive TUI (use plain output)', true),
-).action(async (options: unknown) => {
+).action(async (options: Record<string, unknown>, cliCommand: Command) => {
   try {
-    const validatedOptions = validateStackArgs(options);
+    const { config, options: configuredOptions } = await resolveCommandConfig(options, cliCommand);
+    const validatedOptions = validateStackArgs(configuredOptions);
     // Configure logger based on CLI options
     const cliOptions = options as { silent?: boolean };
     logger.configure({
@@ -226,7 +380,7 @@ addCommonOptions(
     });
     // Initialize event consumer
     initializeEventConsumer({ verbose: validatedOptions.verbose });
-    const deps = createDefaultDependencies({ logger });
+    const deps = createDefaultDependencies({ logger, config });
     const command = new StackCommand(deps);
     const exitCode = await command.execute(validatedOptions);
     if (exitCode !== 0) {
@@ -243,6 +397,291 @@ addCommonOptions(
   }
 });
 
+// Validate command
+addCommonOptions(
+  program
+    .command('validate')
+    .description('Validate the working tree against plan acceptance criteria and success metrics')
+    .requiredOption('--plan <file>', 'Path to plan file (JSON/YAML)')
+    .option('--spec <file>', 'Path to specification file for additional context')
+    .option('--format <format>', 'Report format: text|json', 'text')
+    .option('--output <file>', 'Output file for JSON report (optional)')
+    .option(
+      '--agent <type>',
+      'Agent to judge the criteria: claude|codex|mock or a configured command agent',
+      'claude',
+    ),
+).action(async (options: Record<string, unknown>, cliCommand: Command) => {
+  try {
+    const { config, options: configuredOptions } = await resolveCommandConfig(options, cliCommand);
+    const validatedOptions = validateValidateArgs(configuredOptions);
+    const cliOptions = options as { silent?: boolean };
+    logger.configure({
+      verbose: Boolean(validatedOptions.verbose),
+      silent: cliOptions.silent ?? false,
+      // Keep stdout for the JSON report; warnings and errors go to stderr
+      ...(validatedOptions.format === 'json' && { level: 'warn' as const }),
+    });
+    initializeEventConsumer({ verbose: Boolean(validatedOptions.verbose) });
+    const deps = createDefaultDependencies({ logger, config });
+    const command = new ValidateCommand(deps);
+    const exitCode = await command.execute(validatedOptions);
+    if (exitCode !== 0) {
+      throw new Error(`Validate command failed with exit code ${exitCode}`);
+    }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new TypeError(`Invalid validate options: ${error.message}`);
+    }
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('Unknown validation error');
+  }
+});
+
+// Config command
+addCommonOptions(
+  program
+    .command('config')
+    .description('Inspect chopstack configuration')
+    .command('show')
+    .description('Print the resolved configuration and the source of each value')
+    .option('--format <format>', 'Output format: text|json', 'text'),
+).action(async (options: Record<string, unknown>, cliCommand: Command) => {
+  try {
+    const { config, options: configuredOptions } = await resolveCommandConfig(options, cliCommand);
+    const validatedOptions = validateConfigArgs(configuredOptions);
+    const cliOptions = options as { silent?: boolean };
+    logger.configure({
+      verbose: validatedOptions.verbose,
+      silent: cliOptions.silent ?? false,
+    });
+    const deps = createDefaultDependencies({ logger, config });
+    const command = new ConfigCommand(deps);
+    const exitCode = await command.execute(validatedOptions);
+    if (exitCode !== 0) {
+      throw new Error(`Config command failed with exit code ${exitCode}`);
+    }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new TypeError(`Invalid config options: ${error.message}`);
+    }
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('Unknown validation error');
+  }
+});
+
+// Plan commands
+const planCommand = program
+  .command('plan')
+  .description('Inspect, edit, compare and repair plan files');
+
+addCommonOptions(
+  planCommand
+    .command('graph')
+    .description("Render the plan's task graph as Mermaid, Graphviz DOT or standalone HTML")
+    .requiredOption('--plan <file>', 'Path to plan file (JSON/YAML)')
+    .option('--format <format>', 'Graph format: mermaid|dot|html', 'mermaid')
+    .option('--output <file>', 'Write the graph to a file instead of stdout'),
+).action(async (options: Record<string, unknown>, cliCommand: Command) => {
+  try {
+    const { config, options: configuredOptions } = await resolveCommandConfig(options, cliCommand);
+    const validatedOptions = validatePlanGraphArgs(configuredOptions);
+    const cliOptions = options as { silent?: boolean };
+    logger.configure({
+      verbose: validatedOptions.verbose,
+      silent: cliOptions.silent ?? false,
+    });
+    const deps = createDefaultDependencies({ logger, config });
+    const command = new PlanGraphCommand(deps);
+    const exitCode = await command.execute(validatedOptions);
+    if (exitCode !== 0) {
+      throw new Error(`Plan graph command failed with exit code ${exitCode}`);
+    }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new TypeError(`Invalid plan graph options: ${error.message}`);
+    }
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('Unknown validation error');
+  }
+});
+
+addCommonOptions(
+  planCommand
+    .command('repair')
+    .description(
+      'Fix file conflicts, cycles, dangling dependencies and missing phases without the agent',
+    )
+    .requiredOption('--plan <file>', 'Path to plan file (JSON/YAML)')
+    .option('--output <file>', 'Write the repaired plan here instead of over the plan file')
+    .option('--dry-run', 'Print the changelog without writing the plan', false),
+).action(async (options: Record<string, unknown>, cliCommand: Command) => {
+  try {
+    const { config, options: configuredOptions } = await resolveCommandConfig(options, cliCommand);
+    const validatedOptions = validatePlanRepairArgs(configuredOptions);
+    const cliOptions = options as { silent?: boolean };
+    logger.configure({
+      verbose: validatedOptions.verbose,
+      silent: cliOptions.silent ?? false,
+    });
+    const deps = createDefaultDependencies({ logger, config });
+    const command = new PlanRepairCommand(deps);
+    const exitCode = await command.execute(validatedOptions);
+    if (exitCode !== 0) {
+      throw new Error(`Plan repair command failed with exit code ${exitCode}`);
+    }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new TypeError(`Invalid plan repair options: ${error.message}`);
+    }
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('Unknown validation error');
+  }
+});
+
+addCommonOptions(
+  planCommand
+    .command('diff <old> <new>')
+    .description('Compare two versions of a plan task by task')
+    .option('--format <format>', 'Output format: text|json', 'text'),
+).action(
+  async (before: string, after: string, options: Record<string, unknown>, cliCommand: Command) => {
+    try {
+      const { config, options: configuredOptions } = await resolveCommandConfig(
+        options,
+        cliCommand,
+      );
+      const validatedOptions = validatePlanDiffArgs({ ...configuredOptions, before, after });
+      const cliOptions = options as { silent?: boolean };
+      logger.configure({
+        verbose: validatedOptions.verbose,
+        silent: cliOptions.silent ?? false,
+      });
+      const deps = createDefaultDependencies({ logger, config });
+      const command = new PlanDiffCommand(deps);
+      const exitCode = await command.execute(validatedOptions);
+      if (exitCode !== 0) {
+        throw new Error(`Plan diff command failed with exit code ${exitCode}`);
+      }
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new TypeError(`Invalid plan diff options: ${error.message}`);
+      }
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('Unknown validation error');
+    }
+  },
+);
+
+/**
+ * Add a `plan` edit subcommand. `toEdit` builds the edit from the subcommand's
+ * arguments and options; every edit shares the plan, output, dry-run and force options.
+ */
+function addPlanEditCommand(
+  command: Command,
+  toEdit: (args: unknown[], options: Record<string, unknown>) => Record<string, unknown>,
+): void {
+  addCommonOptions(
+    command
+      .requiredOption('--plan <file>', 'Path to plan file (JSON/YAML)')
+      .option('--output <file>', 'Write the edited plan here instead of over the plan file')
+      .option('--dry-run', 'Print the edited plan without writing it', false)
+      .option('--force', 'Write the plan even if the edit introduces validation errors', false),
+  ).action(async (...actionArgs: unknown[]) => {
+    // Commander passes the positional arguments, then the options and the command
+    const cliCommand = actionArgs.at(-1) as Command;
+    const options = actionArgs.at(-2) as Record<string, unknown>;
+    try {
+      const { config, options: configuredOptions } = await resolveCommandConfig(
+        options,
+        cliCommand,
+      );
+      const validatedOptions = validatePlanEditArgs({
+        ...configuredOptions,
+        edit: toEdit(actionArgs.slice(0, -2), options),
+      });
+      const cliOptions = options as { silent?: boolean };
+      logger.configure({
+        verbose: validatedOptions.verbose,
+        silent: cliOptions.silent ?? false,
+      });
+      const deps = createDefaultDependencies({ logger, config });
+      const planEditCommand = new PlanEditCommand(deps);
+      const exitCode = await planEditCommand.execute(validatedOptions);
+      if (exitCode !== 0) {
+        throw new Error(`Plan ${command.name()} command failed with exit code ${exitCode}`);
+      }
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new TypeError(`Invalid plan ${command.name()} options: ${error.message}`);
+      }
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('Unknown validation error');
+    }
+  });
+}
+
+addPlanEditCommand(
+  planCommand
+    .command('split <task>')
+    .description('Split a task into smaller tasks that divide its files between them')
+    .requiredOption(
+      '--into <part...>',
+      'Parts as <id>:<file>[,<file>...]; every file of the task goes to exactly one part',
+    ),
+  ([task], { into }) => ({ type: 'split', task, parts: into }),
+);
+
+addPlanEditCommand(
+  planCommand
+    .command('merge <tasks...>')
+    .description('Merge tasks of one phase into the first of them')
+    .option('--id <id>', 'ID of the merged task (default: ID of the first task)')
+    .option('--name <name>', 'Name of the merged task (default: name of the first task)'),
+  ([tasks], { id, name }) => ({ type: 'merge', tasks, id, name }),
+);
+
+addPlanEditCommand(
+  planCommand
+    .command('move <task>')
+    .description('Move a task into another phase')
+    .requiredOption('--to <phase>', 'Phase to move the task into')
+    .option('--before <task>', 'Place the task before this task of the phase (default: last)'),
+  ([task], { before, to }) => ({ type: 'move', task, phase: to, before }),
+);
+
+addPlanEditCommand(
+  planCommand.command('add-dep <task> <dependency>').description('Make a task depend on another'),
+  ([task, dependency]) => ({ type: 'add-dep', task, dependency }),
+);
+
+addPlanEditCommand(
+  planCommand
+    .command('remove-dep <task> <dependency>')
+    .description('Remove the dependency of a task on another'),
+  ([task, dependency]) => ({ type: 'remove-dep', task, dependency }),
+);
+
+addPlanEditCommand(
+  planCommand
+    .command('rename <task> <id>')
+    .description('Change the ID of a task everywhere it is referenced')
+    .option('--name <name>', 'New task name'),
+  ([task, id], { name }) => ({ type: 'rename', task, id, name }),
+);
+
 export async function run(argv: readonly string[]): Promise<number> {
   try {
     await program.parseAsync([...argv], { from: 'user' });
@@ -0,0 +1,262 @@
+import { EventEmitter } from 'node:events';
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { AgentService, DecomposerAgent } from '@/core/agents/interfaces';
+import type { ExecutionResult } from '@/core/execution/interfaces';
+import type { VcsBackend } from '@/core/vcs/interfaces';
+import type { ExecutionOrchestrator } from '@/services/execution/execution-orchestrator';
+import type { PlanV2 } from '@/types/schemas-v2';
+
+import { createVcsBackend } from '@/adapters/vcs';
+import { addAllChanges, getGitStatus } from '@/commands/stack/utils/git-operations';
+
+import { PipelineWorkflowManager } from '../pipeline-workflow';
+import { RunPlanSchema, StackChangesSchema } from '../schemas/pipeline';
+
+vi.mock('@/adapters/vcs', () => ({
+  createVcsBackend: vi.fn(),
+}));
+
+vi.mock('@/commands/stack/utils/git-operations', () => ({
+  addAllChanges: vi.fn(),
+  getGitStatus: vi.fn(),
+}));
+
+vi.mock('@/services/analysis/project-principles-service', () => ({
+  ProjectPrinciplesService: vi.fn().mockImplementation(() => ({
+    extract: vi.fn().mockReturnValue({ source: 'none', principles: [] }),
+  })),
+}));
+
+const planYaml = `
+name: Dark Mode
+strategy: parallel
+tasks:
+  - id: create-theme
+    name: Create Theme
+    complexity: M
+    description: Create the theme context and provider for switching between light and dark.
+    files: [src/theme.ts]
+    acceptanceCriteria: []
+    dependencies: []
+  - id: add-toggle
+    name: Add Toggle
+    complexity: S
+    description: Add a toggle component that switches the theme using the theme context.
+    files: [src/toggle.tsx]
+    acceptanceCriteria: []
+    dependencies: [create-theme]
+`;
+
+const createPlan = (): PlanV2 => ({
+  name: 'Dark Mode',
+  strategy: 'sequential',
+  tasks: [
+    {
+      id: 'create-theme',
+      name: 'Create Theme',
+      complexity: 'M',
+      description: 'Create the theme context and provider for switching between light and dark.',
+      files: ['src/theme.ts'],
+      acceptanceCriteria: [],
+      dependencies: [],
+    },
+  ],
+});
+
+describe('PipelineWorkflowManager', () => {
+  let orchestrator: EventEmitter & { execute: ReturnType<typeof vi.fn> };
+  let finishRun: (result: ExecutionResult) => void;
+  let failRun: (error: Error) => void;
+  let agent: DecomposerAgent;
+  let pipeline: PipelineWorkflowManager;
+
+  const flush = async (): Promise<void> => new Promise((resolve) => global.setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    vi.mocked(readFile).mockResolvedValue(planYaml);
+
+    orchestrator = Object.assign(new EventEmitter(), {
+      execute: vi.fn().mockImplementation(
+        async () =>
+          new Promise<ExecutionResult>((resolve, reject) => {
+            finishRun = resolve;
+            failRun = reject;
+          }),
+      ),
+    });
+    agent = { decompose: vi.fn().mockResolvedValue(createPlan()) };
+
+    pipeline = new PipelineWorkflowManager({
+      agentService: {
+        createAgent: vi.fn().mockResolvedValue(agent),
+      } as unknown as AgentService,
+      resolveOrchestrator: vi
+        .fn()
+        .mockResolvedValue(orchestrator as unknown as ExecutionOrchestrator),
+    });
+  });
+
+  describe('validatePlan', () => {
+    it('should report validation and metrics for a valid plan', async () => {
+      const result = await pipeline.validatePlan({ plan: 'plan.yaml' });
+
+      expect(readFile).toHaveBeenCalledWith(path.resolve('plan.yaml'), 'utf8');
+      expect(result.planName).toBe('Dark Mode');
+      expect(result.validation.valid).toBe(true);
+      expect(result.metrics?.criticalPath).toEqual(['create-theme', 'add-toggle']);
+    });
+
+    it('should omit metrics for an invalid plan', async () => {
+      vi.mocked(readFile).mockResolvedValue(planYaml.replace('[create-theme]', '[missing-task]'));
+
+      const result = await pipeline.validatePlan({ plan: 'plan.yaml' });
+
+      expect(result.validation.valid).toBe(false);
+      expect(result.metrics).toBeUndefined();
+    });
+  });
+
+  describe('decomposeSpec', () => {
+    it('should generate a plan and write it to the output file', async () => {
+      vi.mocked(readFile).mockResolvedValue('# Dark mode spec');
+
+      const result = await pipeline.decomposeSpec({
+        spec: 'spec.md',
+        agent: 'mock',
+        cwd: '/repo',
+        output: 'plan.yaml',
+        maxRetries: 1,
+      });
+
+      expect(readFile).toHaveBeenCalledWith('/repo/spec.md', 'utf8');
+      expect(agent.decompose).toHaveBeenCalledWith(
+        expect.stringContaining('# Dark mode spec'),
+        '/repo',
+        expect.objectContaining({ planOutputPath: '/repo/plan.yaml' }),
+      );
+      expect(result.success).toBe(true);
+      expect(result.outputPath).toBe('/repo/plan.yaml');
+      expect(writeFile).toHaveBeenCalledWith(
+        '/repo/plan.yaml',
+        expect.stringContaining('create-theme'),
+        'utf8',
+      );
+    });
+  });
+
+  describe('runPlan', () => {
+    const params = RunPlanSchema.parse({ plan: 'plan.yaml', mode: 'execute', cwd: '/repo' });
+
+    it('should return a job ID immediately and track task progress', async () => {
+      const started = await pipeline.runPlan(params);
+
+      expect(started.status).toBe('running');
+      expect(readFile).toHaveBeenCalledWith('/repo/plan.yaml', 'utf8');
+      expect(started.tasks).toEqual({ 'create-theme': 'pending', 'add-toggle': 'pending' });
+      expect(orchestrator.execute).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Dark Mode' }),
+        expect.objectContaining({ mode: 'execute', vcsMode: 'simple', workdir: '/repo' }),
+      );
+
+      orchestrator.emit('taskStart', { taskId: 'create-theme' });
+      orchestrator.emit('taskQueued', { taskId: 'add-toggle' });
+      expect(pipeline.getRunStatus(started.jobId).tasks).toEqual({
+        'create-theme': 'running',
+        'add-toggle': 'queued',
+      });
+
+      finishRun({
+        totalDuration: 1200,
+        branches: [],
+        commits: ['abc123'],
+        tasks: [
+          { taskId: 'create-theme', status: 'success', duration: 800 },
+          { taskId: 'add-toggle', status: 'success', duration: 400 },
+        ],
+      });
+      await flush();
+
+      const finished = pipeline.getRunStatus(started.jobId);
+      expect(finished.status).toBe('completed');
+      expect(finished.tasks).toEqual({ 'create-theme': 'completed', 'add-toggle': 'completed' });
+      expect(finished.summary).toMatchObject({ succeeded: 2, failed: 0, commits: ['abc123'] });
+      expect(orchestrator.listenerCount('taskStart')).toBe(0);
+    });
+
+    it('should refuse to start a second run while one is in progress', async () => {
+      const started = await pipeline.runPlan(params);
+
+      await expect(pipeline.runPlan(params)).rejects.toThrow(
+        `Run ${started.jobId} is still in progress`,
+      );
+    });
+
+    it('should mark the run failed when execution throws', async () => {
+      const started = await pipeline.runPlan(params);
+
+      failRun(new Error('worktree creation failed'));
+      await flush();
+
+      expect(pipeline.getRunStatus(started.jobId)).toMatchObject({
+        status: 'failed',
+        error: 'worktree creation failed',
+      });
+    });
+
+    it('should not start an invalid plan', async () => {
+      vi.mocked(readFile).mockResolvedValue(planYaml.replace('[create-theme]', '[missing-task]'));
+
+      await expect(pipeline.runPlan(params)).rejects.toThrow('Plan validation failed');
+      expect(orchestrator.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('stackChanges', () => {
+    let backend: Pick<VcsBackend, 'createBranchWithCommit' | 'isAvailable' | 'submitStack'>;
+
+    beforeEach(() => {
+      backend = {
+        isAvailable: vi.fn().mockResolvedValue(true),
+        createBranchWithCommit: vi.fn().mockResolvedValue('feat-dark-mode'),
+        submitStack: vi.fn().mockResolvedValue(['https://github.com/acme/app/pull/7']),
+      };
+      vi.mocked(createVcsBackend).mockReturnValue(backend as VcsBackend);
+      vi.mocked(getGitStatus).mockReturnValue({
+        hasChanges: true,
+        statusLines: ['M  src/theme.ts', '?? src/toggle.tsx'],
+      });
+    });
+
+    it('should commit the changes as a new stack branch and submit it', async () => {
+      const result = await pipeline.stackChanges(
+        StackChangesSchema.parse({ message: 'Add dark mode', cwd: '/repo', submit: true }),
+      );
+
+      expect(createVcsBackend).toHaveBeenCalledWith('git-spice');
+      expect(addAllChanges).toHaveBeenCalledWith('/repo');
+      expect(backend.createBranchWithCommit).toHaveBeenCalledWith('/repo', '', 'Add dark mode');
+      expect(result).toEqual({
+        branchName: 'feat-dark-mode',
+        files: ['src/theme.ts', 'src/toggle.tsx'],
+        prUrls: ['https://github.com/acme/app/pull/7'],
+      });
+    });
+
+    it('should refuse to stack a clean working tree', async () => {
+      vi.mocked(getGitStatus).mockReturnValue({ hasChanges: false, statusLines: [] });
+
+      await expect(
+        pipeline.stackChanges(StackChangesSchema.parse({ message: 'Add dark mode', cwd: '/repo' })),
+      ).rejects.toThrow('No changes to stack in /repo');
+      expect(backend.createBranchWithCommit).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should reject unknown job IDs', () => {
+    expect(() => pipeline.getRunStatus('missing')).toThrow('Unknown run: missing');
+  });
+});
@@ -0,0 +1,294 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+import type { AgentService } from '@/core/agents/interfaces';
+import type { ExecutionResult, TaskResult } from '@/core/execution/interfaces';
+import type { ExecutionOrchestrator } from '@/services/execution/execution-orchestrator';
+import type { AnalysisReport, PlanV2 } from '@/types/schemas-v2';
+
+import { createVcsBackend } from '@/adapters/vcs';
+import { addAllChanges, getGitStatus } from '@/commands/stack/utils/git-operations';
+import { ServiceIdentifiers } from '@/core/di';
+import { YamlPlanParser } from '@/io/yaml-parser';
+import { AgentServiceImpl } from '@/services/agents';
+import { CodebaseAnalysisService } from '@/services/analysis/codebase-analysis-service';
+import { GapAnalysisService } from '@/services/analysis/gap-analysis-service';
+import { ProjectPrinciplesService } from '@/services/analysis/project-principles-service';
+import { generatePlanWithRetry } from '@/services/planning/plan-generator';
+import { PlanOutputter } from '@/services/planning/plan-outputter';
+import { SpecificationService } from '@/services/specification/specification-service';
+import { logger } from '@/utils/global-logger';
+import { DagValidator, type PlanMetrics, type ValidationResult } from '@/validation/dag-validator';
+import { isNonEmptyString } from '@/validation/guards';
+
+import type {
+  AnalyzeSpecParams,
+  DecomposeSpecParams,
+  GenerateSpecParams,
+  RunJobStatus,
+  RunPlanParams,
+  RunTaskStatus,
+  StackChangesParams,
+  ValidatePlanParams,
+} from './schemas/pipeline';
+
+export type PipelineWorkflowDependencies = {
+  agentService?: AgentService;
+  /** Resolve the orchestrator that runs plans (defaults to the application container) */
+  resolveOrchestrator?: () => Promise<ExecutionOrchestrator>;
+};
+
+const TASK_RESULT_STATUS: Record<TaskResult['status'], RunTaskStatus> = {
+  success: 'completed',
+  failure: 'failed',
+  skipped: 'skipped',
+};
+
+async function resolveContainerOrchestrator(): Promise<ExecutionOrchestrator> {
+  // Loaded lazily so spec and plan tools do not bootstrap the execution services
+  const { bootstrapApplication, getContainer } = await import('@/providers');
+  await bootstrapApplication({ tui: false });
+  return getContainer().get<ExecutionOrchestrator>(ServiceIdentifiers.ExecutionOrchestrator);
+}
+
+/**
+ * High-level spec → plan → run → stack workflows exposed as MCP tools.
+ *
+ * Plans run in the background: `runPlan` returns a job ID straight away and
+ * `getRunStatus` reports per-task progress from the orchestrator's events.
+ * Only one run may be active at a time because runs share the repository.
+ */
+export class PipelineWorkflowManager {
+  private readonly agentService: AgentService;
+  private readonly resolveOrchestrator: () => Promise<ExecutionOrchestrator>;
+  private readonly jobs = new Map<string, RunJobStatus>();
+  private readonly principlesService = new ProjectPrinciplesService();
+
+  constructor(dependencies: PipelineWorkflowDependencies = {}) {
+    this.agentService = dependencies.agentService ?? new AgentServiceImpl();
+    this.resolveOrchestrator = dependencies.resolveOrchestrator ?? resolveContainerOrchestrator;
+  }
+
+  async generateSpec(
+    params: GenerateSpecParams,
+  ): Promise<{ outputPath?: string; specification: string }> {
+    const cwd = resolve(params.cwd ?? process.cwd());
+    const agent = await this.agentService.createAgent('claude');
+    const specificationService = new SpecificationService(
+      agent,
+      new CodebaseAnalysisService(agent),
+    );
+
+    const specification = await specificationService.generate({ prompt: params.prompt, cwd });
+
+    if (params.output === undefined) {
+      return { specification };
+    }
+    const outputPath = resolve(cwd, params.output);
+    await writeFile(outputPath, specification, 'utf8');
+    return { specification, outputPath };
+  }
+
+  async analyzeSpec(params: AnalyzeSpecParams): Promise<AnalysisReport> {
+    const cwd = resolve(params.cwd ?? process.cwd());
+    const specContent = await readFile(resolve(cwd, params.spec), 'utf8');
+    const principles = this.principlesService.extract(cwd);
+    const agent = await this.agentService.createAgent(params.agent);
+
+    return new GapAnalysisService(agent).analyze(specContent, principles);
+  }
+
+  async decomposeSpec(params: DecomposeSpecParams): Promise<{
+    attempts: number;
+    conflicts: string[];
+    metrics: PlanMetrics;
+    outputPath?: string;
+    plan: PlanV2;
+    success: boolean;
+    validation: ValidationResult;
+  }> {
+    const cwd = resolve(params.cwd ?? process.cwd());
+    const specContent = await readFile(resolve(cwd, params.spec), 'utf8');
+    const agent = await this.agentService.createAgent(params.agent);
+    const outputPath = params.output !== undefined ? resolve(cwd, params.output) : undefined;
+
+    const result = await generatePlanWithRetry(agent, specContent, cwd, {
+      maxRetries: params.maxRetries,
+      ...(outputPath !== undefined && { planOutputPath: outputPath }),
+    });
+
+    if (result.success && outputPath !== undefined) {
+      await writeFile(outputPath, PlanOutputter.formatPlanOutput(result.plan), 'utf8');
+    }
+
+    return {
+      success: result.success,
+      attempts: result.attempts,
+      conflicts: result.conflicts,
+      plan: result.plan,
+      validation: DagValidator.validatePlan(result.plan),
+      metrics: DagValidator.calculateMetrics(result.plan),
+      ...(result.success && outputPath !== undefined && { outputPath }),
+    };
+  }
+
+  async validatePlan(
+    params: ValidatePlanParams,
+  ): Promise<{ metrics?: PlanMetrics; planName: string; validation: ValidationResult }> {
+    const plan = await this._loadPlan(resolve(params.cwd ?? process.cwd(), params.plan));
+    const validation = DagValidator.validatePlan(plan);
+
+    return {
+      planName: plan.name,
+      validation,
+      ...(validation.valid && { metrics: DagValidator.calculateMetrics(plan) }),
+    };
+  }
+
+  /**
+   * Validate the plan and start executing it in the background
+   */
+  async runPlan(params: RunPlanParams): Promise<RunJobStatus> {
+    const active = [...this.jobs.values()].find((job) => job.status === 'running');
+    if (active !== undefined) {
+      throw new Error(`Run ${active.jobId} is still in progress`);
+    }
+
+    const cwd = resolve(params.cwd ?? process.cwd());
+    const plan = await this._loadPlan(resolve(cwd, params.plan));
+    const validation = DagValidator.validatePlan(plan);
+    if (!validation.valid) {
+      throw new Error(`Plan validation failed: ${validation.errors.join('; ')}`);
+    }
+
+    const specContent = isNonEmptyString(params.spec)
+      ? await readFile(resolve(cwd, params.spec), 'utf8')
+      : undefined;
+    const orchestrator = await this.resolveOrchestrator();
+
+    const job: RunJobStatus = {
+      jobId: `mcp-run-${Date.now()}`,
+      planName: plan.name,
+      mode: params.mode,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      tasks: Object.fromEntries(plan.tasks.map((task) => [task.id, 'pending' as const])),
+    };
+    this.jobs.set(job.jobId, job);
+
+    void this._execute(job, orchestrator, async () =>
+      orchestrator.execute(plan, {
+        mode: params.mode,
+        vcsMode: params.vcsMode,
+        agent: params.agent,
+        continueOnError: params.continueOnError,
+        workdir: cwd,
+        ...(params.vcsBackend !== undefined && { vcsBackend: params.vcsBackend }),
+        ...(params.maxParallel !== undefined && { maxParallel: params.maxParallel }),
+        ...(specContent !== undefined && { specContent }),
+      }),
+    );
+
+    return this.getRunStatus(job.jobId);
+  }
+
+  /**
+   * Commit the working tree changes as a new branch on the stack, like `chopstack stack
+   * --create-stack`. The message is required: MCP clients write their own, instead of the
+   * generated message the CLI falls back to.
+   */
+  async stackChanges(
+    params: StackChangesParams,
+  ): Promise<{ branchName: string; files: string[]; prUrls?: string[] }> {
+    const cwd = resolve(params.cwd ?? process.cwd());
+    const { hasChanges, statusLines } = getGitStatus(cwd);
+    if (!hasChanges) {
+      throw new Error(`No changes to stack in ${cwd}`);
+    }
+
+    const backend = createVcsBackend(params.vcsBackend);
+    if (!(await backend.isAvailable())) {
+      throw new Error(`${params.vcsBackend} is not installed or not in PATH`);
+    }
+
+    addAllChanges(cwd);
+    const branchName = await backend.createBranchWithCommit(
+      cwd,
+      params.branchName ?? '',
+      params.message,
+    );
+    const prUrls = params.submit ? await backend.submitStack(cwd) : undefined;
+
+    return {
+      branchName,
+      files: statusLines.map((line) => line.slice(3)),
+      ...(prUrls !== undefined && { prUrls }),
+    };
+  }
+
+  getRunStatus(jobId: string): RunJobStatus {
+    const job = this.jobs.get(jobId);
+    if (job === undefined) {
+      throw new Error(`Unknown run: ${jobId}`);
+    }
+    return { ...job, tasks: { ...job.tasks } };
+  }
+
+  /**
+   * Run the plan, mirroring orchestrator task events into the job until it settles
+   */
+  private async _execute(
+    job: RunJobStatus,
+    orchestrator: ExecutionOrchestrator,
+    execute: () => Promise<ExecutionResult>,
+  ): Promise<void> {
+    const onQueued = ({ taskId }: { taskId: string }): void => {
+      job.tasks[taskId] = 'queued';
+    };
+    const onStart = ({ taskId }: { taskId: string }): void => {
+      job.tasks[taskId] = 'running';
+    };
+    const onComplete = ({ taskId, result }: { result?: TaskResult; taskId: string }): void => {
+      job.tasks[taskId] = TASK_RESULT_STATUS[result?.status ?? 'success'];
+    };
+    orchestrator.on('taskQueued', onQueued);
+    orchestrator.on('taskStart', onStart);
+    orchestrator.on('taskComplete', onComplete);
+
+    try {
+      this._finishJob(job, await execute());
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+      job.finishedAt = new Date().toISOString();
+      logger.error(`❌ MCP run ${job.jobId} failed: ${job.error}`);
+    } finally {
+      orchestrator.off('taskQueued', onQueued);
+      orchestrator.off('taskStart', onStart);
+      orchestrator.off('taskComplete', onComplete);
+    }
+  }
+
+  private _finishJob(job: RunJobStatus, result: ExecutionResult): void {
+    for (const task of result.tasks) {
+      job.tasks[task.taskId] = TASK_RESULT_STATUS[task.status];
+    }
+
+    const count = (status: TaskResult['status']): number =>
+      result.tasks.filter((task) => task.status === status).length;
+    job.summary = {
+      succeeded: count('success'),
+      failed: count('failure'),
+      skipped: count('skipped'),
+      totalDuration: result.totalDuration,
+      branches: result.branches,
+      commits: result.commits,
+    };
+    job.status = job.summary.failed > 0 ? 'failed' : 'completed';
+    job.finishedAt = new Date().toISOString();
+  }
+
+  private async _loadPlan(planPath: string): Promise<PlanV2> {
+    return YamlPlanParser.parse(await readFile(planPath, 'utf8'));
+  }
+}
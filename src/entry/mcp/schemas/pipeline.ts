@@ -0,0 +1,93 @@
+import { z } from 'zod';
+
+import { AgentTypeSchema } from '@/core/config/types';
+import { ExecutionModeSchema, VcsBackendTypeSchema, VcsModeSchema } from '@/core/execution/types';
+
+export const GenerateSpecSchema = z.object({
+  prompt: z.string().min(1).describe('Brief feature description to expand into a specification'),
+  cwd: z.string().optional().describe('Repository to analyze (default: server working directory)'),
+  output: z.string().optional().describe('File to write the generated specification to'),
+});
+
+export const AnalyzeSpecSchema = z.object({
+  spec: z.string().min(1).describe('Path to the specification file'),
+  agent: AgentTypeSchema.default('claude').describe('Agent used for gap analysis'),
+  cwd: z.string().optional().describe('Repository whose project principles apply'),
+});
+
+export const DecomposeSpecSchema = z.object({
+  spec: z.string().min(1).describe('Path to the specification file'),
+  agent: AgentTypeSchema.default('claude').describe('Agent used to decompose the spec'),
+  cwd: z.string().optional().describe('Repository the plan is generated for'),
+  output: z.string().optional().describe('File to write the plan YAML to'),
+  maxRetries: z
+    .number()
+    .int()
+    .min(1)
+    .default(3)
+    .describe('Attempts to regenerate the plan when it has conflicts'),
+});
+
+export const ValidatePlanSchema = z.object({
+  plan: z.string().min(1).describe('Path to the plan file (YAML or JSON)'),
+  cwd: z.string().optional().describe('Directory the plan path is relative to'),
+});
+
+export const RunPlanSchema = z.object({
+  plan: z.string().min(1).describe('Path to the plan file (YAML or JSON)'),
+  spec: z.string().optional().describe('Specification injected into task prompts'),
+  mode: ExecutionModeSchema.default('dry-run').describe('Execution mode'),
+  vcsMode: VcsModeSchema.default('simple').describe('How commits and branches are organized'),
+  vcsBackend: VcsBackendTypeSchema.optional().describe('Stacking tool for stacked VCS mode'),
+  agent: AgentTypeSchema.default('claude').describe('Agent that executes the tasks'),
+  cwd: z.string().optional().describe('Repository to run the plan in'),
+  continueOnError: z.boolean().default(false).describe('Keep going when a task fails'),
+  maxParallel: z.number().int().positive().optional().describe('Maximum tasks running at once'),
+});
+
+export const StackChangesSchema = z.object({
+  message: z.string().min(1).describe('Commit message for the changes'),
+  branchName: z
+    .string()
+    .optional()
+    .describe('Name of the new stack branch (default: derived from the message)'),
+  vcsBackend: VcsBackendTypeSchema.default('git-spice').describe('Stacking tool to use'),
+  cwd: z.string().optional().describe('Repository whose changes are stacked'),
+  submit: z.boolean().default(false).describe('Submit the stack as draft pull requests'),
+});
+
+export const GetRunStatusSchema = z.object({
+  jobId: z.string().min(1).describe('Job ID returned by run_plan'),
+});
+
+export type GenerateSpecParams = z.infer<typeof GenerateSpecSchema>;
+export type AnalyzeSpecParams = z.infer<typeof AnalyzeSpecSchema>;
+export type DecomposeSpecParams = z.infer<typeof DecomposeSpecSchema>;
+export type ValidatePlanParams = z.infer<typeof ValidatePlanSchema>;
+export type RunPlanParams = z.infer<typeof RunPlanSchema>;
+export type StackChangesParams = z.infer<typeof StackChangesSchema>;
+export type GetRunStatusParams = z.infer<typeof GetRunStatusSchema>;
+
+export type RunTaskStatus = 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'skipped';
+
+/**
+ * Progress of a plan started with run_plan, as returned by get_run_status
+ */
+export type RunJobStatus = {
+  error?: string;
+  finishedAt?: string;
+  jobId: string;
+  mode: RunPlanParams['mode'];
+  planName: string;
+  startedAt: string;
+  status: 'running' | 'completed' | 'failed';
+  summary?: {
+    branches: string[];
+    commits: string[];
+    failed: number;
+    skipped: number;
+    succeeded: number;
+    totalDuration: number;
+  };
+  tasks: Record<string, RunTaskStatus>;
+};
@@ -11,6 +11,17 @@ import {
   TaskOrchestrator,
 } from '@/services/orchestration';
 
+import { PipelineWorkflowManager } from './pipeline-workflow';
+import {
+  AnalyzeSpecSchema,
+  DecomposeSpecSchema,
+  GenerateSpecSchema,
+  GetRunStatusSchema,
+  RunPlanSchema,
+  StackChangesSchema,
+  ValidatePlanSchema,
+} from './schemas/pipeline';
+
 // Schema definitions
 const ExecuteTaskSchema = z.object({
   taskId: z.string().describe('Unique identifier for the task'),
@@ -215,6 +226,7 @@ const mcp = new FastMCP({
 });
 const orchestrator = new TaskOrchestrator(new ClaudeCliTaskExecutionAdapter());
 const gitWorkflow = new GitWorkflowManager();
+const pipeline = new PipelineWorkflowManager();
 
 // Store streaming updates for retrieval
 const taskUpdates: Map<string, StreamingUpdate[]> = new Map();
@@ -414,5 +426,71 @@ mcp.addTool({
   },
 });
 
+// High-level spec → plan → run workflows
+mcp.addTool({
+  name: 'generate_spec',
+  description: 'Expand a brief feature prompt into a full specification (chopstack specify)',
+  parameters: GenerateSpecSchema,
+  execute: async (params) => {
+    return JSON.stringify(await pipeline.generateSpec(params));
+  },
+});
+
+mcp.addTool({
+  name: 'analyze_spec',
+  description: 'Report gaps and completeness of a specification (chopstack analyze)',
+  parameters: AnalyzeSpecSchema,
+  execute: async (params) => {
+    return JSON.stringify(await pipeline.analyzeSpec(params));
+  },
+});
+
+mcp.addTool({
+  name: 'decompose_spec',
+  description: 'Decompose a specification into a validated task plan (chopstack decompose)',
+  parameters: DecomposeSpecSchema,
+  execute: async (params) => {
+    return JSON.stringify(await pipeline.decomposeSpec(params));
+  },
+});
+
+mcp.addTool({
+  name: 'validate_plan',
+  description: 'Check a plan for file conflicts, cycles and missing dependencies',
+  parameters: ValidatePlanSchema,
+  execute: async (params) => {
+    return JSON.stringify(await pipeline.validatePlan(params));
+  },
+});
+
+mcp.addTool({
+  name: 'run_plan',
+  description: 'Start executing a plan in the background and return its job ID (chopstack run)',
+  parameters: RunPlanSchema,
+  execute: async (params) => {
+    return JSON.stringify(await pipeline.runPlan(params));
+  },
+});
+
+mcp.addTool({
+  name: 'stack_changes',
+  description: 'Commit the working tree changes as a new stack branch (chopstack stack)',
+  parameters: StackChangesSchema,
+  execute: async (params) => {
+    return JSON.stringify(await pipeline.stackChanges(params));
+  },
+});
+
+mcp.addTool({
+  name: 'get_run_status',
+  description: 'Get the status and per-task progress of a run started with run_plan',
+  parameters: GetRunStatusSchema,
+  execute: async (params) => {
+    // MCP tools must be async
+    await Promise.resolve();
+    return JSON.stringify(pipeline.getRunStatus(params.jobId));
+  },
+});
+
 // Export the server as named export
 export { mcp };
@@ -1,4 +1,5 @@
 /**
  * IO utilities for YAML parsing and file handling
  */
-export { type ParsedContent, YamlPlanParser } from './yaml-parser';
+export { PlanSourceMap } from './plan-source-map';
+export { type ParsedContent, type PlanParseDiagnostics, YamlPlanParser } from './yaml-parser';
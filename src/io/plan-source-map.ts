@@ -0,0 +1,77 @@
+import { type Document, isNode, isScalar, LineCounter, parseDocument } from 'yaml';
+
+import {
+  createPlanDiagnostic,
+  type PlanDiagnostic,
+  type PlanSourceLocation,
+} from '@/validation/plan-diagnostics';
+
+/**
+ * Maps paths in a plan document back to lines and columns of the plan file, using the
+ * node ranges of the `yaml` parser (JSON plans parse as YAML flow collections)
+ */
+export class PlanSourceMap {
+  private readonly document: Document.Parsed;
+  private readonly lineCounter = new LineCounter();
+
+  constructor(content: string) {
+    this.document = parseDocument(content, {
+      lineCounter: this.lineCounter,
+      prettyErrors: false,
+      strict: false,
+      uniqueKeys: false,
+    });
+  }
+
+  /**
+   * YAML syntax errors in the plan file, located at the offending token
+   */
+  getSyntaxDiagnostics(): PlanDiagnostic[] {
+    return this.document.errors.map((error) =>
+      createPlanDiagnostic('yaml-syntax', error.message, [], {
+        location: this._toLocation(error.pos[0], error.pos[1]),
+      }),
+    );
+  }
+
+  /**
+   * Position of the node at `path`, or of its closest ancestor that exists in the file.
+   * Collections are located at their first character only.
+   */
+  locate(path: Array<number | string>): PlanSourceLocation | undefined {
+    for (let depth = path.length; depth >= 0; depth--) {
+      const node: unknown =
+        depth === 0 ? this.document.contents : this.document.getIn(path.slice(0, depth), true);
+      if (!isNode(node) || node.range === undefined || node.range === null) {
+        continue;
+      }
+
+      const [start, end] = node.range;
+      if (isScalar(node)) {
+        return this._toLocation(start, end);
+      }
+      const { line, col } = this.lineCounter.linePos(start);
+      return { line, column: col };
+    }
+    return undefined;
+  }
+
+  /**
+   * Locate every diagnostic that does not have a location yet
+   */
+  annotate(diagnostics: PlanDiagnostic[]): PlanDiagnostic[] {
+    return diagnostics.map((diagnostic) => {
+      if (diagnostic.location !== undefined) {
+        return diagnostic;
+      }
+      const location = this.locate(diagnostic.path);
+      return location === undefined ? diagnostic : { ...diagnostic, location };
+    });
+  }
+
+  private _toLocation(start: number, end: number): PlanSourceLocation {
+    const { line, col } = this.lineCounter.linePos(start);
+    const { line: endLine, col: endColumn } = this.lineCounter.linePos(end);
+    return { line, column: col, endLine, endColumn };
+  }
+}
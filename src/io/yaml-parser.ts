@@ -2,12 +2,32 @@ import { parse as parseYaml } from 'yaml';
 
 import { planSchemaV2, type PlanV2 } from '@/types/schemas-v2';
 import { isNonEmptyString, isNonNullish } from '@/validation/guards';
+import { createPlanDiagnostic, type PlanDiagnostic } from '@/validation/plan-diagnostics';
+
+import { PlanSourceMap } from './plan-source-map';
 
 export type ParsedContent = {
   content: string;
   source: 'yaml' | 'json' | 'raw';
 };
 
+/**
+ * snake_case spellings of plan keys, used by plans written with `PlanOutputter` and by agents
+ */
+export const SNAKE_CASE_PLAN_KEYS: Readonly<Record<string, string>> = {
+  acceptanceCriteria: 'acceptance_criteria',
+  successMetrics: 'success_metrics',
+};
+
+/**
+ * Outcome of {@link YamlPlanParser.diagnose}; `plan` is only set when there are no diagnostics
+ */
+export type PlanParseDiagnostics = {
+  diagnostics: PlanDiagnostic[];
+  plan?: PlanV2;
+  sourceMap: PlanSourceMap;
+};
+
 /**
  * Utility class for parsing and validating YAML plans from various sources
  */
@@ -38,10 +58,54 @@ export class YamlPlanParser {
    * Parse YAML/JSON content directly to a PlanV2
    */
   static parse(content: string): PlanV2 {
-    // Determine format based on content
-    const trimmed = content.trim();
-    const source = trimmed.startsWith('{') || trimmed.startsWith('[') ? 'json' : 'yaml';
-    return this.parseAndValidatePlan({ content, source });
+    return this.parseAndValidatePlan({ content, source: this._detectSource(content) });
+  }
+
+  /**
+   * Parse YAML/JSON content like {@link parse}, but report syntax and schema problems as
+   * diagnostics located in the content instead of throwing
+   */
+  static diagnose(content: string): PlanParseDiagnostics {
+    const sourceMap = new PlanSourceMap(content);
+
+    let rawPlan: unknown;
+    try {
+      rawPlan = this._normalizeKeys(
+        this._parseContentBySource({ content, source: this._detectSource(content) }),
+      );
+    } catch (error) {
+      const syntaxDiagnostics = sourceMap.getSyntaxDiagnostics();
+      const message = error instanceof Error ? error.message : 'Unknown parsing error';
+      return {
+        sourceMap,
+        diagnostics:
+          syntaxDiagnostics.length > 0
+            ? syntaxDiagnostics
+            : [
+                createPlanDiagnostic('yaml-syntax', message, [], {
+                  location: { line: 1, column: 1 },
+                }),
+              ],
+      };
+    }
+
+    const result = planSchemaV2.safeParse(rawPlan);
+    if (result.success) {
+      return { sourceMap, diagnostics: [], plan: result.data };
+    }
+
+    const diagnostics = result.error.issues.map((issue) => {
+      const path = issue.path.filter(
+        (segment): segment is number | string => typeof segment !== 'symbol',
+      );
+      return createPlanDiagnostic(
+        'schema',
+        issue.message,
+        path,
+        this._schemaContext(rawPlan, path),
+      );
+    });
+    return { sourceMap, diagnostics: sourceMap.annotate(diagnostics) };
   }
 
   /**
@@ -49,7 +113,7 @@ export class YamlPlanParser {
    */
   static parseAndValidatePlan(parsedContent: ParsedContent): PlanV2 {
     try {
-      const rawPlan = this._parseContentBySource(parsedContent);
+      const rawPlan = this._normalizeKeys(this._parseContentBySource(parsedContent));
       const validatedPlan = planSchemaV2.parse(rawPlan);
 
       return validatedPlan;
@@ -59,6 +123,52 @@ export class YamlPlanParser {
     }
   }
 
+  private static _detectSource(content: string): ParsedContent['source'] {
+    // Determine format based on content
+    const trimmed = content.trim();
+    return trimmed.startsWith('{') || trimmed.startsWith('[') ? 'json' : 'yaml';
+  }
+
+  /**
+   * Task or phase ID of the raw task or phase a schema issue is in, when it has one
+   */
+  private static _schemaContext(
+    rawPlan: unknown,
+    path: Array<number | string>,
+  ): Pick<PlanDiagnostic, 'phaseId' | 'taskId'> {
+    const [collection, index] = path;
+    if ((collection !== 'tasks' && collection !== 'phases') || typeof index !== 'number') {
+      return {};
+    }
+
+    const entries = isNonNullish(rawPlan) ? (rawPlan as Record<string, unknown>)[collection] : [];
+    const entry: unknown = Array.isArray(entries) ? entries[index] : undefined;
+    const id: unknown = isNonNullish(entry) ? (entry as Record<string, unknown>).id : undefined;
+    if (typeof id !== 'string' || !isNonEmptyString(id)) {
+      return {};
+    }
+    return collection === 'tasks' ? { taskId: id } : { phaseId: id };
+  }
+
+  /**
+   * Rename snake_case plan and task keys to the schema's camelCase, which wins when a
+   * plan spells a key both ways
+   */
+  private static _normalizeKeys(rawPlan: unknown): unknown {
+    if (!isPlainRecord(rawPlan)) {
+      return rawPlan;
+    }
+    const plan = renameSnakeCaseKeys(rawPlan);
+    return Array.isArray(plan.tasks)
+      ? {
+          ...plan,
+          tasks: plan.tasks.map((task: unknown) =>
+            isPlainRecord(task) ? renameSnakeCaseKeys(task) : task,
+          ),
+        }
+      : plan;
+  }
+
   private static _parseContentBySource(parsedContent: ParsedContent): unknown {
     switch (parsedContent.source) {
       case 'yaml':
@@ -107,3 +217,18 @@ export class YamlPlanParser {
     }
   }
 }
+
+function isPlainRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function renameSnakeCaseKeys(record: Record<string, unknown>): Record<string, unknown> {
+  const renamed = { ...record };
+  for (const [key, snakeCaseKey] of Object.entries(SNAKE_CASE_PLAN_KEYS)) {
+    if (snakeCaseKey in renamed) {
+      renamed[key] ??= renamed[snakeCaseKey];
+      delete renamed[snakeCaseKey];
+    }
+  }
+  return renamed;
+}
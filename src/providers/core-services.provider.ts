@@ -2,6 +2,8 @@
  * Core services provider for dependency injection
  */
 
+import type { AgentService } from '@/core/agents/interfaces';
+import type { RuntimeConfigService } from '@/core/config/runtime-config';
 import type { Container } from '@/core/di';
 import type {
   CommitService,
@@ -11,6 +13,7 @@ import type {
   WorktreeService,
 } from '@/core/vcs/domain-services';
 
+import { createVcsBackend } from '@/adapters/vcs';
 import { BaseServiceProvider, ServiceIdentifiers } from '@/core/di';
 import { AgentServiceImpl } from '@/services/agents';
 import {
@@ -25,6 +28,7 @@ import {
 import { type TaskExecutionAdapter, TaskOrchestrator } from '@/services/orchestration';
 import { DynamicTaskExecutionAdapter } from '@/services/orchestration/adapters/dynamic-task-execution-adapter';
 import {
+  AgentConflictResolver,
   CommitServiceImpl,
   ConflictResolutionServiceImpl,
   RepositoryServiceImpl,
@@ -81,11 +85,15 @@ export class CoreServicesProvider extends BaseServiceProvider {
     };
 
     container.registerSingleton(ServiceIdentifiers.WorktreeService, () => {
+      const runtimeConfig = container.get<RuntimeConfigService>(ServiceIdentifiers.RuntimeConfig);
+      const { worktreeSetup } = runtimeConfig;
+
       return new WorktreeServiceImpl({
         branchPrefix: defaultVcsConfig.branchPrefix,
         cleanupOnSuccess: defaultVcsConfig.cleanupOnSuccess,
         cleanupOnFailure: defaultVcsConfig.cleanupOnFailure,
         shadowPath: defaultVcsConfig.shadowPath,
+        ...(worktreeSetup !== undefined && { setup: worktreeSetup }),
       });
     });
 
@@ -98,13 +106,22 @@ export class CoreServicesProvider extends BaseServiceProvider {
     });
 
     container.registerSingleton(ServiceIdentifiers.ConflictResolutionService, () => {
-      return new ConflictResolutionServiceImpl();
+      const runtimeConfig = container.get<RuntimeConfigService>(ServiceIdentifiers.RuntimeConfig);
+      const agentResolver = new AgentConflictResolver({
+        createAgent: async () =>
+          container
+            .get<AgentService>(ServiceIdentifiers.AgentService)
+            .createAgent(runtimeConfig.agent),
+      });
+
+      return new ConflictResolutionServiceImpl({ agentResolver });
     });
 
     container.registerSingleton(ServiceIdentifiers.StackBuildService, () => {
       const conflictResolutionService = container.get<ConflictResolutionService>(
         ServiceIdentifiers.ConflictResolutionService,
       );
+      const runtimeConfig = container.get<RuntimeConfigService>(ServiceIdentifiers.RuntimeConfig);
 
       return new StackBuildServiceImpl(
         {
@@ -112,10 +129,11 @@ export class CoreServicesProvider extends BaseServiceProvider {
           parentRef: 'main',
           stackSubmissionEnabled: defaultVcsConfig.stackSubmission.enabled,
           stackSubmission: defaultVcsConfig.stackSubmission,
-          conflictStrategy: defaultVcsConfig.conflictStrategy,
+          conflictStrategy: runtimeConfig.conflictStrategy,
         },
         {
           conflictResolutionService,
+          vcsBackend: createVcsBackend(runtimeConfig.vcsBackend),
         },
       );
     });
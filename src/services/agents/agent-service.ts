@@ -4,10 +4,15 @@ import type { AgentService, AgentType, DecomposerAgent } from '@/core/agents/int
 
 import { ClaudeCodeDecomposer } from '@/adapters/agents/claude';
 import { CodexDecomposer } from '@/adapters/agents/codex';
+import { CommandAgent } from '@/adapters/agents/command';
 import { MockAgent as MockDecomposer } from '@/adapters/agents/mock';
+import { BuiltInAgentTypeSchema } from '@/core/config/types';
+import { AgentNotFoundError } from '@/utils/errors';
 import { logger } from '@/utils/global-logger';
 import { AgentValidator } from '@/validation/agent-validator';
 
+import { getCommandAgentConfig, getCommandAgentNames } from './command-agent-registry';
+
 /**
  * Agent service implementation that provides agent orchestration,
  * capability detection, and fallback mechanisms
@@ -24,13 +29,13 @@ export class AgentServiceImpl implements AgentService {
     }
 
     // Validate agent capabilities before creating
-    await AgentValidator.validateAgentCapabilities(type);
+    await this._validateAgentCapabilities(type);
 
     const agent = match(type)
       .with('claude', () => new ClaudeCodeDecomposer())
       .with('codex', () => new CodexDecomposer())
       .with('mock', () => new MockDecomposer())
-      .exhaustive();
+      .otherwise((name) => this._createCommandAgent(name));
 
     // Cache the agent for reuse
     this.agentCache.set(type, agent);
@@ -38,7 +43,7 @@ export class AgentServiceImpl implements AgentService {
   }
 
   async getAvailableAgents(): Promise<AgentType[]> {
-    const allAgents: AgentType[] = ['claude', 'codex', 'mock'];
+    const allAgents: AgentType[] = [...BuiltInAgentTypeSchema.options, ...getCommandAgentNames()];
     const availableAgents: AgentType[] = [];
 
     for (const agentType of allAgents) {
@@ -95,7 +100,7 @@ export class AgentServiceImpl implements AgentService {
     }
 
     try {
-      await AgentValidator.validateAgentCapabilities(type);
+      await this._validateAgentCapabilities(type);
       this.capabilityCache.set(type, true);
       return true;
     } catch {
@@ -104,6 +109,29 @@ export class AgentServiceImpl implements AgentService {
     }
   }
 
+  /**
+   * Built-in agents check their CLI; command agents only need to be configured, since a
+   * missing executable is reported when the command is spawned
+   */
+  private async _validateAgentCapabilities(type: AgentType): Promise<void> {
+    const builtInType = BuiltInAgentTypeSchema.safeParse(type);
+    if (builtInType.success) {
+      await AgentValidator.validateAgentCapabilities(builtInType.data);
+      return;
+    }
+    if (getCommandAgentConfig(type) === undefined) {
+      throw new AgentNotFoundError(type);
+    }
+  }
+
+  private _createCommandAgent(name: string): DecomposerAgent {
+    const config = getCommandAgentConfig(name);
+    if (config === undefined) {
+      throw new AgentNotFoundError(name);
+    }
+    return new CommandAgent(name, config);
+  }
+
   /**
    * Clear all caches (useful for testing)
    */
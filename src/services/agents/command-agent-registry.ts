@@ -0,0 +1,32 @@
+import type { AgentsConfig, CommandAgentConfig } from '@/core/config/types';
+
+/**
+ * Command agents from the resolved configuration, shared by the agent service and the
+ * task execution adapter factory so `--agent <name>` resolves the same way everywhere
+ */
+const commandAgents = new Map<string, CommandAgentConfig>();
+
+/**
+ * Replace the registered command agents
+ * Should be called once the configuration is resolved
+ */
+export function registerCommandAgents(agents: AgentsConfig): void {
+  commandAgents.clear();
+  for (const [name, config] of Object.entries(agents)) {
+    commandAgents.set(name, config);
+  }
+}
+
+/**
+ * The configuration of a command agent, or undefined when no agent has that name
+ */
+export function getCommandAgentConfig(name: string): CommandAgentConfig | undefined {
+  return commandAgents.get(name);
+}
+
+/**
+ * Names of the registered command agents
+ */
+export function getCommandAgentNames(): string[] {
+  return [...commandAgents.keys()];
+}
@@ -1,6 +1,11 @@
 import { AgentServiceImpl } from './agent-service';
 
 export { AgentServiceImpl };
+export {
+  getCommandAgentConfig,
+  getCommandAgentNames,
+  registerCommandAgents,
+} from './command-agent-registry';
 export type { AgentService, AgentType, DecomposerAgent } from '@/core/agents/interfaces';
 
 /**
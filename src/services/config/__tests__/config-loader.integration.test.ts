@@ -0,0 +1,93 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { findConfigFile, loadConfig } from '@/services/config';
+
+describe('config loader integration tests', () => {
+  let repoDir: string;
+
+  beforeEach(() => {
+    repoDir = mkdtempSync(path.join(tmpdir(), 'chopstack-config-'));
+    mkdirSync(path.join(repoDir, '.git'));
+  });
+
+  afterEach(() => {
+    rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should load chopstack.config.yaml', async () => {
+    const configFile = path.join(repoDir, 'chopstack.config.yaml');
+    writeFileSync(configFile, 'execution:\n  vcsMode: worktree\n  maxRetries: 2\n');
+
+    const { config, sources } = await loadConfig({ cwd: repoDir, env: {} });
+
+    expect(config.execution.vcsMode).toBe('worktree');
+    expect(config.execution.maxRetries).toBe(2);
+    expect(sources['execution.vcsMode']).toBe(configFile);
+  });
+
+  it('should load chopstack.config.json', async () => {
+    writeFileSync(
+      path.join(repoDir, 'chopstack.config.json'),
+      JSON.stringify({ agent: { type: 'codex' } }),
+    );
+
+    const { config } = await loadConfig({ cwd: repoDir, env: {} });
+
+    expect(config.agent.type).toBe('codex');
+  });
+
+  it('should load the default export of chopstack.config.ts', async () => {
+    writeFileSync(
+      path.join(repoDir, 'chopstack.config.ts'),
+      'const timeout: number = 90_000;\nexport default { execution: { timeout } };\n',
+    );
+
+    const { config } = await loadConfig({ cwd: repoDir, env: {} });
+
+    expect(config.execution.timeout).toBe(90_000);
+  });
+
+  it('should find .chopstack/config.yaml from a subdirectory of the repo', async () => {
+    mkdirSync(path.join(repoDir, '.chopstack'));
+    writeFileSync(path.join(repoDir, '.chopstack', 'config.yaml'), 'vcs:\n  provider: graphite\n');
+    const nested = path.join(repoDir, 'packages', 'app');
+    mkdirSync(nested, { recursive: true });
+
+    expect(findConfigFile(nested)).toBe(path.join(repoDir, '.chopstack', 'config.yaml'));
+    expect((await loadConfig({ cwd: nested, env: {} })).config.vcs.provider).toBe('graphite');
+  });
+
+  it('should apply env over the config file and CLI flags over env', async () => {
+    writeFileSync(
+      path.join(repoDir, 'chopstack.config.yaml'),
+      'agent:\n  type: mock\nexecution:\n  vcsMode: worktree\n  maxRetries: 1\n',
+    );
+
+    const { config, sources } = await loadConfig({
+      cwd: repoDir,
+      env: { CHOPSTACK_VCS_MODE: 'stacked', CHOPSTACK_RETRY_ATTEMPTS: '3' },
+      cliOptions: { retryAttempts: 4 },
+    });
+
+    expect(config.agent.type).toBe('mock');
+    expect(config.execution.vcsMode).toBe('stacked');
+    expect(config.execution.maxRetries).toBe(4);
+    expect(sources['execution.vcsMode']).toBe('env');
+    expect(sources['execution.maxRetries']).toBe('cli');
+  });
+
+  it('should report unknown keys in the config file', async () => {
+    writeFileSync(
+      path.join(repoDir, 'chopstack.config.yaml'),
+      'execution:\n  vcs_mode: worktree\n',
+    );
+
+    await expect(loadConfig({ cwd: repoDir, env: {} })).rejects.toThrow(
+      /Invalid configuration in .*chopstack\.config\.yaml/,
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { ConfigSource, PartialAppConfig } from '@/core/config/interfaces';
+
+import {
+  CliConfigSource,
+  ConfigError,
+  DefaultConfigSource,
+  EnvConfigSource,
+  LayeredConfigLoader,
+  toCommandOptions,
+} from '@/services/config';
+
+const staticSource = (name: string, config: PartialAppConfig): ConfigSource => ({
+  name,
+  load: vi.fn().mockResolvedValue(config),
+});
+
+describe('LayeredConfigLoader', () => {
+  it('should resolve the defaults when no other source is present', async () => {
+    const loader = new LayeredConfigLoader();
+    loader.addSource(new DefaultConfigSource('/repo'));
+
+    const { config, sources } = await loader.resolve();
+
+    expect(config.agent.type).toBe('claude');
+    expect(config.execution).toMatchObject({ cwd: '/repo', vcsMode: 'simple', maxRetries: 0 });
+    expect(config.vcs.provider).toBe('git-spice');
+    expect(sources['execution.vcsMode']).toBe('default');
+  });
+
+  it('should let later sources override earlier ones value by value', async () => {
+    const loader = new LayeredConfigLoader();
+    loader.addSource(new DefaultConfigSource('/repo'));
+    loader.addSource(
+      staticSource('chopstack.config.yaml', {
+        agent: { type: 'codex' },
+        execution: { vcsMode: 'worktree', maxRetries: 2 },
+      }),
+    );
+    loader.addSource(
+      new EnvConfigSource({ CHOPSTACK_VCS_MODE: 'stacked', CHOPSTACK_TIMEOUT: '60000' }),
+    );
+    loader.addSource(new CliConfigSource({ retryAttempts: 5, vcsMode: undefined }));
+
+    const { config, sources } = await loader.resolve();
+
+    expect(config.agent.type).toBe('codex');
+    expect(config.execution).toMatchObject({ vcsMode: 'stacked', maxRetries: 5, timeout: 60_000 });
+    expect(sources).toMatchObject({
+      'agent.type': 'chopstack.config.yaml',
+      'execution.vcsMode': 'env',
+      'execution.timeout': 'env',
+      'execution.maxRetries': 'cli',
+      'execution.mode': 'default',
+    });
+  });
+
+  it('should name the source of an invalid value', async () => {
+    const loader = new LayeredConfigLoader();
+    loader.addSource(new DefaultConfigSource('/repo'));
+    loader.addSource(new EnvConfigSource({ CHOPSTACK_RETRY_ATTEMPTS: 'many' }));
+
+    await expect(loader.resolve()).rejects.toThrow(ConfigError);
+    await expect(loader.resolve()).rejects.toThrow(
+      /Invalid configuration in env: execution.maxRetries/,
+    );
+  });
+
+  it('should accept a configured command agent as the agent type', async () => {
+    const loader = new LayeredConfigLoader();
+    loader.addSource(new DefaultConfigSource('/repo'));
+    loader.addSource(
+      staticSource('chopstack.config.yaml', {
+        agents: { aider: { type: 'command', execute: 'aider --yes --message {prompt} {files}' } },
+      }),
+    );
+    loader.addSource(new CliConfigSource({ agent: 'aider' }));
+
+    const { config, sources } = await loader.resolve();
+
+    expect(config.agent.type).toBe('aider');
+    expect(config.agents.aider).toMatchObject({ type: 'command' });
+    expect(sources['agents.aider']).toBe('chopstack.config.yaml');
+  });
+
+  it('should reject an agent that is neither built in nor configured', async () => {
+    const loader = new LayeredConfigLoader();
+    loader.addSource(new DefaultConfigSource('/repo'));
+    loader.addSource(new CliConfigSource({ agent: 'aider' }));
+
+    await expect(loader.load()).rejects.toThrow(/agent.type: Unknown agent/);
+  });
+
+  it('should reject command agents that shadow a built-in agent', async () => {
+    const loader = new LayeredConfigLoader();
+    loader.addSource(new DefaultConfigSource('/repo'));
+    loader.addSource(
+      staticSource('file', { agents: { codex: { type: 'command', execute: ['codex'] } } }),
+    );
+
+    await expect(loader.load()).rejects.toThrow(/cannot reuse a built-in agent name/);
+  });
+
+  it('should reject a config missing required values', async () => {
+    const loader = new LayeredConfigLoader();
+    loader.addSource(staticSource('partial', { agent: { type: 'mock' } }));
+
+    await expect(loader.load()).rejects.toThrow(/Invalid configuration: execution/);
+  });
+});
+
+describe('EnvConfigSource', () => {
+  it('should parse booleans and numbers from CHOPSTACK_* variables', async () => {
+    const config = await new EnvConfigSource({
+      CHOPSTACK_CONTINUE_ON_ERROR: 'true',
+      CHOPSTACK_MAX_PARALLEL: '3',
+      CHOPSTACK_VCS_BACKEND: 'graphite',
+      CHOPSTACK_VERBOSE: '0',
+      UNRELATED: 'ignored',
+    }).load();
+
+    expect(config).toEqual({
+      execution: { continueOnError: true, maxParallel: 3, verbose: false },
+      vcs: { provider: 'graphite' },
+    });
+  });
+
+  it('should parse timeouts as durations', async () => {
+    const config = await new EnvConfigSource({
+      CHOPSTACK_TIMEOUT: '40m',
+      CHOPSTACK_IDLE_TIMEOUT: '90000',
+    }).load();
+
+    expect(config).toEqual({ execution: { timeout: 2_400_000, idleTimeout: 90_000 } });
+  });
+});
+
+describe('toCommandOptions', () => {
+  it('should map config values back onto command option names', async () => {
+    const loader = new LayeredConfigLoader();
+    loader.addSource(new DefaultConfigSource('/repo'));
+    loader.addSource(staticSource('file', { execution: { maxParallel: 4, timeout: 1000 } }));
+
+    const options = toCommandOptions(await loader.load());
+
+    expect(options).toEqual({
+      agent: 'claude',
+      mode: 'dry-run',
+      vcsMode: 'simple',
+      vcsBackend: 'git-spice',
+      retryAttempts: 0,
+      timeout: 1000,
+      maxParallel: 4,
+      continueOnError: false,
+      verbose: false,
+    });
+  });
+});
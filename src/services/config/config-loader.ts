@@ -0,0 +1,128 @@
+import type { ConfigLoader, ConfigSource } from '@/core/config/interfaces';
+
+import {
+  type AppConfig,
+  AppConfigSchema,
+  type PartialAppConfig,
+  type ResolvedAppConfig,
+} from '@/core/config/types';
+import { logger } from '@/utils/global-logger';
+import { isNonNullish } from '@/validation/guards';
+
+import {
+  CLI_OPTION_BINDINGS,
+  CliConfigSource,
+  DefaultConfigSource,
+  EnvConfigSource,
+  FileConfigSource,
+  findConfigFile,
+  formatConfigIssues,
+} from './config-sources';
+import { ConfigError } from './errors';
+
+export type ConfigLoaderOptions = {
+  /** Flags set explicitly on the command line, keyed by option name */
+  cliOptions?: Record<string, unknown>;
+  /** Directory the config file is searched from */
+  cwd: string;
+  /** Environment to read `CHOPSTACK_*` variables from */
+  env?: Record<string, string | undefined>;
+};
+
+/**
+ * Merges configuration sources in the order they were added, later sources
+ * overriding earlier ones value by value, and validates the result.
+ *
+ * @example
+ * ```typescript
+ * const loader = new LayeredConfigLoader();
+ * loader.addSource(new DefaultConfigSource(cwd));
+ * loader.addSource(new EnvConfigSource());
+ *
+ * const { config, sources } = await loader.resolve();
+ * console.log(sources['execution.vcsMode']); // 'env'
+ * ```
+ */
+export class LayeredConfigLoader implements ConfigLoader {
+  private readonly sources: ConfigSource[] = [];
+
+  addSource(source: ConfigSource): void {
+    this.sources.push(source);
+  }
+
+  async load(): Promise<AppConfig> {
+    const { config } = await this.resolve();
+    return config;
+  }
+
+  async resolve(): Promise<ResolvedAppConfig> {
+    const merged: Record<string, Record<string, unknown>> = {};
+    const valueSources: Record<string, string> = {};
+
+    for (const source of this.sources) {
+      const partial: PartialAppConfig = await source.load();
+      for (const [section, values] of Object.entries(partial)) {
+        if (!isNonNullish(values)) {
+          continue;
+        }
+        for (const [key, value] of Object.entries(values as Record<string, unknown>)) {
+          if (value === undefined) {
+            continue;
+          }
+          merged[section] = { ...merged[section], [key]: value };
+          valueSources[`${section}.${key}`] = source.name;
+        }
+      }
+      logger.debug(`⚙️ Loaded configuration from ${source.name}`);
+    }
+
+    const result = AppConfigSchema.safeParse(merged);
+    if (!result.success) {
+      throw new ConfigError(`Invalid configuration: ${formatConfigIssues(result.error.issues)}`);
+    }
+
+    return { config: result.data, sources: valueSources };
+  }
+}
+
+/**
+ * Create the standard loader: defaults, project config file, `CHOPSTACK_*`
+ * environment variables, then explicit CLI flags (highest precedence)
+ */
+export function createConfigLoader(options: ConfigLoaderOptions): LayeredConfigLoader {
+  const loader = new LayeredConfigLoader();
+  loader.addSource(new DefaultConfigSource(options.cwd));
+
+  const configFile = findConfigFile(options.cwd);
+  if (configFile !== null) {
+    loader.addSource(new FileConfigSource(configFile));
+  }
+
+  loader.addSource(new EnvConfigSource(options.env));
+  loader.addSource(new CliConfigSource(options.cliOptions ?? {}));
+  return loader;
+}
+
+/**
+ * Resolve the configuration for a command invocation
+ */
+export async function loadConfig(options: ConfigLoaderOptions): Promise<ResolvedAppConfig> {
+  return createConfigLoader(options).resolve();
+}
+
+/**
+ * Command options derived from the resolved config, keyed by option name
+ */
+export function toCommandOptions(config: AppConfig): Record<string, unknown> {
+  const options: Record<string, unknown> = {};
+  for (const {
+    option,
+    path: [section, key],
+  } of CLI_OPTION_BINDINGS) {
+    const value: unknown = (config[section] as Record<string, unknown>)[key];
+    if (value !== undefined) {
+      options[option] = value;
+    }
+  }
+  return options;
+}
@@ -0,0 +1,284 @@
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { createJiti } from 'jiti';
+import { match } from 'ts-pattern';
+import { parse as parseYaml } from 'yaml';
+
+import type { ConfigSource } from '@/core/config/interfaces';
+
+import { type AppConfig, type PartialAppConfig, PartialAppConfigSchema } from '@/core/config/types';
+import { parseDuration } from '@/core/execution/task-timeouts';
+import { isNonEmptyString } from '@/validation/guards';
+
+import { ConfigError } from './errors';
+
+type ConfigSection = keyof AppConfig;
+
+type ConfigPath = readonly [ConfigSection, string];
+
+/**
+ * Config file names looked up in each directory, in order of preference
+ */
+export const CONFIG_FILE_NAMES = [
+  'chopstack.config.ts',
+  'chopstack.config.json',
+  'chopstack.config.yaml',
+  path.join('.chopstack', 'config.yaml'),
+] as const;
+
+/**
+ * Command options that can be set from configuration, with the config value they map to
+ */
+export const CLI_OPTION_BINDINGS: ReadonlyArray<{ option: string; path: ConfigPath }> = [
+  { option: 'agent', path: ['agent', 'type'] },
+  { option: 'mode', path: ['execution', 'mode'] },
+  { option: 'vcsMode', path: ['execution', 'vcsMode'] },
+  { option: 'vcsBackend', path: ['vcs', 'provider'] },
+  { option: 'stackShape', path: ['vcs', 'stackShape'] },
+  { option: 'branchGranularity', path: ['vcs', 'branchGranularity'] },
+  { option: 'conflictStrategy', path: ['vcs', 'conflictStrategy'] },
+  { option: 'keepWorktrees', path: ['vcs', 'keepWorktrees'] },
+  { option: 'worktreeSetup', path: ['vcs', 'worktreeSetup'] },
+  { option: 'retryAttempts', path: ['execution', 'maxRetries'] },
+  { option: 'timeout', path: ['execution', 'timeout'] },
+  { option: 'idleTimeout', path: ['execution', 'idleTimeout'] },
+  { option: 'sizeTimeouts', path: ['execution', 'sizeTimeouts'] },
+  { option: 'maxParallel', path: ['execution', 'maxParallel'] },
+  { option: 'maxCost', path: ['execution', 'maxCost'] },
+  { option: 'maxTokens', path: ['execution', 'maxTokens'] },
+  { option: 'continueOnError', path: ['execution', 'continueOnError'] },
+  { option: 'verbose', path: ['execution', 'verbose'] },
+];
+
+const parseNumber = (value: string): unknown => {
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? value : parsed;
+};
+
+// Invalid values are passed through, so config validation reports them
+const parseDurationValue = (value: string): unknown => {
+  try {
+    return parseDuration(value);
+  } catch {
+    return value;
+  }
+};
+
+const parseBoolean = (value: string): unknown =>
+  match(value.trim().toLowerCase())
+    .with('true', '1', 'yes', () => true)
+    .with('false', '0', 'no', () => false)
+    .otherwise(() => value);
+
+const parseString = (value: string): unknown => value;
+
+/**
+ * `CHOPSTACK_*` environment variables and the config value each one sets
+ */
+export const ENV_BINDINGS: ReadonlyArray<{
+  parse: (value: string) => unknown;
+  path: ConfigPath;
+  variable: string;
+}> = [
+  { variable: 'CHOPSTACK_AGENT', path: ['agent', 'type'], parse: parseString },
+  { variable: 'CHOPSTACK_MODE', path: ['execution', 'mode'], parse: parseString },
+  { variable: 'CHOPSTACK_VCS_MODE', path: ['execution', 'vcsMode'], parse: parseString },
+  { variable: 'CHOPSTACK_VCS_BACKEND', path: ['vcs', 'provider'], parse: parseString },
+  { variable: 'CHOPSTACK_STACK_SHAPE', path: ['vcs', 'stackShape'], parse: parseString },
+  {
+    variable: 'CHOPSTACK_BRANCH_GRANULARITY',
+    path: ['vcs', 'branchGranularity'],
+    parse: parseString,
+  },
+  {
+    variable: 'CHOPSTACK_CONFLICT_STRATEGY',
+    path: ['vcs', 'conflictStrategy'],
+    parse: parseString,
+  },
+  { variable: 'CHOPSTACK_KEEP_WORKTREES', path: ['vcs', 'keepWorktrees'], parse: parseBoolean },
+  { variable: 'CHOPSTACK_RETRY_ATTEMPTS', path: ['execution', 'maxRetries'], parse: parseNumber },
+  { variable: 'CHOPSTACK_TIMEOUT', path: ['execution', 'timeout'], parse: parseDurationValue },
+  {
+    variable: 'CHOPSTACK_IDLE_TIMEOUT',
+    path: ['execution', 'idleTimeout'],
+    parse: parseDurationValue,
+  },
+  { variable: 'CHOPSTACK_MAX_PARALLEL', path: ['execution', 'maxParallel'], parse: parseNumber },
+  { variable: 'CHOPSTACK_MAX_COST', path: ['execution', 'maxCost'], parse: parseNumber },
+  { variable: 'CHOPSTACK_MAX_TOKENS', path: ['execution', 'maxTokens'], parse: parseNumber },
+  {
+    variable: 'CHOPSTACK_CONTINUE_ON_ERROR',
+    path: ['execution', 'continueOnError'],
+    parse: parseBoolean,
+  },
+  { variable: 'CHOPSTACK_VERBOSE', path: ['execution', 'verbose'], parse: parseBoolean },
+];
+
+/**
+ * Build a partial config from `[path, value]` pairs, skipping undefined values
+ */
+function fromEntries(entries: Array<[ConfigPath, unknown]>): Record<string, unknown> {
+  const config: Partial<Record<ConfigSection, Record<string, unknown>>> = {};
+  for (const [[section, key], value] of entries) {
+    if (value === undefined) {
+      continue;
+    }
+    config[section] = { ...config[section], [key]: value };
+  }
+  return config;
+}
+
+/**
+ * Render schema issues as `path: message` pairs
+ */
+export function formatConfigIssues(
+  issues: ReadonlyArray<{ message: string; path: PropertyKey[] }>,
+): string {
+  return issues.map((issue) => `${issue.path.map(String).join('.')}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Validate the values contributed by a source, naming the source in the error
+ */
+export function validatePartialConfig(raw: unknown, sourceName: string): PartialAppConfig {
+  const result = PartialAppConfigSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    throw new ConfigError(
+      `Invalid configuration in ${sourceName}: ${formatConfigIssues(result.error.issues)}`,
+      sourceName,
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Built-in defaults, matching the defaults of the CLI flags
+ */
+export class DefaultConfigSource implements ConfigSource {
+  readonly name = 'default';
+
+  constructor(private readonly _cwd: string) {}
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async load(): Promise<AppConfig> {
+    return {
+      agent: { type: 'claude' },
+      agents: {},
+      execution: {
+        continueOnError: false,
+        cwd: this._cwd,
+        dryRun: false,
+        maxRetries: 0,
+        mode: 'dry-run',
+        vcsMode: 'simple',
+        verbose: false,
+      },
+      vcs: { provider: 'git-spice' },
+    };
+  }
+}
+
+/**
+ * Project config file (`chopstack.config.{ts,json,yaml}` or `.chopstack/config.yaml`)
+ */
+export class FileConfigSource implements ConfigSource {
+  readonly name: string;
+
+  constructor(private readonly _filePath: string) {
+    this.name = _filePath;
+  }
+
+  async load(): Promise<PartialAppConfig> {
+    let raw: unknown;
+    try {
+      raw = await match(path.extname(this._filePath))
+        .with('.ts', async () => this._importModule())
+        .with('.json', async () => JSON.parse(await readFile(this._filePath, 'utf8')) as unknown)
+        .with(
+          '.yaml',
+          '.yml',
+          async () => parseYaml(await readFile(this._filePath, 'utf8')) as unknown,
+        )
+        .otherwise(() => {
+          throw new ConfigError(`Unsupported config file type: ${this._filePath}`, this.name);
+        });
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        throw error;
+      }
+      throw new ConfigError(
+        `Failed to load config file ${this._filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        this.name,
+      );
+    }
+
+    return validatePartialConfig(raw, this.name);
+  }
+
+  /**
+   * TypeScript config files default-export the config object
+   */
+  private async _importModule(): Promise<unknown> {
+    const jiti = createJiti(import.meta.url, { moduleCache: false });
+    return jiti.import(this._filePath, { default: true });
+  }
+}
+
+/**
+ * `CHOPSTACK_*` environment variables
+ */
+export class EnvConfigSource implements ConfigSource {
+  readonly name = 'env';
+
+  constructor(private readonly _env: Record<string, string | undefined> = process.env) {}
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async load(): Promise<PartialAppConfig> {
+    const entries = ENV_BINDINGS.flatMap(({ variable, path: configPath, parse }) => {
+      const value = this._env[variable];
+      return isNonEmptyString(value) ? [[configPath, parse(value)] as [ConfigPath, unknown]] : [];
+    });
+    return validatePartialConfig(fromEntries(entries), this.name);
+  }
+}
+
+/**
+ * Flags passed explicitly on the command line (commander defaults excluded)
+ */
+export class CliConfigSource implements ConfigSource {
+  readonly name = 'cli';
+
+  constructor(private readonly _options: Record<string, unknown>) {}
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async load(): Promise<PartialAppConfig> {
+    const entries = CLI_OPTION_BINDINGS.map(
+      ({ option, path: configPath }): [ConfigPath, unknown] => [configPath, this._options[option]],
+    );
+    return validatePartialConfig(fromEntries(entries), this.name);
+  }
+}
+
+/**
+ * Find the project config file, searching from `cwd` up to the repository root
+ */
+export function findConfigFile(cwd: string): string | null {
+  let directory = path.resolve(cwd);
+
+  for (;;) {
+    for (const fileName of CONFIG_FILE_NAMES) {
+      const candidate = path.join(directory, fileName);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parent = path.dirname(directory);
+    if (existsSync(path.join(directory, '.git')) || parent === directory) {
+      return null;
+    }
+    directory = parent;
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Configuration error handling
+ */
+
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly source?: string,
+  ) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
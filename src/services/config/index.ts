@@ -0,0 +1,16 @@
+export {
+  type ConfigLoaderOptions,
+  createConfigLoader,
+  LayeredConfigLoader,
+  loadConfig,
+  toCommandOptions,
+} from './config-loader';
+export {
+  CliConfigSource,
+  CONFIG_FILE_NAMES,
+  DefaultConfigSource,
+  EnvConfigSource,
+  FileConfigSource,
+  findConfigFile,
+} from './config-sources';
+export { ConfigError } from './errors';
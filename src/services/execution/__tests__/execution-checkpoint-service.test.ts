@@ -0,0 +1,87 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ExecutionCheckpoint } from '@/core/execution/types';
+
+import { ExecutionCheckpointServiceImpl } from '../execution-checkpoint-service';
+
+describe('ExecutionCheckpointServiceImpl', () => {
+  let service: ExecutionCheckpointServiceImpl;
+
+  const checkpoint: ExecutionCheckpoint = {
+    version: 1,
+    status: 'running',
+    vcsMode: 'stacked',
+    baseRef: 'main',
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:10:00Z'),
+    tasks: [
+      {
+        id: 'create-types',
+        name: 'Create Types',
+        complexity: 'S',
+        description: 'Create the shared type definitions for the theme system',
+        files: ['src/types/theme.ts'],
+        acceptanceCriteria: [],
+        dependencies: [],
+        state: 'completed',
+        stateHistory: [
+          {
+            from: 'running',
+            to: 'completed',
+            reason: 'Task completed successfully',
+            timestamp: new Date('2025-01-01T00:09:00Z'),
+          },
+        ],
+        commitHash: 'abc1234',
+        branchName: 'chopstack/create-types-x1y2z3',
+        worktreeDir: '/repo/.chopstack/shadows/create-types',
+        retryCount: 0,
+        maxRetries: 3,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ExecutionCheckpointServiceImpl();
+  });
+
+  it('should resolve the checkpoint path under .chopstack/executions', () => {
+    expect(service.getCheckpointPath('/repo')).toBe('/repo/.chopstack/executions/checkpoint.json');
+  });
+
+  it('should write the checkpoint and an ignore file', async () => {
+    await service.save('/repo', checkpoint);
+
+    expect(mkdir).toHaveBeenCalledWith('/repo/.chopstack/executions', { recursive: true });
+    expect(writeFile).toHaveBeenCalledWith('/repo/.chopstack/executions/.gitignore', '*\n', 'utf8');
+    expect(writeFile).toHaveBeenCalledWith(
+      '/repo/.chopstack/executions/checkpoint.json',
+      JSON.stringify(checkpoint, null, 2),
+      'utf8',
+    );
+  });
+
+  it('should load a checkpoint and revive dates', async () => {
+    vi.mocked(readFile).mockResolvedValue(JSON.stringify(checkpoint));
+
+    const loaded = await service.load('/repo');
+
+    expect(loaded).toEqual(checkpoint);
+    expect(loaded?.tasks[0]?.stateHistory[0]?.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should return null when no checkpoint exists', async () => {
+    vi.mocked(readFile).mockRejectedValue(Object.assign(new Error('ENOENT'), { code: 'ENOENT' }));
+
+    await expect(service.load('/repo')).resolves.toBeNull();
+  });
+
+  it('should reject malformed checkpoints', async () => {
+    vi.mocked(readFile).mockResolvedValue(JSON.stringify({ version: 2, tasks: [] }));
+
+    await expect(service.load('/repo')).rejects.toThrow('Invalid execution checkpoint');
+  });
+});
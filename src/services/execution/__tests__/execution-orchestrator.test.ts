@@ -24,6 +24,7 @@ describe('ExecutionOrchestrator', () => {
       branches: [],
       commits: [],
     });
+    mockTaskOrchestrator.getTaskUsage = vi.fn().mockReturnValue(undefined);
 
     // Create mock VCS engine
     mockVcsEngine = {
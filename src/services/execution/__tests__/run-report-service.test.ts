@@ -0,0 +1,217 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ExecutionResult } from '@/core/execution/interfaces';
+import type { PlanV2 } from '@/types/schemas-v2';
+
+import { buildRunReport, formatJUnitReport, RunReportServiceImpl } from '../run-report-service';
+
+describe('run reports', () => {
+  const plan: PlanV2 = {
+    name: 'Theme <support>',
+    strategy: 'parallel',
+    tasks: [
+      {
+        id: 'create-types',
+        name: 'Create Types',
+        complexity: 'S',
+        description: 'Create the shared type definitions for the theme system',
+        files: ['src/types/theme.ts'],
+        acceptanceCriteria: [],
+        dependencies: [],
+      },
+      {
+        id: 'theme-provider',
+        name: 'Theme Provider',
+        complexity: 'M',
+        description: 'Implement the theme provider using the shared theme types',
+        files: ['src/theme/provider.tsx'],
+        acceptanceCriteria: [],
+        dependencies: ['create-types'],
+      },
+      {
+        id: 'theme-toggle',
+        name: 'Theme Toggle',
+        complexity: 'S',
+        description: 'Add a toggle component that switches between light and dark themes',
+        files: ['src/components/toggle.tsx'],
+        acceptanceCriteria: [],
+        dependencies: ['theme-provider'],
+      },
+    ],
+  };
+
+  const result: ExecutionResult = {
+    totalDuration: 4000,
+    branches: ['chopstack/create-types', 'chopstack/theme-provider'],
+    commits: ['abc1234', 'def5678'],
+    tasks: [
+      {
+        taskId: 'create-types',
+        status: 'success',
+        duration: 1000,
+        retries: 0,
+        exitCode: 0,
+        filesChanged: ['src/types/theme.ts'],
+        commitHash: 'abc1234',
+        branchName: 'chopstack/create-types',
+      },
+      {
+        taskId: 'theme-provider',
+        status: 'failure',
+        duration: 2000,
+        retries: 1,
+        error: 'File modification validation failed',
+        filesChanged: ['src/theme/provider.tsx', 'src/types/theme.ts'],
+        violations: [
+          { file: 'src/types/theme.ts', reason: 'belongs_to_other_task', conflictingTask: 'x' },
+        ],
+      },
+      {
+        taskId: 'theme-toggle',
+        status: 'skipped',
+        duration: 0,
+        error: 'Execution halted due to previous failure',
+      },
+    ],
+  };
+
+  const startedAt = new Date('2025-01-01T00:00:00Z');
+  const finishedAt = new Date('2025-01-01T00:00:04Z');
+
+  describe('buildRunReport', () => {
+    it('should record per-task outcomes and run details', () => {
+      const report = buildRunReport({
+        jobId: 'plan-1',
+        mode: 'execute',
+        vcsMode: 'stacked',
+        plan,
+        result,
+        startedAt,
+        finishedAt,
+      });
+
+      expect(report).toMatchObject({
+        version: 1,
+        jobId: 'plan-1',
+        planName: 'Theme <support>',
+        status: 'failure',
+        startedAt: '2025-01-01T00:00:00.000Z',
+        finishedAt: '2025-01-01T00:00:04.000Z',
+        branches: result.branches,
+        commits: result.commits,
+      });
+      expect(report.tasks[0]).toEqual({
+        taskId: 'create-types',
+        name: 'Create Types',
+        state: 'success',
+        duration: 1000,
+        retries: 0,
+        exitCode: 0,
+        filesChanged: ['src/types/theme.ts'],
+        violations: [],
+        commitHash: 'abc1234',
+        branchName: 'chopstack/create-types',
+      });
+      expect(report.tasks[1]?.violations).toHaveLength(1);
+      expect(report.tasks[2]).toMatchObject({ state: 'skipped', retries: 0, filesChanged: [] });
+    });
+
+    it('should aggregate execution metrics', () => {
+      const { metrics } = buildRunReport({
+        jobId: 'plan-1',
+        mode: 'execute',
+        vcsMode: 'simple',
+        plan,
+        result,
+        startedAt,
+      });
+
+      expect(metrics).toEqual({
+        taskCount: 3,
+        completedCount: 1,
+        failedCount: 1,
+        skippedCount: 1,
+        totalDuration: 4000,
+        averageTaskDuration: 1500,
+        criticalPathDuration: 3000,
+        parallelizationEfficiency: 0.75,
+      });
+    });
+  });
+
+  describe('formatJUnitReport', () => {
+    it('should render one escaped test case per task', () => {
+      const xml = formatJUnitReport(
+        buildRunReport({
+          jobId: 'plan-1',
+          mode: 'execute',
+          vcsMode: 'simple',
+          plan,
+          result,
+          startedAt,
+        }),
+      );
+
+      expect(xml).toContain('<testsuite name="Theme &lt;support&gt;" tests="3" failures="1"');
+      expect(xml).toContain('<testcase name="create-types" classname="Theme &lt;support&gt;"');
+      expect(xml).toContain('<property name="commitHash" value="abc1234"/>');
+      expect(xml).toContain(
+        '<failure message="File modification validation failed">src/types/theme.ts: belongs to other task</failure>',
+      );
+      expect(xml).toContain('<skipped message="Execution halted due to previous failure"/>');
+    });
+  });
+
+  describe('RunReportServiceImpl', () => {
+    let service: RunReportServiceImpl;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      service = new RunReportServiceImpl();
+    });
+
+    it('should save the JSON report under .chopstack/runs/<jobId>', async () => {
+      const report = buildRunReport({
+        jobId: 'plan-1',
+        mode: 'execute',
+        vcsMode: 'simple',
+        plan,
+        result,
+        startedAt,
+      });
+
+      const reportPath = await service.save('/repo', report);
+
+      expect(reportPath).toBe('/repo/.chopstack/runs/plan-1/report.json');
+      expect(mkdir).toHaveBeenCalledWith('/repo/.chopstack/runs/plan-1', { recursive: true });
+      expect(writeFile).toHaveBeenCalledWith('/repo/.chopstack/runs/.gitignore', '*\n', 'utf8');
+      expect(writeFile).toHaveBeenCalledWith(
+        reportPath,
+        `${JSON.stringify(report, null, 2)}\n`,
+        'utf8',
+      );
+    });
+
+    it('should write JUnit XML to an explicit path', async () => {
+      const report = buildRunReport({
+        jobId: 'plan-1',
+        mode: 'execute',
+        vcsMode: 'simple',
+        plan,
+        result,
+        startedAt,
+      });
+
+      await service.write('/ci/results/chopstack.xml', report, 'junit');
+
+      expect(mkdir).toHaveBeenCalledWith('/ci/results', { recursive: true });
+      expect(writeFile).toHaveBeenCalledWith(
+        '/ci/results/chopstack.xml',
+        formatJUnitReport(report),
+        'utf8',
+      );
+    });
+  });
+});
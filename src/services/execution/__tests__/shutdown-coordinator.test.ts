@@ -0,0 +1,77 @@
+import { EventEmitter } from 'node:events';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { FileLogWriter } from '@/services/logging/file-log-writer';
+
+import { ShutdownCoordinator, type ShutdownTarget } from '../shutdown-coordinator';
+
+describe('ShutdownCoordinator', () => {
+  let target: ShutdownTarget;
+  let signals: EventEmitter;
+  let logWriter: FileLogWriter;
+  let coordinator: ShutdownCoordinator;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    target = {
+      interrupt: vi.fn().mockReturnValue(['task-a']),
+      killStoppedTasks: vi.fn().mockReturnValue(['task-a']),
+    };
+    signals = new EventEmitter();
+    logWriter = { flush: vi.fn().mockResolvedValue(undefined) } as unknown as FileLogWriter;
+    coordinator = new ShutdownCoordinator(target, {
+      gracePeriodMs: 5000,
+      logWriter,
+      signalSource: signals,
+    });
+    coordinator.install();
+  });
+
+  afterEach(() => {
+    coordinator.dispose();
+    vi.useRealTimers();
+  });
+
+  it('should interrupt the run and flush logs on SIGINT', () => {
+    signals.emit('SIGINT');
+
+    expect(target.interrupt).toHaveBeenCalledWith('SIGINT');
+    expect(logWriter.flush).toHaveBeenCalled();
+    expect(coordinator.getSignal()).toBe('SIGINT');
+    expect(coordinator.getExitCode()).toBe(130);
+  });
+
+  it('should kill stopped tasks once the grace period ends', () => {
+    signals.emit('SIGTERM');
+
+    vi.advanceTimersByTime(4999);
+    expect(target.killStoppedTasks).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(target.killStoppedTasks).toHaveBeenCalledTimes(1);
+    expect(coordinator.getExitCode()).toBe(143);
+  });
+
+  it('should kill stopped tasks at once on a second signal', () => {
+    signals.emit('SIGINT');
+    signals.emit('SIGINT');
+
+    expect(target.interrupt).toHaveBeenCalledTimes(1);
+    expect(target.killStoppedTasks).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop listening and cancel the pending kill when disposed', () => {
+    signals.emit('SIGINT');
+    coordinator.dispose();
+    vi.advanceTimersByTime(5000);
+    signals.emit('SIGINT');
+
+    expect(target.killStoppedTasks).not.toHaveBeenCalled();
+    expect(signals.listenerCount('SIGINT')).toBe(0);
+  });
+
+  it('should report no exit code when no signal arrived', () => {
+    expect(coordinator.getExitCode()).toBeUndefined();
+  });
+});
@@ -0,0 +1,46 @@
+import { execa } from 'execa';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TaskVerificationServiceImpl } from '../task-verification-service';
+
+describe('TaskVerificationServiceImpl', () => {
+  let service: TaskVerificationServiceImpl;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new TaskVerificationServiceImpl({ outputLimit: 20 });
+  });
+
+  it('should run each command in the working directory through the shell', async () => {
+    vi.mocked(execa).mockResolvedValue({ exitCode: 0, all: 'ok' } as never);
+
+    const results = await service.verify(['pnpm tsc --noEmit', 'pnpm test'], '/repo/worktree', 1);
+
+    expect(execa).toHaveBeenCalledWith(
+      'pnpm tsc --noEmit',
+      expect.objectContaining({ cwd: '/repo/worktree', shell: true, reject: false }),
+    );
+    expect(results).toHaveLength(2);
+    expect(results.every((result) => result.passed && result.attempt === 1)).toBe(true);
+  });
+
+  it('should stop at the first failing command and keep the tail of its output', async () => {
+    vi.mocked(execa).mockResolvedValue({
+      exitCode: 2,
+      all: 'error TS2322: Type string is not assignable',
+    } as never);
+
+    const results = await service.verify(['pnpm tsc --noEmit', 'pnpm test'], '/repo', 2);
+
+    expect(execa).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([
+      expect.objectContaining({
+        attempt: 2,
+        command: 'pnpm tsc --noEmit',
+        exitCode: 2,
+        passed: false,
+        output: '…ng is not assignable',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { EventEmitter } from 'node:events';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { StreamingUpdate, TaskOrchestrator } from '@/services/orchestration';
+
+import { TaskWatchdog } from '../task-watchdog';
+
+type WatchedOrchestrator = Pick<TaskOrchestrator, 'killTask' | 'off' | 'on' | 'stopTask'>;
+
+describe('TaskWatchdog', () => {
+  let orchestrator: EventEmitter & WatchedOrchestrator;
+  let watchdog: TaskWatchdog;
+  let onTimeout: (reason: string) => void;
+
+  const emitOutput = (taskId: string): void => {
+    const update: StreamingUpdate = {
+      taskId,
+      type: 'stdout',
+      data: 'working',
+      timestamp: new Date(),
+    };
+    orchestrator.emit('taskUpdate', update);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    orchestrator = Object.assign(new EventEmitter(), {
+      stopTask: vi.fn().mockReturnValue(true),
+      killTask: vi.fn().mockReturnValue(true),
+    }) as unknown as EventEmitter & WatchedOrchestrator;
+    watchdog = new TaskWatchdog(orchestrator, { killGracePeriodMs: 1000 });
+    onTimeout = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should stop a task that exceeds its wall-clock limit and kill it after the grace period', () => {
+    watchdog.watch('task-a', { wallClock: 60_000 }, onTimeout);
+
+    vi.advanceTimersByTime(59_999);
+    expect(orchestrator.stopTask).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(onTimeout).toHaveBeenCalledWith('Task timed out after 1m (wall-clock timeout)');
+    expect(orchestrator.stopTask).toHaveBeenCalledWith('task-a');
+    expect(orchestrator.killTask).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    expect(orchestrator.killTask).toHaveBeenCalledWith('task-a');
+  });
+
+  it('should reset the idle limit on output from the watched task only', () => {
+    watchdog.watch('task-a', { idle: 30_000 }, onTimeout);
+
+    vi.advanceTimersByTime(20_000);
+    emitOutput('task-a');
+    vi.advanceTimersByTime(20_000);
+    expect(onTimeout).not.toHaveBeenCalled();
+
+    emitOutput('task-b');
+    vi.advanceTimersByTime(10_000);
+    expect(onTimeout).toHaveBeenCalledWith(
+      'Task timed out: no agent activity for 30s (idle timeout)',
+    );
+    expect(orchestrator.stopTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop watching once the attempt settles', () => {
+    const unwatch = watchdog.watch('task-a', { idle: 30_000, wallClock: 60_000 }, onTimeout);
+
+    unwatch();
+    vi.advanceTimersByTime(60_000);
+
+    expect(onTimeout).not.toHaveBeenCalled();
+    expect(orchestrator.listenerCount('taskUpdate')).toBe(0);
+  });
+});
@@ -0,0 +1,116 @@
+import { readFile, writeFile } from 'node:fs/promises';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ExecutionResult } from '@/core/execution/interfaces';
+import type { TaskUsage } from '@/core/execution/types';
+import type { PlanV2, TaskV2 } from '@/types/schemas-v2';
+
+import {
+  estimatePlanUsage,
+  type UsageHistory,
+  UsageHistoryServiceImpl,
+} from '../usage-history-service';
+
+const createTask = (id: string, complexity: TaskV2['complexity']): TaskV2 => ({
+  id,
+  name: id,
+  complexity,
+  description: `Description for ${id}`,
+  files: [`src/${id}.ts`],
+  acceptanceCriteria: [],
+  dependencies: [],
+});
+
+const usage = (inputTokens: number, costUsd: number): TaskUsage => ({
+  inputTokens,
+  outputTokens: 0,
+  cacheCreationInputTokens: 0,
+  cacheReadInputTokens: 0,
+  costUsd,
+});
+
+const plan: PlanV2 = {
+  name: 'Theme',
+  strategy: 'parallel',
+  tasks: [createTask('types', 'S'), createTask('provider', 'M'), createTask('docs', 'XS')],
+};
+
+describe('UsageHistoryServiceImpl', () => {
+  let service: UsageHistoryServiceImpl;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new UsageHistoryServiceImpl();
+  });
+
+  it('should start from an empty history when none was recorded', async () => {
+    vi.mocked(readFile).mockRejectedValue(new Error('ENOENT'));
+
+    expect((await service.load('/repo')).sizes).toEqual({});
+  });
+
+  it('should add executed tasks with usage to their complexity size', async () => {
+    vi.mocked(readFile).mockResolvedValue(
+      JSON.stringify({
+        version: 1,
+        updatedAt: '2025-01-01T00:00:00Z',
+        sizes: { S: { taskCount: 1, costUsd: 0.2, tokens: 1000 } },
+      }) as never,
+    );
+    const result: ExecutionResult = {
+      tasks: [
+        { taskId: 'types', status: 'success', duration: 10, usage: usage(3000, 0.4) },
+        { taskId: 'provider', status: 'failure', duration: 10, usage: usage(5000, 0.9) },
+        { taskId: 'docs', status: 'skipped', duration: 0 },
+      ],
+      totalDuration: 20,
+      branches: [],
+      commits: [],
+    };
+
+    await service.record('/repo', plan, result);
+
+    expect(writeFile).toHaveBeenCalledWith('/repo/.chopstack/usage/.gitignore', '*\n', 'utf8');
+    const written = vi
+      .mocked(writeFile)
+      .mock.calls.find(([path]) => path === '/repo/.chopstack/usage/history.json');
+    const history = JSON.parse(written?.[1] as string) as UsageHistory;
+    expect(history.sizes.S).toEqual({ taskCount: 2, costUsd: expect.closeTo(0.6), tokens: 4000 });
+    expect(history.sizes.M).toEqual({ taskCount: 1, costUsd: 0.9, tokens: 5000 });
+    expect(history.sizes.XS).toBeUndefined();
+  });
+
+  it('should not write anything when no task reported usage', async () => {
+    vi.mocked(readFile).mockRejectedValue(new Error('ENOENT'));
+
+    await service.record('/repo', plan, {
+      tasks: [{ taskId: 'types', status: 'success', duration: 10 }],
+      totalDuration: 10,
+      branches: [],
+      commits: [],
+    });
+
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('estimatePlanUsage', () => {
+  it('should sum the average usage per size and name sizes without history', () => {
+    const estimate = estimatePlanUsage(plan, {
+      version: 1,
+      updatedAt: new Date(),
+      sizes: {
+        S: { taskCount: 2, costUsd: 0.6, tokens: 4000 },
+        M: { taskCount: 4, costUsd: 4, tokens: 40_000 },
+      },
+    });
+
+    expect(estimate).toEqual({
+      costUsd: expect.closeTo(1.3),
+      estimatedTaskCount: 2,
+      tokens: 12_000,
+      unknownSizes: ['XS'],
+    });
+  });
+});
@@ -3,6 +3,7 @@
  * This enables dependency injection from configuration files
  */
 
+import type { ConflictResolutionStrategy } from '@/core/vcs/domain-services';
 import type { VcsEngineService } from '@/core/vcs/interfaces';
 
 import {
@@ -123,7 +124,7 @@ export function loadEngineConfigFromEnv(): EngineConfiguration {
           cleanupOnFailure: process.env.CHOPSTACK_CLEANUP_ON_FAILURE === 'true',
         }),
         ...(isNonEmptyString(process.env.CHOPSTACK_CONFLICT_STRATEGY) && {
-          conflictStrategy: process.env.CHOPSTACK_CONFLICT_STRATEGY as 'auto' | 'manual' | 'fail',
+          conflictStrategy: process.env.CHOPSTACK_CONFLICT_STRATEGY as ConflictResolutionStrategy,
         }),
       },
     };
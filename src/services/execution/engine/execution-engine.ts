@@ -7,6 +7,7 @@ import type { ExecutionOrchestrator } from '@/services/execution/execution-orche
 import type { ExecutionPlannerService } from '@/services/execution/execution-planner-service';
 import type { PlanV2 } from '@/types/schemas-v2';
 
+import { formatUsage } from '@/core/execution/task-usage';
 import { logger } from '@/utils/global-logger';
 
 import type { StateManager } from './state-manager';
@@ -105,6 +106,9 @@ export class ExecutionEngine extends EventEmitter {
       logger.info(
         `📊 Duration: ${result.totalDuration}ms, Tasks: ${result.tasks.length} processed`,
       );
+      if (result.usage !== undefined) {
+        logger.info(`💰 Usage: ${formatUsage(result.usage)}`);
+      }
 
       return result;
     } catch (error) {
@@ -114,6 +118,20 @@ export class ExecutionEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Interrupt the running execution, stopping its running tasks with the reason
+   */
+  interrupt(reason: string): string[] {
+    return this.executionOrchestrator.interrupt(reason);
+  }
+
+  /**
+   * Force-kill stopped tasks whose agent process is still running
+   */
+  killStoppedTasks(): string[] {
+    return this.executionOrchestrator.killStoppedTasks();
+  }
+
   cancelExecution(planId: string): boolean {
     this.activePlans.delete(planId);
     this.monitorService.stopMonitoring(planId);
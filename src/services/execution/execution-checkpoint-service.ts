@@ -0,0 +1,80 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { type ExecutionCheckpoint, ExecutionCheckpointSchema } from '@/core/execution/types';
+import { logger } from '@/utils/global-logger';
+
+/**
+ * Configuration for the execution checkpoint service
+ */
+export type ExecutionCheckpointConfig = {
+  checkpointDir?: string;
+  fileName?: string;
+};
+
+/**
+ * Persists execution state so interrupted runs can be resumed
+ */
+export type ExecutionCheckpointService = {
+  /**
+   * Absolute path of the checkpoint file for a working directory
+   */
+  getCheckpointPath(cwd: string): string;
+
+  /**
+   * Load the checkpoint for a working directory, or null when none exists
+   */
+  load(cwd: string): Promise<ExecutionCheckpoint | null>;
+
+  /**
+   * Write the checkpoint for a working directory, replacing any previous one
+   */
+  save(cwd: string, checkpoint: ExecutionCheckpoint): Promise<void>;
+};
+
+/**
+ * File-backed checkpoint storage under `.chopstack/executions/`
+ */
+export class ExecutionCheckpointServiceImpl implements ExecutionCheckpointService {
+  private readonly config: Required<ExecutionCheckpointConfig>;
+
+  constructor(config: ExecutionCheckpointConfig = {}) {
+    this.config = {
+      checkpointDir: join('.chopstack', 'executions'),
+      fileName: 'checkpoint.json',
+      ...config,
+    };
+  }
+
+  getCheckpointPath(cwd: string): string {
+    return join(cwd, this.config.checkpointDir, this.config.fileName);
+  }
+
+  async load(cwd: string): Promise<ExecutionCheckpoint | null> {
+    const checkpointPath = this.getCheckpointPath(cwd);
+
+    let content: string;
+    try {
+      content = await readFile(checkpointPath, 'utf8');
+    } catch {
+      logger.debug(`No execution checkpoint found at ${checkpointPath}`);
+      return null;
+    }
+
+    try {
+      return ExecutionCheckpointSchema.parse(JSON.parse(content));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid execution checkpoint at ${checkpointPath}: ${message}`);
+    }
+  }
+
+  async save(cwd: string, checkpoint: ExecutionCheckpoint): Promise<void> {
+    const directory = join(cwd, this.config.checkpointDir);
+    await mkdir(directory, { recursive: true });
+
+    // Keep checkpoints out of task commits even when the target repo does not ignore .chopstack/
+    await writeFile(join(directory, '.gitignore'), '*\n', 'utf8');
+    await writeFile(this.getCheckpointPath(cwd), JSON.stringify(checkpoint, null, 2), 'utf8');
+  }
+}
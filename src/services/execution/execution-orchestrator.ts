@@ -11,15 +11,19 @@ import type {
   TaskResult,
   ValidateModeHandler,
 } from '@/core/execution/interfaces';
-import type { ExecutionMode, ExecutionOptions } from '@/core/execution/types';
+import type { ExecutionMode, ExecutionOptions, TaskUsage } from '@/core/execution/types';
 import type { VcsEngineService } from '@/core/vcs/interfaces';
+import type { ExecutionCheckpointService } from '@/services/execution/execution-checkpoint-service';
+import type { TaskVerificationService } from '@/services/execution/task-verification-service';
 import type { StreamingUpdate, TaskOrchestrator } from '@/services/orchestration';
 import type { PlanV2 } from '@/types/schemas-v2';
 import type { ValidationResult } from '@/validation/dag-validator';
 
 import { TaskTransitionManager } from '@/core/execution/task-transitions';
+import { ExecutionCheckpointServiceImpl } from '@/services/execution/execution-checkpoint-service';
 import { VcsStrategyFactory } from '@/services/vcs/strategies/vcs-strategy-factory';
 import { logger } from '@/utils/global-logger';
+import { isNonEmptyString } from '@/validation/guards';
 
 import { ExecuteModeHandlerImpl } from './modes/execute-mode-handler';
 import { PlanModeHandlerImpl } from './modes/plan-mode-handler';
@@ -29,8 +33,10 @@ import { ValidateModeHandlerImpl } from './modes/validate-mode-handler';
  * Dependencies for the execution orchestrator
  */
 export type ExecutionOrchestratorDependencies = {
+  checkpointService?: ExecutionCheckpointService;
   taskOrchestrator: TaskOrchestrator;
   vcsEngine: VcsEngineService;
+  verificationService?: TaskVerificationService;
 };
 
 /**
@@ -39,10 +45,17 @@ export type ExecutionOrchestratorDependencies = {
 export type ExecutionOrchestratorEvents = {
   executionComplete: ExecutionResult;
   executionError: Error;
+  executionInterrupted: { reason: string };
   executionStart: { options: ExecutionOptions; plan: PlanV2 };
+  schedulingPaused: { paused: boolean };
   taskComplete: TaskResult;
   taskError: { error: Error; taskId: string };
+  taskFiles: { files: string[]; taskId: string };
+  taskQueued: { taskId: string };
+  taskRetry: { taskId: string };
+  taskSkipped: { reason: string; taskId: string };
   taskStart: { taskId: string };
+  taskUsage: { taskId: string; usage: TaskUsage };
 };
 
 /**
@@ -70,6 +83,8 @@ export class ExecutionOrchestrator extends EventEmitter {
       dependencies.taskOrchestrator,
       vcsStrategyFactory,
       this.taskTransitionManager,
+      dependencies.checkpointService ?? new ExecutionCheckpointServiceImpl(),
+      dependencies.verificationService,
     );
     this.validateModeHandler = new ValidateModeHandlerImpl();
 
@@ -78,9 +93,17 @@ export class ExecutionOrchestrator extends EventEmitter {
       // Map taskUpdate events to appropriate UI events
       switch (update.type) {
         case 'status': {
+          if (update.data === 'queued') {
+            this.emit('taskQueued', { taskId: update.taskId });
+            break;
+          }
           if (update.data === 'running') {
             this.emit('taskStart', { taskId: update.taskId });
-          } else if (update.data === 'completed' || update.data === 'failed') {
+          } else if (
+            update.data === 'completed' ||
+            update.data === 'failed' ||
+            update.data === 'stopped'
+          ) {
             // Create a result object that matches what the UI expects
             const result = {
               taskId: update.taskId,
@@ -102,6 +125,17 @@ export class ExecutionOrchestrator extends EventEmitter {
           this.emit('stderr', { taskId: update.taskId, data: update.data });
           break;
         }
+        case 'files': {
+          this.emit('taskFiles', { taskId: update.taskId, files: update.data.split('\n') });
+          break;
+        }
+        case 'usage': {
+          this.emit('taskUsage', {
+            taskId: update.taskId,
+            usage: JSON.parse(update.data) as TaskUsage,
+          });
+          break;
+        }
         // No default
       }
     });
@@ -111,7 +145,7 @@ export class ExecutionOrchestrator extends EventEmitter {
    * Execute a plan with the specified mode
    */
   async execute(plan: PlanV2, options: ExecutionOptions): Promise<ExecutionResult> {
-    const context = this._createExecutionContext(options);
+    const context = this._createExecutionContext(options, plan);
 
     try {
       this.emit('executionStart', { plan, options });
@@ -128,6 +162,63 @@ export class ExecutionOrchestrator extends EventEmitter {
     }
   }
 
+  /**
+   * Stop a running task (execute mode). The task fails and is not retried automatically.
+   */
+  stopTask(taskId: string): boolean {
+    return this.executeModeHandler.stopTask(taskId);
+  }
+
+  /**
+   * Interrupt the run (execute mode): nothing new starts, running tasks are stopped and
+   * fail with the reason, and the remaining tasks are skipped
+   */
+  interrupt(reason: string): string[] {
+    const stopped = this.executeModeHandler.interrupt(reason);
+    this.emit('executionInterrupted', { reason });
+    return stopped;
+  }
+
+  /**
+   * Force-kill stopped tasks whose agent process ignored the stop request
+   */
+  killStoppedTasks(): string[] {
+    return this.executeModeHandler.killStoppedTasks();
+  }
+
+  /**
+   * Retry a failed task while the run is still going (e.g. with continueOnError)
+   */
+  retryTask(taskId: string): boolean {
+    const requeued = this.executeModeHandler.retryTask(taskId);
+    for (const id of requeued) {
+      this.emit('taskRetry', { taskId: id });
+    }
+    return requeued.length > 0;
+  }
+
+  /**
+   * Skip a task that has not started; its dependents are skipped too
+   */
+  skipTask(taskId: string): boolean {
+    const skipped = this.executeModeHandler.skipTask(taskId);
+    for (const id of skipped) {
+      this.emit('taskSkipped', {
+        taskId: id,
+        reason: id === taskId ? 'Skipped by user' : `Skipped because ${taskId} was skipped`,
+      });
+    }
+    return skipped.length > 0;
+  }
+
+  /**
+   * Pause or resume starting new tasks; running tasks are left to finish
+   */
+  setSchedulingPaused(paused: boolean): void {
+    this.executeModeHandler.setSchedulingPaused(paused);
+    this.emit('schedulingPaused', { paused });
+  }
+
   /**
    * Execute plan with specific mode handler
    */
@@ -144,10 +235,7 @@ export class ExecutionOrchestrator extends EventEmitter {
       .with('execute', async () => {
         return this.executeModeHandler.handle(plan.tasks, context);
       })
-      .with('validate', async () => {
-        const validationResult = await this.validateModeHandler.handle(plan);
-        return this._convertValidationResult(validationResult);
-      })
+      .with('validate', () => this._convertValidationResult(this.validateModeHandler.handle(plan)))
       .with('dry-run', async () => {
         // For dry-run, simulate plan mode
         const planResult = await this.planModeHandler.handle(plan.tasks, context);
@@ -159,18 +247,45 @@ export class ExecutionOrchestrator extends EventEmitter {
   /**
    * Create execution context from options
    */
-  private _createExecutionContext(options: ExecutionOptions): ExecutionContext {
+  private _createExecutionContext(options: ExecutionOptions, plan: PlanV2): ExecutionContext {
     return {
       agentType: options.agent ?? 'claude',
       continueOnError: options.continueOnError ?? false,
       cwd: options.workdir ?? process.cwd(),
+      ...(options.branchGranularity !== undefined && {
+        branchGranularity: options.branchGranularity,
+      }),
       dryRun: options.dryRun ?? false,
-      maxRetries: 3,
+      ...(options.idleTimeout !== undefined && { idleTimeout: options.idleTimeout }),
+      ...(options.keepWorktrees !== undefined && { keepWorktrees: options.keepWorktrees }),
+      maxRetries: options.retryAttempts ?? 3,
       ...(options.permissiveValidation !== undefined && {
         permissiveValidation: options.permissiveValidation,
       }),
+      ...(plan.phases !== undefined && plan.phases.length > 0 && { phases: plan.phases }),
+      planName: plan.name,
+      ...((options.resume === true || isNonEmptyString(options.resumeFrom)) && { resume: true }),
+      ...(isNonEmptyString(options.resumeFrom) && { resumeFrom: options.resumeFrom }),
+      ...(isNonEmptyString(options.specContent) && {
+        specContext: {
+          specContent: options.specContent,
+          planMetadata: {
+            name: plan.name,
+            ...(plan.description !== undefined && { description: plan.description }),
+            ...(plan.successMetrics !== undefined && { successMetrics: plan.successMetrics }),
+          },
+        },
+      }),
+      ...(options.maxCost !== undefined && { maxCost: options.maxCost }),
+      ...(options.maxParallel !== undefined && { maxParallel: options.maxParallel }),
+      ...(options.maxTokens !== undefined && { maxTokens: options.maxTokens }),
+      ...(options.sizeTimeouts !== undefined && { sizeTimeouts: options.sizeTimeouts }),
+      ...(options.specTokenBudget !== undefined && { specTokenBudget: options.specTokenBudget }),
+      ...(options.stackShape !== undefined && { stackShape: options.stackShape }),
+      ...(options.timeout !== undefined && { timeout: options.timeout }),
       vcsMode: options.vcsMode,
       verbose: options.verbose ?? false,
+      ...(plan.verify !== undefined && plan.verify.length > 0 && { verify: plan.verify }),
     };
   }
 
@@ -15,6 +15,12 @@ export {
 export type { ExecutionEngineFactoryConfig } from './engine/execution-engine-factory';
 export { StateManager } from './engine/state-manager';
 
+export {
+  type ExecutionCheckpointConfig,
+  type ExecutionCheckpointService,
+  ExecutionCheckpointServiceImpl,
+} from './execution-checkpoint-service';
+
 export {
   ExecutionMonitorServiceImpl,
   type ExecutionMonitorService,
@@ -28,3 +34,34 @@ export {
   ExecutionPlannerServiceImpl,
   type ExecutionPlannerService,
 } from './execution-planner-service';
+export {
+  buildRunReport,
+  calculateRunMetrics,
+  formatJUnitReport,
+  type RunReportConfig,
+  type RunReportInput,
+  type RunReportService,
+  RunReportServiceImpl,
+} from './run-report-service';
+export {
+  ShutdownCoordinator,
+  type ShutdownCoordinatorConfig,
+  type ShutdownSignal,
+  type ShutdownTarget,
+} from './shutdown-coordinator';
+export {
+  type TaskVerificationConfig,
+  type TaskVerificationService,
+  TaskVerificationServiceImpl,
+  VERIFICATION_OUTPUT_LIMIT,
+} from './task-verification-service';
+export { TaskWatchdog, type TaskWatchdogConfig } from './task-watchdog';
+export {
+  estimatePlanUsage,
+  type UsageEstimate,
+  type UsageHistory,
+  type UsageHistoryConfig,
+  type UsageHistoryService,
+  UsageHistoryServiceImpl,
+  type UsageSample,
+} from './usage-history-service';
@@ -12,6 +12,7 @@ describe('ExecuteModeHandlerImpl base ref selection', () => {
   it('defaults to configured parent ref when none is provided', async () => {
     const mockOrchestrator: TaskOrchestrator = {
       executeTask: vi.fn(),
+      getTaskUsage: vi.fn(),
     } as unknown as TaskOrchestrator;
 
     let capturedContext: VcsStrategyContext | null = null;
@@ -71,6 +71,7 @@ describe('ExecuteModeHandlerImpl Integration Tests', () => {
             };
           },
         ),
+      getTaskUsage: vi.fn(),
     } as unknown as TaskOrchestrator;
 
     mockVcsEngine = {
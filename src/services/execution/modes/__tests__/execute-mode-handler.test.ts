@@ -2,13 +2,37 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import type { ExecutionContext } from '@/core/execution/interfaces';
 import type { TaskTransitionManager } from '@/core/execution/task-transitions';
-import type { VcsStrategy, VcsStrategyContext } from '@/core/vcs/vcs-strategy';
-import type { TaskOrchestrator } from '@/services/orchestration';
+import type {
+  ExecutionCheckpoint,
+  ExecutionTask,
+  TaskState,
+  TaskStateTransition,
+  VerificationResult,
+} from '@/core/execution/types';
+import type { VcsEngineService } from '@/core/vcs/interfaces';
+import type { VcsStrategy, VcsStrategyContext, WorktreeContext } from '@/core/vcs/vcs-strategy';
+import type { ExecutionCheckpointService } from '@/services/execution/execution-checkpoint-service';
+import type { TaskVerificationService } from '@/services/execution/task-verification-service';
+import type { StreamingUpdate, TaskOrchestrator } from '@/services/orchestration';
 import type { VcsStrategyFactory } from '@/services/vcs/strategies/vcs-strategy-factory';
 import type { TaskV2 } from '@/types/schemas-v2';
 
+import { WorktreeVcsStrategy } from '@/services/vcs/strategies/worktree-vcs-strategy';
+
 import { ExecuteModeHandlerImpl } from '../execute-mode-handler';
 
+const { mockGitRaw } = vi.hoisted(() => ({ mockGitRaw: vi.fn() }));
+
+vi.mock('@/adapters/vcs/git-wrapper', () => ({
+  GitWrapper: vi.fn().mockImplementation(() => ({ raw: mockGitRaw })),
+}));
+
+vi.mock('@/services/vcs/commit-service', () => ({
+  CommitServiceImpl: vi.fn().mockImplementation(() => ({
+    commitChanges: vi.fn().mockResolvedValue('abc1234'),
+  })),
+}));
+
 describe('ExecuteModeHandlerImpl', () => {
   let mockOrchestrator: TaskOrchestrator;
   let mockVcsStrategyFactory: VcsStrategyFactory;
@@ -20,6 +44,7 @@ describe('ExecuteModeHandlerImpl', () => {
   beforeEach(() => {
     mockOrchestrator = {
       executeTask: vi.fn(),
+      getTaskUsage: vi.fn(),
     } as unknown as TaskOrchestrator;
 
     mockVcsStrategy = {
@@ -47,6 +72,7 @@ describe('ExecuteModeHandlerImpl', () => {
       failTask: vi.fn(),
       skipTask: vi.fn(),
       allTasksComplete: vi.fn(),
+      isSchedulingPaused: vi.fn().mockReturnValue(false),
       getStatistics: vi.fn().mockReturnValue({
         pending: 0,
         ready: 0,
@@ -192,9 +218,60 @@ describe('ExecuteModeHandlerImpl', () => {
         'execute',
         'claude',
         undefined, // forbidden files
+        undefined, // spec context
       );
     });
 
+    it('should pass the spec context trimmed to the token budget', async () => {
+      const task: TaskV2 = {
+        id: 'task-spec',
+        name: 'Add billing webhook',
+        complexity: 'M',
+        description: 'Handle billing webhook events',
+        files: ['src/billing/webhook.ts'],
+        acceptanceCriteria: [],
+        dependencies: [],
+      };
+      const specContent = [
+        '# Payments',
+        'Overview of the payments feature.',
+        '## Billing',
+        `Billing webhook requirements. ${'b'.repeat(200)}`,
+        '## Reporting',
+        `Unrelated reporting details. ${'r'.repeat(200)}`,
+      ].join('\n');
+
+      vi.mocked(mockTransitionManager.allTasksComplete)
+        .mockReturnValueOnce(false)
+        .mockReturnValue(true);
+      vi.mocked(mockTransitionManager.getExecutableTasks).mockReturnValue(['task-spec']);
+      vi.mocked(mockOrchestrator.executeTask).mockResolvedValue({
+        status: 'completed',
+        output: 'Done',
+        mode: 'execute',
+        taskId: 'task-spec',
+      });
+
+      await handler.handle([task], {
+        ...mockContext,
+        specContext: {
+          specContent,
+          planMetadata: {
+            name: 'Payments',
+            successMetrics: { quantitative: ['Webhook p95 < 200ms'], qualitative: [] },
+          },
+        },
+        specTokenBudget: 80,
+      });
+
+      const specContext = vi.mocked(mockOrchestrator.executeTask).mock.calls[0]?.[8];
+      expect(specContext?.planMetadata.successMetrics?.quantitative).toEqual([
+        'Webhook p95 < 200ms',
+      ]);
+      expect(specContext?.specContent).toContain('Billing webhook requirements');
+      expect(specContext?.specContent).not.toContain('Unrelated reporting details');
+    });
+
     it('should handle task failure and mark as failed', async () => {
       const task: TaskV2 = {
         id: 'task-fail',
@@ -227,6 +304,32 @@ describe('ExecuteModeHandlerImpl', () => {
       );
     });
 
+    it('should keep the task error when its usage cannot be read', async () => {
+      const task: TaskV2 = {
+        id: 'task-crash',
+        name: 'Crashing task',
+        complexity: 'S',
+        description: 'Agent process crashes',
+        files: ['src/crash.ts'],
+        acceptanceCriteria: [],
+        dependencies: [],
+      };
+
+      vi.mocked(mockTransitionManager.allTasksComplete)
+        .mockReturnValueOnce(false)
+        .mockReturnValue(true);
+      vi.mocked(mockTransitionManager.getExecutableTasks).mockReturnValue(['task-crash']);
+      vi.mocked(mockOrchestrator.executeTask).mockRejectedValue(new Error('Agent crashed'));
+      vi.mocked(mockOrchestrator.getTaskUsage).mockImplementation(() => {
+        throw new Error('Usage unavailable');
+      });
+
+      const result = await handler.handle([task], mockContext);
+
+      expect(result.tasks[0]).toMatchObject({ status: 'failure', error: 'Agent crashed' });
+      expect(result.tasks[0]?.usage).toBeUndefined();
+    });
+
     it('should handle multiple tasks in parallel', async () => {
       const tasks: TaskV2[] = [
         {
@@ -411,6 +514,451 @@ describe('ExecuteModeHandlerImpl', () => {
     });
   });
 
+  describe('bounded concurrency', () => {
+    const createTask = (id: string, complexity: TaskV2['complexity']): TaskV2 => ({
+      id,
+      name: `Task ${id}`,
+      complexity,
+      description: `Description for ${id}`,
+      files: [`src/${id}.ts`],
+      acceptanceCriteria: [],
+      dependencies: [],
+    });
+
+    const tasks = [createTask('task-a', 'S'), createTask('task-b', 'L'), createTask('task-c', 'S')];
+
+    let started: string[];
+    let maxRunning: number;
+
+    beforeEach(() => {
+      started = [];
+      maxRunning = 0;
+      let running = 0;
+
+      mockOrchestrator.queueTask = vi.fn();
+      vi.mocked(mockTransitionManager.allTasksComplete)
+        .mockReturnValueOnce(false)
+        .mockReturnValue(true);
+      vi.mocked(mockTransitionManager.getExecutableTasks).mockReturnValue([
+        'task-a',
+        'task-b',
+        'task-c',
+      ]);
+      vi.mocked(mockOrchestrator.executeTask).mockImplementation(async (taskId) => {
+        started.push(taskId);
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => global.setTimeout(resolve, 5));
+        running--;
+        return { status: 'completed', output: 'Done', mode: 'execute', taskId };
+      });
+    });
+
+    it('should run at most maxParallel tasks at once, critical path first', async () => {
+      const result = await handler.handle(tasks, { ...mockContext, maxParallel: 1 });
+
+      expect(result.tasks.map((task) => task.taskId)).toEqual(['task-a', 'task-b', 'task-c']);
+      expect(maxRunning).toBe(1);
+      expect(started).toEqual(['task-b', 'task-a', 'task-c']);
+      expect(mockTransitionManager.transitionTask).toHaveBeenCalledWith(
+        'task-c',
+        'queued',
+        'Waiting for execution slot',
+      );
+      expect(mockOrchestrator.queueTask).toHaveBeenCalledTimes(2);
+    });
+
+    it('should start every executable task when unbounded', async () => {
+      await handler.handle(tasks, mockContext);
+
+      expect(maxRunning).toBe(3);
+      expect(mockOrchestrator.queueTask).not.toHaveBeenCalled();
+    });
+
+    it('should hold at most maxParallel worktrees at once', async () => {
+      const liveWorktrees = new Set<string>();
+      let maxWorktrees = 0;
+      const vcsEngine = {
+        initialize: vi.fn().mockResolvedValue(undefined),
+        createWorktreesForTasks: vi
+          .fn()
+          .mockImplementation(async (worktreeTasks: ExecutionTask[]) => {
+            await Promise.resolve();
+            for (const task of worktreeTasks) {
+              liveWorktrees.add(task.id);
+            }
+            maxWorktrees = Math.max(maxWorktrees, liveWorktrees.size);
+            return worktreeTasks.map((task) => ({
+              taskId: task.id,
+              branchName: `chopstack/${task.id}`,
+              baseRef: 'main',
+              absolutePath: `/test/dir/.chopstack/shadows/${task.id}`,
+              worktreePath: `.chopstack/shadows/${task.id}`,
+              created: new Date(),
+            }));
+          }),
+        cleanupWorktrees: vi.fn().mockImplementation(async (contexts: WorktreeContext[]) => {
+          await Promise.resolve();
+          for (const context of contexts) {
+            liveWorktrees.delete(context.taskId);
+          }
+        }),
+      } as unknown as VcsEngineService;
+      vi.mocked(mockVcsStrategyFactory.create).mockReturnValue(new WorktreeVcsStrategy(vcsEngine));
+
+      const result = await handler.handle(tasks, {
+        ...mockContext,
+        vcsMode: 'worktree',
+        maxParallel: 2,
+      });
+
+      expect(result.tasks.every((task) => task.status === 'success')).toBe(true);
+      expect(vcsEngine.createWorktreesForTasks).toHaveBeenCalledTimes(3);
+      expect(maxWorktrees).toBe(2);
+      expect(liveWorktrees.size).toBe(0);
+    });
+
+    it('should not start waiting tasks after a failure without continueOnError', async () => {
+      vi.mocked(mockOrchestrator.executeTask).mockImplementation(async (taskId) => {
+        started.push(taskId);
+        await new Promise((resolve) => global.setTimeout(resolve, 5));
+        return { status: 'failed', error: 'boom', mode: 'execute', taskId };
+      });
+
+      const result = await handler.handle(tasks, { ...mockContext, maxParallel: 1 });
+
+      expect(started).toEqual(['task-b']);
+      expect(result.tasks).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ taskId: 'task-a', status: 'skipped' }),
+          expect.objectContaining({ taskId: 'task-c', status: 'skipped' }),
+        ]),
+      );
+    });
+  });
+
+  describe('task controls', () => {
+    const createTask = (id: string): TaskV2 => ({
+      id,
+      name: `Task ${id}`,
+      complexity: 'S',
+      description: `Description for ${id}`,
+      files: [`src/${id}.ts`],
+      acceptanceCriteria: [],
+      dependencies: [],
+    });
+
+    beforeEach(() => {
+      vi.mocked(mockTransitionManager.allTasksComplete)
+        .mockReturnValueOnce(false)
+        .mockReturnValue(true);
+    });
+
+    it('should fail a stopped task without retrying it', async () => {
+      mockOrchestrator.stopTask = vi.fn().mockReturnValue(true);
+      vi.mocked(mockTransitionManager.getTaskState).mockReturnValue('running');
+      vi.mocked(mockTransitionManager.getExecutableTasks).mockReturnValue(['task-a']);
+      vi.mocked(mockOrchestrator.executeTask).mockImplementation(async (taskId) => {
+        expect(handler.stopTask(taskId)).toBe(true);
+        await Promise.reject(new Error('Process exited with code null'));
+        return { status: 'completed', mode: 'execute', taskId };
+      });
+
+      const result = await handler.handle([createTask('task-a')], {
+        ...mockContext,
+        maxRetries: 2,
+      });
+
+      expect(mockOrchestrator.stopTask).toHaveBeenCalledWith('task-a');
+      expect(mockOrchestrator.executeTask).toHaveBeenCalledTimes(1);
+      expect(result.tasks[0]).toMatchObject({
+        taskId: 'task-a',
+        status: 'failure',
+        error: 'Task stopped by user',
+      });
+    });
+
+    it('should not start queued tasks the user skipped', async () => {
+      mockOrchestrator.queueTask = vi.fn();
+      vi.mocked(mockTransitionManager.getExecutableTasks).mockReturnValue(['task-a', 'task-b']);
+      vi.mocked(mockTransitionManager.getTaskState).mockImplementation((taskId) =>
+        taskId === 'task-b' ? 'skipped' : 'ready',
+      );
+      vi.mocked(mockOrchestrator.executeTask).mockResolvedValue({
+        status: 'completed',
+        output: 'Done',
+        mode: 'execute',
+        taskId: 'task-a',
+      });
+
+      const result = await handler.handle([createTask('task-a'), createTask('task-b')], {
+        ...mockContext,
+        maxParallel: 1,
+      });
+
+      expect(mockOrchestrator.executeTask).toHaveBeenCalledTimes(1);
+      expect(result.tasks).toContainEqual(
+        expect.objectContaining({ taskId: 'task-b', status: 'skipped', error: 'Skipped by user' }),
+      );
+    });
+  });
+
+  describe('run budget', () => {
+    it('should stop running tasks and skip the rest once the budget is exceeded', async () => {
+      const createTask = (id: string): TaskV2 => ({
+        id,
+        name: `Task ${id}`,
+        complexity: 'S',
+        description: `Description for ${id}`,
+        files: [`src/${id}.ts`],
+        acceptanceCriteria: [],
+        dependencies: [],
+      });
+      const listeners: Array<(update: StreamingUpdate) => void> = [];
+      let taskAState: TaskState = 'running';
+      mockOrchestrator.on = vi.fn((_event: string, listener: (update: StreamingUpdate) => void) => {
+        listeners.push(listener);
+        return mockOrchestrator;
+      });
+      mockOrchestrator.off = vi.fn().mockReturnValue(mockOrchestrator);
+      mockOrchestrator.stopTask = vi.fn().mockReturnValue(true);
+      mockOrchestrator.getTotalUsage = vi.fn().mockReturnValue({
+        inputTokens: 1000,
+        outputTokens: 500,
+        cacheCreationInputTokens: 0,
+        cacheReadInputTokens: 0,
+        costUsd: 2,
+      });
+      vi.mocked(mockTransitionManager.allTasksComplete).mockReturnValue(false);
+      vi.mocked(mockTransitionManager.getExecutableTasks).mockReturnValue(['task-a']);
+      vi.mocked(mockTransitionManager.getTaskState).mockImplementation((taskId) =>
+        taskId === 'task-a' ? taskAState : 'pending',
+      );
+      vi.mocked(mockOrchestrator.executeTask).mockImplementation(async (taskId) => {
+        await Promise.resolve();
+        for (const listener of listeners) {
+          listener({ taskId, type: 'usage', data: '{}', timestamp: new Date() });
+        }
+        taskAState = 'failed';
+        throw new Error('Process exited with code null');
+      });
+
+      const result = await handler.handle([createTask('task-a'), createTask('task-b')], {
+        ...mockContext,
+        continueOnError: true,
+        maxCost: 1,
+        maxRetries: 2,
+      });
+
+      expect(mockOrchestrator.stopTask).toHaveBeenCalledWith('task-a');
+      expect(mockOrchestrator.executeTask).toHaveBeenCalledTimes(1);
+      expect(mockOrchestrator.off).toHaveBeenCalledWith('taskUpdate', listeners[0]);
+      expect(result.tasks).toEqual([
+        expect.objectContaining({
+          taskId: 'task-a',
+          status: 'failure',
+          error: 'Task stopped: run budget exceeded (cost $2.00 exceeds --max-cost $1.00)',
+        }),
+        expect.objectContaining({
+          taskId: 'task-b',
+          status: 'skipped',
+          error: 'Run budget exceeded: cost $2.00 exceeds --max-cost $1.00',
+        }),
+      ]);
+    });
+  });
+
+  describe('interrupt', () => {
+    const createTask = (id: string): TaskV2 => ({
+      id,
+      name: `Task ${id}`,
+      complexity: 'S',
+      description: `Description for ${id}`,
+      files: [`src/${id}.ts`],
+      acceptanceCriteria: [],
+      dependencies: [],
+    });
+    let mockCheckpointService: ExecutionCheckpointService;
+    let taskAState: TaskState;
+
+    beforeEach(() => {
+      mockCheckpointService = {
+        getCheckpointPath: vi.fn(),
+        load: vi.fn(),
+        save: vi.fn().mockResolvedValue(undefined),
+      };
+      handler = new ExecuteModeHandlerImpl(
+        mockOrchestrator,
+        mockVcsStrategyFactory,
+        mockTransitionManager,
+        mockCheckpointService,
+      );
+
+      taskAState = 'running';
+      mockOrchestrator.stopTask = vi.fn().mockReturnValue(true);
+      mockOrchestrator.killTask = vi.fn().mockReturnValue(true);
+      vi.mocked(mockTransitionManager.allTasksComplete).mockReturnValue(false);
+      vi.mocked(mockTransitionManager.getExecutableTasks).mockReturnValue(['task-a']);
+      vi.mocked(mockTransitionManager.getTaskState).mockImplementation((taskId) =>
+        taskId === 'task-a' ? taskAState : 'pending',
+      );
+      vi.mocked(mockOrchestrator.executeTask).mockImplementation(async () => {
+        await Promise.resolve();
+        handler.interrupt('SIGINT');
+        expect(handler.killStoppedTasks()).toEqual(['task-a']);
+        taskAState = 'failed';
+        throw new Error('Process exited with code null');
+      });
+    });
+
+    it('should fail running tasks as interrupted and skip the rest without finalizing', async () => {
+      const result = await handler.handle([createTask('task-a'), createTask('task-b')], {
+        ...mockContext,
+        maxRetries: 2,
+      });
+
+      expect(mockOrchestrator.stopTask).toHaveBeenCalledWith('task-a');
+      expect(mockOrchestrator.killTask).toHaveBeenCalledWith('task-a');
+      expect(mockOrchestrator.executeTask).toHaveBeenCalledTimes(1);
+      expect(result.tasks).toEqual([
+        expect.objectContaining({
+          taskId: 'task-a',
+          status: 'failure',
+          error: 'Task interrupted (SIGINT)',
+        }),
+        expect.objectContaining({
+          taskId: 'task-b',
+          status: 'skipped',
+          error: 'Run interrupted (SIGINT)',
+        }),
+      ]);
+      expect(mockVcsStrategy.finalize).not.toHaveBeenCalled();
+      // Neither task committed, so their branches go with their worktrees
+      expect(mockVcsStrategy.cleanup).toHaveBeenCalledWith({
+        discardedTaskIds: ['task-a', 'task-b'],
+      });
+      expect(vi.mocked(mockCheckpointService.save).mock.calls.at(-1)?.[1]).toMatchObject({
+        status: 'cancelled',
+      });
+    });
+
+    it('should keep worktrees with keepWorktrees', async () => {
+      await handler.handle([createTask('task-a')], { ...mockContext, keepWorktrees: true });
+
+      expect(mockVcsStrategy.cleanup).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('timeouts', () => {
+    it('should stop a task over its size limit and retry it with the timeout as reason', async () => {
+      const task: TaskV2 = {
+        id: 'task-a',
+        name: 'Task A',
+        complexity: 'XS',
+        description: 'Description for task-a',
+        files: ['src/task-a.ts'],
+        acceptanceCriteria: [],
+        dependencies: [],
+      };
+      let rejectAttempt: ((error: Error) => void) | undefined;
+      mockOrchestrator.stopTask = vi.fn(() => {
+        rejectAttempt?.(new Error('Process exited with code null'));
+        return true;
+      });
+      mockOrchestrator.killTask = vi.fn().mockReturnValue(false);
+      vi.mocked(mockTransitionManager.allTasksComplete)
+        .mockReturnValueOnce(false)
+        .mockReturnValue(true);
+      vi.mocked(mockTransitionManager.getExecutableTasks).mockReturnValue(['task-a']);
+      vi.mocked(mockTransitionManager.getTaskState).mockReturnValue('running');
+      mockTransitionManager.retryTask = vi.fn().mockReturnValue(true);
+      vi.mocked(mockOrchestrator.executeTask)
+        .mockImplementationOnce(
+          async () =>
+            new Promise((_resolve, reject) => {
+              rejectAttempt = reject;
+            }),
+        )
+        .mockResolvedValueOnce({
+          status: 'completed',
+          output: 'Done',
+          mode: 'execute',
+          taskId: 'task-a',
+        });
+
+      const result = await handler.handle([task], {
+        ...mockContext,
+        maxRetries: 1,
+        timeout: 60_000,
+        sizeTimeouts: { XS: { wallClock: 20 } },
+      });
+
+      expect(mockOrchestrator.stopTask).toHaveBeenCalledWith('task-a');
+      expect(mockTransitionManager.transitionTask).toHaveBeenCalledWith(
+        'task-a',
+        'failed',
+        'Task timed out after 20ms (wall-clock timeout)',
+      );
+      expect(mockOrchestrator.executeTask).toHaveBeenCalledTimes(2);
+      expect(result.tasks).toEqual([
+        expect.objectContaining({ taskId: 'task-a', status: 'success' }),
+      ]);
+    });
+  });
+
+  describe('phases', () => {
+    const createTask = (id: string): TaskV2 => ({
+      id,
+      name: `Task ${id}`,
+      complexity: 'S',
+      description: `Description for ${id}`,
+      files: [`${id}.ts`],
+      acceptanceCriteria: [],
+      dependencies: [],
+    });
+
+    it('should schedule tasks with phase ordering folded into dependencies', async () => {
+      const tasks = [createTask('setup-a'), createTask('setup-b'), createTask('impl-a')];
+      vi.mocked(mockTransitionManager.allTasksComplete).mockReturnValue(true);
+
+      await handler.handle(tasks, {
+        ...mockContext,
+        phases: [
+          {
+            id: 'setup',
+            name: 'Setup',
+            strategy: 'sequential',
+            tasks: ['setup-a', 'setup-b'],
+            requires: [],
+          },
+          {
+            id: 'impl',
+            name: 'Implementation',
+            strategy: 'parallel',
+            tasks: ['impl-a'],
+            requires: ['setup'],
+          },
+        ],
+      });
+
+      const [scheduledTasks] = vi.mocked(mockTransitionManager.initialize).mock.calls[0]!;
+      expect(scheduledTasks.map((task) => [task.id, task.dependencies])).toEqual([
+        ['setup-a', []],
+        ['setup-b', ['setup-a']],
+        ['impl-a', ['setup-a', 'setup-b']],
+      ]);
+    });
+
+    it('should leave task dependencies untouched without phases', async () => {
+      const tasks = [createTask('task-a'), createTask('task-b')];
+      vi.mocked(mockTransitionManager.allTasksComplete).mockReturnValue(true);
+
+      await handler.handle(tasks, mockContext);
+
+      expect(mockTransitionManager.initialize).toHaveBeenCalledWith(tasks, new Set());
+    });
+  });
+
   describe('_generateAgentPrompt', () => {
     it('should include complexity in prompt', async () => {
       const task: TaskV2 = {
@@ -472,4 +1020,290 @@ describe('ExecuteModeHandlerImpl', () => {
       expect(prompt).not.toContain('## Acceptance Criteria');
     });
   });
+
+  describe('verification', () => {
+    const task: TaskV2 = {
+      id: 'theme-provider',
+      name: 'Theme Provider',
+      complexity: 'M',
+      description: 'Implement the theme provider',
+      files: ['src/theme/provider.tsx'],
+      acceptanceCriteria: [],
+      dependencies: [],
+      verify: ['pnpm vitest run src/theme'],
+    };
+    let mockVerificationService: TaskVerificationService;
+    let verifyingHandler: ExecuteModeHandlerImpl;
+
+    const verificationResult = (passed: boolean, attempt: number): VerificationResult => ({
+      attempt,
+      command: 'pnpm vitest run src/theme',
+      duration: 10,
+      exitCode: passed ? 0 : 1,
+      output: passed ? 'All tests passed' : 'FAIL src/theme/provider.test.tsx',
+      passed,
+    });
+
+    beforeEach(() => {
+      mockVerificationService = { verify: vi.fn() };
+      verifyingHandler = new ExecuteModeHandlerImpl(
+        mockOrchestrator,
+        mockVcsStrategyFactory,
+        mockTransitionManager,
+        undefined,
+        mockVerificationService,
+      );
+
+      vi.mocked(mockTransitionManager.allTasksComplete)
+        .mockReturnValueOnce(false)
+        .mockReturnValue(true);
+      vi.mocked(mockTransitionManager.getExecutableTasks).mockReturnValue(['theme-provider']);
+      vi.mocked(mockOrchestrator.executeTask).mockResolvedValue({
+        status: 'completed',
+        output: 'Done',
+        mode: 'execute',
+        taskId: 'theme-provider',
+      });
+    });
+
+    it('should run plan and task verify commands before committing', async () => {
+      vi.mocked(mockVerificationService.verify).mockResolvedValue([verificationResult(true, 1)]);
+
+      const result = await verifyingHandler.handle([task], {
+        ...mockContext,
+        verify: ['pnpm tsc --noEmit'],
+      });
+
+      expect(mockVerificationService.verify).toHaveBeenCalledWith(
+        ['pnpm tsc --noEmit', 'pnpm vitest run src/theme'],
+        '/test/dir',
+        1,
+      );
+      expect(mockVcsStrategy.handleTaskCompletion).toHaveBeenCalled();
+      expect(result.tasks[0]?.status).toBe('success');
+    });
+
+    it('should fail the task without committing when verification fails', async () => {
+      vi.mocked(mockVerificationService.verify).mockResolvedValue([verificationResult(false, 1)]);
+
+      const result = await verifyingHandler.handle([task], mockContext);
+
+      expect(mockVcsStrategy.handleTaskCompletion).not.toHaveBeenCalled();
+      expect(mockTransitionManager.completeTask).not.toHaveBeenCalled();
+      expect(result.tasks[0]).toMatchObject({
+        status: 'failure',
+        error: 'Verification failed: `pnpm vitest run src/theme` exited with code 1',
+      });
+    });
+
+    it('should retry with the failing output in the prompt', async () => {
+      // Record transitions so retries are counted like the real transition manager
+      const transitions: TaskStateTransition[] = [];
+      let state: TaskState = 'ready';
+      const transition = (to: TaskState): boolean => {
+        transitions.push({ from: state, to, timestamp: new Date() });
+        state = to;
+        return true;
+      };
+      vi.mocked(mockTransitionManager.transitionTask).mockImplementation((_taskId, to) =>
+        transition(to),
+      );
+      vi.mocked(mockTransitionManager.getTaskTransitions).mockReturnValue(transitions);
+      vi.mocked(mockTransitionManager.getTaskState).mockImplementation(() => state);
+      mockTransitionManager.retryTask = vi.fn(() => transition('queued'));
+      vi.mocked(mockVerificationService.verify)
+        .mockResolvedValueOnce([verificationResult(false, 1)])
+        .mockResolvedValueOnce([verificationResult(true, 2)]);
+
+      const result = await verifyingHandler.handle([task], { ...mockContext, maxRetries: 2 });
+
+      expect(mockOrchestrator.executeTask).toHaveBeenCalledTimes(2);
+      const retryPrompt = vi.mocked(mockOrchestrator.executeTask).mock.calls[1]?.[2];
+      expect(retryPrompt).toContain('## Verification Failures From the Previous Attempt');
+      expect(retryPrompt).toContain('FAIL src/theme/provider.test.tsx');
+      expect(mockVerificationService.verify).toHaveBeenLastCalledWith(
+        ['pnpm vitest run src/theme'],
+        '/test/dir',
+        2,
+      );
+      expect(mockVcsStrategy.handleTaskCompletion).toHaveBeenCalledTimes(1);
+      expect(result.tasks[0]).toMatchObject({ status: 'success', retries: 1 });
+    });
+  });
+
+  describe('checkpointing', () => {
+    let mockCheckpointService: ExecutionCheckpointService;
+    let checkpointHandler: ExecuteModeHandlerImpl;
+
+    const tasks: TaskV2[] = [
+      {
+        id: 'task-1',
+        name: 'Task 1',
+        complexity: 'S',
+        description: 'First task',
+        files: ['src/task1.ts'],
+        acceptanceCriteria: [],
+        dependencies: [],
+      },
+      {
+        id: 'task-2',
+        name: 'Task 2',
+        complexity: 'S',
+        description: 'Second task',
+        files: ['src/task2.ts'],
+        acceptanceCriteria: [],
+        dependencies: ['task-1'],
+      },
+    ];
+
+    const createCheckpoint = (): ExecutionCheckpoint => ({
+      version: 1,
+      status: 'running',
+      vcsMode: 'simple',
+      baseRef: 'main',
+      createdAt: new Date('2025-01-01T00:00:00Z'),
+      updatedAt: new Date('2025-01-01T00:05:00Z'),
+      tasks: [
+        {
+          ...tasks[0]!,
+          state: 'completed',
+          stateHistory: [
+            { from: 'running', to: 'completed', timestamp: new Date('2025-01-01T00:04:00Z') },
+          ],
+          commitHash: 'abc123',
+          retryCount: 0,
+          maxRetries: 0,
+        },
+        {
+          ...tasks[1]!,
+          state: 'running',
+          stateHistory: [],
+          retryCount: 0,
+          maxRetries: 0,
+        },
+      ],
+    });
+
+    beforeEach(() => {
+      mockGitRaw.mockReset();
+      mockCheckpointService = {
+        getCheckpointPath: vi
+          .fn()
+          .mockReturnValue('/test/dir/.chopstack/executions/checkpoint.json'),
+        load: vi.fn().mockResolvedValue(createCheckpoint()),
+        save: vi.fn().mockResolvedValue(undefined),
+      };
+
+      checkpointHandler = new ExecuteModeHandlerImpl(
+        mockOrchestrator,
+        mockVcsStrategyFactory,
+        mockTransitionManager,
+        mockCheckpointService,
+      );
+
+      vi.mocked(mockTransitionManager.allTasksComplete)
+        .mockReturnValueOnce(false)
+        .mockReturnValue(true);
+      vi.mocked(mockTransitionManager.getExecutableTasks).mockReturnValue(['task-2']);
+      vi.mocked(mockOrchestrator.executeTask).mockResolvedValue({
+        status: 'completed',
+        output: 'Done',
+        mode: 'execute',
+        taskId: 'task-2',
+      });
+    });
+
+    it('should persist task state to the checkpoint during execution', async () => {
+      vi.mocked(mockTransitionManager.getTaskState).mockReturnValue('completed');
+
+      await checkpointHandler.handle(tasks, mockContext);
+
+      expect(mockCheckpointService.load).not.toHaveBeenCalled();
+      expect(mockCheckpointService.save).toHaveBeenCalled();
+      const lastCheckpoint = vi.mocked(mockCheckpointService.save).mock.calls.at(-1)?.[1];
+      expect(lastCheckpoint?.status).toBe('completed');
+      expect(lastCheckpoint?.tasks.map((t) => t.id)).toEqual(['task-1', 'task-2']);
+      expect(lastCheckpoint?.tasks.find((t) => t.id === 'task-2')?.commitHash).toBe('abc123');
+    });
+
+    it('should restore completed tasks whose commits still exist', async () => {
+      mockGitRaw.mockResolvedValue('');
+
+      await checkpointHandler.handle(tasks, { ...mockContext, resume: true });
+
+      expect(mockGitRaw).toHaveBeenCalledWith(['cat-file', '-e', 'abc123^{commit}']);
+      expect(mockTransitionManager.initialize).toHaveBeenCalledWith(tasks, new Set(['task-1']));
+      expect(mockOrchestrator.executeTask).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(mockOrchestrator.executeTask).mock.calls[0]?.[0]).toBe('task-2');
+    });
+
+    it('should re-run completed tasks whose commits no longer exist', async () => {
+      mockGitRaw.mockRejectedValue(new Error('fatal: Not a valid object name'));
+
+      await checkpointHandler.handle(tasks, { ...mockContext, resume: true });
+
+      expect(mockTransitionManager.initialize).toHaveBeenCalledWith(tasks, new Set());
+    });
+
+    it('should re-run the resume-from task and its dependents', async () => {
+      mockGitRaw.mockResolvedValue('');
+
+      await checkpointHandler.handle(tasks, {
+        ...mockContext,
+        resume: true,
+        resumeFrom: 'task-1',
+      });
+
+      expect(mockTransitionManager.initialize).toHaveBeenCalledWith(tasks, new Set());
+    });
+
+    it('should restore tasks to the VCS strategy in the order they completed', async () => {
+      mockGitRaw.mockResolvedValue('');
+      const restoreCompletedTasks = vi.fn();
+      mockVcsStrategy.restoreCompletedTasks = restoreCompletedTasks;
+      const independentTask: TaskV2 = {
+        ...tasks[0]!,
+        id: 'task-3',
+        name: 'Task 3',
+        files: ['src/task3.ts'],
+      };
+      const checkpoint = createCheckpoint();
+      checkpoint.tasks.push({
+        ...independentTask,
+        state: 'completed',
+        // Finished before task-1, although it comes later in the plan
+        stateHistory: [
+          { from: 'running', to: 'completed', timestamp: new Date('2025-01-01T00:02:00Z') },
+        ],
+        commitHash: 'def456',
+        retryCount: 0,
+        maxRetries: 0,
+      });
+      vi.mocked(mockCheckpointService.load).mockResolvedValue(checkpoint);
+
+      await checkpointHandler.handle([...tasks, independentTask], { ...mockContext, resume: true });
+
+      expect(restoreCompletedTasks).toHaveBeenCalledWith([
+        { taskId: 'task-3', commitHash: 'def456' },
+        { taskId: 'task-1', commitHash: 'abc123' },
+      ]);
+
+      // A later run with the same handler starts without the restored histories
+      vi.mocked(mockTransitionManager.allTasksComplete).mockReturnValue(true);
+      vi.mocked(mockCheckpointService.save).mockClear();
+      await checkpointHandler.handle(tasks, mockContext);
+
+      const lastCheckpoint = vi.mocked(mockCheckpointService.save).mock.calls.at(-1)?.[1];
+      expect(lastCheckpoint?.tasks.flatMap((task) => task.stateHistory)).toEqual([]);
+      expect(lastCheckpoint?.createdAt).not.toEqual(checkpoint.createdAt);
+    });
+
+    it('should fail to resume when no checkpoint exists', async () => {
+      vi.mocked(mockCheckpointService.load).mockResolvedValue(null);
+
+      await expect(
+        checkpointHandler.handle(tasks, { ...mockContext, resume: true }),
+      ).rejects.toThrow('no checkpoint found');
+    });
+  });
 });
@@ -72,6 +72,8 @@ describe('PlanModeHandlerImpl', () => {
         '/test/dir',
         'plan',
         'claude',
+        undefined, // forbidden files
+        undefined, // spec context
       );
 
       // Verify generated prompt includes acceptance criteria
@@ -326,6 +328,8 @@ describe('PlanModeHandlerImpl', () => {
         '/test/dir',
         'plan',
         'claude',
+        undefined, // forbidden files
+        undefined, // spec context
       );
 
       const calledPrompt = vi.mocked(mockOrchestrator.executeTask).mock.calls[0]?.[2];
@@ -8,7 +8,7 @@ describe('ValidateModeHandlerImpl - Integration Tests', () => {
   const handler = new ValidateModeHandlerImpl();
 
   describe('Plan structure validation integration', () => {
-    it('should validate a well-formed plan', async () => {
+    it('should validate a well-formed plan', () => {
       const plan: PlanV2 = {
         name: 'Dark Mode Feature',
         description: 'Add dark mode support to the application',
@@ -38,15 +38,13 @@ describe('ValidateModeHandlerImpl - Integration Tests', () => {
         ],
       };
 
-      const result = await handler.handle(plan);
+      const result = handler.handle(plan);
 
       expect(result.valid).toBe(true);
       expect(result.errors).toEqual([]);
-      expect(result.conflicts).toBeUndefined();
-      expect(result.circularDependencies).toBeUndefined();
     });
 
-    it('should detect circular dependencies', async () => {
+    it('should detect circular dependencies', () => {
       const plan: PlanV2 = {
         name: 'Invalid Plan',
         strategy: 'sequential',
@@ -72,14 +70,13 @@ describe('ValidateModeHandlerImpl - Integration Tests', () => {
         ],
       };
 
-      const result = await handler.handle(plan);
+      const result = handler.handle(plan);
 
       expect(result.valid).toBe(false);
-      expect(result.circularDependencies).toBeDefined();
-      expect(result.circularDependencies?.length).toBeGreaterThan(0);
+      expect(result.diagnostics?.map(({ code }) => code)).toContain('circular-dependency');
     });
 
-    it('should detect file conflicts in parallel tasks', async () => {
+    it('should detect file conflicts in parallel tasks', () => {
       const plan: PlanV2 = {
         name: 'Conflicting Plan',
         strategy: 'parallel',
@@ -105,14 +102,13 @@ describe('ValidateModeHandlerImpl - Integration Tests', () => {
         ],
       };
 
-      const result = await handler.handle(plan);
+      const result = handler.handle(plan);
 
       expect(result.valid).toBe(false);
-      expect(result.conflicts).toBeDefined();
-      expect(result.conflicts?.length).toBeGreaterThan(0);
+      expect(result.diagnostics?.map(({ code }) => code)).toContain('file-conflict');
     });
 
-    it('should detect missing dependencies', async () => {
+    it('should detect missing dependencies', () => {
       const plan: PlanV2 = {
         name: 'Plan with Missing Dependency',
         strategy: 'sequential',
@@ -129,11 +125,10 @@ describe('ValidateModeHandlerImpl - Integration Tests', () => {
         ],
       };
 
-      const result = await handler.handle(plan);
+      const result = handler.handle(plan);
 
       expect(result.valid).toBe(false);
-      expect(result.missingDependencies).toBeDefined();
-      expect(result.missingDependencies?.length).toBeGreaterThan(0);
+      expect(result.diagnostics?.map(({ code }) => code)).toContain('missing-dependency');
     });
   });
 });
@@ -1,28 +1,23 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
+import type { PlanDiagnosticsService } from '@/services/validation/plan-diagnostics-service';
 import type { PlanV2 } from '@/types/schemas-v2';
 
-import { DagValidator } from '@/validation/dag-validator';
+import { createPlanDiagnostic } from '@/validation/plan-diagnostics';
 
 import { ValidateModeHandlerImpl } from '../validate-mode-handler';
 
-// Mock DagValidator
-vi.mock('@/validation/dag-validator', () => ({
-  DagValidator: {
-    validatePlan: vi.fn(),
-  },
-}));
-
 describe('ValidateModeHandlerImpl', () => {
+  const diagnosePlan = vi.fn<PlanDiagnosticsService['diagnosePlan']>();
   let handler: ValidateModeHandlerImpl;
 
   beforeEach(() => {
-    handler = new ValidateModeHandlerImpl();
+    handler = new ValidateModeHandlerImpl({ diagnosePlan } as unknown as PlanDiagnosticsService);
     vi.clearAllMocks();
   });
 
   describe('handle', () => {
-    it('should validate PlanV2 successfully', async () => {
+    it('should validate PlanV2 successfully', () => {
       const plan: PlanV2 = {
         name: 'Test Plan',
         description: 'A test plan',
@@ -40,24 +35,18 @@ describe('ValidateModeHandlerImpl', () => {
         ],
       };
 
-      vi.mocked(DagValidator.validatePlan).mockReturnValue({
-        valid: true,
-        errors: [],
-        conflicts: [],
-        circularDependencies: [],
-      });
+      diagnosePlan.mockReturnValue({ valid: true, diagnostics: [], plan });
 
-      const result = await handler.handle(plan);
+      const result = handler.handle(plan);
 
       expect(result.valid).toBe(true);
       expect(result.errors).toEqual([]);
-      expect(result.conflicts).toEqual([]);
-      expect(result.circularDependencies).toEqual([]);
-      expect(DagValidator.validatePlan).toHaveBeenCalledTimes(1);
+      expect(result.diagnostics).toEqual([]);
+      expect(diagnosePlan).toHaveBeenCalledWith(plan);
     });
 
     // TODO: Update this test for v2 types - ValidateModeHandler now works with v2 directly
-    it.skip('should convert PlanV2 to v1 Plan format', async () => {
+    it.skip('should convert PlanV2 to v1 Plan format', () => {
       const plan: PlanV2 = {
         name: 'Test Plan',
         strategy: 'parallel',
@@ -74,17 +63,12 @@ describe('ValidateModeHandlerImpl', () => {
         ],
       };
 
-      vi.mocked(DagValidator.validatePlan).mockReturnValue({
-        valid: true,
-        errors: [],
-        conflicts: [],
-        circularDependencies: [],
-      });
+      diagnosePlan.mockReturnValue({ valid: true, diagnostics: [], plan });
 
-      await handler.handle(plan);
+      handler.handle(plan);
     });
 
-    it('should handle validation errors', async () => {
+    it('should handle validation errors', () => {
       const plan: PlanV2 = {
         name: 'Invalid Plan',
         strategy: 'sequential',
@@ -110,21 +94,27 @@ describe('ValidateModeHandlerImpl', () => {
         ],
       };
 
-      vi.mocked(DagValidator.validatePlan).mockReturnValue({
+      diagnosePlan.mockReturnValue({
         valid: false,
-        errors: ['Invalid dependencies'],
-        conflicts: [],
-        circularDependencies: ['task-1 -> task-2 -> task-1'],
+        diagnostics: [
+          createPlanDiagnostic(
+            'circular-dependency',
+            'Circular dependency: task-1 -> task-2 -> task-1',
+            ['tasks', 0, 'dependencies', 0],
+            { taskId: 'task-1' },
+          ),
+        ],
+        plan,
       });
 
-      const result = await handler.handle(plan);
+      const result = handler.handle(plan);
 
       expect(result.valid).toBe(false);
-      expect(result.errors).toContain('Invalid dependencies');
-      expect(result.circularDependencies).toContain('task-1 -> task-2 -> task-1');
+      expect(result.errors).toEqual(['Circular dependency: task-1 -> task-2 -> task-1']);
+      expect(result.diagnostics?.map(({ code }) => code)).toEqual(['circular-dependency']);
     });
 
-    it('should handle file conflicts', async () => {
+    it('should handle file conflicts', () => {
       const plan: PlanV2 = {
         name: 'Conflicting Plan',
         strategy: 'parallel',
@@ -150,21 +140,27 @@ describe('ValidateModeHandlerImpl', () => {
         ],
       };
 
-      vi.mocked(DagValidator.validatePlan).mockReturnValue({
+      diagnosePlan.mockReturnValue({
         valid: false,
-        errors: [],
-        conflicts: ['File src/shared.ts modified by task-1 and task-2'],
-        circularDependencies: [],
+        diagnostics: [
+          createPlanDiagnostic(
+            'file-conflict',
+            'File src/shared.ts modified by task-1 and task-2',
+            ['tasks', 1, 'files', 0],
+            { file: 'src/shared.ts', taskId: 'task-2' },
+          ),
+        ],
+        plan,
       });
 
-      const result = await handler.handle(plan);
+      const result = handler.handle(plan);
 
       expect(result.valid).toBe(false);
-      expect(result.conflicts).toHaveLength(1);
+      expect(result.errors).toEqual(['File src/shared.ts modified by task-1 and task-2']);
     });
 
     // TODO: Update this test for v2 types - DagValidator now uses complexity scores
-    it.skip('should convert complexity to estimated lines correctly', async () => {
+    it.skip('should convert complexity to estimated lines correctly', () => {
       const plan: PlanV2 = {
         name: 'Complexity Test',
         strategy: 'sequential',
@@ -217,18 +213,13 @@ describe('ValidateModeHandlerImpl', () => {
         ],
       };
 
-      vi.mocked(DagValidator.validatePlan).mockReturnValue({
-        valid: true,
-        errors: [],
-        conflicts: [],
-        circularDependencies: [],
-      });
+      diagnosePlan.mockReturnValue({ valid: true, diagnostics: [], plan });
 
-      await handler.handle(plan);
+      handler.handle(plan);
     });
 
     // TODO: Update this test for v2 types - agentPrompt is no longer part of v2
-    it.skip('should generate agent prompt without acceptance criteria when empty', async () => {
+    it.skip('should generate agent prompt without acceptance criteria when empty', () => {
       const plan: PlanV2 = {
         name: 'Simple Plan',
         strategy: 'sequential',
@@ -245,17 +236,12 @@ describe('ValidateModeHandlerImpl', () => {
         ],
       };
 
-      vi.mocked(DagValidator.validatePlan).mockReturnValue({
-        valid: true,
-        errors: [],
-        conflicts: [],
-        circularDependencies: [],
-      });
+      diagnosePlan.mockReturnValue({ valid: true, diagnostics: [], plan });
 
-      await handler.handle(plan);
+      handler.handle(plan);
     });
 
-    it('should handle plan with phases', async () => {
+    it('should handle plan with phases', () => {
       const plan: PlanV2 = {
         name: 'Phased Plan',
         strategy: 'phased-parallel',
@@ -282,20 +268,15 @@ describe('ValidateModeHandlerImpl', () => {
         ],
       };
 
-      vi.mocked(DagValidator.validatePlan).mockReturnValue({
-        valid: true,
-        errors: [],
-        conflicts: [],
-        circularDependencies: [],
-      });
+      diagnosePlan.mockReturnValue({ valid: true, diagnostics: [], plan });
 
-      const result = await handler.handle(plan);
+      const result = handler.handle(plan);
 
       expect(result.valid).toBe(true);
-      expect(DagValidator.validatePlan).toHaveBeenCalled();
+      expect(diagnosePlan).toHaveBeenCalledWith(plan);
     });
 
-    it('should handle multiple tasks with different complexities', async () => {
+    it('should handle multiple tasks with different complexities', () => {
       const plan: PlanV2 = {
         name: 'Multi-Task Plan',
         strategy: 'parallel',
@@ -321,37 +302,28 @@ describe('ValidateModeHandlerImpl', () => {
         ],
       };
 
-      vi.mocked(DagValidator.validatePlan).mockReturnValue({
-        valid: true,
-        errors: [],
-        conflicts: [],
-        circularDependencies: [],
-      });
+      diagnosePlan.mockReturnValue({ valid: true, diagnostics: [], plan });
 
-      await handler.handle(plan);
+      handler.handle(plan);
 
-      const calledPlan = vi.mocked(DagValidator.validatePlan).mock.calls[0]?.[0];
+      // The v2 plan is diagnosed as is, without converting its tasks
+      const calledPlan = diagnosePlan.mock.calls[0]?.[0];
 
-      // Verify first task
       expect(calledPlan?.tasks[0]).toMatchObject({
         id: 'task-1',
-        title: 'Small Task',
-        touches: ['small.ts'],
-        requires: [],
-        estimatedLines: 100,
+        complexity: 'S',
+        files: ['small.ts'],
+        dependencies: [],
       });
-
-      // Verify second task
       expect(calledPlan?.tasks[1]).toMatchObject({
         id: 'task-2',
-        title: 'Large Task',
-        touches: ['large1.ts', 'large2.ts', 'large3.ts'],
-        requires: ['task-1'],
-        estimatedLines: 800,
+        complexity: 'XL',
+        files: ['large1.ts', 'large2.ts', 'large3.ts'],
+        dependencies: ['task-1'],
       });
     });
 
-    it('should handle plan with success metrics', async () => {
+    it('should handle plan with success metrics', () => {
       const plan: PlanV2 = {
         name: 'Plan with Metrics',
         strategy: 'sequential',
@@ -372,14 +344,9 @@ describe('ValidateModeHandlerImpl', () => {
         },
       };
 
-      vi.mocked(DagValidator.validatePlan).mockReturnValue({
-        valid: true,
-        errors: [],
-        conflicts: [],
-        circularDependencies: [],
-      });
+      diagnosePlan.mockReturnValue({ valid: true, diagnostics: [], plan });
 
-      const result = await handler.handle(plan);
+      const result = handler.handle(plan);
 
       expect(result.valid).toBe(true);
     });
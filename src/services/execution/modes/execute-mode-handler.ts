@@ -5,30 +5,133 @@ import type {
   TaskResult,
 } from '@/core/execution/interfaces';
 import type { TaskTransitionManager } from '@/core/execution/task-transitions';
-import type { ExecutionTask } from '@/core/execution/types';
+import type {
+  ExecutionCheckpoint,
+  ExecutionPlanStatus,
+  ExecutionTask,
+  TaskStateTransition,
+  TaskUsage,
+} from '@/core/execution/types';
 import type {
   TaskCommitResult,
   VcsStrategy,
   VcsStrategyContext,
   WorktreeContext,
 } from '@/core/vcs/vcs-strategy';
-import type { OrchestratorTaskResult, TaskOrchestrator } from '@/services/orchestration';
+import type { ExecutionCheckpointService } from '@/services/execution/execution-checkpoint-service';
+import type { TaskVerificationService } from '@/services/execution/task-verification-service';
+import type {
+  OrchestratorTaskResult,
+  StreamingUpdate,
+  TaskOrchestrator,
+} from '@/services/orchestration';
 import type { VcsStrategyFactory } from '@/services/vcs/strategies/vcs-strategy-factory';
 import type { TaskV2 } from '@/types/schemas-v2';
 
+import { GitWrapper } from '@/adapters/vcs/git-wrapper';
+import { PhaseScheduler } from '@/core/execution/phase-scheduler';
+import { TaskScheduler } from '@/core/execution/task-scheduler';
+import { resolveTaskTimeouts } from '@/core/execution/task-timeouts';
+import { addUsage, formatUsage, getBudgetViolation } from '@/core/execution/task-usage';
+import { TaskVerificationServiceImpl } from '@/services/execution/task-verification-service';
+import { TaskWatchdog } from '@/services/execution/task-watchdog';
+import { createTaskExecutionContext } from '@/services/orchestration/execution-context-prompt';
 import { logger } from '@/utils/global-logger';
+import { DagValidator } from '@/validation/dag-validator';
 import { isDefined, isNonEmptyString, isNonNullish } from '@/validation/guards';
 
 export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
   private _worktreeContexts: Map<string, WorktreeContext> = new Map();
   private readonly executionTasks: Map<string, ExecutionTask> = new Map();
   private _vcsStrategy: VcsStrategy | null = null;
+  private _phaseScheduler: PhaseScheduler = new PhaseScheduler();
+  private _taskScheduler: TaskScheduler = new TaskScheduler();
+  private readonly startedPhases: Set<string> = new Set();
+  private readonly finishedPhases: Set<string> = new Set();
+  // Tasks stopped from the TUI or by the run budget, with the error they fail with.
+  // Stopped tasks are not retried automatically.
+  private readonly stoppedTasks: Map<string, string> = new Map();
+  // Set once the run uses more tokens or money than --max-tokens/--max-cost allow
+  private _budgetViolation: string | undefined;
+  // Set when the run is interrupted (e.g. by SIGINT); nothing new starts afterwards
+  private _interruptReason: string | undefined;
+  // Attempts stopped for exceeding their idle or wall-clock limit; these are retried as usual
+  private readonly timedOutTasks: Map<string, string> = new Map();
+  private readonly watchdog: TaskWatchdog;
+
+  // Checkpoint bookkeeping: histories carried over from a resumed run and serialized writes
+  private readonly restoredHistories: Map<string, TaskStateTransition[]> = new Map();
+  private _checkpointCreatedAt: Date = new Date();
+  private _checkpointBaseRef: string | undefined;
+  private _checkpointWrites: Promise<void> = Promise.resolve();
 
   constructor(
     private readonly _orchestrator: TaskOrchestrator,
     private readonly _vcsStrategyFactory: VcsStrategyFactory,
     private readonly _transitionManager: TaskTransitionManager,
-  ) {}
+    private readonly _checkpointService?: ExecutionCheckpointService,
+    private readonly _verificationService: TaskVerificationService = new TaskVerificationServiceImpl(),
+  ) {
+    this.watchdog = new TaskWatchdog(_orchestrator);
+  }
+
+  stopTask(taskId: string): boolean {
+    if (this._transitionManager.getTaskState(taskId) !== 'running') {
+      return false;
+    }
+
+    this.stoppedTasks.set(taskId, 'Task stopped by user');
+    const stopped = this._orchestrator.stopTask(taskId);
+    if (!stopped) {
+      this.stoppedTasks.delete(taskId);
+    }
+    return stopped;
+  }
+
+  interrupt(reason: string): string[] {
+    this._interruptReason ??= reason;
+    logger.warn(`[chopstack] 🛑 Run interrupted (${reason}); stopping running tasks`);
+    return this._stopRunningTasks(`Task interrupted (${reason})`);
+  }
+
+  killStoppedTasks(): string[] {
+    const killed = [...this.stoppedTasks.keys()].filter(
+      (taskId) =>
+        this._transitionManager.getTaskState(taskId) === 'running' &&
+        this._orchestrator.killTask(taskId),
+    );
+    if (killed.length > 0) {
+      logger.warn(`[chopstack] 💀 Killed agent processes of ${killed.join(', ')}`);
+    }
+    return killed;
+  }
+
+  retryTask(taskId: string): string[] {
+    const requeued = this._transitionManager.requeueFailedTask(taskId, 'Retry requested by user');
+    if (requeued.length > 0) {
+      this.stoppedTasks.delete(taskId);
+      logger.info(`[chopstack] 🔁 Retry requested for task ${taskId}`);
+    }
+    return requeued;
+  }
+
+  skipTask(taskId: string): string[] {
+    const skipped = this._transitionManager.skipTaskWithDependents(taskId, 'Skipped by user');
+    if (skipped.length > 0) {
+      logger.info(`[chopstack] ⏭️ Skipped ${skipped.join(', ')}`);
+    }
+    return skipped;
+  }
+
+  setSchedulingPaused(paused: boolean): void {
+    if (paused) {
+      this._transitionManager.pauseScheduling();
+      logger.info('[chopstack] ⏸️ Scheduling paused; running tasks will finish');
+    } else {
+      this._transitionManager.resumeScheduling();
+      logger.info('[chopstack] ▶️ Scheduling resumed');
+    }
+  }
 
   async handle(tasks: TaskV2[], context: ExecutionContext): Promise<ExecutionResult> {
     logger.info(
@@ -37,6 +140,9 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
 
     const results: TaskResult[] = [];
     const startTime = Date.now();
+    this.restoredHistories.clear();
+    this._checkpointCreatedAt = new Date();
+    this._interruptReason = undefined;
 
     // Create VCS strategy
     this._vcsStrategy = this._vcsStrategyFactory.create(context.vcsMode);
@@ -51,6 +157,13 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
     const vcsContext: VcsStrategyContext = {
       cwd: context.cwd,
       baseRef: selectedBaseRef,
+      ...(context.stackShape !== undefined && { stackShape: context.stackShape }),
+      ...(context.branchGranularity !== undefined && {
+        branchGranularity: context.branchGranularity,
+      }),
+      ...(context.phases !== undefined && { phases: context.phases }),
+      ...(context.planName !== undefined && { planName: context.planName }),
+      ...(context.verify !== undefined && { verify: context.verify }),
       validation: {
         mode: context.permissiveValidation === true ? 'permissive' : 'strict',
         allowNewFiles: false,
@@ -63,10 +176,38 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
 
     // Convert tasks to ExecutionTasks
     this._prepareExecution(tasks, context);
+    this._checkpointBaseRef = selectedBaseRef;
+
+    // Fold plan phases into task dependencies so phase order and strategies are enforced
+    this._phaseScheduler = new PhaseScheduler(context.phases ?? []);
+    this.startedPhases.clear();
+    this.finishedPhases.clear();
+    this.stoppedTasks.clear();
+    this._budgetViolation = undefined;
+    const scheduledTasks = this._phaseScheduler.constrainTasks(tasks);
+
+    // Bound concurrency, giving free slots to tasks on the critical path first
+    const { criticalPath } = DagValidator.calculateMetrics({
+      name: 'execution',
+      strategy: 'parallel',
+      tasks: scheduledTasks,
+    });
+    this._taskScheduler = new TaskScheduler(scheduledTasks, {
+      criticalPath,
+      ...(context.maxParallel !== undefined && { maxParallel: context.maxParallel }),
+    });
+
+    // When resuming, restore tasks that completed in the previous run
+    const restoredTaskIds =
+      context.resume === true
+        ? await this._restoreFromCheckpoint(scheduledTasks, context)
+        : new Set<string>();
 
     // Let VCS strategy prepare execution contexts (e.g., worktrees)
     if (isNonNullish(this._vcsStrategy)) {
-      const executionTasksArray = [...this.executionTasks.values()];
+      const executionTasksArray = [...this.executionTasks.values()].filter(
+        (executionTask) => !restoredTaskIds.has(executionTask.id),
+      );
       this._worktreeContexts = await this._vcsStrategy.prepareTaskExecutionContexts(
         executionTasksArray,
         vcsContext,
@@ -83,14 +224,42 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
     }
 
     // Initialize the transition manager with all tasks
-    this._transitionManager.initialize(tasks);
+    this._transitionManager.initialize(scheduledTasks, restoredTaskIds);
+    this._persistCheckpoint(context, 'running');
+
+    // Watch usage as agents report it so a budget overrun stops the run mid-task
+    const hasBudget = context.maxCost !== undefined || context.maxTokens !== undefined;
+    const onTaskUpdate = (update: StreamingUpdate): void => {
+      if (update.type === 'usage') {
+        this._enforceBudget(context);
+      }
+    };
+    if (hasBudget) {
+      this._orchestrator.on('taskUpdate', onTaskUpdate);
+    }
 
     // Execute tasks based on state transitions
-    while (!this._transitionManager.allTasksComplete()) {
+    while (
+      !this._transitionManager.allTasksComplete() ||
+      this._transitionManager.isSchedulingPaused()
+    ) {
+      const interruptReason = this._getInterruptReason();
+      if (interruptReason !== undefined) {
+        this._skipRemainingTasks(tasks, results, interruptReason);
+        break;
+      }
+
+      // While paused nothing new starts, but tasks can still be retried or skipped
+      if (this._transitionManager.isSchedulingPaused()) {
+        await new Promise((resolve) => global.setTimeout(resolve, 100));
+        continue;
+      }
+
       // Get tasks ready for execution
       const executableTaskIds = this._transitionManager.getExecutableTasks();
 
       logger.debug(`[chopstack] Executable tasks: ${executableTaskIds.join(', ')}`);
+      this._reportPhaseBoundaries(tasks, executableTaskIds);
 
       if (executableTaskIds.length === 0) {
         // Check for deadlock or all remaining tasks blocked/failed
@@ -133,28 +302,22 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
 
       // Execute the layer of tasks (always smart parallel)
       const layerResults = await this._executeLayer(executableTasks, context);
-      results.push(...layerResults);
-
-      // Stop if any task failed and continueOnError is false
-      if (!context.continueOnError && layerResults.some((r) => r.status === 'failure')) {
-        // Mark remaining tasks as skipped and add them to results
-        for (const task of tasks) {
-          const state = this._transitionManager.getTaskState(task.id);
-          if (isDefined(state) && !['completed', 'failed', 'skipped'].includes(state)) {
-            this._transitionManager.skipTask(task.id, 'Execution halted due to previous failure');
-            // Add skipped task to results
-            results.push({
-              taskId: task.id,
-              status: 'skipped',
-              duration: 0,
-              error: 'Execution halted due to previous failure',
-            });
-          }
-        }
+      this._recordResults(results, layerResults);
+
+      // Stop if the budget ran out, or if any task failed and continueOnError is false
+      const haltReason = this._getHaltReason(layerResults, context);
+      if (haltReason !== undefined) {
+        this._skipRemainingTasks(tasks, results, haltReason);
         break;
       }
     }
 
+    if (hasBudget) {
+      this._orchestrator.off('taskUpdate', onTaskUpdate);
+    }
+
+    this._reportPhaseBoundaries(tasks, []);
+
     // After the loop, add any remaining tasks that weren't executed as skipped
     for (const task of tasks) {
       const existingResult = results.find((r) => r.taskId === task.id);
@@ -171,6 +334,14 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
                 ? 'Task blocked due to failed dependencies'
                 : 'Execution halted before task could run',
           });
+        } else if (state === 'skipped') {
+          // Skipped by the user or because a dependency failed
+          results.push({
+            taskId: task.id,
+            status: 'skipped',
+            duration: 0,
+            error: this._transitionManager.getTaskTransitions(task.id).at(-1)?.reason ?? 'Skipped',
+          });
         }
       }
     }
@@ -200,18 +371,40 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
           }),
       );
 
-      const finalizeResult = await this._vcsStrategy.finalize(commitResults, vcsContext);
-      ({ branches, commits } = finalizeResult);
+      // An interrupted run stops here; its checkpoint keeps the completed commits for --resume
+      if (this._getInterruptReason() === undefined) {
+        const finalizeResult = await this._vcsStrategy.finalize(commitResults, vcsContext);
+        ({ branches, commits } = finalizeResult);
+      } else {
+        logger.warn('[chopstack] Skipping VCS finalization of the interrupted run');
+      }
 
       // Clean up
-      await this._vcsStrategy.cleanup();
+      if (context.keepWorktrees === true) {
+        logger.info('[chopstack] 🏗️ Keeping worktrees for inspection (--keep-worktrees)');
+      } else if (this._getInterruptReason() === undefined) {
+        await this._vcsStrategy.cleanup();
+      } else {
+        // Branches of interrupted tasks hold no commits; completed ones stay for --resume
+        await this._vcsStrategy.cleanup({
+          discardedTaskIds: tasks
+            .filter((task) => !isNonEmptyString(this.executionTasks.get(task.id)?.commitHash))
+            .map((task) => task.id),
+        });
+      }
     }
 
+    this._persistCheckpoint(context, this._getFinalStatus(results));
+    await this._checkpointWrites;
+
+    const taskUsages = results.map((result) => result.usage).filter((usage) => isDefined(usage));
+
     return {
       tasks: results,
       totalDuration: Date.now() - startTime,
       branches,
       commits,
+      ...(taskUsages.length > 0 && { usage: addUsage(...taskUsages) }),
     };
   }
 
@@ -253,11 +446,8 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
           break;
         }
         case 'failure': {
-          const shouldRetry = this._shouldRetryTask(task, context);
-          if (shouldRetry) {
-            this._transitionManager.retryTask(task.id);
-            // Re-execute the task
-            const retryResult = await this._executeTask(task, context);
+          if (this._shouldRetryTask(task, context)) {
+            const retryResult = await this._retryTask(task, context, result);
             results[results.length - 1] = retryResult;
             // Task completion for retry also happens inside _executeTask
             if (retryResult.status !== 'success') {
@@ -280,6 +470,8 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
         // No default
       }
 
+      this._persistCheckpoint(context, 'running');
+
       if (result.status === 'failure' && !context.continueOnError) {
         break;
       }
@@ -292,21 +484,28 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
     layer: TaskV2[],
     context: ExecutionContext,
   ): Promise<TaskResult[]> {
-    // Transition all tasks to running state BEFORE starting async execution
-    for (const task of layer) {
+    const queue = this._taskScheduler.prioritize(layer);
+    const slots = this._taskScheduler.getSlotCount(queue.length);
+
+    // Queue every task BEFORE starting async execution; tasks beyond the free slots wait
+    for (const [index, task] of queue.entries()) {
       // Properly transition through states: ready -> queued -> running
       const currentState = this._transitionManager.getTaskState(task.id);
-      if (currentState === 'ready') {
+      if (currentState !== 'ready') {
+        logger.warn(`Task ${task.id} is in unexpected state: ${currentState}`);
+      } else if (index < slots) {
         this._transitionManager.transitionTask(task.id, 'queued', 'Starting task');
-        this._transitionManager.transitionTask(task.id, 'running', 'Executing task in parallel');
       } else {
-        logger.warn(`Task ${task.id} is in unexpected state: ${currentState}`);
+        this._transitionManager.transitionTask(task.id, 'queued', 'Waiting for execution slot');
+        this._orchestrator.queueTask(task.id);
       }
     }
 
-    logger.debug(`[chopstack] Starting parallel execution of ${layer.length} tasks`);
+    logger.debug(
+      `[chopstack] Starting parallel execution of ${layer.length} tasks with ${slots} slots`,
+    );
 
-    const promises = layer.map(async (task) => {
+    const executeAndTransition = async (task: TaskV2): Promise<TaskResult> => {
       logger.debug(`[chopstack] Executing task ${task.id} in worktree`);
       const result = await this._executeTask(task, context);
 
@@ -318,11 +517,8 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
           break;
         }
         case 'failure': {
-          const shouldRetry = this._shouldRetryTask(task, context);
-          if (shouldRetry) {
-            this._transitionManager.retryTask(task.id);
-            // Re-execute the task
-            const retryResult = await this._executeTask(task, context);
+          if (this._shouldRetryTask(task, context)) {
+            const retryResult = await this._retryTask(task, context, result);
             if (retryResult.status === 'success') {
               this._transitionManager.completeTask(task.id);
               return retryResult;
@@ -346,9 +542,45 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
       }
 
       return result;
-    });
+    };
 
-    return Promise.all(promises);
+    // Each slot runs queued tasks in priority order until the queue drains
+    const results = new Map<string, TaskResult>();
+    let halted = false;
+    const runSlot = async (): Promise<void> => {
+      for (let task = queue.shift(); task !== undefined && !halted; task = queue.shift()) {
+        await this._waitWhileSchedulingPaused();
+        if (this._interruptReason !== undefined) {
+          break;
+        }
+        const state = this._transitionManager.getTaskState(task.id);
+        if (state === 'skipped') {
+          results.set(task.id, {
+            taskId: task.id,
+            status: 'skipped',
+            duration: 0,
+            error: 'Skipped by user',
+          });
+          continue;
+        }
+        if (state === 'queued') {
+          this._transitionManager.transitionTask(task.id, 'running', 'Executing task in parallel');
+        }
+        const result = await executeAndTransition(task);
+        this._persistCheckpoint(context, 'running');
+        results.set(task.id, result);
+
+        // Don't start waiting tasks once the run is going to halt
+        halted ||=
+          (result.status === 'failure' && !context.continueOnError) ||
+          this._budgetViolation !== undefined ||
+          this._getInterruptReason() !== undefined;
+      }
+    };
+
+    await Promise.all(Array.from({ length: slots }, runSlot));
+
+    return layer.map((task) => results.get(task.id)).filter((result) => isDefined(result));
   }
 
   private async _executeTask(task: TaskV2, context: ExecutionContext): Promise<TaskResult> {
@@ -393,28 +625,41 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
       );
 
       // Generate agent prompt for v2 task
-      const agentPrompt = this._generateAgentPrompt(task);
-
-      const result: OrchestratorTaskResult = await this._orchestrator.executeTask(
-        task.id,
-        task.name,
-        agentPrompt,
-        task.files,
-        workdir,
-        'execute',
-        context.agentType,
-        executionTask.forbiddenFiles,
-      );
+      const agentPrompt = this._generateAgentPrompt(task, executionTask);
+
+      const unwatch = this._watchTimeouts(task, context);
+      let result: OrchestratorTaskResult;
+      try {
+        result = await this._orchestrator.executeTask(
+          task.id,
+          task.name,
+          agentPrompt,
+          task.files,
+          workdir,
+          'execute',
+          context.agentType,
+          executionTask.forbiddenFiles,
+          isNonNullish(context.specContext)
+            ? createTaskExecutionContext(context.specContext, task, context.specTokenBudget)
+            : undefined,
+        );
+      } finally {
+        unwatch();
+      }
 
       logger.debug(`[chopstack] Task ${task.id}: Orchestrator returned status: ${result.status}`);
 
+      // Verify the task's changes before committing so a broken build fails the task
+      const verificationError =
+        result.status === 'completed'
+          ? await this._verifyTask(task, executionTask, workdir, context)
+          : undefined;
+      const executionSucceeded = result.status === 'completed' && verificationError === undefined;
+
       // Trigger VCS commit if task completed successfully
       let vcsCommitSuccessful = true;
-      if (
-        result.status === 'completed' &&
-        result.output !== undefined &&
-        isNonNullish(this._vcsStrategy)
-      ) {
+      let commitResult: TaskCommitResult | undefined;
+      if (executionSucceeded && result.output !== undefined && isNonNullish(this._vcsStrategy)) {
         try {
           const executionTask = this.executionTasks.get(task.id);
           const worktreeContext = this._worktreeContexts.get(task.id);
@@ -430,7 +675,7 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
               created: new Date(),
             };
 
-            const commitResult = await this._vcsStrategy.handleTaskCompletion(
+            commitResult = await this._vcsStrategy.handleTaskCompletion(
               task,
               executionTask,
               contextForCommit,
@@ -461,44 +706,283 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
           this._transitionManager.failTask(task.id, `VCS commit error: ${String(vcsError)}`);
           vcsCommitSuccessful = false;
         }
-      } else if (result.status === 'completed') {
+      } else if (executionSucceeded) {
         // For tasks without VCS strategy, mark as completed immediately
         this._transitionManager.completeTask(task.id);
         logger.debug(`Task ${task.id} marked as completed (no VCS strategy)`);
       }
 
       // Determine final status - task is only successful if both execution AND VCS operations succeed
-      const finalStatus =
-        result.status === 'completed' && vcsCommitSuccessful ? 'success' : 'failure';
-
+      const finalStatus = executionSucceeded && vcsCommitSuccessful ? 'success' : 'failure';
+
+      const filesChanged = commitResult?.filesChanged ?? result.filesChanged;
+      const usage = this._getTaskUsage(task.id);
+      const failureReason =
+        verificationError ??
+        (isNonEmptyString(commitResult?.error)
+          ? `VCS commit failed: ${commitResult.error}`
+          : (this.timedOutTasks.get(task.id) ?? result.error));
       return {
         taskId: task.id,
         status: finalStatus,
         duration: Date.now() - taskStart,
+        retries: this._getRetryCount(task.id),
         ...(result.output !== undefined && { output: result.output }),
+        ...(finalStatus === 'failure' &&
+          isNonEmptyString(failureReason) && { error: failureReason }),
+        ...(result.exitCode !== undefined && { exitCode: result.exitCode }),
+        ...(filesChanged !== undefined && { filesChanged }),
+        ...(usage !== undefined && { usage }),
+        ...(commitResult?.violations !== undefined && { violations: commitResult.violations }),
+        ...(isNonEmptyString(executionTask.commitHash) && { commitHash: executionTask.commitHash }),
+        ...(isNonEmptyString(executionTask.branchName) && { branchName: executionTask.branchName }),
       };
     } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const usage = this._getTaskUsage(task.id);
       return {
         taskId: task.id,
         status: 'failure',
         duration: Date.now() - taskStart,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        retries: this._getRetryCount(task.id),
+        error: this.stoppedTasks.get(task.id) ?? this.timedOutTasks.get(task.id) ?? message,
+        ...(usage !== undefined && { usage }),
       };
     }
   }
 
+  /**
+   * Stop the task's attempt once it exceeds the idle or wall-clock limit for its size
+   */
+  private _watchTimeouts(task: TaskV2, context: ExecutionContext): () => void {
+    this.timedOutTasks.delete(task.id);
+    const timeouts = resolveTaskTimeouts(task.complexity, {
+      ...(context.timeout !== undefined && { timeout: context.timeout }),
+      ...(context.idleTimeout !== undefined && { idleTimeout: context.idleTimeout }),
+      ...(context.sizeTimeouts !== undefined && { sizeTimeouts: context.sizeTimeouts }),
+    });
+    if (timeouts.idle === undefined && timeouts.wallClock === undefined) {
+      return () => {};
+    }
+    return this.watchdog.watch(task.id, timeouts, (reason) => {
+      this.timedOutTasks.set(task.id, reason);
+    });
+  }
+
   private _shouldRetryTask(task: TaskV2, context: ExecutionContext): boolean {
-    // Get current retry count from task transitions
-    const transitions = this._transitionManager.getTaskTransitions(task.id);
-    const retryCount = transitions.filter((t) => t.from === 'failed' && t.to === 'queued').length;
+    return (
+      this._interruptReason === undefined &&
+      !this.stoppedTasks.has(task.id) &&
+      this._getRetryCount(task.id) < context.maxRetries
+    );
+  }
+
+  private _getHaltReason(
+    layerResults: TaskResult[],
+    context: ExecutionContext,
+  ): string | undefined {
+    const interruptReason = this._getInterruptReason();
+    if (interruptReason !== undefined) {
+      return interruptReason;
+    }
+    if (this._budgetViolation !== undefined) {
+      return `Run budget exceeded: ${this._budgetViolation}`;
+    }
+    if (!context.continueOnError && layerResults.some((r) => r.status === 'failure')) {
+      return 'Execution halted due to previous failure';
+    }
+    return undefined;
+  }
+
+  /**
+   * Once the run's usage exceeds its budget, stop scheduling and stop the running tasks
+   */
+  private _enforceBudget(context: ExecutionContext): void {
+    if (this._budgetViolation !== undefined) {
+      return;
+    }
+
+    const usage = this._orchestrator.getTotalUsage();
+    const violation = getBudgetViolation(usage, {
+      ...(context.maxCost !== undefined && { maxCost: context.maxCost }),
+      ...(context.maxTokens !== undefined && { maxTokens: context.maxTokens }),
+    });
+    if (violation === undefined) {
+      return;
+    }
+
+    this._budgetViolation = violation;
+    logger.error(`[chopstack] 💸 Run budget exceeded: ${violation} (${formatUsage(usage)})`);
+    this._stopRunningTasks(`Task stopped: run budget exceeded (${violation})`);
+  }
+
+  /**
+   * Stop every running task, failing it with the given error; returns the tasks stopped
+   */
+  private _stopRunningTasks(error: string): string[] {
+    const stopped: string[] = [];
+    for (const taskId of this.executionTasks.keys()) {
+      if (this._transitionManager.getTaskState(taskId) !== 'running') {
+        continue;
+      }
+      this.stoppedTasks.set(taskId, error);
+      if (this._orchestrator.stopTask(taskId)) {
+        stopped.push(taskId);
+      } else {
+        this.stoppedTasks.delete(taskId);
+      }
+    }
+    return stopped;
+  }
+
+  /**
+   * Skip every task that has not finished, adding it to the results with the reason
+   */
+  private _skipRemainingTasks(tasks: TaskV2[], results: TaskResult[], reason: string): void {
+    for (const task of tasks) {
+      const state = this._transitionManager.getTaskState(task.id);
+      if (isDefined(state) && !['completed', 'failed', 'skipped'].includes(state)) {
+        this._transitionManager.skipTask(task.id, reason);
+        results.push({
+          taskId: task.id,
+          status: 'skipped',
+          duration: 0,
+          error: reason,
+        });
+      }
+    }
+  }
+
+  private _getInterruptReason(): string | undefined {
+    return this._interruptReason === undefined
+      ? undefined
+      : `Run interrupted (${this._interruptReason})`;
+  }
+
+  private _getFinalStatus(results: TaskResult[]): ExecutionPlanStatus {
+    if (this._interruptReason !== undefined) {
+      return 'cancelled';
+    }
+    return results.some((r) => r.status === 'failure') ? 'failed' : 'completed';
+  }
+
+  /**
+   * Record layer results, replacing the earlier result of a task retried from the TUI
+   */
+  private _recordResults(results: TaskResult[], layerResults: TaskResult[]): void {
+    for (const result of layerResults) {
+      const index = results.findIndex((existing) => existing.taskId === result.taskId);
+      if (index === -1) {
+        results.push(result);
+      } else {
+        results[index] = result;
+      }
+    }
+  }
+
+  private async _waitWhileSchedulingPaused(): Promise<void> {
+    while (this._transitionManager.isSchedulingPaused() && this._interruptReason === undefined) {
+      await new Promise((resolve) => global.setTimeout(resolve, 100));
+    }
+  }
 
-    return retryCount < context.maxRetries;
+  /**
+   * Re-run a failed task until it succeeds or its retries run out. Each retry moves the
+   * task through failed → queued → running so the attempt is counted in its transitions.
+   */
+  private async _retryTask(
+    task: TaskV2,
+    context: ExecutionContext,
+    failedResult: TaskResult,
+  ): Promise<TaskResult> {
+    let result = failedResult;
+
+    while (result.status === 'failure' && this._shouldRetryTask(task, context)) {
+      if (this._transitionManager.getTaskState(task.id) === 'running') {
+        this._transitionManager.transitionTask(
+          task.id,
+          'failed',
+          result.error ?? 'Task execution failed',
+        );
+      }
+      if (!this._transitionManager.retryTask(task.id)) {
+        logger.warn(
+          `Task ${task.id} cannot be retried from state: ${this._transitionManager.getTaskState(task.id)}`,
+        );
+        break;
+      }
+
+      const retryCount = this._getRetryCount(task.id);
+      const executionTask = this.executionTasks.get(task.id);
+      if (isNonNullish(executionTask)) {
+        executionTask.retryCount = retryCount;
+      }
+      this._transitionManager.transitionTask(
+        task.id,
+        'running',
+        `Retry ${retryCount}/${context.maxRetries}`,
+      );
+      logger.info(`[chopstack] 🔁 Retrying task ${task.id} (${retryCount}/${context.maxRetries})`);
+
+      result = await this._executeTask(task, context);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the plan's and the task's verification commands in the task's working directory,
+   * recording the results on the execution task. Returns an error message on failure.
+   */
+  private async _verifyTask(
+    task: TaskV2,
+    executionTask: ExecutionTask,
+    workdir: string,
+    context: ExecutionContext,
+  ): Promise<string | undefined> {
+    const commands = [...(context.verify ?? []), ...(task.verify ?? [])];
+    if (commands.length === 0) {
+      return undefined;
+    }
+
+    const results = await this._verificationService.verify(
+      commands,
+      workdir,
+      executionTask.retryCount + 1,
+    );
+    executionTask.verification = [...(executionTask.verification ?? []), ...results];
+
+    const failed = results.find((result) => !result.passed);
+    if (!isNonNullish(failed)) {
+      return undefined;
+    }
+    return `Verification failed: \`${failed.command}\` exited with code ${failed.exitCode ?? 'unknown'}`;
+  }
+
+  /**
+   * Count retries from task transitions (each retry moves the task from failed back to queued)
+   */
+  private _getRetryCount(taskId: string): number {
+    const transitions = this._transitionManager.getTaskTransitions(taskId);
+    return transitions.filter((t) => t.from === 'failed' && t.to === 'queued').length;
+  }
+
+  /**
+   * Read a task's usage without letting a failed lookup replace the task's own result
+   */
+  private _getTaskUsage(taskId: string): TaskUsage | undefined {
+    try {
+      return this._orchestrator.getTaskUsage(taskId);
+    } catch (error) {
+      logger.debug(`[chopstack] Could not read usage for task ${taskId}: ${String(error)}`);
+      return undefined;
+    }
   }
 
   /**
    * Generate agent prompt for v2 task with acceptance criteria
    */
-  private _generateAgentPrompt(task: TaskV2): string {
+  private _generateAgentPrompt(task: TaskV2, executionTask: ExecutionTask): string {
     let prompt = task.description;
 
     // Add acceptance criteria if present
@@ -514,9 +998,286 @@ export class ExecuteModeHandlerImpl implements ExecuteModeHandler {
       prompt += `\n\n## Task Complexity: ${task.complexity}`;
     }
 
+    // On retries, show the agent why the previous attempt failed verification
+    const failedChecks = (executionTask.verification ?? []).filter(
+      (result) => result.attempt === executionTask.retryCount && !result.passed,
+    );
+    if (failedChecks.length > 0) {
+      prompt += '\n\n## Verification Failures From the Previous Attempt\n';
+      prompt += 'Your previous changes failed these checks. Fix the problems so they pass.\n';
+      for (const check of failedChecks) {
+        prompt += `\n### \`${check.command}\` (exit code ${check.exitCode ?? 'unknown'})\n\`\`\`\n${check.output}\n\`\`\`\n`;
+      }
+    }
+
     return prompt;
   }
 
+  /**
+   * Log phase boundaries: phases whose tasks all reached a terminal state are reported
+   * as finished, and phases with tasks about to run are reported as started.
+   */
+  private _reportPhaseBoundaries(tasks: TaskV2[], executableTaskIds: string[]): void {
+    if (!this._phaseScheduler.hasPhases()) {
+      return;
+    }
+
+    const orderedPhases = this._phaseScheduler.getOrderedPhases();
+    for (const [index, phase] of orderedPhases.entries()) {
+      if (this.finishedPhases.has(phase.id)) {
+        continue;
+      }
+      const states = tasks
+        .filter((task) => this._phaseScheduler.getPhaseForTask(task)?.id === phase.id)
+        .map((task) => this._transitionManager.getTaskState(task.id));
+      const terminalStates = new Set(['completed', 'failed', 'skipped']);
+      if (states.length === 0 || !states.every((state) => terminalStates.has(state ?? ''))) {
+        continue;
+      }
+
+      this.finishedPhases.add(phase.id);
+      const label = `Phase ${index + 1}/${orderedPhases.length} ${phase.name}`;
+      if (states.every((state) => state === 'completed')) {
+        logger.info(`[chopstack] ✅ ${label} completed`);
+      } else {
+        logger.warn(`[chopstack] ⚠️ ${label} finished with failed or skipped tasks`);
+      }
+    }
+
+    for (const taskId of executableTaskIds) {
+      const task = tasks.find((t) => t.id === taskId);
+      const phase = isNonNullish(task) ? this._phaseScheduler.getPhaseForTask(task) : undefined;
+      if (!isNonNullish(phase) || this.startedPhases.has(phase.id)) {
+        continue;
+      }
+
+      this.startedPhases.add(phase.id);
+      const index = orderedPhases.indexOf(phase);
+      logger.info(
+        `[chopstack] ▶️ Phase ${index + 1}/${orderedPhases.length} ${phase.name} started (${phase.strategy}, ${phase.tasks.length} tasks)`,
+      );
+    }
+  }
+
+  /**
+   * Load the previous run's checkpoint and return the IDs of tasks that can be skipped.
+   * A task is restored only if it completed, its recorded commit still exists, it is not
+   * being re-run via `resumeFrom`, and all of its dependencies are restored as well.
+   */
+  private async _restoreFromCheckpoint(
+    tasks: TaskV2[],
+    context: ExecutionContext,
+  ): Promise<Set<string>> {
+    if (!isNonNullish(this._checkpointService)) {
+      throw new Error('Cannot resume execution: checkpointing is not configured');
+    }
+
+    const checkpoint = await this._checkpointService.load(context.cwd);
+    if (!isNonNullish(checkpoint)) {
+      throw new Error(
+        `Cannot resume execution: no checkpoint found at ${this._checkpointService.getCheckpointPath(context.cwd)}`,
+      );
+    }
+
+    if (checkpoint.vcsMode !== context.vcsMode) {
+      logger.warn(
+        `⚠️ Checkpoint was recorded with VCS mode ${checkpoint.vcsMode}, resuming with ${context.vcsMode}`,
+      );
+    }
+    this._checkpointCreatedAt = checkpoint.createdAt;
+
+    const taskIds = new Set(tasks.map((task) => task.id));
+    const rerunTaskIds = new Set<string>();
+    if (isNonEmptyString(context.resumeFrom)) {
+      if (!taskIds.has(context.resumeFrom)) {
+        throw new Error(`Cannot resume from unknown task: ${context.resumeFrom}`);
+      }
+      for (const taskId of this._collectDependents(context.resumeFrom, tasks)) {
+        rerunTaskIds.add(taskId);
+      }
+    }
+
+    const checkpointTasks = new Map<string, ExecutionTask>();
+    for (const checkpointTask of checkpoint.tasks) {
+      if (!taskIds.has(checkpointTask.id)) {
+        logger.warn(`⚠️ Ignoring checkpointed task ${checkpointTask.id}: not part of this plan`);
+        continue;
+      }
+      checkpointTasks.set(checkpointTask.id, checkpointTask);
+    }
+
+    const candidateIds = new Set<string>();
+    for (const checkpointTask of checkpointTasks.values()) {
+      if (checkpointTask.state !== 'completed' || rerunTaskIds.has(checkpointTask.id)) {
+        continue;
+      }
+      if (
+        isNonEmptyString(checkpointTask.commitHash) &&
+        !(await this._commitExists(checkpointTask.commitHash, context.cwd))
+      ) {
+        logger.warn(
+          `⚠️ Commit ${checkpointTask.commitHash.slice(0, 7)} for task ${checkpointTask.id} no longer exists, task will be re-executed`,
+        );
+        continue;
+      }
+      candidateIds.add(checkpointTask.id);
+    }
+
+    // Drop restored tasks whose dependencies have to run again
+    const restoredTaskIds = new Set(candidateIds);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const task of tasks) {
+        if (
+          restoredTaskIds.has(task.id) &&
+          task.dependencies.some((depId) => !restoredTaskIds.has(depId))
+        ) {
+          restoredTaskIds.delete(task.id);
+          changed = true;
+        }
+      }
+    }
+
+    for (const taskId of restoredTaskIds) {
+      const executionTask = this.executionTasks.get(taskId);
+      const checkpointTask = checkpointTasks.get(taskId);
+      if (!isNonNullish(executionTask) || !isNonNullish(checkpointTask)) {
+        continue;
+      }
+      executionTask.state = 'completed';
+      this.restoredHistories.set(taskId, checkpointTask.stateHistory);
+      if (isNonEmptyString(checkpointTask.commitHash)) {
+        executionTask.commitHash = checkpointTask.commitHash;
+      }
+      if (isNonEmptyString(checkpointTask.branchName)) {
+        executionTask.branchName = checkpointTask.branchName;
+      }
+      if (isNonEmptyString(checkpointTask.worktreeDir)) {
+        executionTask.worktreeDir = checkpointTask.worktreeDir;
+      }
+    }
+
+    // Let the VCS strategy rebuild its branch state in the order tasks originally completed
+    if (
+      isNonNullish(this._vcsStrategy) &&
+      typeof this._vcsStrategy.restoreCompletedTasks === 'function'
+    ) {
+      const restoredResults = [...restoredTaskIds]
+        .map((taskId) => this.executionTasks.get(taskId))
+        .filter((executionTask): executionTask is ExecutionTask => isNonNullish(executionTask))
+        .sort((a, b) => this._completedAt(a.id) - this._completedAt(b.id))
+        .map((executionTask) => {
+          const result: TaskCommitResult = { taskId: executionTask.id };
+          if (isNonEmptyString(executionTask.commitHash)) {
+            result.commitHash = executionTask.commitHash;
+          }
+          if (isNonEmptyString(executionTask.branchName)) {
+            result.branchName = executionTask.branchName;
+          }
+          return result;
+        });
+      this._vcsStrategy.restoreCompletedTasks(restoredResults);
+    }
+
+    logger.info(
+      `♻️ Resuming execution: ${restoredTaskIds.size} of ${tasks.length} tasks restored from checkpoint`,
+    );
+
+    return restoredTaskIds;
+  }
+
+  private _collectDependents(rootTaskId: string, tasks: TaskV2[]): Set<string> {
+    const dependents = new Set<string>([rootTaskId]);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const task of tasks) {
+        if (!dependents.has(task.id) && task.dependencies.some((depId) => dependents.has(depId))) {
+          dependents.add(task.id);
+          changed = true;
+        }
+      }
+    }
+    return dependents;
+  }
+
+  /**
+   * When a restored task completed in the previous run, from its checkpointed history
+   */
+  private _completedAt(taskId: string): number {
+    let completedAt = 0;
+    for (const transition of this.restoredHistories.get(taskId) ?? []) {
+      if (transition.to === 'completed') {
+        completedAt = transition.timestamp.getTime();
+      }
+    }
+    return completedAt;
+  }
+
+  private async _commitExists(commitHash: string, cwd: string): Promise<boolean> {
+    try {
+      const git = new GitWrapper(cwd);
+      await git.raw(['cat-file', '-e', `${commitHash}^{commit}`]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Snapshot task states into the checkpoint. Writes are chained so they land in order.
+   */
+  private _persistCheckpoint(context: ExecutionContext, status: ExecutionPlanStatus): void {
+    const checkpointService = this._checkpointService;
+    if (!isNonNullish(checkpointService)) {
+      return;
+    }
+
+    const snapshotTasks = [...this.executionTasks.values()].map((executionTask) => {
+      const state = this._transitionManager.getTaskState(executionTask.id);
+      if (isDefined(state)) {
+        executionTask.state = state;
+      }
+      executionTask.stateHistory = [
+        ...(this.restoredHistories.get(executionTask.id) ?? []),
+        ...this._transitionManager.getTaskTransitions(executionTask.id),
+      ];
+      return { ...executionTask, stateHistory: [...executionTask.stateHistory] };
+    });
+
+    const checkpoint: ExecutionCheckpoint = {
+      version: 1,
+      status,
+      vcsMode: context.vcsMode,
+      ...(isNonEmptyString(this._checkpointBaseRef) && { baseRef: this._checkpointBaseRef }),
+      createdAt: this._checkpointCreatedAt,
+      updatedAt: new Date(),
+      tasks: snapshotTasks,
+    };
+
+    this._checkpointWrites = this._writeCheckpoint(
+      this._checkpointWrites,
+      checkpointService,
+      context.cwd,
+      checkpoint,
+    );
+  }
+
+  private async _writeCheckpoint(
+    previousWrite: Promise<void>,
+    checkpointService: ExecutionCheckpointService,
+    cwd: string,
+    checkpoint: ExecutionCheckpoint,
+  ): Promise<void> {
+    await previousWrite;
+    try {
+      await checkpointService.save(cwd, checkpoint);
+    } catch (error) {
+      logger.warn(`⚠️ Failed to write execution checkpoint: ${String(error)}`);
+    }
+  }
+
   private _prepareExecution(tasks: TaskV2[], context: ExecutionContext): void {
     // Convert tasks to ExecutionTasks
     for (const task of tasks) {
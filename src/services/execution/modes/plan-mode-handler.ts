@@ -7,6 +7,7 @@ import type {
 import type { OrchestratorTaskResult, TaskOrchestrator } from '@/services/orchestration';
 import type { TaskV2 } from '@/types/schemas-v2';
 
+import { createTaskExecutionContext } from '@/services/orchestration/execution-context-prompt';
 import { logger } from '@/utils/global-logger';
 import { isNonNullish } from '@/validation/guards';
 
@@ -37,6 +38,10 @@ export class PlanModeHandlerImpl implements PlanModeHandler {
           context.cwd,
           'plan',
           context.agentType,
+          undefined,
+          isNonNullish(context.specContext)
+            ? createTaskExecutionContext(context.specContext, task, context.specTokenBudget)
+            : undefined,
         );
 
         const taskResult: TaskResult = {
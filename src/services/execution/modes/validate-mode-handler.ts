@@ -1,40 +1,42 @@
 import type { ValidateModeHandler } from '@/core/execution/interfaces';
 import type { PlanV2 } from '@/types/schemas-v2';
+import type { ValidationResult } from '@/validation/dag-validator';
 
+import { PlanDiagnosticsService } from '@/services/validation/plan-diagnostics-service';
 import { logger } from '@/utils/global-logger';
-import { DagValidator, type ValidationResult } from '@/validation/dag-validator';
-import { isValidArray } from '@/validation/guards';
 
 export class ValidateModeHandlerImpl implements ValidateModeHandler {
-  async handle(plan: PlanV2): Promise<ValidationResult> {
-    logger.info('[chopstack] Validating execution plan...');
+  private readonly planDiagnosticsService: PlanDiagnosticsService;
 
-    // DagValidator now accepts PlanV2 directly
-    const result = await Promise.resolve(DagValidator.validatePlan(plan));
+  constructor(planDiagnosticsService: PlanDiagnosticsService = new PlanDiagnosticsService()) {
+    this.planDiagnosticsService = planDiagnosticsService;
+  }
 
-    logger.info(`[chopstack] Validation: ${result.valid ? 'PASSED' : 'FAILED'}`);
+  handle(plan: PlanV2): ValidationResult {
+    logger.info('[chopstack] Validating execution plan...');
 
-    if (isValidArray(result.errors)) {
-      logger.error('[chopstack] Errors:');
-      for (const error of result.errors) {
-        logger.error(`[chopstack]   - ${error}`);
-      }
-    }
+    // Same diagnostics as `run --mode validate`
+    const { diagnostics, valid } = this.planDiagnosticsService.diagnosePlan(plan);
 
-    if (isValidArray(result.conflicts)) {
-      logger.warn('[chopstack] File conflicts detected:');
-      for (const conflict of result.conflicts) {
-        logger.warn(`[chopstack]   - ${conflict}`);
-      }
-    }
+    logger.info(`[chopstack] Validation: ${valid ? 'PASSED' : 'FAILED'}`);
 
-    if (isValidArray(result.circularDependencies)) {
-      logger.error('[chopstack] Circular dependencies detected:');
-      for (const circular of result.circularDependencies) {
-        logger.error(`[chopstack]   - ${circular}`);
+    for (const { code, message, severity } of diagnostics) {
+      const line = `[chopstack]   - ${message} [${code}]`;
+      if (severity === 'error') {
+        logger.error(line);
+      } else if (severity === 'warning') {
+        logger.warn(line);
+      } else {
+        logger.info(line);
       }
     }
 
-    return result;
+    return {
+      valid,
+      errors: diagnostics
+        .filter(({ severity }) => severity === 'error')
+        .map(({ message }) => message),
+      diagnostics,
+    };
   }
 }
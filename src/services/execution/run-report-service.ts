@@ -0,0 +1,242 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+import { match } from 'ts-pattern';
+
+import type { ExecutionResult } from '@/core/execution/interfaces';
+import type {
+  ExecutionMetrics,
+  ExecutionMode,
+  RunReport,
+  RunReportFormat,
+  RunReportTask,
+  VcsMode,
+} from '@/core/execution/types';
+import type { PlanV2 } from '@/types/schemas-v2';
+
+import { addUsage, getTotalTokens } from '@/core/execution/task-usage';
+import { DagValidator } from '@/validation/dag-validator';
+
+/**
+ * Inputs describing a finished run
+ */
+export type RunReportInput = {
+  finishedAt?: Date;
+  jobId: string;
+  mode: ExecutionMode;
+  plan: PlanV2;
+  result: ExecutionResult;
+  startedAt: Date;
+  vcsMode: VcsMode;
+};
+
+/**
+ * Configuration for the run report service
+ */
+export type RunReportConfig = {
+  fileName?: string;
+  runsDir?: string;
+};
+
+/**
+ * Writes machine-readable run reports for CI and dashboards
+ */
+export type RunReportService = {
+  /**
+   * Absolute path of the default JSON report for a run
+   */
+  getReportPath(cwd: string, jobId: string): string;
+
+  /**
+   * Write the report to the run directory, returning the path written
+   */
+  save(cwd: string, report: RunReport): Promise<string>;
+
+  /**
+   * Write the report to an explicit path in the requested format
+   */
+  write(filePath: string, report: RunReport, format: RunReportFormat): Promise<void>;
+};
+
+/**
+ * Build a run report from the plan and the execution result
+ */
+export function buildRunReport(input: RunReportInput): RunReport {
+  const { finishedAt, jobId, mode, plan, result, startedAt, vcsMode } = input;
+  const taskNames = new Map(plan.tasks.map((task) => [task.id, task.name]));
+
+  const tasks: RunReportTask[] = result.tasks.map((taskResult) => ({
+    taskId: taskResult.taskId,
+    name: taskNames.get(taskResult.taskId) ?? taskResult.taskId,
+    state: taskResult.status,
+    duration: taskResult.duration,
+    retries: taskResult.retries ?? 0,
+    filesChanged: taskResult.filesChanged ?? [],
+    violations: taskResult.violations ?? [],
+    ...(taskResult.exitCode !== undefined && { exitCode: taskResult.exitCode }),
+    ...(taskResult.commitHash !== undefined && { commitHash: taskResult.commitHash }),
+    ...(taskResult.branchName !== undefined && { branchName: taskResult.branchName }),
+    ...(taskResult.error !== undefined && { error: taskResult.error }),
+    ...(taskResult.usage !== undefined && { usage: taskResult.usage }),
+  }));
+
+  return {
+    version: 1,
+    jobId,
+    planName: plan.name,
+    mode,
+    vcsMode,
+    status: tasks.some((task) => task.state === 'failure') ? 'failure' : 'success',
+    startedAt: startedAt.toISOString(),
+    finishedAt: (finishedAt ?? new Date()).toISOString(),
+    tasks,
+    branches: result.branches,
+    commits: result.commits,
+    metrics: calculateRunMetrics(plan, result),
+  };
+}
+
+/**
+ * Aggregate metrics for a finished run. Parallelization efficiency compares the
+ * measured duration of the plan's critical path with the wall-clock duration:
+ * 1 means the run took no longer than its longest dependency chain.
+ */
+export function calculateRunMetrics(plan: PlanV2, result: ExecutionResult): ExecutionMetrics {
+  const count = (status: RunReportTask['state']): number =>
+    result.tasks.filter((task) => task.status === status).length;
+  const durations = new Map(result.tasks.map((task) => [task.taskId, task.duration]));
+
+  const executed = result.tasks.filter((task) => task.status !== 'skipped');
+  const totalTaskDuration = executed.reduce((sum, task) => sum + task.duration, 0);
+
+  const { criticalPath } = DagValidator.calculateMetrics(plan);
+  const usages = result.tasks.map((task) => task.usage).filter((usage) => usage !== undefined);
+  const criticalPathDuration = criticalPath.reduce(
+    (sum, taskId) => sum + (durations.get(taskId) ?? 0),
+    0,
+  );
+
+  return {
+    taskCount: plan.tasks.length,
+    completedCount: count('success'),
+    failedCount: count('failure'),
+    skippedCount: count('skipped'),
+    totalDuration: result.totalDuration,
+    averageTaskDuration: executed.length > 0 ? totalTaskDuration / executed.length : 0,
+    criticalPathDuration,
+    parallelizationEfficiency:
+      result.totalDuration > 0 ? Math.min(1, criticalPathDuration / result.totalDuration) : 0,
+    ...(usages.length > 0 && { usage: addUsage(...usages) }),
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&apos;');
+}
+
+const seconds = (milliseconds: number): string => (milliseconds / 1000).toFixed(3);
+
+/**
+ * Render the report as JUnit XML, one test case per task
+ */
+export function formatJUnitReport(report: RunReport): string {
+  const { metrics, planName, startedAt, tasks } = report;
+  const suiteName = escapeXml(planName);
+
+  const testCases = tasks.map((task) => {
+    const attributes = `name="${escapeXml(task.taskId)}" classname="${suiteName}" time="${seconds(task.duration)}"`;
+    const properties = [
+      ['retries', String(task.retries)],
+      ...(task.exitCode !== undefined ? [['exitCode', String(task.exitCode)]] : []),
+      ...(task.commitHash !== undefined ? [['commitHash', task.commitHash]] : []),
+      ...(task.branchName !== undefined ? [['branchName', task.branchName]] : []),
+      ...(task.usage !== undefined
+        ? [
+            ['tokens', String(getTotalTokens(task.usage))],
+            ['costUsd', task.usage.costUsd.toFixed(4)],
+          ]
+        : []),
+    ]
+      .map(
+        ([name, value]) => `        <property name="${name}" value="${escapeXml(value ?? '')}"/>`,
+      )
+      .join('\n');
+
+    const outcome = match(task.state)
+      .with('failure', () => {
+        const details = task.violations.map(
+          (violation) => `${violation.file}: ${violation.reason.replaceAll('_', ' ')}`,
+        );
+        const message = escapeXml(task.error ?? 'Task failed');
+        return `      <failure message="${message}">${escapeXml(details.join('\n'))}</failure>\n`;
+      })
+      .with(
+        'skipped',
+        () => `      <skipped message="${escapeXml(task.error ?? 'Task skipped')}"/>\n`,
+      )
+      .with('success', () => '')
+      .exhaustive();
+
+    return [
+      `    <testcase ${attributes}>`,
+      '      <properties>',
+      properties,
+      '      </properties>',
+      `${outcome}    </testcase>`,
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="chopstack" tests="${metrics.taskCount}" failures="${metrics.failedCount}" skipped="${metrics.skippedCount}" time="${seconds(metrics.totalDuration)}">`,
+    `  <testsuite name="${suiteName}" tests="${tasks.length}" failures="${metrics.failedCount}" skipped="${metrics.skippedCount}" time="${seconds(metrics.totalDuration)}" timestamp="${startedAt}">`,
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * File-backed run reports under `.chopstack/runs/<jobId>/`
+ */
+export class RunReportServiceImpl implements RunReportService {
+  private readonly config: Required<RunReportConfig>;
+
+  constructor(config: RunReportConfig = {}) {
+    this.config = {
+      runsDir: join('.chopstack', 'runs'),
+      fileName: 'report.json',
+      ...config,
+    };
+  }
+
+  getReportPath(cwd: string, jobId: string): string {
+    return join(cwd, this.config.runsDir, jobId, this.config.fileName);
+  }
+
+  async save(cwd: string, report: RunReport): Promise<string> {
+    const reportPath = this.getReportPath(cwd, report.jobId);
+
+    // Keep reports out of task commits even when the target repo does not ignore .chopstack/
+    await mkdir(join(cwd, this.config.runsDir), { recursive: true });
+    await writeFile(join(cwd, this.config.runsDir, '.gitignore'), '*\n', 'utf8');
+    await this.write(reportPath, report, 'json');
+    return reportPath;
+  }
+
+  async write(filePath: string, report: RunReport, format: RunReportFormat): Promise<void> {
+    const content = match(format)
+      .with('json', () => `${JSON.stringify(report, null, 2)}\n`)
+      .with('junit', () => formatJUnitReport(report))
+      .exhaustive();
+
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, content, 'utf8');
+  }
+}
@@ -0,0 +1,144 @@
+import type { EventEmitter } from 'node:events';
+
+import type { FileLogWriter } from '@/services/logging/file-log-writer';
+
+import { logger } from '@/utils/global-logger';
+
+export type ShutdownSignal = 'SIGINT' | 'SIGTERM';
+
+const SHUTDOWN_SIGNALS: ShutdownSignal[] = ['SIGINT', 'SIGTERM'];
+
+// Conventional exit codes of a process terminated by a signal (128 + signal number)
+const SIGNAL_EXIT_CODES: Record<ShutdownSignal, number> = {
+  SIGINT: 130,
+  SIGTERM: 143,
+};
+
+/**
+ * The run a shutdown stops; implemented by the execution orchestrator
+ */
+export type ShutdownTarget = {
+  interrupt(reason: string): string[];
+  killStoppedTasks(): string[];
+};
+
+/**
+ * Configuration for the shutdown coordinator
+ */
+export type ShutdownCoordinatorConfig = {
+  /** How long stopped agents get to exit before they are killed */
+  gracePeriodMs?: number;
+  /** Log writer flushed once the shutdown starts */
+  logWriter?: FileLogWriter;
+  /** Where the signals come from (the current process by default) */
+  signalSource?: Pick<EventEmitter, 'on' | 'off'>;
+};
+
+/**
+ * Turns SIGINT/SIGTERM into a clean teardown of a run: the run is interrupted so running
+ * agents get SIGTERM, the ones still alive after the grace period (or on a second signal)
+ * get SIGKILL, and the log files are flushed. The interrupted run then persists its
+ * checkpoint and cleans up or keeps its worktrees before the command exits.
+ */
+export class ShutdownCoordinator {
+  private readonly config: Required<Omit<ShutdownCoordinatorConfig, 'logWriter'>>;
+  private readonly logWriter: FileLogWriter | undefined;
+  private readonly listeners = new Map<ShutdownSignal, () => void>();
+  private _signal: ShutdownSignal | undefined;
+  private _killTimer: ReturnType<typeof global.setTimeout> | undefined;
+
+  constructor(
+    private readonly _target: ShutdownTarget,
+    config: ShutdownCoordinatorConfig = {},
+  ) {
+    this.config = {
+      gracePeriodMs: config.gracePeriodMs ?? 10_000,
+      signalSource: config.signalSource ?? process,
+    };
+    this.logWriter = config.logWriter;
+  }
+
+  /**
+   * Start handling SIGINT and SIGTERM
+   */
+  install(): void {
+    for (const signal of SHUTDOWN_SIGNALS) {
+      const listener = (): void => {
+        this.shutdown(signal);
+      };
+      this.listeners.set(signal, listener);
+      this.config.signalSource.on(signal, listener);
+    }
+  }
+
+  /**
+   * Stop handling signals and cancel a pending force-kill
+   */
+  dispose(): void {
+    for (const [signal, listener] of this.listeners) {
+      this.config.signalSource.off(signal, listener);
+    }
+    this.listeners.clear();
+    if (this._killTimer !== undefined) {
+      global.clearTimeout(this._killTimer);
+      this._killTimer = undefined;
+    }
+  }
+
+  /**
+   * Interrupt the run; a second call kills the stopped agents without waiting
+   */
+  shutdown(signal: ShutdownSignal): void {
+    if (this._signal !== undefined) {
+      logger.warn(`🛑 Received ${signal} again, killing agent processes`);
+      this._killStoppedTasks();
+      return;
+    }
+
+    this._signal = signal;
+    const stopped = this._target.interrupt(signal);
+    logger.warn(
+      `🛑 Received ${signal}, stopping ${stopped.length} running task(s); ` +
+        `agents still running in ${Math.round(this.config.gracePeriodMs / 1000)}s are killed ` +
+        `(press Ctrl+C again to kill them now)`,
+    );
+
+    this._killTimer = global.setTimeout(() => {
+      this._killTimer = undefined;
+      this._killStoppedTasks();
+    }, this.config.gracePeriodMs);
+    // Don't keep the process alive just to kill agents that already exited
+    this._killTimer.unref();
+
+    void this._flushLogs();
+  }
+
+  /**
+   * The signal that interrupted the run, if any
+   */
+  getSignal(): ShutdownSignal | undefined {
+    return this._signal;
+  }
+
+  /**
+   * Exit code for the command: 130 after SIGINT, 143 after SIGTERM
+   */
+  getExitCode(): number | undefined {
+    return this._signal === undefined ? undefined : SIGNAL_EXIT_CODES[this._signal];
+  }
+
+  private _killStoppedTasks(): void {
+    const killed = this._target.killStoppedTasks();
+    if (killed.length > 0) {
+      void this._flushLogs();
+    }
+  }
+
+  private async _flushLogs(): Promise<void> {
+    try {
+      await this.logWriter?.flush();
+    } catch (error) {
+      logger.debug(`Failed to flush logs during shutdown: ${String(error)}`);
+    }
+  }
+}
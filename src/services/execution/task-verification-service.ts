@@ -0,0 +1,90 @@
+import { execa } from 'execa';
+
+import type { VerificationResult } from '@/core/execution/types';
+
+import { logger } from '@/utils/global-logger';
+
+/**
+ * Maximum characters of command output kept per verification result
+ */
+export const VERIFICATION_OUTPUT_LIMIT = 4000;
+
+/**
+ * Configuration for the task verification service
+ */
+export type TaskVerificationConfig = {
+  outputLimit?: number;
+  timeout?: number;
+};
+
+/**
+ * Runs a task's verification commands (type-checks, tests) in its working directory
+ */
+export type TaskVerificationService = {
+  /**
+   * Run the commands in order, stopping at the first one that fails
+   */
+  verify(commands: string[], cwd: string, attempt: number): Promise<VerificationResult[]>;
+};
+
+/**
+ * Keep the tail of the output, where compilers and test runners print their summaries
+ */
+function truncateOutput(output: string, limit: number): string {
+  return output.length > limit ? `…${output.slice(-limit)}` : output;
+}
+
+/**
+ * Shell-based verification using the user's commands verbatim
+ */
+export class TaskVerificationServiceImpl implements TaskVerificationService {
+  private readonly config: Required<TaskVerificationConfig>;
+
+  constructor(config: TaskVerificationConfig = {}) {
+    this.config = {
+      outputLimit: VERIFICATION_OUTPUT_LIMIT,
+      timeout: 10 * 60 * 1000,
+      ...config,
+    };
+  }
+
+  async verify(commands: string[], cwd: string, attempt: number): Promise<VerificationResult[]> {
+    const results: VerificationResult[] = [];
+
+    for (const command of commands) {
+      logger.info(`  🧪 Verifying: ${command}`);
+      const start = Date.now();
+      const result = await execa(command, {
+        cwd,
+        shell: true,
+        all: true,
+        reject: false,
+        timeout: this.config.timeout,
+      });
+
+      const passed = result.exitCode === 0 && !result.timedOut;
+      const output = result.timedOut ? `Timed out after ${this.config.timeout}ms` : '';
+      results.push({
+        attempt,
+        command,
+        duration: Date.now() - start,
+        passed,
+        output: truncateOutput(
+          [output, result.all].filter((part) => part !== '').join('\n'),
+          this.config.outputLimit,
+        ),
+        ...(result.exitCode !== undefined && { exitCode: result.exitCode }),
+      });
+
+      if (!passed) {
+        logger.warn(
+          `  ❌ Verification failed: ${command} (exit code ${result.exitCode ?? 'none'})`,
+        );
+        break;
+      }
+      logger.info(`  ✅ Verification passed: ${command}`);
+    }
+
+    return results;
+  }
+}
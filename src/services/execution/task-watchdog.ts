@@ -0,0 +1,108 @@
+import type { TaskTimeouts } from '@/core/execution/types';
+import type { StreamingUpdate, TaskOrchestrator } from '@/services/orchestration';
+
+import { formatDuration } from '@/core/execution/task-timeouts';
+import { logger } from '@/utils/global-logger';
+
+/**
+ * Configuration for the task watchdog
+ */
+export type TaskWatchdogConfig = {
+  /** How long a timed-out agent gets to exit after SIGTERM before it is killed */
+  killGracePeriodMs?: number;
+};
+
+/**
+ * Enforces idle and wall-clock limits on running tasks for any task execution adapter:
+ * every streaming update counts as activity, and a task over its limit is stopped and,
+ * if its agent does not exit, killed
+ */
+export class TaskWatchdog {
+  private readonly config: Required<TaskWatchdogConfig>;
+
+  constructor(
+    private readonly _orchestrator: Pick<TaskOrchestrator, 'killTask' | 'off' | 'on' | 'stopTask'>,
+    config: TaskWatchdogConfig = {},
+  ) {
+    this.config = {
+      killGracePeriodMs: 10_000,
+      ...config,
+    };
+  }
+
+  /**
+   * Watch a task attempt until the returned function is called. `onTimeout` gets the
+   * failure reason right before the task is stopped.
+   */
+  watch(taskId: string, timeouts: TaskTimeouts, onTimeout: (reason: string) => void): () => void {
+    const timers = new Set<ReturnType<typeof global.setTimeout>>();
+    let idleTimer: ReturnType<typeof global.setTimeout> | undefined;
+    let timedOut = false;
+
+    const schedule = (
+      delayMs: number,
+      onExpire: () => void,
+    ): ReturnType<typeof global.setTimeout> => {
+      const timer = global.setTimeout(() => {
+        timers.delete(timer);
+        onExpire();
+      }, delayMs);
+      timers.add(timer);
+      return timer;
+    };
+
+    const expire = (reason: string): void => {
+      if (timedOut) {
+        return;
+      }
+      timedOut = true;
+      logger.warn(`[chopstack] ⏱️ Task ${taskId}: ${reason}`);
+      onTimeout(reason);
+      this._orchestrator.stopTask(taskId);
+      schedule(this.config.killGracePeriodMs, () => {
+        this._orchestrator.killTask(taskId);
+      });
+    };
+
+    const resetIdleTimer = (): void => {
+      if (timeouts.idle === undefined || timedOut) {
+        return;
+      }
+      if (idleTimer !== undefined) {
+        global.clearTimeout(idleTimer);
+        timers.delete(idleTimer);
+      }
+      const { idle } = timeouts;
+      idleTimer = schedule(idle, () => {
+        expire(`Task timed out: no agent activity for ${formatDuration(idle)} (idle timeout)`);
+      });
+    };
+
+    const onTaskUpdate = (update: StreamingUpdate): void => {
+      if (update.taskId === taskId) {
+        resetIdleTimer();
+      }
+    };
+
+    if (timeouts.wallClock !== undefined) {
+      const { wallClock } = timeouts;
+      schedule(wallClock, () => {
+        expire(`Task timed out after ${formatDuration(wallClock)} (wall-clock timeout)`);
+      });
+    }
+    if (timeouts.idle !== undefined) {
+      this._orchestrator.on('taskUpdate', onTaskUpdate);
+      resetIdleTimer();
+    }
+
+    return () => {
+      for (const timer of timers) {
+        global.clearTimeout(timer);
+      }
+      timers.clear();
+      if (timeouts.idle !== undefined) {
+        this._orchestrator.off('taskUpdate', onTaskUpdate);
+      }
+    };
+  }
+}
@@ -0,0 +1,160 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { z } from 'zod';
+
+import type { ExecutionResult } from '@/core/execution/interfaces';
+
+import { getTotalTokens } from '@/core/execution/task-usage';
+import { type Complexity, complexitySchema, type PlanV2 } from '@/types/schemas-v2';
+import { logger } from '@/utils/global-logger';
+
+/**
+ * Usage summed over every executed task of one complexity size
+ */
+export const UsageSampleSchema = z.object({
+  costUsd: z.number().min(0),
+  taskCount: z.number().int().min(0),
+  tokens: z.number().int().min(0),
+});
+export type UsageSample = z.infer<typeof UsageSampleSchema>;
+
+/**
+ * Historical usage per complexity size, accumulated over execute runs
+ */
+export const UsageHistorySchema = z.object({
+  sizes: z.partialRecord(complexitySchema, UsageSampleSchema),
+  updatedAt: z.coerce.date(),
+  version: z.literal(1),
+});
+export type UsageHistory = z.infer<typeof UsageHistorySchema>;
+
+/**
+ * Expected usage of a plan based on the average usage of past tasks of the same size
+ */
+export type UsageEstimate = {
+  costUsd: number;
+  /** Tasks whose size has history and contributed to the estimate */
+  estimatedTaskCount: number;
+  tokens: number;
+  /** Sizes in the plan without any history */
+  unknownSizes: Complexity[];
+};
+
+/**
+ * Configuration for the usage history service
+ */
+export type UsageHistoryConfig = {
+  fileName?: string;
+  historyDir?: string;
+};
+
+/**
+ * Keeps token and cost history per complexity size for pre-execution estimates
+ */
+export type UsageHistoryService = {
+  /**
+   * Load the history for a working directory; empty when none was recorded yet
+   */
+  load(cwd: string): Promise<UsageHistory>;
+
+  /**
+   * Add the usage of a run's executed tasks to the history
+   */
+  record(cwd: string, plan: PlanV2, result: ExecutionResult): Promise<void>;
+};
+
+/**
+ * Estimate a plan's usage from the average usage of each complexity size
+ */
+export function estimatePlanUsage(plan: PlanV2, history: UsageHistory): UsageEstimate {
+  const estimate: UsageEstimate = {
+    costUsd: 0,
+    estimatedTaskCount: 0,
+    tokens: 0,
+    unknownSizes: [],
+  };
+
+  for (const task of plan.tasks) {
+    const sample = history.sizes[task.complexity];
+    if (sample === undefined || sample.taskCount === 0) {
+      if (!estimate.unknownSizes.includes(task.complexity)) {
+        estimate.unknownSizes.push(task.complexity);
+      }
+      continue;
+    }
+    estimate.costUsd += sample.costUsd / sample.taskCount;
+    estimate.tokens += Math.round(sample.tokens / sample.taskCount);
+    estimate.estimatedTaskCount++;
+  }
+
+  return estimate;
+}
+
+/**
+ * File-backed usage history under `.chopstack/usage/`
+ */
+export class UsageHistoryServiceImpl implements UsageHistoryService {
+  private readonly config: Required<UsageHistoryConfig>;
+
+  constructor(config: UsageHistoryConfig = {}) {
+    this.config = {
+      historyDir: join('.chopstack', 'usage'),
+      fileName: 'history.json',
+      ...config,
+    };
+  }
+
+  async load(cwd: string): Promise<UsageHistory> {
+    const historyPath = join(cwd, this.config.historyDir, this.config.fileName);
+
+    let content: string;
+    try {
+      content = await readFile(historyPath, 'utf8');
+    } catch {
+      logger.debug(`No usage history found at ${historyPath}`);
+      return { sizes: {}, updatedAt: new Date(), version: 1 };
+    }
+
+    try {
+      return UsageHistorySchema.parse(JSON.parse(content));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid usage history at ${historyPath}: ${message}`);
+    }
+  }
+
+  async record(cwd: string, plan: PlanV2, result: ExecutionResult): Promise<void> {
+    const complexities = new Map(plan.tasks.map((task) => [task.id, task.complexity]));
+    const history = await this.load(cwd);
+
+    let recorded = 0;
+    for (const taskResult of result.tasks) {
+      const complexity = complexities.get(taskResult.taskId);
+      if (complexity === undefined || taskResult.usage === undefined) {
+        continue;
+      }
+      const sample = history.sizes[complexity] ?? { costUsd: 0, taskCount: 0, tokens: 0 };
+      history.sizes[complexity] = {
+        costUsd: sample.costUsd + taskResult.usage.costUsd,
+        taskCount: sample.taskCount + 1,
+        tokens: sample.tokens + getTotalTokens(taskResult.usage),
+      };
+      recorded++;
+    }
+    if (recorded === 0) {
+      return;
+    }
+
+    const directory = join(cwd, this.config.historyDir);
+    await mkdir(directory, { recursive: true });
+
+    // Keep the history out of task commits even when the target repo does not ignore .chopstack/
+    await writeFile(join(directory, '.gitignore'), '*\n', 'utf8');
+    await writeFile(
+      join(directory, this.config.fileName),
+      JSON.stringify({ ...history, updatedAt: new Date() }, null, 2),
+      'utf8',
+    );
+  }
+}
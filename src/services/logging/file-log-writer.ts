@@ -205,6 +205,26 @@ export class FileLogWriter {
     }
   }
 
+  /**
+   * Wait until everything written so far reached the log files; streams stay open
+   */
+  async flush(): Promise<void> {
+    const openStreams = [
+      ...this.streams.values(),
+      ...(this._globalStream === null ? [] : [this._globalStream]),
+    ];
+    await Promise.all(
+      openStreams.map(
+        async (stream) =>
+          new Promise<void>((resolve) => {
+            stream.write('', () => {
+              resolve();
+            });
+          }),
+      ),
+    );
+  }
+
   /**
    * Close all streams
    */
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  estimateTokens,
+  fitSpecToTokenBudget,
+  formatExecutionContextPrompt,
+} from '../execution-context-prompt';
+
+describe('execution context prompt', () => {
+  const task = {
+    name: 'Create theme provider',
+    description: 'Implement the ThemeProvider component with persistence',
+    files: ['src/theme/provider.tsx'],
+  };
+
+  const spec = [
+    '# Dark Mode',
+    'Users can switch between light and dark themes.',
+    '## Theme Provider',
+    `The provider persists the selected theme. ${'p'.repeat(400)}`,
+    '## Analytics',
+    `Track toggle usage in the analytics pipeline. ${'a'.repeat(400)}`,
+    '## Accessibility',
+    `Contrast ratios must meet WCAG AA. ${'c'.repeat(400)}`,
+  ].join('\n');
+
+  describe('fitSpecToTokenBudget', () => {
+    it('should return the spec unchanged when it fits the budget', () => {
+      expect(fitSpecToTokenBudget(spec, task, estimateTokens(spec))).toBe(spec);
+    });
+
+    it('should keep the preamble and the most relevant sections', () => {
+      const trimmed = fitSpecToTokenBudget(spec, task, 150);
+
+      expect(trimmed).toContain('# Dark Mode');
+      expect(trimmed).toContain('## Theme Provider');
+      expect(trimmed).not.toContain('## Analytics');
+      expect(trimmed).toContain('specification section(s) omitted');
+      expect(estimateTokens(trimmed)).toBeLessThanOrEqual(170);
+    });
+
+    it('should truncate specs whose preamble alone exceeds the budget', () => {
+      const trimmed = fitSpecToTokenBudget(`# Huge\n${'x'.repeat(1000)}`, task, 50);
+
+      expect(trimmed).toContain('[Specification truncated to fit the token budget]');
+      expect(trimmed.length).toBeLessThan(300);
+    });
+  });
+
+  describe('formatExecutionContextPrompt', () => {
+    it('should include the plan, specification and success metrics', () => {
+      const prompt = formatExecutionContextPrompt({
+        specContent: '# Dark Mode\nSpec body',
+        planMetadata: {
+          name: 'Dark Mode Implementation',
+          description: 'Add dark mode toggle',
+          successMetrics: {
+            quantitative: ['Test coverage: 100%'],
+            qualitative: ['Smooth transitions'],
+          },
+        },
+      });
+
+      expect(prompt).toContain('## Plan: Dark Mode Implementation');
+      expect(prompt).toContain('Add dark mode toggle');
+      expect(prompt).toContain('## Feature Specification');
+      expect(prompt).toContain('Spec body');
+      expect(prompt).toContain('## Success Metrics');
+      expect(prompt).toContain('- Test coverage: 100%');
+      expect(prompt).toContain('- Smooth transitions');
+    });
+
+    it('should omit empty success metrics', () => {
+      const prompt = formatExecutionContextPrompt({
+        specContent: 'Spec body',
+        planMetadata: { name: 'Plan', successMetrics: { quantitative: [], qualitative: [] } },
+      });
+
+      expect(prompt).not.toContain('## Success Metrics');
+    });
+  });
+});
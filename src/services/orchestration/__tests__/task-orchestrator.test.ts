@@ -1,5 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
+import type { TaskUsage } from '@/core/execution/types';
+
 import { isNonNullish } from '@/validation/guards';
 
 import type { StreamingUpdate, TaskExecutionAdapter } from '../types';
@@ -51,6 +53,35 @@ describe('TaskOrchestrator', () => {
       expect(orchestrator.getTaskOutput('task-1')).toBe('Task completed successfully');
     });
 
+    it('should pass the execution context to the adapter', async () => {
+      vi.mocked(mockAdapter.executeTask).mockResolvedValue({
+        taskId: 'task-1',
+        mode: 'execute',
+        status: 'completed',
+      });
+      const executionContext = {
+        specContent: '# Spec',
+        planMetadata: { name: 'Plan' },
+      };
+
+      await orchestrator.executeTask(
+        'task-1',
+        'Test Task',
+        'Do something',
+        ['file1.ts'],
+        '/test',
+        'execute',
+        'claude',
+        undefined,
+        executionContext,
+      );
+
+      expect(mockAdapter.executeTask).toHaveBeenCalledWith(
+        expect.objectContaining({ executionContext }),
+        expect.any(Function),
+      );
+    });
+
     it('should throw TaskExecutionError when adapter throws', async () => {
       const error = new TaskExecutionError('Task failed', 'task-1', undefined, 127, {
         stderr: 'Command not found',
@@ -146,6 +177,62 @@ describe('TaskOrchestrator', () => {
     });
   });
 
+  describe('usage', () => {
+    const usage = (inputTokens: number, costUsd: number): TaskUsage => ({
+      inputTokens,
+      outputTokens: 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+      costUsd,
+    });
+
+    it('should add up usage over attempts and emit the task total', async () => {
+      vi.mocked(mockAdapter.executeTask)
+        .mockImplementationOnce(async (request, emitUpdate) => {
+          await Promise.resolve();
+          emitUpdate({
+            taskId: request.taskId,
+            type: 'usage',
+            data: JSON.stringify(usage(100, 0.1)),
+            timestamp: new Date(),
+          });
+          throw new Error('Process exited with code 1');
+        })
+        .mockResolvedValueOnce({
+          taskId: 'task-1',
+          mode: 'execute',
+          status: 'completed',
+          usage: usage(50, 0.05),
+        });
+
+      await expect(
+        orchestrator.executeTask('task-1', 'Test Task', 'Do something', []),
+      ).rejects.toThrow();
+      await orchestrator.executeTask('task-1', 'Test Task', 'Do something', []);
+
+      const usageUpdate = emittedUpdates.find((update) => update.type === 'usage');
+      expect(JSON.parse(usageUpdate?.data ?? '{}')).toEqual(usage(100, 0.1));
+      expect(orchestrator.getTaskUsage('task-1')).toMatchObject({
+        inputTokens: 150,
+        costUsd: expect.closeTo(0.15),
+      });
+      expect(orchestrator.getTotalUsage().inputTokens).toBe(150);
+    });
+
+    it('should ignore malformed usage updates', async () => {
+      vi.mocked(mockAdapter.executeTask).mockImplementation(async (request, emitUpdate) => {
+        await Promise.resolve();
+        emitUpdate({ taskId: request.taskId, type: 'usage', data: '{}', timestamp: new Date() });
+        return { taskId: request.taskId, mode: 'execute', status: 'completed' };
+      });
+
+      await orchestrator.executeTask('task-1', 'Test Task', 'Do something', []);
+
+      expect(orchestrator.getTaskUsage('task-1')).toBeUndefined();
+      expect(emittedUpdates.some((update) => update.type === 'usage')).toBe(false);
+    });
+  });
+
   describe('stopTask', () => {
     it('should stop a task successfully', () => {
       if (isNonNullish(mockAdapter.stopTask)) {
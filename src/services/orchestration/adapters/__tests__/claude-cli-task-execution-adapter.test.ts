@@ -0,0 +1,144 @@
+import { spawn } from 'node:child_process';
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { StreamingUpdate, TaskExecutionRequest } from '@/services/orchestration/types';
+
+import { ExecutionEventBus } from '@/services/events/execution-event-bus';
+
+import { ClaudeCliTaskExecutionAdapter } from '../claude-cli-task-execution-adapter';
+
+vi.mock('node:child_process', () => ({
+  spawn: vi.fn(),
+}));
+
+vi.mock('@/utils/global-logger', () => ({
+  logger: {
+    warn: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+type FakeProcess = EventEmitter & {
+  kill: ReturnType<typeof vi.fn>;
+  stderr: PassThrough;
+  stdin: PassThrough;
+  stdout: PassThrough;
+};
+
+function createFakeProcess(): FakeProcess {
+  const child = new EventEmitter() as FakeProcess;
+  child.stdout = new PassThrough();
+  child.stderr = new PassThrough();
+  child.stdin = new PassThrough();
+  child.kill = vi.fn(() => {
+    child.emit('close', null);
+    return true;
+  });
+  return child;
+}
+
+function jsonl(...events: Array<Record<string, unknown>>): string {
+  return `${events.map((event) => JSON.stringify(event)).join('\n')}\n`;
+}
+
+describe('ClaudeCliTaskExecutionAdapter usage tracking', () => {
+  let adapter: ClaudeCliTaskExecutionAdapter;
+  let child: FakeProcess;
+  let updates: StreamingUpdate[];
+
+  const request: TaskExecutionRequest = {
+    taskId: 'task-1',
+    title: 'Create Toggle',
+    prompt: 'Create the dark mode toggle component',
+    files: ['src/toggle.tsx'],
+    mode: 'execute',
+  };
+
+  const emitUpdate = (update: StreamingUpdate): void => {
+    updates.push(update);
+  };
+
+  // Stream the events, then end the session
+  const run = async (
+    ...events: Array<Record<string, unknown>>
+  ): ReturnType<typeof adapter.executeTask> => {
+    const resultPromise = adapter.executeTask(request, emitUpdate);
+    child.stdout.write(jsonl(...events));
+    await new Promise((resolve) => global.setTimeout(resolve, 0));
+    child.emit('close', 0);
+    return resultPromise;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    child = createFakeProcess();
+    updates = [];
+    vi.mocked(spawn).mockReturnValue(child as unknown as ReturnType<typeof spawn>);
+    adapter = new ClaudeCliTaskExecutionAdapter({ eventBus: new ExecutionEventBus() });
+  });
+
+  it('should count each assistant message once while the session runs', async () => {
+    const message = {
+      id: 'msg-1',
+      usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 100 },
+    };
+
+    const result = await run(
+      { type: 'assistant', message },
+      { type: 'assistant', message },
+      {
+        type: 'assistant',
+        message: { id: 'msg-2', usage: { input_tokens: 20, output_tokens: 7 } },
+      },
+    );
+
+    expect(result.usage).toEqual({
+      inputTokens: 30,
+      outputTokens: 12,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 100,
+      costUsd: 0,
+    });
+    expect(updates.filter((update) => update.type === 'usage')).toHaveLength(3);
+  });
+
+  it('should use the result event totals and cost once the session ends', async () => {
+    const result = await run(
+      {
+        type: 'assistant',
+        message: { id: 'msg-1', usage: { input_tokens: 10, output_tokens: 5 } },
+      },
+      {
+        type: 'result',
+        subtype: 'success',
+        total_cost_usd: 0.42,
+        usage: {
+          input_tokens: 40,
+          output_tokens: 25,
+          cache_creation_input_tokens: 300,
+          cache_read_input_tokens: 1200,
+        },
+      },
+    );
+
+    expect(result.usage).toEqual({
+      inputTokens: 40,
+      outputTokens: 25,
+      cacheCreationInputTokens: 300,
+      cacheReadInputTokens: 1200,
+      costUsd: 0.42,
+    });
+  });
+
+  it('should report no usage when the agent sends none', async () => {
+    const result = await run({ type: 'system', subtype: 'init' });
+
+    expect(result.usage).toBeUndefined();
+    expect(updates.some((update) => update.type === 'usage')).toBe(false);
+  });
+});
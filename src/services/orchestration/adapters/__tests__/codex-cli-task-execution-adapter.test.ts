@@ -0,0 +1,198 @@
+import { spawn } from 'node:child_process';
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+
+import { execa } from 'execa';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { StreamingUpdate, TaskExecutionRequest } from '@/services/orchestration/types';
+
+import { ExecutionEventBus } from '@/services/events/execution-event-bus';
+
+import { CodexCliTaskExecutionAdapter } from '../codex-cli-task-execution-adapter';
+
+vi.mock('node:child_process', () => ({
+  spawn: vi.fn(),
+}));
+
+vi.mock('@/utils/global-logger', () => ({
+  logger: {
+    warn: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+type FakeProcess = EventEmitter & {
+  kill: ReturnType<typeof vi.fn>;
+  stderr: PassThrough;
+  stdin: PassThrough;
+  stdout: PassThrough;
+};
+
+function createFakeProcess(): FakeProcess {
+  const child = new EventEmitter() as FakeProcess;
+  child.stdout = new PassThrough();
+  child.stderr = new PassThrough();
+  child.stdin = new PassThrough();
+  child.kill = vi.fn(() => {
+    child.emit('close', null);
+    return true;
+  });
+  return child;
+}
+
+function jsonl(...messages: Array<Record<string, unknown>>): string {
+  return `${messages.map((msg) => JSON.stringify({ id: '0', msg })).join('\n')}\n`;
+}
+
+describe('CodexCliTaskExecutionAdapter', () => {
+  let child: FakeProcess;
+  let eventBus: ExecutionEventBus;
+  let updates: StreamingUpdate[];
+
+  const request: TaskExecutionRequest = {
+    taskId: 'create-toggle',
+    title: 'Create Toggle',
+    prompt: 'Create the dark mode toggle component',
+    files: ['src/toggle.tsx'],
+    mode: 'execute',
+    workdir: '/repo/.chopstack/shadows/create-toggle',
+  };
+
+  const emitUpdate = (update: StreamingUpdate): void => {
+    updates.push(update);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    child = createFakeProcess();
+    eventBus = new ExecutionEventBus();
+    updates = [];
+    vi.mocked(spawn).mockReturnValue(child as unknown as ReturnType<typeof spawn>);
+    vi.mocked(execa).mockResolvedValue({ stdout: ' M src/toggle.tsx\n?? src/toggle.css' } as never);
+  });
+
+  it('should run codex exec in the worktree with a writable sandbox', async () => {
+    const adapter = new CodexCliTaskExecutionAdapter({ command: 'codex', eventBus });
+    let prompt = '';
+    child.stdin.on('data', (chunk: Buffer) => {
+      prompt += chunk.toString();
+    });
+
+    const resultPromise = adapter.executeTask(request, emitUpdate);
+    child.emit('close', 0);
+    const result = await resultPromise;
+
+    expect(spawn).toHaveBeenCalledWith(
+      'codex',
+      [
+        'exec',
+        '--json',
+        '--color',
+        'never',
+        '--sandbox',
+        'workspace-write',
+        '--cd',
+        request.workdir,
+        '-',
+      ],
+      expect.objectContaining({ cwd: request.workdir }),
+    );
+    expect(prompt).toContain('Task: Create Toggle');
+    expect(result.status).toBe('completed');
+    expect(result.filesChanged).toEqual(['src/toggle.tsx', 'src/toggle.css']);
+  });
+
+  it('should use a read-only sandbox outside execute mode', async () => {
+    const adapter = new CodexCliTaskExecutionAdapter({ command: 'codex', eventBus });
+
+    const resultPromise = adapter.executeTask({ ...request, mode: 'dry-run' }, emitUpdate);
+    child.emit('close', 0);
+    await resultPromise;
+
+    expect(vi.mocked(spawn).mock.calls[0]?.[1]).toContain('read-only');
+  });
+
+  it('should stream codex events onto the event bus', async () => {
+    const adapter = new CodexCliTaskExecutionAdapter({ command: 'codex', eventBus });
+    const streamed: unknown[] = [];
+    eventBus.on('stream:data', ({ event }: { event: unknown }) => {
+      streamed.push(event);
+    });
+
+    const resultPromise = adapter.executeTask(request, emitUpdate);
+    child.stdout.write(
+      jsonl(
+        { type: 'agent_reasoning', text: 'Looking at the settings page' },
+        { type: 'exec_command_begin', command: ['ls', 'src'] },
+        { type: 'patch_apply_begin', changes: { 'src/toggle.tsx': { add: {} } } },
+        { type: 'agent_message', message: 'Created the toggle' },
+      ),
+    );
+    await new Promise((resolve) => global.setTimeout(resolve, 0));
+    child.emit('close', 0);
+    const result = await resultPromise;
+
+    expect(streamed).toEqual([
+      { type: 'thinking', content: 'Looking at the settings page' },
+      { type: 'tool_use', tool: 'Bash', input: { command: 'ls src' } },
+      { type: 'tool_use', tool: 'Edit', input: { files: ['src/toggle.tsx'] } },
+      { type: 'content', content: 'Created the toggle' },
+    ]);
+    expect(result.output).toBe('Created the toggle');
+    expect(updates.at(-1)).toMatchObject({ type: 'status', data: 'completed' });
+  });
+
+  it('should fall back to patched files when git status reports nothing', async () => {
+    vi.mocked(execa).mockResolvedValue({ stdout: '' } as never);
+    const adapter = new CodexCliTaskExecutionAdapter({ command: 'codex', eventBus });
+
+    const resultPromise = adapter.executeTask(request, emitUpdate);
+    child.stdout.write(jsonl({ type: 'patch_apply_begin', changes: { 'src/toggle.tsx': {} } }));
+    await new Promise((resolve) => global.setTimeout(resolve, 0));
+    child.emit('close', 0);
+
+    await expect(resultPromise).resolves.toMatchObject({ filesChanged: ['src/toggle.tsx'] });
+  });
+
+  it('should reject with a failed result when codex exits non-zero', async () => {
+    const adapter = new CodexCliTaskExecutionAdapter({ command: 'codex', eventBus });
+
+    const resultPromise = adapter.executeTask(request, emitUpdate);
+    child.emit('close', 2);
+
+    await expect(resultPromise).rejects.toMatchObject({
+      status: 'failed',
+      exitCode: 2,
+      error: 'Process exited with code 2',
+    });
+    expect(adapter.getAllTaskStatuses().get('create-toggle')).toBe('failed');
+  });
+
+  it('should stop a running task', async () => {
+    const adapter = new CodexCliTaskExecutionAdapter({ command: 'codex', eventBus });
+
+    const resultPromise = adapter.executeTask(request, emitUpdate);
+    expect(adapter.getAllTaskStatuses().get('create-toggle')).toBe('running');
+
+    expect(adapter.stopTask('create-toggle')).toBe(true);
+    expect(child.kill).toHaveBeenCalledWith('SIGTERM');
+    await expect(resultPromise).rejects.toMatchObject({ status: 'stopped' });
+    expect(adapter.getAllTaskStatuses().get('create-toggle')).toBe('stopped');
+    expect(adapter.stopTask('create-toggle')).toBe(false);
+  });
+
+  it('should reject when the codex binary cannot be spawned', async () => {
+    const adapter = new CodexCliTaskExecutionAdapter({ command: 'missing-codex', eventBus });
+
+    const resultPromise = adapter.executeTask(request, emitUpdate);
+    child.emit('error', new Error('spawn missing-codex ENOENT'));
+
+    await expect(resultPromise).rejects.toMatchObject({
+      status: 'failed',
+      error: 'Failed to spawn Codex CLI: spawn missing-codex ENOENT',
+    });
+  });
+});
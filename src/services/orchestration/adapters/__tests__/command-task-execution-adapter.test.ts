@@ -0,0 +1,185 @@
+import { spawn } from 'node:child_process';
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+
+import { execa } from 'execa';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { CommandAgentConfig } from '@/core/config/types';
+import type { StreamingUpdate, TaskExecutionRequest } from '@/services/orchestration/types';
+
+import { ExecutionEventBus } from '@/services/events/execution-event-bus';
+
+import { CommandTaskExecutionAdapter } from '../command-task-execution-adapter';
+
+vi.mock('node:child_process', () => ({
+  spawn: vi.fn(),
+}));
+
+vi.mock('@/utils/global-logger', () => ({
+  logger: {
+    warn: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+type FakeProcess = EventEmitter & {
+  kill: ReturnType<typeof vi.fn>;
+  stderr: PassThrough;
+  stdin: PassThrough;
+  stdout: PassThrough;
+};
+
+function createFakeProcess(): FakeProcess {
+  const child = new EventEmitter() as FakeProcess;
+  child.stdout = new PassThrough();
+  child.stderr = new PassThrough();
+  child.stdin = new PassThrough();
+  child.kill = vi.fn(() => {
+    child.emit('close', null);
+    return true;
+  });
+  return child;
+}
+
+describe('CommandTaskExecutionAdapter', () => {
+  let child: FakeProcess;
+  let eventBus: ExecutionEventBus;
+  let updates: StreamingUpdate[];
+
+  const request: TaskExecutionRequest = {
+    taskId: 'create-toggle',
+    title: 'Create Toggle',
+    prompt: 'Create the dark mode toggle component',
+    files: ['src/toggle.tsx', 'src/toggle.css'],
+    mode: 'execute',
+    workdir: '/repo/.chopstack/shadows/create-toggle',
+  };
+
+  const emitUpdate = (update: StreamingUpdate): void => {
+    updates.push(update);
+  };
+
+  const createAdapter = (config: Omit<CommandAgentConfig, 'type'>): CommandTaskExecutionAdapter =>
+    new CommandTaskExecutionAdapter('aider', { type: 'command', ...config }, { eventBus });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    child = createFakeProcess();
+    eventBus = new ExecutionEventBus();
+    updates = [];
+    vi.mocked(spawn).mockReturnValue(child as unknown as ReturnType<typeof spawn>);
+    vi.mocked(execa).mockResolvedValue({ stdout: ' M src/toggle.tsx' } as never);
+  });
+
+  it('should pass the prompt and files in place of their placeholders', async () => {
+    const adapter = createAdapter({ execute: 'aider --yes --message {prompt} {files}' });
+
+    const resultPromise = adapter.executeTask(request, emitUpdate);
+    child.stdout.write('Applied edit to src/toggle.tsx\n');
+    await new Promise((resolve) => global.setTimeout(resolve, 0));
+    child.emit('close', 0);
+    const result = await resultPromise;
+
+    const [command, args, options] = vi.mocked(spawn).mock.calls[0] ?? [];
+    expect(command).toBe('aider');
+    expect(args?.slice(0, 2)).toEqual(['--yes', '--message']);
+    expect(args?.[2]).toContain('Task: Create Toggle');
+    expect(args?.slice(3)).toEqual(['src/toggle.tsx', 'src/toggle.css']);
+    expect(options).toMatchObject({ cwd: request.workdir });
+    expect(result).toMatchObject({
+      status: 'completed',
+      output: 'Applied edit to src/toggle.tsx',
+      filesChanged: ['src/toggle.tsx'],
+    });
+  });
+
+  it('should write the prompt to stdin when the template has no prompt placeholder', async () => {
+    const adapter = createAdapter({ execute: ['gemini', '--yolo', '--cwd', '{workdir}'] });
+    let prompt = '';
+    child.stdin.on('data', (chunk: Buffer) => {
+      prompt += chunk.toString();
+    });
+
+    const resultPromise = adapter.executeTask(request, emitUpdate);
+    child.emit('close', 0);
+    await resultPromise;
+
+    expect(spawn).toHaveBeenCalledWith(
+      'gemini',
+      ['--yolo', '--cwd', request.workdir],
+      expect.anything(),
+    );
+    expect(prompt).toContain('Create the dark mode toggle component');
+  });
+
+  it('should forward the text of JSON lines onto the event bus', async () => {
+    const adapter = createAdapter({
+      execute: ['tool', 'run'],
+      outputFormat: 'jsonl',
+      textField: 'message.content',
+    });
+    const streamed: unknown[] = [];
+    eventBus.on('stream:data', ({ event }: { event: unknown }) => {
+      streamed.push(event);
+    });
+
+    const resultPromise = adapter.executeTask(request, emitUpdate);
+    child.stdout.write(
+      `${JSON.stringify({ message: { content: 'Created the toggle' } })}\n${JSON.stringify({ type: 'usage' })}\nplain banner\n`,
+    );
+    await new Promise((resolve) => global.setTimeout(resolve, 0));
+    child.emit('close', 0);
+    const result = await resultPromise;
+
+    expect(streamed).toEqual([
+      { type: 'content', content: 'Created the toggle' },
+      { type: 'content', content: 'plain banner' },
+    ]);
+    expect(result.output).toBe('Created the toggle\nplain banner');
+  });
+
+  it('should run the query command outside execute mode', async () => {
+    const adapter = createAdapter({ execute: ['tool', 'edit'], query: ['tool', 'ask'] });
+
+    const resultPromise = adapter.executeTask({ ...request, mode: 'plan' }, emitUpdate);
+    child.emit('close', 0);
+    await resultPromise;
+
+    expect(vi.mocked(spawn).mock.calls[0]?.[1]).toEqual(['ask']);
+  });
+
+  it('should reject when the agent has no execute command', async () => {
+    const adapter = createAdapter({ query: ['tool', 'ask'] });
+
+    await expect(adapter.executeTask(request, emitUpdate)).rejects.toThrow(
+      "Agent 'aider' has no execute command configured",
+    );
+    expect(spawn).not.toHaveBeenCalled();
+  });
+
+  it('should reject with a failed result when the command exits non-zero', async () => {
+    const adapter = createAdapter({ execute: ['tool'] });
+
+    const resultPromise = adapter.executeTask(request, emitUpdate);
+    child.emit('close', 1);
+
+    await expect(resultPromise).rejects.toMatchObject({
+      status: 'failed',
+      exitCode: 1,
+      error: 'Process exited with code 1',
+    });
+  });
+
+  it('should stop a running task', async () => {
+    const adapter = createAdapter({ execute: ['tool'] });
+
+    const resultPromise = adapter.executeTask(request, emitUpdate);
+
+    expect(adapter.stopTask('create-toggle')).toBe(true);
+    expect(child.kill).toHaveBeenCalledWith('SIGTERM');
+    await expect(resultPromise).rejects.toMatchObject({ status: 'stopped' });
+  });
+});
@@ -1,6 +1,10 @@
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { registerCommandAgents } from '@/services/agents/command-agent-registry';
 
 import { ClaudeCliTaskExecutionAdapter } from '../claude-cli-task-execution-adapter';
+import { CodexCliTaskExecutionAdapter } from '../codex-cli-task-execution-adapter';
+import { CommandTaskExecutionAdapter } from '../command-task-execution-adapter';
 import { MockTaskExecutionAdapter } from '../mock-task-execution-adapter';
 import { TaskExecutionAdapterFactory } from '../task-execution-adapter-factory';
 
@@ -41,9 +45,9 @@ describe('TaskExecutionAdapterFactory', () => {
       expect(adapter).toBeInstanceOf(MockTaskExecutionAdapter);
     });
 
-    it('should fallback to MockTaskExecutionAdapter for agents without execution support', () => {
+    it('should create CodexCliTaskExecutionAdapter for codex agent', () => {
       const adapter = TaskExecutionAdapterFactory.createAdapter('codex');
-      expect(adapter).toBeInstanceOf(MockTaskExecutionAdapter);
+      expect(adapter).toBeInstanceOf(CodexCliTaskExecutionAdapter);
     });
 
     it('should fallback to MockTaskExecutionAdapter for aider agent', () => {
@@ -63,9 +67,9 @@ describe('TaskExecutionAdapterFactory', () => {
 
     it('should warn when using unsupported agents', async () => {
       const { logger } = await import('@/utils/global-logger');
-      TaskExecutionAdapterFactory.createAdapter('codex');
+      TaskExecutionAdapterFactory.createAdapter('aider');
       expect(logger.warn).toHaveBeenCalledWith(
-        expect.stringContaining("Agent 'codex' does not support task execution"),
+        expect.stringContaining("Agent 'aider' does not support task execution"),
       );
     });
 
@@ -78,6 +82,29 @@ describe('TaskExecutionAdapterFactory', () => {
     });
   });
 
+  describe('command agents', () => {
+    beforeEach(() => {
+      registerCommandAgents({
+        aider: { type: 'command', execute: 'aider --yes --message {prompt} {files}' },
+        reviewer: { type: 'command', query: ['reviewer', 'ask'] },
+      });
+    });
+
+    afterEach(() => {
+      registerCommandAgents({});
+    });
+
+    it('should create a CommandTaskExecutionAdapter for a configured command agent', () => {
+      const adapter = TaskExecutionAdapterFactory.createAdapter('aider');
+      expect(adapter).toBeInstanceOf(CommandTaskExecutionAdapter);
+    });
+
+    it('should only report execution support for command agents with an execute command', () => {
+      expect(TaskExecutionAdapterFactory.supportsExecution('aider')).toBe(true);
+      expect(TaskExecutionAdapterFactory.supportsExecution('reviewer')).toBe(false);
+    });
+  });
+
   describe('supportsExecution', () => {
     it('should return true for claude', () => {
       expect(TaskExecutionAdapterFactory.supportsExecution('claude')).toBe(true);
@@ -87,8 +114,8 @@ describe('TaskExecutionAdapterFactory', () => {
       expect(TaskExecutionAdapterFactory.supportsExecution('mock')).toBe(true);
     });
 
-    it('should return false for codex', () => {
-      expect(TaskExecutionAdapterFactory.supportsExecution('codex')).toBe(false);
+    it('should return true for codex', () => {
+      expect(TaskExecutionAdapterFactory.supportsExecution('codex')).toBe(true);
     });
 
     it('should return false for aider', () => {
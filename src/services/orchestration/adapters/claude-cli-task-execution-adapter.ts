@@ -2,7 +2,7 @@ import { type ChildProcess, spawn } from 'node:child_process';
 
 import { match } from 'ts-pattern';
 
-import type { ExecutionMode } from '@/core/execution/types';
+import type { ExecutionMode, TaskUsage } from '@/core/execution/types';
 import type {
   OrchestratorTaskResult,
   StreamingUpdate,
@@ -10,17 +10,25 @@ import type {
   TaskExecutionRequest,
 } from '@/services/orchestration/types';
 
+import { addUsage } from '@/core/execution/task-usage';
 import { ExecutionEventBus } from '@/services/events/execution-event-bus';
 import { LogLevel } from '@/types/events';
 import { logger } from '@/utils/global-logger';
 
-import type { ClaudeExecutionStats, ClaudeStreamEvent } from './claude-stream-types';
+import type { ClaudeExecutionStats, ClaudeStreamEvent, ClaudeUsage } from './claude-stream-types';
+
+import { buildTaskPrompt } from './task-prompt';
+
+// Result events report the session's cost under this snake_case key
+const TOTAL_COST_KEY = 'total_cost_usd';
 
 /**
  * Task execution adapter that delegates to the Claude CLI
  */
 export class ClaudeCliTaskExecutionAdapter implements TaskExecutionAdapter {
   private readonly runningTasks = new Map<string, ChildProcess>();
+  // Stopped processes, kept until they exit so they can still be force-killed
+  private readonly stoppingTasks = new Map<string, ChildProcess>();
   private readonly taskOutputs = new Map<string, string[]>();
   private readonly taskStartTimes = new Map<string, Date>();
   private readonly taskStats = new Map<string, ClaudeExecutionStats>();
@@ -43,7 +51,7 @@ export class ClaudeCliTaskExecutionAdapter implements TaskExecutionAdapter {
     this._initializeStats(taskId);
 
     const actualWorkdir = workdir ?? process.cwd();
-    const prompt = this._createPrompt(request, actualWorkdir);
+    const prompt = buildTaskPrompt(request, actualWorkdir);
     const args = this._buildClaudeArgs(mode, prompt);
     logger.info(`[ClaudeCliAdapter] Created prompt (first 200 chars): ${prompt.slice(0, 200)}`);
     logger.info(`[ClaudeCliAdapter] Spawning claude with args: ${JSON.stringify(args)}`);
@@ -123,6 +131,14 @@ export class ClaudeCliTaskExecutionAdapter implements TaskExecutionAdapter {
           data: JSON.stringify(event),
           timestamp: new Date(),
         });
+
+        const usage =
+          event.type === 'assistant' || event.type === 'result'
+            ? this._getUsage(taskId)
+            : undefined;
+        if (usage !== undefined) {
+          emitUpdate({ taskId, type: 'usage', data: JSON.stringify(usage), timestamp: new Date() });
+        }
       }
 
       // Don't clear timeouts on every event - they'll be managed by periodic checks
@@ -340,41 +356,20 @@ export class ClaudeCliTaskExecutionAdapter implements TaskExecutionAdapter {
 
     process.kill('SIGTERM');
     this.runningTasks.delete(taskId);
+    this.stoppingTasks.set(taskId, process);
     this.taskStartTimes.delete(taskId);
     this.taskOutputs.delete(taskId);
     return true;
   }
 
-  private _createPrompt(request: TaskExecutionRequest, workdir: string): string {
-    const filesList =
-      request.files.length > 0 ? `\nRelevant files: ${request.files.join(', ')}` : '';
-
-    // Add working directory instruction for worktree execution
-    const workdirInstruction =
-      workdir !== process.cwd()
-        ? `\n\nIMPORTANT: You are working in an isolated directory: ${workdir}\nAll file paths should be relative to this directory. Do NOT write files outside this directory.`
-        : '';
-
-    // Add forbidden files warning if provided
-    let forbiddenFilesWarning = '';
-    if (request.forbiddenFiles !== undefined && request.forbiddenFiles.length > 0) {
-      const forbiddenList = request.forbiddenFiles
-        .slice(0, 10) // Limit to first 10 to avoid bloating prompt
-        .map((f) => `  - ${f}`)
-        .join('\n');
-      const moreCount =
-        request.forbiddenFiles.length > 10
-          ? ` (and ${request.forbiddenFiles.length - 10} more)`
-          : '';
-
-      forbiddenFilesWarning = `\n\nIMPORTANT: You MUST ONLY modify the files listed above in "Relevant files".
-
-DO NOT modify any of these files (they belong to other tasks):\n${forbiddenList}${moreCount}
-
-Your changes will be validated. Modifying files outside your scope will cause this task to fail.`;
+  killTask(taskId: string): boolean {
+    const process = this.stoppingTasks.get(taskId) ?? this.runningTasks.get(taskId);
+    if (process === undefined || process.exitCode !== null || process.signalCode !== null) {
+      return false;
     }
 
-    return `Task: ${request.title}\n\n${request.prompt}${filesList}${workdirInstruction}${forbiddenFilesWarning}\n\nPlease complete this task by modifying the necessary files.`;
+    logger.warn(`[ClaudeCliAdapter] Task ${taskId} did not exit after SIGTERM, sending SIGKILL`);
+    return process.kill('SIGKILL');
   }
 
   private _appendOutput(taskId: string, output: string): void {
@@ -395,6 +390,7 @@ Your changes will be validated. Modifying files outside your scope will cause th
     const output = this.taskOutputs.get(taskId)?.join('\n') ?? '';
 
     const modeSpecific = this._processModeSpecificResults(mode, output, code === 0);
+    const usage = this._getUsage(taskId);
 
     return {
       taskId,
@@ -405,6 +401,7 @@ Your changes will be validated. Modifying files outside your scope will cause th
       ...(startTime !== undefined && { startTime }),
       endTime,
       ...(duration !== undefined && { duration }),
+      ...(usage !== undefined && { usage }),
       ...modeSpecific,
     };
   }
@@ -427,6 +424,7 @@ Your changes will be validated. Modifying files outside your scope will cause th
 
   private _finalizeTask(taskId: string): void {
     this.runningTasks.delete(taskId);
+    this.stoppingTasks.delete(taskId);
     this.taskStartTimes.delete(taskId);
     this.taskOutputs.delete(taskId);
     this.taskStats.delete(taskId);
@@ -442,6 +440,8 @@ Your changes will be validated. Modifying files outside your scope will cause th
       lastEventType: null,
       lastEventTime: null,
       toolsUsed: new Set(),
+      messageUsage: new Map(),
+      usage: null,
     });
   }
 
@@ -513,6 +513,28 @@ Your changes will be validated. Modifying files outside your scope will cause th
 
         break;
       }
+      case 'assistant': {
+        // Content blocks of one message repeat its usage, so keep the latest per message
+        const message = 'message' in event ? (event.message as Record<string, unknown>) : {};
+        if (typeof message.usage === 'object' && message.usage !== null) {
+          const messageId =
+            typeof message.id === 'string' ? message.id : `message-${stats.messageUsage.size}`;
+          stats.messageUsage.set(messageId, message.usage as ClaudeUsage);
+        }
+
+        break;
+      }
+      case 'result': {
+        // The session totals replace the per-message counts
+        const usage = typeof event.usage === 'object' ? (event.usage as ClaudeUsage | null) : null;
+        const reportedCost: unknown = event[TOTAL_COST_KEY];
+        const cost = typeof reportedCost === 'number' ? reportedCost : 0;
+        if (usage !== null || cost > 0) {
+          stats.usage = this._toTaskUsage(usage ?? {}, cost);
+        }
+
+        break;
+      }
       // No default
     }
 
@@ -520,6 +542,40 @@ Your changes will be validated. Modifying files outside your scope will cause th
     // No need to log every event here
   }
 
+  /**
+   * Usage reported so far: the result event's totals, or the sum of the assistant
+   * messages while the session is still running (cost is only known at the end)
+   */
+  private _getUsage(taskId: string): TaskUsage | undefined {
+    const stats = this.taskStats.get(taskId);
+    if (stats === undefined) {
+      return undefined;
+    }
+    if (stats.usage !== null) {
+      return stats.usage;
+    }
+    if (stats.messageUsage.size === 0) {
+      return undefined;
+    }
+    return addUsage(
+      ...[...stats.messageUsage.values()].map((usage) => this._toTaskUsage(usage, 0)),
+    );
+  }
+
+  private _toTaskUsage(usage: ClaudeUsage, costUsd: number): TaskUsage {
+    const count = (key: string): number => {
+      const value = usage[key];
+      return typeof value === 'number' ? value : 0;
+    };
+    return {
+      inputTokens: count('input_tokens'),
+      outputTokens: count('output_tokens'),
+      cacheCreationInputTokens: count('cache_creation_input_tokens'),
+      cacheReadInputTokens: count('cache_read_input_tokens'),
+      costUsd,
+    };
+  }
+
   /**
    * Get human-readable status for a task
    */
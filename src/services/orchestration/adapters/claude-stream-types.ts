@@ -3,12 +3,16 @@
  * Based on Claude Code API streaming events
  */
 
+import type { TaskUsage } from '@/core/execution/types';
+
 export type ClaudeStreamEvent =
   | ThinkingEvent
   | ToolUseEvent
   | ToolResultEvent
   | ContentEvent
   | ErrorEvent
+  | AssistantEvent
+  | ResultEvent
   | UnknownEvent;
 
 export type ThinkingEvent = {
@@ -45,6 +49,32 @@ export type ErrorEvent = {
   type: 'error';
 };
 
+/**
+ * Token counts as reported by the Anthropic API, with snake_case keys
+ * (`input_tokens`, `output_tokens`, `cache_creation_input_tokens`, `cache_read_input_tokens`)
+ */
+export type ClaudeUsage = Record<string, unknown>;
+
+/**
+ * Assistant message; each content block of a message repeats the message's usage
+ */
+export type AssistantEvent = {
+  message: {
+    id?: string;
+    usage?: ClaudeUsage;
+  };
+  type: 'assistant';
+};
+
+/**
+ * Final event of a session with the totals for the whole session (`usage`, `total_cost_usd`)
+ */
+export type ResultEvent = {
+  [key: string]: unknown;
+  type: 'result';
+  usage?: ClaudeUsage;
+};
+
 export type UnknownEvent = {
   [key: string]: unknown;
   type: string;
@@ -56,7 +86,11 @@ export type UnknownEvent = {
 export type ClaudeExecutionStats = {
   lastEventTime: Date | null;
   lastEventType: string | null;
+  /** Usage of each assistant message so far, keyed by message id */
+  messageUsage: Map<string, ClaudeUsage>;
   thinkingCount: number;
   toolsUsed: Set<string>;
   toolUseCount: number;
+  /** Session totals from the result event, once it arrives */
+  usage: TaskUsage | null;
 };
@@ -0,0 +1,333 @@
+import { type ChildProcess, spawn } from 'node:child_process';
+
+import { execa } from 'execa';
+import { match } from 'ts-pattern';
+
+import type { ExecutionMode } from '@/core/execution/types';
+import type {
+  OrchestratorTaskResult,
+  StreamingUpdate,
+  TaskExecutionAdapter,
+  TaskExecutionRequest,
+} from '@/services/orchestration/types';
+
+import {
+  type CodexEvent,
+  isRecord,
+  readStringField,
+  resolveCodexCommand,
+} from '@/adapters/agents/codex';
+import { ExecutionEventBus } from '@/services/events/execution-event-bus';
+import { LogLevel } from '@/types/events';
+import { logger } from '@/utils/global-logger';
+import { isNonEmptyString } from '@/validation/guards';
+
+import type { ClaudeStreamEvent } from './claude-stream-types';
+
+import { buildTaskPrompt } from './task-prompt';
+
+type TaskState = 'running' | 'stopped' | 'completed' | 'failed';
+
+/**
+ * Task execution adapter that delegates to the Codex CLI (`codex exec`)
+ *
+ * Codex JSONL events are translated into the stream event shape used by the Claude
+ * adapter so the event consumer and TUI render both agents the same way.
+ */
+export class CodexCliTaskExecutionAdapter implements TaskExecutionAdapter {
+  private readonly runningTasks = new Map<string, ChildProcess>();
+  private readonly taskOutputs = new Map<string, string[]>();
+  private readonly taskStartTimes = new Map<string, Date>();
+  private readonly taskPatchedFiles = new Map<string, Set<string>>();
+  private readonly taskStates = new Map<string, TaskState>();
+  private readonly eventBus: ExecutionEventBus;
+  private readonly command: string;
+
+  constructor(options?: { command?: string; eventBus?: ExecutionEventBus }) {
+    this.eventBus = options?.eventBus ?? new ExecutionEventBus();
+    this.command = options?.command ?? resolveCodexCommand();
+  }
+
+  async executeTask(
+    request: TaskExecutionRequest,
+    emitUpdate: (update: StreamingUpdate) => void,
+  ): Promise<OrchestratorTaskResult> {
+    const { taskId, workdir, mode } = request;
+    const actualWorkdir = workdir ?? process.cwd();
+
+    logger.info(`[CodexCliAdapter] Starting task ${taskId} in ${actualWorkdir}`);
+
+    this.taskOutputs.set(taskId, []);
+    this.taskStartTimes.set(taskId, new Date());
+    this.taskPatchedFiles.set(taskId, new Set());
+    this.taskStates.set(taskId, 'running');
+
+    const args = this._buildCodexArgs(mode, actualWorkdir);
+    logger.debug(`[CodexCliAdapter] Spawning ${this.command} with args: ${JSON.stringify(args)}`);
+
+    const codexProcess = spawn(this.command, args, {
+      cwd: actualWorkdir,
+      env: process.env,
+      shell: false,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.runningTasks.set(taskId, codexProcess);
+
+    emitUpdate({ taskId, type: 'status', data: 'running', timestamp: new Date() });
+
+    let lineBuffer = '';
+    codexProcess.stdout.on('data', (data: Buffer) => {
+      lineBuffer += data.toString();
+      const lines = lineBuffer.split('\n');
+      lineBuffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        this._handleLine(taskId, line, emitUpdate);
+      }
+    });
+
+    codexProcess.stderr.on('data', (data: Buffer) => {
+      const output = data.toString();
+      this._appendOutput(taskId, `[stderr] ${output}`);
+      emitUpdate({ taskId, type: 'stderr', data: output, timestamp: new Date() });
+    });
+
+    // Codex reads the prompt from stdin (`-` argument)
+    codexProcess.stdin.write(buildTaskPrompt(request, actualWorkdir));
+    codexProcess.stdin.end();
+
+    return new Promise((resolve, reject) => {
+      codexProcess.on('close', (code) => {
+        void (async () => {
+          this._handleLine(taskId, lineBuffer, emitUpdate);
+
+          const stopped = this.taskStates.get(taskId) === 'stopped';
+          const state: TaskState = stopped ? 'stopped' : code === 0 ? 'completed' : 'failed';
+          const filesChanged = await this._collectChangedFiles(taskId, workdir);
+          const result = this._createResult(request, code, state, filesChanged);
+
+          if (state === 'failed') {
+            result.error = `Process exited with code ${code}`;
+          }
+
+          this.taskStates.set(taskId, state);
+          this._finalizeTask(taskId);
+          emitUpdate({ taskId, type: 'status', data: result.status, timestamp: new Date() });
+
+          logger.info(
+            `[CodexCliAdapter] Task ${taskId} ${result.status}, files changed: ${filesChanged.length}`,
+          );
+
+          if (result.status === 'completed') {
+            resolve(result);
+          } else {
+            reject(result);
+          }
+        })();
+      });
+
+      codexProcess.on('error', (error) => {
+        logger.error(`[CodexCliAdapter] Process error for task ${taskId}: ${error.message}`);
+        const startTime = this.taskStartTimes.get(taskId);
+
+        this.taskStates.set(taskId, 'failed');
+        this._finalizeTask(taskId);
+        emitUpdate({ taskId, type: 'status', data: 'failed', timestamp: new Date() });
+
+        const result: OrchestratorTaskResult = {
+          taskId,
+          mode,
+          status: 'failed',
+          error: `Failed to spawn Codex CLI: ${error.message}`,
+          output: `Process error: ${error.message}`,
+          ...(startTime !== undefined && { startTime }),
+          endTime: new Date(),
+        };
+        reject(result);
+      });
+    });
+  }
+
+  stopTask(taskId: string): boolean {
+    const process = this.runningTasks.get(taskId);
+    if (process === undefined) {
+      return false;
+    }
+
+    this.taskStates.set(taskId, 'stopped');
+    process.kill('SIGTERM');
+    return true;
+  }
+
+  killTask(taskId: string): boolean {
+    const process = this.runningTasks.get(taskId);
+    if (process === undefined || process.exitCode !== null || process.signalCode !== null) {
+      return false;
+    }
+
+    logger.warn(`[CodexCliAdapter] Task ${taskId} did not exit after SIGTERM, sending SIGKILL`);
+    return process.kill('SIGKILL');
+  }
+
+  getAllTaskStatuses(): Map<string, TaskState> {
+    return new Map(this.taskStates);
+  }
+
+  private _buildCodexArgs(mode: ExecutionMode, workdir: string): string[] {
+    // Only execute mode may write to the worktree; every other mode stays read-only
+    const sandbox = match(mode)
+      .with('execute', () => 'workspace-write')
+      .with('plan', 'dry-run', 'validate', () => 'read-only')
+      .otherwise(() => {
+        throw new Error(`Unsupported execution mode: ${String(mode)}`);
+      });
+
+    return ['exec', '--json', '--color', 'never', '--sandbox', sandbox, '--cd', workdir, '-'];
+  }
+
+  private _handleLine(
+    taskId: string,
+    rawLine: string,
+    emitUpdate: (update: StreamingUpdate) => void,
+  ): void {
+    const line = rawLine.trim();
+    if (line === '') {
+      return;
+    }
+
+    let event: CodexEvent;
+    try {
+      event = JSON.parse(line) as CodexEvent;
+    } catch {
+      // Non-JSON output (config summaries, banners, etc.)
+      this._appendOutput(taskId, line);
+      emitUpdate({ taskId, type: 'stdout', data: line, timestamp: new Date() });
+      return;
+    }
+
+    const streamEvent = this._toStreamEvent(taskId, event);
+    if (streamEvent === null) {
+      return;
+    }
+
+    this.eventBus.emitStreamData(taskId, streamEvent);
+    emitUpdate({
+      taskId,
+      type: 'stdout',
+      data: JSON.stringify(streamEvent),
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * Map a Codex event onto the shared stream event shape, recording output and patched files
+   */
+  private _toStreamEvent(taskId: string, event: CodexEvent): ClaudeStreamEvent | null {
+    const { msg } = event;
+    if (!isRecord(msg)) {
+      return null;
+    }
+
+    const type = readStringField(msg, 'type');
+    if (type === null) {
+      return null;
+    }
+
+    switch (type) {
+      case 'agent_reasoning': {
+        const text = readStringField(msg, 'text');
+        return isNonEmptyString(text) ? { type: 'thinking', content: text } : null;
+      }
+      case 'agent_message': {
+        const message = readStringField(msg, 'message');
+        if (!isNonEmptyString(message)) {
+          return null;
+        }
+        this._appendOutput(taskId, message);
+        return { type: 'content', content: message };
+      }
+      case 'exec_command_begin': {
+        const command = Array.isArray(msg.command) ? msg.command.map(String).join(' ') : '';
+        return { type: 'tool_use', tool: 'Bash', input: { command } };
+      }
+      case 'patch_apply_begin': {
+        const files = isRecord(msg.changes) ? Object.keys(msg.changes) : [];
+        const patched = this.taskPatchedFiles.get(taskId);
+        for (const file of files) {
+          patched?.add(file);
+        }
+        return { type: 'tool_use', tool: 'Edit', input: { files } };
+      }
+      case 'error': {
+        const message = readStringField(msg, 'message') ?? 'Unknown Codex error';
+        this._appendOutput(taskId, `[error] ${message}`);
+        this.eventBus.emitLog(LogLevel.ERROR, `[${taskId}] ❌ ${message}`);
+        return { type: 'error', error: message };
+      }
+      default: {
+        return null;
+      }
+    }
+  }
+
+  /**
+   * Files changed by the task: git status of the worktree, falling back to Codex patch events
+   */
+  private async _collectChangedFiles(taskId: string, workdir?: string): Promise<string[]> {
+    const patched = [...(this.taskPatchedFiles.get(taskId) ?? [])];
+    if (workdir === undefined) {
+      return patched;
+    }
+
+    try {
+      const { stdout } = await execa('git', ['status', '--porcelain'], {
+        cwd: workdir,
+        reject: false,
+      });
+      const files = stdout
+        .split('\n')
+        .filter((line) => line.trim().length > 0)
+        .map((line) => line.slice(3).trim())
+        .filter((file) => file.length > 0);
+      return files.length > 0 ? files : patched;
+    } catch (error) {
+      logger.warn(`  ⚠️ Failed to read git status for task ${taskId}: ${String(error)}`);
+      return patched;
+    }
+  }
+
+  private _createResult(
+    request: TaskExecutionRequest,
+    code: number | null,
+    status: TaskState,
+    filesChanged: string[],
+  ): OrchestratorTaskResult {
+    const { taskId, mode } = request;
+    const endTime = new Date();
+    const startTime = this.taskStartTimes.get(taskId);
+    const duration = startTime !== undefined ? endTime.getTime() - startTime.getTime() : undefined;
+
+    return {
+      taskId,
+      mode,
+      status,
+      output: this.taskOutputs.get(taskId)?.join('\n') ?? '',
+      ...(code !== null && { exitCode: code }),
+      ...(startTime !== undefined && { startTime }),
+      endTime,
+      ...(duration !== undefined && { duration }),
+      ...(filesChanged.length > 0 && { filesChanged }),
+    };
+  }
+
+  private _appendOutput(taskId: string, output: string): void {
+    this.taskOutputs.get(taskId)?.push(output);
+  }
+
+  private _finalizeTask(taskId: string): void {
+    this.runningTasks.delete(taskId);
+    this.taskStartTimes.delete(taskId);
+    this.taskOutputs.delete(taskId);
+    this.taskPatchedFiles.delete(taskId);
+  }
+}
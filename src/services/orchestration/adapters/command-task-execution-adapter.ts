@@ -0,0 +1,274 @@
+import { type ChildProcess, spawn } from 'node:child_process';
+
+import { execa } from 'execa';
+
+import type { CommandAgentConfig, CommandTemplate } from '@/core/config/types';
+import type {
+  OrchestratorTaskResult,
+  StreamingUpdate,
+  TaskExecutionAdapter,
+  TaskExecutionRequest,
+} from '@/services/orchestration/types';
+
+import { buildCommandInvocation, readCommandOutputLine } from '@/adapters/agents/command';
+import { ExecutionEventBus } from '@/services/events/execution-event-bus';
+import { logger } from '@/utils/global-logger';
+
+import type { ClaudeStreamEvent } from './claude-stream-types';
+
+import { buildTaskPrompt } from './task-prompt';
+
+type TaskState = 'running' | 'stopped' | 'completed' | 'failed';
+
+/**
+ * Task execution adapter for a command agent configured under `agents`
+ *
+ * Execute mode runs the agent's `execute` command; the read-only modes run its `query`
+ * command when one is configured. With `jsonl` output each line's text is forwarded as a
+ * content event so the event consumer and TUI render it like the built-in agents.
+ */
+export class CommandTaskExecutionAdapter implements TaskExecutionAdapter {
+  private readonly runningTasks = new Map<string, ChildProcess>();
+  private readonly taskOutputs = new Map<string, string[]>();
+  private readonly taskStartTimes = new Map<string, Date>();
+  private readonly taskStates = new Map<string, TaskState>();
+  private readonly eventBus: ExecutionEventBus;
+
+  constructor(
+    private readonly _name: string,
+    private readonly _config: CommandAgentConfig,
+    options?: { eventBus?: ExecutionEventBus },
+  ) {
+    this.eventBus = options?.eventBus ?? new ExecutionEventBus();
+  }
+
+  async executeTask(
+    request: TaskExecutionRequest,
+    emitUpdate: (update: StreamingUpdate) => void,
+  ): Promise<OrchestratorTaskResult> {
+    const { taskId, workdir, mode, files } = request;
+    const actualWorkdir = workdir ?? process.cwd();
+    const template = this._getTemplate(request);
+    if (template === undefined) {
+      throw new Error(`Agent '${this._name}' has no execute command configured`);
+    }
+
+    logger.info(`[CommandAdapter] Starting task ${taskId} with ${this._name} in ${actualWorkdir}`);
+
+    this.taskOutputs.set(taskId, []);
+    this.taskStartTimes.set(taskId, new Date());
+    this.taskStates.set(taskId, 'running');
+
+    const { command, args, stdin } = buildCommandInvocation(
+      template,
+      {
+        prompt: buildTaskPrompt(request, actualWorkdir),
+        workdir: actualWorkdir,
+        files,
+      },
+      this._config.promptDelivery,
+    );
+    logger.debug(`[CommandAdapter] Spawning ${command} with args: ${JSON.stringify(args)}`);
+
+    const agentProcess = spawn(command, args, {
+      cwd: actualWorkdir,
+      env: process.env,
+      shell: false,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.runningTasks.set(taskId, agentProcess);
+
+    emitUpdate({ taskId, type: 'status', data: 'running', timestamp: new Date() });
+
+    let lineBuffer = '';
+    agentProcess.stdout.on('data', (data: Buffer) => {
+      lineBuffer += data.toString();
+      const lines = lineBuffer.split('\n');
+      lineBuffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        this._handleLine(taskId, line, emitUpdate);
+      }
+    });
+
+    agentProcess.stderr.on('data', (data: Buffer) => {
+      const output = data.toString();
+      this._appendOutput(taskId, `[stderr] ${output}`);
+      emitUpdate({ taskId, type: 'stderr', data: output, timestamp: new Date() });
+    });
+
+    if (stdin !== null) {
+      agentProcess.stdin.write(stdin);
+    }
+    agentProcess.stdin.end();
+
+    return new Promise((resolve, reject) => {
+      agentProcess.on('close', (code) => {
+        void (async () => {
+          if (lineBuffer !== '') {
+            this._handleLine(taskId, lineBuffer, emitUpdate);
+          }
+
+          const stopped = this.taskStates.get(taskId) === 'stopped';
+          const state: TaskState = stopped ? 'stopped' : code === 0 ? 'completed' : 'failed';
+          const filesChanged = await this._collectChangedFiles(taskId, workdir);
+          const result = this._createResult(request, code, state, filesChanged);
+
+          if (state === 'failed') {
+            result.error = `Process exited with code ${code}`;
+          }
+
+          this.taskStates.set(taskId, state);
+          this._finalizeTask(taskId);
+          emitUpdate({ taskId, type: 'status', data: result.status, timestamp: new Date() });
+
+          logger.info(
+            `[CommandAdapter] Task ${taskId} ${result.status}, files changed: ${filesChanged.length}`,
+          );
+
+          if (result.status === 'completed') {
+            resolve(result);
+          } else {
+            reject(result);
+          }
+        })();
+      });
+
+      agentProcess.on('error', (error) => {
+        logger.error(`[CommandAdapter] Process error for task ${taskId}: ${error.message}`);
+        const startTime = this.taskStartTimes.get(taskId);
+
+        this.taskStates.set(taskId, 'failed');
+        this._finalizeTask(taskId);
+        emitUpdate({ taskId, type: 'status', data: 'failed', timestamp: new Date() });
+
+        const result: OrchestratorTaskResult = {
+          taskId,
+          mode,
+          status: 'failed',
+          error: `Failed to spawn ${this._name} agent (${command}): ${error.message}`,
+          output: `Process error: ${error.message}`,
+          ...(startTime !== undefined && { startTime }),
+          endTime: new Date(),
+        };
+        reject(result);
+      });
+    });
+  }
+
+  stopTask(taskId: string): boolean {
+    const process = this.runningTasks.get(taskId);
+    if (process === undefined) {
+      return false;
+    }
+
+    this.taskStates.set(taskId, 'stopped');
+    process.kill('SIGTERM');
+    return true;
+  }
+
+  killTask(taskId: string): boolean {
+    const process = this.runningTasks.get(taskId);
+    if (process === undefined || process.exitCode !== null || process.signalCode !== null) {
+      return false;
+    }
+
+    logger.warn(`[CommandAdapter] Task ${taskId} did not exit after SIGTERM, sending SIGKILL`);
+    return process.kill('SIGKILL');
+  }
+
+  getAllTaskStatuses(): Map<string, TaskState> {
+    return new Map(this.taskStates);
+  }
+
+  private _getTemplate(request: TaskExecutionRequest): CommandTemplate | undefined {
+    if (request.mode === 'execute') {
+      return this._config.execute;
+    }
+    return this._config.query ?? this._config.execute;
+  }
+
+  private _handleLine(
+    taskId: string,
+    line: string,
+    emitUpdate: (update: StreamingUpdate) => void,
+  ): void {
+    const text = readCommandOutputLine(line, this._config.outputFormat, this._config.textField);
+    if (text === null || text.trim() === '') {
+      return;
+    }
+
+    this._appendOutput(taskId, text);
+    if (this._config.outputFormat !== 'jsonl') {
+      emitUpdate({ taskId, type: 'stdout', data: text, timestamp: new Date() });
+      return;
+    }
+
+    const streamEvent: ClaudeStreamEvent = { type: 'content', content: text };
+    this.eventBus.emitStreamData(taskId, streamEvent);
+    emitUpdate({
+      taskId,
+      type: 'stdout',
+      data: JSON.stringify(streamEvent),
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * Files changed by the task, from git status of the worktree
+   */
+  private async _collectChangedFiles(taskId: string, workdir?: string): Promise<string[]> {
+    if (workdir === undefined) {
+      return [];
+    }
+
+    try {
+      const { stdout } = await execa('git', ['status', '--porcelain'], {
+        cwd: workdir,
+        reject: false,
+      });
+      return stdout
+        .split('\n')
+        .filter((line) => line.trim().length > 0)
+        .map((line) => line.slice(3).trim())
+        .filter((file) => file.length > 0);
+    } catch (error) {
+      logger.warn(`  ⚠️ Failed to read git status for task ${taskId}: ${String(error)}`);
+      return [];
+    }
+  }
+
+  private _createResult(
+    request: TaskExecutionRequest,
+    code: number | null,
+    status: TaskState,
+    filesChanged: string[],
+  ): OrchestratorTaskResult {
+    const { taskId, mode } = request;
+    const endTime = new Date();
+    const startTime = this.taskStartTimes.get(taskId);
+    const duration = startTime !== undefined ? endTime.getTime() - startTime.getTime() : undefined;
+
+    return {
+      taskId,
+      mode,
+      status,
+      output: this.taskOutputs.get(taskId)?.join('\n') ?? '',
+      ...(code !== null && { exitCode: code }),
+      ...(startTime !== undefined && { startTime }),
+      endTime,
+      ...(duration !== undefined && { duration }),
+      ...(filesChanged.length > 0 && { filesChanged }),
+    };
+  }
+
+  private _appendOutput(taskId: string, output: string): void {
+    this.taskOutputs.get(taskId)?.push(output);
+  }
+
+  private _finalizeTask(taskId: string): void {
+    this.runningTasks.delete(taskId);
+    this.taskStartTimes.delete(taskId);
+    this.taskOutputs.delete(taskId);
+  }
+}
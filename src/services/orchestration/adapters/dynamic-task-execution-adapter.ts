@@ -67,6 +67,15 @@ export class DynamicTaskExecutionAdapter implements TaskExecutionAdapter {
     return false;
   }
 
+  killTask(taskId: string): boolean {
+    for (const adapter of this.adapters.values()) {
+      if (isNonNullish(adapter.killTask) && adapter.killTask(taskId)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
   getAllTaskStatuses(): Map<string, 'running' | 'stopped' | 'completed' | 'failed'> {
     // Aggregate statuses from all adapters
     const allStatuses = new Map<string, 'running' | 'stopped' | 'completed' | 'failed'>();
@@ -1,10 +1,13 @@
 import type { TaskExecutionAdapter } from '@/services/orchestration/types';
 
+import { getCommandAgentConfig } from '@/services/agents/command-agent-registry';
 import { ExecutionEventBus } from '@/services/events/execution-event-bus';
 import { ExecutionEventConsumer } from '@/services/events/execution-event-consumer';
 import { logger } from '@/utils/global-logger';
 
 import { ClaudeCliTaskExecutionAdapter } from './claude-cli-task-execution-adapter';
+import { CodexCliTaskExecutionAdapter } from './codex-cli-task-execution-adapter';
+import { CommandTaskExecutionAdapter } from './command-task-execution-adapter';
 import { MockTaskExecutionAdapter } from './mock-task-execution-adapter';
 
 export type AdapterOptions = {
@@ -51,11 +54,16 @@ export function initializeEventConsumer(options: { verbose: boolean }): void {
  */
 export const TaskExecutionAdapterFactory = {
   /**
-   * Create a task execution adapter for the specified agent type
+   * Create a task execution adapter for the specified agent type or configured command agent
    */
   createAdapter(agentType: string = 'claude', options?: AdapterOptions): TaskExecutionAdapter {
     const eventBus = options?.eventBus ?? globalEventBus;
 
+    const commandAgent = getCommandAgentConfig(agentType);
+    if (commandAgent !== undefined) {
+      return new CommandTaskExecutionAdapter(agentType, commandAgent, { eventBus });
+    }
+
     switch (agentType) {
       case 'claude': {
         return new ClaudeCliTaskExecutionAdapter({ ...options, eventBus });
@@ -65,7 +73,10 @@ export const TaskExecutionAdapterFactory = {
         return new MockTaskExecutionAdapter();
       }
 
-      case 'codex':
+      case 'codex': {
+        return new CodexCliTaskExecutionAdapter({ ...options, eventBus });
+      }
+
       case 'aider': {
         // Agents without execution capability fallback to mock with warning
         logger.warn(
@@ -85,6 +96,9 @@ export const TaskExecutionAdapterFactory = {
    * Check if an agent type supports task execution
    */
   supportsExecution(agentType: string): boolean {
-    return agentType === 'claude' || agentType === 'mock';
+    if (agentType === 'claude' || agentType === 'codex' || agentType === 'mock') {
+      return true;
+    }
+    return getCommandAgentConfig(agentType)?.execute !== undefined;
   },
 };
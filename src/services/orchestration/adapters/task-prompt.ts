@@ -0,0 +1,43 @@
+import type { TaskExecutionRequest } from '@/services/orchestration/types';
+
+import { formatExecutionContextPrompt } from '@/services/orchestration/execution-context-prompt';
+
+/**
+ * Build the prompt sent to a CLI agent executing a single task
+ *
+ * Shared by the CLI task execution adapters so every agent gets the same scope rules.
+ */
+export function buildTaskPrompt(request: TaskExecutionRequest, workdir: string): string {
+  const filesList = request.files.length > 0 ? `\nRelevant files: ${request.files.join(', ')}` : '';
+
+  // Add working directory instruction for worktree execution
+  const workdirInstruction =
+    workdir !== process.cwd()
+      ? `\n\nIMPORTANT: You are working in an isolated directory: ${workdir}\nAll file paths should be relative to this directory. Do NOT write files outside this directory.`
+      : '';
+
+  // Add forbidden files warning if provided
+  let forbiddenFilesWarning = '';
+  if (request.forbiddenFiles !== undefined && request.forbiddenFiles.length > 0) {
+    const forbiddenList = request.forbiddenFiles
+      .slice(0, 10) // Limit to first 10 to avoid bloating prompt
+      .map((f) => `  - ${f}`)
+      .join('\n');
+    const moreCount =
+      request.forbiddenFiles.length > 10 ? ` (and ${request.forbiddenFiles.length - 10} more)` : '';
+
+    forbiddenFilesWarning = `\n\nIMPORTANT: You MUST ONLY modify the files listed above in "Relevant files".
+
+DO NOT modify any of these files (they belong to other tasks):\n${forbiddenList}${moreCount}
+
+Your changes will be validated. Modifying files outside your scope will cause this task to fail.`;
+  }
+
+  // Add the feature specification and plan-level success metrics if provided
+  const contextSection =
+    request.executionContext !== undefined
+      ? `\n\n${formatExecutionContextPrompt(request.executionContext)}`
+      : '';
+
+  return `Task: ${request.title}\n\n${request.prompt}${filesList}${contextSection}${workdirInstruction}${forbiddenFilesWarning}\n\nPlease complete this task by modifying the necessary files.`;
+}
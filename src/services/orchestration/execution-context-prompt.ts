@@ -0,0 +1,174 @@
+import type { ExecutionContext, TaskV2 } from '@/types/schemas-v2';
+
+/**
+ * Default number of tokens of specification content injected into each task prompt
+ */
+export const DEFAULT_SPEC_TOKEN_BUDGET = 8000;
+
+// Rough heuristic shared by most tokenizers for English prose and code
+const CHARS_PER_TOKEN = 4;
+
+type SpecSection = {
+  content: string;
+  index: number;
+  score: number;
+};
+
+/**
+ * Estimate the number of tokens in a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Fit a markdown specification into a token budget for a specific task.
+ *
+ * Specs within budget are returned unchanged. Larger specs keep their preamble (everything
+ * before the second heading) and then the sections that mention the task's name, description
+ * or files the most, in their original order.
+ */
+export function fitSpecToTokenBudget(
+  specContent: string,
+  task: Pick<TaskV2, 'description' | 'files' | 'name'>,
+  tokenBudget: number = DEFAULT_SPEC_TOKEN_BUDGET,
+): string {
+  if (estimateTokens(specContent) <= tokenBudget) {
+    return specContent;
+  }
+
+  const maxChars = tokenBudget * CHARS_PER_TOKEN;
+  const [preamble, ...sections] = splitSections(specContent);
+  if (preamble === undefined || preamble.length >= maxChars) {
+    return `${specContent.slice(0, maxChars).trimEnd()}\n\n[Specification truncated to fit the token budget]`;
+  }
+
+  const keywords = extractKeywords(task);
+  const scored: SpecSection[] = sections.map((content, index) => ({
+    content,
+    index,
+    score: scoreSection(content, keywords),
+  }));
+
+  const selected = new Set<number>();
+  let usedChars = preamble.length;
+  const byRelevance = [...scored].sort((a, b) =>
+    b.score === a.score ? a.index - b.index : b.score - a.score,
+  );
+  for (const section of byRelevance) {
+    if (usedChars + section.content.length > maxChars) {
+      continue;
+    }
+    selected.add(section.index);
+    usedChars += section.content.length;
+  }
+
+  const kept = scored
+    .filter((section) => selected.has(section.index))
+    .map((section) => section.content);
+  const omitted = sections.length - kept.length;
+
+  return [
+    [preamble, ...kept].join('').trimEnd(),
+    `[${omitted} specification section(s) omitted to fit the token budget]`,
+  ].join('\n\n');
+}
+
+/**
+ * Narrow a plan-wide execution context to a single task by fitting its spec into the token budget
+ */
+export function createTaskExecutionContext(
+  context: ExecutionContext,
+  task: Pick<TaskV2, 'description' | 'files' | 'name'>,
+  tokenBudget: number = DEFAULT_SPEC_TOKEN_BUDGET,
+): ExecutionContext {
+  return {
+    ...context,
+    specContent: fitSpecToTokenBudget(context.specContent, task, tokenBudget),
+  };
+}
+
+/**
+ * Render the specification, plan metadata and success metrics as a prompt section
+ */
+export function formatExecutionContextPrompt(context: ExecutionContext): string {
+  const { planMetadata, specContent } = context;
+  const lines = [`## Plan: ${planMetadata.name}`];
+
+  if (planMetadata.description !== undefined && planMetadata.description.trim() !== '') {
+    lines.push('', planMetadata.description.trim());
+  }
+
+  if (specContent.trim() !== '') {
+    lines.push(
+      '',
+      '## Feature Specification',
+      'Your task is one part of this feature. Respect its cross-cutting requirements.',
+      '',
+      specContent.trim(),
+    );
+  }
+
+  const metrics = planMetadata.successMetrics;
+  if (
+    metrics !== undefined &&
+    (metrics.quantitative.length > 0 || metrics.qualitative.length > 0)
+  ) {
+    lines.push('', '## Success Metrics');
+    if (metrics.quantitative.length > 0) {
+      lines.push('Quantitative:', ...metrics.quantitative.map((metric) => `- ${metric}`));
+    }
+    if (metrics.qualitative.length > 0) {
+      lines.push('Qualitative:', ...metrics.qualitative.map((metric) => `- ${metric}`));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function splitSections(markdown: string): string[] {
+  const sections: string[] = [];
+  let current: string[] = [];
+  let headingCount = 0;
+
+  for (const line of markdown.split('\n')) {
+    // The first heading stays with the preamble so the spec title is always kept
+    if (/^#{1,6}\s/.test(line)) {
+      headingCount++;
+      if (headingCount > 1) {
+        sections.push(current.join('\n'));
+        current = [];
+      }
+    }
+    current.push(line);
+  }
+  sections.push(current.join('\n'));
+
+  return sections.map((section, index) => (index < sections.length - 1 ? `${section}\n` : section));
+}
+
+function extractKeywords(task: Pick<TaskV2, 'description' | 'files' | 'name'>): Set<string> {
+  const keywords = new Set<string>();
+  const words = `${task.name} ${task.description}`.toLowerCase().match(/[\da-z]{4,}/g) ?? [];
+  for (const word of words) {
+    keywords.add(word);
+  }
+  for (const file of task.files) {
+    const baseName = file.split('/').pop()?.split('.')[0]?.toLowerCase();
+    if (baseName !== undefined && baseName.length >= 3) {
+      keywords.add(baseName);
+    }
+  }
+  return keywords;
+}
+
+function scoreSection(content: string, keywords: Set<string>): number {
+  const text = content.toLowerCase();
+  let score = 0;
+  for (const keyword of keywords) {
+    if (text.includes(keyword)) {
+      score++;
+    }
+  }
+  return score;
+}
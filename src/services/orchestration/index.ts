@@ -1,6 +1,14 @@
 export { ClaudeCliTaskExecutionAdapter } from './adapters/claude-cli-task-execution-adapter';
+export { CodexCliTaskExecutionAdapter } from './adapters/codex-cli-task-execution-adapter';
 export { MockTaskExecutionAdapter } from './adapters/mock-task-execution-adapter';
 export { TaskExecutionAdapterFactory } from './adapters/task-execution-adapter-factory';
+export {
+  createTaskExecutionContext,
+  DEFAULT_SPEC_TOKEN_BUDGET,
+  estimateTokens,
+  fitSpecToTokenBudget,
+  formatExecutionContextPrompt,
+} from './execution-context-prompt';
 export { TaskOrchestrator } from './task-orchestrator';
 export type {
   OrchestratorTaskResult,
@@ -1,6 +1,6 @@
 import { EventEmitter } from 'node:events';
 
-import type { ExecutionMode } from '@/core/execution/types';
+import type { ExecutionMode, TaskUsage } from '@/core/execution/types';
 import type {
   OrchestratorTaskResult,
   StreamingUpdate,
@@ -8,7 +8,10 @@ import type {
   TaskExecutionRequest,
   TaskStatus,
 } from '@/services/orchestration/types';
+import type { ExecutionContext } from '@/types/schemas-v2';
 
+import { addUsage } from '@/core/execution/task-usage';
+import { TaskUsageSchema } from '@/core/execution/types';
 import { logger } from '@/utils/global-logger';
 import { isNonNullish } from '@/validation/guards';
 
@@ -22,6 +25,9 @@ export class TaskOrchestrator extends EventEmitter {
   private readonly taskOutputs = new Map<string, string[]>();
   private readonly taskStartTimes = new Map<string, Date>();
   private readonly activeTasks = new Set<string>();
+  // Usage of finished attempts, and of the attempt currently running
+  private readonly taskUsage = new Map<string, TaskUsage>();
+  private readonly attemptUsage = new Map<string, TaskUsage>();
 
   constructor(private readonly _adapter: TaskExecutionAdapter) {
     super();
@@ -41,6 +47,7 @@ export class TaskOrchestrator extends EventEmitter {
     mode: ExecutionMode = 'execute',
     agent?: string,
     forbiddenFiles?: string[],
+    executionContext?: ExecutionContext,
   ): Promise<OrchestratorTaskResult> {
     logger.info(`[TaskOrchestrator] executeTask called for ${taskId} with workdir: ${workdir}`);
 
@@ -53,6 +60,7 @@ export class TaskOrchestrator extends EventEmitter {
       ...(isNonNullish(workdir) ? { workdir } : {}),
       ...(isNonNullish(agent) ? { agent } : {}),
       ...(isNonNullish(forbiddenFiles) ? { forbiddenFiles } : {}),
+      ...(isNonNullish(executionContext) ? { executionContext } : {}),
     };
 
     // Initialize task state
@@ -65,6 +73,9 @@ export class TaskOrchestrator extends EventEmitter {
         this._handleStreamingUpdate(update);
       });
       logger.info(`[TaskOrchestrator] Adapter returned for ${taskId}: ${result.status}`);
+      if (isNonNullish(result.usage)) {
+        this.attemptUsage.set(taskId, result.usage);
+      }
 
       // Finalize successful task
       this._finalizeTask(taskId, result);
@@ -83,9 +94,17 @@ export class TaskOrchestrator extends EventEmitter {
       // Clean up task state
       this.activeTasks.delete(taskId);
       this.taskStartTimes.delete(taskId);
+      this._recordAttemptUsage(taskId);
     }
   }
 
+  /**
+   * Mark a task as waiting for an execution slot
+   */
+  queueTask(taskId: string): void {
+    this._updateTaskStatus(taskId, 'queued');
+  }
+
   /**
    * Stop a running task
    */
@@ -101,6 +120,13 @@ export class TaskOrchestrator extends EventEmitter {
     return stopped;
   }
 
+  /**
+   * Force-kill a stopped task whose agent process is still alive
+   */
+  killTask(taskId: string): boolean {
+    return this._adapter.killTask?.(taskId) ?? false;
+  }
+
   /**
    * Get the status of a specific task
    */
@@ -122,6 +148,30 @@ export class TaskOrchestrator extends EventEmitter {
     return [...this.activeTasks.values()];
   }
 
+  /**
+   * Get the tokens and cost a task used so far, over all of its attempts
+   */
+  getTaskUsage(taskId: string): TaskUsage | undefined {
+    const finished = this.taskUsage.get(taskId);
+    const running = this.attemptUsage.get(taskId);
+    if (!isNonNullish(finished) || !isNonNullish(running)) {
+      return finished ?? running;
+    }
+    return addUsage(finished, running);
+  }
+
+  /**
+   * Get the tokens and cost used by all tasks so far
+   */
+  getTotalUsage(): TaskUsage {
+    const taskIds = new Set([...this.taskUsage.keys(), ...this.attemptUsage.keys()]);
+    return addUsage(
+      ...[...taskIds]
+        .map((taskId) => this.getTaskUsage(taskId))
+        .filter((usage) => isNonNullish(usage)),
+    );
+  }
+
   /**
    * Get output for a specific task
    */
@@ -164,13 +214,49 @@ export class TaskOrchestrator extends EventEmitter {
       }
     }
 
+    // Adapters report usage per attempt; listeners get the task's usage over all attempts
+    if (update.type === 'usage') {
+      this._handleUsageUpdate(update);
+      return;
+    }
+
     // Always emit the update
     this._emitUpdate(update);
   }
 
+  private _handleUsageUpdate(update: StreamingUpdate): void {
+    let usage: TaskUsage;
+    try {
+      usage = TaskUsageSchema.parse(JSON.parse(update.data));
+    } catch {
+      logger.debug(`[TaskOrchestrator] Ignoring malformed usage update for ${update.taskId}`);
+      return;
+    }
+
+    this.attemptUsage.set(update.taskId, usage);
+    this._emitUpdate({ ...update, data: JSON.stringify(this.getTaskUsage(update.taskId)) });
+  }
+
+  private _recordAttemptUsage(taskId: string): void {
+    const usage = this.getTaskUsage(taskId);
+    this.attemptUsage.delete(taskId);
+    if (isNonNullish(usage)) {
+      this.taskUsage.set(taskId, usage);
+    }
+  }
+
   private _finalizeTask(taskId: string, result: OrchestratorTaskResult): void {
     this.taskStatuses.set(taskId, result.status);
     this._ensureOutputRecorded(taskId, result.output);
+
+    if (isNonNullish(result.filesChanged) && result.filesChanged.length > 0) {
+      this._emitUpdate({
+        taskId,
+        type: 'files',
+        data: result.filesChanged.join('\n'),
+        timestamp: new Date(),
+      });
+    }
   }
 
   private _updateTaskStatus(taskId: string, status: TaskStatus): void {
@@ -244,7 +330,14 @@ export class TaskOrchestrator extends EventEmitter {
   }
 
   private _coerceStatus(value: string): TaskStatus | undefined {
-    const validStatuses: TaskStatus[] = ['pending', 'running', 'completed', 'failed', 'stopped'];
+    const validStatuses: TaskStatus[] = [
+      'pending',
+      'queued',
+      'running',
+      'completed',
+      'failed',
+      'stopped',
+    ];
     return validStatuses.includes(value as TaskStatus) ? (value as TaskStatus) : undefined;
   }
 }
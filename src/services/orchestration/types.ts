@@ -1,9 +1,10 @@
-import type { ExecutionMode } from '@/core/execution/types';
+import type { ExecutionMode, TaskUsage } from '@/core/execution/types';
+import type { ExecutionContext } from '@/types/schemas-v2';
 
 /**
  * Status lifecycle for orchestrated tasks
  */
-export type TaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'stopped';
+export type TaskStatus = 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'stopped';
 
 /**
  * Result payload emitted by task orchestration flows
@@ -19,6 +20,7 @@ export type OrchestratorTaskResult = {
   startTime?: Date;
   status: TaskStatus;
   taskId: string;
+  usage?: TaskUsage;
   validationResults?: {
     canProceed: boolean;
     errors: string[];
@@ -27,19 +29,22 @@ export type OrchestratorTaskResult = {
 };
 
 /**
- * Streaming updates emitted during task execution
+ * Streaming updates emitted during task execution.
+ * `files` updates carry the files the task changed, one path per line;
+ * `usage` updates carry the task's TaskUsage so far as JSON.
  */
 export type StreamingUpdate = {
   data: string;
   taskId: string;
   timestamp: Date;
-  type: 'stdout' | 'stderr' | 'status';
+  type: 'stdout' | 'stderr' | 'status' | 'files' | 'usage';
 };
 
 /**
  * Incoming execution request from orchestrator to adapters
  */
 export type TaskExecutionRequest = {
+  executionContext?: ExecutionContext;
   files: string[];
   forbiddenFiles?: string[];
   mode: ExecutionMode;
@@ -60,5 +65,10 @@ export type TaskExecutionAdapter = {
 
   getAllTaskStatuses?(): Map<string, 'running' | 'stopped' | 'completed' | 'failed'>;
 
+  /**
+   * Force-kill a task's agent process that did not exit after being stopped
+   */
+  killTask?(taskId: string): boolean;
+
   stopTask?(taskId: string): boolean;
 };
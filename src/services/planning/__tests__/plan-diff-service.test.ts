@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PlanV2, TaskV2 } from '@/types/schemas-v2';
+
+import { PlanDiffService } from '../plan-diff-service';
+
+describe('PlanDiffService', () => {
+  const service = new PlanDiffService();
+
+  const createTask = (overrides: Partial<TaskV2> & Pick<TaskV2, 'id'>): TaskV2 => ({
+    name: 'Task',
+    complexity: 'M',
+    description: 'A task description that is long enough to pass plan validation rules',
+    files: [`src/${overrides.id}.ts`],
+    acceptanceCriteria: [],
+    dependencies: [],
+    ...overrides,
+  });
+
+  const createPlan = (tasks: TaskV2[], phases?: PlanV2['phases']): PlanV2 => ({
+    name: 'Dark Mode',
+    strategy: phases === undefined ? 'parallel' : 'phased-parallel',
+    tasks,
+    ...(phases !== undefined && { phases }),
+  });
+
+  const before = createPlan([
+    createTask({ id: 'types', name: 'Theme Types', files: ['src/theme/types.ts'] }),
+    createTask({ id: 'provider', name: 'Theme Provider', dependencies: ['types'] }),
+    createTask({ id: 'toggle', name: 'Toggle', dependencies: ['provider'] }),
+    createTask({ id: 'legacy', name: 'Remove Legacy Styles' }),
+  ]);
+
+  it('should report nothing for identical plans', () => {
+    const diff = service.diff(before, before);
+
+    expect(diff).toMatchObject({ added: [], removed: [], renamed: [], changed: [] });
+    expect(diff.metrics.after).toEqual(diff.metrics.before);
+  });
+
+  it('should match tasks whose ID changed by name and file similarity', () => {
+    const after = createPlan([
+      createTask({ id: 'theme-types', name: 'Theme Types', files: ['src/theme/types.ts'] }),
+      createTask({ id: 'provider', name: 'Theme Provider', dependencies: ['theme-types'] }),
+      createTask({ id: 'toggle', name: 'Toggle', dependencies: ['provider'] }),
+      createTask({ id: 'docs', name: 'Document Theming' }),
+    ]);
+
+    const diff = service.diff(before, after);
+
+    expect(diff.renamed).toEqual([{ from: 'types', to: 'theme-types', similarity: 1 }]);
+    expect(diff.added).toEqual(['docs']);
+    expect(diff.removed).toEqual(['legacy']);
+    // The renamed dependency is not a dependency change
+    expect(diff.changed).toEqual([]);
+  });
+
+  it('should report changed files, complexity, dependencies, criteria and phases', () => {
+    const phasedBefore = createPlan(before.tasks, [
+      { id: 'setup', name: 'Setup', strategy: 'sequential', tasks: ['types'], requires: [] },
+      {
+        id: 'build',
+        name: 'Build',
+        strategy: 'parallel',
+        tasks: ['provider', 'toggle', 'legacy'],
+        requires: ['setup'],
+      },
+    ]);
+    const after = createPlan(
+      [
+        before.tasks[0] as TaskV2,
+        createTask({
+          id: 'provider',
+          name: 'Theme Provider',
+          complexity: 'L',
+          files: ['src/provider.ts', 'src/context.ts'],
+          acceptanceCriteria: ['Theme is provided to every component'],
+          dependencies: ['types'],
+        }),
+        createTask({ id: 'toggle', name: 'Toggle', dependencies: ['types'] }),
+        before.tasks[3] as TaskV2,
+      ],
+      [
+        {
+          id: 'setup',
+          name: 'Setup',
+          strategy: 'sequential',
+          tasks: ['types', 'legacy'],
+          requires: [],
+        },
+        {
+          id: 'build',
+          name: 'Build',
+          strategy: 'parallel',
+          tasks: ['provider', 'toggle'],
+          requires: ['setup'],
+        },
+      ],
+    );
+
+    const diff = service.diff(phasedBefore, after);
+
+    expect(diff.changed).toEqual([
+      {
+        id: 'provider',
+        files: { added: ['src/context.ts'], removed: [] },
+        complexity: { before: 'M', after: 'L' },
+        acceptanceCriteria: { added: ['Theme is provided to every component'], removed: [] },
+      },
+      { id: 'toggle', dependencies: { added: ['types'], removed: ['provider'] } },
+      { id: 'legacy', phase: { before: 'build', after: 'setup' } },
+    ]);
+  });
+
+  it('should not pair dissimilar tasks and report the metric changes', () => {
+    const after = createPlan([
+      before.tasks[0] as TaskV2,
+      before.tasks[1] as TaskV2,
+      createTask({ id: 'toggle', name: 'Toggle', dependencies: ['types'] }),
+      createTask({ id: 'analytics', name: 'Track Theme Usage' }),
+    ]);
+
+    const diff = service.diff(before, after);
+
+    expect(diff.renamed).toEqual([]);
+    expect(diff.removed).toEqual(['legacy']);
+    expect(diff.added).toEqual(['analytics']);
+    expect(diff.metrics.before).toMatchObject({
+      criticalPath: ['types', 'provider', 'toggle'],
+      criticalPathLength: 12,
+      executionLayers: 3,
+    });
+    expect(diff.metrics.after).toMatchObject({
+      criticalPathLength: 8,
+      executionLayers: 2,
+      maxParallelization: 2,
+    });
+  });
+});
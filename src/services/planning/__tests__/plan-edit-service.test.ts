@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PlanV2, TaskV2 } from '@/types/schemas-v2';
+
+import { PlanEditError } from '@/utils/errors';
+import { DagValidator } from '@/validation/dag-validator';
+
+import { PlanEditService } from '../plan-edit-service';
+
+describe('PlanEditService', () => {
+  const service = new PlanEditService();
+
+  const createTask = (overrides: Partial<TaskV2> & Pick<TaskV2, 'id'>): TaskV2 => ({
+    name: 'Task',
+    complexity: 'M',
+    description: 'A task description that is long enough to pass plan validation rules',
+    files: [`src/${overrides.id}.ts`],
+    acceptanceCriteria: [],
+    dependencies: [],
+    ...overrides,
+  });
+
+  const createPlan = (): PlanV2 => ({
+    name: 'Dark Mode',
+    strategy: 'phased-parallel',
+    phases: [
+      { id: 'setup', name: 'Setup', strategy: 'sequential', tasks: ['types'], requires: [] },
+      {
+        id: 'build',
+        name: 'Build',
+        strategy: 'parallel',
+        tasks: ['provider', 'toggle'],
+        requires: ['setup'],
+      },
+    ],
+    tasks: [
+      createTask({ id: 'types', complexity: 'S' }),
+      createTask({
+        id: 'provider',
+        name: 'Provider',
+        complexity: 'L',
+        files: ['src/context.ts', 'src/provider.tsx'],
+        acceptanceCriteria: ['Theme is provided'],
+        dependencies: ['types'],
+      }),
+      createTask({ id: 'toggle', dependencies: ['types', 'provider'] }),
+    ],
+  });
+
+  describe('split', () => {
+    it('should replace the task with parts everywhere it is referenced', () => {
+      const plan = createPlan();
+
+      const edited = service.split(plan, 'provider', [
+        { id: 'context', files: ['src/context.ts'] },
+        { id: 'provider', files: ['src/provider.tsx'] },
+      ]);
+
+      expect(edited.tasks.map((task) => task.id)).toEqual([
+        'types',
+        'context',
+        'provider',
+        'toggle',
+      ]);
+      expect(edited.tasks[1]).toEqual({
+        id: 'context',
+        name: 'Provider (1/2)',
+        complexity: 'M',
+        description: plan.tasks[1]?.description,
+        files: ['src/context.ts'],
+        acceptanceCriteria: ['Theme is provided'],
+        dependencies: ['types'],
+      });
+      expect(edited.tasks[3]?.dependencies).toEqual(['types', 'context', 'provider']);
+      expect(edited.phases?.[1]?.tasks).toEqual(['context', 'provider', 'toggle']);
+      expect(DagValidator.validatePlan(edited).valid).toBe(true);
+      expect(plan.tasks).toHaveLength(3);
+    });
+
+    it('should require the parts to take over every file exactly once', () => {
+      const plan = createPlan();
+
+      expect(() =>
+        service.split(plan, 'provider', [
+          { id: 'context', files: ['src/context.ts'] },
+          { id: 'other', files: ['src/context.ts'] },
+        ]),
+      ).toThrow("File 'src/context.ts' is taken by both 'context' and 'other'");
+      expect(() =>
+        service.split(plan, 'provider', [
+          { id: 'context', files: ['src/context.ts'] },
+          { id: 'other', files: ['src/other.ts'] },
+        ]),
+      ).toThrow("File 'src/other.ts' of part 'other' is not a file of task 'provider'");
+      expect(() =>
+        service.split(plan, 'provider', [
+          { id: 'context', files: ['src/context.ts'] },
+          { id: 'toggle', files: ['src/provider.tsx'] },
+        ]),
+      ).toThrow("Task 'toggle' already exists");
+    });
+  });
+
+  describe('merge', () => {
+    it('should combine tasks of one phase into the first one', () => {
+      const edited = service.merge(createPlan(), ['provider', 'toggle'], { name: 'Theming' });
+
+      expect(edited.tasks.map((task) => task.id)).toEqual(['types', 'provider']);
+      expect(edited.tasks[1]).toMatchObject({
+        name: 'Theming',
+        complexity: 'L',
+        files: ['src/context.ts', 'src/provider.tsx', 'src/toggle.ts'],
+        dependencies: ['types'],
+      });
+      expect(edited.tasks[1]?.description).toContain('\n\n');
+      expect(edited.phases?.[1]?.tasks).toEqual(['provider']);
+    });
+
+    it('should rewire dependents to the merged task', () => {
+      const edited = service.merge(createPlan(), ['toggle', 'provider'], { id: 'theming' });
+
+      expect(edited.tasks.map((task) => task.id)).toEqual(['types', 'theming']);
+      expect(edited.phases?.[1]?.tasks).toEqual(['theming']);
+    });
+
+    it('should refuse tasks of different phases', () => {
+      expect(() => service.merge(createPlan(), ['types', 'provider'])).toThrow(
+        "Tasks 'types', 'provider' are in different phases; move them into one phase first",
+      );
+    });
+  });
+
+  describe('move', () => {
+    it('should move a task into another phase before a given task', () => {
+      const edited = service.move(createPlan(), 'toggle', 'setup', { before: 'types' });
+
+      expect(edited.phases?.map((phase) => phase.tasks)).toEqual([
+        ['toggle', 'types'],
+        ['provider'],
+      ]);
+    });
+
+    it('should refuse to leave a phase without tasks', () => {
+      expect(() => service.move(createPlan(), 'types', 'build')).toThrow(
+        "Moving 'types' would leave phase 'setup' without tasks; remove the phase first",
+      );
+      expect(() => service.move(createPlan(), 'toggle', 'deploy')).toThrow(PlanEditError);
+    });
+  });
+
+  describe('dependencies', () => {
+    it('should add and remove dependencies', () => {
+      const added = service.addDependency(createPlan(), 'provider', 'toggle');
+      expect(added.tasks[1]?.dependencies).toEqual(['types', 'toggle']);
+      // The cycle is reported by the validator, not refused by the edit
+      expect(DagValidator.validatePlan(added).valid).toBe(false);
+
+      const removed = service.removeDependency(added, 'toggle', 'provider');
+      expect(removed.tasks[2]?.dependencies).toEqual(['types']);
+      expect(DagValidator.validatePlan(removed).valid).toBe(true);
+    });
+
+    it('should refuse dependencies on unknown tasks, the task itself and duplicates', () => {
+      const plan = createPlan();
+
+      expect(() => service.addDependency(plan, 'toggle', 'ghost')).toThrow(
+        "Plan edit failed: Task 'ghost' does not exist",
+      );
+      expect(() => service.addDependency(plan, 'toggle', 'toggle')).toThrow(
+        'cannot depend on itself',
+      );
+      expect(() => service.addDependency(plan, 'toggle', 'types')).toThrow('already depends on');
+      expect(() => service.removeDependency(plan, 'types', 'toggle')).toThrow(
+        "Task 'types' does not depend on 'toggle'",
+      );
+    });
+  });
+
+  describe('rename', () => {
+    it('should rename a task in dependencies and phases', () => {
+      const edited = service.rename(createPlan(), 'types', 'theme-types', { name: 'Theme Types' });
+
+      expect(edited.tasks[0]).toMatchObject({ id: 'theme-types', name: 'Theme Types' });
+      expect(edited.tasks.map((task) => task.dependencies)).toEqual([
+        [],
+        ['theme-types'],
+        ['theme-types', 'provider'],
+      ]);
+      expect(edited.phases?.[0]?.tasks).toEqual(['theme-types']);
+    });
+
+    it('should refuse IDs that are taken or not kebab-case', () => {
+      expect(() => service.rename(createPlan(), 'types', 'toggle')).toThrow(
+        "Task 'toggle' already exists",
+      );
+      expect(() => service.rename(createPlan(), 'types', 'Theme Types')).toThrow(
+        "Task ID 'Theme Types' must be kebab-case",
+      );
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PlanV2, TaskV2 } from '@/types/schemas-v2';
+
+import { PlanGraphRenderer } from '../plan-graph-renderer';
+
+describe('PlanGraphRenderer', () => {
+  const createTask = (overrides: Partial<TaskV2> & Pick<TaskV2, 'id'>): TaskV2 => ({
+    name: 'Task',
+    complexity: 'M',
+    description: 'A task description that is long enough to pass plan validation rules',
+    files: [`src/${overrides.id}.ts`],
+    acceptanceCriteria: [],
+    dependencies: [],
+    ...overrides,
+  });
+
+  const plan: PlanV2 = {
+    name: 'Dark "Mode"',
+    strategy: 'phased-parallel',
+    phases: [
+      { id: 'setup', name: 'Setup', strategy: 'sequential', tasks: ['create-types'], requires: [] },
+      {
+        id: 'build',
+        name: 'Build <UI>',
+        strategy: 'parallel',
+        tasks: ['theme-provider', 'toggle-button'],
+        requires: ['setup'],
+      },
+    ],
+    tasks: [
+      createTask({ id: 'create-types', name: 'Create Types', complexity: 'S' }),
+      createTask({
+        id: 'theme-provider',
+        name: 'Theme Provider',
+        complexity: 'L',
+        files: ['src/theme.tsx', 'src/app.tsx'],
+        dependencies: ['create-types'],
+      }),
+      createTask({
+        id: 'toggle-button',
+        name: 'Toggle <Button>',
+        complexity: 'XS',
+        files: ['src/toggle.tsx', 'src/app.tsx'],
+        dependencies: ['create-types'],
+      }),
+    ],
+  };
+
+  describe('mermaid', () => {
+    it('should cluster tasks by phase and colour them by complexity', () => {
+      const output = PlanGraphRenderer.render(plan, 'mermaid');
+
+      expect(output).toContain('flowchart LR');
+      expect(output).toContain('  subgraph p_build["Build #lt;UI#gt; (parallel)"]');
+      expect(output).toContain(
+        '    t_toggle_button["toggle-button<br/>Toggle #lt;Button#gt; · XS"]',
+      );
+      expect(output).toContain('  class t_theme_provider complexityL');
+      expect(output).toContain('  classDef complexityXS fill:#dcfce7,stroke:#475569');
+    });
+
+    it('should highlight the critical path and mark conflicting tasks', () => {
+      const output = PlanGraphRenderer.render(plan, 'mermaid');
+
+      expect(output).toContain('  t_create_types --> t_theme_provider');
+      expect(output).toContain('  t_theme_provider -.-|"conflict: src/app.tsx"| t_toggle_button');
+      expect(output).toContain('  style t_theme_provider stroke:#1d4ed8,stroke-width:3px');
+      expect(output).toContain('  linkStyle 0 stroke:#1d4ed8,stroke-width:3px');
+      expect(output).toContain('  linkStyle 2 stroke:#dc2626');
+    });
+  });
+
+  describe('dot', () => {
+    it('should render phase clusters, critical edges and conflict edges', () => {
+      const output = PlanGraphRenderer.render(plan, 'dot');
+
+      expect(output).toMatch(/^digraph "Dark \\"Mode\\"" {/);
+      expect(output).toContain('  subgraph "cluster_setup" {');
+      expect(output).toContain(
+        '    "create-types" [label="create-types\\nCreate Types · S", fillcolor="#bbf7d0", color="#1d4ed8", penwidth=3];',
+      );
+      expect(output).toContain(
+        '  "create-types" -> "theme-provider" [color="#1d4ed8", penwidth=3];',
+      );
+      expect(output).toContain('  "create-types" -> "toggle-button";');
+      expect(output).toContain(
+        '  "theme-provider" -> "toggle-button" [dir=none, style=dashed, constraint=false',
+      );
+    });
+  });
+
+  describe('html', () => {
+    it('should produce a self-contained page with the graph and task table', () => {
+      const output = PlanGraphRenderer.render(plan, 'html');
+
+      expect(output).toMatch(/^<!DOCTYPE html>/);
+      expect(output).toContain('<title>Dark &quot;Mode&quot; · task graph</title>');
+      expect(output).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+      expect(output).toContain('Build &lt;UI&gt; (parallel)');
+      expect(output).toContain('Toggle &lt;Button&gt;');
+      expect(output).toContain(
+        '<code>theme-provider</code> and <code>toggle-button</code>: <code>src/app.tsx</code>',
+      );
+      expect(output).not.toMatch(/<script|<link|src="http/);
+    });
+  });
+});
@@ -4,8 +4,10 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import type { Phase, PlanV2, TaskV2 } from '@/types/schemas-v2';
 
+import { YamlPlanParser } from '@/io/yaml-parser';
 import { logger } from '@/utils/global-logger';
 
+import { PlanEditService } from '../plan-edit-service';
 import { PlanOutputter } from '../plan-outputter';
 
 // Mock dependencies
@@ -419,6 +421,112 @@ describe('PlanOutputter', () => {
     });
   });
 
+  describe('formatPlanUpdate', () => {
+    const source = `# Dark mode plan
+name: Dark Mode
+strategy: phased-parallel # keep
+phases:
+  - id: setup
+    name: Setup
+    strategy: sequential
+    tasks: [types, provider]
+
+tasks:
+  # Shared types
+  - id: types
+    name: Types
+    complexity: S
+    description: "Define the theme types used throughout the application code."
+    files:
+      - src/types.ts # generated later
+    acceptance_criteria:
+      - Types are exported
+  - id: provider
+    name: Provider
+    complexity: M
+    description: Create the theme provider with context and hooks for every component.
+    files: [src/context.ts, src/provider.tsx]
+    dependencies: [types]
+`;
+
+    const parse = (content: string): PlanV2 => YamlPlanParser.parse(content);
+
+    it('should return the source unchanged for an unchanged plan', () => {
+      expect(PlanOutputter.formatPlanUpdate(parse(source), source)).toBe(source);
+    });
+
+    it('should keep comments and styles while renaming and adding tasks', () => {
+      const plan = parse(source);
+      const [types, provider] = plan.tasks as [TaskV2, TaskV2];
+      const edited: PlanV2 = {
+        ...plan,
+        phases: [{ ...(plan.phases?.[0] as Phase), tasks: ['theme-types', 'context', 'provider'] }],
+        tasks: [
+          { ...types, id: 'theme-types' },
+          { ...provider, id: 'context', files: ['src/context.ts'], dependencies: ['theme-types'] },
+          { ...provider, files: ['src/provider.tsx'], dependencies: ['theme-types'] },
+        ],
+      };
+
+      const output = PlanOutputter.formatPlanUpdate(edited, source);
+
+      expect(output).toContain('# Dark mode plan\n');
+      expect(output).toContain('strategy: phased-parallel # keep\n');
+      expect(output).toContain('tasks: [theme-types, context, provider]\n');
+      expect(output).toContain(
+        '  # Shared types\n  - id: theme-types\n    name: Types\n    complexity: S\n    description: "Define',
+      );
+      expect(output).toContain('      - src/types.ts # generated later\n');
+      expect(output).toContain('    acceptance_criteria:\n      - Types are exported\n');
+      expect(output).toContain(
+        '  - id: context\n    name: Provider\n    complexity: M\n    description: Create the theme provider with context and hooks for every component.\n    files:\n      - src/context.ts\n    dependencies:\n      - theme-types\n',
+      );
+      expect(output).toContain('    files: [src/provider.tsx]\n    dependencies: [theme-types]\n');
+      expect(parse(output)).toEqual(edited);
+    });
+
+    it('should keep snake_case acceptance criteria of plans it wrote when merging tasks', () => {
+      const createTask = (id: string): TaskV2 => ({
+        id,
+        name: `Task ${id.toUpperCase()}`,
+        complexity: 'S',
+        description: `Implement ${id} with enough detail to pass the plan validation rules`,
+        files: [`src/${id}.ts`],
+        acceptanceCriteria: [`${id} works`],
+        dependencies: [],
+      });
+      const written = PlanOutputter.formatPlanOutput({
+        name: 'Two Tasks',
+        strategy: 'parallel',
+        tasks: [createTask('a'), createTask('b')],
+      });
+
+      const merged = new PlanEditService().merge(parse(written), ['a', 'b']);
+      const output = PlanOutputter.formatPlanUpdate(merged, written);
+
+      expect(output).toContain('acceptance_criteria:');
+      expect(output).not.toContain('acceptanceCriteria');
+      expect(parse(output).tasks).toEqual([
+        expect.objectContaining({ id: 'a', acceptanceCriteria: ['a works', 'b works'] }),
+      ]);
+    });
+
+    it('should remove tasks the plan no longer has', () => {
+      const plan = parse(source);
+      const edited: PlanV2 = {
+        ...plan,
+        phases: [{ ...(plan.phases?.[0] as Phase), tasks: ['types'] }],
+        tasks: [plan.tasks[0] as TaskV2],
+      };
+
+      const output = PlanOutputter.formatPlanUpdate(edited, source);
+
+      expect(output).not.toContain('id: provider');
+      expect(output).toContain('tasks: [types]\n');
+      expect(parse(output)).toEqual(edited);
+    });
+  });
+
   describe('outputPlan', () => {
     it('should write plan to file when outputPath is provided', async () => {
       const plan: PlanV2 = {
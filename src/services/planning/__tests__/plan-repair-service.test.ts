@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+
+import type { PlanV2, TaskV2 } from '@/types/schemas-v2';
+
+import { DagValidator } from '@/validation/dag-validator';
+
+import { formatPlanRepairChange, PlanRepairService } from '../plan-repair-service';
+
+describe('PlanRepairService', () => {
+  const service = new PlanRepairService();
+
+  const createTask = (overrides: Partial<TaskV2> & Pick<TaskV2, 'id'>): TaskV2 => ({
+    name: 'Task',
+    complexity: 'M',
+    description: 'A task description that is long enough to pass plan validation rules',
+    files: [`src/${overrides.id}.ts`],
+    acceptanceCriteria: [],
+    dependencies: [],
+    ...overrides,
+  });
+
+  const createPlan = (tasks: TaskV2[], phases?: PlanV2['phases']): PlanV2 => ({
+    name: 'Repair',
+    strategy: phases === undefined ? 'parallel' : 'phased-parallel',
+    tasks,
+    ...(phases !== undefined && { phases }),
+  });
+
+  it('should leave a valid plan unchanged', () => {
+    const plan = createPlan([
+      createTask({ id: 'types' }),
+      createTask({ id: 'provider', dependencies: ['types'] }),
+    ]);
+
+    const result = service.repair(plan);
+
+    expect(result.changes).toEqual([]);
+    expect(result.plan).toEqual(plan);
+  });
+
+  it('should drop dependencies on missing tasks, the task itself and duplicates', () => {
+    const plan = createPlan([
+      createTask({ id: 'types' }),
+      createTask({ id: 'provider', dependencies: ['types', 'ghost', 'provider', 'types'] }),
+    ]);
+
+    const { changes, plan: repaired } = service.repair(plan);
+
+    expect(repaired.tasks[1]?.dependencies).toEqual(['types']);
+    expect(changes.map((change) => formatPlanRepairChange(change))).toEqual([
+      "- tasks.provider.dependencies: ghost (task 'ghost' does not exist)",
+      '- tasks.provider.dependencies: provider (a task cannot depend on itself)',
+      '- tasks.provider.dependencies: types (duplicate dependency)',
+    ]);
+    expect(plan.tasks[1]?.dependencies).toHaveLength(4);
+  });
+
+  it('should serialise parallel tasks sharing a file in plan order', () => {
+    const plan = createPlan([
+      createTask({ id: 'provider', files: ['src/app.tsx'] }),
+      createTask({ id: 'toggle', files: ['src/app.tsx', 'src/theme.css'] }),
+      createTask({ id: 'styles', files: ['src/app.tsx', 'src/theme.css'] }),
+    ]);
+
+    const { changes, plan: repaired } = service.repair(plan);
+
+    expect(changes.map((change) => formatPlanRepairChange(change))).toEqual([
+      '+ tasks.toggle.dependencies: provider (serialises parallel edits to src/app.tsx)',
+      '+ tasks.styles.dependencies: provider (serialises parallel edits to src/app.tsx)',
+      '+ tasks.styles.dependencies: toggle (serialises parallel edits to src/app.tsx)',
+    ]);
+    expect(DagValidator.validatePlan(repaired).conflicts).toBeUndefined();
+  });
+
+  it('should order conflicting tasks by phase before plan order', () => {
+    const plan = createPlan(
+      [
+        createTask({ id: 'late', files: ['src/app.tsx'] }),
+        createTask({ id: 'early', files: ['src/app.tsx'] }),
+      ],
+      [
+        { id: 'setup', name: 'Setup', strategy: 'parallel', tasks: ['early'], requires: [] },
+        { id: 'build', name: 'Build', strategy: 'parallel', tasks: ['late'], requires: ['setup'] },
+      ],
+    );
+
+    const { changes } = service.repair(plan);
+
+    expect(changes).toEqual([
+      expect.objectContaining({ path: 'tasks.late.dependencies', value: 'early' }),
+    ]);
+  });
+
+  it('should break a cycle at the edge between the lightest tasks', () => {
+    const plan = createPlan([
+      createTask({ id: 'types', complexity: 'XL', dependencies: ['context'] }),
+      createTask({ id: 'context', complexity: 'S', dependencies: ['provider'] }),
+      createTask({ id: 'provider', complexity: 'XS', dependencies: ['types'] }),
+    ]);
+
+    const { changes, plan: repaired } = service.repair(plan);
+
+    expect(changes.map((change) => formatPlanRepairChange(change))).toEqual([
+      '- tasks.context.dependencies: provider (breaks the dependency cycle between types, context, provider)',
+    ]);
+    expect(DagValidator.validatePlan(repaired).circularDependencies).toBeUndefined();
+  });
+
+  it('should add tasks outside every phase to a phase', () => {
+    const plan = createPlan(
+      [
+        createTask({ id: 'types' }),
+        createTask({ id: 'provider', dependencies: ['types'] }),
+        createTask({ id: 'docs', phase: 'setup' }),
+        createTask({ id: 'toggle', dependencies: ['provider', 'types'] }),
+        createTask({ id: 'readme' }),
+      ],
+      [
+        { id: 'setup', name: 'Setup', strategy: 'sequential', tasks: ['types'], requires: [] },
+        {
+          id: 'build',
+          name: 'Build',
+          strategy: 'parallel',
+          tasks: ['provider'],
+          requires: ['setup'],
+        },
+      ],
+    );
+
+    const { changes, plan: repaired } = service.repair(plan);
+
+    expect(changes.map(({ path, value }) => `${path}: ${value}`)).toEqual([
+      'phases.setup.tasks: docs',
+      'phases.build.tasks: toggle',
+      'phases.setup.tasks: readme',
+    ]);
+    expect(repaired.phases?.map((phase) => phase.tasks)).toEqual([
+      ['types', 'docs', 'readme'],
+      ['provider', 'toggle'],
+    ]);
+    expect(plan.phases?.[0]?.tasks).toEqual(['types']);
+  });
+});
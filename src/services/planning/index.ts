@@ -2,7 +2,22 @@
  * Planning utilities for task decomposition and execution planning
  */
 export { ExecutionPlanAnalyzer } from './execution-plan-analyzer';
+export {
+  type PlanDiff,
+  PlanDiffService,
+  type PlanListDiff,
+  type PlanTaskDiff,
+  type PlanTaskRename,
+} from './plan-diff-service';
+export { type PlanSplitPart, PlanEditService } from './plan-edit-service';
 export { generatePlanWithRetry } from './plan-generator';
+export { type PlanGraphFormat, PlanGraphRenderer } from './plan-graph-renderer';
 export { PlanOutputter } from './plan-outputter';
+export {
+  formatPlanRepairChange,
+  type PlanRepairChange,
+  type PlanRepairResult,
+  PlanRepairService,
+} from './plan-repair-service';
 export { createProgressLine, ProgressFormatter, TaskProgressManager } from './progress-formatter';
 export { PromptBuilder } from './prompts';
@@ -0,0 +1,209 @@
+import type { Complexity, PlanV2, TaskV2 } from '@/types/schemas-v2';
+
+import { DagValidator, type PlanMetrics } from '@/validation/dag-validator';
+
+/**
+ * Entries added to and removed from a list, e.g. a task's files
+ */
+export type PlanListDiff = {
+  added: string[];
+  removed: string[];
+};
+
+/**
+ * A task whose ID changed, matched by name and file similarity
+ */
+export type PlanTaskRename = {
+  from: string;
+  /** Similarity of names and files, between 0 and 1 */
+  similarity: number;
+  to: string;
+};
+
+/**
+ * Changed fields of a task that exists in both plans. Unchanged fields are omitted.
+ */
+export type PlanTaskDiff = {
+  acceptanceCriteria?: PlanListDiff;
+  complexity?: { after: Complexity; before: Complexity };
+  /** Dependencies in new-plan IDs, so a renamed dependency is not reported as changed */
+  dependencies?: PlanListDiff;
+  files?: PlanListDiff;
+  /** ID in the new plan */
+  id: string;
+  name?: { after: string; before: string };
+  phase?: { after?: string; before?: string };
+  /** ID in the old plan, for renamed tasks */
+  previousId?: string;
+};
+
+/**
+ * Differences between two versions of a plan
+ */
+export type PlanDiff = {
+  /** IDs of tasks only in the new plan */
+  added: string[];
+  changed: PlanTaskDiff[];
+  metrics: { after: PlanMetrics; before: PlanMetrics };
+  /** IDs of tasks only in the old plan */
+  removed: string[];
+  renamed: PlanTaskRename[];
+};
+
+/** Minimum similarity for two tasks with different IDs to count as one renamed task */
+const RENAME_THRESHOLD = 0.5;
+
+/**
+ * Compares two versions of a plan task by task, instead of line by line
+ *
+ * @remarks
+ * Tasks are matched by ID first. Remaining tasks are paired by the similarity of their
+ * names (shared words) and files (shared paths), the most similar pair first; pairs
+ * below {@link RENAME_THRESHOLD} count as a removed and an added task. The impact on
+ * the critical path and parallelisation comes from {@link DagValidator.calculateMetrics}.
+ *
+ * @example
+ * ```typescript
+ * const diff = new PlanDiffService().diff(previousPlan, regeneratedPlan);
+ * logger.info(`${diff.added.length} added, ${diff.removed.length} removed`);
+ * ```
+ */
+export class PlanDiffService {
+  diff(before: PlanV2, after: PlanV2): PlanDiff {
+    const afterIds = new Set(after.tasks.map((task) => task.id));
+    const beforeIds = new Set(before.tasks.map((task) => task.id));
+    const renamed = this._matchRenamedTasks(
+      before.tasks.filter((task) => !afterIds.has(task.id)),
+      after.tasks.filter((task) => !beforeIds.has(task.id)),
+    );
+
+    // Old ID -> new ID of every task in both plans
+    const idMap = new Map<string, string>([
+      ...before.tasks
+        .filter((task) => afterIds.has(task.id))
+        .map((task): [string, string] => [task.id, task.id]),
+      ...renamed.map(({ from, to }): [string, string] => [from, to]),
+    ]);
+    const matchedIds = new Set(idMap.values());
+    const beforeById = new Map(before.tasks.map((task) => [task.id, task]));
+    const previousIds = new Map([...idMap].map(([from, to]) => [to, from]));
+
+    const changed = after.tasks.flatMap((task) => {
+      const previousId = previousIds.get(task.id);
+      const previous = previousId === undefined ? undefined : beforeById.get(previousId);
+      if (previous === undefined) {
+        return [];
+      }
+      const taskDiff = this._diffTask(before, previous, after, task, idMap);
+      return taskDiff === undefined ? [] : [taskDiff];
+    });
+
+    return {
+      added: after.tasks.filter((task) => !matchedIds.has(task.id)).map((task) => task.id),
+      removed: before.tasks.filter((task) => !idMap.has(task.id)).map((task) => task.id),
+      renamed,
+      changed,
+      metrics: {
+        before: DagValidator.calculateMetrics(before),
+        after: DagValidator.calculateMetrics(after),
+      },
+    };
+  }
+
+  private _matchRenamedTasks(removed: TaskV2[], added: TaskV2[]): PlanTaskRename[] {
+    const candidates = removed
+      .flatMap((from) =>
+        added.map((to) => ({ from: from.id, to: to.id, similarity: taskSimilarity(from, to) })),
+      )
+      .filter(({ similarity }) => similarity >= RENAME_THRESHOLD)
+      // Stable sort: equally similar pairs keep plan order
+      .sort((a, b) => b.similarity - a.similarity);
+
+    const renamed: PlanTaskRename[] = [];
+    for (const candidate of candidates) {
+      if (renamed.some(({ from, to }) => from === candidate.from || to === candidate.to)) {
+        continue;
+      }
+      renamed.push({ ...candidate, similarity: Math.round(candidate.similarity * 100) / 100 });
+    }
+    return renamed.sort(
+      (a, b) =>
+        added.findIndex((task) => task.id === a.to) - added.findIndex((task) => task.id === b.to),
+    );
+  }
+
+  private _diffTask(
+    beforePlan: PlanV2,
+    before: TaskV2,
+    afterPlan: PlanV2,
+    after: TaskV2,
+    idMap: Map<string, string>,
+  ): PlanTaskDiff | undefined {
+    const files = diffLists(before.files, after.files);
+    const dependencies = diffLists(
+      before.dependencies.map((dependency) => idMap.get(dependency) ?? dependency),
+      after.dependencies,
+    );
+    const acceptanceCriteria = diffLists(before.acceptanceCriteria, after.acceptanceCriteria);
+    const beforePhase = getPhaseId(beforePlan, before);
+    const afterPhase = getPhaseId(afterPlan, after);
+
+    const taskDiff: PlanTaskDiff = {
+      id: after.id,
+      ...(before.id !== after.id && { previousId: before.id }),
+      ...(before.name !== after.name && { name: { before: before.name, after: after.name } }),
+      ...(files !== undefined && { files }),
+      ...(before.complexity !== after.complexity && {
+        complexity: { before: before.complexity, after: after.complexity },
+      }),
+      ...(dependencies !== undefined && { dependencies }),
+      ...(acceptanceCriteria !== undefined && { acceptanceCriteria }),
+      ...(beforePhase !== afterPhase && {
+        phase: {
+          ...(beforePhase !== undefined && { before: beforePhase }),
+          ...(afterPhase !== undefined && { after: afterPhase }),
+        },
+      }),
+    };
+    const changedFields = Object.keys(taskDiff).filter(
+      (key) => key !== 'id' && key !== 'previousId',
+    );
+    return changedFields.length > 0 ? taskDiff : undefined;
+  }
+}
+
+function diffLists(before: string[], after: string[]): PlanListDiff | undefined {
+  const added = after.filter((entry) => !before.includes(entry));
+  const removed = before.filter((entry) => !after.includes(entry));
+  return added.length > 0 || removed.length > 0 ? { added, removed } : undefined;
+}
+
+/**
+ * Phase a task runs in: the phase listing it, else the phase it names
+ */
+function getPhaseId(plan: PlanV2, task: TaskV2): string | undefined {
+  return plan.phases?.find((phase) => phase.tasks.includes(task.id))?.id ?? task.phase;
+}
+
+/**
+ * Mean of the Jaccard similarities of the tasks' name words and files
+ */
+function taskSimilarity(a: TaskV2, b: TaskV2): number {
+  return (jaccard(nameWords(a.name), nameWords(b.name)) + jaccard(a.files, b.files)) / 2;
+}
+
+function nameWords(name: string): string[] {
+  return name
+    .toLowerCase()
+    .split(/[^\da-z]+/)
+    .filter((word) => word !== '');
+}
+
+function jaccard(a: string[], b: string[]): number {
+  const union = new Set([...a, ...b]);
+  if (union.size === 0) {
+    return 0;
+  }
+  const shared = [...new Set(a)].filter((entry) => b.includes(entry)).length;
+  return shared / union.size;
+}
@@ -0,0 +1,322 @@
+import type { Complexity, PlanV2, TaskV2 } from '@/types/schemas-v2';
+
+import { PlanEditError } from '@/utils/errors';
+import { DagValidator } from '@/validation/dag-validator';
+
+/**
+ * One of the tasks a task is split into
+ */
+export type PlanSplitPart = {
+  /** Files of the original task this part takes over */
+  files: string[];
+  id: string;
+  /** Defaults to the original name with a `(1/2)` style suffix */
+  name?: string;
+};
+
+const TASK_ID_PATTERN = /^[\da-z-]+$/;
+const COMPLEXITY_ORDER: Complexity[] = ['XS', 'S', 'M', 'L', 'XL'];
+
+/**
+ * Structural edits of a plan that keep task dependencies, phase task lists and file
+ * lists consistent with each other
+ *
+ * @remarks
+ * Every edit returns a new plan and leaves the original untouched. Edits throw a
+ * {@link PlanEditError} when their arguments do not fit the plan (unknown tasks,
+ * duplicate IDs, files that no part takes over, ...). Whether the edited plan is still
+ * valid (no cycles, no file conflicts) is left to {@link DagValidator}.
+ *
+ * @example
+ * ```typescript
+ * const edited = new PlanEditService().split(plan, 'theme-provider', [
+ *   { id: 'theme-context', files: ['src/theme/context.ts'] },
+ *   { id: 'theme-provider', files: ['src/theme/provider.tsx'] },
+ * ]);
+ * ```
+ */
+export class PlanEditService {
+  /**
+   * Replace a task with parts that divide its files between them. Each part keeps the
+   * task's description, dependencies, phase, acceptance criteria and verify commands,
+   * is one size smaller, and takes the task's place in its phase. Dependents of the task
+   * depend on every part.
+   */
+  split(original: PlanV2, taskId: string, parts: PlanSplitPart[]): PlanV2 {
+    const plan = clonePlan(original);
+    const task = getTask(plan, taskId);
+    if (parts.length < 2) {
+      throw new PlanEditError(`Task '${taskId}' must be split into at least 2 parts`);
+    }
+
+    const partIds = parts.map((part) => part.id);
+    for (const id of partIds) {
+      assertNewTaskId(plan, id, taskId);
+    }
+    const duplicateId = partIds.find((id, index) => partIds.indexOf(id) !== index);
+    if (duplicateId !== undefined) {
+      throw new PlanEditError(`Part ID '${duplicateId}' is used more than once`);
+    }
+
+    const owners = new Map<string, string>();
+    for (const part of parts) {
+      if (part.files.length === 0) {
+        throw new PlanEditError(`Part '${part.id}' must take over at least one file`);
+      }
+      for (const file of part.files) {
+        if (!task.files.includes(file)) {
+          throw new PlanEditError(
+            `File '${file}' of part '${part.id}' is not a file of task '${taskId}'`,
+          );
+        }
+        const owner = owners.get(file);
+        if (owner !== undefined) {
+          throw new PlanEditError(`File '${file}' is taken by both '${owner}' and '${part.id}'`);
+        }
+        owners.set(file, part.id);
+      }
+    }
+    const unassigned = task.files.filter((file) => !owners.has(file));
+    if (unassigned.length > 0) {
+      throw new PlanEditError(
+        `Files of task '${taskId}' are not taken over by any part: ${unassigned.join(', ')}`,
+      );
+    }
+
+    const complexity = COMPLEXITY_ORDER[Math.max(COMPLEXITY_ORDER.indexOf(task.complexity) - 1, 0)];
+    const splitTasks: TaskV2[] = parts.map((part, index) => ({
+      ...task,
+      id: part.id,
+      name: part.name ?? `${task.name} (${index + 1}/${parts.length})`,
+      complexity: complexity ?? task.complexity,
+      files: task.files.filter((file) => part.files.includes(file)),
+    }));
+
+    plan.tasks = plan.tasks.flatMap((candidate) =>
+      candidate.id === taskId ? splitTasks : [replaceDependency(candidate, taskId, partIds)],
+    );
+    replaceInPhases(plan, taskId, partIds);
+    return plan;
+  }
+
+  /**
+   * Combine tasks of one phase into a single task that takes the place of the first one.
+   * Files, dependencies, acceptance criteria and verify commands are combined, the
+   * descriptions joined, and the complexity sized from the tasks' combined weight.
+   * Dependents of any merged task depend on the merged task.
+   */
+  merge(original: PlanV2, taskIds: string[], options: { id?: string; name?: string } = {}): PlanV2 {
+    const plan = clonePlan(original);
+    if (new Set(taskIds).size < 2) {
+      throw new PlanEditError('At least 2 different tasks are required for a merge');
+    }
+
+    const tasks = taskIds.map((taskId) => getTask(plan, taskId));
+    const phases = new Set(tasks.map((task) => getPhaseId(plan, task)));
+    if (phases.size > 1) {
+      throw new PlanEditError(
+        `Tasks ${taskIds.map((taskId) => `'${taskId}'`).join(', ')} are in different phases; move them into one phase first`,
+      );
+    }
+
+    const [first] = tasks as [TaskV2, ...TaskV2[]];
+    const id = options.id ?? first.id;
+    assertNewTaskId(plan, id, ...taskIds);
+
+    const verify = unique(tasks.flatMap((task) => task.verify ?? []));
+    const score = tasks.reduce(
+      (sum, task) => sum + DagValidator.getComplexityScore(task.complexity),
+      0,
+    );
+    const merged: TaskV2 = {
+      ...first,
+      id,
+      name: options.name ?? first.name,
+      complexity:
+        [...COMPLEXITY_ORDER]
+          .reverse()
+          .find((size) => DagValidator.getComplexityScore(size) <= score) ?? first.complexity,
+      description: tasks.map((task) => task.description.trim()).join('\n\n'),
+      files: unique(tasks.flatMap((task) => task.files)),
+      acceptanceCriteria: unique(tasks.flatMap((task) => task.acceptanceCriteria)),
+      dependencies: unique(tasks.flatMap((task) => task.dependencies)).filter(
+        (dependency) => !taskIds.includes(dependency),
+      ),
+      ...(verify.length > 0 && { verify }),
+    };
+
+    plan.tasks = plan.tasks.flatMap((task) => {
+      if (task.id === first.id) {
+        return [merged];
+      }
+      if (taskIds.includes(task.id)) {
+        return [];
+      }
+      return taskIds.reduce((current, taskId) => replaceDependency(current, taskId, [id]), task);
+    });
+    for (const taskId of taskIds) {
+      replaceInPhases(plan, taskId, taskId === first.id ? [id] : []);
+    }
+    return plan;
+  }
+
+  /**
+   * Move a task into another phase, at the end or before another task of that phase
+   */
+  move(
+    original: PlanV2,
+    taskId: string,
+    phaseId: string,
+    options: { before?: string } = {},
+  ): PlanV2 {
+    const plan = clonePlan(original);
+    const task = getTask(plan, taskId);
+    const phases = plan.phases ?? [];
+    const target = phases.find((phase) => phase.id === phaseId);
+    if (target === undefined) {
+      throw new PlanEditError(
+        phases.length === 0 ? 'Plan has no phases' : `Phase '${phaseId}' does not exist`,
+      );
+    }
+    if (options.before !== undefined && !target.tasks.includes(options.before)) {
+      throw new PlanEditError(`Task '${options.before}' is not in phase '${phaseId}'`);
+    }
+    if (options.before === taskId) {
+      throw new PlanEditError(`Task '${taskId}' cannot be moved before itself`);
+    }
+
+    for (const phase of phases) {
+      phase.tasks = phase.tasks.filter((id) => id !== taskId);
+      if (phase.tasks.length === 0 && phase.id !== phaseId) {
+        throw new PlanEditError(
+          `Moving '${taskId}' would leave phase '${phase.id}' without tasks; remove the phase first`,
+        );
+      }
+    }
+    const index =
+      options.before === undefined ? target.tasks.length : target.tasks.indexOf(options.before);
+    target.tasks.splice(index, 0, taskId);
+
+    if (task.phase !== undefined) {
+      task.phase = phaseId;
+    }
+    return plan;
+  }
+
+  /**
+   * Make `taskId` depend on `dependencyId`
+   */
+  addDependency(original: PlanV2, taskId: string, dependencyId: string): PlanV2 {
+    const plan = clonePlan(original);
+    const task = getTask(plan, taskId);
+    getTask(plan, dependencyId);
+    if (taskId === dependencyId) {
+      throw new PlanEditError(`Task '${taskId}' cannot depend on itself`);
+    }
+    if (task.dependencies.includes(dependencyId)) {
+      throw new PlanEditError(`Task '${taskId}' already depends on '${dependencyId}'`);
+    }
+
+    task.dependencies.push(dependencyId);
+    return plan;
+  }
+
+  /**
+   * Drop the dependency of `taskId` on `dependencyId`
+   */
+  removeDependency(original: PlanV2, taskId: string, dependencyId: string): PlanV2 {
+    const plan = clonePlan(original);
+    const task = getTask(plan, taskId);
+    if (!task.dependencies.includes(dependencyId)) {
+      throw new PlanEditError(`Task '${taskId}' does not depend on '${dependencyId}'`);
+    }
+
+    task.dependencies = task.dependencies.filter((dependency) => dependency !== dependencyId);
+    return plan;
+  }
+
+  /**
+   * Change a task's ID everywhere it is referenced, and optionally its name
+   */
+  rename(original: PlanV2, taskId: string, newId: string, options: { name?: string } = {}): PlanV2 {
+    const plan = clonePlan(original);
+    getTask(plan, taskId);
+    if (newId !== taskId) {
+      assertNewTaskId(plan, newId);
+    }
+
+    plan.tasks = plan.tasks.map((task) =>
+      task.id === taskId
+        ? { ...task, id: newId, ...(options.name !== undefined && { name: options.name }) }
+        : replaceDependency(task, taskId, [newId]),
+    );
+    replaceInPhases(plan, taskId, [newId]);
+    return plan;
+  }
+}
+
+function clonePlan(plan: PlanV2): PlanV2 {
+  return {
+    ...plan,
+    tasks: plan.tasks.map((task) => ({
+      ...task,
+      files: [...task.files],
+      acceptanceCriteria: [...task.acceptanceCriteria],
+      dependencies: [...task.dependencies],
+    })),
+    ...(plan.phases !== undefined && {
+      phases: plan.phases.map((phase) => ({ ...phase, tasks: [...phase.tasks] })),
+    }),
+  };
+}
+
+function getTask(plan: PlanV2, taskId: string): TaskV2 {
+  const task = plan.tasks.find((candidate) => candidate.id === taskId);
+  if (task === undefined) {
+    throw new PlanEditError(`Task '${taskId}' does not exist`);
+  }
+  return task;
+}
+
+/**
+ * Check that `id` can name a new task, given the tasks the edit removes
+ */
+function assertNewTaskId(plan: PlanV2, id: string, ...replacedIds: string[]): void {
+  if (!TASK_ID_PATTERN.test(id)) {
+    throw new PlanEditError(`Task ID '${id}' must be kebab-case`);
+  }
+  if (!replacedIds.includes(id) && plan.tasks.some((task) => task.id === id)) {
+    throw new PlanEditError(`Task '${id}' already exists`);
+  }
+}
+
+/**
+ * Phase a task runs in: the phase listing it, else the phase it names
+ */
+function getPhaseId(plan: PlanV2, task: TaskV2): string | undefined {
+  return plan.phases?.find((phase) => phase.tasks.includes(task.id))?.id ?? task.phase;
+}
+
+function replaceDependency(task: TaskV2, taskId: string, replacements: string[]): TaskV2 {
+  if (!task.dependencies.includes(taskId)) {
+    return task;
+  }
+  return {
+    ...task,
+    dependencies: unique(
+      task.dependencies.flatMap((dependency) =>
+        dependency === taskId ? replacements : [dependency],
+      ),
+    ),
+  };
+}
+
+function replaceInPhases(plan: PlanV2, taskId: string, replacements: string[]): void {
+  for (const phase of plan.phases ?? []) {
+    phase.tasks = unique(phase.tasks.flatMap((id) => (id === taskId ? replacements : [id])));
+  }
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
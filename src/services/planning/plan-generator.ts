@@ -5,7 +5,11 @@ import { logger } from '@/utils/global-logger';
 import { DagValidator } from '@/validation/dag-validator';
 import { isValidArray } from '@/validation/guards';
 
+import { type PlanRepairChange, PlanRepairService } from './plan-repair-service';
+
 export type PlanGenerationOptions = {
+  /** Repair each generated plan locally before deciding whether to regenerate it */
+  autoRepair?: boolean;
   maxRetries?: number;
   planOutputPath?: string;
   verbose?: boolean;
@@ -15,6 +19,8 @@ export type PlanGenerationResult = {
   attempts: number;
   conflicts: string[];
   plan: PlanV2;
+  /** Local repairs applied to the returned plan, with `autoRepair` */
+  repairs?: PlanRepairChange[];
   success: boolean;
 };
 
@@ -27,7 +33,7 @@ export async function generatePlanWithRetry(
   cwd: string,
   options: PlanGenerationOptions = {},
 ): Promise<PlanGenerationResult> {
-  const { maxRetries = 3, verbose = false, planOutputPath } = options;
+  const { autoRepair = false, maxRetries = 3, verbose = false, planOutputPath } = options;
   let attempt = 1;
   const conflictHistory: string[] = [];
 
@@ -44,12 +50,21 @@ export async function generatePlanWithRetry(
     const enhancedContent = buildEnhancedPrompt(specContent, conflictHistory, attempt);
 
     // Decompose the specification into a plan
-    const plan = await agent.decompose(enhancedContent, cwd, {
+    let plan = await agent.decompose(enhancedContent, cwd, {
       verbose,
       ...(planOutputPath !== undefined && { planOutputPath }),
     });
     logger.info(`📋 Generated plan with ${plan.tasks.length} tasks`);
 
+    // Fix what can be fixed locally before paying for another generation
+    let repairs: PlanRepairChange[] = [];
+    if (autoRepair) {
+      ({ plan, changes: repairs } = new PlanRepairService().repair(plan));
+      if (repairs.length > 0) {
+        logger.info(`🔧 Repaired the plan locally with ${repairs.length} changes`);
+      }
+    }
+
     // Validate the plan
     const validation = DagValidator.validatePlan(plan);
 
@@ -62,6 +77,7 @@ export async function generatePlanWithRetry(
         plan,
         attempts: attempt,
         conflicts: conflictHistory,
+        ...(repairs.length > 0 && { repairs }),
         success: true,
       };
     }
@@ -88,6 +104,7 @@ export async function generatePlanWithRetry(
         plan,
         attempts: attempt,
         conflicts: conflictHistory,
+        ...(repairs.length > 0 && { repairs }),
         success: false,
       };
     }
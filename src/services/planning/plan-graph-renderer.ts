@@ -0,0 +1,503 @@
+import type { Complexity, PlanV2, TaskV2 } from '@/types/schemas-v2';
+
+import { DagValidator } from '@/validation/dag-validator';
+
+/**
+ * Output formats supported by `chopstack plan graph`
+ */
+export type PlanGraphFormat = 'mermaid' | 'dot' | 'html';
+
+type GraphCluster = {
+  id: string;
+  label: string;
+  taskIds: string[];
+};
+
+type GraphEdge = {
+  critical: boolean;
+  from: string;
+  to: string;
+};
+
+type GraphConflict = {
+  files: string[];
+  tasks: [string, string];
+};
+
+/**
+ * Everything the renderers draw: phase clusters, dependency edges with the critical path
+ * marked, and the task pairs that modify the same files in parallel
+ */
+type PlanGraph = {
+  clusters: GraphCluster[];
+  conflicts: GraphConflict[];
+  criticalPath: string[];
+  edges: GraphEdge[];
+  tasks: TaskV2[];
+  unclustered: string[];
+};
+
+const COMPLEXITY_COLORS: Record<Complexity, string> = {
+  XS: '#dcfce7',
+  S: '#bbf7d0',
+  M: '#fef08a',
+  L: '#fdba74',
+  XL: '#fca5a5',
+};
+const COMPLEXITY_ORDER: Complexity[] = ['XS', 'S', 'M', 'L', 'XL'];
+const NODE_STROKE = '#475569';
+const CRITICAL_COLOR = '#1d4ed8';
+const CONFLICT_COLOR = '#dc2626';
+
+// HTML layout, in SVG user units
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 56;
+const COLUMN_GAP = 70;
+const ROW_GAP = 20;
+const CLUSTER_HEADER = 28;
+const CLUSTER_PADDING = 16;
+const MARGIN = 20;
+
+/**
+ * PlanGraphRenderer - Renders a plan's task DAG for review
+ *
+ * @remarks
+ * Tasks are grouped into one cluster per phase and coloured by complexity. Dependency
+ * edges on the critical path from {@link DagValidator.calculateMetrics} are highlighted,
+ * and tasks that could run in parallel while modifying the same file are joined by a
+ * dashed conflict edge labelled with the files.
+ *
+ * @example
+ * ```typescript
+ * const mermaid = PlanGraphRenderer.render(plan, 'mermaid');
+ * await writeFile('plan.html', PlanGraphRenderer.render(plan, 'html'), 'utf8');
+ * ```
+ */
+export class PlanGraphRenderer {
+  /**
+   * Render the plan graph in the given format
+   *
+   * @param plan - The v2 plan to render
+   * @param format - Mermaid flowchart, Graphviz DOT or a self-contained HTML page
+   */
+  static render(plan: PlanV2, format: PlanGraphFormat): string {
+    const graph = this._buildGraph(plan);
+
+    switch (format) {
+      case 'mermaid': {
+        return this._renderMermaid(graph);
+      }
+      case 'dot': {
+        return this._renderDot(plan, graph);
+      }
+      case 'html': {
+        return this._renderHtml(plan, graph);
+      }
+    }
+  }
+
+  private static _buildGraph(plan: PlanV2): PlanGraph {
+    const taskIds = new Set(plan.tasks.map((task) => task.id));
+    const { criticalPath } = DagValidator.calculateMetrics(plan);
+    const criticalEdges = new Set(
+      criticalPath.slice(1).map((taskId, index) => `${criticalPath[index]}->${taskId}`),
+    );
+
+    const edges = plan.tasks.flatMap((task) =>
+      task.dependencies
+        .filter((dependency) => taskIds.has(dependency))
+        .map((dependency) => ({
+          from: dependency,
+          to: task.id,
+          critical: criticalEdges.has(`${dependency}->${task.id}`),
+        })),
+    );
+
+    // One conflict edge per task pair, listing every file they share
+    const conflictsByPair = new Map<string, GraphConflict>();
+    for (const { file, tasks } of DagValidator.getFileConflicts(plan)) {
+      const key = tasks.join('|');
+      const conflict = conflictsByPair.get(key) ?? { tasks, files: [] };
+      conflict.files.push(file);
+      conflictsByPair.set(key, conflict);
+    }
+
+    return {
+      ...this._groupByPhase(plan),
+      conflicts: [...conflictsByPair.values()],
+      criticalPath,
+      edges,
+      tasks: plan.tasks,
+    };
+  }
+
+  /**
+   * Group tasks by the phases that list them, or by their own `phase` in flat plans
+   */
+  private static _groupByPhase(plan: PlanV2): Pick<PlanGraph, 'clusters' | 'unclustered'> {
+    const taskIds = new Set(plan.tasks.map((task) => task.id));
+    const clusters: GraphCluster[] =
+      plan.phases !== undefined && plan.phases.length > 0
+        ? plan.phases.map((phase) => ({
+            id: phase.id,
+            label: `${phase.name} (${phase.strategy})`,
+            taskIds: phase.tasks.filter((taskId) => taskIds.has(taskId)),
+          }))
+        : [...new Set(plan.tasks.flatMap((task) => task.phase ?? []))].map((phaseId) => ({
+            id: phaseId,
+            label: phaseId,
+            taskIds: plan.tasks.filter((task) => task.phase === phaseId).map((task) => task.id),
+          }));
+
+    const clustered = new Set(clusters.flatMap((cluster) => cluster.taskIds));
+    return {
+      clusters: clusters.filter((cluster) => cluster.taskIds.length > 0),
+      unclustered: plan.tasks.map((task) => task.id).filter((taskId) => !clustered.has(taskId)),
+    };
+  }
+
+  private static _renderMermaid(graph: PlanGraph): string {
+    const taskMap = new Map(graph.tasks.map((task) => [task.id, task]));
+    const lines = ['flowchart LR'];
+
+    const nodeLine = (taskId: string, indent: string): string => {
+      const task = taskMap.get(taskId);
+      const label =
+        task === undefined
+          ? taskId
+          : `${task.id}<br/>${escapeMermaid(task.name)} · ${task.complexity}`;
+      return `${indent}${mermaidNodeId(taskId)}["${label}"]`;
+    };
+
+    for (const cluster of graph.clusters) {
+      lines.push(
+        `  subgraph p_${cluster.id.replaceAll('-', '_')}["${escapeMermaid(cluster.label)}"]`,
+        ...cluster.taskIds.map((taskId) => nodeLine(taskId, '    ')),
+        '  end',
+      );
+    }
+    lines.push(...graph.unclustered.map((taskId) => nodeLine(taskId, '  ')));
+
+    // Links are styled by their index, in the order they are declared
+    const criticalLinks: number[] = [];
+    const conflictLinks: number[] = [];
+    for (const [index, edge] of graph.edges.entries()) {
+      if (edge.critical) {
+        criticalLinks.push(index);
+      }
+      lines.push(`  ${mermaidNodeId(edge.from)} --> ${mermaidNodeId(edge.to)}`);
+    }
+    for (const { files, tasks } of graph.conflicts) {
+      conflictLinks.push(graph.edges.length + conflictLinks.length);
+      lines.push(
+        `  ${mermaidNodeId(tasks[0])} -.-|"${escapeMermaid(`conflict: ${files.join(', ')}`)}"| ${mermaidNodeId(tasks[1])}`,
+      );
+    }
+
+    for (const complexity of COMPLEXITY_ORDER) {
+      const members = graph.tasks.filter((task) => task.complexity === complexity);
+      if (members.length > 0) {
+        lines.push(
+          `  classDef complexity${complexity} fill:${COMPLEXITY_COLORS[complexity]},stroke:${NODE_STROKE}`,
+          `  class ${members.map((task) => mermaidNodeId(task.id)).join(',')} complexity${complexity}`,
+        );
+      }
+    }
+    for (const taskId of graph.criticalPath) {
+      lines.push(`  style ${mermaidNodeId(taskId)} stroke:${CRITICAL_COLOR},stroke-width:3px`);
+    }
+    if (criticalLinks.length > 0) {
+      lines.push(
+        `  linkStyle ${criticalLinks.join(',')} stroke:${CRITICAL_COLOR},stroke-width:3px`,
+      );
+    }
+    if (conflictLinks.length > 0) {
+      lines.push(
+        `  linkStyle ${conflictLinks.join(',')} stroke:${CONFLICT_COLOR},stroke-width:2px,stroke-dasharray:5 5`,
+      );
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  private static _renderDot(plan: PlanV2, graph: PlanGraph): string {
+    const taskMap = new Map(graph.tasks.map((task) => [task.id, task]));
+    const critical = new Set(graph.criticalPath);
+
+    const nodeLine = (taskId: string, indent: string): string => {
+      const task = taskMap.get(taskId);
+      if (task === undefined) {
+        return `${indent}${quoteDot(taskId)};`;
+      }
+      const attributes = [
+        `label=${quoteDot(`${task.id}\n${task.name} · ${task.complexity}`)}`,
+        `fillcolor=${quoteDot(COMPLEXITY_COLORS[task.complexity])}`,
+        ...(critical.has(taskId) ? [`color=${quoteDot(CRITICAL_COLOR)}`, 'penwidth=3'] : []),
+      ];
+      return `${indent}${quoteDot(taskId)} [${attributes.join(', ')}];`;
+    };
+
+    const lines = [
+      `digraph ${quoteDot(plan.name)} {`,
+      '  rankdir=LR;',
+      '  compound=true;',
+      `  node [shape=box, style="rounded,filled", color=${quoteDot(NODE_STROKE)}, fontname="Helvetica"];`,
+      '  edge [fontname="Helvetica", fontsize=10];',
+    ];
+
+    for (const cluster of graph.clusters) {
+      lines.push(
+        `  subgraph ${quoteDot(`cluster_${cluster.id}`)} {`,
+        `    label=${quoteDot(cluster.label)};`,
+        '    style="rounded,dashed";',
+        ...cluster.taskIds.map((taskId) => nodeLine(taskId, '    ')),
+        '  }',
+      );
+    }
+    lines.push(...graph.unclustered.map((taskId) => nodeLine(taskId, '  ')));
+
+    for (const edge of graph.edges) {
+      const attributes = edge.critical ? ` [color=${quoteDot(CRITICAL_COLOR)}, penwidth=3]` : '';
+      lines.push(`  ${quoteDot(edge.from)} -> ${quoteDot(edge.to)}${attributes};`);
+    }
+    for (const { files, tasks } of graph.conflicts) {
+      lines.push(
+        `  ${quoteDot(tasks[0])} -> ${quoteDot(tasks[1])} [dir=none, style=dashed, constraint=false, color=${quoteDot(CONFLICT_COLOR)}, fontcolor=${quoteDot(CONFLICT_COLOR)}, label=${quoteDot(`conflict: ${files.join(', ')}`)}];`,
+      );
+    }
+
+    lines.push('}');
+    return `${lines.join('\n')}\n`;
+  }
+
+  private static _renderHtml(plan: PlanV2, graph: PlanGraph): string {
+    const critical = new Set(graph.criticalPath);
+    const phaseOf = new Map(
+      graph.clusters.flatMap((cluster) => cluster.taskIds.map((taskId) => [taskId, cluster.label])),
+    );
+
+    const taskRows = graph.tasks
+      .map(
+        (task) => `        <tr${critical.has(task.id) ? ' class="critical"' : ''}>
+          <td><code>${escapeHtml(task.id)}</code></td>
+          <td>${escapeHtml(task.name)}</td>
+          <td>${escapeHtml(phaseOf.get(task.id) ?? '')}</td>
+          <td><span class="swatch" style="background:${COMPLEXITY_COLORS[task.complexity]}"></span>${task.complexity}</td>
+          <td>${task.dependencies.map((dependency) => `<code>${escapeHtml(dependency)}</code>`).join(', ')}</td>
+          <td>${task.files.map((file) => `<code>${escapeHtml(file)}</code>`).join('<br>')}</td>
+        </tr>`,
+      )
+      .join('\n');
+
+    const conflictItems =
+      graph.conflicts.length === 0
+        ? '      <p>No tasks modify the same file in parallel.</p>'
+        : `      <ul>\n${graph.conflicts
+            .map(
+              ({ files, tasks }) =>
+                `        <li><code>${escapeHtml(tasks[0])}</code> and <code>${escapeHtml(tasks[1])}</code>: ${files.map((file) => `<code>${escapeHtml(file)}</code>`).join(', ')}</li>`,
+            )
+            .join('\n')}\n      </ul>`;
+
+    const legend = [
+      ...COMPLEXITY_ORDER.map(
+        (complexity) =>
+          `<span><span class="swatch" style="background:${COMPLEXITY_COLORS[complexity]}"></span>${complexity}</span>`,
+      ),
+      `<span><span class="line" style="border-top:3px solid ${CRITICAL_COLOR}"></span>critical path</span>`,
+      `<span><span class="line" style="border-top:2px dashed ${CONFLICT_COLOR}"></span>file conflict</span>`,
+    ].join('\n        ');
+
+    const criticalSummary =
+      graph.criticalPath.length > 0
+        ? graph.criticalPath.map((taskId) => `<code>${escapeHtml(taskId)}</code>`).join(' → ')
+        : 'none';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(plan.name)} · task graph</title>
+    <style>
+      body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 24px; color: #0f172a; }
+      h1 { font-size: 1.5rem; margin-bottom: 4px; }
+      h2 { font-size: 1.1rem; margin-top: 32px; }
+      .meta { color: #475569; margin-top: 0; }
+      .legend { display: flex; flex-wrap: wrap; gap: 16px; margin: 16px 0; font-size: 0.9rem; }
+      .legend > span { display: inline-flex; align-items: center; gap: 6px; }
+      .swatch { display: inline-block; width: 14px; height: 14px; border: 1px solid ${NODE_STROKE}; border-radius: 3px; margin-right: 6px; vertical-align: middle; }
+      .line { display: inline-block; width: 28px; }
+      .graph { overflow-x: auto; border: 1px solid #e2e8f0; border-radius: 8px; }
+      table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+      th, td { border-bottom: 1px solid #e2e8f0; padding: 6px 8px; text-align: left; vertical-align: top; }
+      tr.critical td:first-child { border-left: 3px solid ${CRITICAL_COLOR}; }
+      code { font-size: 0.85em; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(plan.name)}</h1>
+    <p class="meta">${plan.tasks.length} tasks · strategy ${escapeHtml(plan.strategy)} · critical path ${criticalSummary}</p>
+    <div class="legend">
+        ${legend}
+    </div>
+    <div class="graph">
+${this._renderSvg(plan, graph)}
+    </div>
+    <h2>File conflicts</h2>
+${conflictItems}
+    <h2>Tasks</h2>
+    <table>
+      <thead>
+        <tr><th>Task</th><th>Name</th><th>Phase</th><th>Complexity</th><th>Depends on</th><th>Files</th></tr>
+      </thead>
+      <tbody>
+${taskRows}
+      </tbody>
+    </table>
+  </body>
+</html>
+`;
+  }
+
+  /**
+   * Lay the graph out as columns of execution layers, with one horizontal band per phase
+   */
+  private static _renderSvg(plan: PlanV2, graph: PlanGraph): string {
+    const taskMap = new Map(graph.tasks.map((task) => [task.id, task]));
+    const critical = new Set(graph.criticalPath);
+
+    const columns = new Map<string, number>();
+    for (const [index, layer] of DagValidator.getExecutionLayers(plan).entries()) {
+      for (const task of layer) {
+        columns.set(task.id, index);
+      }
+    }
+    const columnCount = Math.max(1, ...[...columns.values()].map((column) => column + 1));
+    const width = MARGIN * 2 + CLUSTER_PADDING * 2 + columnCount * (NODE_WIDTH + COLUMN_GAP);
+
+    const bands: GraphCluster[] = [
+      ...graph.clusters,
+      ...(graph.unclustered.length > 0
+        ? [
+            {
+              id: '',
+              label: graph.clusters.length > 0 ? 'Unphased tasks' : '',
+              taskIds: graph.unclustered,
+            },
+          ]
+        : []),
+    ];
+
+    const positions = new Map<string, { x: number; y: number }>();
+    const clusterShapes: string[] = [];
+    let top = MARGIN;
+    for (const band of bands) {
+      const rowsPerColumn = new Map<number, number>();
+      const header = band.label === '' ? CLUSTER_PADDING : CLUSTER_HEADER;
+      for (const taskId of band.taskIds) {
+        const column = columns.get(taskId) ?? 0;
+        const row = rowsPerColumn.get(column) ?? 0;
+        rowsPerColumn.set(column, row + 1);
+        positions.set(taskId, {
+          x: MARGIN + CLUSTER_PADDING + column * (NODE_WIDTH + COLUMN_GAP),
+          y: top + header + row * (NODE_HEIGHT + ROW_GAP),
+        });
+      }
+
+      const rows = Math.max(1, ...rowsPerColumn.values());
+      const height = header + rows * (NODE_HEIGHT + ROW_GAP) - ROW_GAP + CLUSTER_PADDING;
+      if (band.label !== '') {
+        clusterShapes.push(
+          `<rect x="${MARGIN}" y="${top}" width="${width - MARGIN * 2}" height="${height}" rx="8" fill="#f8fafc" stroke="#94a3b8" stroke-dasharray="4 3"/>`,
+          `<text x="${MARGIN + CLUSTER_PADDING}" y="${top + 19}" class="cluster">${escapeHtml(band.label)}</text>`,
+        );
+      }
+      top += height + ROW_GAP;
+    }
+    const height = top - ROW_GAP + MARGIN;
+
+    const edgeShapes = graph.edges.flatMap((edge) => {
+      const from = positions.get(edge.from);
+      const to = positions.get(edge.to);
+      if (from === undefined || to === undefined) {
+        return [];
+      }
+      const x1 = from.x + NODE_WIDTH;
+      const y1 = from.y + NODE_HEIGHT / 2;
+      const x2 = to.x;
+      const y2 = to.y + NODE_HEIGHT / 2;
+      const bend = Math.max(COLUMN_GAP / 2, Math.abs(x2 - x1) / 2);
+      const stroke = edge.critical
+        ? `stroke="${CRITICAL_COLOR}" stroke-width="3" marker-end="url(#arrow-critical)"`
+        : `stroke="${NODE_STROKE}" stroke-width="1.5" marker-end="url(#arrow)"`;
+      return [
+        `<path d="M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}" fill="none" ${stroke}/>`,
+      ];
+    });
+
+    const conflictShapes = graph.conflicts.flatMap(({ files, tasks }) => {
+      const from = positions.get(tasks[0]);
+      const to = positions.get(tasks[1]);
+      if (from === undefined || to === undefined) {
+        return [];
+      }
+      return [
+        `<line x1="${from.x + NODE_WIDTH / 2}" y1="${from.y + NODE_HEIGHT / 2}" x2="${to.x + NODE_WIDTH / 2}" y2="${to.y + NODE_HEIGHT / 2}" stroke="${CONFLICT_COLOR}" stroke-width="2" stroke-dasharray="6 4"><title>Conflict: ${escapeHtml(files.join(', '))}</title></line>`,
+      ];
+    });
+
+    const nodeShapes = [...positions].flatMap(([taskId, { x, y }]) => {
+      const task = taskMap.get(taskId);
+      if (task === undefined) {
+        return [];
+      }
+      const name = task.name.length > 28 ? `${task.name.slice(0, 27)}…` : task.name;
+      const stroke = critical.has(taskId)
+        ? `stroke="${CRITICAL_COLOR}" stroke-width="3"`
+        : `stroke="${NODE_STROKE}" stroke-width="1"`;
+      return [
+        `<g>
+          <title>${escapeHtml(`${task.id} · ${task.complexity}\n${task.description}\n\nFiles:\n${task.files.join('\n')}`)}</title>
+          <rect x="${x}" y="${y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="8" fill="${COMPLEXITY_COLORS[task.complexity]}" ${stroke}/>
+          <text x="${x + 10}" y="${y + 22}" class="id">${escapeHtml(task.id)}</text>
+          <text x="${x + 10}" y="${y + 42}" class="name">${escapeHtml(name)} · ${task.complexity}</text>
+        </g>`,
+      ];
+    });
+
+    return `      <svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+        <defs>
+          <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto"><path d="M 0 0 L 10 5 L 0 10 z" fill="${NODE_STROKE}"/></marker>
+          <marker id="arrow-critical" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="5" markerHeight="5" orient="auto"><path d="M 0 0 L 10 5 L 0 10 z" fill="${CRITICAL_COLOR}"/></marker>
+          <style>
+            text { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; fill: #0f172a; }
+            .cluster { font-size: 13px; font-weight: 600; fill: #334155; }
+            .id { font-size: 12px; font-weight: 600; }
+            .name { font-size: 12px; }
+          </style>
+        </defs>
+        ${[...clusterShapes, ...edgeShapes, ...conflictShapes, ...nodeShapes].join('\n        ')}
+      </svg>`;
+  }
+}
+
+function mermaidNodeId(taskId: string): string {
+  return `t_${taskId.replaceAll('-', '_')}`;
+}
+
+function escapeMermaid(value: string): string {
+  return value.replaceAll('"', '#quot;').replaceAll('<', '#lt;').replaceAll('>', '#gt;');
+}
+
+function quoteDot(value: string): string {
+  return `"${value.replaceAll('\\', '\\\\').replaceAll('"', '\\"').replaceAll('\n', '\\n')}"`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
@@ -1,12 +1,25 @@
 import { writeFile } from 'node:fs/promises';
+import { isDeepStrictEqual } from 'node:util';
 
-import { stringify as stringifyYaml } from 'yaml';
+import {
+  type Document,
+  isMap,
+  isScalar,
+  isSeq,
+  parseDocument,
+  stringify as stringifyYaml,
+  type YAMLMap,
+  type YAMLSeq,
+} from 'yaml';
 
 import type { PlanV2 } from '@/types/schemas-v2';
 
+import { SNAKE_CASE_PLAN_KEYS, YamlPlanParser } from '@/io/yaml-parser';
 import { logger } from '@/utils/global-logger';
 import { isNonEmptyString } from '@/validation/guards';
 
+type PlainObject = Record<string, unknown>;
+
 /**
  * PlanOutputter - Outputs PlanV2 in YAML format
  *
@@ -34,9 +47,12 @@ export class PlanOutputter {
    *
    * @param plan - The v2 plan to output
    * @param outputPath - Optional file path. If omitted, outputs to stdout
+   * @param source - Content of the plan file the plan was read from; when given, the plan
+   *   is written into it with {@link formatPlanUpdate}
    */
-  static async outputPlan(plan: PlanV2, outputPath?: string): Promise<void> {
-    const output = this.formatPlanOutput(plan);
+  static async outputPlan(plan: PlanV2, outputPath?: string, source?: string): Promise<void> {
+    const output =
+      source === undefined ? this.formatPlanOutput(plan) : this.formatPlanUpdate(plan, source);
 
     if (isNonEmptyString(outputPath)) {
       await writeFile(outputPath, output, 'utf8');
@@ -67,6 +83,35 @@ export class PlanOutputter {
     return yamlPlan;
   }
 
+  /**
+   * Write an edited plan into the content of the plan file it was read from, keeping the
+   * comments, key order, quoting and collection styles of everything the edit left alone
+   *
+   * @remarks
+   * Only keys the plan parser reads are updated, so content it ignores survives as is.
+   * Tasks and phases are matched by ID; entries whose ID changed (renamed or split tasks)
+   * take over the nodes of removed entries in order. New nodes use the parser's camelCase
+   * field names.
+   *
+   * @param plan - The edited plan
+   * @param source - YAML or JSON content the unedited plan was parsed from
+   * @returns The updated content
+   */
+  static formatPlanUpdate(plan: PlanV2, source: string): string {
+    const document = parseDocument(source);
+    if (!isMap(document.contents)) {
+      return this.formatPlanOutput(plan);
+    }
+
+    const previous = YamlPlanParser.parse(source);
+    this._updateMap(document, document.contents, previous, plan);
+    return document.toString({
+      flowCollectionPadding: false,
+      lineWidth: 0,
+      indentSeq: indentsSequences(source),
+    });
+  }
+
   /**
    * Log plan summary to console
    *
@@ -109,6 +154,102 @@ export class PlanOutputter {
     }
   }
 
+  /**
+   * Update `node` in place from `previous` to `next`, or create a replacement node when
+   * their shapes differ
+   */
+  private static _updateNode(
+    document: Document,
+    node: unknown,
+    previous: unknown,
+    next: unknown,
+  ): unknown {
+    if (Array.isArray(next) && isSeq(node)) {
+      this._updateSeq(document, node, Array.isArray(previous) ? previous : [], next);
+      return node;
+    }
+    if (isPlainObject(next) && isMap(node)) {
+      this._updateMap(document, node, isPlainObject(previous) ? previous : {}, next);
+      return node;
+    }
+    if (isScalar(node) && !isObjectLike(next)) {
+      if (node.value !== next) {
+        node.value = next;
+      }
+      return node;
+    }
+    return document.createNode(compact(next));
+  }
+
+  private static _updateMap(
+    document: Document,
+    map: YAMLMap,
+    previous: object,
+    next: object,
+  ): void {
+    const previousEntries = previous as PlainObject;
+    for (const [key, value] of Object.entries(next)) {
+      if (value === undefined) {
+        continue;
+      }
+      const mapKey = keyInMap(map, key);
+      if (map.has(mapKey)) {
+        map.set(
+          mapKey,
+          this._updateNode(document, map.get(mapKey, true), previousEntries[key], value),
+        );
+      } else if (!isDeepStrictEqual(previousEntries[key], value)) {
+        map.set(key, document.createNode(compact(value)));
+      }
+    }
+
+    for (const [key, value] of Object.entries(previousEntries)) {
+      if (value !== undefined && (next as PlainObject)[key] === undefined) {
+        map.delete(keyInMap(map, key));
+      }
+    }
+  }
+
+  private static _updateSeq(
+    document: Document,
+    seq: YAMLSeq,
+    previous: unknown[],
+    next: unknown[],
+  ): void {
+    if (seq.items.length !== previous.length) {
+      seq.items = next.map((value) => document.createNode(compact(value)));
+      return;
+    }
+
+    const entries = seq.items.map((node, index) => ({
+      node,
+      key: identityOf(previous[index]),
+      value: previous[index],
+      used: false,
+    }));
+    const nextKeys = new Set(next.map((value) => identityOf(value)));
+
+    // Same ID or value first, then entries that disappeared take over in order
+    const matches = next.map((value) => {
+      const key = identityOf(value);
+      const entry = entries.find((candidate) => !candidate.used && candidate.key === key);
+      if (entry !== undefined) {
+        entry.used = true;
+      }
+      return entry;
+    });
+    const released = entries.filter((entry) => !entry.used && !nextKeys.has(entry.key));
+
+    seq.items = next.map((value, index) => {
+      const entry = matches[index] ?? released.shift();
+      if (entry === undefined) {
+        return document.createNode(compact(value));
+      }
+      entry.used = true;
+      return this._updateNode(document, entry.node, entry.value, value);
+    });
+  }
+
   /**
    * Convert PlanV2 to YAML-friendly format with snake_case field names
    *
@@ -138,6 +279,10 @@ export class PlanOutputter {
 
     yamlData.strategy = plan.strategy;
 
+    if (plan.verify !== undefined && plan.verify.length > 0) {
+      yamlData.verify = plan.verify;
+    }
+
     // Phases (if present)
     if (plan.phases !== undefined && plan.phases.length > 0) {
       yamlData.phases = plan.phases.map((phase) => ({
@@ -160,6 +305,7 @@ export class PlanOutputter {
       ...(task.acceptanceCriteria.length > 0 && { acceptance_criteria: task.acceptanceCriteria }),
       ...(task.dependencies.length > 0 && { dependencies: task.dependencies }),
       ...(task.phase !== undefined && { phase: task.phase }),
+      ...(task.verify !== undefined && task.verify.length > 0 && { verify: task.verify }),
     }));
 
     // Success metrics (if present)
@@ -177,3 +323,63 @@ export class PlanOutputter {
     return yamlData;
   }
 }
+
+function isObjectLike(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return isObjectLike(value) && !Array.isArray(value);
+}
+
+/**
+ * Key a plan field is stored under in `map`: its snake_case spelling when the file uses it
+ */
+function keyInMap(map: YAMLMap, key: string): string {
+  const snakeCaseKey = SNAKE_CASE_PLAN_KEYS[key];
+  return snakeCaseKey !== undefined && !map.has(key) && map.has(snakeCaseKey) ? snakeCaseKey : key;
+}
+
+/**
+ * Identity used to match sequence entries across an edit: the ID of tasks and phases,
+ * the value of scalars
+ */
+function identityOf(value: unknown): string | undefined {
+  if (isPlainObject(value)) {
+    return typeof value.id === 'string' ? `id:${value.id}` : undefined;
+  }
+  return isObjectLike(value) ? undefined : `value:${String(value)}`;
+}
+
+/**
+ * Whether block sequences in `source` are indented below their key rather than written
+ * flush with it
+ */
+function indentsSequences(source: string): boolean {
+  const lines = source.split('\n').filter((line) => !/^\s*(?:#|$)/.test(line));
+  for (const [index, line] of lines.entries()) {
+    const item = /^( *)- /.exec(line);
+    const key = /^( *)[^\s#-][^#]*:\s*$/.exec(lines[index - 1] ?? '');
+    if (item !== null && key !== null) {
+      return (item[1] ?? '').length > (key[1] ?? '').length;
+    }
+  }
+  return true;
+}
+
+/**
+ * Drop undefined values and empty lists, which the parser defaults, from new content
+ */
+function compact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => compact(item));
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, entry]) => entry !== undefined && !(Array.isArray(entry) && entry.length === 0))
+      .map(([key, entry]) => [key, compact(entry)]),
+  );
+}
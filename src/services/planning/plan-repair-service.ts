@@ -0,0 +1,327 @@
+import pkg from '@dagrejs/graphlib';
+
+import type { Phase, PlanV2, TaskV2 } from '@/types/schemas-v2';
+
+import { PhaseScheduler } from '@/core/execution/phase-scheduler';
+import { DagValidator } from '@/validation/dag-validator';
+
+const { alg, Graph: GraphConstructor } = pkg;
+
+/**
+ * One edit made by {@link PlanRepairService}
+ */
+export type PlanRepairChange = {
+  action: 'add' | 'remove';
+  kind: 'cycle' | 'dangling-dependency' | 'file-conflict' | 'phase-membership';
+  /** Dotted location of the edited list, e.g. `tasks.toggle.dependencies` */
+  path: string;
+  reason: string;
+  value: string;
+};
+
+/**
+ * Repaired plan and the changes that produced it, in the order they were made
+ */
+export type PlanRepairResult = {
+  changes: PlanRepairChange[];
+  plan: PlanV2;
+};
+
+type DependencyEdge = {
+  from: string;
+  to: string;
+};
+
+/**
+ * Fixes common plan problems locally and deterministically, instead of asking the agent
+ * to regenerate the whole plan
+ *
+ * @remarks
+ * Repairs run in this order, each on the result of the previous one:
+ * 1. Dependencies on missing tasks (or on the task itself) are dropped
+ * 2. Tasks outside every phase join the phase named by `task.phase`, else the latest
+ *    phase of their dependencies, else the first phase
+ * 3. Each dependency cycle is broken by dropping its lowest-cost edge: the edge whose two
+ *    tasks have the smallest combined complexity, the first in plan order on a tie
+ * 4. Tasks that could run in parallel while modifying the same file are serialised: the
+ *    task that comes later (by phase, then position in the phase, then plan order) gains
+ *    a dependency on the earlier one
+ *
+ * The same plan always produces the same repairs.
+ *
+ * @example
+ * ```typescript
+ * const { plan, changes } = new PlanRepairService().repair(generatedPlan);
+ * for (const change of changes) {
+ *   logger.info(formatPlanRepairChange(change));
+ * }
+ * ```
+ */
+export class PlanRepairService {
+  /**
+   * Repair a plan without modifying the original
+   */
+  repair(original: PlanV2): PlanRepairResult {
+    const plan: PlanV2 = {
+      ...original,
+      tasks: original.tasks.map((task) => ({ ...task, dependencies: [...task.dependencies] })),
+      ...(original.phases !== undefined && {
+        phases: original.phases.map((phase) => ({ ...phase, tasks: [...phase.tasks] })),
+      }),
+    };
+    const changes = [
+      ...this._removeDanglingDependencies(plan),
+      ...this._assignMissingPhases(plan),
+      ...this._breakCycles(plan),
+      ...this._serializeFileConflicts(plan),
+    ];
+    return { plan, changes };
+  }
+
+  private _removeDanglingDependencies(plan: PlanV2): PlanRepairChange[] {
+    const taskIds = new Set(plan.tasks.map((task) => task.id));
+    const changes: PlanRepairChange[] = [];
+
+    for (const task of plan.tasks) {
+      const kept: string[] = [];
+      for (const dependency of task.dependencies) {
+        const reason =
+          dependency === task.id
+            ? 'a task cannot depend on itself'
+            : taskIds.has(dependency)
+              ? kept.includes(dependency)
+                ? 'duplicate dependency'
+                : undefined
+              : `task '${dependency}' does not exist`;
+        if (reason === undefined) {
+          kept.push(dependency);
+          continue;
+        }
+        changes.push({
+          action: 'remove',
+          kind: 'dangling-dependency',
+          path: `tasks.${task.id}.dependencies`,
+          value: dependency,
+          reason,
+        });
+      }
+      task.dependencies = kept;
+    }
+
+    return changes;
+  }
+
+  private _assignMissingPhases(plan: PlanV2): PlanRepairChange[] {
+    const phases = plan.phases ?? [];
+    if (phases.length === 0) {
+      return [];
+    }
+
+    const scheduler = this._createScheduler(phases);
+    const phasesById = new Map(phases.map((phase) => [phase.id, phase]));
+    const listed = new Set(phases.flatMap((phase) => phase.tasks));
+    const orderedPhases = scheduler?.getOrderedPhases() ?? phases;
+    const phaseIndex = (phase: Phase): number =>
+      orderedPhases.findIndex((candidate) => candidate.id === phase.id);
+    const phaseOf = new Map<string, Phase>();
+    for (const phase of phases) {
+      for (const taskId of phase.tasks) {
+        if (!phaseOf.has(taskId)) {
+          phaseOf.set(taskId, phase);
+        }
+      }
+    }
+
+    const changes: PlanRepairChange[] = [];
+    for (const task of plan.tasks) {
+      if (listed.has(task.id)) {
+        continue;
+      }
+
+      const named = task.phase === undefined ? undefined : phasesById.get(task.phase);
+      const dependencyPhases = task.dependencies
+        .map((dependency) => phaseOf.get(dependency))
+        .filter((phase): phase is Phase => phase !== undefined)
+        .sort((a, b) => phaseIndex(b) - phaseIndex(a));
+      const target = named ?? dependencyPhases[0] ?? orderedPhases[0];
+      if (target === undefined) {
+        continue;
+      }
+
+      target.tasks.push(task.id);
+      phaseOf.set(task.id, target);
+      changes.push({
+        action: 'add',
+        kind: 'phase-membership',
+        path: `phases.${target.id}.tasks`,
+        value: task.id,
+        reason:
+          named !== undefined
+            ? `task names phase '${named.id}' but was not listed in it`
+            : dependencyPhases[0] !== undefined
+              ? 'task was in no phase; joined the latest phase of its dependencies'
+              : 'task was in no phase; joined the first phase',
+      });
+    }
+
+    return changes;
+  }
+
+  private _breakCycles(plan: PlanV2): PlanRepairChange[] {
+    const changes: PlanRepairChange[] = [];
+
+    for (let cycle = this._findCycle(plan.tasks); cycle.length > 0; ) {
+      const members = new Set(cycle);
+      const edges: DependencyEdge[] = plan.tasks
+        .filter((task) => members.has(task.id))
+        .flatMap((task) =>
+          task.dependencies
+            .filter((dependency) => members.has(dependency))
+            .map((dependency) => ({ from: dependency, to: task.id })),
+        );
+
+      const cheapest = edges.reduce<DependencyEdge | undefined>(
+        (best, edge) =>
+          best === undefined || this._edgeCost(plan, edge) < this._edgeCost(plan, best)
+            ? edge
+            : best,
+        undefined,
+      );
+      if (cheapest === undefined) {
+        break;
+      }
+
+      const dependent = plan.tasks.find((task) => task.id === cheapest.to);
+      if (dependent !== undefined) {
+        dependent.dependencies = dependent.dependencies.filter(
+          (dependency) => dependency !== cheapest.from,
+        );
+      }
+      changes.push({
+        action: 'remove',
+        kind: 'cycle',
+        path: `tasks.${cheapest.to}.dependencies`,
+        value: cheapest.from,
+        reason: `breaks the dependency cycle between ${cycle.join(', ')}`,
+      });
+      cycle = this._findCycle(plan.tasks);
+    }
+
+    return changes;
+  }
+
+  private _serializeFileConflicts(plan: PlanV2): PlanRepairChange[] {
+    const changes: PlanRepairChange[] = [];
+    const order = this._executionOrder(plan);
+    const taskMap = new Map(plan.tasks.map((task) => [task.id, task]));
+
+    // Each new edge can also order other conflicting pairs, so look again after every edge
+    for (
+      let [conflict] = DagValidator.getFileConflicts(plan);
+      conflict !== undefined;
+      [conflict] = DagValidator.getFileConflicts(plan)
+    ) {
+      const [first, second] = [...conflict.tasks].sort(
+        (a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0),
+      ) as [string, string];
+      const dependent = taskMap.get(second);
+      if (dependent === undefined) {
+        break;
+      }
+
+      dependent.dependencies.push(first);
+      changes.push({
+        action: 'add',
+        kind: 'file-conflict',
+        path: `tasks.${second}.dependencies`,
+        value: first,
+        reason: `serialises parallel edits to ${conflict.file}`,
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Rank tasks by phase order, then position in their phase, then position in the plan
+   */
+  private _executionOrder(plan: PlanV2): Map<string, number> {
+    const scheduler = this._createScheduler(plan.phases ?? []);
+    const phases = scheduler?.getOrderedPhases() ?? [];
+    const keyed = plan.tasks.map((task, planIndex) => {
+      const phase = scheduler?.getPhaseForTask(task);
+      return {
+        id: task.id,
+        key: [
+          phase === undefined ? phases.length : phases.indexOf(phase),
+          phase === undefined ? 0 : phase.tasks.indexOf(task.id),
+          planIndex,
+        ],
+      };
+    });
+
+    keyed.sort((a, b) => {
+      for (const [index, value] of a.key.entries()) {
+        const difference = value - (b.key[index] ?? 0);
+        if (difference !== 0) {
+          return difference;
+        }
+      }
+      return 0;
+    });
+    return new Map(keyed.map(({ id }, index) => [id, index]));
+  }
+
+  /**
+   * Combined complexity of the edge's tasks, with plan order breaking ties
+   */
+  private _edgeCost(plan: PlanV2, edge: DependencyEdge): number {
+    const score = (taskId: string): number => {
+      const task = plan.tasks.find((candidate) => candidate.id === taskId);
+      return task === undefined ? 0 : DagValidator.getComplexityScore(task.complexity);
+    };
+    const position = plan.tasks.findIndex((task) => task.id === edge.to);
+    return (score(edge.from) + score(edge.to)) * plan.tasks.length + position;
+  }
+
+  /**
+   * Tasks of the first strongly connected component with more than one task, in plan
+   * order, or an empty list when the dependencies are acyclic
+   */
+  private _findCycle(tasks: TaskV2[]): string[] {
+    const graph = new GraphConstructor({ directed: true });
+    for (const task of tasks) {
+      graph.setNode(task.id);
+    }
+    for (const task of tasks) {
+      for (const dependency of task.dependencies) {
+        graph.setEdge(dependency, task.id);
+      }
+    }
+
+    const component = new Set(alg.tarjan(graph).find((members) => members.length > 1));
+    return tasks.map((task) => task.id).filter((taskId) => component.has(taskId));
+  }
+
+  private _createScheduler(phases: Phase[]): PhaseScheduler | undefined {
+    try {
+      return new PhaseScheduler(phases);
+    } catch {
+      // Circular phases are reported by DagValidator; fall back to declaration order
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Render a change as one diff-style changelog line
+ *
+ * @example
+ * ```
+ * + tasks.toggle.dependencies: theme-provider (serialises parallel edits to src/app.tsx)
+ * ```
+ */
+export function formatPlanRepairChange(change: PlanRepairChange): string {
+  const sign = change.action === 'add' ? '+' : '-';
+  return `${sign} ${change.path}: ${change.value} (${change.reason})`;
+}
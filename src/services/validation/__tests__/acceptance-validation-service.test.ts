@@ -0,0 +1,150 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { DecomposerAgent } from '@/core/agents/interfaces';
+import type { PlanV2, TaskV2 } from '@/types/schemas-v2';
+
+import { AcceptanceValidationService } from '../acceptance-validation-service';
+
+/**
+ * Helper to create test task
+ */
+function createTestTask(overrides: Partial<TaskV2> = {}): TaskV2 {
+  return {
+    id: 'create-toggle',
+    name: 'Create Toggle',
+    complexity: 'M',
+    description: 'Create the dark mode toggle component.',
+    files: ['src/toggle.tsx'],
+    acceptanceCriteria: ['Toggle renders', 'Toggle persists choice'],
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Helper to create test plan
+ */
+function createTestPlan(tasks: TaskV2[], overrides: Partial<PlanV2> = {}): PlanV2 {
+  return {
+    name: 'Dark Mode',
+    strategy: 'sequential',
+    tasks,
+    ...overrides,
+  };
+}
+
+function createAgent(
+  ...responses: string[]
+): DecomposerAgent & { query: ReturnType<typeof vi.fn> } {
+  const query = vi.fn();
+  for (const response of responses) {
+    query.mockResolvedValueOnce(response);
+  }
+  return { decompose: vi.fn(), query };
+}
+
+function fenced(value: unknown): string {
+  return `Here is my verdict:\n\`\`\`json\n${JSON.stringify(value)}\n\`\`\``;
+}
+
+describe('AcceptanceValidationService', () => {
+  it('should record a verdict and evidence for each acceptance criterion', async () => {
+    const agent = createAgent(
+      fenced({
+        passed: false,
+        criteriaResults: [
+          { criterion: 'Toggle renders', passed: true, evidence: 'src/toggle.tsx:12' },
+          { criterion: 'Toggle persists choice', passed: false, evidence: 'No storage call' },
+        ],
+      }),
+    );
+
+    const report = await new AcceptanceValidationService(agent).validate(
+      createTestPlan([createTestTask()]),
+      { cwd: '/repo' },
+    );
+
+    expect(agent.query).toHaveBeenCalledWith(
+      expect.stringContaining('1. Toggle renders'),
+      '/repo',
+      { verbose: false },
+    );
+    expect(report.passed).toBe(false);
+    expect(report.tasks[0]?.criteriaResults).toEqual([
+      { criterion: 'Toggle renders', passed: true, evidence: 'src/toggle.tsx:12' },
+      { criterion: 'Toggle persists choice', passed: false, evidence: 'No storage call' },
+    ]);
+    expect(report.summary).toEqual({ totalCriteria: 2, passedCriteria: 1, failedCriteria: 1 });
+  });
+
+  it('should validate success metrics and project principles', async () => {
+    const agent = createAgent(
+      fenced({ passed: true, criteriaResults: [{ criterion: 'Coverage 100%', passed: true }] }),
+      fenced({
+        passed: true,
+        criteriaResults: [{ criterion: 'Code Style: Use ts-pattern', passed: true }],
+      }),
+    );
+
+    const report = await new AcceptanceValidationService(agent).validate(
+      createTestPlan([createTestTask({ acceptanceCriteria: [] })], {
+        successMetrics: { quantitative: ['Coverage 100%'], qualitative: [] },
+      }),
+      {
+        cwd: '/repo',
+        principles: {
+          source: 'CLAUDE.md',
+          principles: [{ category: 'Code Style', rule: 'Use ts-pattern' }],
+        },
+      },
+    );
+
+    expect(report.passed).toBe(true);
+    expect(report.tasks).toEqual([]);
+    expect(report.successMetrics?.passed).toBe(true);
+    expect(report.principles?.name).toBe('Project Principles (CLAUDE.md)');
+    expect(report.summary.totalCriteria).toBe(2);
+  });
+
+  it('should fail criteria the agent did not judge', async () => {
+    const agent = createAgent(
+      fenced({ passed: true, criteriaResults: [{ criterion: 'Toggle renders', passed: true }] }),
+    );
+
+    const report = await new AcceptanceValidationService(agent).validate(
+      createTestPlan([createTestTask()]),
+      { cwd: '/repo' },
+    );
+
+    expect(report.tasks[0]?.criteriaResults[1]).toEqual({
+      criterion: 'Toggle persists choice',
+      passed: false,
+      evidence: 'No verdict returned by agent',
+    });
+    expect(report.passed).toBe(false);
+  });
+
+  it('should fail criteria when the response cannot be parsed', async () => {
+    const agent = createAgent('Looks good to me!');
+
+    const report = await new AcceptanceValidationService(agent).validate(
+      createTestPlan([createTestTask()]),
+      { cwd: '/repo' },
+    );
+
+    expect(report.passed).toBe(false);
+    expect(report.tasks[0]?.criteriaResults[0]?.evidence).toContain(
+      'No JSON code block found in response',
+    );
+  });
+
+  it('should fail criteria when the agent cannot be queried', async () => {
+    const report = await new AcceptanceValidationService().validate(
+      createTestPlan([createTestTask()]),
+      { cwd: '/repo' },
+    );
+
+    expect(report.passed).toBe(false);
+    expect(report.summary.failedCriteria).toBe(2);
+  });
+});
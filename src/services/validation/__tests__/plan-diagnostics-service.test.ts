@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatSarifReport, PlanDiagnosticsService } from '../plan-diagnostics-service';
+
+describe('PlanDiagnosticsService', () => {
+  const service = new PlanDiagnosticsService();
+
+  const planYaml = `name: Dark Mode
+strategy: parallel
+tasks:
+  - id: theme-provider
+    name: Theme Provider
+    complexity: S
+    description: Create the theme provider with context and hooks used by every component.
+    files: [src/app.tsx]
+    dependencies: [theme-types]
+  - id: toggle
+    name: Toggle
+    complexity: S
+    description: Create the toggle that switches between light and dark mode in the header.
+    files:
+      - src/header.tsx
+      - src/app.tsx
+`;
+
+  it('should locate validator diagnostics in the plan file', () => {
+    const report = service.diagnoseContent(planYaml);
+
+    expect(report.valid).toBe(false);
+    expect(report.plan?.name).toBe('Dark Mode');
+    expect(
+      report.diagnostics.map(
+        ({ code, location }) => `${location?.line}:${location?.column} ${code}`,
+      ),
+    ).toEqual(['9:20 missing-dependency', '10:5 orphaned-task', '16:9 file-conflict']);
+    expect(report.diagnostics[2]).toMatchObject({
+      taskId: 'toggle',
+      file: 'src/app.tsx',
+      location: { line: 16, column: 9, endLine: 16, endColumn: 20 },
+    });
+  });
+
+  it('should report schema problems with the line of the offending value', () => {
+    const report = service.diagnoseContent(planYaml.replace('complexity: S', 'complexity: XXL'));
+
+    expect(report.valid).toBe(false);
+    expect(report.plan).toBeUndefined();
+    expect(report.diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'schema',
+        severity: 'error',
+        path: ['tasks', 0, 'complexity'],
+        taskId: 'theme-provider',
+        location: { line: 6, column: 17, endLine: 6, endColumn: 20 },
+      }),
+    ]);
+  });
+
+  it('should report YAML syntax errors at the offending token', () => {
+    const report = service.diagnoseContent('name: Broken\ntasks: [\n  - id: a');
+
+    expect(report.valid).toBe(false);
+    expect(report.diagnostics[0]).toMatchObject({
+      code: 'yaml-syntax',
+      location: { line: 3 },
+    });
+  });
+
+  it('should not fail a plan for quality warnings', () => {
+    const report = service.diagnoseContent(
+      planYaml
+        .replace('dependencies: [theme-types]', '')
+        .replace('complexity: S', 'complexity: XL'),
+    );
+
+    const severities = new Set(report.diagnostics.map(({ severity }) => severity));
+    expect(report.diagnostics.map(({ code }) => code)).toContain('xl-task');
+    expect(severities.has('warning')).toBe(true);
+    // toggle still conflicts with theme-provider on src/app.tsx
+    expect(report.valid).toBe(false);
+
+    const fixed = service.diagnoseContent(
+      planYaml
+        .replace('dependencies: [theme-types]', '')
+        .replace('complexity: S', 'complexity: XL')
+        .replace('      - src/app.tsx\n', ''),
+    );
+    expect(fixed.diagnostics.map(({ code }) => code)).toContain('xl-task');
+    expect(fixed.valid).toBe(true);
+  });
+});
+
+describe('formatSarifReport', () => {
+  it('should render results with rule metadata and regions', () => {
+    const sarif = JSON.parse(
+      formatSarifReport(
+        [
+          {
+            code: 'file-conflict',
+            severity: 'error',
+            message: 'src/app.tsx is modified by a and b, which can run in parallel',
+            path: ['tasks', 1, 'files', 0],
+            taskId: 'b',
+            file: 'src/app.tsx',
+            location: { line: 12, column: 9, endLine: 12, endColumn: 20 },
+          },
+          {
+            code: 'orphaned-task',
+            severity: 'note',
+            message: "Task 'c' has no dependencies and no dependents",
+            path: ['tasks', 2],
+            taskId: 'c',
+            location: { line: 14, column: 5 },
+          },
+        ],
+        'plans/dark-mode.yaml',
+      ),
+    ) as {
+      runs: Array<{
+        results: Array<Record<string, unknown>>;
+        tool: { driver: { name: string; rules: Array<{ id: string }> } };
+      }>;
+      version: string;
+    };
+
+    expect(sarif.version).toBe('2.1.0');
+    const [run] = sarif.runs;
+    expect(run?.tool.driver.name).toBe('chopstack');
+    expect(run?.tool.driver.rules.map(({ id }) => id)).toContain('file-conflict');
+    expect(run?.results[0]).toEqual({
+      ruleId: 'file-conflict',
+      ruleIndex: run?.tool.driver.rules.findIndex(({ id }) => id === 'file-conflict'),
+      level: 'error',
+      message: { text: 'src/app.tsx is modified by a and b, which can run in parallel' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'plans/dark-mode.yaml' },
+            region: { startLine: 12, startColumn: 9, endLine: 12, endColumn: 20 },
+          },
+        },
+      ],
+      properties: { path: 'tasks.1.files.0', taskId: 'b', file: 'src/app.tsx' },
+    });
+    expect(run?.results[1]).toMatchObject({
+      level: 'note',
+      locations: [{ physicalLocation: { region: { startLine: 14, startColumn: 5 } } }],
+    });
+  });
+});
@@ -516,6 +516,51 @@ describe('QualityValidationService', () => {
     });
   });
 
+  describe('Diagnostics', () => {
+    it('should locate findings at the task fields they are about', () => {
+      const service = new QualityValidationService();
+      const plan = createTestPlan([
+        createTestTask({ id: 'setup', complexity: 'S' }),
+        createTestTask({
+          id: 'big-task',
+          complexity: 'XL',
+          files: ['src/app.ts', 'src/**/*.css'],
+          dependencies: ['setup'],
+        }),
+      ]);
+
+      const report = service.validate(plan);
+
+      expect(report.diagnostics).toEqual([
+        expect.objectContaining({
+          code: 'xl-task',
+          severity: 'warning',
+          path: ['tasks', 1, 'complexity'],
+          taskId: 'big-task',
+        }),
+        expect.objectContaining({
+          code: 'vague-file-pattern',
+          severity: 'warning',
+          path: ['tasks', 1, 'files', 1],
+          taskId: 'big-task',
+          file: 'src/**/*.css',
+        }),
+      ]);
+    });
+
+    it('should report advisory findings as notes', () => {
+      const service = new QualityValidationService();
+      const plan = createTestPlan([createTestTask({ description: 'Too short' })]);
+
+      const report = service.validate(plan);
+
+      expect(report.diagnostics.map(({ code, severity }) => `${code}:${severity}`)).toEqual([
+        'short-description:note',
+        'no-dependencies:note',
+      ]);
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle plan with no tasks gracefully', () => {
       const service = new QualityValidationService();
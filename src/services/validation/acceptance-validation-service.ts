@@ -0,0 +1,286 @@
+import type { DecomposerAgent } from '@/core/agents/interfaces';
+import type { PlanV2, ProjectPrinciples, TaskV2 } from '@/types/schemas-v2';
+
+import { type CriterionResult, validationResultSchema } from '@/types/agent';
+import { logger } from '@/utils/global-logger';
+import { isNonEmptyArray, isNonEmptyString, isNonNullish } from '@/validation/guards';
+
+/**
+ * Validation outcome for one group of criteria (a task, the plan metrics, or project principles)
+ */
+export type AcceptanceCheck = {
+  criteriaResults: CriterionResult[];
+  id: string;
+  name: string;
+  passed: boolean;
+};
+
+/**
+ * Pass/fail report for a plan validated against the current working tree
+ */
+export type AcceptanceReport = {
+  passed: boolean;
+  planName: string;
+  principles?: AcceptanceCheck;
+  successMetrics?: AcceptanceCheck;
+  summary: {
+    failedCriteria: number;
+    passedCriteria: number;
+    totalCriteria: number;
+  };
+  tasks: AcceptanceCheck[];
+};
+
+export type AcceptanceValidationOptions = {
+  cwd: string;
+  principles?: ProjectPrinciples;
+  specContent?: string;
+};
+
+const normalize = (text: string): string => text.trim().toLowerCase();
+
+type QueryableAgent = DecomposerAgent & {
+  query: (prompt: string, cwd: string, options?: { verbose?: boolean }) => Promise<string>;
+};
+
+/**
+ * Service for validating an executed plan against its acceptance criteria.
+ *
+ * Asks the agent to inspect the current working tree and judge:
+ * - each task's `acceptanceCriteria`
+ * - the plan's `successMetrics` (quantitative and qualitative)
+ * - the project principles extracted by `ProjectPrinciplesService`
+ *
+ * Every criterion gets a verdict and evidence. Criteria the agent cannot judge
+ * (no query support, failed query, missing verdict) are reported as failed so an
+ * unverified plan never passes.
+ *
+ * @example
+ * ```typescript
+ * const service = new AcceptanceValidationService(agent);
+ * const report = await service.validate(plan, { cwd, principles });
+ *
+ * console.log(report.passed); // false
+ * console.log(report.summary.failedCriteria); // 2
+ * ```
+ */
+export class AcceptanceValidationService {
+  constructor(private readonly _agent?: DecomposerAgent) {}
+
+  /**
+   * Validate every task and the plan-level metrics and principles
+   */
+  async validate(plan: PlanV2, options: AcceptanceValidationOptions): Promise<AcceptanceReport> {
+    const tasks: AcceptanceCheck[] = [];
+    for (const task of plan.tasks) {
+      if (!isNonEmptyArray(task.acceptanceCriteria)) {
+        continue;
+      }
+      logger.info(`🔎 Validating task ${task.id} (${task.acceptanceCriteria.length} criteria)`);
+      tasks.push(
+        await this._check(
+          task.id,
+          task.name,
+          task.acceptanceCriteria,
+          this._buildTaskPrompt(plan, task, options),
+          options.cwd,
+        ),
+      );
+    }
+
+    const metrics = [
+      ...(plan.successMetrics?.quantitative ?? []),
+      ...(plan.successMetrics?.qualitative ?? []),
+    ];
+    const successMetrics = isNonEmptyArray(metrics)
+      ? await this._check(
+          'success-metrics',
+          'Success Metrics',
+          metrics,
+          this._buildPlanPrompt(plan, 'success metrics', metrics, options),
+          options.cwd,
+        )
+      : undefined;
+
+    const rules = (options.principles?.principles ?? []).map(
+      (principle) => `${principle.category}: ${principle.rule}`,
+    );
+    const principles = isNonEmptyArray(rules)
+      ? await this._check(
+          'project-principles',
+          `Project Principles (${options.principles?.source ?? 'unknown source'})`,
+          rules,
+          this._buildPlanPrompt(plan, 'project principles', rules, options),
+          options.cwd,
+        )
+      : undefined;
+
+    const checks = [...tasks, successMetrics, principles].filter((check) => isNonNullish(check));
+    const results = checks.flatMap((check) => check.criteriaResults);
+    const passedCriteria = results.filter((result) => result.passed).length;
+
+    return {
+      planName: plan.name,
+      passed: checks.every((check) => check.passed),
+      tasks,
+      ...(successMetrics !== undefined && { successMetrics }),
+      ...(principles !== undefined && { principles }),
+      summary: {
+        totalCriteria: results.length,
+        passedCriteria,
+        failedCriteria: results.length - passedCriteria,
+      },
+    };
+  }
+
+  private async _check(
+    id: string,
+    name: string,
+    criteria: string[],
+    prompt: string,
+    cwd: string,
+  ): Promise<AcceptanceCheck> {
+    let criteriaResults: CriterionResult[];
+
+    if (!this._agentSupportsQuery(this._agent)) {
+      logger.warn('⚠️ Agent does not support query method, criteria cannot be verified');
+      criteriaResults = this._unverified(criteria, 'Agent does not support validation queries');
+    } else {
+      try {
+        const response = await this._agent.query(prompt, cwd, { verbose: false });
+        criteriaResults = this._matchResults(criteria, this._parseAgentResults(response));
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.warn(`⚠️ Validation of ${id} failed: ${errorMessage}`);
+        criteriaResults = this._unverified(criteria, `Validation failed: ${errorMessage}`);
+      }
+    }
+
+    return {
+      id,
+      name,
+      passed: criteriaResults.every((result) => result.passed),
+      criteriaResults,
+    };
+  }
+
+  /**
+   * Type guard to check if agent supports query method
+   */
+  private _agentSupportsQuery(agent: DecomposerAgent | undefined): agent is QueryableAgent {
+    return isNonNullish(agent) && 'query' in agent && typeof agent.query === 'function';
+  }
+
+  private _buildTaskPrompt(
+    plan: PlanV2,
+    task: TaskV2,
+    options: AcceptanceValidationOptions,
+  ): string {
+    return `You are validating a completed implementation task against its acceptance criteria.
+Inspect the current working tree (read files, run read-only commands) and judge each criterion.
+Do NOT modify any files.
+
+## Plan: ${plan.name}
+${this._formatSpec(options.specContent)}
+## Task: ${task.name} (${task.id})
+
+${task.description}
+
+Files: ${task.files.join(', ')}
+
+## Acceptance Criteria
+${this._formatCriteria(task.acceptanceCriteria)}
+
+${this._outputInstructions()}`;
+  }
+
+  private _buildPlanPrompt(
+    plan: PlanV2,
+    kind: string,
+    criteria: string[],
+    options: AcceptanceValidationOptions,
+  ): string {
+    return `You are validating a completed feature against its ${kind}.
+Inspect the current working tree (read files, run read-only commands) and judge each item.
+Do NOT modify any files.
+
+## Plan: ${plan.name}
+${isNonEmptyString(plan.description) ? `\n${plan.description}\n` : ''}${this._formatSpec(options.specContent)}
+## Criteria
+${this._formatCriteria(criteria)}
+
+${this._outputInstructions()}`;
+  }
+
+  private _formatSpec(specContent: string | undefined): string {
+    return isNonEmptyString(specContent) ? `\n## Feature Specification\n\n${specContent}\n` : '';
+  }
+
+  private _formatCriteria(criteria: string[]): string {
+    return criteria.map((criterion, index) => `${index + 1}. ${criterion}`).join('\n');
+  }
+
+  private _outputInstructions(): string {
+    return `## Output Format
+
+Return ONLY a JSON code block with one result per criterion, copying each criterion text verbatim:
+
+\`\`\`json
+{
+  "passed": false,
+  "criteriaResults": [
+    {
+      "criterion": "<criterion text>",
+      "passed": true,
+      "evidence": "<files, lines or command output that prove the verdict>"
+    }
+  ],
+  "summary": "<one sentence summary>"
+}
+\`\`\``;
+  }
+
+  /**
+   * Parse the agent's fenced JSON response into criterion results
+   */
+  private _parseAgentResults(response: string): CriterionResult[] {
+    const jsonMatch = response.match(/```json\n([\S\s]+?)\n```/);
+    const jsonContent = jsonMatch?.[1];
+
+    if (!isNonEmptyString(jsonContent)) {
+      throw new Error('No JSON code block found in response');
+    }
+
+    const parsed = validationResultSchema.safeParse(JSON.parse(jsonContent));
+    if (!parsed.success) {
+      throw new Error(`Invalid validation result: ${parsed.error.message}`);
+    }
+
+    return parsed.data.criteriaResults;
+  }
+
+  /**
+   * Align agent verdicts with the requested criteria, by text first and position second
+   */
+  private _matchResults(criteria: string[], results: CriterionResult[]): CriterionResult[] {
+    return criteria.map((criterion, index) => {
+      const match =
+        results.find((result) => normalize(result.criterion) === normalize(criterion)) ??
+        results[index];
+
+      if (match === undefined) {
+        return { criterion, passed: false, evidence: 'No verdict returned by agent' };
+      }
+
+      return {
+        criterion,
+        passed: match.passed,
+        ...(match.evidence !== undefined && { evidence: match.evidence }),
+      };
+    });
+  }
+
+  private _unverified(criteria: string[], evidence: string): CriterionResult[] {
+    return criteria.map((criterion) => ({ criterion, passed: false, evidence }));
+  }
+}
@@ -0,0 +1,145 @@
+import type { PlanV2 } from '@/types/schemas-v2';
+
+import { YamlPlanParser } from '@/io/yaml-parser';
+import { DagValidator } from '@/validation/dag-validator';
+import {
+  PLAN_DIAGNOSTIC_RULES,
+  type PlanDiagnostic,
+  type PlanDiagnosticCode,
+} from '@/validation/plan-diagnostics';
+
+import { QualityValidationService } from './quality-validation-service';
+
+/**
+ * Every problem found in a plan, in file order
+ */
+export type PlanDiagnosticsReport = {
+  diagnostics: PlanDiagnostic[];
+  /** Missing when the plan file could not be parsed */
+  plan?: PlanV2;
+  /** True when the plan can be executed: DAG validation passed and no diagnostic is an error */
+  valid: boolean;
+};
+
+/**
+ * Collects the structured diagnostics of every plan validator: the parser (YAML syntax
+ * and schema), {@link DagValidator} and {@link QualityValidationService}.
+ *
+ * @remarks
+ * Plans read from a file are diagnosed from their content, so every diagnostic carries
+ * the line and column of the plan node it is about. Quality findings never fail a plan;
+ * they are reported as warnings and notes.
+ *
+ * @example
+ * ```typescript
+ * const report = new PlanDiagnosticsService().diagnoseContent(await readFile('plan.yaml', 'utf8'));
+ * for (const { code, location, message } of report.diagnostics) {
+ *   console.log(`plan.yaml:${location?.line}: ${message} [${code}]`);
+ * }
+ * ```
+ */
+export class PlanDiagnosticsService {
+  private readonly qualityValidationService = new QualityValidationService();
+
+  /**
+   * Diagnose plan file content, locating every diagnostic in it
+   */
+  diagnoseContent(content: string): PlanDiagnosticsReport {
+    const { diagnostics, plan, sourceMap } = YamlPlanParser.diagnose(content);
+    if (plan === undefined) {
+      return { diagnostics, valid: false };
+    }
+
+    const report = this.diagnosePlan(plan);
+    return { ...report, diagnostics: sortByLocation(sourceMap.annotate(report.diagnostics)) };
+  }
+
+  /**
+   * Diagnose a plan that has no source file, e.g. one generated from a spec
+   */
+  diagnosePlan(plan: PlanV2): PlanDiagnosticsReport {
+    const validation = DagValidator.validatePlan(plan);
+    const diagnostics = [
+      ...(validation.diagnostics ?? []),
+      ...this.qualityValidationService.validate(plan).diagnostics,
+    ];
+
+    return {
+      diagnostics,
+      plan,
+      valid: validation.valid && diagnostics.every(({ severity }) => severity !== 'error'),
+    };
+  }
+}
+
+function sortByLocation(diagnostics: PlanDiagnostic[]): PlanDiagnostic[] {
+  // Array.prototype.sort is stable, so diagnostics on one position keep validator order
+  return [...diagnostics].sort((a, b) => {
+    const lineDifference =
+      (a.location?.line ?? Number.POSITIVE_INFINITY) -
+      (b.location?.line ?? Number.POSITIVE_INFINITY);
+    if (lineDifference !== 0 && !Number.isNaN(lineDifference)) {
+      return lineDifference;
+    }
+    return (a.location?.column ?? 0) - (b.location?.column ?? 0);
+  });
+}
+
+/**
+ * Render diagnostics as a SARIF 2.1.0 log for editors and code-scanning UIs
+ *
+ * @param artifactUri - Plan file path relative to the repository root, with `/` separators
+ */
+export function formatSarifReport(diagnostics: PlanDiagnostic[], artifactUri: string): string {
+  const ruleIds = Object.keys(PLAN_DIAGNOSTIC_RULES) as PlanDiagnosticCode[];
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'chopstack',
+            rules: ruleIds.map((id) => ({
+              id,
+              shortDescription: { text: PLAN_DIAGNOSTIC_RULES[id].description },
+              defaultConfiguration: { level: PLAN_DIAGNOSTIC_RULES[id].severity },
+            })),
+          },
+        },
+        results: diagnostics.map((diagnostic) => ({
+          ruleId: diagnostic.code,
+          ruleIndex: ruleIds.indexOf(diagnostic.code),
+          level: diagnostic.severity,
+          message: { text: diagnostic.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: { uri: artifactUri },
+                ...(diagnostic.location !== undefined && {
+                  region: {
+                    startLine: diagnostic.location.line,
+                    startColumn: diagnostic.location.column,
+                    ...(diagnostic.location.endLine !== undefined && {
+                      endLine: diagnostic.location.endLine,
+                    }),
+                    ...(diagnostic.location.endColumn !== undefined && {
+                      endColumn: diagnostic.location.endColumn,
+                    }),
+                  },
+                }),
+              },
+            },
+          ],
+          properties: {
+            path: diagnostic.path.join('.'),
+            ...(diagnostic.taskId !== undefined && { taskId: diagnostic.taskId }),
+            ...(diagnostic.phaseId !== undefined && { phaseId: diagnostic.phaseId }),
+            ...(diagnostic.file !== undefined && { file: diagnostic.file }),
+          },
+        })),
+      },
+    ],
+  };
+  return `${JSON.stringify(sarif, null, 2)}\n`;
+}
@@ -2,11 +2,14 @@ import type { PlanV2, TaskV2, ValidationFinding } from '@/types/schemas-v2';
 
 import { logger } from '@/utils/global-logger';
 import { isNonEmptyArray, isNonNullish } from '@/validation/guards';
+import { createPlanDiagnostic, type PlanDiagnostic } from '@/validation/plan-diagnostics';
 
 /**
  * Quality validation report with findings and metrics
  */
 export type QualityValidationReport = {
+  /** The findings located at the task fields they are about */
+  diagnostics: PlanDiagnostic[];
   findings: ValidationFinding[];
   overallScore: number;
   taskMetrics: {
@@ -79,33 +82,70 @@ export class QualityValidationService {
     logger.debug('🔍 Starting plan quality validation...');
 
     const findings: ValidationFinding[] = [];
+    const diagnostics: PlanDiagnostic[] = [];
 
     // Validate each task
-    for (const task of plan.tasks) {
+    for (const [index, task] of plan.tasks.entries()) {
+      const taskPath = ['tasks', index];
+
       // 1. XL task detection (CRITICAL)
       if (task.complexity === 'XL') {
-        findings.push(this._createXlTaskFinding(task));
+        const finding = this._createXlTaskFinding(task);
+        findings.push(finding);
+        diagnostics.push(
+          createPlanDiagnostic('xl-task', finding.message, [...taskPath, 'complexity'], {
+            taskId: task.id,
+          }),
+        );
       }
 
       // 2. File count validation (HIGH)
       if (task.files.length > this.MAX_FILES_PER_TASK) {
-        findings.push(this._createTooManyFilesFinding(task));
+        const finding = this._createTooManyFilesFinding(task);
+        findings.push(finding);
+        diagnostics.push(
+          createPlanDiagnostic('too-many-files', finding.message, [...taskPath, 'files'], {
+            taskId: task.id,
+          }),
+        );
       }
 
-      // 3. Vague file pattern detection (HIGH)
+      // 3. Vague file pattern detection (HIGH), one diagnostic per pattern
       const vaguePatterns = this._detectVagueFilePatterns(task);
       if (isNonEmptyArray(vaguePatterns)) {
         findings.push(this._createVaguePatternFinding(task, vaguePatterns));
+        for (const pattern of vaguePatterns) {
+          diagnostics.push(
+            createPlanDiagnostic(
+              'vague-file-pattern',
+              `Task "${task.name}" (${task.id}) has vague file pattern: ${pattern}`,
+              [...taskPath, 'files', task.files.indexOf(pattern)],
+              { taskId: task.id, file: pattern },
+            ),
+          );
+        }
       }
 
       // 4. Short description detection (MEDIUM)
       if (task.description.length < this.MIN_DESCRIPTION_LENGTH) {
-        findings.push(this._createShortDescriptionFinding(task));
+        const finding = this._createShortDescriptionFinding(task);
+        findings.push(finding);
+        diagnostics.push(
+          createPlanDiagnostic('short-description', finding.message, [...taskPath, 'description'], {
+            taskId: task.id,
+          }),
+        );
       }
 
       // 5. Missing dependency validation (LOW)
       if (this._isMissingDependencies(task)) {
-        findings.push(this._createMissingDependenciesFinding(task));
+        const finding = this._createMissingDependenciesFinding(task);
+        findings.push(finding);
+        diagnostics.push(
+          createPlanDiagnostic('no-dependencies', finding.message, [...taskPath, 'dependencies'], {
+            taskId: task.id,
+          }),
+        );
       }
     }
 
@@ -120,6 +160,7 @@ export class QualityValidationService {
     );
 
     return {
+      diagnostics,
       findings,
       overallScore,
       taskMetrics,
@@ -0,0 +1,140 @@
+import { readFile, writeFile } from 'node:fs/promises';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { DecomposerAgent } from '@/core/agents/interfaces';
+import type { ConflictInfo } from '@/core/vcs/domain-services';
+import type { TaskVerificationService } from '@/services/execution/task-verification-service';
+
+import {
+  AgentConflictResolver,
+  buildConflictPrompt,
+  extractMergedFile,
+  hasConflictMarkers,
+} from '@/services/vcs/agent-conflict-resolver';
+
+const { gitStub } = vi.hoisted(() => ({
+  gitStub: {
+    add: vi.fn(),
+    raw: vi.fn(),
+  },
+}));
+
+vi.mock('@/adapters/vcs/git-wrapper', () => ({
+  GitWrapper: vi.fn().mockImplementation(() => gitStub),
+}));
+
+const CONFLICTED = [
+  'export const theme = {',
+  '<<<<<<< HEAD',
+  "  primary: 'blue',",
+  '=======',
+  "  accent: 'red',",
+  '>>>>>>> abc1234 (feat: accent color)',
+  '};',
+  '',
+].join('\n');
+
+const MERGED = ['export const theme = {', "  primary: 'blue',", "  accent: 'red',", '};', ''].join(
+  '\n',
+);
+
+const conflictInfo: ConflictInfo = {
+  taskId: 'task-2',
+  conflictedFiles: ['src/theme.ts'],
+  resolution: 'agent',
+  timestamp: new Date(),
+  currentTask: { id: 'task-1', name: 'Primary color', description: 'Add the primary color' },
+  incomingTask: { id: 'task-2', name: 'Accent color', description: 'Add the accent color' },
+  verify: ['pnpm tsc --noEmit'],
+};
+
+describe('AgentConflictResolver', () => {
+  let query: ReturnType<typeof vi.fn>;
+  let verify: ReturnType<typeof vi.fn>;
+  let resolver: AgentConflictResolver;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    gitStub.add.mockResolvedValue(undefined);
+    gitStub.raw.mockResolvedValue('export const theme = {\n};\n');
+    vi.mocked(readFile).mockResolvedValue(CONFLICTED as never);
+    vi.mocked(writeFile).mockResolvedValue(undefined);
+
+    query = vi.fn().mockResolvedValue(`Here is the merged file:\n\`\`\`ts\n${MERGED}\`\`\`\n`);
+    verify = vi
+      .fn()
+      .mockResolvedValue([
+        { attempt: 1, command: 'pnpm tsc --noEmit', duration: 5, output: '', passed: true },
+      ]);
+    const agent = { query } as unknown as DecomposerAgent;
+    resolver = new AgentConflictResolver({
+      createAgent: vi.fn().mockResolvedValue(agent),
+      verificationService: { verify } as TaskVerificationService,
+    });
+  });
+
+  it('should write and stage the merged file once verification passes', async () => {
+    const resolved = await resolver.resolve(conflictInfo, '/repo');
+
+    expect(resolved).toBe(true);
+    expect(gitStub.raw).toHaveBeenCalledWith(['show', ':1:src/theme.ts']);
+    expect(query).toHaveBeenCalledWith(expect.stringContaining('Accent color'), '/repo');
+    expect(writeFile).toHaveBeenCalledWith('/repo/src/theme.ts', MERGED, 'utf8');
+    expect(gitStub.add).toHaveBeenCalledWith(['src/theme.ts']);
+    expect(verify).toHaveBeenCalledWith(['pnpm tsc --noEmit'], '/repo', 1);
+  });
+
+  it('should reject a merge that still contains conflict markers', async () => {
+    query.mockResolvedValue(`\`\`\`ts\n${CONFLICTED}\`\`\``);
+
+    const resolved = await resolver.resolve(conflictInfo, '/repo');
+
+    expect(resolved).toBe(false);
+    expect(writeFile).not.toHaveBeenCalled();
+  });
+
+  it('should reject the resolution when a verify command fails', async () => {
+    verify.mockResolvedValue([
+      { attempt: 1, command: 'pnpm tsc --noEmit', duration: 5, output: 'error', passed: false },
+    ]);
+
+    expect(await resolver.resolve(conflictInfo, '/repo')).toBe(false);
+  });
+
+  it('should give up when the agent cannot answer queries', async () => {
+    const agent = {} as DecomposerAgent;
+    resolver = new AgentConflictResolver({ createAgent: vi.fn().mockResolvedValue(agent) });
+
+    expect(await resolver.resolve(conflictInfo, '/repo')).toBe(false);
+    expect(readFile).not.toHaveBeenCalled();
+  });
+});
+
+describe('conflict prompt helpers', () => {
+  it('should detect conflict markers only at the start of a line', () => {
+    expect(hasConflictMarkers(CONFLICTED)).toBe(true);
+    expect(hasConflictMarkers(MERGED)).toBe(false);
+    expect(hasConflictMarkers("const divider = '======= end';")).toBe(false);
+  });
+
+  it('should take the last fenced block as the merged file', () => {
+    expect(extractMergedFile('```\nfirst\n```\nthen\n```ts\nsecond\n```')).toBe('second\n');
+    expect(extractMergedFile('no code here')).toBeNull();
+  });
+
+  it('should include both tasks, the base version and the conflicted file', () => {
+    const prompt = buildConflictPrompt({
+      file: 'src/theme.ts',
+      conflictedContent: CONFLICTED,
+      baseContent: 'BASE',
+      currentTask: conflictInfo.currentTask!,
+      incomingTask: conflictInfo.incomingTask!,
+    });
+
+    expect(prompt).toContain('Primary color (task-1)');
+    expect(prompt).toContain('Add the accent color');
+    expect(prompt).toContain('BASE');
+    expect(prompt).toContain('<<<<<<< HEAD');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+
+import type { TaskCommitResult } from '@/core/vcs/vcs-strategy';
+import type { Phase } from '@/types/schemas-v2';
+
+import { groupTaskCommits } from '../branch-groups';
+
+describe('groupTaskCommits', () => {
+  const results: TaskCommitResult[] = [
+    { taskId: 'create-types', commitHash: 'aaa111', branchName: 'chopstack/create-types' },
+    { taskId: 'theme-provider', commitHash: 'bbb222' },
+    { taskId: 'empty-task', commitHash: '' },
+    { taskId: 'theme-toggle', commitHash: 'ccc333' },
+  ];
+
+  const phases: Phase[] = [
+    {
+      id: 'phase-setup',
+      name: 'Setup',
+      strategy: 'sequential',
+      tasks: ['create-types'],
+      requires: [],
+    },
+    {
+      id: 'phase-ui',
+      name: 'Theme UI',
+      strategy: 'parallel',
+      tasks: ['theme-toggle', 'theme-provider', 'empty-task'],
+      requires: ['phase-setup'],
+    },
+  ];
+
+  it('should create one branch per phase named after the phase ID', () => {
+    const groups = groupTaskCommits(results, {
+      branchPrefix: 'chopstack/',
+      granularity: 'phase',
+      phases,
+      planName: 'Dark Mode',
+    });
+
+    expect(groups).toEqual([
+      {
+        id: 'phase-setup',
+        branchName: 'chopstack/phase-setup',
+        title: 'Setup',
+        commits: [{ taskId: 'create-types', commitHash: 'aaa111' }],
+      },
+      {
+        id: 'phase-ui',
+        branchName: 'chopstack/phase-ui',
+        title: 'Theme UI',
+        commits: [
+          { taskId: 'theme-provider', commitHash: 'bbb222' },
+          { taskId: 'theme-toggle', commitHash: 'ccc333' },
+        ],
+      },
+    ]);
+  });
+
+  it('should fold every commit into one branch named after the plan', () => {
+    const groups = groupTaskCommits(results, {
+      branchPrefix: 'chopstack/',
+      granularity: 'plan',
+      phases,
+      planName: 'Dark Mode: Theme Support',
+    });
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({
+      branchName: 'chopstack/dark-mode-theme-support',
+      title: 'Dark Mode: Theme Support',
+    });
+    expect(groups[0]?.commits.map((commit) => commit.taskId)).toEqual([
+      'create-types',
+      'theme-provider',
+      'theme-toggle',
+    ]);
+  });
+
+  it('should fall back to a plan branch when the plan has no phases', () => {
+    const groups = groupTaskCommits(results, {
+      branchPrefix: 'chopstack/',
+      granularity: 'phase',
+      planName: 'Dark Mode',
+    });
+
+    expect(groups.map((group) => group.branchName)).toEqual(['chopstack/dark-mode']);
+  });
+
+  it('should keep commits of tasks outside every phase', () => {
+    const groups = groupTaskCommits(results, {
+      branchPrefix: 'chopstack/',
+      granularity: 'phase',
+      phases: [phases[0]!],
+      planName: 'Dark Mode',
+    });
+
+    expect(groups.at(-1)).toMatchObject({
+      branchName: 'chopstack/unphased',
+      commits: [
+        { taskId: 'theme-provider', commitHash: 'bbb222' },
+        { taskId: 'theme-toggle', commitHash: 'ccc333' },
+      ],
+    });
+  });
+});
@@ -12,7 +12,11 @@ type GitWrapperStub = {
   branchExists: ReturnType<typeof vi.fn>;
   checkout: ReturnType<typeof vi.fn>;
   cherryPick: ReturnType<typeof vi.fn>;
+  createWorktree: ReturnType<typeof vi.fn>;
+  getCurrentCommit: ReturnType<typeof vi.fn>;
   raw: ReturnType<typeof vi.fn>;
+  removeWorktree: ReturnType<typeof vi.fn>;
+  setBranchTitle: ReturnType<typeof vi.fn>;
   status: ReturnType<typeof vi.fn>;
 };
 
@@ -22,7 +26,11 @@ const createGitWrapperStub = (): GitWrapperStub => ({
   branchExists: vi.fn().mockResolvedValue(false),
   checkout: vi.fn().mockResolvedValue(undefined),
   cherryPick: vi.fn().mockResolvedValue(undefined),
+  createWorktree: vi.fn().mockResolvedValue(undefined),
+  getCurrentCommit: vi.fn().mockResolvedValue('fff999\n'),
   raw: vi.fn().mockResolvedValue(''),
+  removeWorktree: vi.fn().mockResolvedValue(undefined),
+  setBranchTitle: vi.fn().mockResolvedValue(undefined),
   status: vi.fn().mockResolvedValue({
     added: [],
     conflicted: [],
@@ -65,16 +73,18 @@ vi.mock('execa', () => ({
 
 const createBranchFromCommitMock = vi.fn();
 const createStackBranchMock = vi.fn();
+const submitStackMock = vi.fn();
+const trackBranchMock = vi.fn();
 
 vi.mock('@/adapters/vcs/git-spice/backend', () => ({
   GitSpiceBackend: vi.fn().mockImplementation(() => ({
     createBranchFromCommit: createBranchFromCommitMock,
     getStackInfo: vi.fn().mockResolvedValue(null),
-    submitStack: vi.fn().mockResolvedValue([]),
+    submitStack: submitStackMock,
     restack: vi.fn().mockResolvedValue(undefined),
     createStackBranch: createStackBranchMock,
     commitInStack: vi.fn().mockResolvedValue('abc123'),
-    trackBranch: vi.fn().mockResolvedValue(undefined),
+    trackBranch: trackBranchMock,
   })),
 }));
 
@@ -118,6 +128,10 @@ describe('StackBuildServiceImpl', () => {
     createStackBranchMock.mockReset();
     // createStackBranch succeeds silently (returns void)
     createStackBranchMock.mockResolvedValue(undefined);
+    submitStackMock.mockReset();
+    submitStackMock.mockResolvedValue([]);
+    trackBranchMock.mockReset();
+    trackBranchMock.mockResolvedValue(undefined);
     gitWrapperInstances.length = 0;
     nextGitWrapperFactory = createGitWrapperStub;
   });
@@ -223,6 +237,57 @@ describe('StackBuildServiceImpl', () => {
     expect(conflictResolutionService.resolveConflicts).toHaveBeenCalledTimes(1);
   });
 
+  it('describes both conflicting tasks and their verify commands to the resolver', async () => {
+    createBranchFromCommitMock
+      .mockImplementationOnce((branchName: string) => branchName)
+      .mockRejectedValueOnce(new Error('commit not found'));
+
+    nextGitWrapperFactory = () => {
+      const stub = createGitWrapperStub();
+      stub.cherryPick.mockRejectedValueOnce(new Error('conflict'));
+      stub.status.mockResolvedValue({
+        added: [],
+        conflicted: ['src/example.ts'],
+        deleted: [],
+        modified: [],
+        untracked: [],
+      });
+      return stub;
+    };
+
+    const conflictResolutionService = createConflictResolutionService(true);
+    const service = new StackBuildServiceImpl(
+      { ...defaultConfig, conflictStrategy: 'agent' },
+      { conflictResolutionService },
+    );
+
+    const secondTask: ExecutionTask = {
+      ...baseTask,
+      id: 'task-2',
+      name: 'Task 2',
+      description: 'Second task',
+      dependencies: ['task-1'],
+      commitHash: 'def5678',
+      verify: ['pnpm test'],
+    };
+
+    await service.buildStack([baseTask, secondTask], '/repo', {
+      parentRef: 'main',
+      strategy: 'dependency-order',
+    });
+
+    expect(conflictResolutionService.resolveConflicts).toHaveBeenCalledWith(
+      expect.objectContaining({
+        taskId: 'task-2',
+        resolution: 'agent',
+        currentTask: { id: 'task-1', name: 'Task 1', description: 'Demo task' },
+        incomingTask: { id: 'task-2', name: 'Task 2', description: 'Second task' },
+        verify: ['pnpm test'],
+      }),
+      '/repo',
+    );
+  });
+
   describe('Incremental Stack Building', () => {
     it('initializes stack state on first call to addTaskToStack', async () => {
       const service = new StackBuildServiceImpl(defaultConfig);
@@ -442,4 +507,192 @@ describe('StackBuildServiceImpl', () => {
       );
     });
   });
+
+  describe('Grouped branches', () => {
+    const groups = [
+      {
+        id: 'phase-setup',
+        branchName: 'chopstack/phase-setup',
+        title: 'Setup Phase',
+        commits: [
+          { taskId: 'task-1', commitHash: 'aaa111' },
+          { taskId: 'task-2', commitHash: 'bbb222' },
+        ],
+      },
+      {
+        id: 'phase-ui',
+        branchName: 'chopstack/phase-ui',
+        title: 'UI Phase',
+        commits: [{ taskId: 'task-3', commitHash: 'ccc333' }],
+      },
+    ];
+
+    it('folds each group into one stacked branch, one cherry-picked commit per task', async () => {
+      const service = new StackBuildServiceImpl(defaultConfig);
+
+      const result = await service.buildGroupedStack(groups, '/repo', {
+        parentRef: 'main',
+        track: true,
+      });
+
+      const [repoGit, setupGit, uiGit] = gitWrapperInstances;
+      expect(repoGit!.createWorktree).toHaveBeenNthCalledWith(
+        1,
+        '/repo/.chopstack/shadows/fold-phase-setup',
+        'main',
+        'chopstack/phase-setup',
+      );
+      expect(repoGit!.createWorktree).toHaveBeenNthCalledWith(
+        2,
+        '/repo/.chopstack/shadows/fold-phase-ui',
+        'chopstack/phase-setup',
+        'chopstack/phase-ui',
+      );
+      expect(setupGit!.cherryPick.mock.calls).toEqual([['aaa111'], ['bbb222']]);
+      expect(uiGit!.cherryPick.mock.calls).toEqual([['ccc333']]);
+      expect(trackBranchMock).toHaveBeenCalledWith(
+        'chopstack/phase-ui',
+        'chopstack/phase-setup',
+        '/repo',
+      );
+      expect(result.branches).toEqual([
+        {
+          branchName: 'chopstack/phase-setup',
+          commitHash: 'fff999',
+          parent: 'main',
+          taskId: 'phase-setup',
+          title: 'Setup Phase',
+        },
+        {
+          branchName: 'chopstack/phase-ui',
+          commitHash: 'fff999',
+          parent: 'chopstack/phase-setup',
+          taskId: 'phase-ui',
+          title: 'UI Phase',
+        },
+      ]);
+    });
+
+    it('stops folding and drops the branch when a commit does not apply', async () => {
+      nextGitWrapperFactory = () => {
+        const stub = createGitWrapperStub();
+        stub.cherryPick.mockRejectedValue(new Error('conflict'));
+        return stub;
+      };
+      const service = new StackBuildServiceImpl(defaultConfig);
+
+      const result = await service.buildGroupedStack(groups, '/repo', {
+        parentRef: 'main',
+        track: false,
+      });
+
+      expect(result.branches).toEqual([]);
+      expect(result.failedTasks?.[0]?.taskId).toBe('task-1');
+      expect(gitWrapperInstances[0]!.raw).toHaveBeenCalledWith([
+        'branch',
+        '-D',
+        'chopstack/phase-setup',
+      ]);
+      expect(gitWrapperInstances[0]!.createWorktree).toHaveBeenCalledTimes(1);
+      expect(trackBranchMock).not.toHaveBeenCalled();
+    });
+
+    it('resolves cherry-pick conflicts in the fold worktree with plan and task verify commands', async () => {
+      nextGitWrapperFactory = () => {
+        const stub = createGitWrapperStub();
+        stub.cherryPick
+          .mockResolvedValueOnce(undefined)
+          .mockRejectedValueOnce(new Error('conflict'));
+        stub.status.mockResolvedValue({
+          added: [],
+          conflicted: ['src/shared.ts'],
+          deleted: [],
+          modified: [],
+          untracked: [],
+        });
+        return stub;
+      };
+      const conflictResolutionService = createConflictResolutionService(true);
+      const service = new StackBuildServiceImpl(
+        { ...defaultConfig, conflictStrategy: 'agent' },
+        { conflictResolutionService },
+      );
+
+      const result = await service.buildGroupedStack(groups, '/repo', {
+        parentRef: 'main',
+        track: false,
+        tasks: [
+          { id: 'task-1', name: 'Task 1', description: 'First task' },
+          { id: 'task-2', name: 'Task 2', description: 'Second task', verify: ['pnpm test'] },
+        ],
+        verify: ['pnpm lint'],
+      });
+
+      expect(conflictResolutionService.resolveConflicts).toHaveBeenCalledWith(
+        expect.objectContaining({
+          taskId: 'task-2',
+          conflictedFiles: ['src/shared.ts'],
+          currentTask: { id: 'task-1', name: 'Task 1', description: 'First task' },
+          incomingTask: { id: 'task-2', name: 'Task 2', description: 'Second task' },
+          verify: ['pnpm lint', 'pnpm test'],
+        }),
+        '/repo/.chopstack/shadows/fold-phase-setup',
+      );
+      expect(gitWrapperInstances[1]!.raw).toHaveBeenCalledWith(['cherry-pick', '--continue']);
+      expect(gitWrapperInstances[1]!.raw).not.toHaveBeenCalledWith(['cherry-pick', '--abort']);
+      expect(result.failedTasks).toBeUndefined();
+      expect(result.branches.map((branch) => branch.branchName)).toEqual([
+        'chopstack/phase-setup',
+        'chopstack/phase-ui',
+      ]);
+    });
+
+    it('stops folding when a conflict cannot be resolved', async () => {
+      nextGitWrapperFactory = () => {
+        const stub = createGitWrapperStub();
+        stub.cherryPick.mockRejectedValue(new Error('conflict'));
+        stub.status.mockResolvedValue({
+          added: [],
+          conflicted: ['src/shared.ts'],
+          deleted: [],
+          modified: [],
+          untracked: [],
+        });
+        return stub;
+      };
+      const conflictResolutionService = createConflictResolutionService(false);
+      const service = new StackBuildServiceImpl(defaultConfig, { conflictResolutionService });
+
+      const result = await service.buildGroupedStack(groups, '/repo', {
+        parentRef: 'main',
+        track: false,
+      });
+
+      expect(conflictResolutionService.resolveConflicts).toHaveBeenCalledTimes(1);
+      expect(gitWrapperInstances[1]!.raw).toHaveBeenCalledWith(['cherry-pick', '--abort']);
+      expect(result.branches).toEqual([]);
+      expect(result.failedTasks).toEqual([
+        {
+          taskId: 'task-1',
+          reason:
+            'Failed to apply aaa111 to chopstack/phase-setup: Could not resolve conflicts automatically (src/shared.ts)',
+        },
+      ]);
+    });
+
+    it('records the PR title of each folded branch', async () => {
+      const service = new StackBuildServiceImpl(defaultConfig);
+
+      await service.buildGroupedStack(groups, '/repo', { parentRef: 'main', track: true });
+
+      expect(gitWrapperInstances[0]!.setBranchTitle).toHaveBeenCalledWith(
+        'chopstack/phase-setup',
+        'Setup Phase',
+      );
+      expect(gitWrapperInstances[0]!.setBranchTitle).toHaveBeenCalledWith(
+        'chopstack/phase-ui',
+        'UI Phase',
+      );
+    });
+  });
 });
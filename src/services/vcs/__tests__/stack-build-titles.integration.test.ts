@@ -0,0 +1,128 @@
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { setupGitTest } from '@test/helpers';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import type { TaskCommitResult } from '@/core/vcs/vcs-strategy';
+import type { Phase } from '@/types/schemas-v2';
+
+import { createVcsBackend } from '@/adapters/vcs';
+import { GitWrapper } from '@/adapters/vcs/git-wrapper';
+import { groupTaskCommits } from '@/services/vcs/branch-groups';
+import { StackBuildServiceImpl } from '@/services/vcs/stack-build-service';
+
+/**
+ * Fake `gs` executable that records its arguments and answers submissions with PR URLs
+ */
+const GS_SHIM = `#!/usr/bin/env bash
+echo "$*" >> "$GS_SHIM_LOG"
+case "$1 $2" in
+  "branch submit") echo "Created https://github.com/acme/app/pull/$(wc -l < "$GS_SHIM_LOG" | tr -d ' ')" ;;
+esac
+exit 0
+`;
+
+const phases: Phase[] = [
+  { id: 'setup', name: 'Setup Phase', strategy: 'sequential', tasks: ['types'], requires: [] },
+  { id: 'ui', name: 'UI Phase', strategy: 'sequential', tasks: ['toggle'], requires: ['setup'] },
+];
+
+describe('Folded branch titles integration', () => {
+  const { getGit, getTmpDir } = setupGitTest('stack-build-titles-integration');
+
+  let shimDir: string;
+  let logFile: string;
+  let originalPath: string | undefined;
+
+  const gsCalls = (): string[] => readFileSync(logFile, 'utf8').trim().split('\n');
+
+  beforeEach(() => {
+    shimDir = mkdtempSync(path.join(tmpdir(), 'chopstack-gs-shim-'));
+    logFile = path.join(shimDir, 'calls.log');
+    writeFileSync(logFile, '');
+    writeFileSync(path.join(shimDir, 'gs'), GS_SHIM);
+    chmodSync(path.join(shimDir, 'gs'), 0o755);
+
+    originalPath = process.env.PATH;
+    process.env.PATH = `${shimDir}${path.delimiter}${originalPath ?? ''}`;
+    process.env.GS_SHIM_LOG = logFile;
+  });
+
+  afterEach(() => {
+    process.env.PATH = originalPath;
+    delete process.env.GS_SHIM_LOG;
+    rmSync(shimDir, { recursive: true, force: true });
+  });
+
+  it('should submit phase branches built by a run under their phase names', async () => {
+    const git = getGit();
+    const testDir = getTmpDir();
+    const trunk = (await git.branchLocal()).current;
+
+    // Task commits as a run leaves them, on their own branch off trunk
+    await git.checkoutLocalBranch('chopstack/types');
+    writeFileSync(path.join(testDir, 'types.ts'), 'export type Theme = "light" | "dark";\n');
+    await git.add('types.ts');
+    await git.commit('Add theme types');
+    const typesCommit = (await git.revparse(['HEAD'])).trim();
+    writeFileSync(path.join(testDir, 'toggle.ts'), 'export const toggle = true;\n');
+    await git.add('toggle.ts');
+    await git.commit('Add theme toggle');
+    const toggleCommit = (await git.revparse(['HEAD'])).trim();
+    await git.checkout(trunk);
+
+    const results: TaskCommitResult[] = [
+      { taskId: 'types', commitHash: typesCommit },
+      { taskId: 'toggle', commitHash: toggleCommit },
+    ];
+    const groups = groupTaskCommits(results, {
+      branchPrefix: 'chopstack/',
+      granularity: 'phase',
+      phases,
+    });
+
+    // Submission stays disabled in the engine, as every run configures it
+    const stackBuildService = new StackBuildServiceImpl({
+      branchPrefix: 'chopstack/',
+      parentRef: trunk,
+      stackSubmissionEnabled: false,
+    });
+    const stackInfo = await stackBuildService.buildGroupedStack(groups, testDir, {
+      parentRef: trunk,
+      track: true,
+    });
+    expect(stackInfo.branches.map((branch) => branch.branchName)).toEqual([
+      'chopstack/setup',
+      'chopstack/ui',
+    ]);
+
+    // Submitted later, straight through the backend
+    const prUrls = await createVcsBackend('git-spice').submitStack(testDir);
+
+    expect(gsCalls()).toEqual(
+      expect.arrayContaining([
+        `branch track chopstack/setup --base ${trunk}`,
+        'branch track chopstack/ui --base chopstack/setup',
+        'branch submit --branch chopstack/setup --title Setup Phase --fill --draft',
+        'branch submit --branch chopstack/ui --title UI Phase --fill --draft',
+        'stack submit --draft',
+      ]),
+    );
+    expect(prUrls).toHaveLength(2);
+  });
+
+  it('should drop the title together with its branch', async () => {
+    const git = getGit();
+    const testDir = getTmpDir();
+
+    await git.branch(['chopstack/setup']);
+    await new GitWrapper(testDir).setBranchTitle('chopstack/setup', 'Setup Phase');
+    await git.deleteLocalBranch('chopstack/setup', true);
+
+    await createVcsBackend('git-spice').submitStack(testDir);
+
+    expect(gsCalls()).toEqual(['stack submit --draft']);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatStackTree } from '../stack-tree';
+
+describe('formatStackTree', () => {
+  it('should render a linear stack as a single chain', () => {
+    expect(
+      formatStackTree('main', [
+        { name: 'chopstack/a', parent: 'main' },
+        { name: 'chopstack/b', parent: 'chopstack/a' },
+      ]),
+    ).toEqual(['main', '└── chopstack/a', '    └── chopstack/b']);
+  });
+
+  it('should render sibling branches under their shared parent', () => {
+    expect(
+      formatStackTree('main', [
+        { name: 'chopstack/types', parent: 'main' },
+        { name: 'chopstack/provider', parent: 'chopstack/types' },
+        { name: 'chopstack/toggle', parent: 'chopstack/types' },
+        { name: 'chopstack/docs', parent: 'main' },
+      ]),
+    ).toEqual([
+      'main',
+      '├── chopstack/types',
+      '│   ├── chopstack/provider',
+      '│   └── chopstack/toggle',
+      '└── chopstack/docs',
+    ]);
+  });
+
+  it('should place branches with unknown parents under the root', () => {
+    expect(formatStackTree('main', [{ name: 'chopstack/a', parent: 'origin/main' }])).toEqual([
+      'main',
+      '└── chopstack/a',
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+import type { SimpleGit } from 'simple-git';
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import { setupGitTest } from '@test/helpers';
+import simpleGit from 'simple-git';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ExecutionContext } from '@/core/execution/interfaces';
+import type { ConflictInfo } from '@/core/vcs/domain-services';
+import type { AgentConflictResolver } from '@/services/vcs/agent-conflict-resolver';
+import type { TaskV2 } from '@/types/schemas-v2';
+
+import { TaskTransitionManager } from '@/core/execution/task-transitions';
+import { ExecuteModeHandlerImpl } from '@/services/execution/modes/execute-mode-handler';
+import { MockTaskExecutionAdapter } from '@/services/orchestration/adapters/mock-task-execution-adapter';
+import { TaskOrchestrator } from '@/services/orchestration/task-orchestrator';
+import { ConflictResolutionServiceImpl } from '@/services/vcs/conflict-resolution-service';
+import { StackBuildServiceImpl } from '@/services/vcs/stack-build-service';
+import { VcsStrategyFactory } from '@/services/vcs/strategies/vcs-strategy-factory';
+import { VcsEngineServiceImpl } from '@/services/vcs/vcs-engine-service';
+
+// Commit messages come from an agent; everything else runs against a real repository
+vi.mock('commitment', () => ({
+  CommitMessageGenerator: vi.fn().mockImplementation(() => ({
+    generateCommitMessage: vi.fn().mockResolvedValue('Complete task'),
+  })),
+}));
+
+const MERGED_CONTENT = 'export const first = true;\nexport const second = true;\n';
+
+describe('Stacking conflicts during a run', () => {
+  let git: SimpleGit;
+  let testDir: string;
+  let executeModeHandler: ExecuteModeHandlerImpl;
+  let resolvedConflicts: ConflictInfo[];
+
+  const { getGit, getTmpDir } = setupGitTest('stacking-conflicts');
+
+  // Independent tasks that both create the same file
+  const tasks: TaskV2[] = [
+    {
+      id: 'first',
+      name: 'First Export',
+      complexity: 'S',
+      description: 'Add the first export to the shared module',
+      files: ['shared.ts'],
+      acceptanceCriteria: [],
+      dependencies: [],
+    },
+    {
+      id: 'second',
+      name: 'Second Export',
+      complexity: 'S',
+      description: 'Add the second export to the shared module',
+      files: ['shared.ts'],
+      acceptanceCriteria: [],
+      dependencies: [],
+    },
+  ];
+
+  beforeEach(async () => {
+    git = getGit();
+    testDir = getTmpDir();
+    await git.raw(['branch', '-M', 'main']);
+    resolvedConflicts = [];
+
+    const mockAdapter = new MockTaskExecutionAdapter();
+    vi.spyOn(mockAdapter, 'executeTask').mockImplementation(async (request) => {
+      const workdir = request.workdir ?? testDir;
+      await Promise.resolve();
+      fs.writeFileSync(path.join(workdir, 'shared.ts'), `export const ${request.taskId} = true;\n`);
+      return {
+        taskId: request.taskId,
+        status: 'completed' as const,
+        output: `Successfully executed ${request.taskId}`,
+        mode: request.mode,
+      };
+    });
+
+    // Stands in for the agent: merges both sides and stages the result
+    const agentResolver = {
+      resolve: vi.fn(async (conflictInfo: ConflictInfo, workdir: string) => {
+        resolvedConflicts.push(conflictInfo);
+        fs.writeFileSync(path.join(workdir, 'shared.ts'), MERGED_CONTENT);
+        await simpleGit(workdir).add('shared.ts');
+        return true;
+      }),
+    } as unknown as AgentConflictResolver;
+    const conflictResolutionService = new ConflictResolutionServiceImpl({ agentResolver });
+
+    const vcsEngine = new VcsEngineServiceImpl(
+      {
+        branchPrefix: 'chopstack/',
+        cleanupOnSuccess: true,
+        cleanupOnFailure: true,
+        conflictStrategy: 'agent',
+        shadowPath: '.chopstack/shadows',
+        stackSubmission: { enabled: false, autoMerge: false, draft: false },
+      },
+      {
+        conflictResolutionService,
+        stackBuildService: new StackBuildServiceImpl(
+          {
+            branchPrefix: 'chopstack/',
+            conflictStrategy: 'agent',
+            parentRef: 'main',
+            stackSubmissionEnabled: false,
+          },
+          { conflictResolutionService },
+        ),
+      },
+    );
+
+    executeModeHandler = new ExecuteModeHandlerImpl(
+      new TaskOrchestrator(mockAdapter),
+      new VcsStrategyFactory(vcsEngine),
+      new TaskTransitionManager(),
+    );
+  });
+
+  it('should resolve conflicting task commits while folding them into the plan branch', async () => {
+    const context: ExecutionContext = {
+      agentType: 'mock',
+      branchGranularity: 'plan',
+      continueOnError: false,
+      cwd: testDir,
+      dryRun: false,
+      maxRetries: 0,
+      parentRef: 'main',
+      planName: 'Shared Module',
+      vcsMode: 'worktree',
+      verbose: false,
+      verify: ['git status --short'],
+    };
+
+    const result = await executeModeHandler.handle(tasks, context);
+
+    expect(result.tasks.map((task) => task.status)).toEqual(['success', 'success']);
+    expect(result.branches).toEqual(['chopstack/shared-module']);
+
+    expect(resolvedConflicts).toHaveLength(1);
+    expect(resolvedConflicts[0]).toMatchObject({
+      conflictedFiles: ['shared.ts'],
+      resolution: 'agent',
+      verify: ['git status --short'],
+    });
+
+    // One commit per task, the second one carrying the resolution
+    const log = await git.raw(['log', '--format=%s', 'main..chopstack/shared-module']);
+    expect(log.trim().split('\n')).toHaveLength(2);
+    expect(await git.show(['chopstack/shared-module:shared.ts'])).toBe(MERGED_CONTENT);
+  });
+});
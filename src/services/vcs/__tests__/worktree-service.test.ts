@@ -12,19 +12,26 @@ vi.mock('node:fs/promises', () => ({
   mkdir: mkdirMock,
 }));
 
-const { branchExistsMock, createWorktreeMock, gitWrapperMock } = vi.hoisted(() => {
-  const branchExists = vi.fn();
-  const createWorktree = vi.fn();
-  const GitWrapper = vi.fn().mockImplementation(() => ({
-    branchExists,
-    createWorktree,
-  }));
-  return {
-    branchExistsMock: branchExists,
-    createWorktreeMock: createWorktree,
-    gitWrapperMock: GitWrapper,
-  };
-});
+const { branchExistsMock, createWorktreeMock, gitWrapperMock, rawMock, removeWorktreeMock } =
+  vi.hoisted(() => {
+    const branchExists = vi.fn();
+    const createWorktree = vi.fn();
+    const raw = vi.fn();
+    const removeWorktree = vi.fn();
+    const GitWrapper = vi.fn().mockImplementation(() => ({
+      branchExists,
+      createWorktree,
+      raw,
+      removeWorktree,
+    }));
+    return {
+      branchExistsMock: branchExists,
+      createWorktreeMock: createWorktree,
+      gitWrapperMock: GitWrapper,
+      rawMock: raw,
+      removeWorktreeMock: removeWorktree,
+    };
+  });
 
 vi.mock('@/adapters/vcs/git-wrapper', () => ({
   GitWrapper: gitWrapperMock,
@@ -44,6 +51,8 @@ describe('WorktreeServiceImpl', () => {
     mkdirMock.mockClear();
     branchExistsMock.mockReset();
     createWorktreeMock.mockReset();
+    rawMock.mockReset();
+    removeWorktreeMock.mockReset();
     gitWrapperMock.mockClear();
     branchExistsMock.mockResolvedValue(false);
   });
@@ -65,4 +74,28 @@ describe('WorktreeServiceImpl', () => {
       'chopstack/task-123',
     );
   });
+
+  it('deletes the branch of a removed worktree only when asked to', async () => {
+    const service = new WorktreeServiceImpl({
+      branchPrefix: 'chopstack/',
+      cleanupOnFailure: true,
+      cleanupOnSuccess: true,
+      shadowPath: '.chopstack/shadows',
+    });
+    await service.createWorktree(createOptions());
+    await service.createWorktree(
+      createOptions({
+        taskId: 'task-456',
+        branchName: 'chopstack/task-456',
+        worktreePath: '.chopstack/shadows/task-456',
+      }),
+    );
+
+    await service.removeWorktree('task-123');
+    await service.removeWorktree('task-456', { deleteBranches: true });
+
+    expect(removeWorktreeMock).toHaveBeenCalledWith('/repo/.chopstack/shadows/task-123');
+    expect(rawMock).toHaveBeenCalledTimes(1);
+    expect(rawMock).toHaveBeenCalledWith(['branch', '-D', 'chopstack/task-456']);
+  });
 });
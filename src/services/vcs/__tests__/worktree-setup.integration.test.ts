@@ -0,0 +1,228 @@
+import { existsSync, lstatSync, readFileSync, statSync } from 'node:fs';
+import { mkdir, mkdtemp, readdir, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { setupGitTest } from '@test/helpers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { WORKTREE_SETUP_CACHE_PATH, WorktreeBootstrapper } from '../worktree-setup';
+
+vi.mock('@/utils/global-logger', () => ({
+  logger: {
+    warn: vi.fn(),
+    info: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('WorktreeBootstrapper', () => {
+  let repositoryPath: string;
+  let worktrees: string;
+  let installCommand: string;
+
+  // Each run of the setup command leaves a line in runs.log
+  const readRuns = (): string[] => {
+    const log = path.join(repositoryPath, 'runs.log');
+    return existsSync(log) ? readFileSync(log, 'utf8').trim().split('\n') : [];
+  };
+
+  const createWorktree = async (name: string): Promise<string> => {
+    const worktreePath = path.join(worktrees, name);
+    await mkdir(worktreePath, { recursive: true });
+    return worktreePath;
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    repositoryPath = await mkdtemp(path.join(tmpdir(), 'chopstack-setup-'));
+    worktrees = path.join(repositoryPath, '.chopstack', 'shadows');
+    await writeFile(path.join(repositoryPath, '.env.local'), 'API_KEY=local');
+    await mkdir(path.join(repositoryPath, 'node_modules', 'left-pad'), { recursive: true });
+    await writeFile(path.join(repositoryPath, 'node_modules', 'left-pad', 'index.js'), '');
+
+    // Stands in for a package manager install into the worktree it runs in
+    installCommand = `mkdir -p node_modules/installed && pwd >> "${path.join(repositoryPath, 'runs.log')}"`;
+  });
+
+  afterEach(async () => {
+    await rm(repositoryPath, { recursive: true, force: true });
+  });
+
+  it('should copy and link files from the main checkout and time each step', async () => {
+    const bootstrapper = new WorktreeBootstrapper({
+      copy: ['.env.local', 'missing.txt'],
+      link: ['node_modules'],
+    });
+    const worktreePath = await createWorktree('task-a');
+
+    const steps = await bootstrapper.bootstrap({
+      baseCommit: 'abc123',
+      repositoryPath,
+      worktreePath,
+    });
+
+    expect(readFileSync(path.join(worktreePath, '.env.local'), 'utf8')).toBe('API_KEY=local');
+    expect(lstatSync(path.join(worktreePath, 'node_modules')).isSymbolicLink()).toBe(true);
+    expect(steps.map((step) => step.name)).toEqual([
+      'copy .env.local',
+      'copy missing.txt',
+      'link node_modules',
+    ]);
+    expect(steps.every((step) => step.durationMs >= 0)).toBe(true);
+  });
+
+  it('should hard-link files when configured', async () => {
+    const bootstrapper = new WorktreeBootstrapper({ link: ['node_modules'], linkMode: 'hardlink' });
+    const worktreePath = await createWorktree('task-a');
+
+    await bootstrapper.bootstrap({ baseCommit: 'abc123', repositoryPath, worktreePath });
+
+    const linked = path.join(worktreePath, 'node_modules', 'left-pad', 'index.js');
+    expect(lstatSync(path.join(worktreePath, 'node_modules')).isDirectory()).toBe(true);
+    expect(statSync(linked).ino).toBe(
+      statSync(path.join(repositoryPath, 'node_modules', 'left-pad', 'index.js')).ino,
+    );
+  });
+
+  it('should run the setup command once per base commit when its output is cached', async () => {
+    const bootstrapper = new WorktreeBootstrapper({
+      command: installCommand,
+      cache: ['node_modules'],
+    });
+    const [first, second, other] = await Promise.all([
+      createWorktree('task-a'),
+      createWorktree('task-b'),
+      createWorktree('task-c'),
+    ]);
+
+    const [firstSteps, secondSteps] = await Promise.all([
+      bootstrapper.bootstrap({ baseCommit: 'abc123', repositoryPath, worktreePath: first }),
+      bootstrapper.bootstrap({ baseCommit: 'abc123', repositoryPath, worktreePath: second }),
+    ]);
+    await bootstrapper.bootstrap({ baseCommit: 'def456', repositoryPath, worktreePath: other });
+
+    expect(readRuns()).toHaveLength(2);
+    expect(firstSteps).toEqual([{ name: `run ${installCommand}`, durationMs: expect.any(Number) }]);
+    expect(secondSteps[0]).toMatchObject({ cached: true });
+    for (const worktreePath of [first, second]) {
+      expect(lstatSync(path.join(worktreePath, 'node_modules')).isSymbolicLink()).toBe(true);
+      expect(existsSync(path.join(worktreePath, 'node_modules', 'installed'))).toBe(true);
+    }
+    expect(
+      existsSync(path.join(repositoryPath, WORKTREE_SETUP_CACHE_PATH, 'abc123', '.complete')),
+    ).toBe(true);
+  });
+
+  it('should reuse a cache left by an earlier run', async () => {
+    const setup = { command: installCommand, cache: ['node_modules'] };
+    await new WorktreeBootstrapper(setup).bootstrap({
+      baseCommit: 'abc123',
+      repositoryPath,
+      worktreePath: await createWorktree('task-a'),
+    });
+
+    const steps = await new WorktreeBootstrapper(setup).bootstrap({
+      baseCommit: 'abc123',
+      repositoryPath,
+      worktreePath: await createWorktree('task-b'),
+    });
+
+    expect(readRuns()).toHaveLength(1);
+    expect(steps[0]).toMatchObject({ cached: true });
+  });
+
+  it('should share the cache between base commits with the same lockfiles', async () => {
+    const bootstrapper = new WorktreeBootstrapper({
+      command: installCommand,
+      cache: ['node_modules'],
+    });
+    const createLockedWorktree = async (name: string, lockfile: string): Promise<string> => {
+      const worktreePath = await createWorktree(name);
+      await writeFile(path.join(worktreePath, 'pnpm-lock.yaml'), lockfile);
+      return worktreePath;
+    };
+
+    await bootstrapper.bootstrap({
+      baseCommit: 'abc123',
+      repositoryPath,
+      worktreePath: await createLockedWorktree('task-a', 'left-pad: 1.0.0'),
+    });
+    const sameSteps = await bootstrapper.bootstrap({
+      baseCommit: 'def456',
+      repositoryPath,
+      worktreePath: await createLockedWorktree('task-b', 'left-pad: 1.0.0'),
+    });
+    const changedSteps = await bootstrapper.bootstrap({
+      baseCommit: 'def456',
+      repositoryPath,
+      worktreePath: await createLockedWorktree('task-c', 'left-pad: 1.1.0'),
+    });
+
+    expect(sameSteps[0]).toMatchObject({ cached: true });
+    expect(changedSteps[0]).not.toHaveProperty('cached');
+    expect(readRuns()).toHaveLength(2);
+  });
+
+  it('should evict the least recently used cache entries', async () => {
+    const setup = { command: installCommand, cache: ['node_modules'] };
+    const cacheRoot = path.join(repositoryPath, WORKTREE_SETUP_CACHE_PATH);
+
+    for (const baseCommit of ['abc123', 'def456']) {
+      await new WorktreeBootstrapper(setup, { maxCacheEntries: 2 }).bootstrap({
+        baseCommit,
+        repositoryPath,
+        worktreePath: await createWorktree(`task-${baseCommit}`),
+      });
+    }
+    // abc123 was used more recently than def456
+    await utimes(path.join(cacheRoot, 'def456', '.complete'), new Date(0), new Date(0));
+    await new WorktreeBootstrapper(setup, { maxCacheEntries: 2 }).bootstrap({
+      baseCommit: 'fed789',
+      repositoryPath,
+      worktreePath: await createWorktree('task-fed789'),
+    });
+
+    expect((await readdir(cacheRoot)).sort()).toEqual(['abc123', 'fed789']);
+  });
+
+  it('should fail with the command output when the setup command fails', async () => {
+    const bootstrapper = new WorktreeBootstrapper({ command: 'echo ERR_PNPM_OFFLINE >&2; exit 1' });
+
+    await expect(
+      bootstrapper.bootstrap({
+        baseCommit: 'abc123',
+        repositoryPath,
+        worktreePath: await createWorktree('task-a'),
+      }),
+    ).rejects.toThrow(
+      'Worktree setup command "echo ERR_PNPM_OFFLINE >&2; exit 1" exited with code 1:\nERR_PNPM_OFFLINE',
+    );
+  });
+
+  describe('in a git worktree', () => {
+    const { getGit, getTmpDir } = setupGitTest('worktree-setup');
+
+    it('should keep linked and cached paths out of git status', async () => {
+      const git = getGit();
+      const mainPath = getTmpDir();
+      await writeFile(path.join(mainPath, '.gitignore'), 'node_modules/\n.venv/\n');
+      await git.add('.gitignore');
+      await git.commit('Ignore dependencies');
+      await mkdir(path.join(mainPath, 'node_modules', 'left-pad'), { recursive: true });
+      const worktreePath = path.join(mainPath, '.chopstack', 'shadows', 'task-a');
+      await git.raw(['worktree', 'add', '-b', 'task-a', worktreePath]);
+
+      await new WorktreeBootstrapper({
+        link: ['node_modules'],
+        command: 'mkdir -p .venv/bin',
+        cache: ['.venv'],
+      }).bootstrap({ baseCommit: 'abc123', repositoryPath: mainPath, worktreePath });
+
+      expect(lstatSync(path.join(worktreePath, 'node_modules')).isSymbolicLink()).toBe(true);
+      expect(lstatSync(path.join(worktreePath, '.venv')).isSymbolicLink()).toBe(true);
+      expect(await git.cwd(worktreePath).raw(['status', '--porcelain'])).toBe('');
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import type { DecomposerAgent } from '@/core/agents/interfaces';
+import type { ConflictInfo, ConflictTask } from '@/core/vcs/domain-services';
+import type { TaskVerificationService } from '@/services/execution/task-verification-service';
+
+import { GitWrapper } from '@/adapters/vcs/git-wrapper';
+import { TaskVerificationServiceImpl } from '@/services/execution/task-verification-service';
+import { logger } from '@/utils/global-logger';
+
+/**
+ * Matches a conflict marker line left by git (`<<<<<<<`, `|||||||`, `=======`, `>>>>>>>`)
+ */
+const CONFLICT_MARKER_PATTERN = /^(?:<{7}|\|{7}|={7}|>{7})(?: |$)/m;
+
+export type AgentConflictResolverDependencies = {
+  /** Create the agent that writes merged files (created lazily, on the first conflict) */
+  createAgent: () => Promise<DecomposerAgent>;
+  verificationService?: TaskVerificationService;
+};
+
+export type ConflictPromptInput = {
+  baseContent: string;
+  conflictedContent: string;
+  currentTask?: ConflictTask;
+  file: string;
+  incomingTask?: ConflictTask;
+};
+
+/**
+ * Whether the content still contains git conflict markers
+ */
+export function hasConflictMarkers(content: string): boolean {
+  return CONFLICT_MARKER_PATTERN.test(content);
+}
+
+/**
+ * Take the merged file from the agent's response: the last fenced code block
+ */
+export function extractMergedFile(response: string): string | null {
+  const blocks = [...response.matchAll(/```[^\n]*\n([\S\s]*?)```/g)];
+  return blocks.at(-1)?.[1] ?? null;
+}
+
+const describeTask = (label: string, task: ConflictTask | undefined): string =>
+  task === undefined
+    ? `### ${label}\n(unknown)`
+    : `### ${label}: ${task.name} (${task.id})\n${task.description}`;
+
+/**
+ * Prompt asking the agent to merge one conflicted file so both tasks' intent survives
+ */
+export function buildConflictPrompt(input: ConflictPromptInput): string {
+  const { baseContent, conflictedContent, currentTask, file, incomingTask } = input;
+
+  return [
+    `Two independent tasks changed \`${file}\` and their changes conflict.`,
+    'Produce the merged file so that the work of BOTH tasks is kept.',
+    '',
+    '## Tasks',
+    describeTask('Already on the branch (ours)', currentTask),
+    '',
+    describeTask('Being applied (theirs)', incomingTask),
+    '',
+    '## Base version (before either task)',
+    '```',
+    baseContent,
+    '```',
+    '',
+    '## Conflicted file with markers',
+    '```',
+    conflictedContent,
+    '```',
+    '',
+    '## Instructions',
+    '- Reply with the complete merged file in a single fenced code block and nothing else',
+    '- Do not leave any conflict markers (<<<<<<<, =======, >>>>>>>) in the file',
+  ].join('\n');
+}
+
+/**
+ * Resolves cherry-pick conflicts by asking an agent to merge each conflicted file.
+ *
+ * A resolution is only accepted when every file comes back without conflict
+ * markers and the conflict's verify commands pass in the working directory.
+ */
+export class AgentConflictResolver {
+  private readonly createAgent: () => Promise<DecomposerAgent>;
+  private readonly verificationService: TaskVerificationService;
+
+  constructor(dependencies: AgentConflictResolverDependencies) {
+    this.createAgent = dependencies.createAgent;
+    this.verificationService =
+      dependencies.verificationService ?? new TaskVerificationServiceImpl();
+  }
+
+  async resolve(conflictInfo: ConflictInfo, workdir: string): Promise<boolean> {
+    const { conflictedFiles, currentTask, incomingTask, verify = [] } = conflictInfo;
+    const agent = await this.createAgent();
+    if (agent.query === undefined) {
+      logger.warn(
+        '⚠️ The configured agent cannot answer queries; conflicts need manual resolution',
+      );
+      return false;
+    }
+
+    const git = new GitWrapper(workdir);
+    for (const file of conflictedFiles) {
+      const filePath = join(workdir, file);
+      const conflictedContent = await readFile(filePath, 'utf8');
+      const baseContent = await this._readBaseVersion(git, file);
+
+      logger.info(`🤖 Asking the agent to merge ${file}`);
+      const response = await agent.query(
+        buildConflictPrompt({
+          file,
+          conflictedContent,
+          baseContent,
+          ...(currentTask !== undefined && { currentTask }),
+          ...(incomingTask !== undefined && { incomingTask }),
+        }),
+        workdir,
+      );
+
+      const merged = extractMergedFile(response);
+      if (merged === null) {
+        logger.warn(`⚠️ Agent did not return a merged version of ${file}`);
+        return false;
+      }
+      if (hasConflictMarkers(merged)) {
+        logger.warn(`⚠️ Agent left conflict markers in ${file}`);
+        return false;
+      }
+
+      await writeFile(filePath, merged, 'utf8');
+      await git.add([file]);
+      logger.info(`✅ Agent merged ${file}`);
+    }
+
+    if (verify.length > 0) {
+      const results = await this.verificationService.verify(verify, workdir, 1);
+      const failed = results.find((result) => !result.passed);
+      if (failed !== undefined) {
+        logger.warn(`⚠️ Merged files failed verification: ${failed.command}`);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Common ancestor version of the file (index stage 1); empty when both sides added it
+   */
+  private async _readBaseVersion(git: GitWrapper, file: string): Promise<string> {
+    try {
+      return await git.raw(['show', `:1:${file}`]);
+    } catch {
+      return '';
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { match } from 'ts-pattern';
+
+import type { BranchGranularity } from '@/core/execution/types';
+import type { BranchGroup } from '@/core/vcs/domain-services';
+import type { TaskCommitResult } from '@/core/vcs/vcs-strategy';
+import type { Phase } from '@/types/schemas-v2';
+
+import { isNonEmptyString } from '@/validation/guards';
+
+export type BranchGroupOptions = {
+  branchPrefix: string;
+  granularity: BranchGranularity;
+  phases?: Phase[];
+  planName?: string;
+};
+
+/**
+ * Kebab-case a plan name for use in a branch name
+ */
+function toBranchSlug(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replaceAll(/[^\da-z]+/g, '-')
+    .replaceAll(/^-+|-+$/g, '');
+  return slug === '' ? 'plan' : slug;
+}
+
+/**
+ * Group committed task results into the branches a run should produce.
+ *
+ * Commits keep the order of `results` within each group. Phase groups follow the
+ * plan's phase order and are named after `Phase.id`; plans without phases fall
+ * back to a single plan-wide branch. Tasks without a commit are left out.
+ */
+export function groupTaskCommits(
+  results: TaskCommitResult[],
+  options: BranchGroupOptions,
+): BranchGroup[] {
+  const { branchPrefix, granularity, phases = [], planName = 'plan' } = options;
+  const commits = results
+    .filter((result): result is TaskCommitResult & { commitHash: string } =>
+      isNonEmptyString(result.commitHash),
+    )
+    .map(({ commitHash, taskId }) => ({ commitHash, taskId }));
+
+  const planGroup = (): BranchGroup[] => {
+    const id = toBranchSlug(planName);
+    return [{ id, branchName: `${branchPrefix}${id}`, title: planName, commits }];
+  };
+
+  return match(granularity)
+    .with('task', () =>
+      commits.map((commit) => ({
+        id: commit.taskId,
+        branchName: `${branchPrefix}${commit.taskId}`,
+        title: commit.taskId,
+        commits: [commit],
+      })),
+    )
+    .with('plan', planGroup)
+    .with('phase', () => {
+      if (phases.length === 0) {
+        return planGroup();
+      }
+
+      const groups = phases.map((phase) => ({
+        id: phase.id,
+        branchName: `${branchPrefix}${phase.id}`,
+        title: phase.name,
+        commits: commits.filter((commit) => phase.tasks.includes(commit.taskId)),
+      }));
+
+      // Plan validation puts every task in a phase, but keep stray commits rather than drop them
+      const unphased = commits.filter(
+        (commit) => !phases.some((phase) => phase.tasks.includes(commit.taskId)),
+      );
+      if (unphased.length > 0) {
+        groups.push({
+          id: 'unphased',
+          branchName: `${branchPrefix}unphased`,
+          title: `${planName} (unphased tasks)`,
+          commits: unphased,
+        });
+      }
+
+      return groups.filter((group) => group.commits.length > 0);
+    })
+    .exhaustive();
+}
@@ -3,15 +3,26 @@ import type {
   ConflictResolutionService,
   ConflictResolutionStrategy,
 } from '@/core/vcs/domain-services';
+import type { AgentConflictResolver } from '@/services/vcs/agent-conflict-resolver';
 
 import { GitWrapper } from '@/adapters/vcs/git-wrapper';
 import { logger } from '@/utils/global-logger';
 
+export type ConflictResolutionServiceDependencies = {
+  agentResolver?: AgentConflictResolver;
+};
+
 /**
  * Implementation of ConflictResolutionService domain interface
  * Handles detection and resolution of merge conflicts during stack building
  */
 export class ConflictResolutionServiceImpl implements ConflictResolutionService {
+  private readonly agentResolver: AgentConflictResolver | undefined;
+
+  constructor(dependencies: ConflictResolutionServiceDependencies = {}) {
+    this.agentResolver = dependencies.agentResolver;
+  }
+
   async detectConflicts(
     sourceBranch: string,
     targetBranch: string,
@@ -80,6 +91,15 @@ export class ConflictResolutionServiceImpl implements ConflictResolutionService
       case 'auto': {
         return this._autoResolveConflicts(git, conflictedFiles);
       }
+      case 'agent': {
+        if (this.agentResolver === undefined) {
+          logger.warn(
+            `⚠️ No agent configured for conflict resolution; resolve manually: ${conflictedFiles.join(', ')}`,
+          );
+          return false;
+        }
+        return this.agentResolver.resolve(conflictInfo, workdir);
+      }
       case 'manual': {
         // Manual resolution requires human intervention
         logger.warn(
@@ -100,7 +120,7 @@ export class ConflictResolutionServiceImpl implements ConflictResolutionService
   }
 
   getAvailableStrategies(): ConflictResolutionStrategy[] {
-    return ['auto', 'manual', 'fail'];
+    return ['auto', 'agent', 'manual', 'fail'];
   }
 
   private async _autoResolveConflicts(
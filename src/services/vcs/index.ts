@@ -3,10 +3,14 @@
  * These services implement the domain interfaces and coordinate with adapters
  */
 
+export { AgentConflictResolver } from './agent-conflict-resolver';
+export type { AgentConflictResolverDependencies } from './agent-conflict-resolver';
+
 export { CommitServiceImpl } from './commit-service';
 export type { CommitServiceConfig } from './commit-service';
 
 export { ConflictResolutionServiceImpl } from './conflict-resolution-service';
+export type { ConflictResolutionServiceDependencies } from './conflict-resolution-service';
 export { RepositoryServiceImpl } from './repository-service';
 
 export { StackBuildServiceImpl } from './stack-build-service';
@@ -23,3 +27,5 @@ export type { VcsEngineConfig, WorktreeExecutionContext } from './vcs-engine-ser
 // Domain services
 export { WorktreeServiceImpl } from './worktree-service';
 export type { WorktreeServiceConfig, WorktreeEvent } from './worktree-service';
+export { WORKTREE_SETUP_CACHE_PATH, WorktreeBootstrapper } from './worktree-setup';
+export type { WorktreeBootstrapOptions, WorktreeBootstrapperConfig } from './worktree-setup';
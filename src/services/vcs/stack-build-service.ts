@@ -1,19 +1,24 @@
 import { EventEmitter } from 'node:events';
+import { join } from 'node:path';
 import { setTimeout as delay } from 'node:timers/promises';
 
 import { execa } from 'execa';
 
 import type { ExecutionTask } from '@/core/execution/types';
 import type {
+  BranchGroup,
   CommitOptions,
   ConflictInfo,
   ConflictResolutionService,
   ConflictResolutionStrategy,
+  ConflictTask,
   StackBuildService,
   StackBuildStrategy,
+  StackConflictContext,
   StackInfo,
   WorktreeContext,
 } from '@/core/vcs/domain-services';
+import type { VcsBackend } from '@/core/vcs/interfaces';
 
 import { GitSpiceBackend } from '@/adapters/vcs/git-spice/backend';
 import {
@@ -50,6 +55,7 @@ export type StackBuildServiceConfig = {
 
 export type StackBuildServiceDependencies = {
   conflictResolutionService?: ConflictResolutionService;
+  vcsBackend?: VcsBackend;
 };
 
 type StackSubmissionOptions = {
@@ -64,6 +70,9 @@ type BranchCreationResult = {
   success: boolean;
 };
 
+// A stacked task as described to conflict resolvers
+type StackedTask = ConflictTask & { verify?: string[] | undefined };
+
 type CherryPickResult = {
   reason?: string;
   success: boolean;
@@ -78,22 +87,24 @@ type StackState = {
 
 /**
  * Implementation of StackBuildService domain interface
- * Handles git-spice stack creation and management
+ * Handles stack creation and management through the configured VCS backend (git-spice or Graphite)
  */
 export class StackBuildServiceImpl extends EventEmitter implements StackBuildService {
-  private readonly gitSpice: GitSpiceBackend;
+  private readonly vcsBackend: VcsBackend;
   private readonly config: StackBuildServiceConfig;
   private readonly conflictResolutionService: ConflictResolutionService | undefined;
   private readonly conflictStrategy: ConflictResolutionStrategy;
   private readonly stackSubmissionOptions: StackSubmissionOptions;
   private _stackState: StackState | null = null;
+  // Task behind each branch built this run, giving conflict resolvers both sides' intent
+  private readonly branchTasks: Map<string, ExecutionTask> = new Map();
   private readonly maxRetries: number;
   private readonly retryDelayMs: number;
 
   constructor(config: StackBuildServiceConfig, dependencies: StackBuildServiceDependencies = {}) {
     super();
     this.config = config;
-    this.gitSpice = new GitSpiceBackend();
+    this.vcsBackend = dependencies.vcsBackend ?? new GitSpiceBackend();
     this.conflictResolutionService = dependencies.conflictResolutionService;
     this.conflictStrategy = config.conflictStrategy ?? 'auto';
     this.stackSubmissionOptions = config.stackSubmission ?? {};
@@ -310,6 +321,7 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
     options: {
       parentRef: string;
       strategy: StackBuildStrategy;
+      verify?: string[];
     },
   ): Promise<StackInfo> {
     logger.info(
@@ -334,7 +346,12 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
     }
 
     // Build stack incrementally using git-spice
-    const stackInfo = await this._buildStackIncremental(orderedTasks, workdir, options.parentRef);
+    const stackInfo = await this._buildStackIncremental(
+      orderedTasks,
+      workdir,
+      options.parentRef,
+      options.verify,
+    );
 
     // After all branches are tracked, run upstack restack to properly stack them
     if (stackInfo.branches.length > 0) {
@@ -362,15 +379,119 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
     return stackInfo;
   }
 
+  async buildGroupedStack(
+    groups: BranchGroup[],
+    workdir: string,
+    options: StackConflictContext & { parentRef: string; track: boolean },
+  ): Promise<StackInfo> {
+    logger.info(`🏗️ Folding task commits into ${groups.length} branches...`);
+
+    const git = new GitWrapper(workdir);
+    const branches: StackInfo['branches'] = [];
+    const failedTasks: Array<{ reason: string; taskId: string }> = [];
+    const tasks = new Map((options.tasks ?? []).map((task) => [task.id, task]));
+    let parentBranch = options.parentRef;
+    // Task of the last applied commit, the current side of the next conflict
+    let previousTask: StackedTask | undefined;
+
+    for (const { branchName: desiredBranchName, commits, id, title } of groups) {
+      if (commits.length === 0) {
+        continue;
+      }
+
+      let branchName = desiredBranchName;
+      if (await git.branchExists(branchName)) {
+        branchName = `${branchName}-${Date.now().toString(36)}`;
+        logger.warn(`⚠️ Branch ${desiredBranchName} already exists, using ${branchName} instead`);
+      }
+
+      // Fold in a temporary worktree so the user's checkout is left untouched
+      const worktreePath = join(workdir, '.chopstack', 'shadows', `fold-${id}`);
+      await git.createWorktree(worktreePath, parentBranch, branchName);
+      const worktreeGit = new GitWrapper(worktreePath);
+
+      let failure: { reason: string; taskId: string } | undefined;
+      let commitHash = '';
+      try {
+        for (const commit of commits) {
+          const task = tasks.get(commit.taskId) ?? {
+            id: commit.taskId,
+            name: commit.taskId,
+            description: '',
+          };
+          const applyResult = await this._applyCommitWithConflictHandling({
+            branchName,
+            commitHash: commit.commitHash,
+            currentTask: previousTask,
+            git: worktreeGit,
+            task,
+            verify: options.verify,
+            workdir: worktreePath,
+          });
+          if (!applyResult.success) {
+            failure = {
+              taskId: commit.taskId,
+              reason: `Failed to apply ${commit.commitHash.slice(0, 7)} to ${branchName}: ${applyResult.reason ?? 'unknown error'}`,
+            };
+            break;
+          }
+          previousTask = task;
+        }
+        commitHash = (await worktreeGit.getCurrentCommit()).trim();
+      } finally {
+        await git.removeWorktree(worktreePath, true);
+      }
+
+      if (failure !== undefined) {
+        await git.raw(['branch', '-D', branchName]);
+        failedTasks.push(failure);
+        logger.error(`❌ ${failure.reason}`);
+        // Later groups would be stacked on this branch, so stop folding here
+        break;
+      }
+
+      if (options.track) {
+        await this.vcsBackend.trackBranch(branchName, parentBranch, workdir);
+      }
+      // Stored with the branch so whichever command submits the stack titles its PR
+      await git.setBranchTitle(branchName, title);
+      branches.push({
+        branchName,
+        commitHash,
+        parent: parentBranch,
+        taskId: id,
+        title,
+      });
+
+      this.emit('branch_created', {
+        type: 'branch_created',
+        branchName,
+        taskId: id,
+        timestamp: new Date(),
+      } as StackEvent);
+
+      logger.info(`✅ Created branch ${branchName} with ${commits.length} task commits`);
+      parentBranch = branchName;
+    }
+
+    return {
+      branches,
+      parentRef: options.parentRef,
+      strategy: 'dependency-order',
+      totalTasks: groups.reduce((sum, group) => sum + group.commits.length, 0),
+      ...(failedTasks.length > 0 ? { failedTasks } : {}),
+    };
+  }
+
   async submitStack(workdir: string): Promise<string[]> {
     if (!this.config.stackSubmissionEnabled) {
       throw new Error('Stack submission is not enabled');
     }
 
-    logger.info('📤 Submitting git-spice stack for review...');
+    logger.info('📤 Submitting stack for review...');
 
     try {
-      const prUrls = await this.gitSpice.submitStack(workdir, this.stackSubmissionOptions);
+      const prUrls = await this.vcsBackend.submitStack(workdir, this.stackSubmissionOptions);
       logger.info(`✅ Stack submitted successfully: ${prUrls.length} PRs created`);
       return prUrls;
     } catch (error) {
@@ -383,7 +504,7 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
 
   async getStackInfo(workdir: string): Promise<StackInfo | null> {
     try {
-      const gitSpiceInfo = await this.gitSpice.getStackInfo(workdir);
+      const gitSpiceInfo = await this.vcsBackend.getStackInfo(workdir);
       if (gitSpiceInfo === null) {
         return null;
       }
@@ -395,6 +516,7 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
           branchName: branch.name,
           taskId: branch.taskId,
           commitHash: branch.commitHash,
+          ...(branch.parent !== '' && { parent: branch.parent }),
         })),
         parentRef: gitSpiceInfo.stackRoot !== '' ? gitSpiceInfo.stackRoot : this.config.parentRef,
         strategy: 'dependency-order',
@@ -432,6 +554,7 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
     orderedTasks: ExecutionTask[],
     workdir: string,
     parentRef: string,
+    verify?: string[],
   ): Promise<StackInfo> {
     const branches: StackInfo['branches'] = [];
     const failedTasks: Array<{ reason: string; taskId: string }> = [];
@@ -447,7 +570,7 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
 
       try {
         // createBranchFromCommit now returns the actual branch name
-        finalBranchName = await this.gitSpice.createBranchFromCommit(
+        finalBranchName = await this.vcsBackend.createBranchFromCommit(
           desiredBranchName,
           task.commitHash,
           currentParent,
@@ -467,6 +590,7 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
           branchName: desiredBranchName,
           parentBranch: currentParent,
           task,
+          verify,
           workdir,
         });
 
@@ -485,8 +609,10 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
       branches.push({
         branchName: finalBranchName,
         commitHash: task.commitHash,
+        parent: currentParent,
         taskId: task.id,
       });
+      this.branchTasks.set(finalBranchName, task);
 
       this.emit('branch_created', {
         type: 'branch_created',
@@ -512,11 +638,13 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
     branchName,
     parentBranch,
     task,
+    verify,
     workdir,
   }: {
     branchName: string;
     parentBranch: string;
     task: ExecutionTask;
+    verify?: string[] | undefined;
     workdir: string;
   }): Promise<BranchCreationResult> {
     const git = new GitWrapper(workdir);
@@ -549,12 +677,18 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
 
       await git.checkout(finalBranchName);
 
-      const applyResult = await this._applyCommitWithConflictHandling({
-        branchName: finalBranchName,
-        git,
-        task,
-        workdir,
-      });
+      const applyResult: CherryPickResult =
+        task.commitHash === undefined
+          ? { success: true }
+          : await this._applyCommitWithConflictHandling({
+              branchName: finalBranchName,
+              commitHash: task.commitHash,
+              currentTask: this.branchTasks.get(parentBranch),
+              git,
+              task,
+              verify,
+              workdir,
+            });
 
       if (!applyResult.success) {
         await this._cleanupFailedBranch(git, finalBranchName, parentBranch);
@@ -568,6 +702,7 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
         return failureResult;
       }
 
+      this.branchTasks.set(finalBranchName, task);
       return { success: true, branchName: finalBranchName };
     } catch (error) {
       const reason = error instanceof Error ? error.message : String(error);
@@ -580,31 +715,41 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
     }
   }
 
+  /**
+   * Cherry-pick a task's commit onto the branch checked out in `git`, handing
+   * conflicts to the conflict resolution service
+   */
   private async _applyCommitWithConflictHandling({
     branchName,
+    commitHash,
+    currentTask,
     git,
     task,
+    verify,
     workdir,
   }: {
     branchName: string;
+    commitHash: string;
+    /** Task whose commit the branch currently ends with, when known */
+    currentTask: ConflictTask | undefined;
     git: GitWrapper;
-    task: ExecutionTask;
+    task: StackedTask;
+    /** Plan-level verify commands */
+    verify: string[] | undefined;
+    /** Directory of the checkout `git` operates on, where conflicts are resolved */
     workdir: string;
   }): Promise<CherryPickResult> {
-    const { commitHash } = task;
-    if (commitHash === undefined) {
-      return { success: true };
-    }
-
     try {
       await git.cherryPick(commitHash);
       return { success: true };
     } catch (error) {
       const resolutionResult = await this._resolveCherryPickConflict({
         branchName,
+        currentTask,
         error,
         git,
         task,
+        verify,
         workdir,
       });
 
@@ -618,15 +763,19 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
 
   private async _resolveCherryPickConflict({
     branchName,
+    currentTask,
     error,
     git,
     task,
+    verify: planVerify,
     workdir,
   }: {
     branchName: string;
+    currentTask: ConflictTask | undefined;
     error: unknown;
     git: GitWrapper;
-    task: ExecutionTask;
+    task: StackedTask;
+    verify: string[] | undefined;
     workdir: string;
   }): Promise<string | null> {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -651,11 +800,22 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
       timestamp: new Date(),
     } as StackEvent);
 
+    // Plan-level commands first, as when the task itself was verified
+    const verify = [...(planVerify ?? []), ...(task.verify ?? [])];
     const conflictInfo: ConflictInfo = {
       taskId: task.id,
       conflictedFiles,
       resolution: this.conflictStrategy,
       timestamp: new Date(),
+      incomingTask: { id: task.id, name: task.name, description: task.description },
+      ...(currentTask !== undefined && {
+        currentTask: {
+          id: currentTask.id,
+          name: currentTask.name,
+          description: currentTask.description,
+        },
+      }),
+      ...(verify.length > 0 && { verify }),
     };
 
     const resolved = await this.conflictResolutionService.resolveConflicts(conflictInfo, workdir);
@@ -789,7 +949,7 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
   }): Promise<string> {
     try {
       // Use the new createStackBranch method for native git-spice stacking
-      await this.gitSpice.createStackBranch(branchName, parentBranch, workdir);
+      await this.vcsBackend.createStackBranch(branchName, parentBranch, workdir);
       return branchName;
     } catch (error) {
       // Check if branch already exists and generate unique name
@@ -798,7 +958,7 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
         const timestamp = Date.now().toString(36);
         const uniqueBranchName = `${branchName}-${timestamp}`;
         logger.info(`  ⚠️ Branch ${branchName} already exists, trying ${uniqueBranchName}`);
-        await this.gitSpice.createStackBranch(uniqueBranchName, parentBranch, workdir);
+        await this.vcsBackend.createStackBranch(uniqueBranchName, parentBranch, workdir);
         return uniqueBranchName;
       }
       throw error;
@@ -829,7 +989,7 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
       try {
         // First attempt: use git-spice
         if (attempt === 1) {
-          const actualBranchName = await this.gitSpice.createBranchFromCommit(
+          const actualBranchName = await this.vcsBackend.createBranchFromCommit(
             branchName,
             commitHash,
             parentBranch,
@@ -843,7 +1003,7 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
           `🔄 Retrying branch creation for ${branchName} (attempt ${attempt}/${this.maxRetries})...`,
         );
         await this._delay(this.retryDelayMs * attempt); // Exponential backoff
-        const actualBranchName = await this.gitSpice.createBranchFromCommit(
+        const actualBranchName = await this.vcsBackend.createBranchFromCommit(
           branchName,
           commitHash,
           parentBranch,
@@ -922,14 +1082,14 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
     parentBranch: string,
     workdir: string,
   ): Promise<void> {
-    await this.gitSpice.createBranchFromCommit(branchName, commitHash, parentBranch, workdir);
+    await this.vcsBackend.createBranchFromCommit(branchName, commitHash, parentBranch, workdir);
   }
 
   /**
    * Restack branches to ensure proper stacking relationships
    */
   async restack(workdir: string): Promise<void> {
-    await this.gitSpice.restack(workdir);
+    await this.vcsBackend.restack(workdir);
   }
 
   async createStackBranch(
@@ -937,7 +1097,7 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
     parentBranch: string,
     workdir: string,
   ): Promise<void> {
-    await this.gitSpice.createStackBranch(branchName, parentBranch, workdir);
+    await this.vcsBackend.createStackBranch(branchName, parentBranch, workdir);
   }
 
   async commitInStack(
@@ -964,7 +1124,7 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
       commitOptions.files = options.files;
     }
 
-    const commitHash = await this.gitSpice.commitInStack(
+    const commitHash = await this.vcsBackend.commitInStack(
       message,
       context.absolutePath,
       commitOptions,
@@ -978,7 +1138,7 @@ export class StackBuildServiceImpl extends EventEmitter implements StackBuildSer
    * Used to integrate branches created outside of git-spice
    */
   async trackBranch(branchName: string, parentBranch: string, workdir: string): Promise<void> {
-    await this.gitSpice.trackBranch(branchName, parentBranch, workdir);
+    await this.vcsBackend.trackBranch(branchName, parentBranch, workdir);
   }
 
   /**
@@ -0,0 +1,41 @@
+/**
+ * A branch in a stack together with the branch it is based on
+ */
+export type StackTreeBranch = {
+  name: string;
+  parent: string;
+};
+
+/**
+ * Render stack branches as a tree rooted at the trunk, one line per branch.
+ * Branches whose parent is not part of the stack are shown under the root.
+ *
+ * @example
+ * ```
+ * main
+ * ├── chopstack/create-types
+ * │   └── chopstack/theme-provider
+ * └── chopstack/docs
+ * ```
+ */
+export function formatStackTree(root: string, branches: StackTreeBranch[]): string[] {
+  const names = new Set(branches.map((branch) => branch.name));
+  const children = new Map<string, string[]>();
+  for (const branch of branches) {
+    const parent = names.has(branch.parent) ? branch.parent : root;
+    children.set(parent, [...(children.get(parent) ?? []), branch.name]);
+  }
+
+  const lines = [root];
+  const visit = (branch: string, prefix: string): void => {
+    const branchChildren = children.get(branch) ?? [];
+    for (const [index, child] of branchChildren.entries()) {
+      const isLast = index === branchChildren.length - 1;
+      lines.push(`${prefix}${isLast ? '└── ' : '├── '}${child}`);
+      visit(child, `${prefix}${isLast ? '    ' : '│   '}`);
+    }
+  };
+  visit(root, '');
+
+  return lines;
+}
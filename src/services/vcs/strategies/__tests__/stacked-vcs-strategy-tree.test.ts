@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ExecutionTask } from '@/core/execution/types';
+import type { VcsEngineService } from '@/core/vcs/interfaces';
+import type { VcsStrategyContext, WorktreeContext } from '@/core/vcs/vcs-strategy';
+import type { TaskV2 } from '@/types/schemas-v2';
+
+import { StackedVcsStrategy } from '../stacked-vcs-strategy';
+
+const git = vi.hoisted(() => ({
+  status: vi.fn(),
+  createWorktree: vi.fn(),
+  removeWorktree: vi.fn(),
+  raw: vi.fn(),
+}));
+
+vi.mock('@/adapters/vcs/git-wrapper', () => ({
+  GitWrapper: vi.fn().mockImplementation(() => git),
+}));
+
+const createTask = (id: string, dependencies: string[] = []): TaskV2 => ({
+  id,
+  name: id,
+  description: `Implement ${id}`,
+  files: [`src/${id}.ts`],
+  dependencies,
+  complexity: 'S',
+  acceptanceCriteria: [],
+});
+
+const toExecutionTask = (task: TaskV2): ExecutionTask => ({
+  ...task,
+  state: 'pending',
+  stateHistory: [],
+  retryCount: 0,
+  maxRetries: 3,
+});
+
+describe('StackedVcsStrategy - tree-shaped stacks', () => {
+  let strategy: StackedVcsStrategy;
+  let mockVcsEngine: VcsEngineService;
+  const context: VcsStrategyContext = { cwd: '/repo', baseRef: 'main', stackShape: 'tree' };
+
+  const tasks = [
+    createTask('types'),
+    createTask('docs'),
+    createTask('provider', ['types']),
+    createTask('toggle', ['types', 'docs']),
+  ];
+
+  const runTask = async (task: TaskV2): Promise<WorktreeContext> => {
+    const executionTask = toExecutionTask(task);
+    const worktree = await strategy.prepareTaskExecution(task, executionTask, context);
+    await strategy.handleTaskCompletion(task, executionTask, worktree!);
+    return worktree!;
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    git.status.mockResolvedValue({
+      isClean: true,
+      modified: [],
+      added: [],
+      deleted: [],
+      untracked: [],
+    });
+    git.createWorktree.mockResolvedValue(undefined);
+    git.removeWorktree.mockResolvedValue(undefined);
+    git.raw.mockResolvedValue('');
+
+    mockVcsEngine = {
+      initialize: vi.fn().mockResolvedValue(undefined),
+      initializeStackState: vi.fn(),
+      createWorktreesForTasks: vi
+        .fn()
+        .mockImplementation(
+          (worktreeTasks: Array<ExecutionTask & { branchName: string }>, baseRef: string) => [
+            {
+              taskId: worktreeTasks[0]?.id,
+              branchName: worktreeTasks[0]?.branchName,
+              baseRef,
+              worktreePath: `.chopstack/shadows/${worktreeTasks[0]?.id}`,
+              absolutePath: `/repo/.chopstack/shadows/${worktreeTasks[0]?.id}`,
+              created: new Date(),
+            },
+          ],
+        ),
+      commitInStack: vi.fn().mockResolvedValue('abc1234'),
+      trackBranch: vi.fn().mockResolvedValue(undefined),
+      restack: vi.fn().mockResolvedValue(undefined),
+      cleanupWorktrees: vi.fn().mockResolvedValue(undefined),
+    } as unknown as VcsEngineService;
+
+    strategy = new StackedVcsStrategy(mockVcsEngine);
+    await strategy.initialize(tasks, context);
+  });
+
+  it('should base tasks without dependencies on trunk', async () => {
+    const types = await runTask(tasks[0]!);
+    const docs = await runTask(tasks[1]!);
+
+    expect(types.baseRef).toBe('main');
+    expect(docs.baseRef).toBe('main');
+    expect(mockVcsEngine.trackBranch).toHaveBeenCalledWith(docs.branchName, 'main', '/repo');
+  });
+
+  it('should base a task on the tip of its dependency branch', async () => {
+    const types = await runTask(tasks[0]!);
+    await runTask(tasks[1]!);
+    const provider = await runTask(tasks[2]!);
+
+    expect(provider.baseRef).toBe(types.branchName);
+    expect(mockVcsEngine.trackBranch).toHaveBeenCalledWith(
+      provider.branchName,
+      types.branchName,
+      '/repo',
+    );
+  });
+
+  it('should merge several dependency tips into an integration branch', async () => {
+    const types = await runTask(tasks[0]!);
+    const docs = await runTask(tasks[1]!);
+    const toggle = await runTask(tasks[3]!);
+
+    expect(toggle.baseRef).toMatch(/^chopstack\/integrate-toggle-/);
+    expect(git.createWorktree).toHaveBeenCalledWith(
+      '/repo/.chopstack/shadows/integrate-toggle',
+      types.branchName,
+      toggle.baseRef,
+    );
+    expect(git.raw).toHaveBeenCalledWith(['merge', '--no-ff', '--no-edit', docs.branchName]);
+    expect(mockVcsEngine.trackBranch).toHaveBeenCalledWith(
+      toggle.baseRef,
+      types.branchName,
+      '/repo',
+    );
+
+    const { branches } = await strategy.finalize([], context);
+    expect(branches).toEqual([
+      types.branchName,
+      docs.branchName,
+      toggle.baseRef,
+      toggle.branchName,
+    ]);
+  });
+
+  it('should fail the task and drop the integration branch when dependencies conflict', async () => {
+    await runTask(tasks[0]!);
+    await runTask(tasks[1]!);
+    git.raw.mockRejectedValueOnce(new Error('CONFLICT (content): Merge conflict in src/a.ts'));
+
+    await expect(
+      strategy.prepareTaskExecution(tasks[3]!, toExecutionTask(tasks[3]!), context),
+    ).rejects.toThrow(/Cannot integrate dependencies of task toggle/);
+    expect(git.removeWorktree).toHaveBeenCalledWith(
+      '/repo/.chopstack/shadows/integrate-toggle',
+      true,
+    );
+    expect(git.raw).toHaveBeenCalledWith([
+      'branch',
+      '-D',
+      expect.stringMatching(/^chopstack\/integrate-toggle-/),
+    ]);
+  });
+});
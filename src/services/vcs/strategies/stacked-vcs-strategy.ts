@@ -12,18 +12,27 @@
  *
  * Each task gets its own branch that builds on the previous task's branch,
  * creating a clean stack of changes perfect for review.
+ *
+ * With `stackShape: 'tree'` each branch is instead based on the tip of its own
+ * dependency (or trunk), and tasks with several dependencies are based on an
+ * integration branch that merges all of their dependency tips.
  */
 
+import path from 'node:path';
+
 import type { ExecutionTask } from '@/core/execution/types';
 import type { VcsEngineService } from '@/core/vcs/interfaces';
 import type {
   TaskCommitResult,
+  VcsCleanupOptions,
   VcsStrategy,
   VcsStrategyContext,
   WorktreeContext,
 } from '@/core/vcs/vcs-strategy';
 import type { TaskV2 } from '@/types/schemas-v2';
 
+import { groupTaskCommits } from '@/services/vcs/branch-groups';
+import { formatStackTree } from '@/services/vcs/stack-tree';
 import { FileModificationValidator, ViolationReporter } from '@/services/vcs/validation';
 import { logger } from '@/utils/global-logger';
 import { isNonEmptyString, isNonNullish } from '@/validation/guards';
@@ -39,6 +48,15 @@ export class StackedVcsStrategy implements VcsStrategy {
   private readonly completedTasks = new Set<string>();
   private _currentStackTip = '';
 
+  // Branches of tasks restored from a previous run (they carry a different run ID)
+  private readonly restoredBranches: Map<string, string> = new Map();
+
+  // Parent of every branch created by this run, used to report the stack layout
+  private readonly branchParents: Map<string, string> = new Map();
+
+  // Branch each task's worktree was created from (tree-shaped stacks only)
+  private readonly taskBases: Map<string, string> = new Map();
+
   // Unique run ID to prevent branch name collisions
   private readonly RUN_ID: string;
 
@@ -60,10 +78,14 @@ export class StackedVcsStrategy implements VcsStrategy {
     logger.info(`  Working directory: ${context.cwd}`);
     logger.info(`  Base ref: ${context.baseRef ?? 'HEAD'}`);
     logger.info(`  Run ID: ${this.RUN_ID}`);
+    logger.info(`  Stack shape: ${context.stackShape ?? 'linear'}`);
 
     // Clear state from any previous runs
     this.completedTasks.clear();
     this.worktreeContexts.clear();
+    this.restoredBranches.clear();
+    this.branchParents.clear();
+    this.taskBases.clear();
 
     // Store VCS context and tasks for later use
     this._vcsContext = context;
@@ -156,16 +178,19 @@ export class StackedVcsStrategy implements VcsStrategy {
     // Use linear stacking logic: current stack tip, but ensure it's descended from dependencies
     let parentBranch = this._currentStackTip;
 
-    // If task has dependencies, ensure parent is descended from all dependencies
-    if (task.dependencies.length > 0) {
+    if (this._isTreeShaped()) {
+      // Tree stacking: branch from the dependency tip instead of the stack tip
+      parentBranch = await this._resolveTreeParent(task, context.cwd);
+      this.taskBases.set(task.id, parentBranch);
+      logger.info(`  📍 Creating worktree from dependency tip: ${parentBranch}`);
+    } else if (task.dependencies.length > 0) {
+      // If task has dependencies, ensure parent is descended from all dependencies
       // Find the last dependency (in case of multiple dependencies)
       const lastDependency = task.dependencies.at(-1);
 
       if (isNonNullish(lastDependency)) {
         // Check if dependency is in the branch stack (meaning it's been committed)
-        const dependencyBranch = this._branchStack.find((b) =>
-          b.includes(`/${lastDependency}-${this.RUN_ID}`),
-        );
+        const dependencyBranch = this._findDependencyBranch(lastDependency);
 
         if (isNonEmptyString(dependencyBranch)) {
           // Check if current stack tip is already descended from this dependency
@@ -289,6 +314,8 @@ export class StackedVcsStrategy implements VcsStrategy {
             taskId: task.id,
             error: 'File modification validation failed',
             branchName: context.branchName,
+            filesChanged: modifiedFiles,
+            violations: validationResult.violations,
           };
         }
         // PERMISSIVE MODE: Log warning but continue
@@ -336,6 +363,8 @@ export class StackedVcsStrategy implements VcsStrategy {
           taskId: task.id,
           commitHash: '',
           branchName: context.branchName,
+          filesChanged: modifiedFiles,
+          violations: validationResult.violations,
         };
       }
 
@@ -348,22 +377,24 @@ export class StackedVcsStrategy implements VcsStrategy {
       this.completedTasks.add(task.id);
 
       // The branch name was already set in prepareTaskExecution
-      const { branchName } = context;
+      const { baseRef: worktreeBase, branchName } = context;
 
       // Determine parent branch for tracking at COMPLETION time
       // This ensures we get the latest _currentStackTip for linear stacking
       const { dependencies } = task;
       let parentBranch = this._currentStackTip;
 
-      // If task has dependencies, ensure parent is descended from all dependencies
-      if (dependencies.length > 0) {
+      if (this._isTreeShaped()) {
+        // Tree stacking: track against the branch the worktree was created from
+        parentBranch = worktreeBase;
+        logger.info(`  📍 Tracking with dependency tip: ${parentBranch}`);
+      } else if (dependencies.length > 0) {
+        // If task has dependencies, ensure parent is descended from all dependencies
         const lastDependency = dependencies.at(-1);
 
         if (isNonNullish(lastDependency)) {
           // Find the dependency branch
-          const dependencyBranch = this._branchStack.find((b) =>
-            b.includes(`/${lastDependency}-${this.RUN_ID}`),
-          );
+          const dependencyBranch = this._findDependencyBranch(lastDependency);
 
           if (isNonEmptyString(dependencyBranch)) {
             // Check if current stack tip is already descended from this dependency
@@ -396,24 +427,29 @@ export class StackedVcsStrategy implements VcsStrategy {
       // Track the branch with git-spice in the main repo
       // git-spice track will create the branch if it doesn't exist
       const { cwd } = this._vcsContext;
-      try {
-        logger.info(`  🔗 Tracking branch ${branchName} with parent ${parentBranch}`);
-        await this.vcsEngine.trackBranch(branchName, parentBranch, cwd);
-        logger.info(`  ✅ Tracked git-spice branch ${branchName} with parent ${parentBranch}`);
-      } catch (trackError) {
-        // If tracking fails because parent doesn't exist (empty commit), fall back to base
-        const errorMessage = String(trackError);
-        if (errorMessage.includes('branch not tracked') || errorMessage.includes('not found')) {
-          logger.warn(
-            `  ⚠️ Parent branch ${parentBranch} not tracked, falling back to base branch`,
-          );
-          const { baseRef } = this._vcsContext;
-          const fallbackParent = baseRef ?? 'main';
-          await this.vcsEngine.trackBranch(branchName, fallbackParent, cwd);
-          parentBranch = fallbackParent;
+      if (this._isGrouped()) {
+        // Task branches stay local; finalize folds their commits into phase or plan branches
+        logger.info(`  📦 Deferring tracking of ${branchName} until commits are folded`);
+      } else {
+        try {
+          logger.info(`  🔗 Tracking branch ${branchName} with parent ${parentBranch}`);
+          await this.vcsEngine.trackBranch(branchName, parentBranch, cwd);
           logger.info(`  ✅ Tracked git-spice branch ${branchName} with parent ${parentBranch}`);
-        } else {
-          throw trackError;
+        } catch (trackError) {
+          // If tracking fails because parent doesn't exist (empty commit), fall back to base
+          const errorMessage = String(trackError);
+          if (errorMessage.includes('branch not tracked') || errorMessage.includes('not found')) {
+            logger.warn(
+              `  ⚠️ Parent branch ${parentBranch} not tracked, falling back to base branch`,
+            );
+            const { baseRef } = this._vcsContext;
+            const fallbackParent = baseRef ?? 'main';
+            await this.vcsEngine.trackBranch(branchName, fallbackParent, cwd);
+            parentBranch = fallbackParent;
+            logger.info(`  ✅ Tracked git-spice branch ${branchName} with parent ${parentBranch}`);
+          } else {
+            throw trackError;
+          }
         }
       }
 
@@ -422,6 +458,7 @@ export class StackedVcsStrategy implements VcsStrategy {
         this._branchStack.push(branchName);
         this._currentStackTip = branchName;
       }
+      this.branchParents.set(branchName, parentBranch);
 
       // Clean up this worktree now that it's committed and tracked
       // This allows child tasks to create worktrees from this branch
@@ -438,6 +475,8 @@ export class StackedVcsStrategy implements VcsStrategy {
         taskId,
         commitHash,
         branchName,
+        filesChanged: modifiedFiles,
+        violations: validationResult.violations,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -450,6 +489,28 @@ export class StackedVcsStrategy implements VcsStrategy {
     }
   }
 
+  restoreCompletedTasks(results: TaskCommitResult[]): void {
+    logger.info(`[StackedVcsStrategy] Restoring ${results.length} completed tasks`);
+
+    // Results arrive in execution order, so appending rebuilds the linear stack
+    for (const result of results) {
+      this.completedTasks.add(result.taskId);
+
+      if (!isNonEmptyString(result.branchName) || !isNonEmptyString(result.commitHash)) {
+        continue;
+      }
+
+      this.restoredBranches.set(result.taskId, result.branchName);
+      if (!this._branchStack.includes(result.branchName)) {
+        this._branchStack.push(result.branchName);
+        this._currentStackTip = result.branchName;
+      }
+      logger.info(`  ♻️ Restored ${result.taskId} on branch ${result.branchName}`);
+    }
+
+    logger.info(`  🎯 Stack tip after restore: ${this._currentStackTip}`);
+  }
+
   async finalize(
     results: TaskCommitResult[],
     context: VcsStrategyContext,
@@ -463,10 +524,21 @@ export class StackedVcsStrategy implements VcsStrategy {
       .filter((r): r is TaskCommitResult & { commitHash: string } => isNonEmptyString(r.commitHash))
       .map((r) => r.commitHash);
 
+    if (this._isGrouped()) {
+      return this._finalizeGrouped(results, context, commits);
+    }
+
     // Exclude the base branch from the returned branches
     const branches = this._branchStack.slice(1);
 
-    logger.info(`  📊 Stack created: ${this._branchStack.join(' → ')}`);
+    if (this._isTreeShaped()) {
+      logger.info(`  📊 Stack created:`);
+      for (const line of this._formatStackTree()) {
+        logger.info(`    ${line}`);
+      }
+    } else {
+      logger.info(`  📊 Stack created: ${this._branchStack.join(' → ')}`);
+    }
     logger.info(`  🌳 Branches: ${branches.length}`);
     logger.info(`  💾 Commits: ${commits.length}`);
 
@@ -486,13 +558,23 @@ export class StackedVcsStrategy implements VcsStrategy {
     };
   }
 
-  async cleanup(): Promise<void> {
+  async cleanup(options: VcsCleanupOptions = {}): Promise<void> {
     logger.info(`[StackedVcsStrategy] Cleaning up ${this.worktreeContexts.size} worktrees`);
 
     if (this.worktreeContexts.size > 0) {
       try {
+        const discarded = new Set(options.discardedTaskIds);
         const contexts = [...this.worktreeContexts.values()];
-        await this.vcsEngine.cleanupWorktrees(contexts);
+        const kept = contexts.filter((context) => !discarded.has(context.taskId));
+        if (kept.length > 0) {
+          await this.vcsEngine.cleanupWorktrees(kept);
+        }
+        if (kept.length < contexts.length) {
+          await this.vcsEngine.cleanupWorktrees(
+            contexts.filter((context) => discarded.has(context.taskId)),
+            { deleteBranches: true },
+          );
+        }
         logger.info(`  ✅ Cleaned up worktrees`);
       } catch (error) {
         logger.warn(`  ⚠️ Failed to cleanup worktrees: ${String(error)}`);
@@ -500,6 +582,170 @@ export class StackedVcsStrategy implements VcsStrategy {
     }
   }
 
+  private _isGrouped(): boolean {
+    return (this._vcsContext.branchGranularity ?? 'task') !== 'task';
+  }
+
+  /**
+   * Fold the per-task branches into one branch per phase or for the whole plan,
+   * then drop the per-task branches of this run once every group was folded
+   */
+  private async _finalizeGrouped(
+    results: TaskCommitResult[],
+    context: VcsStrategyContext,
+    commits: string[],
+  ): Promise<{ branches: string[]; commits: string[] }> {
+    const { baseRef = 'main', branchGranularity = 'task', cwd, phases, planName, verify } = context;
+    const groups = groupTaskCommits(results, {
+      branchPrefix: 'chopstack/',
+      granularity: branchGranularity,
+      ...(phases !== undefined && { phases }),
+      ...(planName !== undefined && { planName }),
+    });
+
+    const stackInfo = await this.vcsEngine.buildGroupedStack(groups, cwd, {
+      parentRef: baseRef,
+      track: true,
+      tasks: this._allTasks,
+      ...(verify !== undefined && { verify }),
+    });
+    const foldedBranches = stackInfo.branches.map((branch) => branch.branchName);
+    const taskBranches = this._branchStack
+      .slice(1)
+      .filter((branch) => branch.endsWith(`-${this.RUN_ID}`));
+
+    logger.info(`  📊 Stack created: ${[baseRef, ...foldedBranches].join(' → ')}`);
+    for (const branch of stackInfo.branches) {
+      logger.info(`    ${branch.branchName}: ${branch.title ?? branch.taskId}`);
+    }
+    logger.info(`  💾 Commits: ${commits.length}`);
+
+    const folded = foldedBranches.length === groups.length;
+    if (!folded) {
+      logger.warn(`  ⚠️ Not every group could be folded; keeping the per-task branches`);
+    } else if (taskBranches.length > 0) {
+      try {
+        const { GitWrapper } = await import('@/adapters/vcs/git-wrapper');
+        await new GitWrapper(cwd).raw(['branch', '-D', ...taskBranches]);
+        logger.info(`  🧹 Removed ${taskBranches.length} per-task branches`);
+      } catch (error) {
+        logger.warn(`  ⚠️ Failed to remove per-task branches: ${String(error)}`);
+      }
+    }
+
+    if (foldedBranches.length > 0) {
+      try {
+        await this.vcsEngine.restack(cwd);
+        logger.info(`  ✅ Successfully restacked all branches`);
+      } catch (restackError) {
+        logger.warn(`⚠️ Failed to restack branches: ${String(restackError)}`);
+      }
+    }
+
+    return {
+      branches: folded ? foldedBranches : [...foldedBranches, ...taskBranches],
+      commits,
+    };
+  }
+
+  private _isTreeShaped(): boolean {
+    return this._vcsContext.stackShape === 'tree';
+  }
+
+  /**
+   * Tree layout of the branches created by this run, rooted at the base branch
+   */
+  private _formatStackTree(): string[] {
+    const [root = 'main', ...branches] = this._branchStack;
+    return formatStackTree(
+      root,
+      branches.map((name) => ({ name, parent: this.branchParents.get(name) ?? root })),
+    );
+  }
+
+  /**
+   * Pick the base branch for a task in a tree-shaped stack: trunk when it has no
+   * dependencies, the dependency's tip when it has one, and an integration branch
+   * merging every dependency tip when it has several.
+   */
+  private async _resolveTreeParent(task: TaskV2, cwd: string): Promise<string> {
+    const baseRef = this._vcsContext.baseRef ?? 'main';
+
+    // A dependency without changes has no branch of its own, so use its base instead
+    const tips = [
+      ...new Set(
+        task.dependencies
+          .map(
+            (dependency) =>
+              this._findDependencyBranch(dependency) ?? this.taskBases.get(dependency),
+          )
+          .filter((tip) => isNonEmptyString(tip)),
+      ),
+    ];
+
+    const [firstTip, ...otherTips] = tips;
+    if (firstTip === undefined) {
+      return baseRef;
+    }
+    if (otherTips.length === 0) {
+      return firstTip;
+    }
+    return this._createIntegrationBranch(task.id, firstTip, otherTips, cwd);
+  }
+
+  /**
+   * Create a branch on top of the first dependency tip that merges in the others
+   */
+  private async _createIntegrationBranch(
+    taskId: string,
+    firstTip: string,
+    otherTips: string[],
+    cwd: string,
+  ): Promise<string> {
+    const branchName = `chopstack/integrate-${taskId}-${this.RUN_ID}`;
+    const worktreePath = path.join(cwd, '.chopstack', 'shadows', `integrate-${taskId}`);
+    logger.info(
+      `  🔀 Creating integration branch ${branchName} from ${[firstTip, ...otherTips].join(', ')}`,
+    );
+
+    const { GitWrapper } = await import('@/adapters/vcs/git-wrapper');
+    const git = new GitWrapper(cwd);
+    await git.createWorktree(worktreePath, firstTip, branchName);
+
+    let mergeFailure: string | undefined;
+    try {
+      const worktreeGit = new GitWrapper(worktreePath);
+      for (const tip of otherTips) {
+        try {
+          await worktreeGit.raw(['merge', '--no-ff', '--no-edit', tip]);
+        } catch (mergeError) {
+          mergeFailure = `merging ${tip} into ${firstTip} failed. ${String(mergeError)}`;
+          break;
+        }
+      }
+    } finally {
+      await git.removeWorktree(worktreePath, true);
+    }
+
+    if (mergeFailure !== undefined) {
+      await git.raw(['branch', '-D', branchName]);
+      throw new Error(`Cannot integrate dependencies of task ${taskId}: ${mergeFailure}`);
+    }
+
+    await this.vcsEngine.trackBranch(branchName, firstTip, cwd);
+    this._branchStack.push(branchName);
+    this.branchParents.set(branchName, firstTip);
+    logger.info(`  ✅ Created integration branch ${branchName}`);
+    return branchName;
+  }
+
+  private _findDependencyBranch(taskId: string): string | undefined {
+    return (
+      this.restoredBranches.get(taskId) ??
+      this._branchStack.find((b) => b.includes(`/${taskId}-${this.RUN_ID}`))
+    );
+  }
+
   private _determineTaskOrder(tasks: TaskV2[]): string[] {
     const ordered: string[] = [];
     const remaining = new Set(tasks);
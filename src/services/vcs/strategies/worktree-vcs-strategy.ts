@@ -4,18 +4,23 @@
  * Creates separate Git worktrees for each task to enable parallel execution
  * without conflicts. Each task runs in its own isolated worktree,
  * commits are made there, then merged back to the main branch.
+ *
+ * With `branchGranularity: 'phase' | 'plan'` the task commits are folded into one
+ * branch per plan phase (or one for the whole plan), keeping one commit per task.
  */
 
 import type { ExecutionTask } from '@/core/execution/types';
 import type { VcsEngineService } from '@/core/vcs/interfaces';
 import type {
   TaskCommitResult,
+  VcsCleanupOptions,
   VcsStrategy,
   VcsStrategyContext,
   WorktreeContext,
 } from '@/core/vcs/vcs-strategy';
 import type { TaskV2 } from '@/types/schemas-v2';
 
+import { groupTaskCommits } from '@/services/vcs/branch-groups';
 import { CommitServiceImpl } from '@/services/vcs/commit-service';
 import { logger } from '@/utils/global-logger';
 import { isNonEmptyString } from '@/validation/guards';
@@ -23,6 +28,7 @@ import { isNonEmptyString } from '@/validation/guards';
 export class WorktreeVcsStrategy implements VcsStrategy {
   private readonly commitService: CommitServiceImpl;
   private _worktreeContexts: WorktreeContext[] = [];
+  private _tasks: TaskV2[] = [];
   private readonly vcsEngine: VcsEngineService;
 
   constructor(vcsEngine: VcsEngineService) {
@@ -34,6 +40,7 @@ export class WorktreeVcsStrategy implements VcsStrategy {
     logger.info(`[WorktreeVcsStrategy] Initializing for ${tasks.length} tasks`);
     logger.info(`  Working directory: ${context.cwd}`);
     logger.info(`  Base ref: ${context.baseRef ?? 'HEAD'}`);
+    this._tasks = tasks;
 
     // Initialize VCS engine
     await this.vcsEngine.initialize(context.cwd);
@@ -41,41 +48,42 @@ export class WorktreeVcsStrategy implements VcsStrategy {
 
   async prepareTaskExecutionContexts(
     tasks: ExecutionTask[],
-    context: VcsStrategyContext,
+    _context: VcsStrategyContext,
   ): Promise<Map<string, WorktreeContext>> {
-    logger.info(`[WorktreeVcsStrategy] Creating worktrees for ${tasks.length} tasks`);
-
-    // Create worktrees for all tasks
-    this._worktreeContexts = await this.vcsEngine.createWorktreesForTasks(
-      tasks,
-      context.baseRef ?? 'HEAD',
-      context.cwd,
+    logger.info(
+      `[WorktreeVcsStrategy] Worktrees for ${tasks.length} tasks will be created as tasks start`,
     );
 
-    logger.info(`  ✅ Created ${this._worktreeContexts.length} worktrees`);
-
-    // Build map of task IDs to contexts
-    const contexts = new Map<string, WorktreeContext>();
-    for (const worktreeContext of this._worktreeContexts) {
-      contexts.set(worktreeContext.taskId, worktreeContext);
-      logger.info(`  📁 Worktree for ${worktreeContext.taskId}: ${worktreeContext.worktreePath}`);
-    }
-
-    return contexts;
+    // Worktrees are created just-in-time so --max-parallel also bounds how many exist at once
+    this._worktreeContexts = [];
+    await Promise.resolve();
+    return new Map<string, WorktreeContext>();
   }
 
   async prepareTaskExecution(
     task: TaskV2,
-    _executionTask: ExecutionTask,
-    _context: VcsStrategyContext,
+    executionTask: ExecutionTask,
+    context: VcsStrategyContext,
   ): Promise<WorktreeContext | null> {
     logger.info(`[WorktreeVcsStrategy] Preparing execution for task ${task.id}`);
 
-    // Return the worktree context if it exists
-    // Using await to satisfy async requirement without unnecessary Promise.resolve
-    const result = this._worktreeContexts.find((ctx) => ctx.taskId === task.id) ?? null;
-    await Promise.resolve(); // Ensure async behavior
-    return result;
+    const existing = this._worktreeContexts.find((ctx) => ctx.taskId === task.id);
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const [worktreeContext] = await this.vcsEngine.createWorktreesForTasks(
+      [executionTask],
+      context.baseRef ?? 'HEAD',
+      context.cwd,
+    );
+    if (worktreeContext === undefined) {
+      throw new Error(`Failed to create worktree for task ${task.id}`);
+    }
+
+    this._worktreeContexts.push(worktreeContext);
+    logger.info(`  📁 Worktree for ${task.id}: ${worktreeContext.worktreePath}`);
+    return worktreeContext;
   }
 
   async handleTaskCompletion(
@@ -98,6 +106,15 @@ export class WorktreeVcsStrategy implements VcsStrategy {
       // Store commit hash in execution task for later use
       executionTask.commitHash = commitHash;
 
+      // The commit lives on the task branch, so the worktree can go and free its slot
+      logger.info(`  🧹 Cleaning up worktree for completed task ${task.id}`);
+      try {
+        await this.vcsEngine.cleanupWorktrees([context]);
+        this._worktreeContexts = this._worktreeContexts.filter((ctx) => ctx.taskId !== task.id);
+      } catch (cleanupError) {
+        logger.warn(`  ⚠️ Failed to cleanup worktree: ${String(cleanupError)}`);
+      }
+
       return {
         taskId: task.id,
         commitHash,
@@ -114,10 +131,9 @@ export class WorktreeVcsStrategy implements VcsStrategy {
     }
   }
 
-  // eslint-disable-next-line @typescript-eslint/require-await
   async finalize(
     results: TaskCommitResult[],
-    _context: VcsStrategyContext,
+    context: VcsStrategyContext,
   ): Promise<{ branches: string[]; commits: string[] }> {
     logger.info(`[WorktreeVcsStrategy] Finalizing with ${results.length} results`);
 
@@ -125,6 +141,31 @@ export class WorktreeVcsStrategy implements VcsStrategy {
       .filter((r): r is TaskCommitResult & { commitHash: string } => isNonEmptyString(r.commitHash))
       .map((r) => r.commitHash);
 
+    const { baseRef = 'HEAD', branchGranularity = 'task', cwd, phases, planName, verify } = context;
+    if (branchGranularity !== 'task') {
+      const groups = groupTaskCommits(results, {
+        branchPrefix: 'chopstack/',
+        granularity: branchGranularity,
+        ...(phases !== undefined && { phases }),
+        ...(planName !== undefined && { planName }),
+      });
+      const stackInfo = await this.vcsEngine.buildGroupedStack(groups, cwd, {
+        parentRef: baseRef,
+        track: false,
+        tasks: this._tasks,
+        ...(verify !== undefined && { verify }),
+      });
+      const foldedBranches = stackInfo.branches.map((branch) => branch.branchName);
+
+      logger.info(`  📊 Total commits: ${commits.length}`);
+      logger.info(`  🌳 ${branchGranularity} branches: ${foldedBranches.join(', ')}`);
+
+      return {
+        branches: foldedBranches,
+        commits,
+      };
+    }
+
     const branches = results
       .filter((r): r is TaskCommitResult & { branchName: string } => isNonEmptyString(r.branchName))
       .map((r) => r.branchName);
@@ -140,12 +181,22 @@ export class WorktreeVcsStrategy implements VcsStrategy {
     };
   }
 
-  async cleanup(): Promise<void> {
+  async cleanup(options: VcsCleanupOptions = {}): Promise<void> {
     logger.info(`[WorktreeVcsStrategy] Cleaning up ${this._worktreeContexts.length} worktrees`);
 
     if (this._worktreeContexts.length > 0) {
       try {
-        await this.vcsEngine.cleanupWorktrees(this._worktreeContexts);
+        const discarded = new Set(options.discardedTaskIds);
+        const kept = this._worktreeContexts.filter((context) => !discarded.has(context.taskId));
+        if (kept.length > 0) {
+          await this.vcsEngine.cleanupWorktrees(kept);
+        }
+        if (kept.length < this._worktreeContexts.length) {
+          await this.vcsEngine.cleanupWorktrees(
+            this._worktreeContexts.filter((context) => discarded.has(context.taskId)),
+            { deleteBranches: true },
+          );
+        }
         logger.info(`  ✅ Cleaned up worktrees`);
       } catch (error) {
         logger.warn(`  ⚠️ Failed to cleanup worktrees: ${String(error)}`);
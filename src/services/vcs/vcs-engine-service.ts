@@ -2,13 +2,17 @@ import { EventEmitter } from 'node:events';
 
 import type { ExecutionTask } from '@/core/execution/types';
 import type {
+  BranchGroup,
   CommitOptions,
   CommitService,
   ConflictResolutionService,
+  ConflictResolutionStrategy,
   RepositoryService,
   StackBuildService,
   StackBuildStrategy,
+  StackConflictContext,
   VcsAnalysisService,
+  WorktreeCleanupOptions,
   WorktreeContext,
   WorktreeService,
 } from '@/core/vcs/domain-services';
@@ -27,7 +31,7 @@ export type VcsEngineConfig = {
   branchPrefix: string;
   cleanupOnFailure: boolean;
   cleanupOnSuccess: boolean;
-  conflictStrategy: 'auto' | 'manual' | 'fail';
+  conflictStrategy: ConflictResolutionStrategy;
   shadowPath: string;
   stackSubmission: {
     autoMerge: boolean;
@@ -215,6 +219,20 @@ export class VcsEngineServiceImpl extends EventEmitter implements VcsEngineServi
     return commitHash;
   }
 
+  async buildGroupedStack(
+    groups: BranchGroup[],
+    workdir: string,
+    options: StackConflictContext & { parentRef: string; track: boolean },
+  ): Promise<{
+    branches: Array<{ branchName: string; commitHash: string; taskId: string; title?: string }>;
+    parentRef: string;
+  }> {
+    // Serialize with other branch operations to avoid git index lock conflicts
+    return this.gitOperationQueue.execute(async () =>
+      this.stackBuildService.buildGroupedStack(groups, workdir, options),
+    );
+  }
+
   async buildStackFromTasks(
     tasks: ExecutionTask[],
     workdir: string,
@@ -260,7 +278,10 @@ export class VcsEngineServiceImpl extends EventEmitter implements VcsEngineServi
     return stackInfo;
   }
 
-  async cleanupWorktrees(contexts: WorktreeExecutionContext[]): Promise<void> {
+  async cleanupWorktrees(
+    contexts: WorktreeExecutionContext[],
+    options?: WorktreeCleanupOptions,
+  ): Promise<void> {
     const shouldCleanup = this.config.cleanupOnSuccess || this.config.cleanupOnFailure;
 
     if (!shouldCleanup) {
@@ -269,7 +290,7 @@ export class VcsEngineServiceImpl extends EventEmitter implements VcsEngineServi
     }
 
     const taskIds = contexts.map((c) => c.taskId);
-    await this.worktreeService.cleanupWorktrees(taskIds);
+    await this.worktreeService.cleanupWorktrees(taskIds, options);
   }
 
   async createBranchFromCommit(
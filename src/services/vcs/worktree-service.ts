@@ -2,15 +2,20 @@ import { EventEmitter } from 'node:events';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 
+import type { WorktreeSetup } from '@/core/execution/types';
 import type {
+  WorktreeCleanupOptions,
   WorktreeContext,
   WorktreeCreateOptions,
   WorktreeService,
+  WorktreeSetupStep,
 } from '@/core/vcs/domain-services';
 
 import { GitWrapper } from '@/adapters/vcs/git-wrapper';
 import { logger } from '@/utils/global-logger';
 
+import { WorktreeBootstrapper } from './worktree-setup';
+
 export type WorktreeEvent = {
   error?: string;
   taskId: string;
@@ -23,6 +28,8 @@ export type WorktreeServiceConfig = {
   branchPrefix: string;
   cleanupOnFailure: boolean;
   cleanupOnSuccess: boolean;
+  /** Files, links and a setup command applied to each new worktree */
+  setup?: WorktreeSetup;
   shadowPath: string;
 };
 
@@ -33,10 +40,12 @@ export type WorktreeServiceConfig = {
 export class WorktreeServiceImpl extends EventEmitter implements WorktreeService {
   private readonly activeWorktrees: Map<string, WorktreeContext> = new Map();
   private readonly config: WorktreeServiceConfig;
+  private readonly bootstrapper: WorktreeBootstrapper | null;
 
   constructor(config: WorktreeServiceConfig) {
     super();
     this.config = config;
+    this.bootstrapper = config.setup !== undefined ? new WorktreeBootstrapper(config.setup) : null;
   }
 
   async createWorktree(options: WorktreeCreateOptions): Promise<WorktreeContext> {
@@ -86,6 +95,7 @@ export class WorktreeServiceImpl extends EventEmitter implements WorktreeService
 
       const finalBranchName = await this._generateUniqueBranchName(git, branchName);
       await git.createWorktree(absolutePath, startingPoint, finalBranchName);
+      const setupSteps = await this._setUpWorktree(git, absolutePath, workdir, startingPoint);
 
       const context: WorktreeContext = {
         taskId,
@@ -94,6 +104,7 @@ export class WorktreeServiceImpl extends EventEmitter implements WorktreeService
         baseRef,
         absolutePath,
         created: new Date(),
+        ...(setupSteps.length > 0 && { setupSteps }),
       };
 
       this.activeWorktrees.set(taskId, context);
@@ -123,7 +134,36 @@ export class WorktreeServiceImpl extends EventEmitter implements WorktreeService
     }
   }
 
-  async removeWorktree(taskId: string): Promise<void> {
+  /**
+   * Run the configured worktree setup, removing the worktree again if it fails
+   */
+  private async _setUpWorktree(
+    git: GitWrapper,
+    absolutePath: string,
+    workdir: string,
+    baseCommit: string,
+  ): Promise<WorktreeSetupStep[]> {
+    if (this.bootstrapper === null) {
+      return [];
+    }
+
+    try {
+      return await this.bootstrapper.bootstrap({
+        baseCommit,
+        repositoryPath: workdir,
+        worktreePath: absolutePath,
+      });
+    } catch (error) {
+      try {
+        await git.removeWorktree(absolutePath, true);
+      } catch (removeError) {
+        logger.debug(`Could not remove worktree after failed setup: ${String(removeError)}`);
+      }
+      throw error;
+    }
+  }
+
+  async removeWorktree(taskId: string, options: WorktreeCleanupOptions = {}): Promise<void> {
     const context = this.activeWorktrees.get(taskId);
     if (context === undefined) {
       logger.warn(`⚠️ No active worktree found for task ${taskId}`);
@@ -137,6 +177,9 @@ export class WorktreeServiceImpl extends EventEmitter implements WorktreeService
       await git.removeWorktree(context.absolutePath);
 
       this.activeWorktrees.delete(taskId);
+      if (options.deleteBranches === true) {
+        await this._deleteBranch(git, context.branchName);
+      }
 
       this.emit('worktree_cleanup', {
         type: 'removed',
@@ -155,6 +198,9 @@ export class WorktreeServiceImpl extends EventEmitter implements WorktreeService
         const git = new GitWrapper(path.dirname(context.absolutePath));
         await git.removeWorktree(context.absolutePath, true);
         this.activeWorktrees.delete(taskId);
+        if (options.deleteBranches === true) {
+          await this._deleteBranch(git, context.branchName);
+        }
         logger.info(`✅ Force removed worktree for task ${taskId}`);
       } catch (forceError) {
         logger.error(
@@ -165,7 +211,7 @@ export class WorktreeServiceImpl extends EventEmitter implements WorktreeService
     }
   }
 
-  async cleanupWorktrees(taskIds: string[]): Promise<void> {
+  async cleanupWorktrees(taskIds: string[], options: WorktreeCleanupOptions = {}): Promise<void> {
     logger.info(`🧹 Cleaning up ${taskIds.length} worktrees...`);
 
     // Capture working directory before removing worktrees
@@ -183,7 +229,7 @@ export class WorktreeServiceImpl extends EventEmitter implements WorktreeService
 
     const cleanupPromises = taskIds.map(async (taskId) => {
       try {
-        await this.removeWorktree(taskId);
+        await this.removeWorktree(taskId, options);
         return { taskId, success: true };
       } catch (error) {
         logger.error(
@@ -243,4 +289,16 @@ export class WorktreeServiceImpl extends EventEmitter implements WorktreeService
     logger.warn(`⚠️ Branch ${baseName} already exists, using ${uniqueName} instead`);
     return uniqueName;
   }
+
+  /**
+   * Delete a removed worktree's branch; a branch that cannot be deleted is only logged
+   */
+  private async _deleteBranch(git: GitWrapper, branchName: string): Promise<void> {
+    try {
+      await git.raw(['branch', '-D', branchName]);
+      logger.info(`🧹 Deleted branch ${branchName}`);
+    } catch (error) {
+      logger.warn(`⚠️ Failed to delete branch ${branchName}: ${String(error)}`);
+    }
+  }
 }
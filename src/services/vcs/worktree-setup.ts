@@ -0,0 +1,352 @@
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+import { execa } from 'execa';
+
+import type { WorktreeSetup } from '@/core/execution/types';
+import type { WorktreeSetupStep } from '@/core/vcs/domain-services';
+
+import { formatDuration } from '@/core/execution/task-timeouts';
+import { logger } from '@/utils/global-logger';
+
+/**
+ * Where setup command outputs are cached, relative to the main checkout
+ */
+export const WORKTREE_SETUP_CACHE_PATH = path.join('.chopstack', 'cache', 'worktree-setup');
+
+// Written last, so a cache entry without it is left over from an interrupted run
+const CACHE_COMPLETE_MARKER = '.complete';
+
+// Lockfiles that decide what an install produces, so worktrees with the same ones share a cache entry
+const LOCKFILES = [
+  'pnpm-lock.yaml',
+  'package-lock.json',
+  'yarn.lock',
+  'bun.lock',
+  'bun.lockb',
+  'poetry.lock',
+  'uv.lock',
+  'Cargo.lock',
+  'Gemfile.lock',
+  'go.sum',
+];
+
+/**
+ * Configuration for the worktree bootstrapper
+ */
+export type WorktreeBootstrapperConfig = {
+  /** Maximum time the setup command may run */
+  commandTimeout?: number;
+  /** Cache entries kept in the repository; the least recently used are removed first */
+  maxCacheEntries?: number;
+};
+
+/**
+ * Options for preparing one worktree
+ */
+export type WorktreeBootstrapOptions = {
+  /** Commit the worktree was created from, the cache key when it has no lockfile */
+  baseCommit: string;
+  /** Main checkout that files are copied and linked from */
+  repositoryPath: string;
+  worktreePath: string;
+};
+
+/**
+ * Prepares new task worktrees: copies and links files from the main checkout, then runs
+ * the setup command. When `cache` paths are configured, the first worktree with a given
+ * set of lockfiles (or base commit, without lockfiles) runs the command and moves those
+ * paths into a shared cache; later worktrees with the same lockfiles (in this run or the
+ * next) link them instead of running it again.
+ *
+ * Linked paths are symlinks, which `.gitignore` rules for directories such as
+ * `node_modules/` do not match, so they are added to the repository's `info/exclude`.
+ */
+export class WorktreeBootstrapper {
+  private readonly config: Required<WorktreeBootstrapperConfig>;
+  private readonly cachePopulations = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly _setup: WorktreeSetup,
+    config: WorktreeBootstrapperConfig = {},
+  ) {
+    this.config = {
+      commandTimeout: 15 * 60 * 1000,
+      maxCacheEntries: 5,
+      ...config,
+    };
+  }
+
+  async bootstrap(options: WorktreeBootstrapOptions): Promise<WorktreeSetupStep[]> {
+    const { repositoryPath, worktreePath } = options;
+    const steps: WorktreeSetupStep[] = [];
+    const linked: string[] = [];
+
+    const runStep = async (name: string, step: () => Promise<boolean>): Promise<void> => {
+      const start = Date.now();
+      const cached = await step();
+      steps.push({ name, durationMs: Date.now() - start, ...(cached && { cached }) });
+    };
+
+    for (const entry of this._setup.copy ?? []) {
+      await runStep(`copy ${entry}`, async () => {
+        await this._copy(path.join(repositoryPath, entry), path.join(worktreePath, entry));
+        return false;
+      });
+    }
+
+    for (const entry of this._setup.link ?? []) {
+      await runStep(`link ${entry}`, async () => {
+        if (await this._link(path.join(repositoryPath, entry), path.join(worktreePath, entry))) {
+          linked.push(entry);
+        }
+        return false;
+      });
+    }
+
+    const { command } = this._setup;
+    if (command !== undefined) {
+      await runStep(`run ${command}`, async () => this._runCommand(command, options, linked));
+    }
+    await this._excludeFromGit(worktreePath, linked);
+
+    if (steps.length > 0) {
+      const summary = steps
+        .map(
+          (step) =>
+            `${step.name} ${formatDuration(step.durationMs)}${step.cached === true ? ' (cached)' : ''}`,
+        )
+        .join(', ');
+      logger.info(`  ⏱️ Worktree setup for ${path.basename(worktreePath)}: ${summary}`);
+    }
+    return steps;
+  }
+
+  private async _copy(source: string, target: string): Promise<void> {
+    if (!existsSync(source)) {
+      logger.warn(`  ⚠️ Worktree setup: ${source} does not exist, nothing to copy`);
+      return;
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.cp(source, target, { recursive: true, force: true, verbatimSymlinks: true });
+  }
+
+  /**
+   * Link a path from the main checkout into the worktree. Returns whether it was linked.
+   */
+  private async _link(source: string, target: string): Promise<boolean> {
+    if (!existsSync(source)) {
+      logger.warn(`  ⚠️ Worktree setup: ${source} does not exist, nothing to link`);
+      return false;
+    }
+    if (existsSync(target)) {
+      logger.warn(`  ⚠️ Worktree setup: ${target} is already checked out, not linking it`);
+      return false;
+    }
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    if (this._setup.linkMode === 'hardlink') {
+      await this._hardlinkTree(source, target);
+      return true;
+    }
+    const stats = await fs.stat(source);
+    await fs.symlink(source, target, stats.isDirectory() ? 'dir' : 'file');
+    return true;
+  }
+
+  /**
+   * Recreate a directory tree with every file hard-linked to the original
+   */
+  private async _hardlinkTree(source: string, target: string): Promise<void> {
+    const stats = await fs.lstat(source);
+    if (stats.isSymbolicLink()) {
+      await fs.symlink(await fs.readlink(source), target);
+      return;
+    }
+    if (!stats.isDirectory()) {
+      await fs.link(source, target);
+      return;
+    }
+
+    await fs.mkdir(target, { recursive: true });
+    for (const entry of await fs.readdir(source)) {
+      await this._hardlinkTree(path.join(source, entry), path.join(target, entry));
+    }
+  }
+
+  /**
+   * Run the setup command, or link its cached output into `linked`. Returns whether the
+   * cache was used.
+   */
+  private async _runCommand(
+    command: string,
+    options: WorktreeBootstrapOptions,
+    linked: string[],
+  ): Promise<boolean> {
+    const cachePaths = this._setup.cache ?? [];
+    if (cachePaths.length === 0) {
+      await this._exec(command, options.worktreePath);
+      return false;
+    }
+
+    const cacheRoot = path.join(options.repositoryPath, WORKTREE_SETUP_CACHE_PATH);
+    const cacheDir = path.join(cacheRoot, await this._cacheKey(command, options));
+    const marker = path.join(cacheDir, CACHE_COMPLETE_MARKER);
+
+    let population = this.cachePopulations.get(cacheDir);
+    const cached = population !== undefined || existsSync(marker);
+    if (population === undefined) {
+      // Entries left by an earlier run are tracked too, so eviction keeps them while linked
+      population = cached
+        ? Promise.resolve()
+        : this._populateCache(command, cacheDir, cachePaths, options.worktreePath);
+      this.cachePopulations.set(cacheDir, population);
+    }
+    try {
+      await population;
+    } catch (error) {
+      // Let the next worktree with these lockfiles try again
+      this.cachePopulations.delete(cacheDir);
+      throw error;
+    }
+
+    if (cached) {
+      // Mark the entry as recently used, so eviction keeps it
+      const now = new Date();
+      await fs.utimes(marker, now, now);
+    } else {
+      await this._evictCache(cacheRoot);
+    }
+
+    for (const entry of cachePaths) {
+      const cachedPath = path.join(cacheDir, entry);
+      const target = path.join(options.worktreePath, entry);
+      if (existsSync(cachedPath) && !existsSync(target)) {
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.symlink(cachedPath, target, 'dir');
+        linked.push(entry);
+      }
+    }
+    return cached;
+  }
+
+  /**
+   * Hash of the setup command and the worktree's lockfiles, or its base commit when it has
+   * no lockfiles
+   */
+  private async _cacheKey(command: string, options: WorktreeBootstrapOptions): Promise<string> {
+    const lockfiles = LOCKFILES.filter((name) => existsSync(path.join(options.worktreePath, name)));
+    if (lockfiles.length === 0) {
+      return options.baseCommit.replaceAll(/[^\w.-]/g, '_');
+    }
+
+    const hash = createHash('sha256').update(command);
+    for (const name of lockfiles) {
+      hash.update(`\0${name}\0`).update(await fs.readFile(path.join(options.worktreePath, name)));
+    }
+    return `lock-${hash.digest('hex').slice(0, 16)}`;
+  }
+
+  /**
+   * Remove the least recently used cache entries beyond `maxCacheEntries`, except those
+   * this bootstrapper has linked into worktrees
+   */
+  private async _evictCache(cacheRoot: string): Promise<void> {
+    const entries = await Promise.all(
+      (await fs.readdir(cacheRoot)).map(async (name) => {
+        const cacheDir = path.join(cacheRoot, name);
+        const stats = await fs.stat(path.join(cacheDir, CACHE_COMPLETE_MARKER)).catch(() => null);
+        return { cacheDir, usedAt: stats?.mtimeMs };
+      }),
+    );
+
+    const evictable = entries
+      // Entries without a marker may still be populated by another run
+      .filter((entry) => entry.usedAt !== undefined && !this.cachePopulations.has(entry.cacheDir))
+      .sort((a, b) => (b.usedAt ?? 0) - (a.usedAt ?? 0));
+    const kept = Math.max(this.config.maxCacheEntries - this.cachePopulations.size, 0);
+    for (const { cacheDir } of evictable.slice(kept)) {
+      logger.debug(`Evicting worktree setup cache ${cacheDir}`);
+      await fs.rm(cacheDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Add linked paths to git's exclude file, shared by all worktrees of the repository, so
+   * the worktree's status stays clean
+   */
+  private async _excludeFromGit(worktreePath: string, entries: string[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+    const result = await execa('git', ['rev-parse', '--git-path', 'info/exclude'], {
+      cwd: worktreePath,
+      reject: false,
+    });
+    if (result.exitCode !== 0) {
+      logger.debug(`Not excluding worktree setup paths, ${worktreePath} is not a git worktree`);
+      return;
+    }
+
+    const excludeFile = path.resolve(worktreePath, result.stdout.trim());
+    const existing = existsSync(excludeFile) ? await fs.readFile(excludeFile, 'utf8') : '';
+    const lines = new Set(existing.split('\n'));
+    const patterns = entries
+      .map((entry) => `/${entry.split(path.sep).join('/')}`)
+      .filter((pattern) => !lines.has(pattern));
+    if (patterns.length === 0) {
+      return;
+    }
+
+    await fs.mkdir(path.dirname(excludeFile), { recursive: true });
+    const separator = existing === '' || existing.endsWith('\n') ? '' : '\n';
+    await fs.appendFile(excludeFile, `${separator}${[...new Set(patterns)].join('\n')}\n`);
+  }
+
+  /**
+   * Run the command in this worktree and move the paths it produced into the cache
+   */
+  private async _populateCache(
+    command: string,
+    cacheDir: string,
+    cachePaths: string[],
+    worktreePath: string,
+  ): Promise<void> {
+    await fs.rm(cacheDir, { recursive: true, force: true });
+    await this._exec(command, worktreePath);
+
+    await fs.mkdir(cacheDir, { recursive: true });
+    for (const entry of cachePaths) {
+      const produced = path.join(worktreePath, entry);
+      if (!existsSync(produced)) {
+        logger.warn(`  ⚠️ Worktree setup: ${command} did not create ${entry}, not caching it`);
+        continue;
+      }
+      await fs.mkdir(path.dirname(path.join(cacheDir, entry)), { recursive: true });
+      await fs.rename(produced, path.join(cacheDir, entry));
+    }
+    await fs.writeFile(path.join(cacheDir, CACHE_COMPLETE_MARKER), new Date().toISOString());
+  }
+
+  private async _exec(command: string, cwd: string): Promise<void> {
+    logger.info(`  🔧 Worktree setup: ${command}`);
+    const result = await execa(command, {
+      cwd,
+      shell: true,
+      all: true,
+      reject: false,
+      timeout: this.config.commandTimeout,
+    });
+    if (result.exitCode !== 0 || result.timedOut) {
+      const reason = result.timedOut
+        ? `timed out after ${formatDuration(this.config.commandTimeout)}`
+        : `exited with code ${result.exitCode ?? 'none'}`;
+      const output = result.all.slice(-2000);
+      throw new Error(
+        `Worktree setup command "${command}" ${reason}${output === '' ? '' : `:\n${output}`}`,
+      );
+    }
+  }
+}
@@ -1,6 +1,18 @@
+import { tmpdir } from 'node:os';
+
 import { describe, expect, it } from 'vitest';
 
-import { validateDecomposeArgs, validateRunArgs, validateStackArgs } from '../cli';
+import {
+  validateConfigArgs,
+  validateDecomposeArgs,
+  validatePlanDiffArgs,
+  validatePlanEditArgs,
+  validatePlanGraphArgs,
+  validatePlanRepairArgs,
+  validateRunArgs,
+  validateStackArgs,
+  validateValidateArgs,
+} from '../cli';
 
 describe('CLI argument validation', () => {
   describe('validateDecomposeArgs', () => {
@@ -94,6 +106,146 @@ describe('CLI argument validation', () => {
         expect(result.vcsMode).toBe(vcsMode);
       }
     });
+
+    it('should accept resume options in execute mode', () => {
+      const result = validateRunArgs({ plan: 'plan.yaml', mode: 'execute', resumeFrom: 'task-2' });
+      expect(result.resumeFrom).toBe('task-2');
+    });
+
+    it('should reject resume options outside execute mode', () => {
+      expect(() => validateRunArgs({ plan: 'plan.yaml', mode: 'plan', resume: true })).toThrow();
+    });
+
+    it('should only accept --validate in execute mode', () => {
+      expect(validateRunArgs({ plan: 'plan.yaml', mode: 'execute', validate: true }).validate).toBe(
+        true,
+      );
+      expect(() => validateRunArgs({ plan: 'plan.yaml', mode: 'plan', validate: true })).toThrow();
+    });
+
+    it('should only accept json and sarif diagnostics for a validated plan file', () => {
+      expect(validateRunArgs({ plan: 'plan.yaml', mode: 'validate', format: 'sarif' }).format).toBe(
+        'sarif',
+      );
+      expect(validateRunArgs({ plan: 'plan.yaml', mode: 'execute', format: 'text' }).format).toBe(
+        'text',
+      );
+      expect(() => validateRunArgs({ plan: 'plan.yaml', mode: 'execute', format: 'json' })).toThrow(
+        '--format json|sarif requires --mode validate',
+      );
+      expect(() => validateRunArgs({ spec: 'spec.md', mode: 'validate', format: 'json' })).toThrow(
+        '--format json|sarif requires --plan',
+      );
+      expect(() =>
+        validateRunArgs({ plan: 'plan.yaml', mode: 'validate', report: 'report.json' }),
+      ).toThrow('--report is not available with --mode validate');
+    });
+
+    it('should accept a positive --max-parallel', () => {
+      expect(
+        validateRunArgs({ plan: 'plan.yaml', mode: 'execute', maxParallel: 4 }).maxParallel,
+      ).toBe(4);
+      expect(() =>
+        validateRunArgs({ plan: 'plan.yaml', mode: 'execute', maxParallel: 0 }),
+      ).toThrow();
+      expect(() =>
+        validateRunArgs({ plan: 'plan.yaml', mode: 'execute', maxParallel: Number.NaN }),
+      ).toThrow();
+    });
+
+    it('should accept a report path with a known format', () => {
+      const result = validateRunArgs({
+        plan: 'plan.yaml',
+        mode: 'execute',
+        report: 'results.xml',
+        reportFormat: 'junit',
+      });
+      expect(result.report).toBe('results.xml');
+      expect(result.reportFormat).toBe('junit');
+      expect(() =>
+        validateRunArgs({ plan: 'plan.yaml', mode: 'execute', reportFormat: 'html' }),
+      ).toThrow();
+    });
+
+    it('should only accept tree-shaped stacks in stacked mode', () => {
+      const result = validateRunArgs({
+        plan: 'plan.yaml',
+        mode: 'execute',
+        vcsMode: 'stacked',
+        stackShape: 'tree',
+      });
+      expect(result.stackShape).toBe('tree');
+      expect(() =>
+        validateRunArgs({
+          plan: 'plan.yaml',
+          mode: 'execute',
+          vcsMode: 'simple',
+          stackShape: 'tree',
+        }),
+      ).toThrow('--stack-shape tree requires --vcs-mode stacked');
+    });
+
+    it('should only fold branches in stacked or worktree mode', () => {
+      const result = validateRunArgs({
+        plan: 'plan.yaml',
+        mode: 'execute',
+        vcsMode: 'worktree',
+        branchGranularity: 'phase',
+      });
+      expect(result.branchGranularity).toBe('phase');
+      expect(() =>
+        validateRunArgs({
+          plan: 'plan.yaml',
+          mode: 'execute',
+          vcsMode: 'simple',
+          branchGranularity: 'plan',
+        }),
+      ).toThrow('--branch-granularity phase|plan requires --vcs-mode stacked or worktree');
+      expect(() =>
+        validateRunArgs({
+          plan: 'plan.yaml',
+          mode: 'execute',
+          vcsMode: 'stacked',
+          stackShape: 'tree',
+          branchGranularity: 'phase',
+        }),
+      ).toThrow('--stack-shape tree requires --branch-granularity task');
+    });
+
+    it('should accept known conflict strategies only', () => {
+      const result = validateRunArgs({
+        plan: 'plan.yaml',
+        mode: 'execute',
+        vcsMode: 'stacked',
+        conflictStrategy: 'agent',
+      });
+      expect(result.conflictStrategy).toBe('agent');
+      expect(() =>
+        validateRunArgs({ plan: 'plan.yaml', mode: 'execute', conflictStrategy: 'theirs' }),
+      ).toThrow();
+    });
+  });
+
+  describe('validateValidateArgs', () => {
+    it('should validate validate arguments with defaults', () => {
+      const result = validateValidateArgs({ plan: 'plan.yaml', spec: 'spec.md' });
+      expect(result.plan).toBe('plan.yaml');
+      expect(result.spec).toBe('spec.md');
+      expect(result.format).toBe('text');
+      expect(result.agent).toBe('claude');
+    });
+
+    it('should require a plan and a known format', () => {
+      expect(() => validateValidateArgs({})).toThrow();
+      expect(() => validateValidateArgs({ plan: 'plan.yaml', format: 'xml' })).toThrow();
+    });
+  });
+
+  describe('validateConfigArgs', () => {
+    it('should default to text output and reject unknown formats', () => {
+      expect(validateConfigArgs({}).format).toBe('text');
+      expect(() => validateConfigArgs({ format: 'xml' })).toThrow();
+    });
   });
 
   describe('validateStackArgs', () => {
@@ -124,5 +276,77 @@ describe('CLI argument validation', () => {
     it('should accept empty arguments object', () => {
       expect(() => validateStackArgs({})).not.toThrow();
     });
+
+    it('should default to the git-spice backend and accept graphite', () => {
+      expect(validateStackArgs({}).vcsBackend).toBe('git-spice');
+      expect(validateStackArgs({ vcsBackend: 'graphite' }).vcsBackend).toBe('graphite');
+      expect(() => validateStackArgs({ vcsBackend: 'sapling' })).toThrow();
+    });
+  });
+
+  describe('validatePlanEditArgs', () => {
+    it('should parse split parts given as <id>:<file>[,<file>...]', () => {
+      const result = validatePlanEditArgs({
+        plan: 'plan.yaml',
+        edit: {
+          type: 'split',
+          task: 'provider',
+          parts: ['context:src/context.ts', 'provider: src/provider.tsx, src/index.ts'],
+        },
+      });
+
+      expect(result.edit).toEqual({
+        type: 'split',
+        task: 'provider',
+        parts: [
+          { id: 'context', files: ['src/context.ts'] },
+          { id: 'provider', files: ['src/provider.tsx', 'src/index.ts'] },
+        ],
+      });
+      expect(result.force).toBe(false);
+      expect(result.dryRun).toBe(false);
+    });
+
+    it('should reject malformed split parts and unknown edits', () => {
+      expect(() =>
+        validatePlanEditArgs({
+          plan: 'plan.yaml',
+          edit: { type: 'split', task: 'provider', parts: ['context', 'provider:src/a.ts'] },
+        }),
+      ).toThrow('Split parts must look like <id>:<file>[,<file>...]');
+      expect(() =>
+        validatePlanEditArgs({ plan: 'plan.yaml', edit: { type: 'delete', task: 'provider' } }),
+      ).toThrow();
+    });
+  });
+
+  describe('plan subcommands', () => {
+    it('should accept an existing target directory', () => {
+      expect(validatePlanGraphArgs({ plan: 'plan.yaml', targetDir: tmpdir() }).targetDir).toBe(
+        tmpdir(),
+      );
+      expect(validatePlanDiffArgs({ before: 'a.yaml', after: 'b.yaml' }).targetDir).toBeUndefined();
+    });
+
+    it('should reject a target directory that does not exist', () => {
+      const targetDir = '/nonexistent/chopstack/target';
+
+      expect(() => validatePlanGraphArgs({ plan: 'plan.yaml', targetDir })).toThrow(
+        'Target directory does not exist',
+      );
+      expect(() => validatePlanRepairArgs({ plan: 'plan.yaml', targetDir })).toThrow(
+        'Target directory does not exist',
+      );
+      expect(() => validatePlanDiffArgs({ before: 'a.yaml', after: 'b.yaml', targetDir })).toThrow(
+        'Target directory does not exist',
+      );
+      expect(() =>
+        validatePlanEditArgs({
+          plan: 'plan.yaml',
+          edit: { type: 'add-dep', task: 'toggle', dependency: 'types' },
+          targetDir,
+        }),
+      ).toThrow('Target directory does not exist');
+    });
   });
 });
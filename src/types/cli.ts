@@ -3,18 +3,27 @@ import { resolve } from 'node:path';
 
 import { z } from 'zod';
 
-import { ExecutionOptionsSchema } from '@/core/execution/types';
+import { AgentTypeSchema } from '@/core/config/types';
+import {
+  ExecutionOptionsSchema,
+  RunReportFormatSchema,
+  VcsBackendTypeSchema,
+  WorktreeSetupSchema,
+} from '@/core/execution/types';
 
 // Re-export types for convenience
-export type { ExecutionMode, ExecutionOptions, VcsMode } from '@/core/execution/types';
-
-// Agent type schema (moved from decomposer.ts)
-const AgentTypeSchema = z.enum(['claude', 'codex', 'mock']);
+export type {
+  ExecutionMode,
+  ExecutionOptions,
+  VcsBackendType,
+  VcsMode,
+} from '@/core/execution/types';
 
 // Decompose command options schema
 export const DecomposeCommandOptionsSchema = z
   .object({
     agent: AgentTypeSchema,
+    autoRepair: z.boolean().optional(),
     output: z.string().optional(),
     skipGates: z.boolean().default(false),
     spec: z.string().min(1, 'Spec file path cannot be empty'),
@@ -55,19 +64,82 @@ export const DecomposeCommandOptionsSchema = z
   });
 export type DecomposeCommandOptions = z.infer<typeof DecomposeCommandOptionsSchema>;
 
+// Output format for `run --mode validate` plan diagnostics
+export const PlanDiagnosticsFormatSchema = z.enum(['text', 'json', 'sarif']);
+export type PlanDiagnosticsFormat = z.infer<typeof PlanDiagnosticsFormatSchema>;
+
 // Run command options schema - supports both spec and plan inputs
 export const RunCommandOptionsSchema = ExecutionOptionsSchema.extend({
   agent: AgentTypeSchema.optional(),
+  format: PlanDiagnosticsFormatSchema.optional(),
   plan: z.string().optional(),
+  report: z.string().optional(),
+  reportFormat: RunReportFormatSchema.optional(),
   spec: z.string().optional(),
   targetDir: z.string().optional(),
   tui: z.boolean().default(true),
+  validate: z.boolean().optional(),
+  worktreeSetup: WorktreeSetupSchema.optional(),
   writeLog: z.boolean().default(false),
 })
   .refine((data) => data.spec !== undefined || data.plan !== undefined, {
     message: 'Either --spec or --plan must be provided',
     path: ['spec', 'plan'],
   })
+  .refine((data) => data.validate !== true || data.mode === 'execute', {
+    message: '--validate requires --mode execute',
+    path: ['validate'],
+  })
+  .refine(
+    (data) => data.format === undefined || data.format === 'text' || data.mode === 'validate',
+    {
+      message: '--format json|sarif requires --mode validate',
+      path: ['format'],
+    },
+  )
+  .refine(
+    (data) => data.format === undefined || data.format === 'text' || data.plan !== undefined,
+    {
+      message: '--format json|sarif requires --plan',
+      path: ['format'],
+    },
+  )
+  .refine((data) => data.report === undefined || data.mode !== 'validate', {
+    message: '--report is not available with --mode validate; use --format json|sarif',
+    path: ['report'],
+  })
+  .refine((data) => data.stackShape !== 'tree' || data.vcsMode === 'stacked', {
+    message: '--stack-shape tree requires --vcs-mode stacked',
+    path: ['stackShape'],
+  })
+  .refine(
+    (data) =>
+      data.branchGranularity === undefined ||
+      data.branchGranularity === 'task' ||
+      data.vcsMode === 'stacked' ||
+      data.vcsMode === 'worktree',
+    {
+      message: '--branch-granularity phase|plan requires --vcs-mode stacked or worktree',
+      path: ['branchGranularity'],
+    },
+  )
+  .refine(
+    (data) =>
+      data.stackShape !== 'tree' ||
+      data.branchGranularity === undefined ||
+      data.branchGranularity === 'task',
+    {
+      message: '--stack-shape tree requires --branch-granularity task',
+      path: ['stackShape'],
+    },
+  )
+  .refine(
+    (data) => (data.resume !== true && data.resumeFrom === undefined) || data.mode === 'execute',
+    {
+      message: '--resume and --resume-from require --mode execute',
+      path: ['resume'],
+    },
+  )
   .refine(
     (data) => {
       // Validate target directory exists and is accessible
@@ -200,6 +272,209 @@ export const AnalyzeCommandOptionsSchema = z
   });
 export type AnalyzeCommandOptions = z.infer<typeof AnalyzeCommandOptionsSchema>;
 
+// Validate command options schema
+export const ValidateCommandOptionsSchema = z
+  .object({
+    plan: z.string().min(1, 'Plan file path cannot be empty'),
+    spec: z.string().optional(),
+    output: z.string().optional(),
+    format: z.enum(['text', 'json']).default('text'),
+    agent: AgentTypeSchema.default('claude'),
+    targetDir: z.string().optional(),
+    verbose: z.boolean().default(false),
+  })
+  .refine(
+    (data) => {
+      // Validate target directory exists and is accessible
+      if (data.targetDir === undefined) {
+        return true; // Will use process.cwd() as default
+      }
+
+      const resolvedPath = resolve(data.targetDir);
+      if (!existsSync(resolvedPath)) {
+        return false;
+      }
+
+      try {
+        const stats = statSync(resolvedPath);
+        return stats.isDirectory();
+      } catch {
+        return false;
+      }
+    },
+    {
+      message:
+        'Target directory does not exist or is not accessible. Please provide a valid directory path.',
+      path: ['targetDir'],
+    },
+  )
+  .transform((data) => {
+    // Resolve target directory to absolute path
+    if (data.targetDir !== undefined) {
+      return { ...data, targetDir: resolve(data.targetDir) };
+    }
+    return data;
+  });
+export type ValidateCommandOptions = z.infer<typeof ValidateCommandOptionsSchema>;
+
+// Config command options schema
+export const ConfigCommandOptionsSchema = z
+  .object({
+    format: z.enum(['text', 'json']).default('text'),
+    targetDir: z.string().optional(),
+    verbose: z.boolean().default(false),
+  })
+  .transform((data) => {
+    // Resolve target directory to absolute path
+    if (data.targetDir !== undefined) {
+      return { ...data, targetDir: resolve(data.targetDir) };
+    }
+    return data;
+  });
+export type ConfigCommandOptions = z.infer<typeof ConfigCommandOptionsSchema>;
+
+const TARGET_DIR_ERROR = {
+  message:
+    'Target directory does not exist or is not accessible. Please provide a valid directory path.',
+  path: ['targetDir'],
+};
+
+/**
+ * Check that a plan subcommand's target directory exists (unset uses process.cwd())
+ */
+function isAccessibleDirectory(directory: string | undefined): boolean {
+  if (directory === undefined) {
+    return true;
+  }
+
+  const resolvedPath = resolve(directory);
+  if (!existsSync(resolvedPath)) {
+    return false;
+  }
+
+  try {
+    return statSync(resolvedPath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a plan subcommand's target directory to an absolute path
+ */
+function resolveTargetDir<T extends { targetDir?: string | undefined }>(data: T): T {
+  return data.targetDir === undefined ? data : { ...data, targetDir: resolve(data.targetDir) };
+}
+
+// Plan graph command options schema
+export const PlanGraphCommandOptionsSchema = z
+  .object({
+    plan: z.string().min(1, 'Plan file path cannot be empty'),
+    format: z.enum(['mermaid', 'dot', 'html']).default('mermaid'),
+    output: z.string().optional(),
+    targetDir: z.string().optional(),
+    verbose: z.boolean().default(false),
+  })
+  .refine((data) => isAccessibleDirectory(data.targetDir), TARGET_DIR_ERROR)
+  .transform(resolveTargetDir);
+export type PlanGraphCommandOptions = z.infer<typeof PlanGraphCommandOptionsSchema>;
+
+// Plan repair command options schema
+export const PlanRepairCommandOptionsSchema = z
+  .object({
+    plan: z.string().min(1, 'Plan file path cannot be empty'),
+    output: z.string().optional(),
+    dryRun: z.boolean().default(false),
+    targetDir: z.string().optional(),
+    verbose: z.boolean().default(false),
+  })
+  .refine((data) => isAccessibleDirectory(data.targetDir), TARGET_DIR_ERROR)
+  .transform(resolveTargetDir);
+export type PlanRepairCommandOptions = z.infer<typeof PlanRepairCommandOptionsSchema>;
+
+// Plan diff command options schema
+export const PlanDiffCommandOptionsSchema = z
+  .object({
+    before: z.string().min(1, 'Old plan file path cannot be empty'),
+    after: z.string().min(1, 'New plan file path cannot be empty'),
+    format: z.enum(['text', 'json']).default('text'),
+    targetDir: z.string().optional(),
+    verbose: z.boolean().default(false),
+  })
+  .refine((data) => isAccessibleDirectory(data.targetDir), TARGET_DIR_ERROR)
+  .transform(resolveTargetDir);
+export type PlanDiffCommandOptions = z.infer<typeof PlanDiffCommandOptionsSchema>;
+
+// Plan edit command options schema
+const TaskIdArgumentSchema = z.string().min(1, 'Task ID cannot be empty');
+
+// `--into <id>:<file>[,<file>...]`
+const PlanSplitPartArgumentSchema = z
+  .string()
+  .regex(/^[^:]+:.+$/, 'Split parts must look like <id>:<file>[,<file>...]')
+  .transform((value) => {
+    const separator = value.indexOf(':');
+    return {
+      id: value.slice(0, separator).trim(),
+      files: value
+        .slice(separator + 1)
+        .split(',')
+        .map((file) => file.trim())
+        .filter((file) => file !== ''),
+    };
+  });
+
+export const PlanEditSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('split'),
+    task: TaskIdArgumentSchema,
+    parts: z.array(PlanSplitPartArgumentSchema).min(2, 'Split a task into at least 2 parts'),
+  }),
+  z.object({
+    type: z.literal('merge'),
+    tasks: z.array(TaskIdArgumentSchema).min(2, 'Merge at least 2 tasks'),
+    id: z.string().optional(),
+    name: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('move'),
+    task: TaskIdArgumentSchema,
+    phase: z.string().min(1, 'Phase ID cannot be empty'),
+    before: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('add-dep'),
+    task: TaskIdArgumentSchema,
+    dependency: TaskIdArgumentSchema,
+  }),
+  z.object({
+    type: z.literal('remove-dep'),
+    task: TaskIdArgumentSchema,
+    dependency: TaskIdArgumentSchema,
+  }),
+  z.object({
+    type: z.literal('rename'),
+    task: TaskIdArgumentSchema,
+    id: TaskIdArgumentSchema,
+    name: z.string().optional(),
+  }),
+]);
+export type PlanEdit = z.infer<typeof PlanEditSchema>;
+
+export const PlanEditCommandOptionsSchema = z
+  .object({
+    plan: z.string().min(1, 'Plan file path cannot be empty'),
+    edit: PlanEditSchema,
+    output: z.string().optional(),
+    dryRun: z.boolean().default(false),
+    force: z.boolean().default(false),
+    targetDir: z.string().optional(),
+    verbose: z.boolean().default(false),
+  })
+  .refine((data) => isAccessibleDirectory(data.targetDir), TARGET_DIR_ERROR)
+  .transform(resolveTargetDir);
+export type PlanEditCommandOptions = z.infer<typeof PlanEditCommandOptionsSchema>;
+
 // Stack command options schema
 export const StackCommandOptionsSchema = z
   .object({
@@ -208,6 +483,7 @@ export const StackCommandOptionsSchema = z
     dryRun: z.boolean().default(false),
     message: z.string().optional(),
     targetDir: z.string().optional(),
+    vcsBackend: VcsBackendTypeSchema.default('git-spice'),
     verbose: z.boolean().default(false),
     tui: z.boolean().default(true),
   })
@@ -262,6 +538,30 @@ export function validateAnalyzeArgs(raw: unknown): AnalyzeCommandOptions {
   return AnalyzeCommandOptionsSchema.parse(raw);
 }
 
+export function validateValidateArgs(raw: unknown): ValidateCommandOptions {
+  return ValidateCommandOptionsSchema.parse(raw);
+}
+
 export function validateStackArgs(raw: unknown): StackArgs {
   return StackCommandOptionsSchema.parse(raw);
 }
+
+export function validateConfigArgs(raw: unknown): ConfigCommandOptions {
+  return ConfigCommandOptionsSchema.parse(raw);
+}
+
+export function validatePlanGraphArgs(raw: unknown): PlanGraphCommandOptions {
+  return PlanGraphCommandOptionsSchema.parse(raw);
+}
+
+export function validatePlanRepairArgs(raw: unknown): PlanRepairCommandOptions {
+  return PlanRepairCommandOptionsSchema.parse(raw);
+}
+
+export function validatePlanDiffArgs(raw: unknown): PlanDiffCommandOptions {
+  return PlanDiffCommandOptionsSchema.parse(raw);
+}
+
+export function validatePlanEditArgs(raw: unknown): PlanEditCommandOptions {
+  return PlanEditCommandOptionsSchema.parse(raw);
+}
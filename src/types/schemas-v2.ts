@@ -136,6 +136,10 @@ export const taskV2Schema = z.object({
     .describe('List of testable acceptance criteria for this task'),
   dependencies: z.array(z.string()).default([]).describe('List of task IDs this task depends on'),
   phase: z.string().optional().describe('Phase membership (optional, for flat task lists)'),
+  verify: z
+    .array(z.string().min(1))
+    .optional()
+    .describe('Shell commands that must pass in the task worktree before the task is committed'),
 });
 
 export type TaskV2 = z.infer<typeof taskV2Schema>;
@@ -255,6 +259,10 @@ export const planSchemaV2 = z
       .min(1, 'Plan must contain at least one task')
       .describe('List of all tasks in the plan'),
     successMetrics: successMetricsSchema.optional().describe('Optional success metrics'),
+    verify: z
+      .array(z.string().min(1))
+      .optional()
+      .describe('Shell commands run after every task, before its task-level verify commands'),
   })
   .refine(
     (plan) => {
@@ -1,6 +1,7 @@
 import React, { type FC } from 'react';
 
 import { Box, useApp, useInput, useStdout } from 'ink';
+import { match } from 'ts-pattern';
 
 import type { ExecutionOptions } from '@/core/execution/types';
 import type { ExecutionOrchestrator } from '@/services/execution/execution-orchestrator';
@@ -10,23 +11,33 @@ import { isNonNullish } from '@/validation/guards';
 
 import { LogPanel } from './components/LogPanel';
 import { StatusPanel } from './components/StatusPanel';
+import { TaskDetail } from './components/TaskDetail';
+import { TaskList } from './components/TaskList';
 import { useExecutionState } from './hooks/useExecutionState';
 import { theme } from './theme';
 
 export type TuiAppProps = {
   jobIdRef?: { current: string | undefined } | undefined;
+  /** Called on Ctrl+C; the TUI reads it as a key press, so no SIGINT reaches the process */
+  onInterrupt?: (() => void) | undefined;
   options: ExecutionOptions;
   orchestrator: ExecutionOrchestrator;
   plan: PlanV2;
 };
 
-export const TuiApp: FC<TuiAppProps> = ({ orchestrator, plan, options, jobIdRef }) => {
+export const TuiApp: FC<TuiAppProps> = ({ orchestrator, plan, options, jobIdRef, onInterrupt }) => {
   const { exit } = useApp();
   const { stdout } = useStdout();
-  const { tasks, logs, metrics, isComplete } = useExecutionState(orchestrator, plan, {
-    verbose: options.verbose ?? false,
-  });
-  const [selectedTaskId, setSelectedTaskId] = React.useState<string | undefined>();
+  const { tasks, logs, metrics, isComplete, isPaused, controls } = useExecutionState(
+    orchestrator,
+    plan,
+    { verbose: options.verbose ?? false },
+  );
+  const [filterTaskId, setFilterTaskId] = React.useState<string | undefined>();
+  const [selectedTaskId, setSelectedTaskId] = React.useState<string | undefined>(plan.tasks[0]?.id);
+  // Keys can arrive before the next render, so input reads the selection from a ref
+  const selectedTaskIdRef = React.useRef(selectedTaskId);
+  const [showDetails, setShowDetails] = React.useState(false);
   const [jobId, setJobId] = React.useState<string | undefined>(jobIdRef?.current);
 
   // Poll for job ID updates from the ref
@@ -53,27 +64,65 @@ export const TuiApp: FC<TuiAppProps> = ({ orchestrator, plan, options, jobIdRef
   // Calculate remaining height for log panel
   // Account for status panel, its border, and leave 1 line buffer at bottom
   const logPanelHeight = Math.max(8, terminalHeight - statusPanelHeight - 1);
+  const taskListWidth = Math.min(40, Math.floor(terminalWidth / 3));
+  const taskDetailHeight = 9;
+
+  const taskList = [...tasks.values()];
+  const selectedTask = isNonNullish(selectedTaskId) ? tasks.get(selectedTaskId) : undefined;
+
+  const logFilterTaskId = showDetails ? selectedTaskId : filterTaskId;
 
   // Handle keyboard input
   useInput((input, key) => {
-    // Exit on Ctrl+C or q
-    if (input === 'q' || (key.ctrl && input === 'c')) {
+    // Ctrl+C interrupts the run before exiting; q only closes the TUI
+    if (key.ctrl && input === 'c') {
+      onInterrupt?.();
+      exit();
+    }
+    if (input === 'q') {
       exit();
     }
 
+    // Select a task with the arrow keys
+    if (key.upArrow || key.downArrow) {
+      const index = taskList.findIndex((task) => task.id === selectedTaskIdRef.current);
+      const nextIndex = Math.min(taskList.length - 1, Math.max(0, index + (key.upArrow ? -1 : 1)));
+      selectedTaskIdRef.current = taskList[nextIndex]?.id;
+      setSelectedTaskId(selectedTaskIdRef.current);
+    }
+
+    // Open or close the selected task's log and files
+    if (key.return) {
+      setShowDetails((previous) => !previous);
+    }
+
+    // Task commands act on the selected task
+    const taskId = selectedTaskIdRef.current;
+    if (isNonNullish(taskId)) {
+      match(input)
+        .with('s', () => controls.stopTask(taskId))
+        .with('r', () => controls.retryTask(taskId))
+        .with('x', () => controls.skipTask(taskId))
+        .otherwise(() => {});
+    }
+    if (input === 'p') {
+      controls.togglePause();
+    }
+
     // Task filtering with number keys (1-9 for first 9 running tasks)
     const taskNumber = Number.parseInt(input, 10);
     if (!Number.isNaN(taskNumber) && taskNumber >= 1 && taskNumber <= 9) {
-      const runningTasks = [...tasks.values()].filter((t) => t.status === 'running');
+      const runningTasks = taskList.filter((t) => t.status === 'running');
       const task = runningTasks[taskNumber - 1];
       if (task !== undefined) {
-        setSelectedTaskId(task.id === selectedTaskId ? undefined : task.id);
+        setFilterTaskId(task.id === filterTaskId ? undefined : task.id);
       }
     }
 
-    // Clear filter with 0 or ESC
+    // Clear filter and close details with 0 or ESC
     if (input === '0' || key.escape) {
-      setSelectedTaskId(undefined);
+      setFilterTaskId(undefined);
+      setShowDetails(false);
     }
   });
 
@@ -92,21 +141,54 @@ export const TuiApp: FC<TuiAppProps> = ({ orchestrator, plan, options, jobIdRef
         borderColor={theme.borderActive}
         flexShrink={0}
       >
-        <StatusPanel tasks={tasks} metrics={metrics} options={options} jobId={jobId} />
+        <StatusPanel
+          tasks={tasks}
+          metrics={metrics}
+          options={options}
+          jobId={jobId}
+          isPaused={isPaused}
+        />
       </Box>
 
-      <Box
-        height={logPanelHeight}
-        borderStyle="single"
-        borderColor={theme.border}
-        flexShrink={0}
-        overflow="hidden"
-      >
-        <LogPanel
-          logs={logs}
-          maxLines={Math.max(4, logPanelHeight - 4)}
-          {...(selectedTaskId !== undefined && { filterTaskId: selectedTaskId })}
-        />
+      <Box height={logPanelHeight} flexDirection="row" flexShrink={0}>
+        <Box
+          width={taskListWidth}
+          borderStyle="single"
+          borderColor={theme.border}
+          flexShrink={0}
+          overflow="hidden"
+        >
+          <TaskList
+            tasks={taskList}
+            selectedTaskId={selectedTaskId}
+            maxRows={Math.max(1, logPanelHeight - 4)}
+          />
+        </Box>
+
+        <Box
+          flexDirection="column"
+          flexGrow={1}
+          borderStyle="single"
+          borderColor={showDetails ? theme.borderActive : theme.border}
+          overflow="hidden"
+        >
+          {showDetails && isNonNullish(selectedTask) && (
+            <Box height={taskDetailHeight} flexShrink={0} overflow="hidden">
+              <TaskDetail task={selectedTask} />
+            </Box>
+          )}
+          <LogPanel
+            logs={logs}
+            arrowKeyScroll={false}
+            maxLines={Math.max(
+              4,
+              logPanelHeight -
+                4 -
+                (showDetails && isNonNullish(selectedTask) ? taskDetailHeight : 0),
+            )}
+            {...(logFilterTaskId !== undefined && { filterTaskId: logFilterTaskId })}
+          />
+        </Box>
       </Box>
     </Box>
   );
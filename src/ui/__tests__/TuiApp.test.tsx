@@ -1,9 +1,18 @@
-import { describe, expect, it } from 'vitest';
+import { EventEmitter } from 'node:events';
+import React from 'react';
+
+import { render } from 'ink-testing-library';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { ExecutionOrchestrator } from '@/services/execution/execution-orchestrator';
 
 import type { TuiAppProps } from '../TuiApp';
 
 import { TuiApp } from '../TuiApp';
 
+const ARROW_DOWN = '\u001B[B';
+const ENTER = '\r';
+
 describe('TuiApp', () => {
   it('should accept v2 PlanV2 type', () => {
     // This test verifies type compatibility without actually rendering
@@ -50,4 +59,118 @@ describe('TuiApp', () => {
 
     expect(testPlan).toBeDefined();
   });
+
+  describe('keyboard controls', () => {
+    const plan: TuiAppProps['plan'] = {
+      name: 'Dark Mode',
+      strategy: 'parallel',
+      tasks: [
+        {
+          id: 'types',
+          name: 'Theme Types',
+          complexity: 'S',
+          description: 'Define the theme types',
+          files: ['src/theme/types.ts'],
+          dependencies: [],
+          acceptanceCriteria: [],
+        },
+        {
+          id: 'toggle',
+          name: 'Theme Toggle',
+          complexity: 'M',
+          description: 'Add the theme toggle',
+          files: ['src/toggle.tsx'],
+          dependencies: ['types'],
+          acceptanceCriteria: [],
+        },
+      ],
+    };
+
+    const renderApp = (): {
+      lastFrame: () => string | undefined;
+      orchestrator: EventEmitter &
+        Record<
+          'retryTask' | 'setSchedulingPaused' | 'skipTask' | 'stopTask',
+          ReturnType<typeof vi.fn>
+        >;
+      unmount: () => void;
+      write: (input: string) => void;
+    } => {
+      const orchestrator = Object.assign(new EventEmitter(), {
+        stopTask: vi.fn().mockReturnValue(true),
+        retryTask: vi.fn().mockReturnValue(true),
+        skipTask: vi.fn().mockReturnValue(true),
+        setSchedulingPaused: vi.fn(),
+      });
+      const { lastFrame, stdin, unmount } = render(
+        <TuiApp
+          orchestrator={orchestrator as unknown as ExecutionOrchestrator}
+          plan={plan}
+          options={{ agent: 'claude', mode: 'execute', vcsMode: 'worktree', verbose: false }}
+        />,
+      );
+      const write = (input: string): void => {
+        stdin.write(input);
+      };
+      return { lastFrame, orchestrator, unmount, write };
+    };
+
+    it('should send stop, retry and skip to the selected task', async () => {
+      const app = renderApp();
+
+      app.write('s');
+      await vi.waitFor(() => {
+        expect(app.orchestrator.stopTask).toHaveBeenCalledWith('types');
+      });
+
+      app.write(ARROW_DOWN);
+      app.write('r');
+      await vi.waitFor(() => {
+        expect(app.orchestrator.retryTask).toHaveBeenCalledWith('toggle');
+      });
+
+      app.write('x');
+      await vi.waitFor(() => {
+        expect(app.orchestrator.skipTask).toHaveBeenCalledWith('toggle');
+      });
+      app.unmount();
+    });
+
+    it('should pause and resume scheduling with p', async () => {
+      const app = renderApp();
+
+      app.write('p');
+      await vi.waitFor(() => {
+        expect(app.orchestrator.setSchedulingPaused).toHaveBeenLastCalledWith(true);
+      });
+
+      app.orchestrator.emit('schedulingPaused', { paused: true });
+      await vi.waitFor(() => {
+        expect(app.lastFrame()).toContain('PAUSED');
+      });
+      app.write('p');
+      await vi.waitFor(() => {
+        expect(app.orchestrator.setSchedulingPaused).toHaveBeenLastCalledWith(false);
+      });
+      app.unmount();
+    });
+
+    it('should open and close the selected task with enter and escape', async () => {
+      const app = renderApp();
+      app.orchestrator.emit('taskFiles', { taskId: 'toggle', files: ['src/toggle.tsx'] });
+
+      app.write(ARROW_DOWN);
+      app.write(ENTER);
+      await vi.waitFor(() => {
+        expect(app.lastFrame()).toContain('Changed files:');
+        expect(app.lastFrame()).toContain('Depends on: types');
+      });
+
+      app.write('\u001B');
+      await vi.waitFor(() => {
+        expect(app.lastFrame()).not.toContain('Changed files:');
+      });
+      app.unmount();
+    });
+  });
 });
@@ -2,16 +2,29 @@ import React, { type FC } from 'react';
 
 import { Box, Text } from 'ink';
 
-export const KeyboardHelp: FC = () => {
+export type KeyboardHelpProps = {
+  isPaused?: boolean;
+};
+
+export const KeyboardHelp: FC<KeyboardHelpProps> = ({ isPaused = false }) => {
+  const shortcuts: Array<[string, string]> = [
+    ['↑/↓', 'select'],
+    ['enter', 'details'],
+    ['s', 'stop'],
+    ['r', 'retry'],
+    ['x', 'skip'],
+    ['p', isPaused ? 'resume' : 'pause'],
+    ['q', 'quit'],
+  ];
+
   return (
-    <Box flexDirection="row" gap={2}>
-      <Text dimColor>
-        <Text bold>q</Text>: quit
-      </Text>
-      <Text dimColor>•</Text>
-      <Text dimColor>
-        <Text bold>Ctrl+C</Text>: exit
-      </Text>
+    <Box flexDirection="row" gap={1}>
+      {shortcuts.map(([key, action], index) => (
+        <Text key={key} dimColor>
+          {index > 0 ? '• ' : ''}
+          <Text bold>{key}</Text>: {action}
+        </Text>
+      ))}
     </Box>
   );
 };
@@ -6,6 +6,7 @@ import { Box, Text } from 'ink';
 export type LayerIndicatorProps = {
   completedLayers: number;
   currentLayer?: number;
+  phaseNames?: string[];
   totalLayers: number;
 };
 
@@ -13,20 +14,26 @@ export const LayerIndicator: FC<LayerIndicatorProps> = ({
   totalLayers,
   completedLayers,
   currentLayer,
+  phaseNames,
 }) => {
   const percentage = totalLayers > 0 ? (completedLayers / totalLayers) * 100 : 0;
+  const currentPhaseName = currentLayer === undefined ? undefined : phaseNames?.[currentLayer];
 
   return (
     <Box flexDirection="row" alignItems="center">
-      <Text bold>Layers: </Text>
+      <Text bold>{phaseNames === undefined ? 'Layers' : 'Phases'}: </Text>
       <ProgressBar value={percentage} />
       <Text>
         {' '}
         {completedLayers}/{totalLayers}
       </Text>
-      {currentLayer !== undefined && currentLayer < totalLayers && (
-        <Text dimColor> • Layer {currentLayer} running</Text>
-      )}
+      {currentLayer !== undefined &&
+        currentLayer < totalLayers &&
+        (currentPhaseName === undefined ? (
+          <Text dimColor> • Layer {currentLayer} running</Text>
+        ) : (
+          <Text dimColor> • Phase {currentPhaseName} running</Text>
+        ))}
     </Box>
   );
 };
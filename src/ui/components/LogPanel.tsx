@@ -8,6 +8,8 @@ import { theme } from '@/ui/theme';
 import { isNonEmptyString, isNonNullish } from '@/validation/guards';
 
 export type LogPanelProps = {
+  /** Scroll with ↑/↓ (disable when the arrow keys select tasks; PgUp/PgDn still scroll) */
+  arrowKeyScroll?: boolean;
   filterTaskId?: string;
   logs: LogEntry[];
   maxLines?: number;
@@ -55,7 +57,12 @@ const truncateMessage = (message: string, maxWidth: number): string => {
   return `${message.slice(0, availableWidth - 3)}...`;
 };
 
-export const LogPanel: FC<LogPanelProps> = ({ logs, maxLines = 20, filterTaskId }) => {
+export const LogPanel: FC<LogPanelProps> = ({
+  logs,
+  maxLines = 20,
+  filterTaskId,
+  arrowKeyScroll = true,
+}) => {
   const [scrollOffset, setScrollOffset] = useState(0);
   const [isAutoScrollEnabled, setIsAutoScrollEnabled] = useState(true);
   const [selectedTaskFilter, setSelectedTaskFilter] = useState<string | undefined>(filterTaskId);
@@ -63,6 +70,11 @@ export const LogPanel: FC<LogPanelProps> = ({ logs, maxLines = 20, filterTaskId
     isNonNullish(process.stdout.columns) ? process.stdout.columns : 120,
   );
 
+  // Follow filter changes from the parent (task selection)
+  useEffect(() => {
+    setSelectedTaskFilter(filterTaskId);
+  }, [filterTaskId]);
+
   // Update terminal width on resize
   useEffect(() => {
     const handleResize = (): void => {
@@ -106,12 +118,12 @@ export const LogPanel: FC<LogPanelProps> = ({ logs, maxLines = 20, filterTaskId
   // Keyboard input handling
   useInput((input, key) => {
     // Scroll controls
-    if (key.upArrow) {
+    if (key.upArrow && arrowKeyScroll) {
       setIsAutoScrollEnabled(false);
       setScrollOffset((previous) =>
         Math.min(previous + 1, Math.max(0, filteredLogs.length - maxLines)),
       );
-    } else if (key.downArrow) {
+    } else if (key.downArrow && arrowKeyScroll) {
       setScrollOffset((previous) => {
         const newOffset = Math.max(0, previous - 1);
         if (newOffset === 0) {
@@ -186,7 +198,9 @@ export const LogPanel: FC<LogPanelProps> = ({ logs, maxLines = 20, filterTaskId
         <Spacer />
         {scrollIndicator()}
         <Spacer />
-        <Text dimColor>↑/↓ scroll • a: auto • c: clear filter</Text>
+        <Text dimColor>
+          {arrowKeyScroll ? '↑/↓' : 'PgUp/PgDn'} scroll • a: auto • c: clear filter
+        </Text>
       </Box>
 
       <Box flexDirection="column" height={maxLines}>
@@ -6,6 +6,7 @@ import { Box, Text } from 'ink';
 import type { ExecutionOptions } from '@/core/execution/types';
 import type { ExecutionMetrics, TaskUIState } from '@/ui/hooks/useExecutionState';
 
+import { formatUsage } from '@/core/execution/task-usage';
 import { theme } from '@/ui/theme';
 import { isNonEmptyString, isNonNullish } from '@/validation/guards';
 
@@ -15,13 +16,20 @@ import { LayerIndicator } from './LayerIndicator';
 import { TaskProgress } from './TaskProgress';
 
 export type StatusPanelProps = {
+  isPaused?: boolean;
   jobId?: string | undefined;
   metrics: ExecutionMetrics;
   options: ExecutionOptions;
   tasks: Map<string, TaskUIState>;
 };
 
-export const StatusPanel: FC<StatusPanelProps> = ({ tasks, metrics, options, jobId }) => {
+export const StatusPanel: FC<StatusPanelProps> = ({
+  tasks,
+  metrics,
+  options,
+  jobId,
+  isPaused = false,
+}) => {
   const runningTasks = [...tasks.values()].filter((t) => t.status === 'running');
   const completionPercentage =
     metrics.totalTasks > 0 ? (metrics.completedTasks / metrics.totalTasks) * 100 : 0;
@@ -50,7 +58,7 @@ export const StatusPanel: FC<StatusPanelProps> = ({ tasks, metrics, options, job
             {isNonEmptyString(jobId) ? ` • ${jobId}` : ''}
           </Text>
         </Box>
-        <KeyboardHelp />
+        <KeyboardHelp isPaused={isPaused} />
       </Box>
 
       {/* Progress */}
@@ -70,6 +78,7 @@ export const StatusPanel: FC<StatusPanelProps> = ({ tasks, metrics, options, job
               totalLayers={metrics.totalLayers}
               completedLayers={metrics.completedLayers}
               currentLayer={currentLayer}
+              {...(isNonNullish(metrics.phaseNames) && { phaseNames: metrics.phaseNames })}
             />
           </Box>
         )}
@@ -118,6 +127,7 @@ export const StatusPanel: FC<StatusPanelProps> = ({ tasks, metrics, options, job
 
       {/* Stats Summary */}
       <Box marginTop={1} gap={1}>
+        {isPaused && <Badge color={theme.warning}>⏸ paused</Badge>}
         {metrics.completedTasks > 0 && (
           <Badge color={theme.success}>✓ {metrics.completedTasks}</Badge>
         )}
@@ -125,14 +135,29 @@ export const StatusPanel: FC<StatusPanelProps> = ({ tasks, metrics, options, job
         {metrics.runningTasks > 0 && (
           <Badge color={theme.warning}>↻ {metrics.runningTasks} running</Badge>
         )}
-        {metrics.totalTasks - metrics.completedTasks - metrics.failedTasks - metrics.runningTasks >
+        {metrics.queuedTasks > 0 && (
+          <Text color={theme.taskQueued}>◷ {metrics.queuedTasks} queued</Text>
+        )}
+        {isNonNullish(metrics.usage) && (
+          <Text dimColor>
+            🪙 {formatUsage(metrics.usage)}
+            {isNonNullish(options.maxCost) ? ` / $${options.maxCost.toFixed(2)} budget` : ''}
+            {isNonNullish(options.maxTokens) ? ` / ${options.maxTokens} token budget` : ''}
+          </Text>
+        )}
+        {metrics.totalTasks -
+          metrics.completedTasks -
+          metrics.failedTasks -
+          metrics.runningTasks -
+          metrics.queuedTasks >
           0 && (
           <Text dimColor>
             ○{' '}
             {metrics.totalTasks -
               metrics.completedTasks -
               metrics.failedTasks -
-              metrics.runningTasks}{' '}
+              metrics.runningTasks -
+              metrics.queuedTasks}{' '}
             pending
           </Text>
         )}
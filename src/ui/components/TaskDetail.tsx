@@ -0,0 +1,73 @@
+import React, { type FC } from 'react';
+
+import { Box, Text } from 'ink';
+
+import type { TaskUIState } from '@/ui/hooks/useExecutionState';
+
+import { formatUsage } from '@/core/execution/task-usage';
+import { theme } from '@/ui/theme';
+import { isNonEmptyString, isNonNullish } from '@/validation/guards';
+
+import { getStatusColor } from './TaskProgress';
+
+export type TaskDetailProps = {
+  maxFiles?: number;
+  task: TaskUIState;
+};
+
+const getAvailableActions = (status: TaskUIState['status']): string => {
+  switch (status) {
+    case 'running': {
+      return 's: stop';
+    }
+    case 'failure': {
+      return 'r: retry';
+    }
+    case 'pending':
+    case 'queued': {
+      return 'x: skip';
+    }
+    case 'success':
+    case 'skipped': {
+      return '';
+    }
+  }
+};
+
+/**
+ * Header for the selected task: status, dependencies and the files it changed
+ * (the files the plan expects it to touch until the agent reports its changes)
+ */
+export const TaskDetail: FC<TaskDetailProps> = ({ task, maxFiles = 5 }) => {
+  const hasChanges = task.filesChanged !== undefined;
+  const files = task.filesChanged ?? task.files ?? [];
+  const actions = getAvailableActions(task.status);
+
+  return (
+    <Box flexDirection="column" paddingX={1}>
+      <Box gap={1}>
+        <Text bold color={theme.primary}>
+          {task.title}
+        </Text>
+        <Text dimColor>({task.id})</Text>
+        <Text color={getStatusColor(task.status)}>{task.status}</Text>
+        <Text dimColor>• {actions === '' ? '' : `${actions} • `}esc: close</Text>
+      </Box>
+      {isNonEmptyString(task.error) && <Text color={theme.error}>{task.error}</Text>}
+      {isNonNullish(task.usage) && <Text dimColor>Usage: {formatUsage(task.usage)}</Text>}
+      {task.dependencies.length > 0 && (
+        <Text dimColor wrap="truncate">
+          Depends on: {task.dependencies.join(', ')}
+        </Text>
+      )}
+      <Text dimColor>{hasChanges ? 'Changed files:' : 'Planned files:'}</Text>
+      {files.slice(0, maxFiles).map((file) => (
+        <Text key={file} wrap="truncate">
+          {'  '}
+          {file}
+        </Text>
+      ))}
+      {files.length > maxFiles && <Text dimColor> ... and {files.length - maxFiles} more</Text>}
+    </Box>
+  );
+};
@@ -0,0 +1,57 @@
+import React, { type FC } from 'react';
+
+import { Box, Text } from 'ink';
+
+import type { TaskUIState } from '@/ui/hooks/useExecutionState';
+
+import { theme } from '@/ui/theme';
+
+import { getStatusColor, getStatusSymbol } from './TaskProgress';
+
+export type TaskListProps = {
+  maxRows: number;
+  selectedTaskId?: string | undefined;
+  tasks: TaskUIState[];
+};
+
+/**
+ * Scrollable list of every task, keeping the selected task in view
+ */
+export const TaskList: FC<TaskListProps> = ({ tasks, selectedTaskId, maxRows }) => {
+  const selectedIndex = Math.max(
+    0,
+    tasks.findIndex((task) => task.id === selectedTaskId),
+  );
+  const rows = Math.max(1, maxRows);
+  const start = Math.min(
+    Math.max(0, selectedIndex - Math.floor(rows / 2)),
+    Math.max(0, tasks.length - rows),
+  );
+  const visibleTasks = tasks.slice(start, start + rows);
+
+  return (
+    <Box flexDirection="column" paddingX={1}>
+      <Box marginBottom={1}>
+        <Text bold>🗂 Tasks</Text>
+        {tasks.length > rows && (
+          <Text dimColor>
+            {' '}
+            {start + 1}-{start + visibleTasks.length}/{tasks.length}
+          </Text>
+        )}
+      </Box>
+      {visibleTasks.map((task) => {
+        const isSelected = task.id === selectedTaskId;
+        return (
+          <Box key={task.id}>
+            <Text color={theme.textHighlight}>{isSelected ? '›' : ' '}</Text>
+            <Text color={getStatusColor(task.status)}> {getStatusSymbol(task.status)} </Text>
+            <Text wrap="truncate" bold={isSelected} inverse={isSelected}>
+              {task.title}
+            </Text>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
@@ -12,7 +12,7 @@ export type TaskProgressProps = {
   task: TaskUIState;
 };
 
-const getStatusColor = (
+export const getStatusColor = (
   status: TaskUIState['status'],
 ): 'green' | 'red' | 'yellow' | 'gray' | 'dim' => {
   switch (status) {
@@ -31,10 +31,13 @@ const getStatusColor = (
     case 'pending': {
       return theme.taskPending;
     }
+    case 'queued': {
+      return theme.taskQueued;
+    }
   }
 };
 
-const getStatusSymbol = (status: TaskUIState['status']): string => {
+export const getStatusSymbol = (status: TaskUIState['status']): string => {
   switch (status) {
     case 'success': {
       return '✓';
@@ -51,6 +54,9 @@ const getStatusSymbol = (status: TaskUIState['status']): string => {
     case 'pending': {
       return '○';
     }
+    case 'queued': {
+      return '◷';
+    }
   }
 };
 
@@ -18,6 +18,7 @@ describe('StatusPanel', () => {
     completedLayers: 0,
     completedTasks: 0,
     failedTasks: 0,
+    queuedTasks: 0,
     runningTasks: 1,
     totalLayers: 2,
     totalTasks: 5,
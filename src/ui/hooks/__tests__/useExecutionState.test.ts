@@ -1,8 +1,19 @@
 /* eslint-disable unicorn/no-unused-properties */
-import { describe, expect, it } from 'vitest';
+import { EventEmitter } from 'node:events';
+import React, { type FC } from 'react';
 
+import { render } from 'ink-testing-library';
+import { describe, expect, it, vi } from 'vitest';
+
+import type { ExecutionOrchestrator } from '@/services/execution/execution-orchestrator';
 import type { PlanV2, TaskV2 } from '@/types/schemas-v2';
 
+import {
+  type ExecutionState,
+  useExecutionState,
+  type UseExecutionStateOptions,
+} from '../useExecutionState';
+
 describe('useExecutionState helpers', () => {
   describe('Type compatibility', () => {
     it('should support v2 PlanV2 type', () => {
@@ -143,3 +154,142 @@ describe('useExecutionState helpers', () => {
     });
   });
 });
+
+describe('useExecutionState', () => {
+  const plan: PlanV2 = {
+    name: 'Dark Mode',
+    strategy: 'parallel',
+    tasks: [
+      {
+        id: 'types',
+        name: 'Theme Types',
+        complexity: 'S',
+        description: 'Define the theme types',
+        files: ['src/theme/types.ts'],
+        dependencies: [],
+        acceptanceCriteria: [],
+      },
+      {
+        id: 'toggle',
+        name: 'Theme Toggle',
+        complexity: 'M',
+        description: 'Add the theme toggle',
+        files: ['src/toggle.tsx'],
+        dependencies: ['types'],
+        acceptanceCriteria: [],
+      },
+    ],
+  };
+
+  const createOrchestrator = (): EventEmitter & {
+    retryTask: ReturnType<typeof vi.fn>;
+    setSchedulingPaused: ReturnType<typeof vi.fn>;
+    skipTask: ReturnType<typeof vi.fn>;
+    stopTask: ReturnType<typeof vi.fn>;
+  } =>
+    Object.assign(new EventEmitter(), {
+      stopTask: vi.fn().mockReturnValue(true),
+      retryTask: vi.fn().mockReturnValue(true),
+      skipTask: vi.fn().mockReturnValue(true),
+      setSchedulingPaused: vi.fn(),
+    });
+
+  // Renders the hook in a component and exposes its latest state
+  const renderExecutionState = (
+    orchestrator: EventEmitter,
+    options: UseExecutionStateOptions = {},
+  ): { current: () => ExecutionState; unmount: () => void } => {
+    let state: ExecutionState | undefined;
+    const Harness: FC = () => {
+      state = useExecutionState(orchestrator as unknown as ExecutionOrchestrator, plan, options);
+      return null;
+    };
+    const { unmount } = render(React.createElement(Harness));
+    return {
+      current: () => {
+        if (state === undefined) {
+          throw new Error('Harness did not render');
+        }
+        return state;
+      },
+      unmount,
+    };
+  };
+
+  it('should show skipped tasks and reset them when retried', async () => {
+    const orchestrator = createOrchestrator();
+    const state = renderExecutionState(orchestrator);
+
+    orchestrator.emit('taskSkipped', { taskId: 'toggle', reason: 'Skipped by user' });
+    await vi.waitFor(() => {
+      expect(state.current().tasks.get('toggle')).toMatchObject({
+        status: 'skipped',
+        error: 'Skipped by user',
+      });
+    });
+
+    orchestrator.emit('taskRetry', { taskId: 'toggle' });
+    await vi.waitFor(() => {
+      expect(state.current().tasks.get('toggle')?.status).toBe('pending');
+    });
+    expect(state.current().tasks.get('toggle')).not.toHaveProperty('error');
+    state.unmount();
+  });
+
+  it('should send task commands to the orchestrator and log the ones it refuses', async () => {
+    const orchestrator = createOrchestrator();
+    orchestrator.retryTask.mockReturnValue(false);
+    const state = renderExecutionState(orchestrator);
+
+    state.current().controls.skipTask('toggle');
+    state.current().controls.retryTask('types');
+
+    expect(orchestrator.skipTask).toHaveBeenCalledWith('toggle');
+    expect(orchestrator.retryTask).toHaveBeenCalledWith('types');
+    await vi.waitFor(() => {
+      expect(state.current().logs).toEqual([
+        expect.objectContaining({
+          message: 'Only failed tasks can be retried',
+          taskId: 'types',
+          type: 'error',
+        }),
+      ]);
+    });
+    state.unmount();
+  });
+
+  it('should toggle pausing from the state the orchestrator reports', async () => {
+    const orchestrator = createOrchestrator();
+    const state = renderExecutionState(orchestrator);
+
+    state.current().controls.togglePause();
+    expect(orchestrator.setSchedulingPaused).toHaveBeenLastCalledWith(true);
+
+    orchestrator.emit('schedulingPaused', { paused: true });
+    await vi.waitFor(() => {
+      expect(state.current().isPaused).toBe(true);
+    });
+    state.current().controls.togglePause();
+    expect(orchestrator.setSchedulingPaused).toHaveBeenLastCalledWith(false);
+    state.unmount();
+  });
+
+  it('should only keep raw agent output in verbose mode', async () => {
+    const quietOrchestrator = createOrchestrator();
+    const verboseOrchestrator = createOrchestrator();
+    const quiet = renderExecutionState(quietOrchestrator);
+    const verbose = renderExecutionState(verboseOrchestrator, { verbose: true });
+
+    for (const orchestrator of [quietOrchestrator, verboseOrchestrator]) {
+      orchestrator.emit('stdout', { taskId: 'types', data: 'Reading files' });
+      orchestrator.emit('taskSkipped', { taskId: 'toggle', reason: 'Skipped by user' });
+    }
+
+    await vi.waitFor(() => {
+      expect(verbose.current().logs.map((log) => log.type)).toEqual(['stdout', 'status']);
+    });
+    expect(quiet.current().logs.map((log) => log.type)).toEqual(['status']);
+    quiet.unmount();
+    verbose.unmount();
+  });
+});
@@ -1,9 +1,12 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 
 import type { TaskResult } from '@/core/execution/interfaces';
+import type { TaskUsage } from '@/core/execution/types';
 import type { ExecutionOrchestrator } from '@/services/execution/execution-orchestrator';
 import type { PlanV2 } from '@/types/schemas-v2';
 
+import { PhaseScheduler } from '@/core/execution/phase-scheduler';
+import { addUsage } from '@/core/execution/task-usage';
 import { isNonEmptyString, isNonNullish } from '@/validation/guards';
 
 export type LogEntry = {
@@ -16,12 +19,16 @@ export type LogEntry = {
 
 export type TaskUIState = {
   dependencies: string[];
+  error?: string; // Why the task failed or was skipped
+  files?: string[]; // Files the plan expects the task to touch
+  filesChanged?: string[]; // Files the agent reported changing
   id: string;
   layer?: number;
   progress: number;
   startTime?: Date;
-  status: 'pending' | 'running' | 'success' | 'failure' | 'skipped';
+  status: 'pending' | 'queued' | 'running' | 'success' | 'failure' | 'skipped';
   title: string; // Display name from v2 'name'
+  usage?: TaskUsage; // Tokens and cost reported by the agent so far
 };
 
 export type ExecutionMetrics = {
@@ -30,14 +37,29 @@ export type ExecutionMetrics = {
   completedTasks: number;
   estimatedTimeRemaining?: number;
   failedTasks: number;
+  phaseNames?: string[]; // Set when the plan defines phases; layers then map to phases
+  queuedTasks: number; // Ready tasks waiting for a free execution slot (--max-parallel)
   runningTasks: number;
   startTime?: Date;
   totalLayers: number;
   totalTasks: number;
+  usage?: TaskUsage; // Summed over tasks that reported usage
+};
+
+/**
+ * Commands the TUI can send to a running execution
+ */
+export type TaskControls = {
+  retryTask: (taskId: string) => void;
+  skipTask: (taskId: string) => void;
+  stopTask: (taskId: string) => void;
+  togglePause: () => void;
 };
 
 export type ExecutionState = {
+  controls: TaskControls;
   isComplete: boolean;
+  isPaused: boolean;
   logs: LogEntry[];
   metrics: ExecutionMetrics;
   tasks: Map<string, TaskUIState>;
@@ -53,12 +75,23 @@ export function useExecutionState(
   options: UseExecutionStateOptions = {},
 ): ExecutionState {
   const verbose = options.verbose ?? false;
+  const [phaseScheduler] = useState(() => {
+    try {
+      return new PhaseScheduler(plan.phases ?? []);
+    } catch {
+      // Circular phases are rejected by validation; show the plan without phase layers
+      return new PhaseScheduler();
+    }
+  });
   const [tasks, setTasks] = useState(() => {
     const initialTasks = new Map<string, TaskUIState>();
     for (const task of plan.tasks) {
+      const phaseIndex = phaseScheduler.getPhaseIndex(task);
       initialTasks.set(task.id, {
         dependencies: task.dependencies,
+        files: task.files,
         id: task.id,
+        ...(isNonNullish(phaseIndex) && { layer: phaseIndex }),
         progress: 0,
         status: 'pending',
         title: task.name,
@@ -69,6 +102,9 @@ export function useExecutionState(
 
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [isComplete, setIsComplete] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  // Keys can arrive before the next render, so togglePause reads the state from a ref
+  const isPausedRef = useRef(false);
   const [executionStartTime, setExecutionStartTime] = useState<Date>();
   const logIdCounter = useRef(0);
   const taskDurations = useRef<number[]>([]);
@@ -113,6 +149,18 @@ export function useExecutionState(
       addLog({ message: `Starting task`, taskId, type: 'info' });
     };
 
+    const handleTaskQueued = ({ taskId }: { taskId: string }): void => {
+      setTasks((previous) => {
+        const updated = new Map(previous);
+        const task = updated.get(taskId);
+        if (isNonNullish(task)) {
+          task.status = 'queued';
+        }
+        return updated;
+      });
+      addLog({ message: `Waiting for an execution slot`, taskId, type: 'info' });
+    };
+
     const handleTaskProgress = ({
       mode,
       taskId,
@@ -213,37 +261,137 @@ export function useExecutionState(
       }
     };
 
+    const updateTask = (taskId: string, update: (task: TaskUIState) => void): void => {
+      setTasks((previous) => {
+        const updated = new Map(previous);
+        const task = updated.get(taskId);
+        if (isNonNullish(task)) {
+          update(task);
+        }
+        return updated;
+      });
+    };
+
+    const handleTaskFiles = ({ files, taskId }: { files: string[]; taskId: string }): void => {
+      updateTask(taskId, (task) => {
+        task.filesChanged = files;
+      });
+    };
+
+    const handleTaskUsage = ({ taskId, usage }: { taskId: string; usage: TaskUsage }): void => {
+      updateTask(taskId, (task) => {
+        task.usage = usage;
+      });
+    };
+
+    const handleTaskSkipped = ({ reason, taskId }: { reason: string; taskId: string }): void => {
+      updateTask(taskId, (task) => {
+        task.status = 'skipped';
+        task.error = reason;
+      });
+      addLog({ message: reason, taskId, type: 'status' });
+    };
+
+    const handleTaskRetry = ({ taskId }: { taskId: string }): void => {
+      updateTask(taskId, (task) => {
+        task.status = 'pending';
+        task.progress = 0;
+        delete task.error;
+        delete task.filesChanged;
+      });
+      addLog({ message: 'Queued for retry', taskId, type: 'status' });
+    };
+
+    const handleSchedulingPaused = ({ paused }: { paused: boolean }): void => {
+      isPausedRef.current = paused;
+      setIsPaused(paused);
+      addLog({
+        message: paused
+          ? 'Scheduling paused: running tasks will finish, no new tasks start'
+          : 'Scheduling resumed',
+        type: 'status',
+      });
+    };
+
     // Subscribe to orchestrator events
     orchestrator.on('executionStart', handleExecutionStart);
     orchestrator.on('executionComplete', handleExecutionComplete);
     orchestrator.on('executionFailed', handleExecutionFailed);
+    orchestrator.on('taskQueued', handleTaskQueued);
     orchestrator.on('taskStart', handleTaskStart);
     orchestrator.on('taskProgress', handleTaskProgress);
     orchestrator.on('taskComplete', handleTaskComplete);
     orchestrator.on('log', handleLog);
     orchestrator.on('stdout', handleStdout);
     orchestrator.on('stderr', handleStderr);
+    orchestrator.on('taskFiles', handleTaskFiles);
+    orchestrator.on('taskUsage', handleTaskUsage);
+    orchestrator.on('taskSkipped', handleTaskSkipped);
+    orchestrator.on('taskRetry', handleTaskRetry);
+    orchestrator.on('schedulingPaused', handleSchedulingPaused);
 
     // Cleanup on unmount
     return (): void => {
       orchestrator.off('executionStart', handleExecutionStart);
       orchestrator.off('executionComplete', handleExecutionComplete);
       orchestrator.off('executionFailed', handleExecutionFailed);
+      orchestrator.off('taskQueued', handleTaskQueued);
       orchestrator.off('taskStart', handleTaskStart);
       orchestrator.off('taskProgress', handleTaskProgress);
       orchestrator.off('taskComplete', handleTaskComplete);
       orchestrator.off('log', handleLog);
       orchestrator.off('stdout', handleStdout);
       orchestrator.off('stderr', handleStderr);
+      orchestrator.off('taskFiles', handleTaskFiles);
+      orchestrator.off('taskUsage', handleTaskUsage);
+      orchestrator.off('taskSkipped', handleTaskSkipped);
+      orchestrator.off('taskRetry', handleTaskRetry);
+      orchestrator.off('schedulingPaused', handleSchedulingPaused);
     };
   }, [orchestrator, addLog, tasks, verbose]);
 
+  const controls: TaskControls = {
+    stopTask: useCallback(
+      (taskId: string) => {
+        if (!orchestrator.stopTask(taskId)) {
+          addLog({ message: 'Only running tasks can be stopped', taskId, type: 'error' });
+        }
+      },
+      [orchestrator, addLog],
+    ),
+    retryTask: useCallback(
+      (taskId: string) => {
+        if (!orchestrator.retryTask(taskId)) {
+          addLog({ message: 'Only failed tasks can be retried', taskId, type: 'error' });
+        }
+      },
+      [orchestrator, addLog],
+    ),
+    skipTask: useCallback(
+      (taskId: string) => {
+        if (!orchestrator.skipTask(taskId)) {
+          addLog({
+            message: 'Only tasks that have not started can be skipped',
+            taskId,
+            type: 'error',
+          });
+        }
+      },
+      [orchestrator, addLog],
+    ),
+    togglePause: useCallback(() => {
+      orchestrator.setSchedulingPaused(!isPausedRef.current);
+    }, [orchestrator]),
+  };
+
   // Calculate metrics
   const taskArray = [...tasks.values()];
   const completedTasks = taskArray.filter((t) => t.status === 'success').length;
   const failedTasks = taskArray.filter((t) => t.status === 'failure').length;
   const runningTasks = taskArray.filter((t) => t.status === 'running').length;
-  const pendingTasks = taskArray.filter((t) => t.status === 'pending').length;
+  const queuedTasks = taskArray.filter((t) => t.status === 'queued').length;
+  const pendingTasks = taskArray.filter((t) => t.status === 'pending').length + queuedTasks;
+  const taskUsages = taskArray.map((t) => t.usage).filter((usage) => isNonNullish(usage));
 
   // Calculate average task duration
   const averageTaskDuration =
@@ -260,8 +408,12 @@ export function useExecutionState(
     estimatedTimeRemaining = (pendingTasks * averageTaskDuration) / parallelFactor;
   }
 
-  // Calculate layer metrics
-  const totalLayers = Math.max(0, ...taskArray.map((t) => t.layer ?? 0)) + 1;
+  // Calculate layer metrics (one layer per phase when the plan defines phases)
+  const phaseNames = phaseScheduler.getOrderedPhases().map((phase) => phase.name);
+  const totalLayers =
+    phaseNames.length > 0
+      ? phaseNames.length
+      : Math.max(0, ...taskArray.map((t) => t.layer ?? 0)) + 1;
   let completedLayers = 0;
 
   // Count fully completed layers (all tasks in layer are done)
@@ -285,14 +437,19 @@ export function useExecutionState(
     completedTasks,
     ...(isNonNullish(estimatedTimeRemaining) && { estimatedTimeRemaining }),
     failedTasks,
+    ...(phaseNames.length > 0 && { phaseNames }),
+    queuedTasks,
     runningTasks,
     ...(isNonNullish(executionStartTime) && { startTime: executionStartTime }),
     totalLayers,
     totalTasks: taskArray.length,
+    ...(taskUsages.length > 0 && { usage: addUsage(...taskUsages) }),
   };
 
   return {
+    controls,
     isComplete,
+    isPaused,
     logs,
     metrics,
     tasks,
@@ -10,6 +10,7 @@ import { TuiApp } from './TuiApp';
 
 export type TuiOptions = {
   jobIdRef?: { current: string | undefined } | undefined;
+  onInterrupt?: (() => void) | undefined;
   options: ExecutionOptions;
   orchestrator: ExecutionOrchestrator;
   plan: PlanV2;
@@ -20,6 +21,7 @@ export async function startTui({
   plan,
   options,
   jobIdRef,
+  onInterrupt,
 }: TuiOptions): Promise<void> {
   // Stop any lingering spinners by clearing the line and resetting cursor
   process.stdout.write('\r\u001B[K'); // Clear current line
@@ -29,7 +31,13 @@ export async function startTui({
   process.stdout.write('\u001B[H'); // Move cursor to home
 
   const app = render(
-    <TuiApp orchestrator={orchestrator} plan={plan} options={options} jobIdRef={jobIdRef} />,
+    <TuiApp
+      orchestrator={orchestrator}
+      plan={plan}
+      options={options}
+      jobIdRef={jobIdRef}
+      onInterrupt={onInterrupt}
+    />,
     {
       // Ensure we're using the full terminal
       exitOnCtrlC: false, // We handle exit ourselves
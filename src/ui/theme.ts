@@ -27,6 +27,7 @@ export const theme = {
   taskFailure: 'red' as const,
   taskSkipped: 'gray' as const,
   taskPending: 'dim' as const,
+  taskQueued: 'gray' as const,
 
   // Log type colors
   logStdout: undefined, // Default white
@@ -21,6 +21,27 @@ describe('DagValidator', () => {
   });
 
   describe('validatePlan', () => {
+    it('detects circular phase dependencies', () => {
+      const tasks = [
+        createTask({ id: 'task1', dependencies: [] }),
+        createTask({ id: 'task2', dependencies: ['task1'] }),
+      ];
+      const plan: PlanV2 = {
+        ...createPlan(tasks),
+        phases: [
+          { id: 'one', name: 'One', strategy: 'parallel', tasks: ['task1'], requires: ['two'] },
+          { id: 'two', name: 'Two', strategy: 'parallel', tasks: ['task2'], requires: ['one'] },
+        ],
+      };
+
+      const result = DagValidator.validatePlan(plan);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.some((error) => error.startsWith('Circular phase dependencies'))).toBe(
+        true,
+      );
+    });
+
     it('validates a simple valid plan', () => {
       const tasks = [
         createTask({ id: 'task1', dependencies: [] }),
@@ -118,6 +139,85 @@ describe('DagValidator', () => {
     });
   });
 
+  describe('diagnostics', () => {
+    it('reports each problem with its rule, severity and plan path', () => {
+      const tasks = [
+        createTask({ id: 'task1', files: ['src/a.ts'], dependencies: ['ghost'] }),
+        createTask({ id: 'task2', files: ['src/b.ts', 'src/a.ts'] }),
+        createTask({ id: 'task3', files: [] }),
+      ];
+
+      const result = DagValidator.validatePlan(createPlan(tasks));
+
+      expect(result.diagnostics).toEqual([
+        {
+          code: 'task-structure',
+          severity: 'error',
+          message: "Task 'task3' has no files specified",
+          path: ['tasks', 2, 'files'],
+          taskId: 'task3',
+        },
+        {
+          code: 'missing-dependency',
+          severity: 'error',
+          message: "Task 'task1' depends on missing task 'ghost'",
+          path: ['tasks', 0, 'dependencies', 0],
+          taskId: 'task1',
+        },
+        {
+          code: 'file-conflict',
+          severity: 'error',
+          message: 'src/a.ts is modified by task1 and task2, which can run in parallel',
+          path: ['tasks', 1, 'files', 1],
+          taskId: 'task2',
+          file: 'src/a.ts',
+        },
+        {
+          code: 'orphaned-task',
+          severity: 'note',
+          message: "Task 'task2' has no dependencies and no dependents",
+          path: ['tasks', 1],
+          taskId: 'task2',
+        },
+        {
+          code: 'orphaned-task',
+          severity: 'note',
+          message: "Task 'task3' has no dependencies and no dependents",
+          path: ['tasks', 2],
+          taskId: 'task3',
+        },
+      ]);
+    });
+
+    it('locates cycles at the first task or phase of the cycle', () => {
+      const plan: PlanV2 = {
+        ...createPlan([
+          createTask({ id: 'task1', files: ['a.ts'], dependencies: ['task2'] }),
+          createTask({ id: 'task2', files: ['b.ts'], dependencies: ['task1'] }),
+        ]),
+        phases: [
+          { id: 'one', name: 'One', strategy: 'parallel', tasks: ['task1'], requires: ['two'] },
+          { id: 'two', name: 'Two', strategy: 'parallel', tasks: ['task2'], requires: ['one'] },
+        ],
+      };
+
+      const result = DagValidator.validatePlan(plan);
+
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({
+          code: 'circular-dependency',
+          path: ['tasks', 0, 'dependencies'],
+          taskId: 'task1',
+        }),
+        expect.objectContaining({
+          code: 'circular-phase-dependency',
+          path: ['phases', 0, 'requires'],
+          phaseId: 'one',
+        }),
+      ]);
+    });
+  });
+
   describe('calculateMetrics', () => {
     it('calculates metrics for a linear plan', () => {
       const tasks = [
@@ -152,6 +252,20 @@ describe('DagValidator', () => {
       expect(metrics.executionLayers).toBe(3);
       expect(metrics.totalComplexityScore).toBeGreaterThan(0);
     });
+
+    it('returns the heaviest dependency chain as the critical path', () => {
+      const tasks = [
+        createTask({ id: 'task1', complexity: 'S' }),
+        createTask({ id: 'task2', dependencies: ['task1'], complexity: 'L' }),
+        createTask({ id: 'task3', dependencies: ['task1'], complexity: 'S' }),
+        createTask({ id: 'task4', dependencies: ['task2', 'task3'], complexity: 'S' }),
+      ];
+
+      const metrics = DagValidator.calculateMetrics(createPlan(tasks));
+
+      expect(metrics.criticalPath).toEqual(['task1', 'task2', 'task4']);
+      expect(metrics.criticalPathLength).toBe(12);
+    });
   });
 
   describe('getExecutionOrder', () => {
@@ -195,6 +309,43 @@ describe('DagValidator', () => {
       expect(layers[1]!.map((t) => t.id).sort()).toEqual(['task3', 'task4']);
       expect(layers[2]!.map((t) => t.id)).toEqual(['task5']);
     });
+
+    it('honors phase requirements and sequential phase strategies', () => {
+      const tasks = [
+        createTask({ id: 'setup-a', dependencies: [] }),
+        createTask({ id: 'setup-b', dependencies: [] }),
+        createTask({ id: 'impl-a', dependencies: [] }),
+        createTask({ id: 'impl-b', dependencies: [] }),
+      ];
+      const plan: PlanV2 = {
+        ...createPlan(tasks),
+        strategy: 'phased-parallel',
+        phases: [
+          {
+            id: 'setup',
+            name: 'Setup',
+            strategy: 'sequential',
+            tasks: ['setup-b', 'setup-a'],
+            requires: [],
+          },
+          {
+            id: 'impl',
+            name: 'Implementation',
+            strategy: 'parallel',
+            tasks: ['impl-a', 'impl-b'],
+            requires: ['setup'],
+          },
+        ],
+      };
+
+      const layers = DagValidator.getExecutionLayers(plan);
+
+      expect(layers.map((layer) => layer.map((t) => t.id).sort())).toEqual([
+        ['setup-b'],
+        ['setup-a'],
+        ['impl-a', 'impl-b'],
+      ]);
+    });
   });
 
   describe('file conflict detection', () => {
@@ -276,6 +427,20 @@ describe('DagValidator', () => {
       expect(result.conflicts?.[0]).toContain('shared.txt');
       expect(result.conflicts?.[0]).toMatch(/task-[ac], task-[ac]/);
     });
+
+    it('returns each conflicting task pair with its file', () => {
+      const plan = createPlan([
+        createTask({ id: 'task-a', files: ['shared.txt', 'a.txt'] }),
+        createTask({ id: 'task-b', files: ['shared.txt'], dependencies: ['task-a'] }),
+        createTask({ id: 'task-c', files: ['shared.txt', 'a.txt'] }),
+      ]);
+
+      expect(DagValidator.getFileConflicts(plan)).toEqual([
+        { file: 'shared.txt', tasks: ['task-a', 'task-c'] },
+        { file: 'shared.txt', tasks: ['task-b', 'task-c'] },
+        { file: 'a.txt', tasks: ['task-a', 'task-c'] },
+      ]);
+    });
   });
 
   describe('complex scenarios', () => {
@@ -119,6 +119,26 @@ tasks:
       expect(result).toBeDefined();
     });
 
+    it('reads snake_case acceptance criteria and success metrics', () => {
+      const yamlContent = `name: Test Plan
+strategy: sequential
+tasks:
+  - id: test
+    name: Test
+    description: A test task description with sufficient length for validation
+    files: [test.ts]
+    complexity: M
+    acceptance_criteria: [Test passes]
+success_metrics:
+  quantitative: [Coverage above 90%]`;
+
+      const result = YamlPlanParser.parseAndValidatePlan({ content: yamlContent, source: 'yaml' });
+
+      expect(result.tasks[0]).toMatchObject({ acceptanceCriteria: ['Test passes'] });
+      expect(result.tasks[0]).not.toHaveProperty('acceptance_criteria');
+      expect(result.successMetrics).toEqual({ quantitative: ['Coverage above 90%'] });
+    });
+
     it('parses and validates JSON content', () => {
       const jsonContent = JSON.stringify(mockPlan);
 
@@ -37,6 +37,13 @@ export class PlanValidationError extends DecomposerError {
   }
 }
 
+export class PlanEditError extends DecomposerError {
+  constructor(message: string, cause?: Error) {
+    super(`Plan edit failed: ${message}`, cause);
+    this.name = 'PlanEditError';
+  }
+}
+
 export class AgentExecutionError extends DecomposerError {
   constructor(
     agentType: string,
@@ -4,14 +4,18 @@ import pkg from '@dagrejs/graphlib';
 
 import type { PlanV2, TaskV2 } from '@/types/schemas-v2';
 
+import { PhaseScheduler } from '@/core/execution/phase-scheduler';
 import { PlanValidationError } from '@/utils/errors';
 
+import { createPlanDiagnostic, type PlanDiagnostic } from './plan-diagnostics';
+
 const { alg, Graph: GraphConstructor } = pkg;
 
 /**
  * Plan metrics calculated from DAG analysis
  */
 export type PlanMetrics = {
+  criticalPath: string[];
   criticalPathLength: number;
   estimatedSpeedup: number;
   executionLayers: number;
@@ -20,9 +24,19 @@ export type PlanMetrics = {
   totalComplexityScore: number;
 };
 
+/**
+ * A file touched by two tasks that have no dependency path between them
+ */
+export type FileConflict = {
+  file: string;
+  tasks: [string, string];
+};
+
 export type ValidationResult = {
   circularDependencies?: string[];
   conflicts?: string[];
+  /** Every problem above (and orphaned tasks) with the plan node it was found at */
+  diagnostics?: PlanDiagnostic[];
   errors: string[];
   missingDependencies?: string[];
   orphanedTasks?: string[];
@@ -44,24 +58,42 @@ export class DagValidator {
       // Build the dependency graph
       const graph = this._buildDependencyGraph(plan.tasks);
 
-      // Check for circular dependencies
-      const cycles = this._detectCycles(graph);
+      // Check for circular dependencies between tasks and between phases
+      const cycleComponents = this._findCycles(graph);
+      const cycles = cycleComponents.map((component) => component.join(' -> '));
+      const phaseCycleComponents = this._findPhaseCycles(plan);
 
       // Check for file conflicts
-      const fileConflicts = this._detectFileConflicts(plan.tasks);
+      const fileConflictPairs = this._findFileConflicts(plan.tasks);
+      const fileConflicts = this._formatFileConflicts(fileConflictPairs);
 
       // Check for missing dependencies
-      const missingDeps = this._detectMissingDependencies(plan.tasks);
+      const missingDepDiagnostics = this._detectMissingDependencies(plan.tasks);
+      const missingDeps = missingDepDiagnostics.map((diagnostic) => diagnostic.message);
 
       // Check for orphaned tasks
       const orphaned = this._detectOrphanedTasks(graph, plan.tasks);
 
       // Validate task structure
-      const taskErrors = this._validateTaskStructure(plan.tasks);
-
-      errors.push(...taskErrors);
+      const taskErrorDiagnostics = this._validateTaskStructure(plan.tasks);
+      const phaseCycleDiagnostics = this._createPhaseCycleDiagnostics(plan, phaseCycleComponents);
+
+      errors.push(
+        ...[...taskErrorDiagnostics, ...phaseCycleDiagnostics].map(
+          (diagnostic) => diagnostic.message,
+        ),
+      );
       conflicts.push(...fileConflicts);
 
+      const diagnostics = [
+        ...taskErrorDiagnostics,
+        ...missingDepDiagnostics,
+        ...this._createCycleDiagnostics(plan.tasks, cycleComponents),
+        ...phaseCycleDiagnostics,
+        ...this._createFileConflictDiagnostics(plan.tasks, fileConflictPairs),
+        ...this._createOrphanedTaskDiagnostics(plan.tasks, orphaned),
+      ];
+
       const result: ValidationResult = {
         valid:
           errors.length === 0 &&
@@ -73,6 +105,7 @@ export class DagValidator {
         ...(cycles.length > 0 ? { circularDependencies: cycles } : {}),
         ...(orphaned.length > 0 ? { orphanedTasks: orphaned } : {}),
         ...(missingDeps.length > 0 ? { missingDependencies: missingDeps } : {}),
+        ...(diagnostics.length > 0 ? { diagnostics } : {}),
       };
       return result;
     } catch (error) {
@@ -100,6 +133,7 @@ export class DagValidator {
         estimatedSpeedup: 1,
         totalComplexityScore: this._calculateTotalComplexity(plan.tasks),
         executionLayers: 1,
+        criticalPath: [],
         criticalPathLength: this._calculateTotalComplexity(plan.tasks),
       };
     }
@@ -112,7 +146,10 @@ export class DagValidator {
     const maxParallelization = Math.max(...layers.map((layer) => layer.length));
 
     // Calculate estimated speedup based on critical path
-    const criticalPathLength = this._calculateCriticalPathLength(graph, plan.tasks);
+    const { length: criticalPathLength, path: criticalPath } = this._calculateCriticalPath(
+      graph,
+      plan.tasks,
+    );
     const totalSequentialTime = this._calculateTotalComplexity(plan.tasks);
     const estimatedSpeedup = totalSequentialTime / Math.max(criticalPathLength, 1);
 
@@ -122,10 +159,25 @@ export class DagValidator {
       estimatedSpeedup,
       totalComplexityScore: totalSequentialTime,
       executionLayers: layers.length,
+      criticalPath,
       criticalPathLength,
     };
   }
 
+  /**
+   * Find pairs of tasks that could run in parallel while modifying the same file
+   */
+  static getFileConflicts(plan: PlanV2): FileConflict[] {
+    return this._findFileConflicts(plan.tasks);
+  }
+
+  /**
+   * Numeric weight of a task's t-shirt size, as used for the critical path
+   */
+  static getComplexityScore(complexity: TaskV2['complexity']): number {
+    return this._complexityToScore(complexity);
+  }
+
   /**
    * Convert t-shirt size complexity to numeric score for calculations
    */
@@ -185,10 +237,11 @@ export class DagValidator {
   }
 
   /**
-   * Get tasks grouped by execution layers for parallel processing
+   * Get tasks grouped by execution layers for parallel processing.
+   * Plan phases are honored: required phases come first and sequential phases run one task per layer.
    */
   static getExecutionLayers(plan: PlanV2): TaskV2[][] {
-    const graph = this._buildDependencyGraph(plan.tasks);
+    const graph = this._buildDependencyGraph(this._applyPhaseConstraints(plan));
 
     // Check for cycles before trying to get topological order
     const cycles = this._detectCycles(graph);
@@ -231,7 +284,11 @@ export class DagValidator {
   }
 
   private static _detectCycles(graph: Graph): string[] {
-    const cycles: string[] = [];
+    return this._findCycles(graph).map((component) => component.join(' -> '));
+  }
+
+  private static _findCycles(graph: Graph): string[][] {
+    const cycles: string[][] = [];
 
     try {
       // If topsort throws, there are cycles
@@ -241,7 +298,7 @@ export class DagValidator {
       const components = alg.tarjan(graph);
       for (const component of components) {
         if (component.length > 1) {
-          cycles.push(component.join(' -> '));
+          cycles.push(component);
         }
       }
     }
@@ -249,7 +306,45 @@ export class DagValidator {
     return cycles;
   }
 
-  private static _detectFileConflicts(tasks: TaskV2[]): string[] {
+  private static _applyPhaseConstraints(plan: PlanV2): TaskV2[] {
+    try {
+      return new PhaseScheduler(plan.phases ?? []).constrainTasks(plan.tasks);
+    } catch {
+      // Circular phases are reported by validatePlan; fall back to task dependencies only
+      return plan.tasks;
+    }
+  }
+
+  private static _findPhaseCycles(plan: PlanV2): string[][] {
+    const graph = new GraphConstructor({ directed: true });
+
+    for (const phase of plan.phases ?? []) {
+      graph.setNode(phase.id);
+      for (const requiredPhaseId of phase.requires) {
+        graph.setEdge(requiredPhaseId, phase.id);
+      }
+    }
+
+    return alg.findCycles(graph);
+  }
+
+  private static _formatFileConflicts(fileConflicts: FileConflict[]): string[] {
+    const pairsByFile = new Map<string, string[]>();
+    for (const {
+      file,
+      tasks: [taskA, taskB],
+    } of fileConflicts) {
+      const pairs = pairsByFile.get(file) ?? [];
+      pairs.push(`${taskA}, ${taskB}`);
+      pairsByFile.set(file, pairs);
+    }
+
+    return [...pairsByFile].map(
+      ([file, pairs]) => `${file} (parallel conflicts: ${pairs.join('; ')})`,
+    );
+  }
+
+  private static _findFileConflicts(tasks: TaskV2[]): FileConflict[] {
     const fileToTasks = new Map<string, string[]>();
     const graph = this._buildDependencyGraph(tasks);
 
@@ -267,31 +362,23 @@ export class DagValidator {
     }
 
     // Find files modified by multiple tasks that could run in parallel (true conflicts)
-    const conflicts: string[] = [];
+    const conflicts: FileConflict[] = [];
     for (const [file, taskIds] of fileToTasks) {
-      if (taskIds.length > 1) {
-        // Check if any pair of tasks could run in parallel
-        const conflictingPairs: string[] = [];
-
-        for (let index = 0; index < taskIds.length; index++) {
-          for (let innerIndex = index + 1; innerIndex < taskIds.length; innerIndex++) {
-            const taskA = taskIds[index] as string;
-            const taskB = taskIds[innerIndex] as string;
-
-            // Check if there's a dependency path between these tasks
-            const hasPathAtoB = this._hasPath(graph, taskA, taskB);
-            const hasPathBtoA = this._hasPath(graph, taskB, taskA);
-
-            // If neither depends on the other, they could run in parallel - that's a conflict
-            if (!hasPathAtoB && !hasPathBtoA) {
-              conflictingPairs.push(`${taskA}, ${taskB}`);
-            }
+      // Check if any pair of tasks could run in parallel
+      for (let index = 0; index < taskIds.length; index++) {
+        for (let innerIndex = index + 1; innerIndex < taskIds.length; innerIndex++) {
+          const taskA = taskIds[index] as string;
+          const taskB = taskIds[innerIndex] as string;
+
+          // Check if there's a dependency path between these tasks
+          const hasPathAtoB = this._hasPath(graph, taskA, taskB);
+          const hasPathBtoA = this._hasPath(graph, taskB, taskA);
+
+          // If neither depends on the other, they could run in parallel - that's a conflict
+          if (!hasPathAtoB && !hasPathBtoA) {
+            conflicts.push({ file, tasks: [taskA, taskB] });
           }
         }
-
-        if (conflictingPairs.length > 0) {
-          conflicts.push(`${file} (parallel conflicts: ${conflictingPairs.join('; ')})`);
-        }
       }
     }
 
@@ -331,14 +418,21 @@ export class DagValidator {
     return false;
   }
 
-  private static _detectMissingDependencies(tasks: TaskV2[]): string[] {
+  private static _detectMissingDependencies(tasks: TaskV2[]): PlanDiagnostic[] {
     const taskIds = new Set(tasks.map((task) => task.id));
-    const missing: string[] = [];
+    const missing: PlanDiagnostic[] = [];
 
-    for (const task of tasks) {
-      for (const depId of task.dependencies) {
+    for (const [taskIndex, task] of tasks.entries()) {
+      for (const [depIndex, depId] of task.dependencies.entries()) {
         if (!taskIds.has(depId)) {
-          missing.push(`Task '${task.id}' depends on missing task '${depId}'`);
+          missing.push(
+            createPlanDiagnostic(
+              'missing-dependency',
+              `Task '${task.id}' depends on missing task '${depId}'`,
+              ['tasks', taskIndex, 'dependencies', depIndex],
+              { taskId: task.id },
+            ),
+          );
         }
       }
     }
@@ -365,36 +459,108 @@ export class DagValidator {
     return orphaned;
   }
 
-  private static _validateTaskStructure(tasks: TaskV2[]): string[] {
-    const errors: string[] = [];
+  private static _validateTaskStructure(tasks: TaskV2[]): PlanDiagnostic[] {
+    const errors: PlanDiagnostic[] = [];
+
+    for (const [index, task] of tasks.entries()) {
+      const addError = (message: string, field: keyof TaskV2): void => {
+        errors.push(
+          createPlanDiagnostic('task-structure', message, ['tasks', index, field], {
+            taskId: task.id,
+          }),
+        );
+      };
 
-    for (const task of tasks) {
       if (task.id.length === 0 || task.id.trim().length === 0) {
-        errors.push('Task missing ID');
+        addError('Task missing ID', 'id');
       }
 
       if (task.name.length === 0 || task.name.trim().length === 0) {
-        errors.push(`Task '${task.id}' missing name`);
+        addError(`Task '${task.id}' missing name`, 'name');
       }
 
       if (task.description.length === 0 || task.description.trim().length === 0) {
-        errors.push(`Task '${task.id}' missing description`);
+        addError(`Task '${task.id}' missing description`, 'description');
       }
 
       if (task.files.length === 0) {
-        errors.push(`Task '${task.id}' has no files specified`);
+        addError(`Task '${task.id}' has no files specified`, 'files');
       }
 
       // Validate complexity is one of the allowed values
       const validComplexities = ['XS', 'S', 'M', 'L', 'XL'];
       if (!validComplexities.includes(task.complexity)) {
-        errors.push(`Task '${task.id}' has invalid complexity: ${task.complexity}`);
+        addError(`Task '${task.id}' has invalid complexity: ${task.complexity}`, 'complexity');
       }
     }
 
     return errors;
   }
 
+  /**
+   * One diagnostic per cycle, at the dependencies of its first task in plan order
+   */
+  private static _createCycleDiagnostics(tasks: TaskV2[], cycles: string[][]): PlanDiagnostic[] {
+    return cycles.map((component) => {
+      const index = tasks.findIndex((task) => component.includes(task.id));
+      return createPlanDiagnostic(
+        'circular-dependency',
+        `Circular dependency: ${component.join(' -> ')}`,
+        ['tasks', index, 'dependencies'],
+        { taskId: tasks[index]?.id ?? (component[0] as string) },
+      );
+    });
+  }
+
+  /**
+   * One diagnostic per cycle, at the `requires` of its first phase in plan order
+   */
+  private static _createPhaseCycleDiagnostics(plan: PlanV2, cycles: string[][]): PlanDiagnostic[] {
+    const phases = plan.phases ?? [];
+    return cycles.map((component) => {
+      const index = phases.findIndex((phase) => component.includes(phase.id));
+      return createPlanDiagnostic(
+        'circular-phase-dependency',
+        `Circular phase dependencies: ${component.join(' -> ')}`,
+        ['phases', index, 'requires'],
+        { phaseId: phases[index]?.id ?? (component[0] as string) },
+      );
+    });
+  }
+
+  /**
+   * One diagnostic per conflicting pair, at the file entry of the pair's second task
+   */
+  private static _createFileConflictDiagnostics(
+    tasks: TaskV2[],
+    fileConflicts: FileConflict[],
+  ): PlanDiagnostic[] {
+    return fileConflicts.map(({ file, tasks: [taskA, taskB] }) => {
+      const index = tasks.findIndex((task) => task.id === taskB);
+      const fileIndex = tasks[index]?.files.indexOf(file) ?? -1;
+      return createPlanDiagnostic(
+        'file-conflict',
+        `${file} is modified by ${taskA} and ${taskB}, which can run in parallel`,
+        ['tasks', index, 'files', fileIndex],
+        { taskId: taskB, file },
+      );
+    });
+  }
+
+  private static _createOrphanedTaskDiagnostics(
+    tasks: TaskV2[],
+    orphaned: string[],
+  ): PlanDiagnostic[] {
+    return orphaned.map((taskId) =>
+      createPlanDiagnostic(
+        'orphaned-task',
+        `Task '${taskId}' has no dependencies and no dependents`,
+        ['tasks', tasks.findIndex((task) => task.id === taskId)],
+        { taskId },
+      ),
+    );
+  }
+
   private static _calculateExecutionLayers(graph: Graph, topologicalOrder: string[]): string[][] {
     const layers: string[][] = [];
     const processed = new Set<string>();
@@ -431,9 +597,18 @@ export class DagValidator {
     return layers;
   }
 
-  private static _calculateCriticalPathLength(graph: Graph, tasks: TaskV2[]): number {
+  /**
+   * Find the heaviest dependency chain by complexity score
+   *
+   * @returns The chain's total score and its task IDs in dependency order
+   */
+  private static _calculateCriticalPath(
+    graph: Graph,
+    tasks: TaskV2[],
+  ): { length: number; path: string[] } {
     const taskMap = new Map(tasks.map((task) => [task.id, task]));
     const memoized = new Map<string, number>();
+    const predecessors = new Map<string, string>();
 
     const calculatePath = (taskId: string): number => {
       if (memoized.has(taskId)) {
@@ -455,7 +630,10 @@ export class DagValidator {
 
       for (const edge of dependencies) {
         const depPath = calculatePath(String(edge.v));
-        maxDepPath = Math.max(maxDepPath, depPath);
+        if (depPath > maxDepPath) {
+          maxDepPath = depPath;
+          predecessors.set(taskId, String(edge.v));
+        }
       }
 
       const totalPath = maxDepPath + taskComplexity;
@@ -463,11 +641,21 @@ export class DagValidator {
       return totalPath;
     };
 
-    let criticalPath = 0;
+    let criticalPathLength = 0;
+    let criticalPathEnd: string | undefined;
     for (const task of tasks) {
-      criticalPath = Math.max(criticalPath, calculatePath(task.id));
+      const pathLength = calculatePath(task.id);
+      if (pathLength > criticalPathLength) {
+        criticalPathLength = pathLength;
+        criticalPathEnd = task.id;
+      }
+    }
+
+    const path: string[] = [];
+    for (let taskId = criticalPathEnd; taskId !== undefined; taskId = predecessors.get(taskId)) {
+      path.unshift(taskId);
     }
 
-    return criticalPath;
+    return { length: criticalPathLength, path };
   }
 }
@@ -11,6 +11,15 @@ export {
   isNonNullish,
   isValidArray,
 } from './guards';
+export {
+  createPlanDiagnostic,
+  PLAN_DIAGNOSTIC_RULES,
+  type PlanDiagnostic,
+  type PlanDiagnosticCode,
+  type PlanDiagnosticRule,
+  type PlanDiagnosticSeverity,
+  type PlanSourceLocation,
+} from './plan-diagnostics';
 export {
   safeValidate,
   strictValidate,
@@ -0,0 +1,126 @@
+/**
+ * Structured plan problems emitted by the plan parser and validators
+ */
+
+export type PlanDiagnosticSeverity = 'error' | 'warning' | 'note';
+
+/**
+ * Stable rule codes; renaming one breaks suppressions in editors and code-scanning UIs
+ */
+export type PlanDiagnosticCode =
+  | 'circular-dependency'
+  | 'circular-phase-dependency'
+  | 'file-conflict'
+  | 'missing-dependency'
+  | 'no-dependencies'
+  | 'orphaned-task'
+  | 'schema'
+  | 'short-description'
+  | 'task-structure'
+  | 'too-many-files'
+  | 'vague-file-pattern'
+  | 'xl-task'
+  | 'yaml-syntax';
+
+/**
+ * 1-based position of a diagnostic in the plan file. The end is only known for scalars.
+ */
+export type PlanSourceLocation = {
+  column: number;
+  endColumn?: number;
+  endLine?: number;
+  line: number;
+};
+
+export type PlanDiagnostic = {
+  code: PlanDiagnosticCode;
+  /** File the affected task modifies, for file-level problems */
+  file?: string;
+  /** Set once the diagnostic has been mapped back to the plan source */
+  location?: PlanSourceLocation;
+  message: string;
+  /** Path of the offending node in the plan document, e.g. `['tasks', 2, 'dependencies', 0]` */
+  path: Array<number | string>;
+  phaseId?: string;
+  severity: PlanDiagnosticSeverity;
+  taskId?: string;
+};
+
+export type PlanDiagnosticRule = {
+  description: string;
+  severity: PlanDiagnosticSeverity;
+};
+
+/* eslint-disable @typescript-eslint/naming-convention -- keyed by kebab-case rule code */
+
+/**
+ * Description and default severity of every rule, e.g. for SARIF rule metadata
+ */
+export const PLAN_DIAGNOSTIC_RULES: Record<PlanDiagnosticCode, PlanDiagnosticRule> = {
+  'circular-dependency': {
+    description: 'Task dependencies must not form a cycle',
+    severity: 'error',
+  },
+  'circular-phase-dependency': {
+    description: 'Phase requirements must not form a cycle',
+    severity: 'error',
+  },
+  'file-conflict': {
+    description: 'Tasks that can run in parallel must not modify the same file',
+    severity: 'error',
+  },
+  'missing-dependency': {
+    description: 'Task dependencies must reference existing tasks',
+    severity: 'error',
+  },
+  'no-dependencies': {
+    description: 'M and L tasks usually depend on setup or foundation tasks',
+    severity: 'note',
+  },
+  'orphaned-task': {
+    description: 'Task has no dependencies and no dependents',
+    severity: 'note',
+  },
+  schema: {
+    description: 'Plan must match the plan schema',
+    severity: 'error',
+  },
+  'short-description': {
+    description: 'Task descriptions should explain what to do and why',
+    severity: 'note',
+  },
+  'task-structure': {
+    description: 'Tasks need an ID, name, description, files and a valid complexity',
+    severity: 'error',
+  },
+  'too-many-files': {
+    description: 'Tasks touching many files are poorly scoped',
+    severity: 'warning',
+  },
+  'vague-file-pattern': {
+    description: 'Task files must be exact paths, not wildcards',
+    severity: 'warning',
+  },
+  'xl-task': {
+    description: 'XL tasks should be split into smaller tasks',
+    severity: 'warning',
+  },
+  'yaml-syntax': {
+    description: 'Plan file must be valid YAML or JSON',
+    severity: 'error',
+  },
+};
+
+/* eslint-enable @typescript-eslint/naming-convention */
+
+/**
+ * Create a diagnostic with its rule's default severity
+ */
+export function createPlanDiagnostic(
+  code: PlanDiagnosticCode,
+  message: string,
+  path: Array<number | string>,
+  context: Pick<PlanDiagnostic, 'file' | 'location' | 'phaseId' | 'taskId'> = {},
+): PlanDiagnostic {
+  return { code, severity: PLAN_DIAGNOSTIC_RULES[code].severity, message, path, ...context };
+}
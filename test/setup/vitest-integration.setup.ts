@@ -26,6 +26,7 @@ vi.mock('node:fs/promises', async (importOriginal) => {
   const shouldUseRealFs =
     testFile.includes('/vcs/') ||
     testFile.includes('/engine/') ||
+    testFile.includes('/services/config/') ||
     testFile.includes('worktree-manager') ||
     testFile.includes('cli-runner.integration.test.ts'); // CLI runner needs real FS too
 
@@ -24,7 +24,7 @@ export default defineConfig({
             'test/e2e/**/*.test.ts',
             'test/execution/**/*.test.ts',
           ],
-          include: ['src/**/__tests__/*.test.ts'],
+          include: ['src/**/__tests__/*.test.ts', 'src/**/__tests__/*.test.tsx'],
           name: 'unit',
           setupFiles: ['test/setup/vitest-unit.setup.ts', 'test/setup/worktree-cleanup.ts'],
           testTimeout: 5000,